@@ -12,14 +12,21 @@ import ResetPassword from "./pages/ResetPassword";
 import Dashboard from "./pages/Dashboard";
 import Patients from "./pages/Patients";
 import Batches from "./pages/Batches";
+import Programmes from "./pages/Programmes";
+import Cohorts from "./pages/Cohorts";
+import CallScripts from "./pages/CallScripts";
 import Calls from "./pages/Calls";
 import Settings from "./pages/Settings";
 import MediTask from "./pages/MediTask";
 import AIAnalytics from "./pages/AIAnalytics";
+import QOFReports from "./pages/QOFReports";
+import QOFExceptions from "./pages/QOFExceptions";
 import AITasks from "./pages/AITasks";
 import ClinicalVerification from "./pages/ClinicalVerification";
 import CaldicottDashboard from "./pages/CaldicottDashboard";
 import UserManagement from "./pages/UserManagement";
+import ClinicalRuleSettings from "./pages/ClinicalRuleSettings";
+import PatientDuplicates from "./pages/PatientDuplicates";
 import Unauthorized from "./pages/Unauthorized";
 import NotFound from "./pages/NotFound";
 
@@ -42,13 +49,48 @@ const App = () => (
               <Route path="/dashboard" element={<Dashboard />} />
               <Route path="/calls" element={<Calls />} />
               <Route path="/batches" element={<Batches />} />
+              <Route path="/programmes" element={<Programmes />} />
+              <Route path="/cohorts" element={<Cohorts />} />
+              <Route path="/call-scripts" element={<CallScripts />} />
               <Route path="/patients" element={<Patients />} />
+              <Route
+                path="/patients/duplicates"
+                element={
+                  <RoleGuard allowedRoles={["gp", "admin"]}>
+                    <PatientDuplicates />
+                  </RoleGuard>
+                }
+              />
               <Route path="/meditask" element={<MediTask />} />
               <Route path="/clinical-verification" element={<ClinicalVerification />} />
               <Route path="/ai-analytics" element={<AIAnalytics />} />
+              <Route
+                path="/qof-reports"
+                element={
+                  <RoleGuard allowedRoles={["gp", "admin", "caldicott_guardian"]}>
+                    <QOFReports />
+                  </RoleGuard>
+                }
+              />
+              <Route
+                path="/qof-exceptions"
+                element={
+                  <RoleGuard allowedRoles={["gp", "admin", "caldicott_guardian"]}>
+                    <QOFExceptions />
+                  </RoleGuard>
+                }
+              />
               <Route path="/ai-tasks" element={<AITasks />} />
               <Route path="/user-management" element={<UserManagement />} />
               <Route path="/caldicott" element={<CaldicottDashboard />} />
+              <Route
+                path="/clinical-rules"
+                element={
+                  <RoleGuard allowedRoles={["gp", "admin"]}>
+                    <ClinicalRuleSettings />
+                  </RoleGuard>
+                }
+              />
               <Route path="/profile" element={<Settings />} />
             </Route>
             <Route path="*" element={<NotFound />} />
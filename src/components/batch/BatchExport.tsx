@@ -5,6 +5,9 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Label } from "@/components/ui/label";
 import { Download, FileSpreadsheet } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
+import { useAuditLog } from "@/hooks/useAuditLog";
+import { buildFhirBundle } from "@/lib/fhir-export";
+import { buildCodedExportRows, codedRowsToCsv } from "@/lib/coded-export";
 import { toast } from "sonner";
 
 interface BatchExportProps {
@@ -12,12 +15,13 @@ interface BatchExportProps {
   batchName: string;
 }
 
-type ExportFormat = "emis_csv" | "full_csv" | "summary_csv";
+type ExportFormat = "emis_csv" | "coded_csv" | "full_csv" | "summary_csv" | "fhir_bundle";
 
 export function BatchExport({ batchId, batchName }: BatchExportProps) {
   const [open, setOpen] = useState(false);
   const [format, setFormat] = useState<ExportFormat>("emis_csv");
   const [isExporting, setIsExporting] = useState(false);
+  const { logAction } = useAuditLog();
 
   const exportData = async () => {
     setIsExporting(true);
@@ -45,12 +49,79 @@ export function BatchExport({ batchId, batchName }: BatchExportProps) {
       const calls = callsRes.data || [];
       const responses = responsesRes.data || [];
 
-      let csvContent = "";
+      let content = "";
       let filename = "";
+      let mimeType = "text/csv;charset=utf-8;";
 
-      if (format === "emis_csv") {
+      // Clinical system imports take verified responses from this batch's calls only,
+      // so re-exporting does not refile older results
+      const batchCallIds = new Set(calls.map(c => c.id));
+      const verified = responses.filter(r => r.verification_status === "verified" && batchCallIds.has(r.call_id));
+
+      if (format === "coded_csv") {
+        if (!verified.length) {
+          toast.error("No verified responses to export");
+          return;
+        }
+
+        const [{ data: dbCodes }, { data: codedObservations }] = await Promise.all([
+          supabase.from("emis_read_codes").select("metric_type, read_code, snomed_code, description"),
+          supabase
+            .from("patient_observations")
+            .select("call_response_id, observation_key, snomed_code, display_name, value_numeric, value_boolean, value_code, unit")
+            .in("call_response_id", verified.map(r => r.id)),
+        ]);
+
+        const { rows, skippedPatients } = buildCodedExportRows(patients, verified, dbCodes || [], codedObservations || []);
+        if (!rows.length) {
+          toast.error("No verified patients have an NHS number to export against");
+          return;
+        }
+
+        content = codedRowsToCsv(rows);
+        filename = `${batchName.replace(/[^a-z0-9]/gi, "_")}_Coded_Import.csv`;
+
+        logAction("export_coded_csv", "export", batchId, {
+          rows: rows.length,
+          patients: new Set(rows.map(r => r.nhsNumber)).size,
+          responses: verified.length,
+          skipped_no_nhs_number: skippedPatients,
+        });
+        if (skippedPatients > 0) {
+          toast.warning(`${skippedPatients} patient(s) skipped with no NHS number`);
+        }
+      } else if (format === "fhir_bundle") {
+        if (!verified.length) {
+          toast.error("No verified responses to export");
+          return;
+        }
+
+        const { data: codedObservations } = await supabase
+          .from("patient_observations")
+          .select("call_response_id, observation_key, snomed_code, display_name, value_numeric, value_boolean, value_code, unit")
+          .in("call_response_id", verified.map(r => r.id));
+
+        const result = buildFhirBundle(patients, verified, codedObservations || []);
+        if (!result.patientCount) {
+          toast.error("No verified patients have an NHS number to export against");
+          return;
+        }
+
+        content = JSON.stringify(result.bundle, null, 2);
+        mimeType = "application/fhir+json;charset=utf-8;";
+        filename = `${batchName.replace(/[^a-z0-9]/gi, "_")}_FHIR_Bundle.json`;
+
+        logAction("export_fhir_bundle", "export", batchId, {
+          patients: result.patientCount,
+          observations: result.observationCount,
+          skipped_no_nhs_number: result.skippedPatients,
+        });
+        if (result.skippedPatients > 0) {
+          toast.warning(`${result.skippedPatients} patient(s) skipped with no NHS number`);
+        }
+      } else if (format === "emis_csv") {
         // EMIS-compatible format with just the collected metrics
-        csvContent = "NHS_Number,Name,Smoking_Status,BP_Systolic,BP_Diastolic,Weight_Kg,Height_Cm,Alcohol_Units,Is_Carer,Collection_Date\n";
+        content = "NHS_Number,Name,Smoking_Status,BP_Systolic,BP_Diastolic,Weight_Kg,Height_Cm,Alcohol_Units,Is_Carer,Collection_Date\n";
         
         for (const patient of patients) {
           const patientResponses = responses.filter(r => r.patient_id === patient.id);
@@ -59,13 +130,13 @@ export function BatchExport({ batchId, batchName }: BatchExportProps) {
           )[0];
 
           if (latestResponse) {
-            csvContent += `"${patient.nhs_number || ""}","${patient.name}","${latestResponse.smoking_status || ""}",${latestResponse.blood_pressure_systolic || ""},${latestResponse.blood_pressure_diastolic || ""},${latestResponse.weight_kg || ""},${latestResponse.height_cm || ""},${latestResponse.alcohol_units_per_week || ""},${latestResponse.is_carer ? "Yes" : "No"},"${latestResponse.collected_at.split("T")[0]}"\n`;
+            content += `"${patient.nhs_number || ""}","${patient.name}","${latestResponse.smoking_status || ""}",${latestResponse.blood_pressure_systolic || ""},${latestResponse.blood_pressure_diastolic || ""},${latestResponse.weight_kg || ""},${latestResponse.height_cm || ""},${latestResponse.alcohol_units_per_week || ""},${latestResponse.is_carer ? "Yes" : "No"},"${latestResponse.collected_at.split("T")[0]}"\n`;
           }
         }
         filename = `${batchName.replace(/[^a-z0-9]/gi, "_")}_EMIS_Import.csv`;
       } else if (format === "full_csv") {
         // Full export with all data
-        csvContent = "NHS_Number,Name,Phone,DOB,Conditions,Smoking_Status,BP_Systolic,BP_Diastolic,Weight_Kg,Height_Cm,Alcohol_Units,HbA1c,Call_Status,Call_Duration,Collection_Date\n";
+        content = "NHS_Number,Name,Phone,DOB,Conditions,Smoking_Status,BP_Systolic,BP_Diastolic,Weight_Kg,Height_Cm,Alcohol_Units,HbA1c,Call_Status,Call_Duration,Collection_Date\n";
         
         for (const patient of patients) {
           const patientCalls = calls.filter(c => c.patient_id === patient.id);
@@ -73,7 +144,7 @@ export function BatchExport({ batchId, batchName }: BatchExportProps) {
           const latestCall = patientCalls[0];
           const latestResponse = patientResponses[0];
 
-          csvContent += `"${patient.nhs_number || ""}","${patient.name}","${patient.phone_number}","${patient.date_of_birth || ""}","${(patient.conditions || []).join("; ")}","${latestResponse?.smoking_status || ""}",${latestResponse?.blood_pressure_systolic || ""},${latestResponse?.blood_pressure_diastolic || ""},${latestResponse?.weight_kg || ""},${latestResponse?.height_cm || ""},${latestResponse?.alcohol_units_per_week || ""},${patient.hba1c_mmol_mol || ""},"${latestCall?.status || ""}",${latestCall?.duration_seconds || ""},"${latestResponse?.collected_at?.split("T")[0] || ""}"\n`;
+          content += `"${patient.nhs_number || ""}","${patient.name}","${patient.phone_number}","${patient.date_of_birth || ""}","${(patient.conditions || []).join("; ")}","${latestResponse?.smoking_status || ""}",${latestResponse?.blood_pressure_systolic || ""},${latestResponse?.blood_pressure_diastolic || ""},${latestResponse?.weight_kg || ""},${latestResponse?.height_cm || ""},${latestResponse?.alcohol_units_per_week || ""},${patient.hba1c_mmol_mol || ""},"${latestCall?.status || ""}",${latestCall?.duration_seconds || ""},"${latestResponse?.collected_at?.split("T")[0] || ""}"\n`;
         }
         filename = `${batchName.replace(/[^a-z0-9]/gi, "_")}_Full_Export.csv`;
       } else {
@@ -82,14 +153,14 @@ export function BatchExport({ batchId, batchName }: BatchExportProps) {
         const failed = calls.filter(c => c.status === "failed" || c.status === "no_answer").length;
         const pending = calls.filter(c => c.status === "pending").length;
 
-        csvContent = "Batch Summary Report\n\n";
-        csvContent += `Batch Name,${batchName}\n`;
-        csvContent += `Total Patients,${patients.length}\n`;
-        csvContent += `Completed Calls,${completed}\n`;
-        csvContent += `Failed Calls,${failed}\n`;
-        csvContent += `Pending Calls,${pending}\n`;
-        csvContent += `Responses Collected,${responses.length}\n\n`;
-        csvContent += "Collected Metrics Summary\n";
+        content = "Batch Summary Report\n\n";
+        content += `Batch Name,${batchName}\n`;
+        content += `Total Patients,${patients.length}\n`;
+        content += `Completed Calls,${completed}\n`;
+        content += `Failed Calls,${failed}\n`;
+        content += `Pending Calls,${pending}\n`;
+        content += `Responses Collected,${responses.length}\n\n`;
+        content += "Collected Metrics Summary\n";
         
         const smokingCounts: Record<string, number> = {};
         responses.forEach(r => {
@@ -98,16 +169,16 @@ export function BatchExport({ batchId, batchName }: BatchExportProps) {
           }
         });
         
-        csvContent += "Smoking Status Breakdown\n";
+        content += "Smoking Status Breakdown\n";
         Object.entries(smokingCounts).forEach(([status, count]) => {
-          csvContent += `${status},${count}\n`;
+          content += `${status},${count}\n`;
         });
 
         filename = `${batchName.replace(/[^a-z0-9]/gi, "_")}_Summary.csv`;
       }
 
       // Download file
-      const blob = new Blob([csvContent], { type: "text/csv;charset=utf-8;" });
+      const blob = new Blob([content], { type: mimeType });
       const url = URL.createObjectURL(blob);
       const link = document.createElement("a");
       link.href = url;
@@ -157,12 +228,24 @@ export function BatchExport({ batchId, batchName }: BatchExportProps) {
                     <p className="text-xs text-muted-foreground">NHS#, metrics only - ready for EMIS import</p>
                   </div>
                 </SelectItem>
+                <SelectItem value="coded_csv">
+                  <div>
+                    <span className="font-medium">EMIS / SystmOne Coded Import</span>
+                    <p className="text-xs text-muted-foreground">Verified only, one row per observation with SNOMED and Read v2 codes</p>
+                  </div>
+                </SelectItem>
                 <SelectItem value="full_csv">
                   <div>
                     <span className="font-medium">Full Export</span>
                     <p className="text-xs text-muted-foreground">All patient data and call results</p>
                   </div>
                 </SelectItem>
+                <SelectItem value="fhir_bundle">
+                  <div>
+                    <span className="font-medium">FHIR R4 Bundle</span>
+                    <p className="text-xs text-muted-foreground">Verified observations, SNOMED coded - for GP systems and shared care records</p>
+                  </div>
+                </SelectItem>
                 <SelectItem value="summary_csv">
                   <div>
                     <span className="font-medium">Summary Report</span>
@@ -174,7 +257,7 @@ export function BatchExport({ batchId, batchName }: BatchExportProps) {
           </div>
 
           <Button onClick={exportData} className="w-full" disabled={isExporting}>
-            {isExporting ? "Exporting..." : "Download CSV"}
+            {isExporting ? "Exporting..." : format === "fhir_bundle" ? "Download FHIR Bundle" : "Download CSV"}
           </Button>
         </div>
       </DialogContent>
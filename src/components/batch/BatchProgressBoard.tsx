@@ -0,0 +1,362 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuditLog } from '@/hooks/useAuditLog';
+import { useToast } from '@/hooks/use-toast';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Activity, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface BatchProgressBoardProps {
+  batchId: string;
+  batchName: string;
+  onClose?: () => void;
+}
+
+interface BoardCall {
+  id: string;
+  patient_id: string;
+  status: string;
+  live_stage: string | null;
+  direction: string;
+  attempt_number: number;
+  started_at: string | null;
+  ended_at: string | null;
+  duration_seconds: number | null;
+}
+
+interface BoardQueueItem {
+  id: string;
+  patient_id: string;
+  status: string;
+  attempt_number: number;
+  scheduled_for: string;
+}
+
+type BoardStage =
+  | 'queued'
+  | 'ringing'
+  | 'consent'
+  | 'conversation'
+  | 'completed'
+  | 'no_answer'
+  | 'declined'
+  | 'cancelled';
+
+interface BoardEntry {
+  patientId: string;
+  name: string;
+  stage: BoardStage;
+  attempt: number;
+  isCallback?: boolean;
+  // Queue item that can still be cancelled
+  queueItemId?: string;
+  scheduledFor?: string;
+  startedAt?: string | null;
+  durationSeconds?: number | null;
+}
+
+const STAGES: { key: BoardStage; label: string; className: string }[] = [
+  { key: 'queued', label: 'Queued', className: 'border-muted-foreground/20' },
+  { key: 'ringing', label: 'Ringing', className: 'border-blue-200 bg-blue-500/5' },
+  { key: 'consent', label: 'Consent', className: 'border-purple-200 bg-purple-500/5' },
+  { key: 'conversation', label: 'In Conversation', className: 'border-primary/30 bg-primary/5' },
+  { key: 'completed', label: 'Completed', className: 'border-green-200 bg-green-500/5' },
+  { key: 'no_answer', label: 'No Answer', className: 'border-amber-200 bg-amber-500/5' },
+  { key: 'declined', label: 'Declined', className: 'border-muted bg-muted/40' },
+];
+
+// calls.live_stage → board column for a call still on the line
+const LIVE_STAGE_COLUMNS: Record<string, BoardStage> = {
+  dialling: 'ringing',
+  ringing: 'ringing',
+  consent: 'consent',
+  conversation: 'conversation',
+};
+
+const formatElapsed = (seconds: number) => {
+  const safe = Math.max(0, Math.floor(seconds));
+  const mins = Math.floor(safe / 60);
+  const secs = safe % 60;
+  return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+};
+
+/**
+ * Where each patient is in the batch. The latest attempt wins, so a patient
+ * whose call went unanswered and has a retry waiting shows as queued again.
+ */
+function buildBoardEntries(
+  patients: { patient_id: string; name: string }[],
+  calls: BoardCall[],
+  queueItems: BoardQueueItem[],
+): BoardEntry[] {
+  return patients.map(({ patient_id, name }) => {
+    const latestCall = calls
+      .filter(c => c.patient_id === patient_id)
+      .sort((a, b) => b.attempt_number - a.attempt_number)[0];
+    const latestItem = queueItems
+      .filter(q => q.patient_id === patient_id)
+      .sort((a, b) => b.attempt_number - a.attempt_number)[0];
+
+    const itemIsNewer = latestItem && (!latestCall || latestItem.attempt_number > latestCall.attempt_number);
+
+    if (itemIsNewer && (latestItem.status === 'queued' || latestItem.status === 'dispatching')) {
+      return {
+        patientId: patient_id,
+        name,
+        stage: 'queued',
+        attempt: latestItem.attempt_number,
+        queueItemId: latestItem.status === 'queued' ? latestItem.id : undefined,
+        scheduledFor: latestItem.scheduled_for,
+      };
+    }
+
+    if (!latestCall) {
+      const cancelled = latestItem?.status === 'cancelled' || latestItem?.status === 'failed';
+      return {
+        patientId: patient_id,
+        name,
+        stage: cancelled ? 'cancelled' : 'queued',
+        attempt: latestItem?.attempt_number ?? 1,
+      };
+    }
+
+    let stage: BoardStage;
+    switch (latestCall.status) {
+      case 'completed':
+        stage = 'completed';
+        break;
+      case 'declined':
+        stage = 'declined';
+        break;
+      case 'no_answer':
+      case 'failed':
+        stage = 'no_answer';
+        break;
+      case 'in_progress':
+        stage = LIVE_STAGE_COLUMNS[latestCall.live_stage ?? ''] ?? 'ringing';
+        break;
+      default:
+        stage = 'ringing';
+    }
+
+    return {
+      patientId: patient_id,
+      name,
+      stage,
+      attempt: latestCall.attempt_number,
+      isCallback: latestCall.direction === 'inbound',
+      startedAt: latestCall.started_at,
+      durationSeconds: latestCall.duration_seconds,
+    };
+  });
+}
+
+export function BatchProgressBoard({ batchId, batchName, onClose }: BatchProgressBoardProps) {
+  const queryClient = useQueryClient();
+  const { logAction } = useAuditLog();
+  const { toast } = useToast();
+  const [now, setNow] = useState(Date.now());
+
+  const { data: patients } = useQuery({
+    queryKey: ['batch-board-patients', batchId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('batch_patients')
+        .select('patient_id, priority, patients (name)')
+        .eq('batch_id', batchId)
+        .order('priority');
+      if (error) throw error;
+      return (data || []).map(bp => ({
+        patient_id: bp.patient_id,
+        name: bp.patients?.name || 'Unknown patient',
+      }));
+    },
+  });
+
+  const { data: calls } = useQuery({
+    queryKey: ['batch-board-calls', batchId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('calls')
+        .select('id, patient_id, status, live_stage, direction, attempt_number, started_at, ended_at, duration_seconds')
+        .eq('batch_id', batchId);
+      if (error) throw error;
+      return data as BoardCall[];
+    },
+  });
+
+  const { data: queueItems } = useQuery({
+    queryKey: ['batch-board-queue', batchId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('call_queue')
+        .select('id, patient_id, status, attempt_number, scheduled_for')
+        .eq('batch_id', batchId);
+      if (error) throw error;
+      return data as BoardQueueItem[];
+    },
+  });
+
+  // Refetch on every call or queue change for this batch
+  useEffect(() => {
+    const channel = supabase
+      .channel(`batch-board-${batchId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'calls', filter: `batch_id=eq.${batchId}` },
+        () => {
+          queryClient.invalidateQueries({ queryKey: ['batch-board-calls', batchId] });
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'call_queue', filter: `batch_id=eq.${batchId}` },
+        () => {
+          queryClient.invalidateQueries({ queryKey: ['batch-board-queue', batchId] });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [batchId, queryClient]);
+
+  // Tick elapsed times
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const entries = useMemo(
+    () => buildBoardEntries(patients || [], calls || [], queueItems || []),
+    [patients, calls, queueItems]
+  );
+
+  const countFor = (stage: BoardStage) => entries.filter(e => e.stage === stage).length;
+  const cancelledCount = countFor('cancelled');
+
+  const cancelCallMutation = useMutation({
+    mutationFn: async (entry: BoardEntry) => {
+      const { data, error } = await supabase.functions.invoke('process-batch', {
+        body: { batchId, action: 'cancel_call', queueItemId: entry.queueItemId },
+      });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (_data, entry) => {
+      queryClient.invalidateQueries({ queryKey: ['batch-board-queue', batchId] });
+      queryClient.invalidateQueries({ queryKey: ['batch-queue', batchId] });
+      logAction('cancel_call', 'batch', batchId, {
+        patient_id: entry.patientId,
+        queue_item_id: entry.queueItemId,
+        attempt_number: entry.attempt,
+      });
+      toast({ title: 'Call cancelled', description: `${entry.name} will not be called in this batch.` });
+    },
+    onError: (error: Error) => {
+      toast({ variant: 'destructive', title: 'Failed to cancel call', description: error.message });
+    },
+  });
+
+  const describeTiming = (entry: BoardEntry) => {
+    if (entry.stage === 'queued') {
+      if (!entry.scheduledFor) return 'Waiting';
+      const dueIn = (new Date(entry.scheduledFor).getTime() - now) / 1000;
+      return dueIn > 0 ? `Due in ${formatElapsed(dueIn)}` : 'Due now';
+    }
+    if (entry.stage === 'ringing' || entry.stage === 'consent' || entry.stage === 'conversation') {
+      return entry.startedAt ? formatElapsed((now - new Date(entry.startedAt).getTime()) / 1000) : null;
+    }
+    if (entry.stage === 'completed' && entry.durationSeconds) {
+      return formatElapsed(entry.durationSeconds);
+    }
+    return null;
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <div className="flex items-start justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Activity className="h-5 w-5 text-primary animate-pulse" />
+              Live Progress: {batchName}
+            </CardTitle>
+            <CardDescription>
+              {entries.length} patients
+              {cancelledCount > 0 && ` · ${cancelledCount} cancelled`}
+            </CardDescription>
+          </div>
+          {onClose && (
+            <Button variant="ghost" size="icon" onClick={onClose} title="Hide live board">
+              <X className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+        <div className="flex flex-wrap gap-2 pt-2">
+          {STAGES.map(stage => (
+            <Badge key={stage.key} variant="outline" className="gap-1.5">
+              {stage.label}
+              <span className="font-semibold">{countFor(stage.key)}</span>
+            </Badge>
+          ))}
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-2 md:grid-cols-4 xl:grid-cols-7 gap-3">
+          {STAGES.map(stage => {
+            const stageEntries = entries.filter(e => e.stage === stage.key);
+            return (
+              <div key={stage.key} className={cn('rounded-lg border p-2', stage.className)}>
+                <div className="flex items-center justify-between mb-2 px-1">
+                  <span className="text-sm font-medium">{stage.label}</span>
+                  <span className="text-xs text-muted-foreground">{stageEntries.length}</span>
+                </div>
+                <ScrollArea className="h-64">
+                  <div className="space-y-2 pr-2">
+                    {stageEntries.map(entry => {
+                      const timing = describeTiming(entry);
+                      return (
+                        <div key={entry.patientId} className="rounded-md border bg-background p-2 text-sm">
+                          <div className="flex items-start justify-between gap-1">
+                            <span className="font-medium leading-tight">{entry.name}</span>
+                            {entry.queueItemId && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-5 w-5 shrink-0"
+                                onClick={() => cancelCallMutation.mutate(entry)}
+                                disabled={cancelCallMutation.isPending}
+                                title="Cancel this call"
+                              >
+                                <X className="h-3 w-3 text-destructive" />
+                              </Button>
+                            )}
+                          </div>
+                          <div className="flex items-center justify-between text-xs text-muted-foreground mt-1">
+                            <span>
+                              {entry.isCallback ? 'Patient rang back' : entry.attempt > 1 ? `Attempt ${entry.attempt}` : ''}
+                            </span>
+                            {timing && <span className="font-mono">{timing}</span>}
+                          </div>
+                        </div>
+                      );
+                    })}
+                    {stageEntries.length === 0 && (
+                      <p className="text-xs text-muted-foreground text-center py-4">None</p>
+                    )}
+                  </div>
+                </ScrollArea>
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
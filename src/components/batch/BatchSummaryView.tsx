@@ -4,6 +4,7 @@ import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Progress } from '@/components/ui/progress';
 import { 
   Users, Phone, CheckCircle, XCircle, Clock, 
   Activity, Scale, Ruler, Heart, Wine, Cigarette, 
@@ -17,6 +18,7 @@ interface BatchSummaryViewProps {
   batchName: string;
   batchStatus: string;
   scheduledDate: string;
+  retryAttempts?: number;
   onRemovePatient?: (batchPatientId: string) => void;
 }
 
@@ -34,6 +36,22 @@ interface CallWithPatient {
   };
 }
 
+interface PatientOutcome {
+  key: 'completed' | 'declined' | 'in_call' | 'retry_scheduled' | 'unreachable' | 'failed' | 'waiting';
+  label: string;
+  detail?: string;
+}
+
+const OUTCOME_STYLES: Record<PatientOutcome['key'], string> = {
+  completed: 'bg-green-500/10 text-green-600 border-green-200',
+  declined: 'bg-muted text-muted-foreground',
+  in_call: 'bg-blue-500/10 text-blue-600 border-blue-200',
+  retry_scheduled: 'bg-amber-500/10 text-amber-600 border-amber-200',
+  unreachable: 'bg-orange-500/10 text-orange-600 border-orange-200',
+  failed: 'bg-destructive/10 text-destructive border-destructive/20',
+  waiting: '',
+};
+
 interface CallResponse {
   id: string;
   call_id: string;
@@ -58,6 +76,7 @@ export function BatchSummaryView({
   batchName, 
   batchStatus, 
   scheduledDate,
+  retryAttempts,
   onRemovePatient 
 }: BatchSummaryViewProps) {
   // Fetch batch patients
@@ -101,6 +120,20 @@ export function BatchSummaryView({
     },
   });
 
+  // Fetch dispatch queue state for this batch
+  const { data: queueItems } = useQuery({
+    queryKey: ['batch-queue', batchId],
+    refetchInterval: batchStatus === 'in_progress' ? 15000 : false,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('call_queue')
+        .select('id, status, patient_id, attempt_number, scheduled_for')
+        .eq('batch_id', batchId);
+      if (error) throw error;
+      return data;
+    },
+  });
+
   // Fetch call responses for this batch's calls
   const { data: callResponses } = useQuery({
     queryKey: ['batch-responses', batchId],
@@ -139,6 +172,50 @@ export function BatchSummaryView({
   const failedCalls = calls?.filter(c => c.status === 'failed' || c.status === 'no_answer').length || 0;
   const pendingCalls = calls?.filter(c => c.status === 'pending' || c.status === 'in_progress').length || 0;
   const responsesCollected = callResponses?.length || 0;
+  const queueTotal = queueItems?.length || 0;
+  const queueWaiting = queueItems?.filter(q => q.status === 'queued' || q.status === 'dispatching').length || 0;
+  const queueDispatched = queueItems?.filter(q => q.status === 'dispatched').length || 0;
+  const queueFailed = queueItems?.filter(q => q.status === 'failed').length || 0;
+  const queueCancelled = queueItems?.filter(q => q.status === 'cancelled').length || 0;
+
+  // Final (or current) outcome for each patient across all of their attempts
+  const getPatientOutcome = (patientId: string): PatientOutcome => {
+    const patientCalls = calls?.filter(c => c.patients?.id === patientId) || [];
+    const attempts = patientCalls.length;
+    const latest = patientCalls[0];
+    const nextRetry = queueItems?.find(q =>
+      q.patient_id === patientId && q.attempt_number > 1 && (q.status === 'queued' || q.status === 'dispatching')
+    );
+
+    if (patientCalls.some(c => c.status === 'completed')) {
+      return { key: 'completed', label: 'Completed', detail: attempts > 1 ? `on attempt ${attempts}` : undefined };
+    }
+    if (patientCalls.some(c => c.status === 'declined')) {
+      return { key: 'declined', label: 'Declined consent' };
+    }
+    if (latest && (latest.status === 'pending' || latest.status === 'in_progress')) {
+      return { key: 'in_call', label: 'In progress', detail: `attempt ${latest.attempt_number}` };
+    }
+    if (nextRetry) {
+      return {
+        key: 'retry_scheduled',
+        label: `Retry ${nextRetry.attempt_number - 1} scheduled`,
+        detail: new Date(nextRetry.scheduled_for).toLocaleString('en-GB', {
+          weekday: 'short', day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit',
+        }),
+      };
+    }
+    if (latest?.status === 'no_answer') {
+      return { key: 'unreachable', label: 'No answer', detail: `after ${attempts} attempt${attempts === 1 ? '' : 's'}` };
+    }
+    if (latest?.status === 'failed') {
+      return { key: 'failed', label: 'Failed', detail: `after ${attempts} attempt${attempts === 1 ? '' : 's'}` };
+    }
+    return { key: 'waiting', label: 'Not yet called' };
+  };
+
+  const patientOutcomes = (batchPatients || []).map(bp => getPatientOutcome(bp.patient_id));
+  const countOutcome = (key: PatientOutcome['key']) => patientOutcomes.filter(o => o.key === key).length;
 
   const getCallStatusBadge = (status: string) => {
     const variants: Record<string, 'default' | 'secondary' | 'destructive' | 'outline'> = {
@@ -216,6 +293,25 @@ export function BatchSummaryView({
         </Card>
       </div>
 
+      {/* Dispatch Queue */}
+      {queueTotal > 0 && (
+        <Card className="p-3 space-y-2">
+          <div className="flex items-center justify-between text-sm">
+            <span className="font-medium">Call queue</span>
+            <span className="text-muted-foreground">
+              {queueDispatched} of {queueTotal} dispatched
+            </span>
+          </div>
+          <Progress value={((queueDispatched + queueFailed + queueCancelled) / queueTotal) * 100} className="h-2" />
+          <div className="flex flex-wrap gap-2 text-xs text-muted-foreground">
+            <span>{queueWaiting} waiting</span>
+            {queueFailed > 0 && <span className="text-destructive">{queueFailed} could not be dialled</span>}
+            {queueCancelled > 0 && <span>{queueCancelled} cancelled</span>}
+            {batchStatus === 'paused' && <Badge variant="secondary">Paused</Badge>}
+          </div>
+        </Card>
+      )}
+
       <Tabs defaultValue="patients" className="w-full">
         <TabsList className="grid w-full grid-cols-3">
           <TabsTrigger value="patients">Patients</TabsTrigger>
@@ -223,17 +319,34 @@ export function BatchSummaryView({
           <TabsTrigger value="data">Health Data</TabsTrigger>
         </TabsList>
 
-        <TabsContent value="patients" className="mt-4">
+        <TabsContent value="patients" className="mt-4 space-y-2">
+          {calls && calls.length > 0 && (
+            <div className="flex flex-wrap gap-2 text-xs text-muted-foreground">
+              <span>{countOutcome('completed')} completed</span>
+              <span>• {countOutcome('declined')} declined</span>
+              <span>• {countOutcome('unreachable') + countOutcome('failed')} not reached</span>
+              {countOutcome('retry_scheduled') > 0 && <span>• {countOutcome('retry_scheduled')} awaiting retry</span>}
+              {retryAttempts !== undefined && <span>• up to {retryAttempts} retries per patient</span>}
+            </div>
+          )}
           <ScrollArea className="h-64">
             {batchPatients && batchPatients.length > 0 ? (
               <div className="space-y-2">
-                {batchPatients.map((bp: any) => (
+                {batchPatients.map((bp: any, index: number) => (
                   <div key={bp.id} className="flex items-center justify-between p-3 bg-muted rounded-lg">
                     <div>
                       <p className="font-medium">{bp.patients.name}</p>
                       <p className="text-sm text-muted-foreground">{bp.patients.phone_number}</p>
                     </div>
                     <div className="flex items-center gap-2">
+                      <div className="text-right">
+                        <Badge variant="outline" className={OUTCOME_STYLES[patientOutcomes[index].key]}>
+                          {patientOutcomes[index].label}
+                        </Badge>
+                        {patientOutcomes[index].detail && (
+                          <p className="text-xs text-muted-foreground mt-0.5">{patientOutcomes[index].detail}</p>
+                        )}
+                      </div>
                       <Badge variant="outline">Priority {bp.priority + 1}</Badge>
                       {batchStatus === 'pending' && onRemovePatient && (
                         <Button
@@ -9,10 +9,12 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { Card, CardContent } from "@/components/ui/card";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Badge } from "@/components/ui/badge";
-import { Upload, FileText, Users, Loader2, X, Check, AlertCircle } from "lucide-react";
+import { Upload, FileText, FileSpreadsheet, Users, Loader2, X, Check, AlertCircle } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { toast } from "sonner";
+import { PatientImportWizard } from "@/components/patient/PatientImportWizard";
+import type { ValidatedImportRow } from "@/lib/patient-import";
 import * as pdfjsLib from "pdfjs-dist";
 
 pdfjsLib.GlobalWorkerOptions.workerSrc = `//cdnjs.cloudflare.com/ajax/libs/pdf.js/${pdfjsLib.version}/pdf.worker.min.js`;
@@ -31,6 +33,8 @@ interface ExtractedPatient {
   status: "pending" | "processing" | "success" | "error";
   error?: string;
   selected: boolean;
+  // Spreadsheet row matched to a patient already on the system; linked, not re-inserted
+  existing_patient_id?: string;
 }
 
 interface CreateBatchFromUploadProps {
@@ -53,6 +57,7 @@ export function CreateBatchFromUpload({ open, onOpenChange }: CreateBatchFromUpl
   const [patients, setPatients] = useState<ExtractedPatient[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
   const [processedCount, setProcessedCount] = useState(0);
+  const [importWizardOpen, setImportWizardOpen] = useState(false);
   
   // Batch details
   const [batchName, setBatchName] = useState("");
@@ -75,37 +80,17 @@ export function CreateBatchFromUpload({ open, onOpenChange }: CreateBatchFromUpl
     return fullText;
   };
 
-  const parseCSV = (content: string): ExtractedPatient[] => {
-    const lines = content.trim().split("\n");
-    if (lines.length < 2) return [];
-    
-    const headers = lines[0].toLowerCase().split(",").map(h => h.trim());
-    const patients: ExtractedPatient[] = [];
-    
-    for (let i = 1; i < lines.length; i++) {
-      const values = lines[i].split(",").map(v => v.trim().replace(/^"|"$/g, ""));
-      const record: Record<string, string> = {};
-      headers.forEach((h, idx) => {
-        record[h] = values[idx] || "";
-      });
-      
-      patients.push({
-        file: `Row ${i}`,
-        name: record.name || record.patient_name || record.full_name || null,
-        phone_number: record.phone || record.phone_number || record.telephone || record.mobile || null,
-        nhs_number: record.nhs || record.nhs_number || record.nhsnumber || null,
-        date_of_birth: record.dob || record.date_of_birth || record.dateofbirth || null,
-        conditions: (record.conditions || record.diagnoses || "").split(";").filter(Boolean),
-        smoking_status: record.smoking || record.smoking_status || null,
-        hba1c_mmol_mol: record.hba1c ? parseFloat(record.hba1c) : null,
-        medications: (record.medications || record.meds || "").split(";").filter(Boolean),
-        frailty_status: record.frailty || record.frailty_status || null,
-        status: "success",
-        selected: true,
-      });
-    }
-    
-    return patients;
+  const handleSpreadsheetImport = (rows: ValidatedImportRow[]) => {
+    const imported: ExtractedPatient[] = rows.map(row => ({
+      file: `Row ${row.rowNumber}`,
+      ...row.patient,
+      smoking_status: null,
+      status: "success",
+      selected: true,
+      existing_patient_id: row.existingPatientId,
+    }));
+    setPatients(prev => [...prev, ...imported]);
+    setImportWizardOpen(false);
   };
 
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -133,11 +118,12 @@ export function CreateBatchFromUpload({ open, onOpenChange }: CreateBatchFromUpl
       selected: false,
     }));
 
-    setPatients(initialPatients);
+    setPatients(prev => [...prev, ...initialPatients]);
 
     // Process files sequentially with the stored array
+    const offset = patients.length;
     for (let i = 0; i < fileArray.length; i++) {
-      await processFileWithData(fileArray[i], i);
+      await processFileWithData(fileArray[i], offset + i);
     }
 
     setIsProcessing(false);
@@ -149,54 +135,43 @@ export function CreateBatchFromUpload({ open, onOpenChange }: CreateBatchFromUpl
     ));
 
     try {
-      if (file.name.endsWith(".csv")) {
-        const content = await file.text();
-        const csvPatients = parseCSV(content);
-        setPatients(prev => {
-          const newPatients = [...prev];
-          newPatients.splice(index, 1, ...csvPatients);
-          return newPatients;
-        });
-        setProcessedCount(prev => prev + csvPatients.length);
-      } else {
-        console.log("Extracting text from PDF:", file.name);
-        const pdfText = await extractTextFromPDF(file);
-        console.log("PDF text length:", pdfText.length);
-        
-        const { data, error } = await supabase.functions.invoke("extract-patient-from-pdf", {
-          body: { pdfText },
-        });
-
-        console.log("Extraction response:", { data, error });
-
-        if (error) throw error;
-        if (!data?.success) throw new Error(data?.error || "Extraction failed");
-
-        const extractedData = data.data;
-        console.log("Extracted patient data:", extractedData);
-
-        setPatients(prev => {
-          const updated = prev.map((p, i) => 
-            i === index ? {
-              ...p,
-              name: extractedData.name || null,
-              phone_number: extractedData.phone_number || null,
-              nhs_number: extractedData.nhs_number || null,
-              date_of_birth: extractedData.date_of_birth || null,
-              conditions: extractedData.conditions || [],
-              smoking_status: extractedData.smoking_status || null,
-              hba1c_mmol_mol: extractedData.hba1c_mmol_mol || null,
-              medications: extractedData.medications || [],
-              frailty_status: extractedData.frailty_status || null,
-              status: "success" as const,
-              selected: Boolean(extractedData.name && extractedData.phone_number),
-            } : p
-          );
-          console.log("Updated patients:", updated);
-          return updated;
-        });
-        setProcessedCount(prev => prev + 1);
-      }
+      console.log("Extracting text from PDF:", file.name);
+      const pdfText = await extractTextFromPDF(file);
+      console.log("PDF text length:", pdfText.length);
+      
+      const { data, error } = await supabase.functions.invoke("extract-patient-from-pdf", {
+        body: { pdfText },
+      });
+
+      console.log("Extraction response:", { data, error });
+
+      if (error) throw error;
+      if (!data?.success) throw new Error(data?.error || "Extraction failed");
+
+      const extractedData = data.data;
+      console.log("Extracted patient data:", extractedData);
+
+      setPatients(prev => {
+        const updated = prev.map((p, i) => 
+          i === index ? {
+            ...p,
+            name: extractedData.name || null,
+            phone_number: extractedData.phone_number || null,
+            nhs_number: extractedData.nhs_number || null,
+            date_of_birth: extractedData.date_of_birth || null,
+            conditions: extractedData.conditions || [],
+            smoking_status: extractedData.smoking_status || null,
+            hba1c_mmol_mol: extractedData.hba1c_mmol_mol || null,
+            medications: extractedData.medications || [],
+            frailty_status: extractedData.frailty_status || null,
+            status: "success" as const,
+            selected: Boolean(extractedData.name && extractedData.phone_number),
+          } : p
+        );
+        console.log("Updated patients:", updated);
+        return updated;
+      });
+      setProcessedCount(prev => prev + 1);
     } catch (error) {
       console.error("Error processing file:", error);
       setPatients(prev => prev.map((p, i) => 
@@ -211,8 +186,9 @@ export function CreateBatchFromUpload({ open, onOpenChange }: CreateBatchFromUpl
       const selectedPatients = patients.filter(p => p.selected && p.name && p.phone_number);
       if (selectedPatients.length === 0) throw new Error("No valid patients selected");
 
-      // Insert patients
-      const patientInserts = selectedPatients.map(p => ({
+      // Insert new patients; spreadsheet rows matching an existing patient are linked as-is
+      const newPatients = selectedPatients.filter(p => !p.existing_patient_id);
+      const patientInserts = newPatients.map(p => ({
         name: p.name!,
         phone_number: p.phone_number!,
         nhs_number: p.nhs_number,
@@ -223,12 +199,20 @@ export function CreateBatchFromUpload({ open, onOpenChange }: CreateBatchFromUpl
         hba1c_mmol_mol: p.hba1c_mmol_mol,
       }));
 
-      const { data: insertedPatients, error: patientsError } = await supabase
-        .from("patients")
-        .insert(patientInserts)
-        .select("id");
+      let insertedPatients: { id: string }[] = [];
+      if (patientInserts.length > 0) {
+        const { data, error: patientsError } = await supabase
+          .from("patients")
+          .insert(patientInserts)
+          .select("id");
+
+        if (patientsError) throw patientsError;
+        insertedPatients = data;
+      }
 
-      if (patientsError) throw patientsError;
+      // Keep the upload order for call priority
+      const insertedIds = new Map(newPatients.map((p, idx) => [p, insertedPatients[idx].id]));
+      const patientIds = selectedPatients.map(p => p.existing_patient_id ?? insertedIds.get(p)!);
 
       // Create batch
       const { data: batch, error: batchError } = await supabase
@@ -248,9 +232,9 @@ export function CreateBatchFromUpload({ open, onOpenChange }: CreateBatchFromUpl
       if (batchError) throw batchError;
 
       // Link patients to batch
-      const batchPatients = insertedPatients.map((p, idx) => ({
+      const batchPatients = patientIds.map((patientId, idx) => ({
         batch_id: batch.id,
-        patient_id: p.id,
+        patient_id: patientId,
         priority: idx,
       }));
 
@@ -260,7 +244,7 @@ export function CreateBatchFromUpload({ open, onOpenChange }: CreateBatchFromUpl
 
       if (linkError) throw linkError;
 
-      return { batch, patientCount: insertedPatients.length };
+      return { batch, patientCount: patientIds.length };
     },
     onSuccess: (data) => {
       toast.success(`Created batch "${data.batch.name}" with ${data.patientCount} patients`);
@@ -275,10 +259,10 @@ export function CreateBatchFromUpload({ open, onOpenChange }: CreateBatchFromUpl
 
   const getTargetIndicators = (purpose: string): string[] => {
     switch (purpose) {
-      case "smoking_status": return ["SMOKING"];
-      case "bp_check": return ["BP"];
-      case "hba1c_check": return ["HBA1C"];
-      case "qof_review": return ["SMOKING", "BP", "BMI"];
+      case "smoking_status": return ["SMOK002"];
+      case "bp_check": return ["HYP008"];
+      case "hba1c_check": return ["DM006"];
+      case "qof_review": return ["SMOK002", "HYP008", "DM006"];
       default: return [];
     }
   };
@@ -307,6 +291,12 @@ export function CreateBatchFromUpload({ open, onOpenChange }: CreateBatchFromUpl
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
+      <PatientImportWizard
+        open={importWizardOpen}
+        onOpenChange={setImportWizardOpen}
+        onImport={handleSpreadsheetImport}
+        linkExisting
+      />
       <DialogContent className="max-w-4xl max-h-[90vh] flex flex-col">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
@@ -339,16 +329,25 @@ export function CreateBatchFromUpload({ open, onOpenChange }: CreateBatchFromUpl
                 <FileText className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
                 <p className="text-lg font-medium mb-2">Upload EMIS Patient Data</p>
                 <p className="text-sm text-muted-foreground mb-4">
-                  Upload PDF summaries or CSV export from EMIS
+                  Upload PDF summaries, or import a CSV or Excel export from EMIS
                 </p>
                 <Input
                   type="file"
-                  accept=".pdf,.csv"
+                  accept=".pdf"
                   multiple
                   onChange={handleFileUpload}
                   className="max-w-xs mx-auto"
                   disabled={isProcessing}
                 />
+                <Button
+                  variant="outline"
+                  className="mt-4"
+                  onClick={() => setImportWizardOpen(true)}
+                  disabled={isProcessing}
+                >
+                  <FileSpreadsheet className="h-4 w-4 mr-2" />
+                  Import CSV / Excel
+                </Button>
               </div>
 
               {isProcessing && (
@@ -398,6 +397,7 @@ export function CreateBatchFromUpload({ open, onOpenChange }: CreateBatchFromUpl
                             <span className="font-medium truncate">{patient.name || "Unknown"}</span>
                             {patient.status === "success" && <Check className="h-4 w-4 text-green-500" />}
                             {patient.status === "error" && <AlertCircle className="h-4 w-4 text-destructive" />}
+                            {patient.existing_patient_id && <Badge variant="secondary" className="text-xs">Existing patient</Badge>}
                           </div>
                           <div className="text-sm text-muted-foreground space-y-1">
                             <p>📞 {patient.phone_number || "No phone"} | 🏥 NHS: {patient.nhs_number || "N/A"}</p>
@@ -0,0 +1,174 @@
+import { useState } from 'react';
+import { Users } from 'lucide-react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  COHORT_ALERT_STATES,
+  COHORT_CONDITIONS,
+  COHORT_FRAILTY_STATUSES,
+  QOF_DATA_GAPS,
+  type CohortAlertState,
+  type CohortCriteria,
+  type QofDataGap,
+} from '@/lib/patient-cohorts';
+
+interface CohortCriteriaFieldsProps {
+  criteria: CohortCriteria;
+  onChange: (criteria: CohortCriteria) => void;
+  // Live count of patients the criteria select
+  matchingCount?: number;
+}
+
+const ANY_ALERT_STATE = 'any';
+
+const parseWholeNumber = (value: string) => (value === '' ? null : Math.max(0, parseInt(value, 10)));
+const parseList = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean);
+
+const toggle = <T,>(values: T[], value: T, checked: boolean) =>
+  checked ? [...values, value] : values.filter(v => v !== value);
+
+export function CohortCriteriaFields({ criteria, onChange, matchingCount }: CohortCriteriaFieldsProps) {
+  const conditions = criteria.conditions ?? [];
+  const frailty = criteria.frailty ?? [];
+  const qofGaps = criteria.qofGaps ?? [];
+  // Kept as typed so a trailing comma survives until the next name is entered
+  const [medicationsText, setMedicationsText] = useState((criteria.medications ?? []).join(', '));
+  const [careHomesText, setCareHomesText] = useState((criteria.careHomes ?? []).join(', '));
+
+  return (
+    <div className="space-y-4 rounded-md border p-3">
+      <div className="space-y-2">
+        <Label>On the register for any of</Label>
+        <div className="grid grid-cols-3 gap-2">
+          {COHORT_CONDITIONS.map(condition => (
+            <div key={condition} className="flex items-center space-x-2">
+              <Checkbox
+                id={`cohort-${condition}`}
+                checked={conditions.includes(condition)}
+                onCheckedChange={(checked) => onChange({ ...criteria, conditions: toggle(conditions, condition, !!checked) })}
+              />
+              <Label htmlFor={`cohort-${condition}`} className="text-sm font-normal">{condition}</Label>
+            </div>
+          ))}
+        </div>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="cohort-medications">Prescribed any of</Label>
+        <Input
+          id="cohort-medications"
+          placeholder="Any medication, e.g. Metformin, Amlodipine"
+          value={medicationsText}
+          onChange={(e) => {
+            setMedicationsText(e.target.value);
+            onChange({ ...criteria, medications: parseList(e.target.value) });
+          }}
+        />
+      </div>
+      <div className="grid grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="cohort-min-age">Minimum age</Label>
+          <Input
+            id="cohort-min-age"
+            type="number"
+            min="0"
+            value={criteria.minAge ?? ''}
+            onChange={(e) => onChange({ ...criteria, minAge: parseWholeNumber(e.target.value) })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="cohort-max-age">Maximum age</Label>
+          <Input
+            id="cohort-max-age"
+            type="number"
+            min="0"
+            value={criteria.maxAge ?? ''}
+            onChange={(e) => onChange({ ...criteria, maxAge: parseWholeNumber(e.target.value) })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="cohort-care-homes">Care homes</Label>
+          <Input
+            id="cohort-care-homes"
+            placeholder="Any"
+            value={careHomesText}
+            onChange={(e) => {
+              setCareHomesText(e.target.value);
+              onChange({ ...criteria, careHomes: parseList(e.target.value) });
+            }}
+          />
+        </div>
+      </div>
+      <div className="space-y-2">
+        <Label>Frailty</Label>
+        <div className="flex flex-wrap gap-4">
+          {COHORT_FRAILTY_STATUSES.map(status => (
+            <div key={status.value} className="flex items-center space-x-2">
+              <Checkbox
+                id={`cohort-frailty-${status.value}`}
+                checked={frailty.includes(status.value)}
+                onCheckedChange={(checked) => onChange({ ...criteria, frailty: toggle(frailty, status.value, !!checked) })}
+              />
+              <Label htmlFor={`cohort-frailty-${status.value}`} className="text-sm font-normal">{status.label}</Label>
+            </div>
+          ))}
+        </div>
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="cohort-review-overdue">Not reviewed for (months)</Label>
+          <Input
+            id="cohort-review-overdue"
+            type="number"
+            min="0"
+            placeholder="Any"
+            value={criteria.reviewOverdueMonths ?? ''}
+            onChange={(e) => onChange({ ...criteria, reviewOverdueMonths: parseWholeNumber(e.target.value) })}
+          />
+          <p className="text-xs text-muted-foreground">Patients never reviewed are included</p>
+        </div>
+        <div className="space-y-2">
+          <Label>Alerts</Label>
+          <Select
+            value={criteria.alertState ?? ANY_ALERT_STATE}
+            onValueChange={(value) =>
+              onChange({ ...criteria, alertState: value === ANY_ALERT_STATE ? null : (value as CohortAlertState) })
+            }
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY_ALERT_STATE}>Any</SelectItem>
+              {Object.entries(COHORT_ALERT_STATES).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      <div className="space-y-2">
+        <Label>Missing QOF data, any of</Label>
+        <div className="grid grid-cols-3 gap-2">
+          {(Object.entries(QOF_DATA_GAPS) as [QofDataGap, string][]).map(([gap, label]) => (
+            <div key={gap} className="flex items-center space-x-2">
+              <Checkbox
+                id={`cohort-gap-${gap}`}
+                checked={qofGaps.includes(gap)}
+                onCheckedChange={(checked) => onChange({ ...criteria, qofGaps: toggle(qofGaps, gap, !!checked) })}
+              />
+              <Label htmlFor={`cohort-gap-${gap}`} className="text-sm font-normal">{label}</Label>
+            </div>
+          ))}
+        </div>
+      </div>
+      {matchingCount !== undefined && (
+        <p className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Users className="h-4 w-4" />
+          {matchingCount} living patient{matchingCount === 1 ? '' : 's'} currently match
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import type { CohortCriteria } from '@/lib/patient-cohorts';
+import { useCohortMatches, useSaveCohort, type PatientCohort } from '@/hooks/usePatientCohorts';
+import { CohortCriteriaFields } from './CohortCriteriaFields';
+
+interface CohortFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Cohort being edited; a new cohort when null
+  cohort: PatientCohort | null;
+}
+
+// Enough to sanity-check the criteria without rendering the whole register
+const PREVIEW_LIMIT = 50;
+
+export function CohortFormDialog({ open, onOpenChange, cohort }: CohortFormDialogProps) {
+  const [criteria, setCriteria] = useState<CohortCriteria>(() => cohort?.criteria ?? {});
+  const matches = useCohortMatches(criteria);
+  const saveCohort = useSaveCohort();
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    saveCohort.mutate(
+      {
+        id: cohort?.id,
+        name: (formData.get('name') as string).trim(),
+        description: ((formData.get('description') as string) || '').trim() || null,
+        criteria,
+      },
+      { onSuccess: () => onOpenChange(false) }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{cohort ? 'Edit Cohort' : 'New Cohort'}</DialogTitle>
+          <DialogDescription>
+            Patients must meet every filter that is set. Within a filter, any of the listed values will do.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="cohort-name">Name *</Label>
+            <Input id="cohort-name" name="name" defaultValue={cohort?.name} placeholder="e.g. Hypertensives missing BP" required />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="cohort-description">Description</Label>
+            <Textarea id="cohort-description" name="description" defaultValue={cohort?.description ?? ''} rows={2} />
+          </div>
+
+          <CohortCriteriaFields criteria={criteria} onChange={setCriteria} matchingCount={matches?.length} />
+
+          {matches && matches.length > 0 && (
+            <ScrollArea className="h-40 rounded-md border">
+              <div className="p-3 space-y-1 text-sm">
+                {matches.slice(0, PREVIEW_LIMIT).map(patient => (
+                  <div key={patient.id} className="flex justify-between">
+                    <span className="font-medium">{patient.name}</span>
+                    <span className="text-muted-foreground">{patient.conditions?.join(', ')}</span>
+                  </div>
+                ))}
+                {matches.length > PREVIEW_LIMIT && (
+                  <p className="text-muted-foreground pt-1">and {matches.length - PREVIEW_LIMIT} more</p>
+                )}
+              </div>
+            </ScrollArea>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+            <Button type="submit" disabled={saveCohort.isPending}>
+              {saveCohort.isPending ? 'Saving...' : cohort ? 'Save Changes' : 'Save Cohort'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -80,37 +80,37 @@ export function MediTaskWidget() {
           </div>
         ) : (
           <div className="space-y-2">
-            <div className="flex items-center justify-between p-2.5 rounded-lg bg-secondary/50 hover:bg-secondary/70 transition-colors">
+            <Link to="/meditask?status=pending" className="flex items-center justify-between p-2.5 rounded-lg bg-secondary/50 hover:bg-secondary/70 transition-colors">
               <div className="flex items-center gap-2">
                 <ListChecks className="h-4 w-4 text-muted-foreground" />
                 <span className="text-sm">Pending</span>
               </div>
               <span className="text-lg font-bold">{taskStats?.pending ?? 0}</span>
-            </div>
+            </Link>
             
-            <div className="flex items-center justify-between p-2.5 rounded-lg bg-warning/10 hover:bg-warning/20 transition-colors">
+            <Link to="/meditask?status=in_progress" className="flex items-center justify-between p-2.5 rounded-lg bg-warning/10 hover:bg-warning/20 transition-colors">
               <div className="flex items-center gap-2">
                 <Clock className="h-4 w-4 text-warning" />
                 <span className="text-sm">In Progress</span>
               </div>
               <span className="text-lg font-bold text-warning">{taskStats?.inProgress ?? 0}</span>
-            </div>
+            </Link>
             
-            <div className="flex items-center justify-between p-2.5 rounded-lg bg-destructive/10 hover:bg-destructive/20 transition-colors">
+            <Link to="/meditask?priority=urgent" className="flex items-center justify-between p-2.5 rounded-lg bg-destructive/10 hover:bg-destructive/20 transition-colors">
               <div className="flex items-center gap-2">
                 <AlertCircle className="h-4 w-4 text-destructive" />
                 <span className="text-sm">Urgent</span>
               </div>
               <span className="text-lg font-bold text-destructive">{taskStats?.urgent ?? 0}</span>
-            </div>
+            </Link>
 
-            <div className="flex items-center justify-between p-2.5 rounded-lg bg-success/10 hover:bg-success/20 transition-colors">
+            <Link to="/meditask?status=completed" className="flex items-center justify-between p-2.5 rounded-lg bg-success/10 hover:bg-success/20 transition-colors">
               <div className="flex items-center gap-2">
                 <CheckCircle2 className="h-4 w-4 text-success" />
                 <span className="text-sm">Completed</span>
               </div>
               <span className="text-lg font-bold text-success">{taskStats?.completed ?? 0}</span>
-            </div>
+            </Link>
           </div>
         )}
 
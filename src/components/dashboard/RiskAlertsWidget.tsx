@@ -1,12 +1,98 @@
-import { AlertTriangle, AlertCircle, Info, Check, ChevronRight, Shield } from "lucide-react";
+import { useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { AlertTriangle, AlertCircle, Info, Check, ChevronRight, ChevronDown, Shield, UserRound, Clock } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { useHealthAlerts, useAcknowledgeAlert, type HealthAlert } from "@/hooks/useHealthAlerts";
+import { useHealthAlerts, useAcknowledgeAlert, useAlertEscalations, type AlertEscalationEvent, type HealthAlert } from "@/hooks/useHealthAlerts";
 import { cn } from "@/lib/utils";
 import { useNavigate } from "react-router-dom";
 
+const describeEscalationEvent = (event: AlertEscalationEvent, names: Map<string, string>) => {
+  const name = event.user_id ? names.get(event.user_id) || "Unknown user" : "";
+  switch (event.event) {
+    case "assigned":
+      return `Assigned to ${name}`;
+    case "unassigned":
+      return "No primary clinician on duty";
+    case "escalated":
+      return `Not acknowledged in time - escalated to ${name}`;
+    case "escalation_failed":
+      return "Not acknowledged in time - no backup clinician, GP or admin to escalate to";
+    case "email_sent":
+      return `Email sent to ${name}`;
+    case "email_failed":
+      return `Email to ${name || "recipient"} failed${event.details?.error ? `: ${event.details.error}` : ""}`;
+    case "acknowledged":
+      return `Acknowledged by ${name}`;
+  }
+};
+
+interface EscalationStatusProps {
+  alert: HealthAlert;
+  events: AlertEscalationEvent[];
+  names: Map<string, string>;
+}
+
+function EscalationStatus({ alert, events, names }: EscalationStatusProps) {
+  const [expanded, setExpanded] = useState(false);
+  if (!alert.ack_due_at) return null;
+
+  const overdue = new Date(alert.ack_due_at).getTime() < Date.now();
+  const assignee = alert.assigned_to ? names.get(alert.assigned_to) || "Unknown user" : "Unassigned";
+
+  return (
+    <div className="mt-1 space-y-1">
+      <div className="flex flex-wrap items-center gap-x-2 gap-y-0.5 text-xs text-muted-foreground">
+        <span className="flex items-center gap-1">
+          <UserRound className="h-3 w-3" />
+          {assignee}
+        </span>
+        {alert.escalation_level > 0 ? (
+          <span className="text-destructive font-medium">
+            Escalated{alert.escalated_to ? ` to ${names.get(alert.escalated_to) || "Unknown user"}` : ""}
+          </span>
+        ) : (
+          <span className={cn("flex items-center gap-1", overdue && "text-destructive font-medium")}>
+            <Clock className="h-3 w-3" />
+            {overdue
+              ? "Acknowledgement overdue"
+              : `Acknowledge ${formatDistanceToNow(new Date(alert.ack_due_at), { addSuffix: true })}`}
+          </span>
+        )}
+        {events.length > 0 && (
+          <button
+            className="flex items-center gap-0.5 hover:text-foreground"
+            onClick={() => setExpanded(!expanded)}
+          >
+            {expanded ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+            Chain
+          </button>
+        )}
+      </div>
+      {expanded && (
+        <ol className="border-l pl-2 ml-1 space-y-0.5">
+          {events.map((event) => (
+            <li
+              key={event.id}
+              className={cn(
+                "text-xs",
+                (event.event === "email_failed" || event.event === "escalation_failed") && "text-destructive"
+              )}
+            >
+              <span className="text-muted-foreground">
+                {new Date(event.created_at).toLocaleTimeString("en-GB", { hour: "2-digit", minute: "2-digit" })}
+              </span>{" "}
+              {describeEscalationEvent(event, names)}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
+
 interface RiskAlertsWidgetProps {
   maxItems?: number;
   showViewAll?: boolean;
@@ -21,6 +107,7 @@ export function RiskAlertsWidget({ maxItems = 5, showViewAll = true }: RiskAlert
     const severityOrder = { critical: 0, warning: 1, info: 2 };
     return severityOrder[a.severity] - severityOrder[b.severity];
   }).slice(0, maxItems);
+  const { data: escalations } = useAlertEscalations(sortedAlerts);
 
   // Count by severity
   const alertCounts = {
@@ -146,6 +233,11 @@ export function RiskAlertsWidget({ maxItems = 5, showViewAll = true }: RiskAlert
                     <p className="text-xs text-muted-foreground mt-0.5 line-clamp-1">
                       {alert.description}
                     </p>
+                    <EscalationStatus
+                      alert={alert}
+                      events={escalations?.events.get(alert.id) || []}
+                      names={escalations?.names || new Map()}
+                    />
                     {alert.patients && (
                       <Button
                         variant="link"
@@ -1,5 +1,6 @@
 import { useQuery } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
+import { useClinicalRuleSettings } from '@/hooks/useClinicalRuleSettings';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -10,6 +11,7 @@ import { analyzeAllPatients, getClinicalActionStats, Patient, CallResponse } fro
 export function TodaysPriorities() {
   const navigate = useNavigate();
 
+  const { settings: ruleSettings } = useClinicalRuleSettings();
   const { data: patients = [] } = useQuery({
     queryKey: ['clinical-patients'],
     queryFn: async () => {
@@ -27,7 +29,7 @@ export function TodaysPriorities() {
     queryFn: async () => {
       const { data } = await supabase
         .from('call_responses')
-        .select('id, patient_id, blood_pressure_systolic, blood_pressure_diastolic, smoking_status, collected_at, weight_kg, height_cm')
+        .select('id, patient_id, blood_pressure_systolic, blood_pressure_diastolic, smoking_status, collected_at, weight_kg, height_cm, alcohol_units_per_week')
         .order('collected_at', { ascending: false });
       return (data ?? []) as CallResponse[];
     },
@@ -40,7 +42,7 @@ export function TodaysPriorities() {
       const { count } = await supabase
         .from('call_responses')
         .select('id', { count: 'exact', head: true })
-        .eq('verification_status', 'unverified');
+        .in('verification_status', ['unverified', 'awaiting_second_signoff']);
       return count ?? 0;
     },
     refetchInterval: 30000,
@@ -58,7 +60,7 @@ export function TodaysPriorities() {
     refetchInterval: 30000,
   });
 
-  const stats = getClinicalActionStats(analyzeAllPatients(patients, callResponses));
+  const stats = getClinicalActionStats(analyzeAllPatients(patients, callResponses, ruleSettings));
 
   const items = [
     {
@@ -3,6 +3,7 @@ import { useAuth } from '@/hooks/useAuth';
 import { AppSidebar } from './AppSidebar';
 import { AIChatAgent } from '@/components/chat/AIChatAgent';
 import { GlobalPatientSearch } from './GlobalPatientSearch';
+import { NotificationBell } from './NotificationBell';
 import { useIsFetching } from '@tanstack/react-query';
 import { cn } from '@/lib/utils';
 
@@ -31,8 +32,9 @@ export function AppLayout() {
           "h-0.5 bg-primary transition-all duration-500 shrink-0",
           isFetching ? "opacity-100 w-full animate-pulse" : "opacity-0 w-0"
         )} />
-        {/* Top bar with global search */}
+        {/* Top bar with notifications and global search */}
         <header className="h-12 flex items-center justify-end px-4 border-b border-border bg-background shrink-0">
+          <NotificationBell />
           <GlobalPatientSearch />
         </header>
         <main className="flex-1 overflow-auto">
@@ -2,7 +2,7 @@ import { Link, useLocation } from 'react-router-dom';
 import { 
   LayoutDashboard, Users, Calendar, Phone, LogOut, 
   Brain, Sparkles, ShieldCheck, ChevronDown, ChevronLeft, ChevronRight,
-  Shield, UsersRound, User, Settings, ListChecks, Menu, X
+  Shield, UsersRound, User, Settings, ListChecks, Menu, X, FileText, SlidersHorizontal, Repeat, Filter, Target
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
@@ -27,13 +27,18 @@ const mainNav: NavItem[] = [
   { icon: Users, label: 'Patients', href: '/patients' },
   { icon: ListChecks, label: 'MediTask', href: '/meditask' },
   { icon: Calendar, label: 'Batches', href: '/batches' },
+  { icon: Repeat, label: 'Programmes', href: '/programmes' },
+  { icon: Filter, label: 'Cohorts', href: '/cohorts' },
+  { icon: FileText, label: 'Call Scripts', href: '/call-scripts' },
   { icon: Phone, label: 'Calls', href: '/calls' },
   { icon: ShieldCheck, label: 'Verification', href: '/clinical-verification' },
   { icon: Brain, label: 'Analytics', href: '/ai-analytics' },
+  { icon: Target, label: 'QOF', href: '/qof-reports' },
 ];
 
 const adminNav: NavItem[] = [
   { icon: UsersRound, label: 'User Management', href: '/user-management' },
+  { icon: SlidersHorizontal, label: 'Clinical Rules', href: '/clinical-rules' },
   { icon: Shield, label: 'Caldicott', href: '/caldicott' },
   { icon: User, label: 'Profile & Settings', href: '/profile' },
 ];
@@ -53,7 +58,7 @@ export function AppSidebar() {
       const { count } = await supabase
         .from('call_responses')
         .select('id', { count: 'exact', head: true })
-        .eq('verification_status', 'unverified');
+        .in('verification_status', ['unverified', 'awaiting_second_signoff']);
       return count ?? 0;
     },
     refetchInterval: 30000,
@@ -0,0 +1,78 @@
+import { useNavigate } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { Bell } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useNotifications, useMarkNotificationsRead, type AppNotification } from '@/hooks/useNotifications';
+import { cn } from '@/lib/utils';
+
+export function NotificationBell() {
+  const { data: notifications } = useNotifications();
+  const markRead = useMarkNotificationsRead();
+  const navigate = useNavigate();
+
+  const unread = notifications?.filter(n => !n.read_at) || [];
+
+  const openNotification = (notification: AppNotification) => {
+    if (!notification.read_at) markRead.mutate([notification.id]);
+    if (notification.link) navigate(notification.link);
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative h-8 w-8 mr-2" title="Notifications">
+          <Bell className="h-4 w-4" />
+          {unread.length > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full bg-destructive text-destructive-foreground text-[10px] font-medium flex items-center justify-center">
+              {unread.length}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between px-3 py-2 border-b">
+          <span className="text-sm font-medium">Notifications</span>
+          {unread.length > 0 && (
+            <Button
+              variant="link"
+              size="sm"
+              className="h-auto p-0 text-xs"
+              onClick={() => markRead.mutate(unread.map(n => n.id))}
+            >
+              Mark all read
+            </Button>
+          )}
+        </div>
+        <div className="max-h-80 overflow-y-auto">
+          {!notifications || notifications.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No notifications</p>
+          ) : (
+            <div className="divide-y">
+              {notifications.map(notification => (
+                <button
+                  key={notification.id}
+                  className={cn(
+                    "w-full text-left px-3 py-2 hover:bg-muted transition-colors",
+                    !notification.read_at && "bg-destructive/5"
+                  )}
+                  onClick={() => openNotification(notification)}
+                >
+                  <p className={cn("text-sm leading-tight", !notification.read_at && "font-medium")}>
+                    {notification.title}
+                  </p>
+                  {notification.body && (
+                    <p className="text-xs text-muted-foreground mt-0.5 line-clamp-2">{notification.body}</p>
+                  )}
+                  <p className="text-[10px] text-muted-foreground mt-1">
+                    {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
+                  </p>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
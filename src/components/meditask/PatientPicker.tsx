@@ -0,0 +1,78 @@
+import { useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+
+export interface PickedPatient {
+  id: string;
+  name: string;
+}
+
+interface PatientPickerProps {
+  value: PickedPatient | null;
+  onChange: (patient: PickedPatient | null) => void;
+}
+
+/** Search-as-you-type patient selector, matching on name or NHS number */
+export function PatientPicker({ value, onChange }: PatientPickerProps) {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<(PickedPatient & { nhs_number: string | null })[]>([]);
+
+  useEffect(() => {
+    const search = query.trim();
+    if (search.length < 2) {
+      setResults([]);
+      return;
+    }
+    const timer = setTimeout(async () => {
+      const { data } = await supabase
+        .from('patients')
+        .select('id, name, nhs_number')
+        .or(`name.ilike.%${search}%,nhs_number.ilike.%${search}%`)
+        .limit(8);
+      setResults(data ?? []);
+    }, 250);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  if (value) {
+    return (
+      <div className="flex items-center justify-between rounded-md border px-3 py-2 text-sm">
+        <span>{value.name}</span>
+        <Button type="button" variant="ghost" size="icon" className="h-6 w-6" onClick={() => onChange(null)} title="Remove patient">
+          <X className="h-3 w-3" />
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative">
+      <Input
+        placeholder="Search by name or NHS number"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+      />
+      {results.length > 0 && (
+        <div className="absolute z-50 mt-1 w-full rounded-md border bg-popover shadow-md">
+          {results.map(patient => (
+            <button
+              key={patient.id}
+              type="button"
+              className="flex w-full items-center justify-between px-3 py-2 text-sm hover:bg-accent text-left"
+              onClick={() => {
+                onChange({ id: patient.id, name: patient.name });
+                setQuery('');
+                setResults([]);
+              }}
+            >
+              <span>{patient.name}</span>
+              {patient.nhs_number && <span className="text-xs text-muted-foreground">{patient.nhs_number}</span>}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
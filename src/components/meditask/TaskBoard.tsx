@@ -0,0 +1,92 @@
+import { useDraggable, useDroppable, DndContext, PointerSensor, KeyboardSensor, useSensor, useSensors, type DragEndEvent } from '@dnd-kit/core';
+import { CSS } from '@dnd-kit/utilities';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { TASK_STATUSES, compareDueDates, type MediTask, type TaskStatus } from '@/hooks/useMediTasks';
+import { TaskCard } from './TaskCard';
+
+interface TaskBoardProps {
+  tasks: MediTask[];
+  names: Map<string, string>;
+  onOpen: (task: MediTask) => void;
+  onStatusChange: (task: MediTask, status: TaskStatus) => void;
+}
+
+function DraggableTask({ task, names, onOpen }: { task: MediTask; names: Map<string, string>; onOpen: (task: MediTask) => void }) {
+  const { attributes, listeners, setNodeRef, transform, isDragging } = useDraggable({ id: task.id });
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={{ transform: CSS.Translate.toString(transform) }}
+      className={cn(isDragging && 'opacity-60 z-10 relative')}
+      {...attributes}
+      {...listeners}
+    >
+      <TaskCard task={task} assigneeName={task.assigned_to ? names.get(task.assigned_to) : undefined} onClick={() => onOpen(task)} />
+    </div>
+  );
+}
+
+function StatusColumn({ status, label, tasks, names, onOpen }: {
+  status: TaskStatus;
+  label: string;
+  tasks: MediTask[];
+  names: Map<string, string>;
+  onOpen: (task: MediTask) => void;
+}) {
+  const { setNodeRef, isOver } = useDroppable({ id: status });
+
+  return (
+    <div
+      ref={setNodeRef}
+      className={cn('flex flex-col rounded-lg bg-muted/40 p-3 min-h-[300px] transition-colors', isOver && 'bg-primary/10')}
+    >
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold">{label}</h3>
+        <Badge variant="secondary">{tasks.length}</Badge>
+      </div>
+      <div className="space-y-2">
+        {tasks.map(task => (
+          <DraggableTask key={task.id} task={task} names={names} onOpen={onOpen} />
+        ))}
+        {tasks.length === 0 && (
+          <p className="text-xs text-muted-foreground text-center py-6">No tasks</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/** Kanban view; dragging a card into another column changes its status */
+export function TaskBoard({ tasks, names, onOpen, onStatusChange }: TaskBoardProps) {
+  // The distance constraint keeps a plain click opening the task instead of starting a drag
+  const sensors = useSensors(
+    useSensor(PointerSensor, { activationConstraint: { distance: 5 } }),
+    useSensor(KeyboardSensor)
+  );
+
+  const handleDragEnd = ({ active, over }: DragEndEvent) => {
+    if (!over) return;
+    const task = tasks.find(t => t.id === active.id);
+    const status = over.id as TaskStatus;
+    if (task && task.status !== status) onStatusChange(task, status);
+  };
+
+  return (
+    <DndContext sensors={sensors} onDragEnd={handleDragEnd}>
+      <div className="grid gap-4 md:grid-cols-3">
+        {TASK_STATUSES.map(({ value, label }) => (
+          <StatusColumn
+            key={value}
+            status={value}
+            label={label}
+            tasks={tasks.filter(t => t.status === value).sort(compareDueDates)}
+            names={names}
+            onOpen={onOpen}
+          />
+        ))}
+      </div>
+    </DndContext>
+  );
+}
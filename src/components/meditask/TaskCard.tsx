@@ -0,0 +1,70 @@
+import { format } from 'date-fns';
+import { CalendarClock, User, UserCircle } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { isTaskOverdue, type MediTask, type TaskPriority } from '@/hooks/useMediTasks';
+
+const PRIORITY_STYLES: Record<TaskPriority, string> = {
+  urgent: 'bg-destructive text-destructive-foreground',
+  high: 'bg-orange-500 text-white',
+  normal: 'bg-secondary text-secondary-foreground',
+  low: 'bg-muted text-muted-foreground',
+};
+
+export function PriorityBadge({ priority }: { priority: TaskPriority }) {
+  return (
+    <Badge className={cn('text-[10px] px-1.5 py-0 capitalize hover:opacity-90', PRIORITY_STYLES[priority])}>
+      {priority}
+    </Badge>
+  );
+}
+
+export function DueDate({ task }: { task: Pick<MediTask, 'status' | 'due_date'> }) {
+  if (!task.due_date) return <span className="text-muted-foreground">No due date</span>;
+  const overdue = isTaskOverdue(task);
+  return (
+    <span className={cn('flex items-center gap-1', overdue && 'text-destructive font-medium')}>
+      <CalendarClock className="h-3 w-3" />
+      {format(new Date(task.due_date), 'd MMM yyyy')}
+      {overdue && ' (overdue)'}
+    </span>
+  );
+}
+
+interface TaskCardProps {
+  task: MediTask;
+  assigneeName?: string;
+  onClick: () => void;
+  className?: string;
+}
+
+export function TaskCard({ task, assigneeName, onClick, className }: TaskCardProps) {
+  return (
+    <div
+      role="button"
+      tabIndex={0}
+      onClick={onClick}
+      onKeyDown={(e) => e.key === 'Enter' && onClick()}
+      className={cn(
+        'rounded-lg border bg-card p-3 space-y-2 text-left shadow-sm hover:shadow-md transition-shadow cursor-pointer',
+        isTaskOverdue(task) && 'border-destructive/50',
+        className
+      )}
+    >
+      <div className="flex items-start justify-between gap-2">
+        <p className="text-sm font-medium leading-snug">{task.title}</p>
+        <PriorityBadge priority={task.priority} />
+      </div>
+      <div className="flex flex-col gap-1 text-xs text-muted-foreground">
+        {task.patients?.name && (
+          <span className="flex items-center gap-1"><User className="h-3 w-3" />{task.patients.name}</span>
+        )}
+        <span className="flex items-center gap-1">
+          <UserCircle className="h-3 w-3" />
+          {task.assigned_to ? assigneeName || 'Unknown user' : 'Unassigned'}
+        </span>
+        <DueDate task={task} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { ExternalLink, MessageSquare, Send } from 'lucide-react';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Separator } from '@/components/ui/separator';
+import {
+  fromDueDateInput,
+  toDueDateInput,
+  useAddTaskComment,
+  useTaskComments,
+  useUpdateTask,
+  type MediTask,
+} from '@/hooks/useMediTasks';
+import { TaskFields, type TaskFieldValues } from './TaskFields';
+
+interface TaskDetailDialogProps {
+  task: MediTask | null;
+  onOpenChange: (open: boolean) => void;
+  staff: { user_id: string; full_name: string }[];
+  names: Map<string, string>;
+}
+
+const toFieldValues = (task: MediTask): TaskFieldValues => ({
+  title: task.title,
+  description: task.description ?? '',
+  status: task.status,
+  priority: task.priority,
+  assigned_to: task.assigned_to,
+  due_date: toDueDateInput(task.due_date),
+  patient: task.patients ? { id: task.patients.id, name: task.patients.name } : null,
+});
+
+export function TaskDetailDialog({ task, onOpenChange, staff, names }: TaskDetailDialogProps) {
+  // The page remounts this dialog per task (key), so the form starts from the task once
+  const [values, setValues] = useState<TaskFieldValues | null>(() => (task ? toFieldValues(task) : null));
+  const [comment, setComment] = useState('');
+  const updateTask = useUpdateTask();
+  const addComment = useAddTaskComment();
+  const { data: comments } = useTaskComments(task?.id ?? null);
+
+  const handleSave = () => {
+    if (!task || !values) return;
+    updateTask.mutate(
+      {
+        id: task.id,
+        changes: {
+          title: values.title.trim(),
+          description: values.description.trim() || null,
+          status: values.status,
+          priority: values.priority,
+          assigned_to: values.assigned_to,
+          due_date: fromDueDateInput(values.due_date),
+          patient_id: values.patient?.id ?? null,
+        },
+      },
+      { onSuccess: () => onOpenChange(false) }
+    );
+  };
+
+  const handleComment = () => {
+    if (!task || !comment.trim()) return;
+    addComment.mutate({ taskId: task.id, body: comment.trim() }, { onSuccess: () => setComment('') });
+  };
+
+  return (
+    <Dialog open={!!task} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Task</DialogTitle>
+        </DialogHeader>
+
+        {task && values && (
+          <>
+            <TaskFields values={values} onChange={setValues} staff={staff} />
+            {task.patients && (
+              <Button variant="link" size="sm" className="px-0 h-auto" asChild>
+                <Link to={`/patients?highlight=${task.patients.id}`}>
+                  View {task.patients.name}'s record <ExternalLink className="ml-1 h-3 w-3" />
+                </Link>
+              </Button>
+            )}
+            <DialogFooter>
+              <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+              <Button onClick={handleSave} disabled={!values.title.trim() || updateTask.isPending}>
+                Save Changes
+              </Button>
+            </DialogFooter>
+
+            <Separator />
+
+            <div className="space-y-3">
+              <h3 className="flex items-center gap-2 text-sm font-semibold">
+                <MessageSquare className="h-4 w-4" />
+                Comments
+              </h3>
+              {comments?.map(c => (
+                <div key={c.id} className="rounded-md bg-muted/50 p-2.5 text-sm">
+                  <div className="flex items-center justify-between text-xs text-muted-foreground mb-1">
+                    <span className="font-medium text-foreground">{names.get(c.user_id) || 'Unknown user'}</span>
+                    <span>{formatDistanceToNow(new Date(c.created_at), { addSuffix: true })}</span>
+                  </div>
+                  <p className="whitespace-pre-wrap">{c.body}</p>
+                </div>
+              ))}
+              {comments?.length === 0 && (
+                <p className="text-xs text-muted-foreground">No comments yet</p>
+              )}
+              <div className="flex gap-2">
+                <Textarea
+                  rows={2}
+                  placeholder="Add a comment"
+                  value={comment}
+                  onChange={(e) => setComment(e.target.value)}
+                />
+                <Button
+                  size="icon"
+                  onClick={handleComment}
+                  disabled={!comment.trim() || addComment.isPending}
+                  title="Add comment"
+                >
+                  <Send className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
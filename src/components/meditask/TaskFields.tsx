@@ -0,0 +1,105 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { TASK_PRIORITIES, TASK_STATUSES, type TaskPriority, type TaskStatus } from '@/hooks/useMediTasks';
+import { PatientPicker, type PickedPatient } from './PatientPicker';
+
+export interface TaskFieldValues {
+  title: string;
+  description: string;
+  status: TaskStatus;
+  priority: TaskPriority;
+  assigned_to: string | null;
+  due_date: string;
+  patient: PickedPatient | null;
+}
+
+const UNASSIGNED = 'unassigned';
+
+interface TaskFieldsProps {
+  values: TaskFieldValues;
+  onChange: (values: TaskFieldValues) => void;
+  staff: { user_id: string; full_name: string }[];
+}
+
+export function TaskFields({ values, onChange, staff }: TaskFieldsProps) {
+  const set = <K extends keyof TaskFieldValues>(key: K, value: TaskFieldValues[K]) =>
+    onChange({ ...values, [key]: value });
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="task_title">Title</Label>
+        <Input id="task_title" value={values.title} onChange={(e) => set('title', e.target.value)} />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="task_description">Description</Label>
+        <Textarea
+          id="task_description"
+          rows={3}
+          value={values.description}
+          onChange={(e) => set('description', e.target.value)}
+        />
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Status</Label>
+          <Select value={values.status} onValueChange={(value) => set('status', value as TaskStatus)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TASK_STATUSES.map(s => (
+                <SelectItem key={s.value} value={s.value}>{s.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Priority</Label>
+          <Select value={values.priority} onValueChange={(value) => set('priority', value as TaskPriority)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TASK_PRIORITIES.map(p => (
+                <SelectItem key={p.value} value={p.value}>{p.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Assigned to</Label>
+          <Select
+            value={values.assigned_to ?? UNASSIGNED}
+            onValueChange={(value) => set('assigned_to', value === UNASSIGNED ? null : value)}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+              {staff.map(s => (
+                <SelectItem key={s.user_id} value={s.user_id}>{s.full_name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="task_due_date">Due date</Label>
+          <Input
+            id="task_due_date"
+            type="date"
+            value={values.due_date}
+            onChange={(e) => set('due_date', e.target.value)}
+          />
+        </div>
+      </div>
+      <div className="space-y-2">
+        <Label>Patient</Label>
+        <PatientPicker value={values.patient} onChange={(patient) => set('patient', patient)} />
+      </div>
+    </div>
+  );
+}
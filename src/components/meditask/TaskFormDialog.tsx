@@ -0,0 +1,63 @@
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { fromDueDateInput, useCreateTask } from '@/hooks/useMediTasks';
+import { TaskFields, type TaskFieldValues } from './TaskFields';
+
+interface TaskFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  staff: { user_id: string; full_name: string }[];
+}
+
+const EMPTY_TASK: TaskFieldValues = {
+  title: '',
+  description: '',
+  status: 'pending',
+  priority: 'normal',
+  assigned_to: null,
+  due_date: '',
+  patient: null,
+};
+
+export function TaskFormDialog({ open, onOpenChange, staff }: TaskFormDialogProps) {
+  const [values, setValues] = useState<TaskFieldValues>(EMPTY_TASK);
+  const createTask = useCreateTask();
+
+  const handleCreate = () => {
+    createTask.mutate(
+      {
+        title: values.title.trim(),
+        description: values.description.trim() || null,
+        status: values.status,
+        priority: values.priority,
+        assigned_to: values.assigned_to,
+        due_date: fromDueDateInput(values.due_date),
+        patient_id: values.patient?.id ?? null,
+      },
+      {
+        onSuccess: () => {
+          setValues(EMPTY_TASK);
+          onOpenChange(false);
+        },
+      }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>New Task</DialogTitle>
+        </DialogHeader>
+        <TaskFields values={values} onChange={setValues} staff={staff} />
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleCreate} disabled={!values.title.trim() || createTask.isPending}>
+            Create Task
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
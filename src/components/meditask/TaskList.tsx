@@ -0,0 +1,68 @@
+import { useState } from 'react';
+import { ArrowDown, ArrowUp } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { TASK_STATUSES, compareDueDates, type MediTask } from '@/hooks/useMediTasks';
+import { DueDate, PriorityBadge } from './TaskCard';
+
+interface TaskListProps {
+  tasks: MediTask[];
+  names: Map<string, string>;
+  onOpen: (task: MediTask) => void;
+}
+
+const STATUS_LABELS = new Map(TASK_STATUSES.map(s => [s.value, s.label]));
+
+export function TaskList({ tasks, names, onOpen }: TaskListProps) {
+  const [dueAscending, setDueAscending] = useState(true);
+
+  const sorted = [...tasks].sort((a, b) => {
+    // Tasks without a due date stay at the bottom in both directions
+    if (!a.due_date || !b.due_date) return compareDueDates(a, b);
+    return dueAscending ? compareDueDates(a, b) : compareDueDates(b, a);
+  });
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Task</TableHead>
+          <TableHead>Patient</TableHead>
+          <TableHead>Priority</TableHead>
+          <TableHead>Status</TableHead>
+          <TableHead>Assigned to</TableHead>
+          <TableHead>
+            <Button variant="ghost" size="sm" className="-ml-3 h-8" onClick={() => setDueAscending(!dueAscending)}>
+              Due
+              {dueAscending ? <ArrowUp className="ml-1 h-3 w-3" /> : <ArrowDown className="ml-1 h-3 w-3" />}
+            </Button>
+          </TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {sorted.map(task => (
+          <TableRow key={task.id} className="cursor-pointer" onClick={() => onOpen(task)}>
+            <TableCell className="font-medium">{task.title}</TableCell>
+            <TableCell>{task.patients?.name || <span className="text-muted-foreground">-</span>}</TableCell>
+            <TableCell><PriorityBadge priority={task.priority} /></TableCell>
+            <TableCell><Badge variant="outline">{STATUS_LABELS.get(task.status)}</Badge></TableCell>
+            <TableCell>
+              {task.assigned_to
+                ? names.get(task.assigned_to) || 'Unknown user'
+                : <span className="text-muted-foreground">Unassigned</span>}
+            </TableCell>
+            <TableCell className="text-sm"><DueDate task={task} /></TableCell>
+          </TableRow>
+        ))}
+        {sorted.length === 0 && (
+          <TableRow>
+            <TableCell colSpan={6} className="text-center text-muted-foreground py-8">
+              No tasks match the current filters
+            </TableCell>
+          </TableRow>
+        )}
+      </TableBody>
+    </Table>
+  );
+}
@@ -0,0 +1,266 @@
+import { useState, useEffect } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { ArrowRightLeft, GitMerge, Loader2 } from 'lucide-react';
+
+type PatientRow = Tables<'patients'>;
+type MergeField = keyof Omit<PatientRow, 'id' | 'created_at' | 'created_by' | 'updated_at'>;
+
+// Fields offered for review, in display order
+const MERGE_FIELDS: { key: MergeField; label: string }[] = [
+  { key: 'name', label: 'Name' },
+  { key: 'phone_number', label: 'Phone' },
+  { key: 'nhs_number', label: 'NHS number' },
+  { key: 'date_of_birth', label: 'Date of birth' },
+  { key: 'preferred_call_time', label: 'Preferred call time' },
+  { key: 'conditions', label: 'Conditions' },
+  { key: 'medications', label: 'Medications' },
+  { key: 'allergies', label: 'Allergies' },
+  { key: 'frailty_status', label: 'Frailty' },
+  { key: 'hba1c_mmol_mol', label: 'HbA1c' },
+  { key: 'hba1c_date', label: 'HbA1c date' },
+  { key: 'care_home_name', label: 'Care home' },
+  { key: 'communication_needs', label: 'Communication needs' },
+  { key: 'dnacpr_status', label: 'DNACPR' },
+  { key: 'next_of_kin_name', label: 'Next of kin' },
+  { key: 'next_of_kin_phone', label: 'Next of kin phone' },
+  { key: 'next_of_kin_relationship', label: 'Next of kin relationship' },
+  { key: 'gp_name', label: 'GP' },
+  { key: 'notes', label: 'Notes' },
+];
+
+// Records re-pointed to the surviving patient
+const LINKED_TABLES = [
+  { table: 'calls', label: 'Calls' },
+  { table: 'call_responses', label: 'Call responses' },
+  { table: 'batch_patients', label: 'Batches' },
+  { table: 'health_alerts', label: 'Health alerts' },
+  { table: 'ai_summaries', label: 'AI summaries' },
+  { table: 'meditask_tasks', label: 'Tasks' },
+] as const;
+
+const isEmpty = (value: unknown) => value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+const displayValue = (value: unknown) => {
+  if (isEmpty(value)) return '—';
+  if (Array.isArray(value)) return value.join(', ');
+  return String(value);
+};
+
+interface MergePatientsDialogProps {
+  patientIds: [string, string] | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function MergePatientsDialog({ patientIds, onOpenChange }: MergePatientsDialogProps) {
+  const [survivorId, setSurvivorId] = useState<string | null>(null);
+  const [fromDuplicate, setFromDuplicate] = useState<Set<MergeField>>(new Set());
+  const [reason, setReason] = useState('');
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: records, isLoading } = useQuery({
+    queryKey: ['patient-merge-review', patientIds],
+    queryFn: async () => {
+      const { data, error } = await supabase.from('patients').select('*').in('id', patientIds!);
+      if (error) throw error;
+      if (data.length !== 2) throw new Error('One of these patients no longer exists');
+
+      const counts = await Promise.all(
+        data.map(async patient => {
+          const perTable = await Promise.all(
+            LINKED_TABLES.map(async ({ table }) => {
+              const { count } = await supabase
+                .from(table)
+                .select('id', { count: 'exact', head: true })
+                .eq('patient_id', patient.id);
+              return [table, count ?? 0] as const;
+            }),
+          );
+          return [patient.id, Object.fromEntries(perTable)] as const;
+        }),
+      );
+
+      return { patients: data as PatientRow[], linked: Object.fromEntries(counts) as Record<string, Record<string, number>> };
+    },
+    enabled: !!patientIds,
+  });
+
+  // Keep a record and default each differing field to its value, unless that is blank
+  const keepRecord = (keep: PatientRow, other: PatientRow) => {
+    setSurvivorId(keep.id);
+    setFromDuplicate(new Set(
+      MERGE_FIELDS.filter(({ key }) => isEmpty(keep[key]) && !isEmpty(other[key])).map(({ key }) => key),
+    ));
+  };
+
+  // Keep the record with an NHS number, otherwise the oldest
+  useEffect(() => {
+    if (!records) return;
+    const [first, second] = records.patients;
+    const keepFirst = !!first.nhs_number !== !!second.nhs_number
+      ? !!first.nhs_number
+      : first.created_at <= second.created_at;
+    if (keepFirst) keepRecord(first, second);
+    else keepRecord(second, first);
+    setReason('');
+  }, [records]);
+
+  const survivor = records?.patients.find(p => p.id === survivorId);
+  const duplicate = records?.patients.find(p => p.id !== survivorId);
+
+  const differing = survivor && duplicate
+    ? MERGE_FIELDS.filter(({ key }) => JSON.stringify(survivor[key]) !== JSON.stringify(duplicate[key]))
+    : [];
+
+  const mergeMutation = useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase.rpc('merge_patients', {
+        p_survivor_id: survivor!.id,
+        p_duplicate_id: duplicate!.id,
+        p_fields_from_duplicate: differing.filter(({ key }) => fromDuplicate.has(key)).map(({ key }) => key),
+        p_reason: reason.trim() || null,
+      });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['patients'] });
+      queryClient.invalidateQueries({ queryKey: ['patient-duplicates'] });
+      queryClient.invalidateQueries({ queryKey: ['patient-merges'] });
+      toast({ title: 'Patients merged', description: `${duplicate!.name} was merged into ${survivor!.name}.` });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ variant: 'destructive', title: 'Merge failed', description: error.message });
+    },
+  });
+
+  const toggleField = (key: MergeField, useDuplicate: boolean) => {
+    setFromDuplicate(prev => {
+      const next = new Set(prev);
+      if (useDuplicate) next.add(key);
+      else next.delete(key);
+      return next;
+    });
+  };
+
+  return (
+    <Dialog open={!!patientIds} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GitMerge className="h-5 w-5" />
+            Merge Patient Records
+          </DialogTitle>
+          <DialogDescription>
+            The duplicate's calls, responses, batches, alerts, summaries and tasks move to the kept record, then the duplicate is deleted.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !survivor || !duplicate ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <ScrollArea className="flex-1 min-h-0 pr-4">
+            <div className="space-y-6">
+              <div className="grid grid-cols-[1fr_auto_1fr] items-start gap-4">
+                {[survivor, duplicate].map((patient, index) => (
+                  <div key={patient.id} className={index === 1 ? 'order-3' : ''}>
+                    <div className="rounded-md border p-3 space-y-2">
+                      <div className="flex items-center justify-between">
+                        <span className="font-medium">{patient.name}</span>
+                        <Badge variant={index === 0 ? 'default' : 'secondary'}>{index === 0 ? 'Keep' : 'Merge & delete'}</Badge>
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        Created {new Date(patient.created_at).toLocaleDateString('en-GB')}
+                      </p>
+                      <div className="flex flex-wrap gap-1">
+                        {LINKED_TABLES.map(({ table, label }) => (
+                          <Badge key={table} variant="outline" className="text-xs font-normal">
+                            {label}: {records.linked[patient.id][table]}
+                          </Badge>
+                        ))}
+                      </div>
+                    </div>
+                  </div>
+                ))}
+                <Button variant="ghost" size="icon" className="order-2 self-center" onClick={() => keepRecord(duplicate, survivor)} title="Keep the other record">
+                  <ArrowRightLeft className="h-4 w-4" />
+                </Button>
+              </div>
+
+              {differing.length === 0 ? (
+                <p className="text-sm text-muted-foreground">The two records hold the same details.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-40">Field</TableHead>
+                      <TableHead>Kept record</TableHead>
+                      <TableHead>Duplicate</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {differing.map(({ key, label }) => (
+                      <TableRow key={key}>
+                        <TableCell className="font-medium">{label}</TableCell>
+                        <TableCell colSpan={2} className="p-0">
+                          <RadioGroup
+                            value={fromDuplicate.has(key) ? 'duplicate' : 'survivor'}
+                            onValueChange={value => toggleField(key, value === 'duplicate')}
+                            className="grid grid-cols-2"
+                          >
+                            {(['survivor', 'duplicate'] as const).map(source => (
+                              <Label key={source} className="flex items-start gap-2 p-4 font-normal cursor-pointer">
+                                <RadioGroupItem value={source} className="mt-0.5" />
+                                <span className="break-words">{displayValue((source === 'survivor' ? survivor : duplicate)[key])}</span>
+                              </Label>
+                            ))}
+                          </RadioGroup>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor="merge-reason">Reason</Label>
+                <Textarea
+                  id="merge-reason"
+                  value={reason}
+                  onChange={e => setReason(e.target.value)}
+                  placeholder="e.g. Same patient uploaded twice from CSV and PDF"
+                  rows={2}
+                />
+              </div>
+            </div>
+          </ScrollArea>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button
+            onClick={() => mergeMutation.mutate()}
+            disabled={!survivor || !duplicate || !reason.trim() || mergeMutation.isPending}
+          >
+            {mergeMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Merge into {survivor?.name ?? 'kept record'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -19,6 +19,7 @@ import {
   Copy, Printer
 } from 'lucide-react';
 import { Link } from 'react-router-dom';
+import { PatientTrends } from './PatientTrends';
 
 interface PatientDetailPanelProps {
   patientId: string;
@@ -44,6 +45,7 @@ interface PatientData {
   notes: string | null;
   preferred_call_time: string | null;
   last_review_date: string | null;
+  date_of_death: string | null;
   created_at: string;
   // New AI-extracted fields
   dnacpr_status: string | null;
@@ -518,6 +520,9 @@ export function PatientDetailPanel({ patientId, isOpen, onClose }: PatientDetail
 
         {/* Patient Quick Info */}
         <div className="flex flex-wrap gap-2 mb-2">
+          {patient.date_of_death && (
+            <Badge variant="secondary">Deceased {formatDate(patient.date_of_death)}</Badge>
+          )}
           {age && <Badge variant="outline">Age: {age}</Badge>}
           {getDnacprBadge(patient.dnacpr_status)}
           {getFrailtyBadge(patient.frailty_status)}
@@ -532,10 +537,11 @@ export function PatientDetailPanel({ patientId, isOpen, onClose }: PatientDetail
         </div>
 
         <Tabs defaultValue="overview" className="flex-1 overflow-hidden flex flex-col">
-          <TabsList className="grid w-full grid-cols-5">
+          <TabsList className="grid w-full grid-cols-6">
             <TabsTrigger value="overview">Overview</TabsTrigger>
             <TabsTrigger value="clinical">Clinical Data</TabsTrigger>
             <TabsTrigger value="qof">QOF Gaps</TabsTrigger>
+            <TabsTrigger value="trends">Trends</TabsTrigger>
             <TabsTrigger value="history">Call History</TabsTrigger>
             <TabsTrigger value="summaries">AI Summaries</TabsTrigger>
           </TabsList>
@@ -1215,6 +1221,11 @@ export function PatientDetailPanel({ patientId, isOpen, onClose }: PatientDetail
               </Card>
             </TabsContent>
 
+            {/* Trends Tab */}
+            <TabsContent value="trends" className="m-0">
+              <PatientTrends patient={patient} />
+            </TabsContent>
+
             {/* Call History Tab */}
             <TabsContent value="history" className="m-0">
               <Card>
@@ -0,0 +1,332 @@
+import { useState, useMemo, useEffect } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent } from '@/components/ui/card';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { FileSpreadsheet, Loader2, Download, AlertCircle, AlertTriangle, Check, Link2 } from 'lucide-react';
+import { readSpreadsheet, type SheetData } from '@/lib/spreadsheet';
+import {
+  IMPORT_FIELDS,
+  guessColumnMapping,
+  missingRequiredFields,
+  validateImportRows,
+  importErrorReportCsv,
+  type ColumnMapping,
+  type ExistingPatient,
+  type ValidatedImportRow,
+} from '@/lib/patient-import';
+
+interface PatientImportWizardProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Receives the rows that passed validation; the caller does the inserting
+  onImport: (rows: ValidatedImportRow[]) => void;
+  // Rows matching an existing patient are handed over (to link) rather than skipped
+  linkExisting?: boolean;
+  isImporting?: boolean;
+}
+
+type RowFilter = 'all' | 'ready' | 'errors' | 'existing' | 'warnings';
+
+const NOT_MAPPED = '-1';
+const PAGE_SIZE = 1000;
+
+export function PatientImportWizard({ open, onOpenChange, onImport, linkExisting = false, isImporting = false }: PatientImportWizardProps) {
+  const [step, setStep] = useState<'upload' | 'map' | 'preview'>('upload');
+  const [fileName, setFileName] = useState('');
+  const [sheet, setSheet] = useState<SheetData | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [isReading, setIsReading] = useState(false);
+  const [filter, setFilter] = useState<RowFilter>('all');
+  const { toast } = useToast();
+
+  const { data: existingPatients, isLoading: loadingExisting } = useQuery({
+    queryKey: ['patients', 'import-duplicate-check'],
+    queryFn: async () => {
+      const all: ExistingPatient[] = [];
+      for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error } = await supabase
+          .from('patients')
+          .select('id, name, phone_number, nhs_number')
+          .range(from, from + PAGE_SIZE - 1);
+        if (error) throw error;
+        all.push(...data);
+        if (data.length < PAGE_SIZE) return all;
+      }
+    },
+    enabled: open,
+  });
+
+  const validated = useMemo(
+    () => (step === 'preview' && sheet && mapping ? validateImportRows(sheet, mapping, existingPatients ?? []) : []),
+    [step, sheet, mapping, existingPatients],
+  );
+
+  const isReady = (row: ValidatedImportRow) => row.errors.length === 0 && (linkExisting || !row.existingPatientId);
+  const readyRows = validated.filter(isReady);
+  const errorCount = validated.filter(r => r.errors.length > 0).length;
+  const existingCount = validated.filter(r => r.errors.length === 0 && r.existingPatientId).length;
+  const warningCount = validated.filter(r => r.errors.length === 0 && !r.existingPatientId && r.warnings.length > 0).length;
+
+  const visibleRows = validated.filter(row => {
+    switch (filter) {
+      case 'ready': return isReady(row);
+      case 'errors': return row.errors.length > 0;
+      case 'existing': return row.errors.length === 0 && !!row.existingPatientId;
+      case 'warnings': return row.errors.length === 0 && row.warnings.length > 0;
+      default: return true;
+    }
+  });
+
+  const missing = mapping ? missingRequiredFields(mapping) : [];
+
+  // Start again from the upload step whenever the wizard is closed
+  useEffect(() => {
+    if (open) return;
+    setStep('upload');
+    setFileName('');
+    setSheet(null);
+    setMapping(null);
+    setFilter('all');
+  }, [open]);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setIsReading(true);
+    try {
+      const data = await readSpreadsheet(file);
+      if (data.rows.length === 0) throw new Error('The file has a header row but no patients');
+      setFileName(file.name);
+      setSheet(data);
+      setMapping(guessColumnMapping(data.headers));
+      setStep('map');
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Could not read file', description: (error as Error).message });
+    } finally {
+      setIsReading(false);
+      e.target.value = '';
+    }
+  };
+
+  const sampleValue = (column: number) => {
+    if (!sheet || column < 0) return '';
+    return sheet.rows.map(row => row[column]?.trim()).find(Boolean) ?? '';
+  };
+
+  const downloadReport = () => {
+    const csv = importErrorReportCsv(validated, linkExisting);
+    const blob = new Blob([csv], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${fileName.replace(/\.[^.]+$/, '')}-import-report.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const rowStatus = (row: ValidatedImportRow) => {
+    if (row.errors.length > 0) return <Badge variant="destructive" className="gap-1"><AlertCircle className="h-3 w-3" />Rejected</Badge>;
+    if (row.existingPatientId) {
+      return linkExisting
+        ? <Badge variant="secondary" className="gap-1"><Link2 className="h-3 w-3" />Existing</Badge>
+        : <Badge variant="outline">Skipped</Badge>;
+    }
+    if (row.warnings.length > 0) return <Badge variant="outline" className="gap-1 border-amber-500 text-amber-600"><AlertTriangle className="h-3 w-3" />Warning</Badge>;
+    return <Badge variant="outline" className="gap-1 border-green-500 text-green-600"><Check className="h-3 w-3" />Ready</Badge>;
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Import Patients</DialogTitle>
+          <DialogDescription>
+            {step === 'upload' && 'Upload a CSV or Excel (.xlsx) file. Nothing is saved until you confirm the preview.'}
+            {step === 'map' && `Match the columns in ${fileName} to patient fields.`}
+            {step === 'preview' && `Check every row of ${fileName} before importing.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'upload' && (
+          <div className="space-y-4">
+            <Card className="border-dashed">
+              <CardContent className="pt-6">
+                <div className="flex flex-col items-center gap-4">
+                  <FileSpreadsheet className="h-12 w-12 text-muted-foreground" />
+                  <div className="text-center">
+                    <p className="text-sm font-medium">Upload CSV or Excel file</p>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      The first row must hold column headings. Name and phone number are required.
+                    </p>
+                  </div>
+                  <Input
+                    type="file"
+                    accept=".csv,.xlsx,.txt"
+                    onChange={handleFile}
+                    disabled={isReading}
+                    className="max-w-xs"
+                  />
+                  {isReading && (
+                    <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                      Reading file...
+                    </div>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-4">
+                <p className="text-sm font-medium mb-2">Example</p>
+                <pre className="text-xs bg-muted p-3 rounded-md overflow-x-auto">
+{`Name,Phone Number,NHS Number,Date of Birth,Preferred Time
+"Smith, John",07700 900123,943 476 5919,05/11/1950,Morning
+Jane Doe,+44 7700 900456,,,Afternoon`}
+                </pre>
+                <p className="text-xs text-muted-foreground mt-2">
+                  Separate multiple conditions or medications with a semicolon.
+                </p>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
+        {step === 'map' && sheet && mapping && (
+          <ScrollArea className="flex-1 min-h-0 pr-4">
+            <div className="space-y-3 py-2">
+              {IMPORT_FIELDS.map(field => (
+                <div key={field.key} className="grid grid-cols-[180px_1fr_1fr] items-center gap-3">
+                  <Label>{field.label}</Label>
+                  <Select
+                    value={String(mapping[field.key])}
+                    onValueChange={value => setMapping({ ...mapping, [field.key]: Number(value) })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NOT_MAPPED}>Not imported</SelectItem>
+                      {sheet.headers.map((header, index) => (
+                        <SelectItem key={index} value={String(index)}>
+                          {header || `Column ${index + 1}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <span className="text-xs text-muted-foreground truncate">
+                    {sampleValue(mapping[field.key]) && `e.g. ${sampleValue(mapping[field.key])}`}
+                  </span>
+                </div>
+              ))}
+              {missing.length > 0 && (
+                <p className="text-sm text-destructive flex items-center gap-2 pt-2">
+                  <AlertCircle className="h-4 w-4" />
+                  Map the required fields: {missing.join(', ')}
+                </p>
+              )}
+            </div>
+          </ScrollArea>
+        )}
+
+        {step === 'preview' && (
+          <div className="flex-1 min-h-0 flex flex-col gap-4">
+            <div className="grid grid-cols-4 gap-3">
+              <Card><CardContent className="p-3"><p className="text-2xl font-bold text-green-600">{readyRows.length}</p><p className="text-xs text-muted-foreground">Ready to import</p></CardContent></Card>
+              <Card><CardContent className="p-3"><p className="text-2xl font-bold text-destructive">{errorCount}</p><p className="text-xs text-muted-foreground">Rejected</p></CardContent></Card>
+              <Card><CardContent className="p-3"><p className="text-2xl font-bold">{existingCount}</p><p className="text-xs text-muted-foreground">{linkExisting ? 'Already registered (linked)' : 'Already registered (skipped)'}</p></CardContent></Card>
+              <Card><CardContent className="p-3"><p className="text-2xl font-bold text-amber-600">{warningCount}</p><p className="text-xs text-muted-foreground">New with warnings</p></CardContent></Card>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <Select value={filter} onValueChange={value => setFilter(value as RowFilter)}>
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All rows ({validated.length})</SelectItem>
+                  <SelectItem value="ready">Ready</SelectItem>
+                  <SelectItem value="errors">Rejected</SelectItem>
+                  <SelectItem value="existing">Already registered</SelectItem>
+                  <SelectItem value="warnings">With warnings</SelectItem>
+                </SelectContent>
+              </Select>
+              <Button variant="outline" size="sm" onClick={downloadReport} disabled={errorCount + existingCount + warningCount === 0}>
+                <Download className="h-4 w-4 mr-2" />
+                Download error report
+              </Button>
+            </div>
+
+            {loadingExisting ? (
+              <div className="flex items-center justify-center gap-2 py-8 text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Checking for existing patients...
+              </div>
+            ) : (
+              <ScrollArea className="flex-1 min-h-0 border rounded-md">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-16">Row</TableHead>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Phone</TableHead>
+                      <TableHead>NHS Number</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Problems</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {visibleRows.map(row => (
+                      <TableRow key={row.rowNumber}>
+                        <TableCell className="text-muted-foreground">{row.rowNumber}</TableCell>
+                        <TableCell className="font-medium">{row.patient.name || '—'}</TableCell>
+                        <TableCell className="font-mono text-xs">{row.patient.phone_number || '—'}</TableCell>
+                        <TableCell className="font-mono text-xs">{row.patient.nhs_number || '—'}</TableCell>
+                        <TableCell>{rowStatus(row)}</TableCell>
+                        <TableCell className="text-xs">
+                          {row.errors.map((e, i) => <p key={`e${i}`} className="text-destructive">{e}</p>)}
+                          {row.warnings.map((w, i) => <p key={`w${i}`} className="text-muted-foreground">{w}</p>)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </ScrollArea>
+            )}
+          </div>
+        )}
+
+        {step !== 'upload' && (
+          <div className="flex justify-between items-center pt-4 border-t">
+            <Button variant="outline" onClick={() => setStep(step === 'preview' ? 'map' : 'upload')} disabled={isImporting}>
+              ← Back
+            </Button>
+            {step === 'map' && (
+              <Button onClick={() => setStep('preview')} disabled={missing.length > 0}>
+                Preview Import →
+              </Button>
+            )}
+            {step === 'preview' && (
+              <Button
+                onClick={() => onImport(readyRows)}
+                disabled={readyRows.length === 0 || loadingExisting || isImporting}
+              >
+                {isImporting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Import {readyRows.length} {readyRows.length === 1 ? 'patient' : 'patients'}
+              </Button>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
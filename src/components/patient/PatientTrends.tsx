@@ -0,0 +1,252 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useClinicalRuleSettings } from '@/hooks/useClinicalRuleSettings';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip as RechartsTooltip, ResponsiveContainer, ReferenceArea, ReferenceLine, Legend } from 'recharts';
+import { Loader2, Pill, TrendingUp } from 'lucide-react';
+import type { Patient } from '@/lib/clinical-analysis';
+import {
+  buildPatientTrends,
+  medicationAnnotations,
+  type MetricTrend,
+  type MedicationAnnotation,
+  type TrendPoint,
+} from '@/lib/patient-trends';
+
+const SERIES_COLOURS = ['hsl(var(--primary))', 'hsl(var(--accent))'];
+const TARGET_COLOUR = 'hsl(142 71% 45%)';
+const MEDICATION_COLOUR = 'hsl(271 81% 56%)';
+
+const formatShortDate = (time: number) =>
+  new Date(time).toLocaleDateString('en-GB', { month: 'short', year: '2-digit' });
+
+const formatFullDate = (time: number) =>
+  new Date(time).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+
+interface DotProps {
+  cx?: number;
+  cy?: number;
+  index?: number;
+  payload?: TrendPoint;
+}
+
+// Verified points are filled; unverified points are hollow
+const renderDot = (colour: string) => ({ cx, cy, index, payload }: DotProps) => {
+  if (cx === undefined || cy === undefined || !payload) return <g key={index} />;
+  return payload.verified
+    ? <circle key={index} cx={cx} cy={cy} r={4} fill={colour} stroke={colour} />
+    : <circle key={index} cx={cx} cy={cy} r={4} fill="hsl(var(--background))" stroke={colour} strokeWidth={2} strokeDasharray="2 1" />;
+};
+
+function TrendChart({ trend, annotations }: { trend: MetricTrend; annotations: MedicationAnnotation[] }) {
+  const times = trend.series.flatMap(s => s.points.map(p => p.time));
+  const [start, end] = [Math.min(...times), Math.max(...times)];
+  // Only changes made between the first and last reading explain a trend
+  const inRange = annotations.filter(a => a.time > start && a.time < end);
+  // Pad a lone reading so it is not drawn on the axis edge
+  const pad = start === end ? 30 * 86400000 : 0;
+
+  const latest = trend.series
+    .map(s => ({ label: s.label, point: s.points[s.points.length - 1] }))
+    .filter(s => s.point);
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <CardTitle className="text-base">{trend.title}</CardTitle>
+            <CardDescription>
+              Latest: {latest.map(s => `${s.point.value}`).join('/')} {trend.unit} on {formatFullDate(Math.max(...latest.map(s => s.point.time)))}
+            </CardDescription>
+          </div>
+          <div className="flex flex-wrap justify-end gap-1">
+            {[...new Set(trend.targets.map(t => t.code))].map(code => {
+              const bands = trend.targets.filter(t => t.code === code);
+              return (
+                <Badge key={code} variant="outline" className="text-xs font-normal" title={bands[0].name}>
+                  {code} ≤{bands.map(t => t.max).join('/')}
+                </Badge>
+              );
+            })}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="h-[220px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart margin={{ top: 10, right: 10, left: -10, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+              <XAxis
+                dataKey="time"
+                type="number"
+                scale="time"
+                domain={[start - pad, end + pad]}
+                tickFormatter={formatShortDate}
+                tick={{ fontSize: 11, fill: 'hsl(var(--muted-foreground))' }}
+                axisLine={{ stroke: 'hsl(var(--border))' }}
+              />
+              <YAxis
+                tick={{ fontSize: 11, fill: 'hsl(var(--muted-foreground))' }}
+                axisLine={{ stroke: 'hsl(var(--border))' }}
+                domain={['auto', 'auto']}
+              />
+              <RechartsTooltip
+                labelFormatter={time => formatFullDate(Number(time))}
+                formatter={(value, name, item) => [
+                  `${value} ${trend.unit}${(item.payload as TrendPoint).verified ? '' : ' (unverified)'}`,
+                  name,
+                ]}
+                contentStyle={{
+                  backgroundColor: 'hsl(var(--card))',
+                  border: '1px solid hsl(var(--border))',
+                  borderRadius: '8px',
+                  boxShadow: '0 4px 12px rgba(0,0,0,0.1)'
+                }}
+              />
+              {trend.series.length > 1 && <Legend wrapperStyle={{ fontSize: 12 }} />}
+              {trend.targets.map(target => (
+                <ReferenceArea key={`band-${target.seriesKey}`} y2={target.max} fill={TARGET_COLOUR} fillOpacity={0.06} ifOverflow="hidden" />
+              ))}
+              {trend.targets.map(target => (
+                <ReferenceLine
+                  key={`target-${target.seriesKey}`}
+                  y={target.max}
+                  stroke={TARGET_COLOUR}
+                  strokeDasharray="4 4"
+                  ifOverflow="extendDomain"
+                  label={{ value: `≤${target.max}`, position: 'insideTopRight', fontSize: 10, fill: TARGET_COLOUR }}
+                />
+              ))}
+              {inRange.map(annotation => (
+                <ReferenceLine
+                  key={`med-${annotation.time}`}
+                  x={annotation.time}
+                  stroke={MEDICATION_COLOUR}
+                  strokeDasharray="3 3"
+                  label={{ value: annotation.label, position: 'insideTopLeft', fontSize: 10, fill: MEDICATION_COLOUR }}
+                />
+              ))}
+              {trend.series.filter(s => s.points.length > 0).map((series, i) => (
+                <Line
+                  key={series.key}
+                  data={series.points}
+                  dataKey="value"
+                  name={series.label}
+                  stroke={SERIES_COLOURS[i % SERIES_COLOURS.length]}
+                  strokeWidth={2}
+                  dot={renderDot(SERIES_COLOURS[i % SERIES_COLOURS.length])}
+                  activeDot={{ r: 6 }}
+                  isAnimationActive={false}
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+interface PatientTrendsProps {
+  patient: Patient;
+}
+
+export function PatientTrends({ patient }: PatientTrendsProps) {
+  const { settings: ruleSettings } = useClinicalRuleSettings();
+  const { data, isLoading } = useQuery({
+    queryKey: ['patient-trends', patient.id],
+    queryFn: async () => {
+      const [responses, observations, medicationChanges] = await Promise.all([
+        supabase
+          .from('call_responses')
+          .select('id, collected_at, blood_pressure_systolic, blood_pressure_diastolic, weight_kg, height_cm, alcohol_units_per_week, verification_status')
+          .eq('patient_id', patient.id)
+          .order('collected_at'),
+        supabase
+          .from('patient_observations')
+          .select('observation_key, value_numeric, recorded_at, call_response_id, source')
+          .eq('patient_id', patient.id)
+          .eq('observation_key', 'hba1c_mmol_mol'),
+        supabase
+          .from('patient_medication_changes')
+          .select('changed_at, added, removed')
+          .eq('patient_id', patient.id)
+          .order('changed_at'),
+      ]);
+      if (responses.error) throw responses.error;
+      if (observations.error) throw observations.error;
+      if (medicationChanges.error) throw medicationChanges.error;
+      return { responses: responses.data, observations: observations.data, medicationChanges: medicationChanges.data };
+    },
+  });
+
+  const trends = useMemo(
+    () => (data ? buildPatientTrends(patient, data.responses, data.observations, ruleSettings) : []),
+    [data, patient, ruleSettings],
+  );
+  const annotations = useMemo(() => medicationAnnotations(data?.medicationChanges ?? []), [data]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (trends.length === 0) {
+    return (
+      <div className="text-center py-12 text-muted-foreground">
+        <TrendingUp className="h-12 w-12 mx-auto mb-4 opacity-50" />
+        <p>No readings recorded yet</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-4 text-xs text-muted-foreground">
+        <span className="flex items-center gap-1.5">
+          <span className="h-2.5 w-2.5 rounded-full bg-primary" /> Verified
+        </span>
+        <span className="flex items-center gap-1.5">
+          <span className="h-2.5 w-2.5 rounded-full border-2 border-dashed border-primary" /> Awaiting verification
+        </span>
+        <span className="flex items-center gap-1.5">
+          <span className="h-2.5 w-4 rounded-sm" style={{ backgroundColor: TARGET_COLOUR, opacity: 0.3 }} /> QOF target
+        </span>
+        <span className="flex items-center gap-1.5">
+          <span className="h-3 border-l-2 border-dashed" style={{ borderColor: MEDICATION_COLOUR }} /> Medication change
+        </span>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        {trends.map(trend => (
+          <TrendChart key={trend.metric} trend={trend} annotations={annotations} />
+        ))}
+      </div>
+
+      {annotations.length > 0 && (
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base flex items-center gap-2">
+              <Pill className="h-4 w-4" />
+              Medication Changes
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-1 text-sm">
+            {[...annotations].reverse().map(annotation => (
+              <div key={annotation.time} className="flex gap-3">
+                <span className="text-muted-foreground w-28 shrink-0">{formatFullDate(annotation.time)}</span>
+                <span>{annotation.label}</span>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,173 @@
+import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip as RechartsTooltip, ResponsiveContainer, Legend } from 'recharts';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { describeCohort } from '@/lib/patient-cohorts';
+import { PROGRAMME_EXIT_REASONS } from '@/lib/call-programmes';
+import {
+  useProgrammeCycles,
+  useProgrammeMembers,
+  useSetMemberStatus,
+  type CallProgramme,
+  type ProgrammeMember,
+} from '@/hooks/useCallProgrammes';
+
+interface ProgrammeDetailDialogProps {
+  programme: CallProgramme | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const formatDate = (date: string) => new Date(date).toLocaleDateString('en-GB');
+
+// Deceased patients can never be brought back into a programme
+const canReinstate = (member: ProgrammeMember) => member.status === 'exited' && member.exit_reason !== 'deceased';
+
+export function ProgrammeDetailDialog({ programme, onOpenChange }: ProgrammeDetailDialogProps) {
+  const { data: cycles } = useProgrammeCycles(programme?.id ?? null);
+  const { data: members } = useProgrammeMembers(programme?.id ?? null);
+  const setMemberStatus = useSetMemberStatus();
+
+  const chartData = (cycles || []).map(c => ({
+    name: `#${c.cycle}`,
+    patients: c.patients,
+    completed: c.completed,
+    completion: c.patients > 0 ? Math.round((c.completed / c.patients) * 100) : 0,
+  }));
+
+  const exitCounts = (members || []).reduce<Record<string, number>>((counts, m) => {
+    if (m.exit_reason) counts[m.exit_reason] = (counts[m.exit_reason] || 0) + 1;
+    return counts;
+  }, {});
+  const activeCount = (members || []).filter(m => m.status === 'active').length;
+
+  return (
+    <Dialog open={!!programme} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        {programme && (
+          <>
+            <DialogHeader>
+              <DialogTitle>{programme.name}</DialogTitle>
+              <DialogDescription>
+                {programme.patient_cohorts ? describeCohort(programme.patient_cohorts.criteria) : 'Cohort deleted'}
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="secondary">{activeCount} active</Badge>
+              {Object.entries(exitCounts).map(([reason, count]) => (
+                <Badge key={reason} variant="outline">
+                  {PROGRAMME_EXIT_REASONS[reason as keyof typeof PROGRAMME_EXIT_REASONS]}: {count}
+                </Badge>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="text-sm font-semibold">Completion by cycle</h3>
+              {chartData.length === 0 ? (
+                <p className="text-sm text-muted-foreground py-6 text-center">
+                  No cycles have run yet. The first batch is generated on {formatDate(programme.next_run_date)}.
+                </p>
+              ) : (
+                <div className="h-[260px]">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <ComposedChart data={chartData} margin={{ top: 10, right: 10, left: -10, bottom: 0 }}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                      <XAxis dataKey="name" tick={{ fontSize: 11, fill: 'hsl(var(--muted-foreground))' }} />
+                      <YAxis yAxisId="patients" tick={{ fontSize: 12, fill: 'hsl(var(--muted-foreground))' }} />
+                      <YAxis
+                        yAxisId="percent"
+                        orientation="right"
+                        domain={[0, 100]}
+                        unit="%"
+                        tick={{ fontSize: 12, fill: 'hsl(var(--muted-foreground))' }}
+                      />
+                      <RechartsTooltip
+                        contentStyle={{
+                          backgroundColor: 'hsl(var(--card))',
+                          border: '1px solid hsl(var(--border))',
+                          borderRadius: '8px',
+                        }}
+                      />
+                      <Legend />
+                      <Bar yAxisId="patients" dataKey="patients" name="Patients called" fill="hsl(var(--muted-foreground))" radius={[4, 4, 0, 0]} />
+                      <Bar yAxisId="patients" dataKey="completed" name="Reached" fill="hsl(var(--primary))" radius={[4, 4, 0, 0]} />
+                      <Line yAxisId="percent" dataKey="completion" name="Completion %" stroke="hsl(var(--success))" strokeWidth={2} />
+                    </ComposedChart>
+                  </ResponsiveContainer>
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="text-sm font-semibold">Patients</h3>
+              <ScrollArea className="h-[280px] rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Patient</TableHead>
+                      <TableHead>Joined</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead className="w-28" />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {members?.map(member => (
+                      <TableRow key={member.id}>
+                        <TableCell className="font-medium">{member.patients?.name || 'Unknown patient'}</TableCell>
+                        <TableCell>{formatDate(member.joined_at)}</TableCell>
+                        <TableCell>
+                          {member.status === 'active' ? (
+                            <Badge variant="secondary">Active</Badge>
+                          ) : (
+                            <div className="space-y-0.5">
+                              <Badge variant="outline">{PROGRAMME_EXIT_REASONS[member.exit_reason!]}</Badge>
+                              {member.exited_at && (
+                                <p className="text-xs text-muted-foreground">
+                                  {formatDate(member.exited_at)}
+                                  {typeof member.exit_details.bp === 'string' && ` - BP ${member.exit_details.bp}`}
+                                  {typeof member.exit_details.hba1c === 'number' && ` - HbA1c ${member.exit_details.hba1c}`}
+                                </p>
+                              )}
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {member.status === 'active' ? (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setMemberStatus.mutate({ member, programmeId: programme.id, active: false })}
+                            >
+                              Remove
+                            </Button>
+                          ) : canReinstate(member) && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setMemberStatus.mutate({ member, programmeId: programme.id, active: true })}
+                            >
+                              Reinstate
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                    {members?.length === 0 && (
+                      <TableRow>
+                        <TableCell colSpan={4} className="text-center text-muted-foreground py-6">
+                          Patients join when the first cycle runs
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+              </ScrollArea>
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
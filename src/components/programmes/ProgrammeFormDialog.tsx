@@ -0,0 +1,229 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CALLABLE_QOF_INDICATORS } from '@/lib/qof-codes';
+import { describeCohort, type CohortCriteria } from '@/lib/patient-cohorts';
+import { PROGRAMME_FREQUENCIES, hasCheckableTarget, type ProgrammeFrequency } from '@/lib/call-programmes';
+import { useCreateProgramme } from '@/hooks/useCallProgrammes';
+import { useCohortMatches, usePatientCohorts } from '@/hooks/usePatientCohorts';
+import { CohortCriteriaFields } from '@/components/cohorts/CohortCriteriaFields';
+
+interface ProgrammeFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const NEW_COHORT = 'new';
+const NO_SCRIPT = 'none';
+
+export function ProgrammeFormDialog({ open, onOpenChange }: ProgrammeFormDialogProps) {
+  const [cohortId, setCohortId] = useState(NEW_COHORT);
+  const [criteria, setCriteria] = useState<CohortCriteria>({ conditions: ['Hypertension'] });
+  const [frequency, setFrequency] = useState<ProgrammeFrequency>('monthly');
+  const [scriptId, setScriptId] = useState(NO_SCRIPT);
+  const [indicators, setIndicators] = useState<string[]>([]);
+  const [autoStart, setAutoStart] = useState(true);
+  const [exitOnTarget, setExitOnTarget] = useState(true);
+
+  const { data: cohorts } = usePatientCohorts();
+  const createProgramme = useCreateProgramme();
+
+  const { data: publishedScripts } = useQuery({
+    queryKey: ['published-call-scripts'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('call_scripts')
+        .select('id, name, version')
+        .eq('status', 'published')
+        .order('name');
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const selectedCohort = cohorts?.find(c => c.id === cohortId);
+  const activeCriteria = selectedCohort ? selectedCohort.criteria : criteria;
+  const matchingCount = useCohortMatches(activeCriteria)?.length;
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    const name = (formData.get('name') as string).trim();
+
+    createProgramme.mutate(
+      {
+        name,
+        description: (formData.get('description') as string) || null,
+        cohort: selectedCohort ? { id: selectedCohort.id } : { name: `${name} cohort`, criteria },
+        script_id: scriptId === NO_SCRIPT ? null : scriptId,
+        target_qof_indicators: indicators,
+        frequency,
+        starts_on: formData.get('starts_on') as string,
+        ends_on: (formData.get('ends_on') as string) || null,
+        scheduled_time_start: formData.get('scheduled_time_start') as string,
+        scheduled_time_end: formData.get('scheduled_time_end') as string,
+        auto_start: autoStart,
+        exit_on_target: exitOnTarget,
+      },
+      { onSuccess: () => onOpenChange(false) }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>New Call Programme</DialogTitle>
+          <DialogDescription>
+            A batch is generated from the cohort on every run date. Patients who die, leave the cohort or reach
+            target stop being called.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="programme-name">Name *</Label>
+            <Input id="programme-name" name="name" placeholder="e.g. Monthly hypertension BP check" required />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="programme-description">Description</Label>
+            <Textarea id="programme-description" name="description" rows={2} />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Patient Cohort</Label>
+            <Select value={cohortId} onValueChange={setCohortId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NEW_COHORT}>New cohort</SelectItem>
+                {cohorts?.map(cohort => (
+                  <SelectItem key={cohort.id} value={cohort.id}>{cohort.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {selectedCohort ? (
+              <p className="text-sm text-muted-foreground">
+                {describeCohort(selectedCohort.criteria)} - {matchingCount ?? '...'} living patients currently match
+              </p>
+            ) : (
+              <CohortCriteriaFields criteria={criteria} onChange={setCriteria} matchingCount={matchingCount} />
+            )}
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Frequency *</Label>
+              <Select value={frequency} onValueChange={(value) => setFrequency(value as ProgrammeFrequency)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PROGRAMME_FREQUENCIES.map(f => (
+                    <SelectItem key={f.value} value={f.value}>{f.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="programme-starts_on">First Run *</Label>
+              <Input
+                id="programme-starts_on"
+                name="starts_on"
+                type="date"
+                defaultValue={format(new Date(), 'yyyy-MM-dd')}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="programme-ends_on">Ends</Label>
+              <Input id="programme-ends_on" name="ends_on" type="date" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="programme-time-start">Start Time *</Label>
+              <Input id="programme-time-start" name="scheduled_time_start" type="time" defaultValue="09:00" required />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="programme-time-end">End Time *</Label>
+              <Input id="programme-time-end" name="scheduled_time_end" type="time" defaultValue="17:00" required />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Conversation Script</Label>
+            <Select value={scriptId} onValueChange={setScriptId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_SCRIPT}>General health check (no script)</SelectItem>
+                {publishedScripts?.map(script => (
+                  <SelectItem key={script.id} value={script.id}>
+                    {script.name} (v{script.version})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Target QOF Indicators</Label>
+            <div className="grid grid-cols-2 gap-2 rounded-md border p-3">
+              {CALLABLE_QOF_INDICATORS.map(indicator => (
+                <div key={indicator.code} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`programme-target-${indicator.code}`}
+                    checked={indicators.includes(indicator.code)}
+                    onCheckedChange={(checked) =>
+                      setIndicators(checked ? [...indicators, indicator.code] : indicators.filter(c => c !== indicator.code))
+                    }
+                  />
+                  <Label htmlFor={`programme-target-${indicator.code}`} className="text-sm font-normal">
+                    {indicator.code}: {indicator.name}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-3 rounded-md border p-3">
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <Label htmlFor="programme-auto-start">Start batches automatically</Label>
+                <p className="text-xs text-muted-foreground">Otherwise each generated batch waits to be started from Batches</p>
+              </div>
+              <Switch id="programme-auto-start" checked={autoStart} onCheckedChange={setAutoStart} />
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <Label htmlFor="programme-exit-on-target">Stop calling patients who reach target</Label>
+                <p className="text-xs text-muted-foreground">
+                  {hasCheckableTarget(indicators)
+                    ? 'Based on clinician-verified readings taken since the patient joined'
+                    : 'Select a BP or HbA1c indicator for targets to be checked'}
+                </p>
+              </div>
+              <Switch id="programme-exit-on-target" checked={exitOnTarget} onCheckedChange={setExitOnTarget} />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+            <Button type="submit" disabled={createProgramme.isPending}>
+              {createProgramme.isPending ? 'Creating...' : 'Create Programme'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,180 @@
+import { useMemo, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { QOF_INDICATORS } from '@/lib/qof-codes';
+import { PCA_REASONS, defaultExceptionExpiry, type PcaReason } from '@/lib/qof-exceptions';
+import { useRecordException } from '@/hooks/useQOFExceptions';
+import type { AchievementRegisterPatient } from '@/hooks/useQOFAchievement';
+
+interface RecordExceptionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  patients: AchievementRegisterPatient[];
+}
+
+// Enough to find a patient by name or NHS number without rendering the whole register
+const SEARCH_LIMIT = 50;
+
+const today = () => new Date().toISOString().split('T')[0];
+
+export function RecordExceptionDialog({ open, onOpenChange, patients }: RecordExceptionDialogProps) {
+  const [search, setSearch] = useState('');
+  const [patientId, setPatientId] = useState<string | null>(null);
+  const [indicatorCodes, setIndicatorCodes] = useState<string[]>([]);
+  const [reason, setReason] = useState<PcaReason>('informed_dissent');
+  const [expiresOn, setExpiresOn] = useState(() => defaultExceptionExpiry('informed_dissent', today()));
+  const recordException = useRecordException();
+
+  const patient = patients.find(p => p.id === patientId);
+  const searchResults = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    if (!query) return [];
+    return patients
+      .filter(p => p.name.toLowerCase().includes(query) || p.nhs_number?.includes(query))
+      .slice(0, SEARCH_LIMIT);
+  }, [patients, search]);
+
+  const handleReasonChange = (value: PcaReason) => {
+    setReason(value);
+    setExpiresOn(defaultExceptionExpiry(value, today()));
+  };
+
+  const toggleIndicator = (code: string, checked: boolean) => {
+    setIndicatorCodes(codes => (checked ? [...codes, code] : codes.filter(c => c !== code)));
+  };
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!patientId) return;
+    const formData = new FormData(e.currentTarget);
+    recordException.mutate(
+      {
+        patientId,
+        indicatorCodes,
+        reason,
+        expiresOn: expiresOn || null,
+        notes: ((formData.get('notes') as string) || '').trim() || null,
+      },
+      { onSuccess: () => onOpenChange(false) }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Record Exception</DialogTitle>
+          <DialogDescription>
+            A Personalised Care Adjustment takes the patient out of the indicator's denominator, unless they meet it anyway.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="exception-patient">Patient *</Label>
+            {patient ? (
+              <div className="flex items-center justify-between rounded-md border p-3">
+                <div>
+                  <p className="font-medium">{patient.name}</p>
+                  <p className="text-xs text-muted-foreground">{patient.nhs_number || 'No NHS number'} • {patient.conditions?.join(', ')}</p>
+                </div>
+                <Button type="button" variant="ghost" size="sm" onClick={() => setPatientId(null)}>Change</Button>
+              </div>
+            ) : (
+              <>
+                <Input
+                  id="exception-patient"
+                  placeholder="Search by name or NHS number"
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                />
+                {searchResults.length > 0 && (
+                  <ScrollArea className="h-40 rounded-md border">
+                    <div className="p-1">
+                      {searchResults.map(p => (
+                        <button
+                          key={p.id}
+                          type="button"
+                          className="w-full rounded px-2 py-1.5 text-left text-sm hover:bg-muted"
+                          onClick={() => setPatientId(p.id)}
+                        >
+                          <span className="font-medium">{p.name}</span>
+                          <span className="text-muted-foreground ml-2">{p.nhs_number}</span>
+                        </button>
+                      ))}
+                    </div>
+                  </ScrollArea>
+                )}
+              </>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Indicators *</Label>
+            <ScrollArea className="h-48 rounded-md border">
+              <div className="p-3 space-y-2">
+                {QOF_INDICATORS.map(indicator => (
+                  <div key={indicator.code} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`exception-${indicator.code}`}
+                      checked={indicatorCodes.includes(indicator.code)}
+                      onCheckedChange={(checked) => toggleIndicator(indicator.code, !!checked)}
+                    />
+                    <Label htmlFor={`exception-${indicator.code}`} className="text-sm font-normal">
+                      {indicator.code}: {indicator.name}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Reason *</Label>
+              <Select value={reason} onValueChange={(value) => handleReasonChange(value as PcaReason)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(PCA_REASONS) as PcaReason[]).map(value => (
+                    <SelectItem key={value} value={value}>{PCA_REASONS[value].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">{PCA_REASONS[reason].description}</p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="exception-expires">Expires</Label>
+              <Input
+                id="exception-expires"
+                type="date"
+                value={expiresOn}
+                min={today()}
+                onChange={(e) => setExpiresOn(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">Leave blank for an exception that does not expire</p>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="exception-notes">Notes</Label>
+            <Textarea id="exception-notes" name="notes" rows={2} placeholder="e.g. Discussed with patient on the phone" />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+            <Button type="submit" disabled={!patientId || indicatorCodes.length === 0 || recordException.isPending}>
+              {recordException.isPending ? 'Recording...' : 'Record Exception'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
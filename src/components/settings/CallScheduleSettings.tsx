@@ -0,0 +1,298 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useUserRole } from '@/hooks/useUserRole';
+import { useAuditLog } from '@/hooks/useAuditLog';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useToast } from '@/hooks/use-toast';
+import { Clock, CalendarOff, Plus, Save, Trash2 } from 'lucide-react';
+
+interface ScheduleSettings {
+  id: string;
+  quiet_hours_start: string;
+  quiet_hours_end: string;
+  calling_days: number[];
+  updated_at: string;
+}
+
+interface BankHoliday {
+  id: string;
+  holiday_date: string;
+  name: string;
+}
+
+const WEEKDAYS = [
+  { value: 1, label: 'Mon' },
+  { value: 2, label: 'Tue' },
+  { value: 3, label: 'Wed' },
+  { value: 4, label: 'Thu' },
+  { value: 5, label: 'Fri' },
+  { value: 6, label: 'Sat' },
+  { value: 7, label: 'Sun' },
+];
+
+export function CallScheduleSettings() {
+  const { user } = useAuth();
+  const { isAdmin } = useUserRole();
+  const { logAction } = useAuditLog();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [quietStart, setQuietStart] = useState('20:00');
+  const [quietEnd, setQuietEnd] = useState('09:00');
+  const [callingDays, setCallingDays] = useState<number[]>([1, 2, 3, 4, 5]);
+  const [newHolidayDate, setNewHolidayDate] = useState('');
+  const [newHolidayName, setNewHolidayName] = useState('');
+
+  const { data: settings } = useQuery({
+    queryKey: ['call-schedule-settings'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('call_schedule_settings')
+        .select('*')
+        .limit(1)
+        .maybeSingle();
+      if (error) throw error;
+      return data as ScheduleSettings | null;
+    },
+  });
+
+  const { data: holidays } = useQuery({
+    queryKey: ['bank-holidays'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('bank_holidays')
+        .select('id, holiday_date, name')
+        .gte('holiday_date', new Date().toISOString().split('T')[0])
+        .order('holiday_date');
+      if (error) throw error;
+      return data as BankHoliday[];
+    },
+  });
+
+  useEffect(() => {
+    if (settings) {
+      setQuietStart(settings.quiet_hours_start.slice(0, 5));
+      setQuietEnd(settings.quiet_hours_end.slice(0, 5));
+      setCallingDays(settings.calling_days);
+    }
+  }, [settings]);
+
+  const saveSettingsMutation = useMutation({
+    mutationFn: async () => {
+      if (!settings) throw new Error('Calling schedule settings not found');
+      const { error } = await supabase
+        .from('call_schedule_settings')
+        .update({
+          quiet_hours_start: quietStart,
+          quiet_hours_end: quietEnd,
+          calling_days: [...callingDays].sort(),
+          updated_by: user?.id,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', settings.id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['call-schedule-settings'] });
+      logAction('update_call_schedule', 'batch', undefined, {
+        quiet_hours_start: quietStart,
+        quiet_hours_end: quietEnd,
+        calling_days: callingDays,
+      });
+      toast({ title: 'Calling hours saved' });
+    },
+    onError: (error: Error) => {
+      toast({ variant: 'destructive', title: 'Failed to save calling hours', description: error.message });
+    },
+  });
+
+  const addHolidayMutation = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase
+        .from('bank_holidays')
+        .insert({ holiday_date: newHolidayDate, name: newHolidayName || 'Practice closure' });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['bank-holidays'] });
+      toast({ title: 'Non-calling day added' });
+      setNewHolidayDate('');
+      setNewHolidayName('');
+    },
+    onError: (error: Error) => {
+      toast({ variant: 'destructive', title: 'Failed to add day', description: error.message });
+    },
+  });
+
+  const deleteHolidayMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('bank_holidays').delete().eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['bank-holidays'] });
+      toast({ title: 'Non-calling day removed' });
+    },
+    onError: (error: Error) => {
+      toast({ variant: 'destructive', title: 'Failed to remove day', description: error.message });
+    },
+  });
+
+  const toggleDay = (day: number, checked: boolean) => {
+    setCallingDays(checked ? [...callingDays, day] : callingDays.filter(d => d !== day));
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Clock className="h-5 w-5" />
+            Calling Hours
+          </CardTitle>
+          <CardDescription>
+            Patients are never called during quiet hours or on non-calling days, whatever the batch window says.
+            Times are UK local time.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-2 gap-4 max-w-md">
+            <div className="space-y-2">
+              <Label htmlFor="quiet_hours_start">Quiet hours start</Label>
+              <Input
+                id="quiet_hours_start"
+                type="time"
+                value={quietStart}
+                onChange={(e) => setQuietStart(e.target.value)}
+                disabled={!isAdmin}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="quiet_hours_end">Quiet hours end</Label>
+              <Input
+                id="quiet_hours_end"
+                type="time"
+                value={quietEnd}
+                onChange={(e) => setQuietEnd(e.target.value)}
+                disabled={!isAdmin}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Calling days</Label>
+            <div className="flex flex-wrap gap-4">
+              {WEEKDAYS.map((day) => (
+                <div key={day.value} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`calling-day-${day.value}`}
+                    checked={callingDays.includes(day.value)}
+                    onCheckedChange={(checked) => toggleDay(day.value, !!checked)}
+                    disabled={!isAdmin}
+                  />
+                  <label htmlFor={`calling-day-${day.value}`} className="text-sm cursor-pointer">
+                    {day.label}
+                  </label>
+                </div>
+              ))}
+            </div>
+          </div>
+          {isAdmin ? (
+            <Button
+              onClick={() => saveSettingsMutation.mutate()}
+              disabled={saveSettingsMutation.isPending || callingDays.length === 0}
+            >
+              <Save className="h-4 w-4 mr-2" />
+              {saveSettingsMutation.isPending ? 'Saving...' : 'Save Calling Hours'}
+            </Button>
+          ) : (
+            <p className="text-sm text-muted-foreground">Only administrators can change calling hours.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CalendarOff className="h-5 w-5" />
+            Bank Holidays & Closures
+          </CardTitle>
+          <CardDescription>
+            No calls are placed on these days. Batches running over them carry on the next calling day.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isAdmin && (
+            <div className="flex flex-wrap items-end gap-2">
+              <div className="space-y-2">
+                <Label htmlFor="holiday_date">Date</Label>
+                <Input
+                  id="holiday_date"
+                  type="date"
+                  value={newHolidayDate}
+                  onChange={(e) => setNewHolidayDate(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2 flex-1 min-w-[200px]">
+                <Label htmlFor="holiday_name">Name</Label>
+                <Input
+                  id="holiday_name"
+                  placeholder="e.g., Practice training afternoon"
+                  value={newHolidayName}
+                  onChange={(e) => setNewHolidayName(e.target.value)}
+                />
+              </div>
+              <Button
+                variant="outline"
+                onClick={() => addHolidayMutation.mutate()}
+                disabled={!newHolidayDate || addHolidayMutation.isPending}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add
+              </Button>
+            </div>
+          )}
+          <ScrollArea className="h-56">
+            <div className="space-y-2">
+              {holidays?.map((holiday) => (
+                <div key={holiday.id} className="flex items-center justify-between p-2 bg-muted rounded-md">
+                  <div className="flex items-center gap-3">
+                    <Badge variant="outline">
+                      {new Date(holiday.holiday_date).toLocaleDateString('en-GB', {
+                        weekday: 'short',
+                        day: 'numeric',
+                        month: 'short',
+                        year: 'numeric',
+                      })}
+                    </Badge>
+                    <span className="text-sm">{holiday.name}</span>
+                  </div>
+                  {isAdmin && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => deleteHolidayMutation.mutate(holiday.id)}
+                      title="Remove"
+                    >
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+              {holidays?.length === 0 && (
+                <p className="text-center text-muted-foreground py-4">No upcoming non-calling days.</p>
+              )}
+            </div>
+          </ScrollArea>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -48,6 +48,8 @@ const MESSAGE_TYPE_LABELS: Record<string, string> = {
   error: 'Error Message',
   unclear_response: 'Unclear Response Message',
   invalid_input: 'Invalid Input (Legacy)',
+  callback_greeting: 'Callback Greeting (Patient Rang Back)',
+  callback_unmatched: 'Callback Not Matched',
 };
 
 export function ConsentVoiceSettings() {
@@ -0,0 +1,255 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useUserRole } from '@/hooks/useUserRole';
+import { useAuditLog } from '@/hooks/useAuditLog';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { ShieldAlert, Plus, Trash2 } from 'lucide-react';
+
+interface DutyShift {
+  id: string;
+  user_id: string;
+  duty_role: 'primary' | 'backup';
+  starts_at: string;
+  ends_at: string;
+}
+
+const DUTY_ROLE_LABELS: Record<DutyShift['duty_role'], string> = {
+  primary: 'Primary',
+  backup: 'Backup',
+};
+
+const formatShiftTime = (value: string) =>
+  new Date(value).toLocaleString('en-GB', {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+export function DutyRotaSettings() {
+  const { user } = useAuth();
+  const { hasAnyRole } = useUserRole();
+  const { logAction } = useAuditLog();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [clinicianId, setClinicianId] = useState('');
+  const [dutyRole, setDutyRole] = useState<DutyShift['duty_role']>('primary');
+  const [startsAt, setStartsAt] = useState('');
+  const [endsAt, setEndsAt] = useState('');
+
+  const canManage = hasAnyRole(['gp', 'admin']);
+
+  const { data: shifts } = useQuery({
+    queryKey: ['duty-rota'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('clinician_duty_rota')
+        .select('id, user_id, duty_role, starts_at, ends_at')
+        .gte('ends_at', new Date().toISOString())
+        .order('starts_at');
+      if (error) throw error;
+      return data as DutyShift[];
+    },
+  });
+
+  const { data: clinicians } = useQuery({
+    queryKey: ['duty-rota-clinicians'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('user_id, full_name')
+        .order('full_name');
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const names = new Map((clinicians || []).map(c => [c.user_id, c.full_name || 'Unknown user']));
+  const now = Date.now();
+
+  const addShiftMutation = useMutation({
+    mutationFn: async () => {
+      const start = new Date(startsAt);
+      const end = new Date(endsAt);
+      if (end <= start) throw new Error('The shift must end after it starts');
+      const { error } = await supabase.from('clinician_duty_rota').insert({
+        user_id: clinicianId,
+        duty_role: dutyRole,
+        starts_at: start.toISOString(),
+        ends_at: end.toISOString(),
+        created_by: user?.id,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['duty-rota'] });
+      logAction('add_duty_shift', 'user', clinicianId, { duty_role: dutyRole, starts_at: startsAt, ends_at: endsAt });
+      toast({ title: 'Duty shift added' });
+      setClinicianId('');
+      setStartsAt('');
+      setEndsAt('');
+    },
+    onError: (error: Error) => {
+      toast({ variant: 'destructive', title: 'Failed to add shift', description: error.message });
+    },
+  });
+
+  const deleteShiftMutation = useMutation({
+    mutationFn: async (shift: DutyShift) => {
+      const { error } = await supabase.from('clinician_duty_rota').delete().eq('id', shift.id);
+      if (error) throw error;
+    },
+    onSuccess: (_, shift) => {
+      queryClient.invalidateQueries({ queryKey: ['duty-rota'] });
+      logAction('remove_duty_shift', 'user', shift.user_id, {
+        duty_role: shift.duty_role,
+        starts_at: shift.starts_at,
+        ends_at: shift.ends_at,
+      });
+      toast({ title: 'Duty shift removed' });
+    },
+    onError: (error: Error) => {
+      toast({ variant: 'destructive', title: 'Failed to remove shift', description: error.message });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldAlert className="h-5 w-5" />
+          Critical Alert Duty Rota
+        </CardTitle>
+        <CardDescription>
+          New critical alerts are assigned to the primary clinician on duty. If nobody acknowledges an alert within
+          the deadline set in Clinical Rules, it escalates to the backup clinician on duty (or another GP or
+          administrator) by in-app notification and email.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {canManage && (
+          <div className="flex flex-wrap items-end gap-2">
+            <div className="space-y-2 min-w-[200px]">
+              <Label>Clinician</Label>
+              <Select value={clinicianId} onValueChange={setClinicianId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select clinician" />
+                </SelectTrigger>
+                <SelectContent>
+                  {clinicians?.map(c => (
+                    <SelectItem key={c.user_id} value={c.user_id}>{c.full_name || 'Unknown user'}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2 w-32">
+              <Label>Role</Label>
+              <Select value={dutyRole} onValueChange={(value) => setDutyRole(value as DutyShift['duty_role'])}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="primary">Primary</SelectItem>
+                  <SelectItem value="backup">Backup</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="shift_starts_at">Starts</Label>
+              <Input
+                id="shift_starts_at"
+                type="datetime-local"
+                value={startsAt}
+                onChange={(e) => setStartsAt(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="shift_ends_at">Ends</Label>
+              <Input
+                id="shift_ends_at"
+                type="datetime-local"
+                value={endsAt}
+                onChange={(e) => setEndsAt(e.target.value)}
+              />
+            </div>
+            <Button
+              variant="outline"
+              onClick={() => addShiftMutation.mutate()}
+              disabled={!clinicianId || !startsAt || !endsAt || addShiftMutation.isPending}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add
+            </Button>
+          </div>
+        )}
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Clinician</TableHead>
+              <TableHead>Role</TableHead>
+              <TableHead>Starts</TableHead>
+              <TableHead>Ends</TableHead>
+              {canManage && <TableHead className="w-12" />}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {shifts?.map(shift => {
+              const onDuty = new Date(shift.starts_at).getTime() <= now && new Date(shift.ends_at).getTime() > now;
+              return (
+                <TableRow key={shift.id}>
+                  <TableCell className="font-medium">
+                    <div className="flex items-center gap-2">
+                      {names.get(shift.user_id) || 'Unknown user'}
+                      {onDuty && <Badge variant="secondary" className="text-xs">On duty now</Badge>}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={shift.duty_role === 'primary' ? 'default' : 'outline'}>
+                      {DUTY_ROLE_LABELS[shift.duty_role]}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>{formatShiftTime(shift.starts_at)}</TableCell>
+                  <TableCell>{formatShiftTime(shift.ends_at)}</TableCell>
+                  {canManage && (
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => deleteShiftMutation.mutate(shift)}
+                        title="Remove"
+                      >
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </TableCell>
+                  )}
+                </TableRow>
+              );
+            })}
+            {shifts?.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={canManage ? 5 : 4} className="text-center text-muted-foreground py-6">
+                  No current or upcoming shifts. Critical alerts stay unassigned and escalate to a GP or administrator.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+        {!canManage && (
+          <p className="text-sm text-muted-foreground">Only GPs and administrators can change the duty rota.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,164 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { Loader2, PencilLine } from "lucide-react";
+import { WHOLE_NUMBER_FIELDS } from "@/lib/clinical-verification";
+
+export interface AmendableValue {
+  key: string;
+  label: string;
+  // Null for a value held back by the plausibility checks
+  value: number | null;
+  unit: string;
+}
+
+export interface AmendTarget {
+  responseId: string;
+  // Values of one metric, e.g. systolic and diastolic for blood pressure
+  values: AmendableValue[];
+  // Amending withdraws a first sign-off, so the clinician is warned
+  awaitingSecondSignoff: boolean;
+}
+
+interface AmendValueDialogProps {
+  target: AmendTarget | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function AmendValueDialog({ target, onOpenChange }: AmendValueDialogProps) {
+  const queryClient = useQueryClient();
+  const [field, setField] = useState("");
+  const [value, setValue] = useState("");
+  const [reason, setReason] = useState("");
+
+  const values = target?.values ?? [];
+  const selected = values.find(v => v.key === field);
+
+  useEffect(() => {
+    if (target) {
+      setField(target.values[0].key);
+      setValue(String(target.values[0].value ?? ""));
+      setReason("");
+    }
+  }, [target]);
+
+  const amendMutation = useMutation({
+    mutationFn: async () => {
+      const amended = Number(value);
+      if (value.trim() === "" || !Number.isFinite(amended) || amended < 0) {
+        throw new Error("Enter the corrected value as a number");
+      }
+      if (WHOLE_NUMBER_FIELDS.includes(field) && !Number.isInteger(amended)) {
+        throw new Error(`${selected?.label} is recorded as a whole number`);
+      }
+      const { error } = await supabase.rpc("amend_call_response_value", {
+        p_response_id: target!.responseId,
+        p_field: field,
+        p_value: amended,
+        p_reason: reason.trim(),
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["call-responses-verification"] });
+      queryClient.invalidateQueries({ queryKey: ["verifier-workload"] });
+      toast.success(`${selected?.label} amended - the original value is kept in the amendment history`);
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast.error("Failed to amend value: " + error.message);
+    },
+  });
+
+  return (
+    <Dialog open={!!target} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <PencilLine className="h-5 w-5" />
+            Amend Extracted Value
+          </DialogTitle>
+          <DialogDescription>
+            Correct a value the AI extracted wrongly. The original value, your reason and your name are kept.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {values.length > 1 && (
+            <div className="space-y-2">
+              <Label>Value</Label>
+              <Select
+                value={field}
+                onValueChange={(key) => {
+                  setField(key);
+                  setValue(String(values.find(v => v.key === key)?.value ?? ""));
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {values.map(v => (
+                    <SelectItem key={v.key} value={v.key}>{v.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="amended-value">
+              {selected?.label} ({selected?.value == null ? "held back" : `extracted ${selected.value}${selected.unit ? ` ${selected.unit}` : ""}`})
+            </Label>
+            <div className="flex items-center gap-2">
+              <Input
+                id="amended-value"
+                type="number"
+                min={0}
+                step="any"
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+              />
+              {selected?.unit && <span className="text-sm text-muted-foreground shrink-0">{selected.unit}</span>}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="amend-reason">Reason</Label>
+            <Textarea
+              id="amend-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder='e.g. Transcript shows patient said "one forty-eight", extracted as 184'
+              rows={2}
+            />
+          </div>
+
+          {target?.awaitingSecondSignoff && (
+            <p className="text-sm text-orange-600">
+              This response has a first sign-off. Amending it withdraws that sign-off and returns it to the review queue.
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button
+            onClick={() => amendMutation.mutate()}
+            disabled={!reason.trim() || amendMutation.isPending}
+          >
+            {amendMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Amend Value
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
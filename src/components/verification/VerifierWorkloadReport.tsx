@@ -0,0 +1,123 @@
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { subDays } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { BarChart3, Loader2 } from "lucide-react";
+import { buildVerifierWorkload, VERIFICATION_ACTIONS, type VerificationAuditEntry } from "@/lib/clinical-verification";
+
+const PAGE_SIZE = 1000;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const PERIODS = [
+  { days: 7, label: "Last 7 days" },
+  { days: 30, label: "Last 30 days" },
+  { days: 90, label: "Last 90 days" },
+];
+
+const formatHours = (hours: number | null) => {
+  if (hours === null) return "—";
+  return hours < 48 ? `${hours} h` : `${Math.round(hours / 24)} days`;
+};
+
+export function VerifierWorkloadReport() {
+  const [days, setDays] = useState(30);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["verifier-workload", days],
+    queryFn: async () => {
+      const since = subDays(new Date(), days).toISOString();
+      const entries: VerificationAuditEntry[] = [];
+      for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error } = await supabase
+          .from("call_audit_log")
+          .select("action, actor, created_at, details")
+          .in("action", [...VERIFICATION_ACTIONS])
+          .gte("created_at", since)
+          .order("created_at")
+          .range(from, from + PAGE_SIZE - 1);
+        if (error) throw error;
+        entries.push(...data);
+        if (data.length < PAGE_SIZE) break;
+      }
+
+      // Actors are user ids, except for entries written by the system
+      const actorIds = [...new Set(entries.map(e => e.actor))].filter(actor => UUID_PATTERN.test(actor));
+      const { data: profiles } = actorIds.length > 0
+        ? await supabase.from("profiles").select("user_id, full_name").in("user_id", actorIds)
+        : { data: [] };
+
+      return { entries, names: new Map((profiles || []).map(p => [p.user_id, p.full_name])) };
+    },
+  });
+
+  const workload = useMemo(() => buildVerifierWorkload(data?.entries ?? []), [data]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <BarChart3 className="h-5 w-5" />
+              Verifier Workload
+            </CardTitle>
+            <CardDescription>
+              Sign-offs, rejections and amendments per clinician from the call audit log
+            </CardDescription>
+          </div>
+          <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PERIODS.map(period => (
+                <SelectItem key={period.days} value={String(period.days)}>{period.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : workload.length === 0 ? (
+          <p className="text-center py-12 text-muted-foreground">No verification activity in this period</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Clinician</TableHead>
+                <TableHead className="text-right">Verified</TableHead>
+                <TableHead className="text-right">Bulk verified</TableHead>
+                <TableHead className="text-right">First sign-offs</TableHead>
+                <TableHead className="text-right">Countersigned</TableHead>
+                <TableHead className="text-right">Rejected</TableHead>
+                <TableHead className="text-right">Amended</TableHead>
+                <TableHead className="text-right">Median time to sign-off</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {workload.map(row => (
+                <TableRow key={row.actor}>
+                  <TableCell className="font-medium">{data?.names.get(row.actor) || "Unknown user"}</TableCell>
+                  <TableCell className="text-right">{row.verified}</TableCell>
+                  <TableCell className="text-right">{row.bulkVerified}</TableCell>
+                  <TableCell className="text-right">{row.firstSignoffs}</TableCell>
+                  <TableCell className="text-right">{row.countersigned}</TableCell>
+                  <TableCell className="text-right">{row.rejected}</TableCell>
+                  <TableCell className="text-right">{row.amended}</TableCell>
+                  <TableCell className="text-right">{formatHours(row.medianHoursToSignoff)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,7 +1,7 @@
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from './useAuth';
 
-type EntityType = 'patient' | 'batch' | 'call' | 'user' | 'export';
+type EntityType = 'patient' | 'batch' | 'call' | 'user' | 'export' | 'script' | 'programme' | 'cohort';
 
 export function useAuditLog() {
   const { user } = useAuth();
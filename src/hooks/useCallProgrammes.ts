@@ -0,0 +1,218 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useAuditLog } from '@/hooks/useAuditLog';
+import { useToast } from '@/hooks/use-toast';
+import type { CohortCriteria } from '@/lib/patient-cohorts';
+import type { PatientCohort } from '@/hooks/usePatientCohorts';
+import type { ProgrammeExitReason, ProgrammeFrequency } from '@/lib/call-programmes';
+import type { Json } from '@/integrations/supabase/types';
+
+export type ProgrammeStatus = 'active' | 'paused' | 'ended';
+
+export interface CallProgramme {
+  id: string;
+  name: string;
+  description: string | null;
+  cohort_id: string;
+  script_id: string | null;
+  target_qof_indicators: string[];
+  frequency: ProgrammeFrequency;
+  starts_on: string;
+  next_run_date: string;
+  ends_on: string | null;
+  scheduled_time_start: string;
+  scheduled_time_end: string;
+  auto_start: boolean;
+  exit_on_target: boolean;
+  status: ProgrammeStatus;
+  cycles_run: number;
+  last_run_at: string | null;
+  created_at: string;
+  patient_cohorts: PatientCohort | null;
+  activeMembers: number;
+}
+
+export interface ProgrammeCycle {
+  batch_id: string;
+  cycle: number;
+  scheduled_date: string;
+  status: string;
+  patients: number;
+  completed: number;
+}
+
+export interface ProgrammeMember {
+  id: string;
+  patient_id: string;
+  status: 'active' | 'exited';
+  exit_reason: ProgrammeExitReason | null;
+  exit_details: Record<string, unknown>;
+  joined_at: string;
+  exited_at: string | null;
+  patients: { name: string } | null;
+}
+
+export type NewProgramme = Omit<
+  CallProgramme,
+  'id' | 'cohort_id' | 'next_run_date' | 'status' | 'cycles_run' | 'last_run_at' | 'created_at' | 'patient_cohorts' | 'activeMembers'
+> & {
+  // An existing saved cohort, or the criteria for a new one
+  cohort: { id: string } | { name: string; criteria: CohortCriteria };
+};
+
+export function useCallProgrammes() {
+  return useQuery({
+    queryKey: ['call-programmes'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('call_programmes')
+        .select('*, patient_cohorts (id, name, description, criteria, updated_at)')
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+
+      const counts = await Promise.all(
+        data.map(p =>
+          supabase
+            .from('call_programme_patients')
+            .select('id', { count: 'exact', head: true })
+            .eq('programme_id', p.id)
+            .eq('status', 'active')
+        )
+      );
+      return data.map((p, i) => ({ ...p, activeMembers: counts[i].count ?? 0 })) as CallProgramme[];
+    },
+  });
+}
+
+export function useProgrammeCycles(programmeId: string | null) {
+  return useQuery({
+    queryKey: ['programme-cycles', programmeId],
+    enabled: !!programmeId,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('call_programme_cycles')
+        .select('batch_id, cycle, scheduled_date, status, patients, completed')
+        .eq('programme_id', programmeId!)
+        .order('cycle');
+      if (error) throw error;
+      return data as ProgrammeCycle[];
+    },
+  });
+}
+
+export function useProgrammeMembers(programmeId: string | null) {
+  return useQuery({
+    queryKey: ['programme-members', programmeId],
+    enabled: !!programmeId,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('call_programme_patients')
+        .select('id, patient_id, status, exit_reason, exit_details, joined_at, exited_at, patients (name)')
+        .eq('programme_id', programmeId!)
+        .order('joined_at');
+      if (error) throw error;
+      return data as ProgrammeMember[];
+    },
+  });
+}
+
+export function useCreateProgramme() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const { logAction } = useAuditLog();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ cohort, ...programme }: NewProgramme) => {
+      let cohortId: string;
+      if ('id' in cohort) {
+        cohortId = cohort.id;
+      } else {
+        const { data, error } = await supabase
+          .from('patient_cohorts')
+          .insert({ name: cohort.name, criteria: cohort.criteria as Json, created_by: user?.id })
+          .select('id')
+          .single();
+        if (error) throw error;
+        cohortId = data.id;
+      }
+
+      const { data, error } = await supabase
+        .from('call_programmes')
+        .insert({
+          ...programme,
+          cohort_id: cohortId,
+          next_run_date: programme.starts_on,
+          created_by: user?.id,
+        })
+        .select()
+        .single();
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['call-programmes'] });
+      queryClient.invalidateQueries({ queryKey: ['patient-cohorts'] });
+      logAction('create_programme', 'programme', data.id, { name: data.name, frequency: data.frequency });
+      toast({ title: 'Programme created', description: `The first batch will be generated on ${new Date(data.starts_on).toLocaleDateString('en-GB')}.` });
+    },
+    onError: (error: Error) => {
+      toast({ variant: 'destructive', title: 'Failed to create programme', description: error.message });
+    },
+  });
+}
+
+export function useSetProgrammeStatus() {
+  const queryClient = useQueryClient();
+  const { logAction } = useAuditLog();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ programme, status }: { programme: CallProgramme; status: ProgrammeStatus }) => {
+      const { error } = await supabase
+        .from('call_programmes')
+        .update({ status })
+        .eq('id', programme.id);
+      if (error) throw error;
+    },
+    onSuccess: (_, { programme, status }) => {
+      queryClient.invalidateQueries({ queryKey: ['call-programmes'] });
+      logAction(`${status === 'active' ? 'resume' : status === 'paused' ? 'pause' : 'end'}_programme`, 'programme', programme.id);
+      toast({ title: status === 'active' ? 'Programme resumed' : status === 'paused' ? 'Programme paused' : 'Programme ended' });
+    },
+    onError: (error: Error) => {
+      toast({ variant: 'destructive', title: 'Failed to update programme', description: error.message });
+    },
+  });
+}
+
+/** Take a patient out of a programme, or bring an exited patient back in */
+export function useSetMemberStatus() {
+  const queryClient = useQueryClient();
+  const { logAction } = useAuditLog();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ member, active }: { member: ProgrammeMember; programmeId: string; active: boolean }) => {
+      const { error } = await supabase
+        .from('call_programme_patients')
+        .update(
+          active
+            ? { status: 'active', exit_reason: null, exit_details: {}, exited_at: null, joined_at: new Date().toISOString() }
+            : { status: 'exited', exit_reason: 'removed', exited_at: new Date().toISOString() }
+        )
+        .eq('id', member.id);
+      if (error) throw error;
+    },
+    onSuccess: (_, { member, programmeId, active }) => {
+      queryClient.invalidateQueries({ queryKey: ['programme-members', programmeId] });
+      queryClient.invalidateQueries({ queryKey: ['call-programmes'] });
+      logAction(active ? 'reinstate_programme_patient' : 'remove_programme_patient', 'programme', programmeId, { patient_id: member.patient_id });
+      toast({ title: active ? 'Patient reinstated' : 'Patient removed from programme' });
+    },
+    onError: (error: Error) => {
+      toast({ variant: 'destructive', title: 'Failed to update patient', description: error.message });
+    },
+  });
+}
@@ -0,0 +1,38 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { toRuleSettings, RuleSettings } from '@/lib/clinical-analysis';
+
+export interface ClinicalRuleSettingsRow {
+  id: string;
+  thresholds: Record<string, number>;
+  disabled_rules: string[];
+  due_within_days: Record<string, number>;
+  dual_signoff_limits: Record<string, number>;
+  updated_by: string | null;
+  updated_at: string;
+}
+
+/**
+ * The practice's clinical rule overrides, ready to pass to analyzeAllPatients.
+ * Until the row loads the defaults apply.
+ */
+export function useClinicalRuleSettings() {
+  const query = useQuery({
+    queryKey: ['clinical-rule-settings'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('clinical_rule_settings')
+        .select('*')
+        .limit(1)
+        .maybeSingle();
+      if (error) throw error;
+      return data as ClinicalRuleSettingsRow | null;
+    },
+  });
+
+  // Stable between renders so callers can memoise on it
+  const settings: RuleSettings = useMemo(() => toRuleSettings(query.data), [query.data]);
+
+  return { settings, row: query.data ?? null, isLoading: query.isLoading };
+}
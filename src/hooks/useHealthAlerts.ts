@@ -12,6 +12,11 @@ export interface HealthAlert {
   metrics: Record<string, unknown>;
   acknowledged_at: string | null;
   acknowledged_by: string | null;
+  assigned_to: string | null;
+  ack_due_at: string | null;
+  escalated_to: string | null;
+  escalated_at: string | null;
+  escalation_level: number;
   created_at: string;
   patients?: {
     first_name: string;
@@ -20,6 +25,16 @@ export interface HealthAlert {
   };
 }
 
+export interface AlertEscalationEvent {
+  id: string;
+  alert_id: string;
+  event: 'assigned' | 'unassigned' | 'escalated' | 'escalation_failed' | 'email_sent' | 'email_failed' | 'acknowledged';
+  user_id: string | null;
+  channel: string | null;
+  details: Record<string, unknown>;
+  created_at: string;
+}
+
 export interface DashboardInsights {
   due_for_annual: number;
   critical_alerts: number;
@@ -90,6 +105,8 @@ export function useAcknowledgeAlert() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['health-alerts'] });
+      queryClient.invalidateQueries({ queryKey: ['alert-escalations'] });
+      queryClient.invalidateQueries({ queryKey: ['notifications'] });
       queryClient.invalidateQueries({ queryKey: ['dashboard-insights'] });
       toast({ title: "Alert acknowledged" });
     },
@@ -99,6 +116,43 @@ export function useAcknowledgeAlert() {
   });
 }
 
+// Escalation chain of each alert, plus the names of the clinicians involved
+export function useAlertEscalations(alerts: HealthAlert[] | undefined) {
+  const alertIds = (alerts || []).filter(a => a.ack_due_at).map(a => a.id);
+
+  return useQuery({
+    queryKey: ['alert-escalations', alertIds],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('alert_escalation_events')
+        .select('id, alert_id, event, user_id, channel, details, created_at')
+        .in('alert_id', alertIds)
+        .order('created_at');
+      if (error) throw error;
+
+      const events = new Map<string, AlertEscalationEvent[]>();
+      for (const event of (data || []) as AlertEscalationEvent[]) {
+        events.set(event.alert_id, [...(events.get(event.alert_id) || []), event]);
+      }
+
+      const userIds = new Set<string>();
+      for (const alert of alerts || []) {
+        if (alert.assigned_to) userIds.add(alert.assigned_to);
+        if (alert.escalated_to) userIds.add(alert.escalated_to);
+      }
+      for (const event of data || []) {
+        if (event.user_id) userIds.add(event.user_id);
+      }
+      const { data: profiles } = userIds.size > 0
+        ? await supabase.from('profiles').select('user_id, full_name').in('user_id', [...userIds])
+        : { data: [] };
+
+      return { events, names: new Map((profiles || []).map(p => [p.user_id, p.full_name || 'Unknown user'])) };
+    },
+    enabled: alertIds.length > 0,
+  });
+}
+
 export function useDashboardInsights() {
   return useQuery({
     queryKey: ['dashboard-insights'],
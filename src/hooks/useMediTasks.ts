@@ -0,0 +1,196 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { endOfDay, format, parseISO, subDays } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+
+export type TaskStatus = 'pending' | 'in_progress' | 'completed';
+export type TaskPriority = 'low' | 'normal' | 'high' | 'urgent';
+
+export interface MediTask {
+  id: string;
+  title: string;
+  description: string | null;
+  status: TaskStatus;
+  priority: TaskPriority;
+  assigned_to: string | null;
+  patient_id: string | null;
+  due_date: string | null;
+  completed_at: string | null;
+  created_by: string | null;
+  created_at: string;
+  rule_id: string | null;
+  patients: { id: string; name: string } | null;
+}
+
+export interface TaskComment {
+  id: string;
+  task_id: string;
+  user_id: string;
+  body: string;
+  created_at: string;
+}
+
+export type TaskChanges = Partial<Pick<MediTask, 'title' | 'description' | 'status' | 'priority' | 'assigned_to' | 'patient_id' | 'due_date'>>;
+
+export const TASK_STATUSES: { value: TaskStatus; label: string }[] = [
+  { value: 'pending', label: 'Pending' },
+  { value: 'in_progress', label: 'In Progress' },
+  { value: 'completed', label: 'Completed' },
+];
+
+export const TASK_PRIORITIES: { value: TaskPriority; label: string }[] = [
+  { value: 'urgent', label: 'Urgent' },
+  { value: 'high', label: 'High' },
+  { value: 'normal', label: 'Normal' },
+  { value: 'low', label: 'Low' },
+];
+
+// Completed tasks older than this drop off the board
+export const COMPLETED_TASK_DAYS = 30;
+
+export const isTaskOverdue = (task: Pick<MediTask, 'status' | 'due_date'>) =>
+  task.status !== 'completed' && !!task.due_date && new Date(task.due_date).getTime() < Date.now();
+
+/** Earliest due first, tasks without a due date last */
+export const compareDueDates = (a: Pick<MediTask, 'due_date'>, b: Pick<MediTask, 'due_date'>) => {
+  if (!a.due_date) return b.due_date ? 1 : 0;
+  if (!b.due_date) return -1;
+  return new Date(a.due_date).getTime() - new Date(b.due_date).getTime();
+};
+
+/** yyyy-MM-dd for a date input */
+export const toDueDateInput = (dueDate: string | null) =>
+  dueDate ? format(new Date(dueDate), 'yyyy-MM-dd') : '';
+
+/** A task is due by the end of the chosen day */
+export const fromDueDateInput = (value: string) =>
+  value ? endOfDay(parseISO(value)).toISOString() : null;
+
+const invalidateTaskQueries = (queryClient: ReturnType<typeof useQueryClient>) => {
+  queryClient.invalidateQueries({ queryKey: ['meditask-tasks'] });
+  queryClient.invalidateQueries({ queryKey: ['meditask-stats'] });
+};
+
+/** Open tasks, plus tasks completed in the last COMPLETED_TASK_DAYS days */
+export function useMediTasks() {
+  return useQuery({
+    queryKey: ['meditask-tasks'],
+    queryFn: async () => {
+      const completedSince = subDays(new Date(), COMPLETED_TASK_DAYS).toISOString();
+      const { data, error } = await supabase
+        .from('meditask_tasks')
+        .select('id, title, description, status, priority, assigned_to, patient_id, due_date, completed_at, created_by, created_at, rule_id, patients (id, name)')
+        .or(`status.neq.completed,completed_at.gte.${completedSince}`)
+        .order('due_date', { ascending: true, nullsFirst: false });
+      if (error) throw error;
+      return data as MediTask[];
+    },
+  });
+}
+
+/** Staff who tasks can be assigned to */
+export function useStaffProfiles() {
+  return useQuery({
+    queryKey: ['staff-profiles'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('user_id, full_name')
+        .order('full_name');
+      if (error) throw error;
+      return data.map(p => ({ user_id: p.user_id, full_name: p.full_name || 'Unknown user' }));
+    },
+  });
+}
+
+export function useCreateTask() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (task: TaskChanges & { title: string }) => {
+      const { error } = await supabase
+        .from('meditask_tasks')
+        .insert({ ...task, created_by: user?.id });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidateTaskQueries(queryClient);
+      toast({ title: 'Task created' });
+    },
+    onError: (error: Error) => {
+      toast({ variant: 'destructive', title: 'Failed to create task', description: error.message });
+    },
+  });
+}
+
+/** Status and assignment changes are written to audit_logs by a database trigger */
+export function useUpdateTask() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ id, changes }: { id: string; changes: TaskChanges }) => {
+      const { error } = await supabase
+        .from('meditask_tasks')
+        .update(changes)
+        .eq('id', id);
+      if (error) throw error;
+    },
+    // Move the card straight away rather than waiting for the refetch
+    onMutate: async ({ id, changes }) => {
+      await queryClient.cancelQueries({ queryKey: ['meditask-tasks'] });
+      const previous = queryClient.getQueryData<MediTask[]>(['meditask-tasks']);
+      queryClient.setQueryData<MediTask[]>(['meditask-tasks'], tasks =>
+        tasks?.map(task => (task.id === id ? { ...task, ...changes } : task))
+      );
+      return { previous };
+    },
+    onError: (error: Error, _, context) => {
+      queryClient.setQueryData(['meditask-tasks'], context?.previous);
+      toast({ variant: 'destructive', title: 'Failed to update task', description: error.message });
+    },
+    onSettled: () => {
+      invalidateTaskQueries(queryClient);
+    },
+  });
+}
+
+export function useTaskComments(taskId: string | null) {
+  return useQuery({
+    queryKey: ['meditask-comments', taskId],
+    enabled: !!taskId,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('meditask_task_comments')
+        .select('id, task_id, user_id, body, created_at')
+        .eq('task_id', taskId!)
+        .order('created_at');
+      if (error) throw error;
+      return data as TaskComment[];
+    },
+  });
+}
+
+export function useAddTaskComment() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ taskId, body }: { taskId: string; body: string }) => {
+      const { error } = await supabase
+        .from('meditask_task_comments')
+        .insert({ task_id: taskId, user_id: user!.id, body });
+      if (error) throw error;
+    },
+    onSuccess: (_, { taskId }) => {
+      queryClient.invalidateQueries({ queryKey: ['meditask-comments', taskId] });
+    },
+    onError: (error: Error) => {
+      toast({ variant: 'destructive', title: 'Failed to add comment', description: error.message });
+    },
+  });
+}
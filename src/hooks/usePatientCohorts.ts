@@ -0,0 +1,144 @@
+import { useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useAuditLog } from '@/hooks/useAuditLog';
+import { useToast } from '@/hooks/use-toast';
+import {
+  COHORT_PATIENT_COLUMNS,
+  COHORT_RESPONSE_COLUMNS,
+  buildCohortActivity,
+  matchesCohort,
+  type CohortActivity,
+  type CohortCriteria,
+  type CohortPatient,
+} from '@/lib/patient-cohorts';
+import { QOF_EXCEPTION_COLUMNS, exceptedIndicatorsByPatient } from '@/lib/qof-exceptions';
+import { fetchAllRows } from '@/lib/supabase-paging';
+import type { Json } from '@/integrations/supabase/types';
+
+export interface PatientCohort {
+  id: string;
+  name: string;
+  description: string | null;
+  criteria: CohortCriteria;
+  updated_at: string;
+}
+
+export type RegisterPatient = CohortPatient & { name: string; phone_number: string };
+
+/** The clinical register as cohorts see it: patient records plus call and alert activity */
+export interface CohortRegister {
+  patients: RegisterPatient[];
+  activity: Map<string, CohortActivity>;
+}
+
+export function usePatientCohorts() {
+  return useQuery({
+    queryKey: ['patient-cohorts'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('patient_cohorts')
+        .select('id, name, description, criteria, updated_at')
+        .order('name');
+      if (error) throw error;
+      return data as PatientCohort[];
+    },
+  });
+}
+
+/** Every patient's cohort fields and activity, for previewing which patients a cohort selects */
+export function useCohortRegister() {
+  return useQuery({
+    queryKey: ['cohort-register'],
+    queryFn: async (): Promise<CohortRegister> => {
+      const [patients, responses, alerts, exceptions] = await Promise.all([
+        fetchAllRows((from, to) =>
+          supabase
+            .from('patients')
+            .select(`name, phone_number, ${COHORT_PATIENT_COLUMNS}`)
+            .order('name')
+            .range(from, to)
+        ),
+        fetchAllRows((from, to) =>
+          supabase.from('call_responses').select(COHORT_RESPONSE_COLUMNS).order('id').range(from, to)
+        ),
+        fetchAllRows((from, to) =>
+          supabase.from('health_alerts').select('patient_id, severity').is('acknowledged_at', null).order('id').range(from, to)
+        ),
+        fetchAllRows((from, to) =>
+          supabase.from('qof_exceptions').select(QOF_EXCEPTION_COLUMNS).eq('status', 'active').order('id').range(from, to)
+        ),
+      ]);
+      return { patients, activity: buildCohortActivity(responses, alerts, exceptedIndicatorsByPatient(exceptions)) };
+    },
+  });
+}
+
+/** Living patients the criteria currently select; undefined while the register loads */
+export function useCohortMatches(criteria: CohortCriteria | null | undefined) {
+  const { data: register } = useCohortRegister();
+  return useMemo(() => {
+    if (!register || !criteria) return undefined;
+    const now = new Date();
+    return register.patients.filter(p => matchesCohort(p, criteria, now, register.activity.get(p.id)));
+  }, [register, criteria]);
+}
+
+export function useSaveCohort() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const { logAction } = useAuditLog();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ id, name, description, criteria }: { id?: string; name: string; description: string | null; criteria: CohortCriteria }) => {
+      const query = id
+        ? supabase.from('patient_cohorts').update({ name, description, criteria: criteria as Json }).eq('id', id)
+        : supabase.from('patient_cohorts').insert({ name, description, criteria: criteria as Json, created_by: user?.id });
+      const { data, error } = await query.select('id, name').single();
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (data, { id }) => {
+      queryClient.invalidateQueries({ queryKey: ['patient-cohorts'] });
+      // Programmes show their cohort's criteria
+      queryClient.invalidateQueries({ queryKey: ['call-programmes'] });
+      logAction(id ? 'update_cohort' : 'create_cohort', 'cohort', data.id, { name: data.name });
+      toast({ title: id ? 'Cohort updated' : 'Cohort saved' });
+    },
+    onError: (error: Error) => {
+      toast({ variant: 'destructive', title: 'Failed to save cohort', description: error.message });
+    },
+  });
+}
+
+export function useDeleteCohort() {
+  const queryClient = useQueryClient();
+  const { logAction } = useAuditLog();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (cohort: PatientCohort) => {
+      const { count, error: countError } = await supabase
+        .from('call_programmes')
+        .select('id', { count: 'exact', head: true })
+        .eq('cohort_id', cohort.id);
+      if (countError) throw countError;
+      if (count) {
+        throw new Error(`Used by ${count} call programme${count === 1 ? '' : 's'}, so it cannot be deleted.`);
+      }
+
+      const { error } = await supabase.from('patient_cohorts').delete().eq('id', cohort.id);
+      if (error) throw error;
+    },
+    onSuccess: (_, cohort) => {
+      queryClient.invalidateQueries({ queryKey: ['patient-cohorts'] });
+      logAction('delete_cohort', 'cohort', cohort.id, { name: cohort.name });
+      toast({ title: 'Cohort deleted' });
+    },
+    onError: (error: Error) => {
+      toast({ variant: 'destructive', title: 'Failed to delete cohort', description: error.message });
+    },
+  });
+}
@@ -0,0 +1,121 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { subDays } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { fetchAllRows } from '@/lib/supabase-paging';
+import { QOF_EXCEPTION_COLUMNS, exceptedIndicatorsByPatient, type QofExceptionRecord } from '@/lib/qof-exceptions';
+import {
+  ACHIEVEMENT_PATIENT_COLUMNS,
+  assessQOFAchievement,
+  indicatorsCollectedBy,
+  qofYear,
+  type AchievementPatient,
+  type RuleReading,
+  type ScheduledCall,
+} from '@/lib/qof-achievement';
+
+// Dialling outcomes over this window give the reach rate for booked calls
+const REACH_RATE_DAYS = 90;
+// Used until enough calls have been made to measure it
+const DEFAULT_REACH_RATE = 0.5;
+
+export type AchievementRegisterPatient = AchievementPatient & { name: string; nhs_number: string | null; phone_number: string };
+
+interface ReadingRow extends RuleReading {
+  patient_id: string;
+}
+
+interface ScheduledBatch {
+  id: string;
+  retry_attempts: number;
+  target_qof_indicators: string[] | null;
+  batch_patients: { patient_id: string }[];
+}
+
+/** Everything the achievement calculator needs for the current QOF year */
+function useAchievementData() {
+  return useQuery({
+    queryKey: ['qof-achievement'],
+    queryFn: async () => {
+      const year = qofYear();
+      const yearEnd = year.end.toISOString().split('T')[0];
+
+      const [patients, readings, exceptions, batchesResult, reached, attempted] = await Promise.all([
+        fetchAllRows((from, to) =>
+          supabase
+            .from('patients')
+            .select(`name, nhs_number, phone_number, ${ACHIEVEMENT_PATIENT_COLUMNS}`)
+            .is('date_of_death', null)
+            .order('name')
+            .range(from, to)
+        ),
+        fetchAllRows<ReadingRow>((from, to) =>
+          supabase
+            .from('call_responses')
+            .select('patient_id, blood_pressure_systolic, blood_pressure_diastolic, smoking_status, collected_at')
+            .eq('verification_status', 'verified')
+            .gte('collected_at', year.start.toISOString())
+            .order('id')
+            .range(from, to)
+        ),
+        fetchAllRows<QofExceptionRecord>((from, to) =>
+          supabase.from('qof_exceptions').select(QOF_EXCEPTION_COLUMNS).eq('status', 'active').order('id').range(from, to)
+        ),
+        supabase
+          .from('call_batches')
+          .select('id, retry_attempts, target_qof_indicators, batch_patients (patient_id)')
+          .in('status', ['pending', 'in_progress', 'paused'])
+          .lte('scheduled_date', yearEnd),
+        supabase
+          .from('calls')
+          .select('id', { count: 'exact', head: true })
+          .eq('status', 'completed')
+          .gte('created_at', subDays(new Date(), REACH_RATE_DAYS).toISOString()),
+        supabase
+          .from('calls')
+          .select('id', { count: 'exact', head: true })
+          .in('status', ['completed', 'failed', 'no_answer'])
+          .gte('created_at', subDays(new Date(), REACH_RATE_DAYS).toISOString()),
+      ]);
+      if (batchesResult.error) throw batchesResult.error;
+      if (reached.error) throw reached.error;
+      if (attempted.error) throw attempted.error;
+
+      const batches = batchesResult.data as ScheduledBatch[];
+
+      // Patients already reached in a running batch have nothing left to book
+      const { data: completedCalls, error: callsError } = batches.length > 0
+        ? await supabase
+          .from('calls')
+          .select('batch_id, patient_id')
+          .in('batch_id', batches.map(b => b.id))
+          .eq('status', 'completed')
+        : { data: [], error: null };
+      if (callsError) throw callsError;
+      const reachedInBatch = new Set((completedCalls || []).map(c => `${c.batch_id}:${c.patient_id}`));
+
+      const scheduled: ScheduledCall[] = batches.flatMap(batch => {
+        const indicators = indicatorsCollectedBy(batch.target_qof_indicators);
+        return batch.batch_patients
+          .filter(bp => !reachedInBatch.has(`${batch.id}:${bp.patient_id}`))
+          .map(bp => ({ patientId: bp.patient_id, indicators, attempts: 1 + batch.retry_attempts }));
+      });
+
+      const readingsByPatient = new Map<string, RuleReading[]>();
+      for (const reading of readings) {
+        readingsByPatient.set(reading.patient_id, [...(readingsByPatient.get(reading.patient_id) || []), reading]);
+      }
+
+      const reachRate = attempted.count ? (reached.count ?? 0) / attempted.count : DEFAULT_REACH_RATE;
+
+      return { patients, readings: readingsByPatient, scheduled, reachRate, exceptions: exceptedIndicatorsByPatient(exceptions) };
+    },
+  });
+}
+
+/** Current QOF achievement and the year-end projection */
+export function useQOFAchievement() {
+  const { data, isLoading, error } = useAchievementData();
+  const achievement = useMemo(() => (data ? assessQOFAchievement(data) : undefined), [data]);
+  return { achievement, patients: data?.patients, reachRate: data?.reachRate, isLoading, error };
+}
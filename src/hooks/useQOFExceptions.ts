@@ -0,0 +1,224 @@
+import { useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useAuditLog } from '@/hooks/useAuditLog';
+import { useToast } from '@/hooks/use-toast';
+import { useQOFAchievement } from '@/hooks/useQOFAchievement';
+import { fetchAllRows } from '@/lib/supabase-paging';
+import { indicatorsCollectedBy, qofYear } from '@/lib/qof-achievement';
+import {
+  proposeInvitationsDeclined,
+  type ExceptionProposal,
+  type InvitationCall,
+  type PcaReason,
+  type PcaSource,
+  type PcaStatus,
+} from '@/lib/qof-exceptions';
+
+export interface QofException {
+  id: string;
+  patient_id: string;
+  indicator_code: string;
+  reason: PcaReason;
+  status: PcaStatus;
+  source: PcaSource;
+  evidence_call_ids: string[];
+  notes: string | null;
+  recorded_on: string;
+  expires_on: string | null;
+  revoked_at: string | null;
+  created_at: string;
+  patients: { name: string; nhs_number: string | null } | null;
+}
+
+// Views that count exceptions: achievement denominators, cohort gaps and the exceptions list
+const EXCEPTION_QUERY_KEYS = [['qof-exceptions'], ['qof-achievement'], ['cohort-register']];
+
+/** Every exception recorded, newest first, including revoked and dismissed ones */
+export function useQOFExceptions() {
+  return useQuery({
+    queryKey: ['qof-exceptions'],
+    queryFn: async () => {
+      const rows = await fetchAllRows((from, to) =>
+        supabase
+          .from('qof_exceptions')
+          .select('id, patient_id, indicator_code, reason, status, source, evidence_call_ids, notes, recorded_on, expires_on, revoked_at, created_at, patients (name, nhs_number)')
+          .order('created_at', { ascending: false })
+          .range(from, to)
+      );
+      return rows as QofException[];
+    },
+  });
+}
+
+/** This QOF year's calls that could count as an invitation, with the indicators each one asked about */
+function useInvitationCalls() {
+  return useQuery({
+    queryKey: ['qof-invitation-calls'],
+    queryFn: async (): Promise<InvitationCall[]> => {
+      const rows = await fetchAllRows((from, to) =>
+        supabase
+          .from('calls')
+          .select('id, patient_id, status, created_at, call_batches (target_qof_indicators)')
+          .in('status', ['completed', 'declined', 'no_answer'])
+          .gte('created_at', qofYear().start.toISOString())
+          .order('id')
+          .range(from, to)
+      );
+      return rows.map(row => ({
+        id: row.id,
+        patient_id: row.patient_id,
+        status: row.status,
+        created_at: row.created_at,
+        indicators: indicatorsCollectedBy(row.call_batches?.target_qof_indicators ?? null),
+      }));
+    },
+  });
+}
+
+/**
+ * "Invitations declined" exceptions proposed from calls, for indicators the
+ * patient has not met. A proposal dismissed, or an exception revoked, after
+ * the last call it rests on is not proposed again until there are new calls.
+ */
+export function useExceptionProposals() {
+  const { achievement, isLoading: achievementLoading } = useQOFAchievement();
+  const { data: exceptions, isLoading: exceptionsLoading } = useQOFExceptions();
+  const { data: calls, isLoading: callsLoading } = useInvitationCalls();
+
+  const proposals = useMemo(() => {
+    if (!achievement || !exceptions || !calls) return undefined;
+
+    const unmet = new Map(achievement.indicators.map(i => [i.indicator.code, new Set(i.unmetPatientIds)]));
+    const callTimes = new Map(calls.map(c => [c.id, new Date(c.created_at).getTime()]));
+    const settledAt = new Map<string, number>();
+    for (const exception of exceptions) {
+      if (exception.status === 'active') continue;
+      const key = `${exception.patient_id}:${exception.indicator_code}`;
+      const time = new Date(exception.revoked_at ?? exception.created_at).getTime();
+      settledAt.set(key, Math.max(settledAt.get(key) ?? 0, time));
+    }
+
+    return proposeInvitationsDeclined(calls).filter((proposal: ExceptionProposal) => {
+      if (!unmet.get(proposal.indicatorCode)?.has(proposal.patientId)) return false;
+      const settled = settledAt.get(`${proposal.patientId}:${proposal.indicatorCode}`);
+      if (settled == null) return true;
+      return Math.max(...proposal.callIds.map(id => callTimes.get(id) ?? 0)) > settled;
+    });
+  }, [achievement, exceptions, calls]);
+
+  return { proposals, isLoading: achievementLoading || exceptionsLoading || callsLoading };
+}
+
+export interface RecordExceptionInput {
+  patientId: string;
+  indicatorCodes: string[];
+  reason: PcaReason;
+  expiresOn: string | null;
+  notes: string | null;
+  // Proposals carry where they came from; exceptions recorded by hand are 'manual'
+  source?: PcaSource;
+  callIds?: string[];
+}
+
+function useInvalidateExceptions() {
+  const queryClient = useQueryClient();
+  return () => EXCEPTION_QUERY_KEYS.forEach(queryKey => queryClient.invalidateQueries({ queryKey }));
+}
+
+export function useRecordException() {
+  const invalidate = useInvalidateExceptions();
+  const { user } = useAuth();
+  const { logAction } = useAuditLog();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ patientId, indicatorCodes, reason, expiresOn, notes, source = 'manual', callIds = [] }: RecordExceptionInput) => {
+      const { error } = await supabase.from('qof_exceptions').insert(
+        indicatorCodes.map(code => ({
+          patient_id: patientId,
+          indicator_code: code,
+          reason,
+          source,
+          evidence_call_ids: callIds,
+          expires_on: expiresOn,
+          notes,
+          recorded_by: user?.id,
+        }))
+      );
+      if (error?.code === '23505') {
+        throw new Error('The patient already has an active exception for one of these indicators.');
+      }
+      if (error) throw error;
+    },
+    onSuccess: (_, { patientId, indicatorCodes, reason, source = 'manual' }) => {
+      invalidate();
+      logAction('record_qof_exception', 'patient', patientId, { indicators: indicatorCodes, reason, source });
+      toast({ title: indicatorCodes.length === 1 ? 'Exception recorded' : `${indicatorCodes.length} exceptions recorded` });
+    },
+    onError: (error: Error) => {
+      toast({ variant: 'destructive', title: 'Failed to record exception', description: error.message });
+    },
+  });
+}
+
+export function useRevokeException() {
+  const invalidate = useInvalidateExceptions();
+  const { user } = useAuth();
+  const { logAction } = useAuditLog();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (exception: QofException) => {
+      const { error } = await supabase
+        .from('qof_exceptions')
+        .update({ status: 'revoked', revoked_at: new Date().toISOString(), revoked_by: user?.id })
+        .eq('id', exception.id);
+      if (error) throw error;
+    },
+    onSuccess: (_, exception) => {
+      invalidate();
+      logAction('revoke_qof_exception', 'patient', exception.patient_id, { indicator: exception.indicator_code, reason: exception.reason });
+      toast({ title: 'Exception revoked' });
+    },
+    onError: (error: Error) => {
+      toast({ variant: 'destructive', title: 'Failed to revoke exception', description: error.message });
+    },
+  });
+}
+
+/** Keeps rejected proposals on record so the same calls do not raise them again */
+export function useDismissProposals() {
+  const invalidate = useInvalidateExceptions();
+  const { user } = useAuth();
+  const { logAction } = useAuditLog();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (proposals: ExceptionProposal[]) => {
+      const { error } = await supabase.from('qof_exceptions').insert(
+        proposals.map(proposal => ({
+          patient_id: proposal.patientId,
+          indicator_code: proposal.indicatorCode,
+          reason: 'invitations_declined',
+          status: 'dismissed',
+          source: proposal.source,
+          evidence_call_ids: proposal.callIds,
+          recorded_by: user?.id,
+        }))
+      );
+      if (error) throw error;
+    },
+    onSuccess: (_, proposals) => {
+      invalidate();
+      for (const proposal of proposals) {
+        logAction('dismiss_qof_exception', 'patient', proposal.patientId, { indicator: proposal.indicatorCode, source: proposal.source });
+      }
+      toast({ title: proposals.length === 1 ? 'Proposal dismissed' : `${proposals.length} proposals dismissed` });
+    },
+    onError: (error: Error) => {
+      toast({ variant: 'destructive', title: 'Failed to dismiss proposals', description: error.message });
+    },
+  });
+}
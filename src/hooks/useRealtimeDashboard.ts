@@ -73,6 +73,7 @@ export function useRealtimeDashboard() {
         },
         () => {
           queryClient.invalidateQueries({ queryKey: ['health-alerts'] });
+          queryClient.invalidateQueries({ queryKey: ['alert-escalations'] });
           queryClient.invalidateQueries({ queryKey: ['ai-insights'] });
         }
       )
@@ -89,7 +90,8 @@ export function useRealtimeDashboard() {
           table: 'meditask_tasks',
         },
         () => {
-          queryClient.invalidateQueries({ queryKey: ['meditask-widget'] });
+          queryClient.invalidateQueries({ queryKey: ['meditask-stats'] });
+          queryClient.invalidateQueries({ queryKey: ['meditask-tasks'] });
         }
       )
       .subscribe();
@@ -19,11 +19,11 @@ interface UserRoles {
 // Role hierarchy for access control
 export const ROLE_ACCESS = {
   // Pages accessible by each role
-  nurse: ['/dashboard', '/calls', '/batches', '/profile'],
-  care_home_doctor: ['/dashboard', '/calls', '/batches', '/patients', '/meditask', '/clinical-verification', '/profile'],
-  gp: ['/dashboard', '/calls', '/batches', '/patients', '/meditask', '/clinical-verification', '/profile'],
-  admin: ['/dashboard', '/calls', '/batches', '/patients', '/meditask', '/clinical-verification', '/ai-analytics', '/export', '/qof-reports', '/profile', '/user-management'],
-  caldicott_guardian: ['/dashboard', '/calls', '/batches', '/patients', '/meditask', '/clinical-verification', '/ai-analytics', '/export', '/qof-reports', '/profile', '/caldicott', '/user-management'],
+  nurse: ['/dashboard', '/calls', '/batches', '/programmes', '/cohorts', '/call-scripts', '/profile'],
+  care_home_doctor: ['/dashboard', '/calls', '/batches', '/programmes', '/cohorts', '/call-scripts', '/patients', '/meditask', '/clinical-verification', '/profile'],
+  gp: ['/dashboard', '/calls', '/batches', '/programmes', '/cohorts', '/call-scripts', '/patients', '/patients/duplicates', '/meditask', '/clinical-verification', '/qof-reports', '/qof-exceptions', '/clinical-rules', '/profile'],
+  admin: ['/dashboard', '/calls', '/batches', '/programmes', '/cohorts', '/call-scripts', '/patients', '/patients/duplicates', '/meditask', '/clinical-verification', '/ai-analytics', '/export', '/qof-reports', '/qof-exceptions', '/clinical-rules', '/profile', '/user-management'],
+  caldicott_guardian: ['/dashboard', '/calls', '/batches', '/programmes', '/cohorts', '/call-scripts', '/patients', '/meditask', '/clinical-verification', '/ai-analytics', '/export', '/qof-reports', '/qof-exceptions', '/profile', '/caldicott', '/user-management'],
   staff: ['/dashboard', '/profile'],
 } as const;
 
@@ -92,6 +92,44 @@ export type Database = {
           },
         ]
       }
+      alert_escalation_events: {
+        Row: {
+          alert_id: string
+          channel: string | null
+          created_at: string
+          details: Json
+          event: string
+          id: string
+          user_id: string | null
+        }
+        Insert: {
+          alert_id: string
+          channel?: string | null
+          created_at?: string
+          details?: Json
+          event: string
+          id?: string
+          user_id?: string | null
+        }
+        Update: {
+          alert_id?: string
+          channel?: string | null
+          created_at?: string
+          details?: Json
+          event?: string
+          id?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "alert_escalation_events_alert_id_fkey"
+            columns: ["alert_id"]
+            isOneToOne: false
+            referencedRelation: "health_alerts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       audit_logs: {
         Row: {
           action: string
@@ -125,6 +163,30 @@ export type Database = {
         }
         Relationships: []
       }
+      bank_holidays: {
+        Row: {
+          created_at: string
+          holiday_date: string
+          id: string
+          name: string
+          region: string
+        }
+        Insert: {
+          created_at?: string
+          holiday_date: string
+          id?: string
+          name: string
+          region?: string
+        }
+        Update: {
+          created_at?: string
+          holiday_date?: string
+          id?: string
+          name?: string
+          region?: string
+        }
+        Relationships: []
+      }
       batch_patients: {
         Row: {
           batch_id: string
@@ -204,51 +266,369 @@ export type Database = {
       }
       call_batches: {
         Row: {
+          calls_per_minute: number
+          completed_at: string | null
           created_at: string
           created_by: string | null
           custom_questions: string[] | null
           id: string
+          max_concurrent_calls: number
           name: string
+          programme_cycle: number | null
+          programme_id: string | null
           purpose: string | null
           retry_attempts: number
+          retry_backoff_minutes: number[]
           scheduled_date: string
           scheduled_time_end: string
           scheduled_time_start: string
+          script_id: string | null
+          started_at: string | null
           status: string
           target_qof_indicators: string[] | null
           updated_at: string
         }
         Insert: {
+          calls_per_minute?: number
+          completed_at?: string | null
           created_at?: string
           created_by?: string | null
           custom_questions?: string[] | null
           id?: string
+          max_concurrent_calls?: number
           name: string
+          programme_cycle?: number | null
+          programme_id?: string | null
           purpose?: string | null
           retry_attempts?: number
+          retry_backoff_minutes?: number[]
           scheduled_date: string
           scheduled_time_end?: string
           scheduled_time_start?: string
+          script_id?: string | null
+          started_at?: string | null
           status?: string
           target_qof_indicators?: string[] | null
           updated_at?: string
         }
         Update: {
+          calls_per_minute?: number
+          completed_at?: string | null
           created_at?: string
           created_by?: string | null
           custom_questions?: string[] | null
           id?: string
+          max_concurrent_calls?: number
           name?: string
+          programme_cycle?: number | null
+          programme_id?: string | null
           purpose?: string | null
           retry_attempts?: number
+          retry_backoff_minutes?: number[]
           scheduled_date?: string
           scheduled_time_end?: string
           scheduled_time_start?: string
+          script_id?: string | null
+          started_at?: string | null
           status?: string
           target_qof_indicators?: string[] | null
           updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "call_batches_programme_id_fkey"
+            columns: ["programme_id"]
+            isOneToOne: false
+            referencedRelation: "call_programmes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "call_batches_script_id_fkey"
+            columns: ["script_id"]
+            isOneToOne: false
+            referencedRelation: "call_scripts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      call_programme_patients: {
+        Row: {
+          exit_details: Json
+          exit_reason: string | null
+          exited_at: string | null
+          id: string
+          joined_at: string
+          patient_id: string
+          programme_id: string
+          status: string
+        }
+        Insert: {
+          exit_details?: Json
+          exit_reason?: string | null
+          exited_at?: string | null
+          id?: string
+          joined_at?: string
+          patient_id: string
+          programme_id: string
+          status?: string
+        }
+        Update: {
+          exit_details?: Json
+          exit_reason?: string | null
+          exited_at?: string | null
+          id?: string
+          joined_at?: string
+          patient_id?: string
+          programme_id?: string
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "call_programme_patients_patient_id_fkey"
+            columns: ["patient_id"]
+            isOneToOne: false
+            referencedRelation: "patients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "call_programme_patients_programme_id_fkey"
+            columns: ["programme_id"]
+            isOneToOne: false
+            referencedRelation: "call_programmes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      call_programmes: {
+        Row: {
+          auto_start: boolean
+          cohort_id: string
+          created_at: string
+          created_by: string | null
+          cycles_run: number
+          description: string | null
+          ends_on: string | null
+          exit_on_target: boolean
+          frequency: string
+          id: string
+          last_run_at: string | null
+          name: string
+          next_run_date: string
+          retry_attempts: number
+          retry_backoff_minutes: number[]
+          scheduled_time_end: string
+          scheduled_time_start: string
+          script_id: string | null
+          starts_on: string
+          status: string
+          target_qof_indicators: string[]
+          updated_at: string
+        }
+        Insert: {
+          auto_start?: boolean
+          cohort_id: string
+          created_at?: string
+          created_by?: string | null
+          cycles_run?: number
+          description?: string | null
+          ends_on?: string | null
+          exit_on_target?: boolean
+          frequency: string
+          id?: string
+          last_run_at?: string | null
+          name: string
+          next_run_date: string
+          retry_attempts?: number
+          retry_backoff_minutes?: number[]
+          scheduled_time_end?: string
+          scheduled_time_start?: string
+          script_id?: string | null
+          starts_on: string
+          status?: string
+          target_qof_indicators?: string[]
+          updated_at?: string
+        }
+        Update: {
+          auto_start?: boolean
+          cohort_id?: string
+          created_at?: string
+          created_by?: string | null
+          cycles_run?: number
+          description?: string | null
+          ends_on?: string | null
+          exit_on_target?: boolean
+          frequency?: string
+          id?: string
+          last_run_at?: string | null
+          name?: string
+          next_run_date?: string
+          retry_attempts?: number
+          retry_backoff_minutes?: number[]
+          scheduled_time_end?: string
+          scheduled_time_start?: string
+          script_id?: string | null
+          starts_on?: string
+          status?: string
+          target_qof_indicators?: string[]
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "call_programmes_cohort_id_fkey"
+            columns: ["cohort_id"]
+            isOneToOne: false
+            referencedRelation: "patient_cohorts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "call_programmes_script_id_fkey"
+            columns: ["script_id"]
+            isOneToOne: false
+            referencedRelation: "call_scripts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      call_queue: {
+        Row: {
+          attempt_number: number
+          batch_id: string
+          call_id: string | null
+          created_at: string
+          dispatch_errors: number
+          dispatched_at: string | null
+          id: string
+          last_error: string | null
+          locked_at: string | null
+          patient_id: string
+          priority: number
+          retry_reason: string | null
+          scheduled_for: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          attempt_number?: number
+          batch_id: string
+          call_id?: string | null
+          created_at?: string
+          dispatch_errors?: number
+          dispatched_at?: string | null
+          id?: string
+          last_error?: string | null
+          locked_at?: string | null
+          patient_id: string
+          priority?: number
+          retry_reason?: string | null
+          scheduled_for?: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          attempt_number?: number
+          batch_id?: string
+          call_id?: string | null
+          created_at?: string
+          dispatch_errors?: number
+          dispatched_at?: string | null
+          id?: string
+          last_error?: string | null
+          locked_at?: string | null
+          patient_id?: string
+          priority?: number
+          retry_reason?: string | null
+          scheduled_for?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "call_queue_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "call_batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "call_queue_call_id_fkey"
+            columns: ["call_id"]
+            isOneToOne: false
+            referencedRelation: "calls"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "call_queue_patient_id_fkey"
+            columns: ["patient_id"]
+            isOneToOne: false
+            referencedRelation: "patients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      call_red_flags: {
+        Row: {
+          alert_id: string | null
+          call_id: string
+          category: string
+          detected_at: string
+          id: string
+          matched_text: string
+          patient_id: string
+          source: string
+          task_id: string | null
+        }
+        Insert: {
+          alert_id?: string | null
+          call_id: string
+          category: string
+          detected_at?: string
+          id?: string
+          matched_text: string
+          patient_id: string
+          source: string
+          task_id?: string | null
+        }
+        Update: {
+          alert_id?: string | null
+          call_id?: string
+          category?: string
+          detected_at?: string
+          id?: string
+          matched_text?: string
+          patient_id?: string
+          source?: string
+          task_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "call_red_flags_alert_id_fkey"
+            columns: ["alert_id"]
+            isOneToOne: false
+            referencedRelation: "health_alerts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "call_red_flags_call_id_fkey"
+            columns: ["call_id"]
+            isOneToOne: false
+            referencedRelation: "calls"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "call_red_flags_patient_id_fkey"
+            columns: ["patient_id"]
+            isOneToOne: false
+            referencedRelation: "patients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "call_red_flags_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "meditask_tasks"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       call_references: {
         Row: {
@@ -279,6 +659,47 @@ export type Database = {
           },
         ]
       }
+      call_response_amendments: {
+        Row: {
+          amended_at: string
+          amended_by: string
+          amended_value: number
+          call_response_id: string
+          field: string
+          id: string
+          original_value: number | null
+          reason: string
+        }
+        Insert: {
+          amended_at?: string
+          amended_by: string
+          amended_value: number
+          call_response_id: string
+          field: string
+          id?: string
+          original_value?: number | null
+          reason: string
+        }
+        Update: {
+          amended_at?: string
+          amended_by?: string
+          amended_value?: number
+          call_response_id?: string
+          field?: string
+          id?: string
+          original_value?: number | null
+          reason?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "call_response_amendments_call_response_id_fkey"
+            columns: ["call_response_id"]
+            isOneToOne: false
+            referencedRelation: "call_responses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       call_responses: {
         Row: {
           alcohol_units_per_week: number | null
@@ -288,11 +709,19 @@ export type Database = {
           clinical_notes: string | null
           collected_at: string
           created_at: string
+          critical_values: Json | null
+          extraction_evidence: Json | null
+          first_signoff_at: string | null
+          first_signoff_by: string | null
           height_cm: number | null
           id: string
           is_carer: boolean | null
+          min_confidence: number | null
+          needs_review: boolean
           patient_id: string
+          plausibility_flags: Json | null
           pulse_rate: number | null
+          script_answers: Json | null
           smoking_status: string | null
           verification_status: string | null
           verified_at: string | null
@@ -307,11 +736,19 @@ export type Database = {
           clinical_notes?: string | null
           collected_at?: string
           created_at?: string
+          critical_values?: Json | null
+          extraction_evidence?: Json | null
+          first_signoff_at?: string | null
+          first_signoff_by?: string | null
           height_cm?: number | null
           id?: string
           is_carer?: boolean | null
+          min_confidence?: number | null
+          needs_review?: boolean
           patient_id: string
+          plausibility_flags?: Json | null
           pulse_rate?: number | null
+          script_answers?: Json | null
           smoking_status?: string | null
           verification_status?: string | null
           verified_at?: string | null
@@ -326,11 +763,19 @@ export type Database = {
           clinical_notes?: string | null
           collected_at?: string
           created_at?: string
+          critical_values?: Json | null
+          extraction_evidence?: Json | null
+          first_signoff_at?: string | null
+          first_signoff_by?: string | null
           height_cm?: number | null
           id?: string
           is_carer?: boolean | null
+          min_confidence?: number | null
+          needs_review?: boolean
           patient_id?: string
+          plausibility_flags?: Json | null
           pulse_rate?: number | null
+          script_answers?: Json | null
           smoking_status?: string | null
           verification_status?: string | null
           verified_at?: string | null
@@ -354,22 +799,103 @@ export type Database = {
           },
         ]
       }
+      call_schedule_settings: {
+        Row: {
+          calling_days: number[]
+          id: string
+          quiet_hours_end: string
+          quiet_hours_start: string
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          calling_days?: number[]
+          id?: string
+          quiet_hours_end?: string
+          quiet_hours_start?: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          calling_days?: number[]
+          id?: string
+          quiet_hours_end?: string
+          quiet_hours_start?: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
+      call_scripts: {
+        Row: {
+          closing_statement: string
+          created_at: string
+          created_by: string | null
+          description: string | null
+          family_id: string
+          id: string
+          name: string
+          published_at: string | null
+          purpose_context: string | null
+          questions: Json
+          status: string
+          updated_at: string
+          version: number
+        }
+        Insert: {
+          closing_statement?: string
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          family_id?: string
+          id?: string
+          name: string
+          published_at?: string | null
+          purpose_context?: string | null
+          questions?: Json
+          status?: string
+          updated_at?: string
+          version?: number
+        }
+        Update: {
+          closing_statement?: string
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          family_id?: string
+          id?: string
+          name?: string
+          published_at?: string | null
+          purpose_context?: string | null
+          questions?: Json
+          status?: string
+          updated_at?: string
+          version?: number
+        }
+        Relationships: []
+      }
       calls: {
         Row: {
           attempt_number: number
           batch_id: string | null
+          callback_of: string | null
           consent_given_at: string | null
           consent_method: string | null
           consent_verified: boolean | null
           created_at: string
+          direction: string
           duration_seconds: number | null
           elevenlabs_signed_url: string | null
           ended_at: string | null
           id: string
+          live_stage: string | null
           patient_id: string
           purpose_context: string | null
           recording_disclosure_played: boolean | null
           retention_days: number | null
+          safeguarding_escalated: boolean
+          safeguarding_escalated_at: string | null
+          script_id: string | null
           started_at: string | null
           status: string
           transcript: string | null
@@ -379,18 +905,24 @@ export type Database = {
         Insert: {
           attempt_number?: number
           batch_id?: string | null
+          callback_of?: string | null
           consent_given_at?: string | null
           consent_method?: string | null
           consent_verified?: boolean | null
           created_at?: string
+          direction?: string
           duration_seconds?: number | null
           elevenlabs_signed_url?: string | null
           ended_at?: string | null
           id?: string
+          live_stage?: string | null
           patient_id: string
           purpose_context?: string | null
           recording_disclosure_played?: boolean | null
           retention_days?: number | null
+          safeguarding_escalated?: boolean
+          safeguarding_escalated_at?: string | null
+          script_id?: string | null
           started_at?: string | null
           status?: string
           transcript?: string | null
@@ -400,40 +932,153 @@ export type Database = {
         Update: {
           attempt_number?: number
           batch_id?: string | null
+          callback_of?: string | null
           consent_given_at?: string | null
           consent_method?: string | null
           consent_verified?: boolean | null
           created_at?: string
+          direction?: string
           duration_seconds?: number | null
           elevenlabs_signed_url?: string | null
           ended_at?: string | null
           id?: string
-          patient_id?: string
-          purpose_context?: string | null
-          recording_disclosure_played?: boolean | null
-          retention_days?: number | null
-          started_at?: string | null
-          status?: string
-          transcript?: string | null
-          transcript_deleted_at?: string | null
-          twilio_call_sid?: string | null
+          live_stage?: string | null
+          patient_id?: string
+          purpose_context?: string | null
+          recording_disclosure_played?: boolean | null
+          retention_days?: number | null
+          safeguarding_escalated?: boolean
+          safeguarding_escalated_at?: string | null
+          script_id?: string | null
+          started_at?: string | null
+          status?: string
+          transcript?: string | null
+          transcript_deleted_at?: string | null
+          twilio_call_sid?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "calls_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "call_batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "calls_callback_of_fkey"
+            columns: ["callback_of"]
+            isOneToOne: false
+            referencedRelation: "calls"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "calls_patient_id_fkey"
+            columns: ["patient_id"]
+            isOneToOne: false
+            referencedRelation: "patients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "calls_script_id_fkey"
+            columns: ["script_id"]
+            isOneToOne: false
+            referencedRelation: "call_scripts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      clinical_rule_setting_changes: {
+        Row: {
+          changed_at: string
+          changed_by: string
+          id: string
+          new_value: Json | null
+          old_value: Json | null
+          reason: string | null
+          setting_key: string
+          setting_type: string
+        }
+        Insert: {
+          changed_at?: string
+          changed_by: string
+          id?: string
+          new_value?: Json | null
+          old_value?: Json | null
+          reason?: string | null
+          setting_key: string
+          setting_type: string
+        }
+        Update: {
+          changed_at?: string
+          changed_by?: string
+          id?: string
+          new_value?: Json | null
+          old_value?: Json | null
+          reason?: string | null
+          setting_key?: string
+          setting_type?: string
+        }
+        Relationships: []
+      }
+      clinical_rule_settings: {
+        Row: {
+          disabled_rules: string[]
+          dual_signoff_limits: Json
+          due_within_days: Json
+          id: string
+          thresholds: Json
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          disabled_rules?: string[]
+          dual_signoff_limits?: Json
+          due_within_days?: Json
+          id?: string
+          thresholds?: Json
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          disabled_rules?: string[]
+          dual_signoff_limits?: Json
+          due_within_days?: Json
+          id?: string
+          thresholds?: Json
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
+      clinician_duty_rota: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          duty_role: string
+          ends_at: string
+          id: string
+          starts_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          duty_role: string
+          ends_at: string
+          id?: string
+          starts_at: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          duty_role?: string
+          ends_at?: string
+          id?: string
+          starts_at?: string
+          user_id?: string
         }
-        Relationships: [
-          {
-            foreignKeyName: "calls_batch_id_fkey"
-            columns: ["batch_id"]
-            isOneToOne: false
-            referencedRelation: "call_batches"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "calls_patient_id_fkey"
-            columns: ["patient_id"]
-            isOneToOne: false
-            referencedRelation: "patients"
-            referencedColumns: ["id"]
-          },
-        ]
+        Relationships: []
       }
       consent_settings: {
         Row: {
@@ -606,38 +1251,71 @@ export type Database = {
       }
       health_alerts: {
         Row: {
+          ack_due_at: string | null
           acknowledged_at: string | null
           acknowledged_by: string | null
+          action_required: string | null
           alert_type: string
+          assigned_at: string | null
+          assigned_to: string | null
           created_at: string
           description: string
+          due_within_days: number | null
+          escalated_at: string | null
+          escalated_to: string | null
+          escalation_level: number
           id: string
           metrics: Json | null
           patient_id: string
+          priority: string | null
+          rule_id: string | null
+          rule_version: number | null
           severity: string
           title: string
         }
         Insert: {
+          ack_due_at?: string | null
           acknowledged_at?: string | null
           acknowledged_by?: string | null
+          action_required?: string | null
           alert_type: string
+          assigned_at?: string | null
+          assigned_to?: string | null
           created_at?: string
           description: string
+          due_within_days?: number | null
+          escalated_at?: string | null
+          escalated_to?: string | null
+          escalation_level?: number
           id?: string
           metrics?: Json | null
           patient_id: string
+          priority?: string | null
+          rule_id?: string | null
+          rule_version?: number | null
           severity: string
           title: string
         }
         Update: {
+          ack_due_at?: string | null
           acknowledged_at?: string | null
           acknowledged_by?: string | null
+          action_required?: string | null
           alert_type?: string
+          assigned_at?: string | null
+          assigned_to?: string | null
           created_at?: string
           description?: string
+          due_within_days?: number | null
+          escalated_at?: string | null
+          escalated_to?: string | null
+          escalation_level?: number
           id?: string
           metrics?: Json | null
           patient_id?: string
+          priority?: string | null
+          rule_id?: string | null
+          rule_version?: number | null
           severity?: string
           title?: string
         }
@@ -684,6 +1362,38 @@ export type Database = {
         }
         Relationships: []
       }
+      meditask_task_comments: {
+        Row: {
+          body: string
+          created_at: string
+          id: string
+          task_id: string
+          user_id: string
+        }
+        Insert: {
+          body: string
+          created_at?: string
+          id?: string
+          task_id: string
+          user_id: string
+        }
+        Update: {
+          body?: string
+          created_at?: string
+          id?: string
+          task_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "meditask_task_comments_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "meditask_tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       meditask_tasks: {
         Row: {
           assigned_to: string | null
@@ -695,6 +1405,8 @@ export type Database = {
           id: string
           patient_id: string | null
           priority: string
+          rule_id: string | null
+          rule_version: number | null
           status: string
           title: string
           updated_at: string
@@ -709,6 +1421,8 @@ export type Database = {
           id?: string
           patient_id?: string | null
           priority?: string
+          rule_id?: string | null
+          rule_version?: number | null
           status?: string
           title: string
           updated_at?: string
@@ -723,6 +1437,8 @@ export type Database = {
           id?: string
           patient_id?: string | null
           priority?: string
+          rule_id?: string | null
+          rule_version?: number | null
           status?: string
           title?: string
           updated_at?: string
@@ -737,6 +1453,47 @@ export type Database = {
           },
         ]
       }
+      notifications: {
+        Row: {
+          alert_id: string | null
+          body: string | null
+          created_at: string
+          id: string
+          link: string | null
+          read_at: string | null
+          title: string
+          user_id: string
+        }
+        Insert: {
+          alert_id?: string | null
+          body?: string | null
+          created_at?: string
+          id?: string
+          link?: string | null
+          read_at?: string | null
+          title: string
+          user_id: string
+        }
+        Update: {
+          alert_id?: string | null
+          body?: string | null
+          created_at?: string
+          id?: string
+          link?: string | null
+          read_at?: string | null
+          title?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_alert_id_fkey"
+            columns: ["alert_id"]
+            isOneToOne: false
+            referencedRelation: "health_alerts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       patient_access_log: {
         Row: {
           access_type: string
@@ -778,6 +1535,216 @@ export type Database = {
           },
         ]
       }
+      patient_cohorts: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          criteria: Json
+          description: string | null
+          id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          criteria?: Json
+          description?: string | null
+          id?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          criteria?: Json
+          description?: string | null
+          id?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      patient_medication_changes: {
+        Row: {
+          added: string[]
+          changed_at: string
+          changed_by: string | null
+          current_medications: string[]
+          id: string
+          patient_id: string
+          previous_medications: string[]
+          removed: string[]
+        }
+        Insert: {
+          added?: string[]
+          changed_at?: string
+          changed_by?: string | null
+          current_medications?: string[]
+          id?: string
+          patient_id: string
+          previous_medications?: string[]
+          removed?: string[]
+        }
+        Update: {
+          added?: string[]
+          changed_at?: string
+          changed_by?: string | null
+          current_medications?: string[]
+          id?: string
+          patient_id?: string
+          previous_medications?: string[]
+          removed?: string[]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "patient_medication_changes_patient_id_fkey"
+            columns: ["patient_id"]
+            isOneToOne: false
+            referencedRelation: "patients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      patient_merges: {
+        Row: {
+          field_updates: Json
+          id: string
+          merged_at: string
+          merged_by: string
+          merged_patient_id: string
+          merged_patient_snapshot: Json
+          moved_records: Json
+          reason: string | null
+          survivor_id: string | null
+        }
+        Insert: {
+          field_updates?: Json
+          id?: string
+          merged_at?: string
+          merged_by: string
+          merged_patient_id: string
+          merged_patient_snapshot: Json
+          moved_records?: Json
+          reason?: string | null
+          survivor_id?: string | null
+        }
+        Update: {
+          field_updates?: Json
+          id?: string
+          merged_at?: string
+          merged_by?: string
+          merged_patient_id?: string
+          merged_patient_snapshot?: Json
+          moved_records?: Json
+          reason?: string | null
+          survivor_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "patient_merges_survivor_id_fkey"
+            columns: ["survivor_id"]
+            isOneToOne: false
+            referencedRelation: "patients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      patient_observations: {
+        Row: {
+          batch_id: string | null
+          call_id: string | null
+          call_response_id: string | null
+          confidence: number | null
+          created_at: string
+          display_name: string
+          id: string
+          observation_key: string
+          patient_id: string
+          qof_indicators: string[]
+          recorded_at: string
+          snomed_code: string
+          source: string
+          source_quote: string | null
+          unit: string | null
+          value_boolean: boolean | null
+          value_code: string | null
+          value_numeric: number | null
+          value_text: string | null
+        }
+        Insert: {
+          batch_id?: string | null
+          call_id?: string | null
+          call_response_id?: string | null
+          confidence?: number | null
+          created_at?: string
+          display_name: string
+          id?: string
+          observation_key: string
+          patient_id: string
+          qof_indicators?: string[]
+          recorded_at?: string
+          snomed_code: string
+          source?: string
+          source_quote?: string | null
+          unit?: string | null
+          value_boolean?: boolean | null
+          value_code?: string | null
+          value_numeric?: number | null
+          value_text?: string | null
+        }
+        Update: {
+          batch_id?: string | null
+          call_id?: string | null
+          call_response_id?: string | null
+          confidence?: number | null
+          created_at?: string
+          display_name?: string
+          id?: string
+          observation_key?: string
+          patient_id?: string
+          qof_indicators?: string[]
+          recorded_at?: string
+          snomed_code?: string
+          source?: string
+          source_quote?: string | null
+          unit?: string | null
+          value_boolean?: boolean | null
+          value_code?: string | null
+          value_numeric?: number | null
+          value_text?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "patient_observations_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "call_batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "patient_observations_call_id_fkey"
+            columns: ["call_id"]
+            isOneToOne: false
+            referencedRelation: "calls"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "patient_observations_call_response_id_fkey"
+            columns: ["call_response_id"]
+            isOneToOne: false
+            referencedRelation: "call_responses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "patient_observations_patient_id_fkey"
+            columns: ["patient_id"]
+            isOneToOne: false
+            referencedRelation: "patients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       patient_pseudonyms: {
         Row: {
           anonymous_id: string
@@ -825,6 +1792,7 @@ export type Database = {
           created_at: string
           created_by: string | null
           date_of_birth: string | null
+          date_of_death: string | null
           dietary_requirements: string | null
           dnacpr_date: string | null
           dnacpr_status: string | null
@@ -861,6 +1829,7 @@ export type Database = {
           created_at?: string
           created_by?: string | null
           date_of_birth?: string | null
+          date_of_death?: string | null
           dietary_requirements?: string | null
           dnacpr_date?: string | null
           dnacpr_status?: string | null
@@ -897,6 +1866,7 @@ export type Database = {
           created_at?: string
           created_by?: string | null
           date_of_birth?: string | null
+          date_of_death?: string | null
           dietary_requirements?: string | null
           dnacpr_date?: string | null
           dnacpr_status?: string | null
@@ -957,6 +1927,68 @@ export type Database = {
         }
         Relationships: []
       }
+      qof_exceptions: {
+        Row: {
+          created_at: string
+          evidence_call_ids: string[]
+          expires_on: string | null
+          id: string
+          indicator_code: string
+          notes: string | null
+          patient_id: string
+          reason: string
+          recorded_by: string | null
+          recorded_on: string
+          revoked_at: string | null
+          revoked_by: string | null
+          source: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          evidence_call_ids?: string[]
+          expires_on?: string | null
+          id?: string
+          indicator_code: string
+          notes?: string | null
+          patient_id: string
+          reason: string
+          recorded_by?: string | null
+          recorded_on?: string
+          revoked_at?: string | null
+          revoked_by?: string | null
+          source?: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          evidence_call_ids?: string[]
+          expires_on?: string | null
+          id?: string
+          indicator_code?: string
+          notes?: string | null
+          patient_id?: string
+          reason?: string
+          recorded_by?: string | null
+          recorded_on?: string
+          revoked_at?: string | null
+          revoked_by?: string | null
+          source?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "qof_exceptions_patient_id_fkey"
+            columns: ["patient_id"]
+            isOneToOne: false
+            referencedRelation: "patients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_consent_log: {
         Row: {
           consent_type: string
@@ -1052,13 +2084,75 @@ export type Database = {
         }
         Relationships: []
       }
+      call_programme_cycles: {
+        Row: {
+          batch_id: string | null
+          completed: number | null
+          cycle: number | null
+          patients: number | null
+          programme_id: string | null
+          scheduled_date: string | null
+          status: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
+      amend_call_response_value: {
+        Args: {
+          p_field: string
+          p_reason: string
+          p_response_id: string
+          p_value: number
+        }
+        Returns: string
+      }
+      bulk_verify_call_responses: {
+        Args: { p_clinical_notes?: string; p_response_ids: string[] }
+        Returns: number
+      }
+      call_response_critical_values: {
+        Args: { p_response_id: string }
+        Returns: Json
+      }
+      claim_call_queue_items: {
+        Args: { p_batch_id: string; p_limit: number }
+        Returns: {
+          attempt_number: number
+          batch_id: string
+          call_id: string | null
+          created_at: string
+          dispatch_errors: number
+          dispatched_at: string | null
+          id: string
+          last_error: string | null
+          locked_at: string | null
+          patient_id: string
+          priority: number
+          retry_reason: string | null
+          scheduled_for: string
+          status: string
+          updated_at: string
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "call_queue"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
       cleanup_expired_transcripts: { Args: never; Returns: number }
       clear_call_sensitive_data: {
         Args: { p_call_id: string }
         Returns: boolean
       }
+      escalate_overdue_alerts: { Args: never; Returns: {
+          ack_due_at: string
+          alert_id: string
+          description: string
+          recipient: string
+          title: string
+        }[] }
       gdpr_erase_patient_data: {
         Args: {
           p_patient_id: string
@@ -1077,6 +2171,7 @@ export type Database = {
         Returns: boolean
       }
       is_caldicott_guardian: { Args: { _user_id: string }; Returns: boolean }
+      is_clinician: { Args: { _user_id: string }; Returns: boolean }
       log_call_audit: {
         Args: {
           p_action: string
@@ -1098,6 +2193,19 @@ export type Database = {
         }
         Returns: string
       }
+      merge_patients: {
+        Args: {
+          p_duplicate_id: string
+          p_fields_from_duplicate?: string[]
+          p_reason?: string
+          p_survivor_id: string
+        }
+        Returns: string
+      }
+      on_duty_clinician: {
+        Args: { p_duty_role: string; p_exclude?: string }
+        Returns: string
+      }
       reject_call_response: {
         Args: {
           p_rejected_by: string
@@ -1114,13 +2222,30 @@ export type Database = {
         Args: { p_decision: string; p_notes?: string; p_request_id: string }
         Returns: boolean
       }
+      run_call_programme_cycle: {
+        Args: {
+          p_batch_date: string
+          p_call_patient_ids?: string[]
+          p_exits?: Json
+          p_join_patient_ids?: string[]
+          p_next_run_date: string
+          p_programme_id: string
+          p_rejoin_member_ids?: string[]
+          p_run_date: string
+        }
+        Returns: Json
+      }
+      save_clinical_rule_settings: {
+        Args: { p_changes: Json; p_reason?: string }
+        Returns: number
+      }
       verify_call_response: {
         Args: {
           p_clinical_notes?: string
           p_response_id: string
           p_verified_by: string
         }
-        Returns: boolean
+        Returns: string
       }
     }
     Enums: {
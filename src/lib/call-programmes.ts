@@ -0,0 +1,9 @@
+// Run dates and exit rules shared with the call-programmes worker
+export {
+  PROGRAMME_EXIT_REASONS,
+  PROGRAMME_FREQUENCIES,
+  hasCheckableTarget,
+  nextProgrammeRunDate,
+  programmeRunDate,
+} from '../../supabase/functions/_shared/call-programmes';
+export type { ProgrammeExitReason, ProgrammeFrequency } from '../../supabase/functions/_shared/call-programmes';
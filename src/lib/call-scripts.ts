@@ -0,0 +1,116 @@
+/**
+ * Conversation script definitions shared by the script editor and batch setup.
+ * Mirrors supabase/functions/_shared/call-script.ts, which turns a script into
+ * the voice agent's instructions and the transcript extraction schema.
+ */
+import type { Json, Tables } from '@/integrations/supabase/types';
+
+export type ScriptAnswerType = 'number_range' | 'yes_no' | 'enum';
+
+export interface ScriptQuestion {
+  key: string;
+  prompt: string;
+  answer_type: ScriptAnswerType;
+  min?: number | null;
+  max?: number | null;
+  unit?: string | null;
+  options?: string[] | null;
+  required?: boolean;
+  max_reasks?: number;
+  reask_prompt?: string | null;
+}
+
+export type ScriptStatus = 'draft' | 'published' | 'archived';
+
+export interface CallScript {
+  id: string;
+  family_id: string;
+  version: number;
+  name: string;
+  description: string | null;
+  status: ScriptStatus;
+  purpose_context: string | null;
+  questions: ScriptQuestion[];
+  closing_statement: string;
+  created_at: string;
+  published_at: string | null;
+}
+
+export const ANSWER_TYPES: { value: ScriptAnswerType; label: string }[] = [
+  { value: 'number_range', label: 'Number (range)' },
+  { value: 'yes_no', label: 'Yes / No' },
+  { value: 'enum', label: 'Choice from list' },
+];
+
+const isScriptQuestion = (value: Json): value is Json & ScriptQuestion =>
+  typeof value === 'object' &&
+  value !== null &&
+  !Array.isArray(value) &&
+  typeof value.key === 'string' &&
+  typeof value.prompt === 'string' &&
+  ANSWER_TYPES.some(t => t.value === value.answer_type);
+
+/** A call_scripts row with its questions read from the JSON column, skipping malformed entries */
+export const toCallScript = (row: Tables<'call_scripts'>): CallScript => ({
+  ...row,
+  status: row.status as ScriptStatus,
+  questions: Array.isArray(row.questions) ? row.questions.filter(isScriptQuestion) : [],
+});
+
+/**
+ * Questions that map onto existing call_responses columns. Picking one of
+ * these keys stores the answer alongside answers from unscripted calls.
+ */
+export const STANDARD_QUESTIONS: ScriptQuestion[] = [
+  { key: 'blood_pressure_systolic', prompt: 'What was the top number of your most recent blood pressure reading?', answer_type: 'number_range', min: 70, max: 250, unit: 'mmHg', required: true, max_reasks: 2 },
+  { key: 'blood_pressure_diastolic', prompt: 'And what was the bottom number?', answer_type: 'number_range', min: 40, max: 150, unit: 'mmHg', required: true, max_reasks: 2 },
+  { key: 'pulse_rate', prompt: 'What was your pulse rate with that reading?', answer_type: 'number_range', min: 30, max: 200, unit: 'bpm', required: false, max_reasks: 1 },
+  { key: 'weight_kg', prompt: 'What is your current weight?', answer_type: 'number_range', min: 30, max: 300, unit: 'kg', required: true, max_reasks: 1 },
+  { key: 'height_cm', prompt: 'How tall are you?', answer_type: 'number_range', min: 100, max: 230, unit: 'cm', required: false, max_reasks: 1 },
+  { key: 'smoking_status', prompt: 'Do you currently smoke, used to smoke, or have you never smoked?', answer_type: 'enum', options: ['never_smoked', 'ex_smoker', 'current_smoker'], required: true, max_reasks: 1 },
+  { key: 'alcohol_units_per_week', prompt: 'Roughly how many units of alcohol do you drink in a typical week?', answer_type: 'number_range', min: 0, max: 200, unit: 'units', required: false, max_reasks: 1 },
+  { key: 'is_carer', prompt: 'Do you look after anyone as an unpaid carer?', answer_type: 'yes_no', required: false, max_reasks: 1 },
+];
+
+export const createEmptyQuestion = (): ScriptQuestion => ({
+  key: '',
+  prompt: '',
+  answer_type: 'yes_no',
+  required: true,
+  max_reasks: 1,
+  reask_prompt: null,
+});
+
+/** "How many cups of tea?" → "how_many_cups_of_tea" */
+export const toQuestionKey = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .slice(0, 40);
+
+/** Problems that stop a script being published, one message per issue */
+export function validateScript(script: Pick<CallScript, 'name' | 'questions' | 'closing_statement'>): string[] {
+  const errors: string[] = [];
+  if (!script.name.trim()) errors.push('Script needs a name');
+  if (script.questions.length === 0) errors.push('Add at least one question');
+  if (!script.closing_statement.trim()) errors.push('Closing statement is required');
+
+  const seen = new Set<string>();
+  script.questions.forEach((q, index) => {
+    const label = `Question ${index + 1}`;
+    if (!q.prompt.trim()) errors.push(`${label}: question text is required`);
+    if (!/^[a-z][a-z0-9_]*$/.test(q.key)) errors.push(`${label}: field name must be lower case letters, numbers and underscores`);
+    if (seen.has(q.key)) errors.push(`${label}: field name "${q.key}" is used twice`);
+    seen.add(q.key);
+
+    if (q.answer_type === 'number_range' && q.min != null && q.max != null && q.min >= q.max) {
+      errors.push(`${label}: minimum must be below maximum`);
+    }
+    if (q.answer_type === 'enum' && (q.options?.filter(Boolean).length ?? 0) < 2) {
+      errors.push(`${label}: list at least two choices`);
+    }
+  });
+
+  return errors;
+}
@@ -0,0 +1,30 @@
+/**
+ * Run with: deno test --sloppy-imports src/lib/clinical-verification.test.ts
+ */
+
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { heldBackAmendableFields } from "./clinical-verification.ts";
+
+const VALUES = {
+  blood_pressure_systolic: null,
+  blood_pressure_diastolic: 80,
+  pulse_rate: null,
+  weight_kg: 82,
+  height_cm: null,
+  alcohol_units_per_week: null,
+};
+
+Deno.test("heldBackAmendableFields offers a held-back column for its corrected value", () => {
+  const flags = [{ field: "blood_pressure_systolic" }, { field: "blood_pressure_systolic" }];
+
+  assertEquals(heldBackAmendableFields(flags, VALUES), ["blood_pressure_systolic"]);
+});
+
+Deno.test("heldBackAmendableFields leaves out values that were never held back or are already recorded", () => {
+  assertEquals(heldBackAmendableFields(null, VALUES), []);
+  assertEquals(heldBackAmendableFields([{ field: "weight_kg" }], VALUES), []);
+});
+
+Deno.test("heldBackAmendableFields leaves out held-back observations, which have no row to amend", () => {
+  assertEquals(heldBackAmendableFields([{ field: "fev1_litres" }], VALUES), []);
+});
@@ -0,0 +1,161 @@
+// Clinical verification rules: dual sign-off limits, low-risk bulk verification
+// and the verifier workload report. The database functions apply the same rules.
+import { QOF_OBSERVATIONS } from './qof-codes';
+
+export type SignoffBound = 'high' | 'low';
+
+// '<observation key>.high' | '<observation key>.low' to the limit value
+export type DualSignoffLimits = Record<string, number>;
+
+export interface CriticalValue {
+  field: string;
+  bound: SignoffBound;
+  value: number;
+  limit: number;
+}
+
+// Observations with a numeric value: the ones that can have limits or be amended
+export const NUMERIC_OBSERVATIONS = QOF_OBSERVATIONS.filter(o => o.unit);
+
+// call_responses columns stored as whole numbers
+export const WHOLE_NUMBER_FIELDS = ['blood_pressure_systolic', 'blood_pressure_diastolic', 'pulse_rate', 'alcohol_units_per_week'];
+
+// call_responses columns a clinician can amend; other numeric values are patient_observations rows
+export const AMENDABLE_COLUMNS = [
+  'blood_pressure_systolic',
+  'blood_pressure_diastolic',
+  'pulse_rate',
+  'weight_kg',
+  'height_cm',
+  'alcohol_units_per_week',
+];
+
+/**
+ * Held-back values a clinician can record: response columns left empty because
+ * the extracted value failed a plausibility check. A held-back observation has
+ * no row to amend, so only columns are offered.
+ */
+export const heldBackAmendableFields = (flags: { field: string }[] | null, values: Record<string, number | null>) =>
+  [...new Set((flags || []).map(f => f.field))].filter(field => AMENDABLE_COLUMNS.includes(field) && values[field] == null);
+
+// Bulk verification needs every value extracted at least this confidently
+export const LOW_RISK_CONFIDENCE = 0.8;
+
+export const limitKey = (field: string, bound: SignoffBound) => `${field}.${bound}`;
+
+export const observationLabel = (field: string) =>
+  QOF_OBSERVATIONS.find(o => o.key === field)?.display ?? field.replace(/_/g, ' ');
+
+export const observationUnit = (field: string) => QOF_OBSERVATIONS.find(o => o.key === field)?.unit ?? '';
+
+export const describeCriticalValue = (critical: CriticalValue) =>
+  `${observationLabel(critical.field)} ${critical.value} ${critical.bound === 'high' ? '≥' : '≤'} ${critical.limit}`;
+
+/** Values at or beyond the practice limits, in limit key order as the database reports them */
+export function findCriticalValues(values: Record<string, number | null | undefined>, limits: DualSignoffLimits): CriticalValue[] {
+  return Object.keys(limits)
+    .sort()
+    .flatMap(key => {
+      const [field, bound] = key.split('.') as [string, SignoffBound];
+      const value = values[field];
+      const limit = limits[key];
+      if (value === null || value === undefined) return [];
+      const critical = bound === 'high' ? value >= limit : value <= limit;
+      return critical ? [{ field, bound, value: Number(value), limit }] : [];
+    });
+}
+
+export interface RiskCheckResponse {
+  verification_status: string;
+  needs_review: boolean;
+  min_confidence: number | null;
+  plausibility_flags: unknown[] | null;
+}
+
+/** Eligible for bulk verification: nothing held back, confidently extracted and no critical values */
+export const isLowRisk = (response: RiskCheckResponse, critical: CriticalValue[]) =>
+  response.verification_status === 'unverified' &&
+  !response.needs_review &&
+  !(response.plausibility_flags && response.plausibility_flags.length > 0) &&
+  response.min_confidence !== null &&
+  response.min_confidence >= LOW_RISK_CONFIDENCE &&
+  critical.length === 0;
+
+// call_audit_log actions written by the verification functions
+export const VERIFICATION_ACTIONS = [
+  'clinical_verification',
+  'clinical_first_signoff',
+  'clinical_second_signoff',
+  'clinical_bulk_verification',
+  'clinical_rejection',
+  'clinical_amendment',
+] as const;
+
+export type VerificationAction = typeof VERIFICATION_ACTIONS[number];
+
+export interface VerificationAuditEntry {
+  action: string;
+  actor: string;
+  created_at: string | null;
+  details: unknown;
+}
+
+export interface VerifierWorkload {
+  actor: string;
+  verified: number;
+  firstSignoffs: number;
+  countersigned: number;
+  bulkVerified: number;
+  rejected: number;
+  amended: number;
+  total: number;
+  // Collection to sign-off, over the sign-offs that recorded the collection time
+  medianHoursToSignoff: number | null;
+}
+
+const median = (values: number[]) => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+/** Per-verifier counts of each verification step, busiest first */
+export function buildVerifierWorkload(entries: VerificationAuditEntry[]): VerifierWorkload[] {
+  const byActor = new Map<string, { counts: Record<VerificationAction, number>; waits: number[] }>();
+
+  for (const entry of entries) {
+    if (!(VERIFICATION_ACTIONS as readonly string[]).includes(entry.action)) continue;
+    let verifier = byActor.get(entry.actor);
+    if (!verifier) {
+      verifier = {
+        counts: Object.fromEntries(VERIFICATION_ACTIONS.map(a => [a, 0])) as Record<VerificationAction, number>,
+        waits: [],
+      };
+      byActor.set(entry.actor, verifier);
+    }
+    verifier.counts[entry.action as VerificationAction]++;
+
+    const collectedAt = (entry.details as { collected_at?: string } | null)?.collected_at;
+    if (collectedAt && entry.created_at && entry.action !== 'clinical_amendment') {
+      verifier.waits.push((new Date(entry.created_at).getTime() - new Date(collectedAt).getTime()) / 3600000);
+    }
+  }
+
+  return [...byActor.entries()]
+    .map(([actor, { counts, waits }]) => {
+      const hours = median(waits);
+      return {
+        actor,
+        verified: counts.clinical_verification,
+        firstSignoffs: counts.clinical_first_signoff,
+        countersigned: counts.clinical_second_signoff,
+        bulkVerified: counts.clinical_bulk_verification,
+        rejected: counts.clinical_rejection,
+        amended: counts.clinical_amendment,
+        total: Object.values(counts).reduce((sum, n) => sum + n, 0),
+        medianHoursToSignoff: hours === null ? null : Math.round(hours * 10) / 10,
+      };
+    })
+    .sort((a, b) => b.total - a.total);
+}
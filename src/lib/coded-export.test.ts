@@ -0,0 +1,64 @@
+/**
+ * Run with: deno test --sloppy-imports src/lib/coded-export.test.ts
+ */
+
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { buildCodedExportRows, type CodedExportObservation, type CodedExportResponse } from "./coded-export.ts";
+
+const PATIENT = { id: "p1", nhs_number: "943 476 5919" };
+
+const RESPONSE: CodedExportResponse = {
+  id: "r1",
+  patient_id: "p1",
+  collected_at: "2026-10-01T10:15:00Z",
+  blood_pressure_systolic: null,
+  blood_pressure_diastolic: null,
+  pulse_rate: null,
+  weight_kg: null,
+  height_cm: null,
+  smoking_status: null,
+  alcohol_units_per_week: null,
+};
+
+const FEV1: CodedExportObservation = {
+  call_response_id: "r1",
+  observation_key: "fev1_litres",
+  snomed_code: "59328004",
+  display_name: "FEV1 measurement",
+  value_numeric: 2.4,
+  value_boolean: null,
+  value_code: null,
+  unit: "L",
+};
+
+Deno.test("buildCodedExportRows exports a coded observation recorded on the response", () => {
+  const { rows } = buildCodedExportRows([PATIENT], [RESPONSE], [], [FEV1]);
+
+  assertEquals(rows, [{
+    nhsNumber: "9434765919",
+    snomedCode: "59328004",
+    readCode: "",
+    term: "FEV1 measurement",
+    value: "2.4",
+    unit: "L",
+    date: "2026-10-01",
+  }]);
+});
+
+Deno.test("buildCodedExportRows leaves out observations from other responses and response columns", () => {
+  const { rows } = buildCodedExportRows([PATIENT], [RESPONSE], [], [
+    { ...FEV1, call_response_id: "r2" },
+    { ...FEV1, observation_key: "pulse_rate", snomed_code: "78564009", display_name: "Pulse rate", unit: "bpm" },
+  ]);
+
+  assertEquals(rows, []);
+});
+
+Deno.test("buildCodedExportRows exports coded and yes/no observation values", () => {
+  const { rows } = buildCodedExportRows([PATIENT], [RESPONSE], [], [
+    { ...FEV1, observation_key: "inhaler_technique", snomed_code: "1", display_name: "Inhaler technique", value_numeric: null, value_code: "2", unit: null },
+    { ...FEV1, observation_key: "has_carer", snomed_code: "2", display_name: "Has carer", value_numeric: null, value_boolean: false, unit: null },
+  ]);
+
+  assertEquals(rows.map(r => [r.term, r.value, r.unit]), [["Inhaler technique", "2", ""], ["Has carer", "No", ""]]);
+});
@@ -0,0 +1,159 @@
+// EMIS Web / SystmOne coded observation import: one row per observation with SNOMED and Read v2 codes
+import { getReadCodeForMetric, getSmokingStatusConcept } from './qof-codes';
+import { RESPONSE_COLUMN_KEYS } from './fhir-export';
+
+export interface ClinicalCode {
+  metric_type: string;
+  read_code: string;
+  snomed_code: string | null;
+  description: string;
+}
+
+export interface CodedExportPatient {
+  id: string;
+  nhs_number: string | null;
+}
+
+export interface CodedExportResponse {
+  id: string;
+  patient_id: string;
+  collected_at: string;
+  blood_pressure_systolic: number | null;
+  blood_pressure_diastolic: number | null;
+  pulse_rate: number | null;
+  weight_kg: number | null;
+  height_cm: number | null;
+  smoking_status: string | null;
+  alcohol_units_per_week: number | null;
+}
+
+// patient_observations row for a data item with no call_responses column
+export interface CodedExportObservation {
+  call_response_id: string | null;
+  observation_key: string;
+  snomed_code: string;
+  display_name: string;
+  value_numeric: number | null;
+  value_boolean: boolean | null;
+  value_code: string | null;
+  unit: string | null;
+}
+
+export interface CodedExportRow {
+  nhsNumber: string;
+  snomedCode: string;
+  readCode: string;
+  term: string;
+  value: string;
+  unit: string;
+  date: string;
+}
+
+// Fallbacks for codes not (yet) in emis_read_codes. Smoking status is recorded
+// as the status concept itself, with no value.
+const FALLBACK_CODES: ClinicalCode[] = [
+  { metric_type: 'never_smoked', read_code: '1371.', snomed_code: '266919005', description: 'Never smoked tobacco' },
+  { metric_type: 'ex_smoker', read_code: '137S.', snomed_code: '8517006', description: 'Ex-smoker' },
+  { metric_type: 'current_smoker', read_code: '137R.', snomed_code: '77176002', description: 'Current smoker' },
+];
+
+export const CODED_EXPORT_HEADER = 'NHS_Number,SNOMED_Concept_ID,Read_V2_Code,Term,Value,Unit,Date';
+
+/**
+ * One row per coded observation. Codes come from emis_read_codes first, then
+ * READ_CODE_MAPPINGS; an observation with no SNOMED code is left out rather
+ * than exported uncoded. Coded observations recorded against a response
+ * (FEV1, MRC dyspnoea and the rest of the catalogue) carry their own SNOMED
+ * code. Patients without an NHS number cannot be matched on import and are
+ * skipped.
+ */
+export function buildCodedExportRows(
+  patients: CodedExportPatient[],
+  responses: CodedExportResponse[],
+  dbCodes: ClinicalCode[] = [],
+  codedObservations: CodedExportObservation[] = [],
+): { rows: CodedExportRow[]; skippedPatients: number } {
+  const lookup = (...metricTypes: string[]): ClinicalCode | undefined => {
+    for (const metricType of metricTypes) {
+      const fromDb = dbCodes.find(c => c.metric_type === metricType && c.snomed_code);
+      if (fromDb) return fromDb;
+      const mapping = getReadCodeForMetric(metricType);
+      if (mapping) {
+        return { metric_type: metricType, read_code: mapping.readCode, snomed_code: mapping.snomedCode, description: mapping.description };
+      }
+      const fallback = FALLBACK_CODES.find(c => c.metric_type === metricType);
+      if (fallback) return fallback;
+    }
+    return undefined;
+  };
+
+  const rows: CodedExportRow[] = [];
+  let skippedPatients = 0;
+
+  for (const patient of patients) {
+    const patientResponses = responses.filter(r => r.patient_id === patient.id);
+    if (patientResponses.length === 0) continue;
+
+    const nhsNumber = patient.nhs_number?.replace(/\s/g, '');
+    if (!nhsNumber) {
+      skippedPatients++;
+      continue;
+    }
+
+    for (const response of patientResponses) {
+      const date = response.collected_at.split('T')[0];
+      const push = (code: ClinicalCode | undefined, value: number | string | null, unit = '') => {
+        if (!code?.snomed_code || value === null) return;
+        rows.push({
+          nhsNumber,
+          snomedCode: code.snomed_code,
+          readCode: code.read_code,
+          term: code.description,
+          value: String(value),
+          unit,
+          date,
+        });
+      };
+
+      push(lookup('blood_pressure_systolic'), response.blood_pressure_systolic, 'mmHg');
+      push(lookup('blood_pressure_diastolic'), response.blood_pressure_diastolic, 'mmHg');
+      push(lookup('pulse_rate'), response.pulse_rate, 'bpm');
+      push(lookup('weight'), response.weight_kg, 'kg');
+      push(lookup('height'), response.height_cm, 'cm');
+      if (response.weight_kg !== null && response.height_cm) {
+        const bmi = Math.round((response.weight_kg / Math.pow(response.height_cm / 100, 2)) * 10) / 10;
+        push(lookup('bmi'), bmi, 'kg/m2');
+      }
+
+      const smoking = getSmokingStatusConcept(response.smoking_status);
+      if (smoking) push(lookup(smoking.metricType), '');
+
+      push(lookup('alcohol_consumption', 'alcohol_units'), response.alcohol_units_per_week, 'units/week');
+
+      for (const row of codedObservations) {
+        if (row.call_response_id !== response.id || RESPONSE_COLUMN_KEYS.has(row.observation_key)) continue;
+        const value = row.value_numeric !== null
+          ? Number(row.value_numeric)
+          : row.value_code ?? (row.value_boolean === null ? null : row.value_boolean ? 'Yes' : 'No');
+        const code = {
+          metric_type: row.observation_key,
+          read_code: lookup(row.observation_key)?.read_code ?? '',
+          snomed_code: row.snomed_code,
+          description: row.display_name,
+        };
+        push(code, value, row.unit ?? '');
+      }
+    }
+  }
+
+  return { rows, skippedPatients };
+}
+
+const csvField = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+export function codedRowsToCsv(rows: CodedExportRow[]): string {
+  const lines = rows.map(r =>
+    [r.nhsNumber, r.snomedCode, r.readCode, r.term, r.value, r.unit, r.date].map(csvField).join(',')
+  );
+  return [CODED_EXPORT_HEADER, ...lines].join('\n') + '\n';
+}
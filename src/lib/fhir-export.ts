@@ -0,0 +1,285 @@
+// FHIR R4 export of verified call observations as a transaction Bundle
+import { getReadCodeForMetric, getSmokingStatusConcept } from './qof-codes';
+
+const SNOMED = 'http://snomed.info/sct';
+const UCUM = 'http://unitsofmeasure.org';
+const NHS_NUMBER = 'https://fhir.nhs.uk/Id/nhs-number';
+const OBSERVATION_CATEGORY = 'http://terminology.hl7.org/CodeSystem/observation-category';
+
+interface Coding {
+  system: string;
+  code: string;
+  display?: string;
+}
+
+interface CodeableConcept {
+  coding: Coding[];
+  text?: string;
+}
+
+interface Quantity {
+  value: number;
+  unit: string;
+  system: string;
+  code: string;
+}
+
+export interface FhirPatient {
+  resourceType: 'Patient';
+  identifier: { system: string; value: string }[];
+  name?: { text: string }[];
+  birthDate?: string;
+}
+
+export interface FhirObservation {
+  resourceType: 'Observation';
+  status: 'final';
+  category: CodeableConcept[];
+  code: CodeableConcept;
+  subject: { reference: string };
+  effectiveDateTime: string;
+  valueQuantity?: Quantity;
+  valueCodeableConcept?: CodeableConcept;
+  valueBoolean?: boolean;
+  component?: { code: CodeableConcept; valueQuantity: Quantity }[];
+}
+
+export interface FhirBundleEntry {
+  fullUrl: string;
+  resource: FhirPatient | FhirObservation;
+  request: { method: 'POST'; url: string; ifNoneExist?: string };
+}
+
+export interface FhirBundle {
+  resourceType: 'Bundle';
+  type: 'transaction';
+  timestamp: string;
+  entry: FhirBundleEntry[];
+}
+
+export interface FhirExportPatient {
+  id: string;
+  name: string;
+  nhs_number: string | null;
+  date_of_birth: string | null;
+}
+
+export interface FhirExportResponse {
+  id: string;
+  patient_id: string;
+  collected_at: string;
+  blood_pressure_systolic: number | null;
+  blood_pressure_diastolic: number | null;
+  pulse_rate: number | null;
+  weight_kg: number | null;
+  height_cm: number | null;
+  smoking_status: string | null;
+  alcohol_units_per_week: number | null;
+}
+
+// patient_observations row for a data item with no call_responses column
+export interface FhirExportObservation {
+  call_response_id: string | null;
+  observation_key: string;
+  snomed_code: string;
+  display_name: string;
+  value_numeric: number | null;
+  value_boolean: boolean | null;
+  value_code: string | null;
+  unit: string | null;
+}
+
+export interface FhirExportResult {
+  bundle: FhirBundle;
+  patientCount: number;
+  observationCount: number;
+  // Patients left out because they have no NHS number to file against
+  skippedPatients: number;
+}
+
+// Display units as stored → UCUM
+const UCUM_UNITS: Record<string, { code: string; unit: string }> = {
+  mmHg: { code: 'mm[Hg]', unit: 'mmHg' },
+  bpm: { code: '/min', unit: 'beats/minute' },
+  kg: { code: 'kg', unit: 'kg' },
+  cm: { code: 'cm', unit: 'cm' },
+  'kg/m2': { code: 'kg/m2', unit: 'kg/m2' },
+  'mmol/mol': { code: 'mmol/mol', unit: 'mmol/mol' },
+  L: { code: 'L', unit: 'L' },
+  'L/min': { code: 'L/min', unit: 'L/min' },
+  'units/week': { code: '{alcohol_units}/wk', unit: 'units/week' },
+};
+
+// Keys already exported from call_responses columns
+export const RESPONSE_COLUMN_KEYS = new Set([
+  'blood_pressure_systolic',
+  'blood_pressure_diastolic',
+  'pulse_rate',
+  'weight_kg',
+  'height_cm',
+  'smoking_status',
+  'alcohol_units_per_week',
+]);
+
+const VITAL_SIGNS = 'vital-signs';
+const SOCIAL_HISTORY = 'social-history';
+
+function snomedConcept(metricType: string): CodeableConcept {
+  const mapping = getReadCodeForMetric(metricType);
+  if (!mapping) throw new Error(`No SNOMED mapping for ${metricType}`);
+  return { coding: [{ system: SNOMED, code: mapping.snomedCode, display: mapping.description }], text: mapping.description };
+}
+
+function quantity(value: number, unit: string): Quantity {
+  const ucum = UCUM_UNITS[unit] ?? { code: unit, unit };
+  return { value, unit: ucum.unit, system: UCUM, code: ucum.code };
+}
+
+function category(code: string): CodeableConcept[] {
+  return [{ coding: [{ system: OBSERVATION_CATEGORY, code }] }];
+}
+
+function observationsForResponse(response: FhirExportResponse, subject: string): FhirObservation[] {
+  const base = {
+    resourceType: 'Observation' as const,
+    status: 'final' as const,
+    subject: { reference: subject },
+    effectiveDateTime: response.collected_at,
+  };
+  const observations: FhirObservation[] = [];
+
+  // Blood pressure as one panel with systolic and diastolic components
+  if (response.blood_pressure_systolic !== null && response.blood_pressure_diastolic !== null) {
+    observations.push({
+      ...base,
+      category: category(VITAL_SIGNS),
+      code: snomedConcept('blood_pressure'),
+      component: [
+        { code: snomedConcept('blood_pressure_systolic'), valueQuantity: quantity(response.blood_pressure_systolic, 'mmHg') },
+        { code: snomedConcept('blood_pressure_diastolic'), valueQuantity: quantity(response.blood_pressure_diastolic, 'mmHg') },
+      ],
+    });
+  }
+
+  if (response.pulse_rate !== null) {
+    observations.push({ ...base, category: category(VITAL_SIGNS), code: snomedConcept('pulse_rate'), valueQuantity: quantity(response.pulse_rate, 'bpm') });
+  }
+  if (response.weight_kg !== null) {
+    observations.push({ ...base, category: category(VITAL_SIGNS), code: snomedConcept('weight'), valueQuantity: quantity(response.weight_kg, 'kg') });
+  }
+  if (response.height_cm !== null) {
+    observations.push({ ...base, category: category(VITAL_SIGNS), code: snomedConcept('height'), valueQuantity: quantity(response.height_cm, 'cm') });
+  }
+  if (response.weight_kg !== null && response.height_cm) {
+    const bmi = Math.round((response.weight_kg / Math.pow(response.height_cm / 100, 2)) * 10) / 10;
+    observations.push({ ...base, category: category(VITAL_SIGNS), code: snomedConcept('bmi'), valueQuantity: quantity(bmi, 'kg/m2') });
+  }
+
+  const smoking = getSmokingStatusConcept(response.smoking_status);
+  if (smoking) {
+    const coding: Coding = { system: SNOMED, code: smoking.snomedCode, display: smoking.display };
+    observations.push({
+      ...base,
+      category: category(SOCIAL_HISTORY),
+      code: snomedConcept('smoking_status'),
+      valueCodeableConcept: { coding: [coding], text: smoking.display },
+    });
+  }
+
+  if (response.alcohol_units_per_week !== null) {
+    observations.push({
+      ...base,
+      category: category(SOCIAL_HISTORY),
+      code: snomedConcept('alcohol_units'),
+      valueQuantity: quantity(response.alcohol_units_per_week, 'units/week'),
+    });
+  }
+
+  return observations;
+}
+
+function codedObservation(row: FhirExportObservation, response: FhirExportResponse, subject: string): FhirObservation | null {
+  const observation: FhirObservation = {
+    resourceType: 'Observation',
+    status: 'final',
+    category: category('survey'),
+    code: { coding: [{ system: SNOMED, code: row.snomed_code, display: row.display_name }], text: row.display_name },
+    subject: { reference: subject },
+    effectiveDateTime: response.collected_at,
+  };
+
+  if (row.value_numeric !== null) {
+    observation.valueQuantity = quantity(Number(row.value_numeric), row.unit || '1');
+  } else if (row.value_code) {
+    observation.valueCodeableConcept = { coding: [{ system: SNOMED, code: row.value_code }] };
+  } else if (row.value_boolean !== null) {
+    observation.valueBoolean = row.value_boolean;
+  } else {
+    return null;
+  }
+  return observation;
+}
+
+/**
+ * One transaction Bundle for the given verified responses. Patients are
+ * conditionally created on NHS number, so filing the same Bundle into a
+ * system that already holds the patient links to the existing record.
+ */
+export function buildFhirBundle(
+  patients: FhirExportPatient[],
+  responses: FhirExportResponse[],
+  codedObservations: FhirExportObservation[] = [],
+  newId: () => string = () => crypto.randomUUID(),
+): FhirExportResult {
+  const entries: FhirBundleEntry[] = [];
+  let observationCount = 0;
+  let patientCount = 0;
+  let skippedPatients = 0;
+
+  for (const patient of patients) {
+    const patientResponses = responses.filter(r => r.patient_id === patient.id);
+    if (patientResponses.length === 0) continue;
+
+    const nhsNumber = patient.nhs_number?.replace(/\s/g, '');
+    if (!nhsNumber) {
+      skippedPatients++;
+      continue;
+    }
+
+    const patientUrl = `urn:uuid:${newId()}`;
+    const resource: FhirPatient = {
+      resourceType: 'Patient',
+      identifier: [{ system: NHS_NUMBER, value: nhsNumber }],
+      name: [{ text: patient.name }],
+    };
+    if (patient.date_of_birth) resource.birthDate = patient.date_of_birth;
+
+    entries.push({
+      fullUrl: patientUrl,
+      resource,
+      request: { method: 'POST', url: 'Patient', ifNoneExist: `identifier=${NHS_NUMBER}|${nhsNumber}` },
+    });
+    patientCount++;
+
+    for (const response of patientResponses) {
+      const observations = observationsForResponse(response, patientUrl);
+      for (const row of codedObservations) {
+        if (row.call_response_id !== response.id || RESPONSE_COLUMN_KEYS.has(row.observation_key)) continue;
+        const observation = codedObservation(row, response, patientUrl);
+        if (observation) observations.push(observation);
+      }
+
+      for (const observation of observations) {
+        entries.push({ fullUrl: `urn:uuid:${newId()}`, resource: observation, request: { method: 'POST', url: 'Observation' } });
+      }
+      observationCount += observations.length;
+    }
+  }
+
+  return {
+    bundle: { resourceType: 'Bundle', type: 'transaction', timestamp: new Date().toISOString(), entry: entries },
+    patientCount,
+    observationCount,
+    skippedPatients,
+  };
+}
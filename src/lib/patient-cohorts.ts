@@ -0,0 +1,22 @@
+// Cohort criteria are evaluated by the same module as the call-programmes worker
+export {
+  COHORT_ALERT_STATES,
+  COHORT_CONDITIONS,
+  COHORT_FRAILTY_STATUSES,
+  COHORT_PATIENT_COLUMNS,
+  COHORT_RESPONSE_COLUMNS,
+  QOF_DATA_GAPS,
+  buildCohortActivity,
+  describeCohort,
+  isDeceased,
+  matchesCohort,
+  needsCohortActivity,
+  qofDataGaps,
+} from '../../supabase/functions/_shared/patient-cohorts';
+export type {
+  CohortActivity,
+  CohortAlertState,
+  CohortCriteria,
+  CohortPatient,
+  QofDataGap,
+} from '../../supabase/functions/_shared/patient-cohorts';
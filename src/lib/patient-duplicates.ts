@@ -0,0 +1,168 @@
+// Duplicate patient detection: NHS number, date of birth and fuzzy name/phone matching
+import { isValidNhsNumber, normaliseUkPhone } from './patient-import';
+
+export interface DuplicateCheckPatient {
+  id: string;
+  name: string;
+  phone_number: string;
+  nhs_number: string | null;
+  date_of_birth: string | null;
+  created_at: string;
+}
+
+export type DuplicateConfidence = 'definite' | 'likely' | 'possible';
+
+export interface DuplicateCandidate {
+  a: DuplicateCheckPatient;
+  b: DuplicateCheckPatient;
+  score: number;
+  confidence: DuplicateConfidence;
+  reasons: string[];
+}
+
+const TITLES = new Set(['mr', 'mrs', 'ms', 'miss', 'mx', 'dr', 'prof', 'rev', 'sir']);
+
+// Lower case name tokens without titles or punctuation, so "Smith, John" and "Mr John Smith" agree
+const nameTokens = (name: string) =>
+  name
+    .toLowerCase()
+    .replace(/[^a-z\s'-]/g, ' ')
+    .split(/[\s'-]+/)
+    .filter(token => token && !TITLES.has(token));
+
+function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+const similarity = (a: string, b: string) => (a || b ? 1 - levenshtein(a, b) / Math.max(a.length, b.length) : 0);
+
+/**
+ * 0-1 similarity of two names, ignoring word order and allowing a forename
+ * to be given as an initial ("J Smith" / "John Smith").
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const tokensA = nameTokens(a).sort();
+  const tokensB = nameTokens(b).sort();
+  if (tokensA.length === 0 || tokensB.length === 0) return 0;
+
+  const whole = similarity(tokensA.join(' '), tokensB.join(' '));
+
+  // Best match for each token of the shorter name, initials matching their full name
+  const [shorter, longer] = tokensA.length <= tokensB.length ? [tokensA, tokensB] : [tokensB, tokensA];
+  const tokenScore = shorter.reduce((total, token) => {
+    const best = Math.max(
+      ...longer.map(other =>
+        token.length === 1 || other.length === 1 ? (token[0] === other[0] ? 0.9 : 0) : similarity(token, other),
+      ),
+    );
+    return total + best;
+  }, 0) / longer.length;
+
+  return Math.max(whole, tokenScore);
+}
+
+const phoneKey = (phone: string) => normaliseUkPhone(phone) ?? phone.replace(/\D/g, '');
+const nhsKey = (nhs: string | null) => {
+  const digits = nhs?.replace(/[\s-]/g, '');
+  return digits && isValidNhsNumber(digits) ? digits : null;
+};
+
+function compare(a: DuplicateCheckPatient, b: DuplicateCheckPatient): DuplicateCandidate | null {
+  const nhsA = nhsKey(a.nhs_number);
+  const nhsB = nhsKey(b.nhs_number);
+  const names = nameSimilarity(a.name, b.name);
+
+  if (nhsA && nhsB) {
+    // Different valid NHS numbers are different people, whatever else matches
+    if (nhsA !== nhsB) return null;
+    return { a, b, score: 100, confidence: 'definite', reasons: ['Same NHS number', ...(names < 0.6 ? ['Names differ'] : [])] };
+  }
+
+  if (a.date_of_birth && b.date_of_birth && a.date_of_birth !== b.date_of_birth) return null;
+  const sameDob = !!a.date_of_birth && a.date_of_birth === b.date_of_birth;
+
+  const phoneA = phoneKey(a.phone_number);
+  const phoneB = phoneKey(b.phone_number);
+  const samePhone = !!phoneA && phoneA === phoneB;
+  // One mistyped digit
+  const similarPhone = !samePhone && phoneA.length >= 10 && phoneA.length === phoneB.length && levenshtein(phoneA, phoneB) === 1;
+
+  const reasons: string[] = [];
+  let score = 0;
+  if (sameDob) {
+    reasons.push('Same date of birth');
+    score += 35;
+  }
+  if (samePhone) {
+    reasons.push('Same phone number');
+    score += 35;
+  } else if (similarPhone) {
+    reasons.push('Phone number differs by one digit');
+    score += 15;
+  }
+  if (names >= 0.95) {
+    reasons.push('Same name');
+    score += 35;
+  } else if (names >= 0.75) {
+    reasons.push(`Similar name (${Math.round(names * 100)}%)`);
+    score += Math.round(names * 30);
+  } else if (!sameDob || !samePhone) {
+    // Household members share a phone; without a name match only DOB plus phone counts
+    return null;
+  }
+
+  if (score < 50) return null;
+  return { a, b, score: Math.min(score, 99), confidence: score >= 70 ? 'likely' : 'possible', reasons };
+}
+
+/**
+ * Candidate duplicate pairs, most certain first. Patients are only compared
+ * when they share an NHS number, date of birth, phone number or name token,
+ * so large lists stay fast.
+ */
+export function findDuplicatePatients(patients: DuplicateCheckPatient[]): DuplicateCandidate[] {
+  const blocks = new Map<string, number[]>();
+  const addToBlock = (key: string, index: number) => {
+    const block = blocks.get(key);
+    if (block) block.push(index);
+    else blocks.set(key, [index]);
+  };
+
+  patients.forEach((patient, index) => {
+    const nhs = nhsKey(patient.nhs_number);
+    if (nhs) addToBlock(`nhs:${nhs}`, index);
+    if (patient.date_of_birth) addToBlock(`dob:${patient.date_of_birth}`, index);
+    const phone = phoneKey(patient.phone_number);
+    if (phone) addToBlock(`phone:${phone}`, index);
+    for (const token of nameTokens(patient.name)) {
+      if (token.length >= 2) addToBlock(`name:${token.slice(0, 4)}`, index);
+    }
+  });
+
+  const compared = new Set<string>();
+  const candidates: DuplicateCandidate[] = [];
+
+  for (const block of blocks.values()) {
+    for (let i = 0; i < block.length; i++) {
+      for (let j = i + 1; j < block.length; j++) {
+        const pairKey = `${block[i]}:${block[j]}`;
+        if (compared.has(pairKey)) continue;
+        compared.add(pairKey);
+
+        const candidate = compare(patients[block[i]], patients[block[j]]);
+        if (candidate) candidates.push(candidate);
+      }
+    }
+  }
+
+  return candidates.sort((x, y) => y.score - x.score);
+}
@@ -0,0 +1,30 @@
+/**
+ * Run with: deno test --sloppy-imports src/lib/patient-import.test.ts
+ */
+
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { guessColumnMapping, validateImportRows } from "./patient-import.ts";
+
+const HEADERS = ["Name", "Phone", "Frailty"];
+
+const validate = (frailty: string) => {
+  const sheet = { headers: HEADERS, rows: [["Ann Smith", "07700 900123", frailty]], rowNumbers: [2] };
+  return validateImportRows(sheet, guessColumnMapping(HEADERS), [])[0];
+};
+
+Deno.test("validateImportRows accepts the frailty values the rules recognise, in any case", () => {
+  for (const [raw, stored] of [["none", "none"], ["Mild", "mild"], ["MODERATE", "moderate"], ["severe", "severe"]]) {
+    const row = validate(raw);
+    assertEquals(row.errors, []);
+    assertEquals(row.patient.frailty_status, stored);
+  }
+  assertEquals(validate("").patient.frailty_status, null);
+});
+
+Deno.test("validateImportRows rejects frailty values the rules would never match", () => {
+  for (const raw of ["Moderate frailty", "mod"]) {
+    const row = validate(raw);
+    assertEquals(row.errors, [`Frailty "${raw}" is not one of none, mild, moderate, severe`]);
+    assertEquals(row.patient.frailty_status, null);
+  }
+});
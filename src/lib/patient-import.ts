@@ -0,0 +1,265 @@
+// Patient import: column mapping, validation and duplicate detection for spreadsheet uploads
+import type { SheetData } from './spreadsheet';
+import { COHORT_FRAILTY_STATUSES } from './patient-cohorts';
+
+export type ImportFieldKey =
+  | 'name'
+  | 'forename'
+  | 'surname'
+  | 'phone_number'
+  | 'nhs_number'
+  | 'date_of_birth'
+  | 'preferred_call_time'
+  | 'conditions'
+  | 'medications'
+  | 'hba1c_mmol_mol'
+  | 'frailty_status';
+
+export interface ImportField {
+  key: ImportFieldKey;
+  label: string;
+  // Header names (lower case, spaces and punctuation removed) guessed as this field
+  aliases: string[];
+}
+
+export const IMPORT_FIELDS: ImportField[] = [
+  { key: 'name', label: 'Full name', aliases: ['name', 'patientname', 'fullname', 'patient'] },
+  { key: 'forename', label: 'Forename', aliases: ['forename', 'firstname', 'givenname', 'forenames'] },
+  { key: 'surname', label: 'Surname', aliases: ['surname', 'lastname', 'familyname'] },
+  { key: 'phone_number', label: 'Phone number', aliases: ['phone', 'phonenumber', 'telephone', 'tel', 'mobile', 'mobilenumber', 'mobiletelephone', 'contactnumber'] },
+  { key: 'nhs_number', label: 'NHS number', aliases: ['nhs', 'nhsnumber', 'nhsno'] },
+  { key: 'date_of_birth', label: 'Date of birth', aliases: ['dob', 'dateofbirth', 'birthdate'] },
+  { key: 'preferred_call_time', label: 'Preferred call time', aliases: ['preferredtime', 'preferredcalltime', 'calltime'] },
+  { key: 'conditions', label: 'Conditions', aliases: ['conditions', 'diagnoses', 'problems'] },
+  { key: 'medications', label: 'Medications', aliases: ['medications', 'meds', 'medication', 'drugs'] },
+  { key: 'hba1c_mmol_mol', label: 'HbA1c (mmol/mol)', aliases: ['hba1c', 'hba1cmmolmol'] },
+  { key: 'frailty_status', label: 'Frailty', aliases: ['frailty', 'frailtystatus', 'efi'] },
+];
+
+/** Column index per field; -1 when the field is not imported */
+export type ColumnMapping = Record<ImportFieldKey, number>;
+
+export interface ImportedPatient {
+  name: string;
+  phone_number: string;
+  nhs_number: string | null;
+  date_of_birth: string | null;
+  preferred_call_time: string | null;
+  conditions: string[];
+  medications: string[];
+  hba1c_mmol_mol: number | null;
+  frailty_status: string | null;
+}
+
+export interface ExistingPatient {
+  id: string;
+  name: string;
+  phone_number: string;
+  nhs_number: string | null;
+}
+
+export interface ValidatedImportRow {
+  rowNumber: number;
+  patient: ImportedPatient;
+  errors: string[];
+  warnings: string[];
+  // Matches a patient already on the system
+  existingPatientId?: string;
+  // Repeats an earlier row in the same file
+  duplicateOfRow?: number;
+}
+
+const headerKey = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const keys = headers.map(headerKey);
+  const mapping = {} as ColumnMapping;
+  for (const field of IMPORT_FIELDS) {
+    mapping[field.key] = keys.findIndex(key => field.aliases.includes(key));
+  }
+  return mapping;
+}
+
+/** Name and phone must be mapped; a name may come from forename and surname columns */
+export function missingRequiredFields(mapping: ColumnMapping): string[] {
+  const missing: string[] = [];
+  if (mapping.name < 0 && (mapping.forename < 0 || mapping.surname < 0)) missing.push('Full name (or forename and surname)');
+  if (mapping.phone_number < 0) missing.push('Phone number');
+  return missing;
+}
+
+/** NHS number check digit (Modulus 11) on the 10-digit number */
+export function isValidNhsNumber(value: string): boolean {
+  const digits = value.replace(/[\s-]/g, '');
+  if (!/^\d{10}$/.test(digits)) return false;
+
+  const sum = digits
+    .slice(0, 9)
+    .split('')
+    .reduce((total, digit, i) => total + Number(digit) * (10 - i), 0);
+  const check = 11 - (sum % 11);
+  if (check === 10) return false;
+  return (check === 11 ? 0 : check) === Number(digits[9]);
+}
+
+/**
+ * UK phone number in E.164 (+44...), or null if it is not one. Accepts
+ * national (07700 900123), international (+44 / 0044) and numbers that lost
+ * their leading zero in Excel (7700900123).
+ */
+export function normaliseUkPhone(value: string): string | null {
+  let digits = value.replace(/[\s\-().]/g, '');
+  if (digits.startsWith('+44')) digits = digits.slice(3);
+  else if (digits.startsWith('0044')) digits = digits.slice(4);
+  else if (digits.startsWith('44') && digits.length === 12) digits = digits.slice(2);
+
+  if (!/^\d+$/.test(digits)) return null;
+  // "+44 (0)7700..." leaves a trunk zero behind the country code
+  if (digits.startsWith('0')) digits = digits.slice(1);
+
+  if (!/^[1-9]\d{8,9}$/.test(digits)) return null;
+  return `+44${digits}`;
+}
+
+/** ISO date from DD/MM/YYYY, DD-MM-YYYY, DD.MM.YYYY, YYYY-MM-DD or an Excel serial date */
+export function normaliseDate(value: string): string | null {
+  const trimmed = value.trim();
+  let year: number, month: number, day: number;
+
+  let match = trimmed.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (match) {
+    [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else if ((match = trimmed.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/))) {
+    [day, month, year] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else if (/^\d{1,5}(\.\d+)?$/.test(trimmed)) {
+    // Excel serial: days since 1899-12-30
+    const date = new Date(Date.UTC(1899, 11, 30) + Math.floor(Number(trimmed)) * 86400000);
+    [year, month, day] = [date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate()];
+  } else {
+    return null;
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.toISOString().split('T')[0];
+}
+
+// The frailty values the clinical rules recognise
+const FRAILTY_STATUSES = COHORT_FRAILTY_STATUSES.map(s => s.value);
+
+const splitList = (value: string) =>
+  value.split(/[;|]/).map(item => item.trim()).filter(Boolean);
+
+const nameKey = (name: string) => name.toLowerCase().replace(/\s+/g, ' ').trim();
+
+/**
+ * Every data row as a patient with its problems. Rows with errors are not
+ * imported; warnings are shown but do not block the row.
+ */
+export function validateImportRows(
+  sheet: SheetData,
+  mapping: ColumnMapping,
+  existingPatients: ExistingPatient[],
+): ValidatedImportRow[] {
+  const existingByNhs = new Map<string, ExistingPatient>();
+  const existingByPhoneName = new Map<string, ExistingPatient>();
+  for (const patient of existingPatients) {
+    if (patient.nhs_number) existingByNhs.set(patient.nhs_number.replace(/\s/g, ''), patient);
+    const phone = normaliseUkPhone(patient.phone_number);
+    if (phone) existingByPhoneName.set(`${phone}|${nameKey(patient.name)}`, patient);
+  }
+
+  const seenNhs = new Map<string, number>();
+  const seenPhoneName = new Map<string, number>();
+  const today = new Date().toISOString().split('T')[0];
+
+  return sheet.rows.map((cells, index) => {
+    const rowNumber = sheet.rowNumbers[index];
+    const cell = (key: ImportFieldKey) => (mapping[key] >= 0 ? (cells[mapping[key]] ?? '').trim() : '');
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    const name = cell('name') || [cell('forename'), cell('surname')].filter(Boolean).join(' ');
+    if (!name) errors.push('Missing name');
+
+    const rawPhone = cell('phone_number');
+    const phone = rawPhone ? normaliseUkPhone(rawPhone) : null;
+    if (!rawPhone) errors.push('Missing phone number');
+    else if (!phone) errors.push(`"${rawPhone}" is not a UK phone number`);
+
+    const rawNhs = cell('nhs_number');
+    const nhsNumber = rawNhs ? rawNhs.replace(/[\s-]/g, '') : null;
+    if (nhsNumber && !isValidNhsNumber(nhsNumber)) errors.push(`NHS number ${rawNhs} fails the Modulus 11 check`);
+    if (!nhsNumber) warnings.push('No NHS number; exports to clinical systems will skip this patient');
+
+    const rawDob = cell('date_of_birth');
+    const dateOfBirth = rawDob ? normaliseDate(rawDob) : null;
+    if (rawDob && !dateOfBirth) errors.push(`Date of birth "${rawDob}" is not a date`);
+    else if (dateOfBirth && dateOfBirth > today) errors.push('Date of birth is in the future');
+
+    const rawHba1c = cell('hba1c_mmol_mol');
+    const hba1c = rawHba1c ? Number(rawHba1c) : null;
+    if (hba1c !== null && (!Number.isFinite(hba1c) || hba1c <= 0)) errors.push(`HbA1c "${rawHba1c}" is not a number`);
+
+    const rawFrailty = cell('frailty_status');
+    const frailty = rawFrailty.toLowerCase();
+    if (rawFrailty && !FRAILTY_STATUSES.includes(frailty)) {
+      errors.push(`Frailty "${rawFrailty}" is not one of ${FRAILTY_STATUSES.join(', ')}`);
+    }
+
+    const row: ValidatedImportRow = {
+      rowNumber,
+      patient: {
+        name,
+        phone_number: phone ?? rawPhone,
+        nhs_number: nhsNumber,
+        date_of_birth: dateOfBirth,
+        preferred_call_time: cell('preferred_call_time') || null,
+        conditions: splitList(cell('conditions')),
+        medications: splitList(cell('medications')),
+        hba1c_mmol_mol: rawHba1c && Number.isFinite(hba1c) ? hba1c : null,
+        frailty_status: FRAILTY_STATUSES.includes(frailty) ? frailty : null,
+      },
+      errors,
+      warnings,
+    };
+
+    // Duplicates: NHS number is definitive; otherwise the same phone and name
+    const validNhs = nhsNumber && isValidNhsNumber(nhsNumber) ? nhsNumber : null;
+    const phoneNameKey = phone && name ? `${phone}|${nameKey(name)}` : null;
+    const existing = (validNhs && existingByNhs.get(validNhs)) || (phoneNameKey && existingByPhoneName.get(phoneNameKey));
+    const earlierRow = (validNhs && seenNhs.get(validNhs)) || (phoneNameKey && seenPhoneName.get(phoneNameKey));
+
+    if (existing) {
+      row.existingPatientId = existing.id;
+      warnings.push(`Already registered as ${existing.name}`);
+    } else if (earlierRow) {
+      row.duplicateOfRow = earlierRow;
+      errors.push(`Duplicate of row ${earlierRow}`);
+    }
+
+    if (validNhs && !seenNhs.has(validNhs)) seenNhs.set(validNhs, rowNumber);
+    if (phoneNameKey && !seenPhoneName.has(phoneNameKey)) seenPhoneName.set(phoneNameKey, rowNumber);
+
+    return row;
+  });
+}
+
+/** Row-level report of every rejected, skipped or flagged row, as CSV */
+export function importErrorReportCsv(rows: ValidatedImportRow[], linkExisting: boolean): string {
+  const quote = (value: string) => `"${value.replace(/"/g, '""')}"`;
+  const outcome = (row: ValidatedImportRow) => {
+    if (row.errors.length > 0) return 'Rejected';
+    if (row.existingPatientId) return linkExisting ? 'Linked to existing patient' : 'Skipped (already registered)';
+    return 'Imported with warnings';
+  };
+  const lines = rows
+    .filter(row => row.errors.length > 0 || row.warnings.length > 0)
+    .map(row => [
+      String(row.rowNumber),
+      quote(row.patient.name),
+      outcome(row),
+      quote([...row.errors, ...row.warnings].join('; ')),
+    ].join(','));
+  return ['Row,Name,Outcome,Problems', ...lines].join('\n') + '\n';
+}
@@ -0,0 +1,222 @@
+// Longitudinal series for the patient Trends tab, with the QOF target that applies to each.
+// Targets use the practice's clinical rule thresholds, as the rules that raise tasks do.
+import { QOF_INDICATORS } from './qof-codes';
+import {
+  DEFAULT_CLINICAL_THRESHOLDS,
+  bpTarget,
+  calculateBMI,
+  getPatientAge,
+  hasCondition,
+  hba1cTarget,
+  type ClinicalThresholds,
+  type Patient,
+  type RuleSettings,
+} from './clinical-analysis';
+
+export type TrendMetric = 'bp' | 'weight' | 'bmi' | 'alcohol' | 'hba1c' | 'cholesterol';
+
+export interface TrendResponse {
+  id: string;
+  collected_at: string;
+  blood_pressure_systolic: number | null;
+  blood_pressure_diastolic: number | null;
+  weight_kg: number | null;
+  height_cm: number | null;
+  alcohol_units_per_week: number | null;
+  verification_status: string | null;
+}
+
+// patient_observations row holding a result that has no call_responses column
+export interface TrendObservation {
+  observation_key: string;
+  value_numeric: number | null;
+  recorded_at: string;
+  call_response_id: string | null;
+  source: string;
+}
+
+export interface MedicationChange {
+  changed_at: string;
+  added: string[];
+  removed: string[];
+}
+
+export interface TrendPoint {
+  time: number;
+  value: number;
+  // Clinician-verified call reading, or a value from the clinical record
+  verified: boolean;
+}
+
+export interface TrendSeries {
+  key: string;
+  label: string;
+  points: TrendPoint[];
+}
+
+export interface TargetBand {
+  seriesKey: string;
+  code: string;
+  name: string;
+  // QOF targets are all upper limits
+  max: number;
+}
+
+export interface MetricTrend {
+  metric: TrendMetric;
+  title: string;
+  unit: string;
+  series: TrendSeries[];
+  targets: TargetBand[];
+}
+
+export interface MedicationAnnotation {
+  time: number;
+  label: string;
+}
+
+// BP indicators in order of precedence: [under the elderly age, elderly]
+const BP_REGISTERS: { conditions: string[]; codes: [string, string | null] }[] = [
+  { conditions: ['Hypertension'], codes: ['HYP008', 'HYP009'] },
+  { conditions: ['CHD', 'Coronary'], codes: ['CHD015', 'CHD016'] },
+  { conditions: ['Stroke', 'TIA'], codes: ['STIA014', 'STIA015'] },
+  { conditions: ['Diabetes', 'T2DM', 'T1DM'], codes: ['DM036', null] },
+];
+
+const indicatorName = (code: string) => QOF_INDICATORS.find(i => i.code === code)?.name ?? code;
+
+const isVerified = (status: string | null) => status === 'verified';
+
+const isFrail = (patient: Pick<Patient, 'frailty_status'>) =>
+  patient.frailty_status === 'moderate' || patient.frailty_status === 'severe';
+
+function bpTargets(patient: Patient, thresholds: ClinicalThresholds): TargetBand[] {
+  const age = getPatientAge(patient.date_of_birth);
+  const elderly = age !== null && age >= thresholds.bpElderlyAge;
+  const target = bpTarget(age, thresholds);
+
+  for (const register of BP_REGISTERS) {
+    if (!hasCondition(patient, ...register.conditions)) continue;
+    const code = elderly ? register.codes[1] : register.codes[0];
+    // DM036 excludes the elderly and the moderately or severely frail
+    if (!code || (code === 'DM036' && isFrail(patient))) continue;
+    return [
+      { seriesKey: 'systolic', code, name: indicatorName(code), max: target.systolic },
+      { seriesKey: 'diastolic', code, name: indicatorName(code), max: target.diastolic },
+    ];
+  }
+  return [];
+}
+
+function hba1cTargets(patient: Patient, thresholds: ClinicalThresholds): TargetBand[] {
+  if (!hasCondition(patient, 'Diabetes', 'T2DM', 'T1DM')) return [];
+  const frail = isFrail(patient);
+  const code = frail ? 'DM012' : 'DM006';
+  return [{ seriesKey: 'hba1c', code, name: indicatorName(code), max: hba1cTarget(frail, thresholds) }];
+}
+
+function cholesterolTargets(patient: Patient, thresholds: ClinicalThresholds): TargetBand[] {
+  if (!hasCondition(patient, 'CHD', 'Coronary', 'PAD', 'Stroke', 'TIA')) return [];
+  return [{ seriesKey: 'ldl', code: 'CHOL004', name: indicatorName('CHOL004'), max: thresholds.ldlTarget }];
+}
+
+const byTime = (a: TrendPoint, b: TrendPoint) => a.time - b.time;
+
+/** One chart per metric the patient has at least one value for, oldest point first */
+export function buildPatientTrends(
+  patient: Patient,
+  responses: TrendResponse[],
+  observations: TrendObservation[] = [],
+  settings: RuleSettings = {},
+): MetricTrend[] {
+  const thresholds: ClinicalThresholds = { ...DEFAULT_CLINICAL_THRESHOLDS, ...settings.thresholds };
+  const ordered = [...responses].sort((a, b) => a.collected_at.localeCompare(b.collected_at));
+  const verification = new Map(responses.map(r => [r.id, r.verification_status]));
+
+  const systolic: TrendPoint[] = [];
+  const diastolic: TrendPoint[] = [];
+  const weight: TrendPoint[] = [];
+  const bmi: TrendPoint[] = [];
+  const alcohol: TrendPoint[] = [];
+  // Height rarely changes, so BMI uses the latest height given up to each weight (or the first one given)
+  let height: number | null = ordered.find(r => r.height_cm)?.height_cm ?? null;
+
+  for (const response of ordered) {
+    const point = (value: number): TrendPoint => ({
+      time: new Date(response.collected_at).getTime(),
+      value,
+      verified: isVerified(response.verification_status),
+    });
+    if (response.height_cm) height = response.height_cm;
+
+    if (response.blood_pressure_systolic !== null) systolic.push(point(response.blood_pressure_systolic));
+    if (response.blood_pressure_diastolic !== null) diastolic.push(point(response.blood_pressure_diastolic));
+    if (response.weight_kg !== null) {
+      weight.push(point(response.weight_kg));
+      if (height) bmi.push(point(Math.round(calculateBMI(response.weight_kg, height) * 10) / 10));
+    }
+    if (response.alcohol_units_per_week !== null) alcohol.push(point(response.alcohol_units_per_week));
+  }
+
+  const hba1c: TrendPoint[] = [];
+  if (patient.hba1c_mmol_mol !== null && patient.hba1c_date) {
+    hba1c.push({ time: new Date(patient.hba1c_date).getTime(), value: patient.hba1c_mmol_mol, verified: true });
+  }
+  for (const observation of observations) {
+    if (observation.observation_key !== 'hba1c_mmol_mol' || observation.value_numeric === null) continue;
+    const time = new Date(observation.recorded_at).getTime();
+    const value = Number(observation.value_numeric);
+    // The stored value is usually the latest observation written back
+    if (hba1c.some(p => p.value === value && Math.abs(p.time - time) < 86400000)) continue;
+    hba1c.push({
+      time,
+      value,
+      verified: observation.call_response_id ? isVerified(verification.get(observation.call_response_id) ?? null) : true,
+    });
+  }
+
+  const ldl: TrendPoint[] = [];
+  const hdl: TrendPoint[] = [];
+  if (patient.cholesterol_date) {
+    const time = new Date(patient.cholesterol_date).getTime();
+    if (patient.cholesterol_ldl !== null) ldl.push({ time, value: patient.cholesterol_ldl, verified: true });
+    if (patient.cholesterol_hdl !== null) hdl.push({ time, value: patient.cholesterol_hdl, verified: true });
+  }
+
+  const trends: MetricTrend[] = [
+    {
+      metric: 'bp',
+      title: 'Blood Pressure',
+      unit: 'mmHg',
+      series: [
+        { key: 'systolic', label: 'Systolic', points: systolic },
+        { key: 'diastolic', label: 'Diastolic', points: diastolic },
+      ],
+      targets: bpTargets(patient, thresholds),
+    },
+    { metric: 'weight', title: 'Weight', unit: 'kg', series: [{ key: 'weight', label: 'Weight', points: weight }], targets: [] },
+    { metric: 'bmi', title: 'BMI', unit: 'kg/m²', series: [{ key: 'bmi', label: 'BMI', points: bmi }], targets: [] },
+    { metric: 'alcohol', title: 'Alcohol', unit: 'units/week', series: [{ key: 'alcohol', label: 'Alcohol', points: alcohol }], targets: [] },
+    { metric: 'hba1c', title: 'HbA1c', unit: 'mmol/mol', series: [{ key: 'hba1c', label: 'HbA1c', points: hba1c.sort(byTime) }], targets: hba1cTargets(patient, thresholds) },
+    {
+      metric: 'cholesterol',
+      title: 'Cholesterol',
+      unit: 'mmol/L',
+      series: [
+        { key: 'ldl', label: 'LDL', points: ldl },
+        { key: 'hdl', label: 'HDL', points: hdl },
+      ],
+      targets: cholesterolTargets(patient, thresholds),
+    },
+  ];
+
+  return trends.filter(trend => trend.series.some(s => s.points.length > 0));
+}
+
+/** Medication changes as chart annotations, e.g. "+Ramipril −Amlodipine" */
+export function medicationAnnotations(changes: MedicationChange[]): MedicationAnnotation[] {
+  return changes.map(change => ({
+    time: new Date(change.changed_at).getTime(),
+    label: [...change.added.map(m => `+${m}`), ...change.removed.map(m => `−${m}`)].join(' '),
+  }));
+}
@@ -0,0 +1,379 @@
+// QOF achievement calculator and year-end projection.
+// Works out which patients are on each indicator's denominator and which meet
+// it this QOF year, then projects points and income to 31 March from the
+// current pace and the batches already scheduled. Patients with a QOF
+// exception for an indicator leave its denominator unless they meet it anyway.
+import {
+  QOF_INDICATORS,
+  QOF_POUNDS_PER_POINT,
+  qofPoints,
+  type QOFIndicator,
+} from './qof-codes';
+import { getObservationsForIndicators } from '../../supabase/functions/_shared/qof-observations';
+import {
+  ACEI_ARB,
+  ANTICOAGULANTS,
+  BETA_BLOCKERS,
+  CVD,
+  DIABETES,
+  STATINS,
+  hasCondition,
+  hasMedication,
+  wholeYearsBetween,
+  type RulePatient,
+  type RuleReading,
+} from '../../supabase/functions/_shared/clinical-rules';
+
+export type { RuleReading };
+
+export interface QOFYear {
+  start: Date;
+  end: Date;
+  // e.g. "2026/27"
+  label: string;
+  // Fraction of the year gone, 0-1
+  elapsed: number;
+}
+
+/** The QOF year runs 1 April to 31 March */
+export function qofYear(now: Date = new Date()): QOFYear {
+  const startYear = now.getMonth() >= 3 ? now.getFullYear() : now.getFullYear() - 1;
+  const start = new Date(startYear, 3, 1);
+  const end = new Date(startYear + 1, 2, 31, 23, 59, 59, 999);
+  const elapsed = (now.getTime() - start.getTime()) / (end.getTime() - start.getTime());
+  return { start, end, label: `${startYear}/${String(startYear + 1).slice(2)}`, elapsed: Math.min(1, Math.max(0, elapsed)) };
+}
+
+/** Patient record fields the achievement rules read */
+export interface AchievementPatient extends RulePatient {
+  cholesterol_ldl: number | null;
+  cholesterol_date: string | null;
+}
+
+export const ACHIEVEMENT_PATIENT_COLUMNS =
+  'id, date_of_birth, conditions, medications, hba1c_mmol_mol, hba1c_date, frailty_status, last_review_date, cha2ds2_vasc_score, cholesterol_ldl, cholesterol_date';
+
+interface PatientYear {
+  age: number | null;
+  isFrail: boolean;
+  // Latest BP this QOF year
+  bp: { systolic: number; diastolic: number } | null;
+  smokingRecorded: boolean;
+  inYear: (date: string | null) => boolean;
+}
+
+// null: not on the indicator's denominator. measured: has this year's reading
+// the indicator is judged on, whether or not it met the target
+type Assessment = { met: boolean; measured: boolean } | null;
+
+interface AchievementRule {
+  // Achieved by something recorded this QOF year, so the numerator starts from zero each April
+  inYear: boolean;
+  assess: (patient: AchievementPatient, year: PatientYear) => Assessment;
+}
+
+const CVD_REGISTER = [...CVD, 'PAD', 'Peripheral arterial', 'CKD'];
+const CHD = ['CHD', 'Coronary'];
+const STROKE_TIA = ['Stroke', 'TIA'];
+
+// BP targets are fixed by the QOF business rules, not the practice's clinical thresholds
+const bpRule = (register: string[], band: 'under80' | 'over80', target: { systolic: number; diastolic: number }, excludeFrail = false): AchievementRule => ({
+  inYear: true,
+  assess: (patient, year) => {
+    if (!hasCondition(patient, ...register) || year.age === null) return null;
+    if (band === 'under80' ? year.age >= 80 : year.age < 80) return null;
+    if (excludeFrail && year.isFrail) return null;
+    if (!year.bp) return { met: false, measured: false };
+    return { met: year.bp.systolic <= target.systolic && year.bp.diastolic <= target.diastolic, measured: true };
+  },
+});
+
+const hba1cRule = (frail: boolean, target: number): AchievementRule => ({
+  inYear: true,
+  assess: (patient, year) => {
+    if (!hasCondition(patient, ...DIABETES) || year.isFrail !== frail) return null;
+    if (patient.hba1c_mmol_mol == null || !year.inYear(patient.hba1c_date)) return { met: false, measured: false };
+    return { met: patient.hba1c_mmol_mol <= target, measured: true };
+  },
+});
+
+const medicationRule = (eligible: (patient: AchievementPatient, year: PatientYear) => boolean, medications: string[]): AchievementRule => ({
+  inYear: false,
+  assess: (patient, year) => {
+    if (!eligible(patient, year)) return null;
+    return { met: hasMedication(patient, ...medications), measured: true };
+  },
+});
+
+const reviewRule = (register: string[]): AchievementRule => ({
+  inYear: true,
+  assess: (patient, year) => {
+    if (!hasCondition(patient, ...register)) return null;
+    const reviewed = year.inYear(patient.last_review_date);
+    return { met: reviewed, measured: reviewed };
+  },
+});
+
+const hasAnticoagulationIndication = (patient: AchievementPatient) =>
+  hasCondition(patient, 'AF', 'Atrial fibrillation') && (patient.cha2ds2_vasc_score ?? 0) >= 2;
+
+// Indicators that can be measured from the patient record and verified call
+// responses; the rest are left out of the calculation rather than guessed
+const ACHIEVEMENT_RULES: Record<string, AchievementRule> = {
+  HYP008: bpRule(['Hypertension'], 'under80', { systolic: 140, diastolic: 90 }),
+  HYP009: bpRule(['Hypertension'], 'over80', { systolic: 150, diastolic: 90 }),
+  CHD015: bpRule(CHD, 'under80', { systolic: 140, diastolic: 90 }),
+  CHD016: bpRule(CHD, 'over80', { systolic: 150, diastolic: 90 }),
+  STIA014: bpRule(STROKE_TIA, 'under80', { systolic: 140, diastolic: 90 }),
+  STIA015: bpRule(STROKE_TIA, 'over80', { systolic: 150, diastolic: 90 }),
+  DM036: bpRule(DIABETES, 'under80', { systolic: 140, diastolic: 90 }, true),
+  DM006: hba1cRule(false, 58),
+  DM012: hba1cRule(true, 75),
+  CHOL003: medicationRule(patient => hasCondition(patient, ...CVD_REGISTER), STATINS),
+  CHOL004: {
+    inYear: true,
+    assess: (patient, year) => {
+      if (!hasCondition(patient, ...CHD, ...STROKE_TIA, 'PAD', 'Peripheral arterial')) return null;
+      if (patient.cholesterol_ldl == null || !year.inYear(patient.cholesterol_date)) return { met: false, measured: false };
+      return { met: patient.cholesterol_ldl <= 2.0, measured: true };
+    },
+  },
+  AF007: medicationRule(hasAnticoagulationIndication, ANTICOAGULANTS),
+  AF008: medicationRule(hasAnticoagulationIndication, ANTICOAGULANTS),
+  DM034: medicationRule(
+    (patient, year) => hasCondition(patient, ...DIABETES) && !hasCondition(patient, ...CVD) && (year.age ?? 0) >= 40,
+    STATINS
+  ),
+  DM035: medicationRule(patient => hasCondition(patient, ...DIABETES) && hasCondition(patient, ...CVD), STATINS),
+  HF003: medicationRule(patient => hasCondition(patient, 'Heart failure'), ACEI_ARB),
+  HF006: medicationRule(patient => hasCondition(patient, 'Heart failure'), BETA_BLOCKERS),
+  AST007: reviewRule(['Asthma']),
+  DEM004: reviewRule(['Dementia']),
+  SMOK002: {
+    inYear: true,
+    assess: (patient, year) => {
+      if (!patient.conditions?.length) return null;
+      return { met: year.smokingRecorded, measured: year.smokingRecorded };
+    },
+  },
+};
+
+export const MEASURED_QOF_INDICATORS = QOF_INDICATORS.filter(i => ACHIEVEMENT_RULES[i.code]);
+
+// What a call can change: a new BP reading or smoking status. Other indicators
+// need a prescription, blood test or review, so calls are not counted towards them
+const CALL_CLOSABLE_INDICATORS = new Set(['HYP008', 'HYP009', 'CHD015', 'CHD016', 'STIA014', 'STIA015', 'DM036', 'SMOK002']);
+
+// Calls without target indicators run the general health check, which asks for BP and smoking status
+const GENERAL_CHECK_INDICATORS = [...CALL_CLOSABLE_INDICATORS];
+
+// Chance a measured patient meets a target indicator when there are no readings yet this year
+const UNKNOWN_MET_RATE = 0.5;
+
+/**
+ * Indicators a call targeting these indicators collects data for. Uses the
+ * call agent's own observation catalogue, so legacy batch targets such as BP
+ * and SMOKING count the same way they are asked on the call.
+ */
+export function indicatorsCollectedBy(targetIndicators: string[] | null): string[] {
+  if (!targetIndicators?.length) return GENERAL_CHECK_INDICATORS;
+  const observations = getObservationsForIndicators(targetIndicators);
+  return [...CALL_CLOSABLE_INDICATORS].filter(code => observations.some(o => o.indicators.includes(code)));
+}
+
+/** A patient due to be called by a batch that has not reached them yet */
+export interface ScheduledCall {
+  patientId: string;
+  // Indicators the call collects data for
+  indicators: string[];
+  // Dial attempts left, including retries
+  attempts: number;
+}
+
+export interface AchievementInput {
+  // Living patients
+  patients: AchievementPatient[];
+  // Clinician-verified call responses from this QOF year, by patient
+  readings: Map<string, RuleReading[]>;
+  scheduled: ScheduledCall[];
+  // Share of dial attempts that reach the patient
+  reachRate: number;
+  // Indicators each patient has an exception in force for (exceptedIndicatorsByPatient)
+  exceptions?: Map<string, string[]>;
+  now?: Date;
+}
+
+export interface IndicatorAchievement {
+  indicator: QOFIndicator;
+  denominator: number;
+  numerator: number;
+  // Patients on the register left out of the denominator by an exception
+  excepted: number;
+  percent: number;
+  points: number;
+  projectedNumerator: number;
+  projectedPercent: number;
+  projectedPoints: number;
+  // Share of measured patients who meet the target, used to value a call
+  metRate: number;
+  // Points gained by one more patient meeting the indicator, at the projected achievement
+  pointsPerPatient: number;
+  // Patients still needed to reach the upper threshold at year end
+  patientsToMaximum: number;
+  unmetPatientIds: string[];
+}
+
+export interface PatientOpportunity {
+  patientId: string;
+  indicators: string[];
+  // Expected points if the patient is reached and asked for the data
+  expectedPoints: number;
+}
+
+export interface QOFAchievement {
+  year: QOFYear;
+  indicators: IndicatorAchievement[];
+  maxPoints: number;
+  points: number;
+  projectedPoints: number;
+  income: number;
+  projectedIncome: number;
+  // Patients not already booked into a batch, most valuable first
+  opportunities: PatientOpportunity[];
+}
+
+const percentOf = (numerator: number, denominator: number) => (denominator > 0 ? (numerator / denominator) * 100 : 0);
+
+function patientYear(patient: AchievementPatient, readings: RuleReading[], year: QOFYear, now: Date): PatientYear {
+  const inYear = (date: string | null) => {
+    if (!date) return false;
+    const time = new Date(date).getTime();
+    return time >= year.start.getTime() && time <= now.getTime();
+  };
+  const thisYear = readings
+    .filter(r => inYear(r.collected_at))
+    .sort((a, b) => new Date(b.collected_at).getTime() - new Date(a.collected_at).getTime());
+  const latestBp = thisYear.find(r => r.blood_pressure_systolic && r.blood_pressure_diastolic);
+
+  return {
+    age: patient.date_of_birth ? wholeYearsBetween(new Date(patient.date_of_birth), now) : null,
+    isFrail: patient.frailty_status === 'moderate' || patient.frailty_status === 'severe',
+    bp: latestBp ? { systolic: latestBp.blood_pressure_systolic!, diastolic: latestBp.blood_pressure_diastolic! } : null,
+    smokingRecorded: thisYear.some(r => r.smoking_status),
+    inYear,
+  };
+}
+
+/** Chance that at least one of the remaining attempts reaches the patient */
+const reachProbability = (reachRate: number, attempts: number) => 1 - Math.pow(1 - reachRate, Math.max(1, attempts));
+
+export function assessQOFAchievement({
+  patients,
+  readings,
+  scheduled,
+  reachRate,
+  exceptions = new Map(),
+  now = new Date(),
+}: AchievementInput): QOFAchievement {
+  const year = qofYear(now);
+  const years = new Map(patients.map(p => [p.id, patientYear(p, readings.get(p.id) || [], year, now)]));
+
+  const scheduledByIndicator = new Map<string, ScheduledCall[]>();
+  for (const call of scheduled) {
+    for (const code of call.indicators) {
+      scheduledByIndicator.set(code, [...(scheduledByIndicator.get(code) || []), call]);
+    }
+  }
+  const booked = new Set(scheduled.map(s => s.patientId));
+
+  const indicators = MEASURED_QOF_INDICATORS.map((indicator): IndicatorAchievement => {
+    const rule = ACHIEVEMENT_RULES[indicator.code];
+    let denominator = 0;
+    let numerator = 0;
+    let measured = 0;
+    let excepted = 0;
+    const unmetPatientIds: string[] = [];
+    for (const patient of patients) {
+      const assessment = rule.assess(patient, years.get(patient.id)!);
+      if (!assessment) continue;
+      if (!assessment.met && exceptions.get(patient.id)?.includes(indicator.code)) {
+        excepted++;
+        continue;
+      }
+      denominator++;
+      if (assessment.measured) measured++;
+      if (assessment.met) numerator++;
+      else unmetPatientIds.push(patient.id);
+    }
+
+    // Recording a smoking status meets SMOK002 by itself; other indicators need the reading at target
+    const metRate = indicator.code === 'SMOK002' ? 1 : measured > 0 ? numerator / measured : UNKNOWN_MET_RATE;
+
+    // Current pace: in-year indicators keep growing at the rate achieved so far
+    // (from at least a month in, so an early reading is not extrapolated wildly)
+    const trend = rule.inYear ? numerator / Math.max(year.elapsed, 1 / 12) : numerator;
+
+    // Booked calls to patients not yet meeting the indicator, counting a patient
+    // booked into more than one batch once
+    const unmet = new Set(unmetPatientIds);
+    const reach = new Map<string, number>();
+    for (const call of scheduledByIndicator.get(indicator.code) || []) {
+      if (!unmet.has(call.patientId)) continue;
+      reach.set(call.patientId, Math.max(reach.get(call.patientId) ?? 0, reachProbability(reachRate, call.attempts)));
+    }
+    const scheduledGain = [...reach.values()].reduce((sum, p) => sum + p, 0) * metRate;
+
+    // Booked batches are part of what keeps the pace going, so they are not added
+    // on top of it; they only raise the projection when they go beyond it
+    const projectedNumerator = Math.min(denominator, Math.max(trend, numerator + scheduledGain));
+    const projectedPercent = percentOf(projectedNumerator, denominator);
+
+    const band = indicator.targetPercent - indicator.lowerThreshold;
+    const pointsPerPatient = denominator > 0 && projectedPercent < indicator.targetPercent
+      ? indicator.points / ((band / 100) * denominator)
+      : 0;
+
+    return {
+      indicator,
+      denominator,
+      numerator,
+      excepted,
+      percent: percentOf(numerator, denominator),
+      points: qofPoints(indicator, percentOf(numerator, denominator)),
+      projectedNumerator,
+      projectedPercent,
+      projectedPoints: qofPoints(indicator, projectedPercent),
+      metRate,
+      pointsPerPatient,
+      patientsToMaximum: Math.max(0, Math.ceil((indicator.targetPercent / 100) * denominator - projectedNumerator)),
+      unmetPatientIds,
+    };
+  });
+
+  const opportunityMap = new Map<string, PatientOpportunity>();
+  for (const result of indicators) {
+    if (!CALL_CLOSABLE_INDICATORS.has(result.indicator.code) || result.pointsPerPatient === 0) continue;
+    for (const patientId of result.unmetPatientIds) {
+      if (booked.has(patientId)) continue;
+      const opportunity = opportunityMap.get(patientId) || { patientId, indicators: [], expectedPoints: 0 };
+      opportunity.indicators.push(result.indicator.code);
+      opportunity.expectedPoints += result.pointsPerPatient * result.metRate;
+      opportunityMap.set(patientId, opportunity);
+    }
+  }
+
+  const sum = (values: number[]) => values.reduce((a, b) => a + b, 0);
+  const points = sum(indicators.map(i => i.points));
+  const projectedPoints = sum(indicators.map(i => i.projectedPoints));
+
+  return {
+    year,
+    indicators,
+    maxPoints: sum(indicators.map(i => i.indicator.points)),
+    points,
+    projectedPoints,
+    income: points * QOF_POUNDS_PER_POINT,
+    projectedIncome: projectedPoints * QOF_POUNDS_PER_POINT,
+    opportunities: [...opportunityMap.values()].sort((a, b) => b.expectedPoints - a.expectedPoints),
+  };
+}
@@ -1,4 +1,5 @@
 // QOF (Quality and Outcomes Framework) code mappings for EMIS Web integration
+import { QOF_OBSERVATIONS } from '../../supabase/functions/_shared/qof-observations';
 
 export interface QOFIndicator {
   id: string;
@@ -9,12 +10,18 @@ export interface QOFIndicator {
   readCode?: string;
   snomedCode?: string;
   description: string;
+  // Upper achievement threshold: maximum points are earned at or above it
   targetPercent: number;
+  // No points are earned below the lower threshold
+  lowerThreshold: number;
+  // Maximum points available for the indicator
+  points: number;
   ageGroup?: 'under80' | 'over80' | 'all' | '40plus';
   condition?: string;
 }
 
-// Comprehensive NHS QOF Indicators 2024/25
+// Comprehensive NHS QOF Indicators 2024/25. Points and thresholds change every
+// contract year, so check them against the QOF guidance each April
 export const QOF_INDICATORS: QOFIndicator[] = [
   // ============ Cardiovascular Disease (CVD) Prevention ============
   {
@@ -25,6 +32,8 @@ export const QOF_INDICATORS: QOFIndicator[] = [
     subcategory: 'Cholesterol',
     description: 'Patients with CHD, PAD, Stroke/TIA, or CKD (G3a-G5) prescribed a statin or other lipid-lowering therapy',
     targetPercent: 80,
+    lowerThreshold: 50,
+    points: 38,
     condition: 'CHD/PAD/Stroke/CKD'
   },
   {
@@ -35,6 +44,8 @@ export const QOF_INDICATORS: QOFIndicator[] = [
     subcategory: 'Cholesterol',
     description: 'Patients with CHD, PAD, or Stroke/TIA with cholesterol ≤2.0 mmol/L (LDL) or ≤2.6 mmol/L (non-HDL) in preceding 12 months',
     targetPercent: 45,
+    lowerThreshold: 20,
+    points: 20,
     condition: 'CHD/PAD/Stroke'
   },
   {
@@ -45,6 +56,8 @@ export const QOF_INDICATORS: QOFIndicator[] = [
     subcategory: 'Hypertension',
     description: 'Patients with hypertension aged ≤79 years with BP ≤140/90 mmHg',
     targetPercent: 77,
+    lowerThreshold: 40,
+    points: 14,
     ageGroup: 'under80',
     condition: 'Hypertension'
   },
@@ -56,6 +69,8 @@ export const QOF_INDICATORS: QOFIndicator[] = [
     subcategory: 'Hypertension',
     description: 'Patients with hypertension aged ≥80 years with BP ≤150/90 mmHg',
     targetPercent: 77,
+    lowerThreshold: 40,
+    points: 5,
     ageGroup: 'over80',
     condition: 'Hypertension'
   },
@@ -67,6 +82,8 @@ export const QOF_INDICATORS: QOFIndicator[] = [
     subcategory: 'CHD',
     description: 'Patients with CHD aged ≤79 years with BP ≤140/90 mmHg',
     targetPercent: 77,
+    lowerThreshold: 40,
+    points: 12,
     ageGroup: 'under80',
     condition: 'CHD'
   },
@@ -78,6 +95,8 @@ export const QOF_INDICATORS: QOFIndicator[] = [
     subcategory: 'CHD',
     description: 'Patients with CHD aged ≥80 years with BP ≤150/90 mmHg',
     targetPercent: 77,
+    lowerThreshold: 40,
+    points: 4,
     ageGroup: 'over80',
     condition: 'CHD'
   },
@@ -89,6 +108,8 @@ export const QOF_INDICATORS: QOFIndicator[] = [
     subcategory: 'Stroke/TIA',
     description: 'Patients with Stroke/TIA aged ≤79 years with BP ≤140/90 mmHg',
     targetPercent: 77,
+    lowerThreshold: 40,
+    points: 3,
     ageGroup: 'under80',
     condition: 'Stroke/TIA'
   },
@@ -100,6 +121,8 @@ export const QOF_INDICATORS: QOFIndicator[] = [
     subcategory: 'Stroke/TIA',
     description: 'Patients with Stroke/TIA aged ≥80 years with BP ≤150/90 mmHg',
     targetPercent: 77,
+    lowerThreshold: 40,
+    points: 2,
     ageGroup: 'over80',
     condition: 'Stroke/TIA'
   },
@@ -111,6 +134,8 @@ export const QOF_INDICATORS: QOFIndicator[] = [
     subcategory: 'Atrial Fibrillation',
     description: 'Patients with AF (CHA2DS2-VASc score ≥2) currently treated with anticoagulation drug therapy',
     targetPercent: 85,
+    lowerThreshold: 55,
+    points: 12,
     condition: 'Atrial Fibrillation'
   },
   {
@@ -121,6 +146,8 @@ export const QOF_INDICATORS: QOFIndicator[] = [
     subcategory: 'Atrial Fibrillation',
     description: 'Patients with AF (CHA2DS2-VASc score ≥2) prescribed a DOAC or Vitamin K antagonist if DOAC unsuitable',
     targetPercent: 85,
+    lowerThreshold: 55,
+    points: 12,
     condition: 'Atrial Fibrillation'
   },
 
@@ -133,6 +160,8 @@ export const QOF_INDICATORS: QOFIndicator[] = [
     subcategory: 'Blood Pressure',
     description: 'Patients with diabetes aged ≤79 years (without moderate/severe frailty) with BP ≤140/90 mmHg',
     targetPercent: 77,
+    lowerThreshold: 38,
+    points: 10,
     ageGroup: 'under80',
     condition: 'Diabetes'
   },
@@ -144,6 +173,8 @@ export const QOF_INDICATORS: QOFIndicator[] = [
     subcategory: 'Cholesterol',
     description: 'Patients with diabetes aged 40+ (no CVD history) treated with a statin',
     targetPercent: 80,
+    lowerThreshold: 50,
+    points: 4,
     ageGroup: '40plus',
     condition: 'Diabetes'
   },
@@ -155,6 +186,8 @@ export const QOF_INDICATORS: QOFIndicator[] = [
     subcategory: 'Cholesterol',
     description: 'Patients with diabetes and a history of CVD treated with a statin',
     targetPercent: 85,
+    lowerThreshold: 55,
+    points: 4,
     condition: 'Diabetes+CVD'
   },
   {
@@ -165,6 +198,8 @@ export const QOF_INDICATORS: QOFIndicator[] = [
     subcategory: 'Glycaemic Control',
     description: 'Patients with diabetes (no moderate/severe frailty) with HbA1c ≤58 mmol/mol',
     targetPercent: 70,
+    lowerThreshold: 35,
+    points: 17,
     condition: 'Diabetes'
   },
   {
@@ -175,6 +210,8 @@ export const QOF_INDICATORS: QOFIndicator[] = [
     subcategory: 'Glycaemic Control',
     description: 'Patients with diabetes (with moderate/severe frailty) with HbA1c ≤75 mmol/mol',
     targetPercent: 70,
+    lowerThreshold: 35,
+    points: 10,
     condition: 'Diabetes+Frailty'
   },
 
@@ -187,6 +224,8 @@ export const QOF_INDICATORS: QOFIndicator[] = [
     subcategory: 'Asthma',
     description: 'Patients with asthma who had a review in preceding 12 months (control assessment, exacerbations, inhaler technique, action plan)',
     targetPercent: 70,
+    lowerThreshold: 45,
+    points: 20,
     condition: 'Asthma'
   },
   {
@@ -197,6 +236,8 @@ export const QOF_INDICATORS: QOFIndicator[] = [
     subcategory: 'Asthma',
     description: 'Patients with new diagnosis of asthma (from April 2025) with objective test record (FeNO, spirometry, PEFR)',
     targetPercent: 75,
+    lowerThreshold: 45,
+    points: 6,
     condition: 'Asthma (New)'
   },
   {
@@ -207,6 +248,8 @@ export const QOF_INDICATORS: QOFIndicator[] = [
     subcategory: 'COPD',
     description: 'Patients with COPD with a record of FeV1 in the preceding 12 months',
     targetPercent: 70,
+    lowerThreshold: 50,
+    points: 9,
     condition: 'COPD'
   },
   {
@@ -217,6 +260,8 @@ export const QOF_INDICATORS: QOFIndicator[] = [
     subcategory: 'COPD',
     description: 'Referral to pulmonary rehabilitation for COPD patients with MRC dyspnoea scale ≥3',
     targetPercent: 65,
+    lowerThreshold: 35,
+    points: 2,
     condition: 'COPD (MRC≥3)'
   },
 
@@ -229,6 +274,8 @@ export const QOF_INDICATORS: QOFIndicator[] = [
     subcategory: 'Serious Mental Illness',
     description: 'Patients with schizophrenia, bipolar affective disorder, or other psychoses who have a comprehensive care plan',
     targetPercent: 60,
+    lowerThreshold: 30,
+    points: 6,
     condition: 'SMI'
   },
   {
@@ -239,6 +286,8 @@ export const QOF_INDICATORS: QOFIndicator[] = [
     subcategory: 'Dementia',
     description: 'Patients with dementia who have had a review in the preceding 12 months (including support for carers)',
     targetPercent: 75,
+    lowerThreshold: 35,
+    points: 39,
     condition: 'Dementia'
   },
   {
@@ -249,6 +298,8 @@ export const QOF_INDICATORS: QOFIndicator[] = [
     subcategory: 'Pre-Diabetes',
     description: 'Patients with non-diabetic hyperglycaemia who have had an HbA1c or fasting glucose test in preceding 12 months',
     targetPercent: 80,
+    lowerThreshold: 50,
+    points: 18,
     condition: 'NDH'
   },
 
@@ -261,6 +312,8 @@ export const QOF_INDICATORS: QOFIndicator[] = [
     subcategory: 'Treatment',
     description: 'Patients with heart failure (LVSD) currently treated with an ACE-I or ARB',
     targetPercent: 85,
+    lowerThreshold: 60,
+    points: 6,
     condition: 'Heart Failure (LVSD)'
   },
   {
@@ -271,6 +324,8 @@ export const QOF_INDICATORS: QOFIndicator[] = [
     subcategory: 'Treatment',
     description: 'Patients with heart failure (LVSD) currently treated with a beta-blocker',
     targetPercent: 85,
+    lowerThreshold: 60,
+    points: 9,
     condition: 'Heart Failure (LVSD)'
   },
 
@@ -283,6 +338,8 @@ export const QOF_INDICATORS: QOFIndicator[] = [
     subcategory: 'Immunisation',
     description: 'Childhood immunisations and 65+ flu vaccinations',
     targetPercent: 90,
+    lowerThreshold: 80,
+    points: 28,
     condition: 'All eligible'
   },
   {
@@ -295,6 +352,8 @@ export const QOF_INDICATORS: QOFIndicator[] = [
     snomedCode: '365981007',
     description: 'Patients with any long-term condition who have had their smoking status recorded in preceding 12 months',
     targetPercent: 90,
+    lowerThreshold: 50,
+    points: 25,
     condition: 'LTC'
   },
 ];
@@ -333,23 +392,74 @@ export const READ_CODE_MAPPINGS: ReadCodeMapping[] = [
   { metricType: 'fev1', readCode: '339A.', snomedCode: '59328004', description: 'FEV1 measurement' },
 ];
 
+// Data items a call can collect towards each indicator, with the questions
+// asked for them, shared with the edge functions that build call scripts
+export { QOF_OBSERVATIONS, getObservationsForIndicators } from '../../supabase/functions/_shared/qof-observations';
+export type { QofObservation as QOFObservation } from '../../supabase/functions/_shared/qof-observations';
+
+// Indicators a call can collect data for, offered as batch targets
+export const CALLABLE_QOF_INDICATORS = QOF_INDICATORS.filter(i =>
+  QOF_OBSERVATIONS.some(o => o.indicators.includes(i.code))
+);
+
 export function getReadCodeForMetric(metricType: string): ReadCodeMapping | undefined {
   return READ_CODE_MAPPINGS.find(m => m.metricType === metricType);
 }
 
+export interface SmokingStatusConcept {
+  // metric_type of the concept in emis_read_codes
+  metricType: string;
+  snomedCode: string;
+  display: string;
+}
+
+const NEVER_SMOKED: SmokingStatusConcept = { metricType: 'never_smoked', snomedCode: '266919005', display: 'Never smoked tobacco' };
+const EX_SMOKER: SmokingStatusConcept = { metricType: 'ex_smoker', snomedCode: '8517006', display: 'Ex-smoker' };
+const CURRENT_SMOKER: SmokingStatusConcept = { metricType: 'current_smoker', snomedCode: '77176002', display: 'Smoker' };
+
+// call_responses.smoking_status holds never/former/current (the column check);
+// script answers use the QOF observation options never_smoked/ex_smoker/current_smoker
+const SMOKING_STATUS_CONCEPTS: Record<string, SmokingStatusConcept> = {
+  never: NEVER_SMOKED,
+  never_smoked: NEVER_SMOKED,
+  former: EX_SMOKER,
+  ex_smoker: EX_SMOKER,
+  current: CURRENT_SMOKER,
+  current_smoker: CURRENT_SMOKER,
+};
+
+export function getSmokingStatusConcept(status: string | null | undefined): SmokingStatusConcept | undefined {
+  return status ? SMOKING_STATUS_CONCEPTS[status] : undefined;
+}
+
 export function getIndicatorsByCategory(category: string): QOFIndicator[] {
   return QOF_INDICATORS.filter(i => i.category.toLowerCase() === category.toLowerCase());
 }
 
+// National average value of a QOF point for 2024/25, before list size and prevalence adjustment
+export const QOF_POUNDS_PER_POINT = 220.62;
+
+/**
+ * Points earned at an achievement: none below the lower threshold, all of them
+ * at or above the upper threshold (targetPercent), and a straight line between
+ */
+export function qofPoints(indicator: QOFIndicator, achievementPercent: number): number {
+  if (achievementPercent <= indicator.lowerThreshold) return 0;
+  if (achievementPercent >= indicator.targetPercent) return indicator.points;
+  const fraction = (achievementPercent - indicator.lowerThreshold) / (indicator.targetPercent - indicator.lowerThreshold);
+  return indicator.points * fraction;
+}
+
 export function calculateQOFProgress(
   indicator: QOFIndicator,
   recorded: number,
   total: number
-): { percent: number; status: 'good' | 'warning' | 'poor'; pointsEarned: number; gap: number } {
-  const percent = total > 0 ? Math.round((recorded / total) * 100) : 0;
-  const status = percent >= indicator.targetPercent ? 'good' : percent >= indicator.targetPercent * 0.8 ? 'warning' : 'poor';
-  const pointsEarned = Math.min(percent, indicator.targetPercent);
+): { percent: number; status: 'good' | 'warning' | 'poor'; pointsEarned: number; maxPoints: number; gap: number } {
+  const exact = total > 0 ? (recorded / total) * 100 : 0;
+  const percent = Math.round(exact);
+  const status = percent >= indicator.targetPercent ? 'good' : percent > indicator.lowerThreshold ? 'warning' : 'poor';
+  const pointsEarned = Math.round(qofPoints(indicator, exact) * 100) / 100;
   const gap = Math.max(0, indicator.targetPercent - percent);
-  
-  return { percent, status, pointsEarned, gap };
+
+  return { percent, status, pointsEarned, maxPoints: indicator.points, gap };
 }
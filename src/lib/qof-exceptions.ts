@@ -0,0 +1,19 @@
+// Exceptions are read by the same module as the call-programmes worker
+export {
+  PCA_REASONS,
+  PCA_SOURCES,
+  QOF_EXCEPTION_COLUMNS,
+  UNANSWERED_INVITATIONS_REQUIRED,
+  defaultExceptionExpiry,
+  exceptedIndicatorsByPatient,
+  isExceptionInForce,
+  proposeInvitationsDeclined,
+} from '../../supabase/functions/_shared/qof-exceptions';
+export type {
+  ExceptionProposal,
+  InvitationCall,
+  PcaReason,
+  PcaSource,
+  PcaStatus,
+  QofExceptionRecord,
+} from '../../supabase/functions/_shared/qof-exceptions';
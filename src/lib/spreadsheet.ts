@@ -0,0 +1,219 @@
+// Spreadsheet reading for imports: RFC 4180 CSV and the first sheet of an .xlsx workbook
+
+export interface SheetData {
+  headers: string[];
+  rows: string[][];
+  // 1-based position of each row in the file (header is row 1), for error reports
+  rowNumbers: number[];
+}
+
+/**
+ * RFC 4180 CSV: quoted fields may contain commas, line breaks and doubled
+ * quotes. Accepts CRLF or LF line endings and a leading byte order mark.
+ */
+export function parseCsv(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, '');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i += 2;
+          continue;
+        }
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      i++;
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+      if (char === '\r' && input[i + 1] === '\n') i++;
+    } else {
+      field += char;
+    }
+    i++;
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+// ========== XLSX ==========
+
+const decodeXml = (value: string) =>
+  value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&amp;/g, '&');
+
+const attribute = (tag: string, name: string): string | undefined =>
+  tag.match(new RegExp(`\\s${name}="([^"]*)"`))?.[1];
+
+// Concatenated text of every <t> inside an element (rich text runs included)
+const textContent = (xml: string): string =>
+  Array.from(xml.matchAll(/<(?:\w+:)?t(?:\s[^>]*)?>([\s\S]*?)<\/(?:\w+:)?t>/g))
+    .map(match => decodeXml(match[1]))
+    .join('');
+
+/** Zip entries of an .xlsx by path, inflated on demand */
+async function readZipEntries(buffer: ArrayBuffer): Promise<Map<string, () => Promise<string>>> {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+
+  // End of central directory record, searched backwards past any comment
+  let eocd = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 65557); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error('Not a valid .xlsx file');
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const entries = new Map<string, () => Promise<string>>();
+  const decoder = new TextDecoder();
+
+  for (let n = 0; n < entryCount; n++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) throw new Error('Corrupt .xlsx file');
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+
+    entries.set(name, async () => {
+      const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+      const data = bytes.subarray(dataStart, dataStart + compressedSize);
+      if (method === 0) return decoder.decode(data);
+      if (method !== 8) throw new Error(`Unsupported .xlsx compression (${method})`);
+      const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+      return new Response(stream).text();
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+const columnIndex = (cellRef: string): number => {
+  const letters = cellRef.match(/^[A-Z]+/)?.[0] ?? 'A';
+  return letters.split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+};
+
+/**
+ * Cell values of the first worksheet as text. Dates come through as Excel
+ * serial numbers; normalising them is left to the caller, which knows which
+ * columns hold dates.
+ */
+export async function readXlsx(buffer: ArrayBuffer): Promise<string[][]> {
+  const entries = await readZipEntries(buffer);
+  const read = async (path: string) => {
+    const entry = entries.get(path);
+    if (!entry) throw new Error(`Missing ${path} in .xlsx file`);
+    return entry();
+  };
+
+  // First sheet in workbook order, resolved through the workbook relationships
+  const workbook = await read('xl/workbook.xml');
+  const firstSheet = workbook.match(/<(?:\w+:)?sheet\s[^>]*>/)?.[0];
+  const relId = firstSheet && attribute(firstSheet, 'r:id');
+  let sheetPath = 'xl/worksheets/sheet1.xml';
+  if (relId && entries.has('xl/_rels/workbook.xml.rels')) {
+    const rels = await read('xl/_rels/workbook.xml.rels');
+    const rel = Array.from(rels.matchAll(/<Relationship\s[^>]*>/g)).map(m => m[0]).find(tag => attribute(tag, 'Id') === relId);
+    const target = rel && attribute(rel, 'Target');
+    if (target) sheetPath = target.startsWith('/') ? target.slice(1) : `xl/${target.replace(/^\.\//, '')}`;
+  }
+
+  const sharedStrings = entries.has('xl/sharedStrings.xml')
+    ? Array.from((await read('xl/sharedStrings.xml')).matchAll(/<(?:\w+:)?si>([\s\S]*?)<\/(?:\w+:)?si>/g)).map(m => textContent(m[1]))
+    : [];
+
+  // Self-closing (empty) rows would otherwise swallow the row after them
+  const sheet = (await read(sheetPath)).replace(/<(?:\w+:)?row\s[^>]*\/>/g, '');
+  const rows: string[][] = [];
+
+  for (const rowMatch of sheet.matchAll(/<(?:\w+:)?row(\s[^>]*)?>([\s\S]*?)<\/(?:\w+:)?row>/g)) {
+    const rowNumber = Number(attribute(rowMatch[1] ?? '', 'r')) || rows.length + 1;
+    const cells: string[] = [];
+
+    for (const cellMatch of rowMatch[2].matchAll(/<(?:\w+:)?c(\s[^>]*?)(?:\/>|>([\s\S]*?)<\/(?:\w+:)?c>)/g)) {
+      const tag = cellMatch[1];
+      const body = cellMatch[2] ?? '';
+      const ref = attribute(tag, 'r');
+      const type = attribute(tag, 't');
+      const raw = body.match(/<(?:\w+:)?v>([\s\S]*?)<\/(?:\w+:)?v>/)?.[1];
+
+      let value = '';
+      if (type === 's' && raw !== undefined) value = sharedStrings[Number(raw)] ?? '';
+      else if (type === 'inlineStr') value = textContent(body);
+      else if (type === 'b') value = raw === '1' ? 'TRUE' : 'FALSE';
+      else if (raw !== undefined) value = decodeXml(raw);
+
+      cells[ref ? columnIndex(ref) : cells.length] = value;
+    }
+
+    rows[rowNumber - 1] = Array.from(cells, cell => cell ?? '');
+  }
+
+  return Array.from(rows, row => row ?? []);
+}
+
+/** Header row and data rows of a .csv or .xlsx file, with blank rows dropped */
+export async function readSpreadsheet(file: File): Promise<SheetData> {
+  const name = file.name.toLowerCase();
+  let table: string[][];
+
+  if (name.endsWith('.xlsx')) {
+    table = await readXlsx(await file.arrayBuffer());
+  } else if (name.endsWith('.csv') || name.endsWith('.txt')) {
+    table = parseCsv(await file.text());
+  } else {
+    throw new Error('Please upload a .csv or .xlsx file');
+  }
+
+  const numbered = table
+    .map((cells, index) => ({ cells, rowNumber: index + 1 }))
+    .filter(({ cells }) => cells.some(cell => cell.trim() !== ''));
+  if (numbered.length === 0) throw new Error('The file is empty');
+
+  const [header, ...rows] = numbered;
+  return {
+    headers: header.cells.map(h => h.trim()),
+    rows: rows.map(r => r.cells),
+    rowNumbers: rows.map(r => r.rowNumber),
+  };
+}
@@ -0,0 +1,2 @@
+// Paged reads shared with the edge functions
+export { fetchAllRows } from '../../supabase/functions/_shared/paging';
@@ -41,6 +41,10 @@ import {
 } from 'lucide-react';
 import { Link } from 'react-router-dom';
 import { QOF_INDICATORS, QOF_CATEGORIES, calculateQOFProgress } from '@/lib/qof-codes';
+import { buildCohortActivity, qofDataGaps, type QofDataGap } from '@/lib/patient-cohorts';
+import { useQOFAchievement } from '@/hooks/useQOFAchievement';
+import { useQOFExceptions } from '@/hooks/useQOFExceptions';
+import { exceptedIndicatorsByPatient } from '@/lib/qof-exceptions';
 import { KPICard } from '@/components/dashboard/KPICard';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip as RechartsTooltip, ResponsiveContainer, AreaChart, Area, BarChart, Bar, Legend } from 'recharts';
 
@@ -169,27 +173,24 @@ export default function AIAnalytics() {
     },
   });
 
-  // Calculate QOF gaps - patients missing key health metrics
+  // Patients with a QOF exception are not worked as gaps for that indicator
+  const { data: qofExceptions = [] } = useQOFExceptions();
+
+  // Calculate QOF gaps - patients missing key health metrics. Cohorts filter on the same gaps
   const calculateQOFGaps = () => {
-    const patientsWithResponses = new Set(callResponses.map(r => r.patient_id));
-    
-    const missingResponses = patients.filter(p => !patientsWithResponses.has(p.id));
-    
-    const missingBP = patients.filter(p => {
-      const responses = callResponses.filter(r => r.patient_id === p.id);
-      return responses.length === 0 || !responses.some(r => r.blood_pressure_systolic && r.blood_pressure_diastolic);
-    });
+    const activity = buildCohortActivity(callResponses, [], exceptedIndicatorsByPatient(qofExceptions));
+    const gapsByPatient = new Map(patients.map(p => [p.id, qofDataGaps(p, activity.get(p.id))]));
+    const withGap = (gap: QofDataGap) => patients.filter(p => gapsByPatient.get(p.id)?.includes(gap));
 
-    const missingSmoking = patients.filter(p => {
-      const responses = callResponses.filter(r => r.patient_id === p.id);
-      return responses.length === 0 || !responses.some(r => r.smoking_status);
-    });
+    const missingResponses = withGap('no-data');
+    const missingBP = withGap('bp');
+    const missingSmoking = withGap('smoking');
 
     // Missing HbA1c for diabetic patients
     const diabeticPatients = patients.filter(p => 
       p.conditions?.some((c: string) => c.toLowerCase().includes('diabetes'))
     );
-    const missingHbA1c = diabeticPatients.filter(p => !p.hba1c_mmol_mol);
+    const missingHbA1c = withGap('hba1c');
 
     // Missing cholesterol for cardiovascular patients
     const cvdPatients = patients.filter(p => 
@@ -200,7 +201,7 @@ export default function AIAnalytics() {
         c.toLowerCase().includes('heart')
       )
     );
-    const missingCholesterol = cvdPatients.filter(p => !p.cholesterol_ldl);
+    const missingCholesterol = withGap('cholesterol');
 
     return { missingResponses, missingBP, missingSmoking, missingHbA1c, missingCholesterol, diabeticPatients, cvdPatients };
   };
@@ -331,8 +332,14 @@ export default function AIAnalytics() {
     { name: 'Mental Health', patients: patientCohorts.mentalHealth.length, controlled: 0, color: 'hsl(var(--muted-foreground))' },
   ], [patientCohorts, kpis]);
 
+  const { achievement: qofAchievement } = useQOFAchievement();
+
   // Calculate QOF progress for each indicator using real patient data
   const getIndicatorProgress = (indicator: typeof QOF_INDICATORS[0]) => {
+    // Indicators the achievement calculator measures use its register and this QOF year's data
+    const measured = qofAchievement?.indicators.find(i => i.indicator.code === indicator.code);
+    if (measured) return calculateQOFProgress(indicator, measured.numerator, measured.denominator);
+
     let achieved = 0;
     let total = patients.length;
 
@@ -519,9 +526,10 @@ export default function AIAnalytics() {
         achieved: `${progress.percent}%`,
         gap: progress.gap > 0 ? `${progress.gap}%` : 'Met',
         status: progress.status,
+        points: `${progress.pointsEarned}/${progress.maxPoints}`,
       };
     });
-    exportToCSV(data, 'qof_progress_full', ['Code', 'Name', 'Category', 'Condition', 'Target', 'Achieved', 'Gap', 'Status']);
+    exportToCSV(data, 'qof_progress_full', ['Code', 'Name', 'Category', 'Condition', 'Target', 'Achieved', 'Gap', 'Status', 'Points']);
   };
 
   const exportFullReport = () => {
@@ -929,10 +937,13 @@ export default function AIAnalytics() {
               <div className="p-2 bg-primary/10 rounded-lg">
                 <TrendingUp className="h-5 w-5 text-primary" />
               </div>
-              <div>
+              <div className="flex-1">
                 <CardTitle>NHS QOF Indicators 2024/25</CardTitle>
                 <CardDescription>Track achievement against Quality and Outcomes Framework targets</CardDescription>
               </div>
+              <Button variant="outline" size="sm" asChild>
+                <Link to="/qof-reports">Year-end projection</Link>
+              </Button>
             </div>
           </CardHeader>
           <CardContent>
@@ -1005,7 +1016,7 @@ export default function AIAnalytics() {
                                       {progress.percent}%
                                     </span>
                                     <p className="text-xs text-muted-foreground">
-                                      Target: {indicator.targetPercent}%
+                                      Target: {indicator.targetPercent}% • {progress.pointsEarned}/{progress.maxPoints} pts
                                     </p>
                                   </div>
                                 </div>
@@ -1052,7 +1063,9 @@ export default function AIAnalytics() {
                   </div>
                   <div>
                     <CardTitle className="text-base">QOF Gaps</CardTitle>
-                    <CardDescription>Patients missing key health data</CardDescription>
+                    <CardDescription>
+                      Patients missing key health data, less <Link to="/qof-exceptions" className="underline">QOF exceptions</Link>
+                    </CardDescription>
                   </div>
                 </div>
                 <Button variant="ghost" size="icon" onClick={exportQOFGaps}>
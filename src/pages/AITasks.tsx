@@ -1,6 +1,7 @@
 import { useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
+import { useClinicalRuleSettings } from '@/hooks/useClinicalRuleSettings';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -17,7 +18,8 @@ import {
 } from 'lucide-react';
 import { format } from 'date-fns';
 import { 
-  analyzeAllPatients, getClinicalActionStats, ClinicalAction, Patient, CallResponse
+  analyzeAllPatients, getClinicalActionStats, ClinicalAction, Patient, CallResponse,
+  formatTaskTitle, toTaskPriority
 } from '@/lib/clinical-analysis';
 
 interface Task {
@@ -47,6 +49,8 @@ export default function AITasks() {
   });
   const [showSnoozed, setShowSnoozed] = useState(false);
 
+  const { settings: ruleSettings } = useClinicalRuleSettings();
+
   const { data: patients = [], isLoading: patientsLoading, refetch: refetchPatients } = useQuery({
     queryKey: ['clinical-patients'],
     queryFn: async () => {
@@ -65,7 +69,7 @@ export default function AITasks() {
     queryFn: async () => {
       const { data, error } = await supabase
         .from('call_responses')
-        .select('id, patient_id, blood_pressure_systolic, blood_pressure_diastolic, smoking_status, collected_at, weight_kg, height_cm')
+        .select('id, patient_id, blood_pressure_systolic, blood_pressure_diastolic, smoking_status, collected_at, weight_kg, height_cm, alcohol_units_per_week')
         .order('collected_at', { ascending: false });
       if (error) throw error;
       return (data ?? []) as CallResponse[];
@@ -87,7 +91,7 @@ export default function AITasks() {
     },
   });
 
-  const clinicalActions = analyzeAllPatients(patients, callResponses);
+  const clinicalActions = analyzeAllPatients(patients, callResponses, ruleSettings);
   const stats = getClinicalActionStats(clinicalActions);
 
   // Filter actions
@@ -111,9 +115,9 @@ export default function AITasks() {
   const completeActionMutation = useMutation({
     mutationFn: async (action: ClinicalAction) => {
       const { error } = await supabase.from('meditask_tasks').insert({
-        title: `[${action.code}] ${action.title}`,
+        title: formatTaskTitle(action),
         description: `${action.patient.name} - ${action.reason}. Action: ${action.actionRequired}`,
-        priority: action.priority === 'critical' ? 'urgent' : action.priority,
+        priority: toTaskPriority(action.priority),
         status: 'completed',
         patient_id: action.patient.id,
         completed_at: new Date().toISOString(),
@@ -132,9 +136,9 @@ export default function AITasks() {
   const batchCompleteMutation = useMutation({
     mutationFn: async (actions: ClinicalAction[]) => {
       const inserts = actions.map(action => ({
-        title: `[${action.code}] ${action.title}`,
+        title: formatTaskTitle(action),
         description: `${action.patient.name} - ${action.reason}. Action: ${action.actionRequired}`,
-        priority: action.priority === 'critical' ? 'urgent' : action.priority,
+        priority: toTaskPriority(action.priority),
         status: 'completed',
         patient_id: action.patient.id,
         completed_at: new Date().toISOString(),
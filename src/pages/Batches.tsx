@@ -1,8 +1,10 @@
 import { useState, useMemo } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Link, useSearchParams } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import { useAuditLog } from '@/hooks/useAuditLog';
+import { useCohortMatches, usePatientCohorts } from '@/hooks/usePatientCohorts';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -12,12 +14,17 @@ import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, D
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
 import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/hooks/use-toast';
-import { Plus, Calendar, Users, Play, Pause, Trash2, Eye, Pencil, X, Search, Upload } from 'lucide-react';
+import { Plus, Calendar, Users, Play, Pause, Trash2, Eye, Pencil, X, Search, Upload, Square, Activity, Repeat } from 'lucide-react';
 import { Checkbox } from '@/components/ui/checkbox';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { BatchSummaryView } from '@/components/batch/BatchSummaryView';
 import { CreateBatchFromUpload } from '@/components/batch/CreateBatchFromUpload';
 import { BatchExport } from '@/components/batch/BatchExport';
+import { BatchProgressBoard } from '@/components/batch/BatchProgressBoard';
+import { CALLABLE_QOF_INDICATORS } from '@/lib/qof-codes';
+import { describeCohort } from '@/lib/patient-cohorts';
 
 interface Batch {
   id: string;
@@ -27,9 +34,36 @@ interface Batch {
   scheduled_time_end: string;
   status: string;
   retry_attempts: number;
+  retry_backoff_minutes: number[];
+  max_concurrent_calls: number;
+  calls_per_minute: number;
+  script_id: string | null;
+  target_qof_indicators: string[] | null;
+  programme_id: string | null;
+  programme_cycle: number | null;
   created_at: string;
 }
 
+type BatchAction = 'start' | 'pause' | 'resume' | 'cancel';
+
+// "2, 24" (hours) <-> [120, 1440] (minutes)
+const parseRetryDelays = (value: FormDataEntryValue | null): number[] => {
+  const minutes = String(value ?? '')
+    .split(',')
+    .map(part => Math.round(parseFloat(part) * 60))
+    .filter(m => Number.isFinite(m) && m > 0);
+  return minutes.length > 0 ? minutes : [120, 1440];
+};
+
+const formatRetryDelays = (minutes: number[]) => minutes.map(m => +(m / 60).toFixed(2)).join(', ');
+
+// Batches without a script fall back to the general health check conversation
+const NO_SCRIPT = 'none';
+const parseScriptId = (value: FormDataEntryValue | null) => (!value || value === NO_SCRIPT ? null : String(value));
+
+// Patients are ticked one by one, or taken from a saved cohort
+type PatientSource = 'select' | 'cohort';
+
 interface Patient {
   id: string;
   name: string;
@@ -37,12 +71,19 @@ interface Patient {
 }
 
 export default function Batches() {
-  const [createDialogOpen, setCreateDialogOpen] = useState(false);
+  // Arriving from the Cohorts page opens the create dialog on that cohort, and
+  // from QOF Reports with the suggested patients already picked
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [createDialogOpen, setCreateDialogOpen] = useState(() => searchParams.has('cohort') || searchParams.has('patients'));
+  const [patientSource, setPatientSource] = useState<PatientSource>(() => (searchParams.has('cohort') ? 'cohort' : 'select'));
+  const [batchCohortId, setBatchCohortId] = useState(() => searchParams.get('cohort') ?? '');
   const [uploadDialogOpen, setUploadDialogOpen] = useState(false);
   const [editDialogOpen, setEditDialogOpen] = useState(false);
   const [viewBatchId, setViewBatchId] = useState<string | null>(null);
+  const [liveBatchId, setLiveBatchId] = useState<string | null>(null);
+  const [liveBoardHidden, setLiveBoardHidden] = useState(false);
   const [editingBatch, setEditingBatch] = useState<Batch | null>(null);
-  const [selectedPatients, setSelectedPatients] = useState<string[]>([]);
+  const [selectedPatients, setSelectedPatients] = useState<string[]>(() => searchParams.get('patients')?.split(',').filter(Boolean) ?? []);
   const [editSelectedPatients, setEditSelectedPatients] = useState<string[]>([]);
   const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null);
   const [removePatientId, setRemovePatientId] = useState<string | null>(null);
@@ -65,6 +106,23 @@ export default function Batches() {
     },
   });
 
+  // The live board follows the chosen batch, or the first running one until it is hidden
+  const liveBatch = batches?.find(b => b.id === liveBatchId)
+    ?? (liveBoardHidden ? undefined : batches?.find(b => b.status === 'in_progress'));
+
+  const { data: publishedScripts } = useQuery({
+    queryKey: ['published-call-scripts'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('call_scripts')
+        .select('id, name, version')
+        .eq('status', 'published')
+        .order('name');
+      if (error) throw error;
+      return data;
+    },
+  });
+
   const { data: patients } = useQuery({
     queryKey: ['patients-for-batch'],
     queryFn: async () => {
@@ -77,6 +135,16 @@ export default function Batches() {
     },
   });
 
+  const { data: cohorts } = usePatientCohorts();
+  const batchCohort = cohorts?.find(c => c.id === batchCohortId);
+  const cohortMatches = useCohortMatches(patientSource === 'cohort' ? batchCohort?.criteria : null);
+  const createPatientIds = patientSource === 'cohort' ? (cohortMatches ?? []).map(p => p.id) : selectedPatients;
+
+  const handleCreateDialogOpenChange = (open: boolean) => {
+    setCreateDialogOpen(open);
+    if (!open && (searchParams.has('cohort') || searchParams.has('patients'))) setSearchParams({}, { replace: true });
+  };
+
   // Filtered patients for create dialog
   const filteredPatientsCreate = useMemo(() => {
     if (!patients) return [];
@@ -118,7 +186,7 @@ export default function Batches() {
   });
 
   const createBatchMutation = useMutation({
-    mutationFn: async (batch: { name: string; scheduled_date: string; scheduled_time_start: string; scheduled_time_end: string; patientIds: string[] }) => {
+    mutationFn: async (batch: { name: string; scheduled_date: string; scheduled_time_start: string; scheduled_time_end: string; retry_attempts: number; retry_backoff_minutes: number[]; max_concurrent_calls: number; calls_per_minute: number; script_id: string | null; target_qof_indicators: string[]; patientIds: string[]; cohortId: string | null }) => {
       const { data: batchData, error: batchError } = await supabase
         .from('call_batches')
         .insert({
@@ -126,6 +194,12 @@ export default function Batches() {
           scheduled_date: batch.scheduled_date,
           scheduled_time_start: batch.scheduled_time_start,
           scheduled_time_end: batch.scheduled_time_end,
+          retry_attempts: batch.retry_attempts,
+          retry_backoff_minutes: batch.retry_backoff_minutes,
+          max_concurrent_calls: batch.max_concurrent_calls,
+          calls_per_minute: batch.calls_per_minute,
+          script_id: batch.script_id,
+          target_qof_indicators: batch.target_qof_indicators,
           created_by: user?.id,
         })
         .select()
@@ -148,11 +222,11 @@ export default function Batches() {
 
       return batchData;
     },
-    onSuccess: (data) => {
+    onSuccess: (data, { patientIds, cohortId }) => {
       queryClient.invalidateQueries({ queryKey: ['batches'] });
-      logAction('create', 'batch', data.id, { name: data.name, patients: selectedPatients.length });
+      logAction('create', 'batch', data.id, { name: data.name, patients: patientIds.length, cohort_id: cohortId });
       toast({ title: 'Batch created successfully' });
-      setCreateDialogOpen(false);
+      handleCreateDialogOpenChange(false);
       setSelectedPatients([]);
     },
     onError: (error: Error) => {
@@ -161,7 +235,7 @@ export default function Batches() {
   });
 
   const updateBatchMutation = useMutation({
-    mutationFn: async (batch: { id: string; name: string; scheduled_date: string; scheduled_time_start: string; scheduled_time_end: string; retry_attempts: number; patientIds: string[] }) => {
+    mutationFn: async (batch: { id: string; name: string; scheduled_date: string; scheduled_time_start: string; scheduled_time_end: string; retry_attempts: number; retry_backoff_minutes: number[]; max_concurrent_calls: number; calls_per_minute: number; script_id: string | null; target_qof_indicators: string[]; patientIds: string[] }) => {
       const { error: updateError } = await supabase
         .from('call_batches')
         .update({
@@ -170,6 +244,11 @@ export default function Batches() {
           scheduled_time_start: batch.scheduled_time_start,
           scheduled_time_end: batch.scheduled_time_end,
           retry_attempts: batch.retry_attempts,
+          retry_backoff_minutes: batch.retry_backoff_minutes,
+          max_concurrent_calls: batch.max_concurrent_calls,
+          calls_per_minute: batch.calls_per_minute,
+          script_id: batch.script_id,
+          target_qof_indicators: batch.target_qof_indicators,
         })
         .eq('id', batch.id);
       
@@ -224,40 +303,28 @@ export default function Batches() {
     },
   });
 
-  const startBatchMutation = useMutation({
-    mutationFn: async (batchId: string) => {
+  const batchControlMutation = useMutation({
+    mutationFn: async ({ batchId, action }: { batchId: string; action: BatchAction }) => {
       const { data, error } = await supabase.functions.invoke('process-batch', {
-        body: { batchId },
+        body: { batchId, action },
       });
       if (error) throw error;
       return data;
     },
-    onSuccess: (_, batchId) => {
-      queryClient.invalidateQueries({ queryKey: ['batches'] });
-      logAction('start_calls', 'batch', batchId);
-      toast({ title: 'Batch calls started', description: 'Calls are being initiated in the background.' });
-    },
-    onError: (error: Error) => {
-      toast({ variant: 'destructive', title: 'Failed to start batch calls', description: error.message });
-    },
-  });
-
-  const updateBatchStatusMutation = useMutation({
-    mutationFn: async ({ id, status }: { id: string; status: string }) => {
-      const { error } = await supabase
-        .from('call_batches')
-        .update({ status })
-        .eq('id', id);
-      if (error) throw error;
-      return { id, status };
-    },
-    onSuccess: ({ id, status }) => {
+    onSuccess: (data, { batchId, action }) => {
       queryClient.invalidateQueries({ queryKey: ['batches'] });
-      logAction('update_status', 'batch', id, { status });
-      toast({ title: `Batch ${status === 'cancelled' ? 'cancelled' : 'updated'}` });
+      queryClient.invalidateQueries({ queryKey: ['batch-queue', batchId] });
+      const messages: Record<BatchAction, { audit: string; title: string; description?: string }> = {
+        start: { audit: 'start_calls', title: 'Batch calls started', description: `${data?.callsQueued ?? 0} calls queued. Calls are dispatched in the background.` },
+        resume: { audit: 'resume_calls', title: 'Batch resumed', description: `${data?.callsQueued ?? 0} calls still queued.` },
+        pause: { audit: 'pause_calls', title: 'Batch paused', description: 'No new calls will be placed until the batch is resumed.' },
+        cancel: { audit: 'cancel_calls', title: 'Batch cancelled', description: `${data?.callsCancelled ?? 0} queued calls cancelled.` },
+      };
+      logAction(messages[action].audit, 'batch', batchId);
+      toast({ title: messages[action].title, description: messages[action].description });
     },
     onError: (error: Error) => {
-      toast({ variant: 'destructive', title: 'Failed to update batch', description: error.message });
+      toast({ variant: 'destructive', title: 'Failed to update batch calls', description: error.message });
     },
   });
 
@@ -309,7 +376,14 @@ export default function Batches() {
       scheduled_date: formData.get('scheduled_date') as string,
       scheduled_time_start: formData.get('scheduled_time_start') as string,
       scheduled_time_end: formData.get('scheduled_time_end') as string,
-      patientIds: selectedPatients,
+      retry_attempts: parseInt(formData.get('retry_attempts') as string) || 0,
+      retry_backoff_minutes: parseRetryDelays(formData.get('retry_backoff_hours')),
+      max_concurrent_calls: parseInt(formData.get('max_concurrent_calls') as string) || 3,
+      calls_per_minute: parseInt(formData.get('calls_per_minute') as string) || 6,
+      script_id: parseScriptId(formData.get('script_id')),
+      target_qof_indicators: formData.getAll('target_qof_indicators').map(String),
+      patientIds: createPatientIds,
+      cohortId: patientSource === 'cohort' ? batchCohortId : null,
     });
   };
 
@@ -323,7 +397,12 @@ export default function Batches() {
       scheduled_date: formData.get('scheduled_date') as string,
       scheduled_time_start: formData.get('scheduled_time_start') as string,
       scheduled_time_end: formData.get('scheduled_time_end') as string,
-      retry_attempts: parseInt(formData.get('retry_attempts') as string) || 3,
+      retry_attempts: parseInt(formData.get('retry_attempts') as string) || 0,
+      retry_backoff_minutes: parseRetryDelays(formData.get('retry_backoff_hours')),
+      max_concurrent_calls: parseInt(formData.get('max_concurrent_calls') as string) || 3,
+      calls_per_minute: parseInt(formData.get('calls_per_minute') as string) || 6,
+      script_id: parseScriptId(formData.get('script_id')),
+      target_qof_indicators: formData.getAll('target_qof_indicators').map(String),
       patientIds: editSelectedPatients,
     });
   };
@@ -343,6 +422,7 @@ export default function Batches() {
     const variants: Record<string, 'default' | 'secondary' | 'destructive' | 'outline'> = {
       pending: 'secondary',
       in_progress: 'default',
+      paused: 'secondary',
       completed: 'outline',
       cancelled: 'destructive',
     };
@@ -368,7 +448,7 @@ export default function Batches() {
             <Upload className="h-4 w-4 mr-2" />
             Upload from EMIS
           </Button>
-          <Dialog open={createDialogOpen} onOpenChange={setCreateDialogOpen}>
+          <Dialog open={createDialogOpen} onOpenChange={handleCreateDialogOpenChange}>
             <DialogTrigger asChild>
               <Button>
                 <Plus className="h-4 w-4 mr-2" />
@@ -379,7 +459,7 @@ export default function Batches() {
             <DialogHeader>
               <DialogTitle>Create New Batch</DialogTitle>
               <DialogDescription>
-                Schedule a batch of patient calls. Select patients and set the calling window.
+                Schedule a batch of patient calls. Pick patients or use a saved cohort, and set the calling window.
               </DialogDescription>
             </DialogHeader>
             <form onSubmit={handleCreateBatch}>
@@ -408,77 +488,161 @@ export default function Batches() {
                     <Input id="scheduled_time_end" name="scheduled_time_end" type="time" defaultValue="17:00" required />
                   </div>
                 </div>
-                
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="max_concurrent_calls">Max Concurrent Calls</Label>
+                    <Input id="max_concurrent_calls" name="max_concurrent_calls" type="number" min="1" max="20" defaultValue={3} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="calls_per_minute">Calls per Minute</Label>
+                    <Input id="calls_per_minute" name="calls_per_minute" type="number" min="1" max="60" defaultValue={6} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="retry_attempts">Retry Attempts</Label>
+                    <Input id="retry_attempts" name="retry_attempts" type="number" min="0" max="10" defaultValue={3} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="retry_backoff_hours">Retry Delays (hours)</Label>
+                    <Input id="retry_backoff_hours" name="retry_backoff_hours" placeholder="2, 24" defaultValue="2, 24" />
+                    <p className="text-xs text-muted-foreground">Unanswered or failed calls are retried after each delay in turn</p>
+                  </div>
+                </div>
                 <div className="space-y-2">
-                  <Label>Select Patients ({selectedPatients.length} selected)</Label>
-                  <Card>
-                    <div className="p-3 border-b space-y-3">
-                      <div className="relative">
-                        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-                        <Input
-                          placeholder="Search patients..."
-                          value={createPatientSearch}
-                          onChange={(e) => setCreatePatientSearch(e.target.value)}
-                          className="pl-9"
-                        />
-                      </div>
-                      <div className="flex items-center space-x-3">
+                  <Label htmlFor="script_id">Conversation Script</Label>
+                  <Select name="script_id" defaultValue={NO_SCRIPT}>
+                    <SelectTrigger id="script_id">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_SCRIPT}>General health check (no script)</SelectItem>
+                      {publishedScripts?.map(script => (
+                        <SelectItem key={script.id} value={script.id}>
+                          {script.name} (v{script.version})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Target QOF Indicators</Label>
+                  <div className="grid grid-cols-2 gap-2 rounded-md border p-3">
+                    {CALLABLE_QOF_INDICATORS.map(indicator => (
+                      <div key={indicator.code} className="flex items-center space-x-2">
                         <Checkbox
-                          id="select-all-create"
-                          checked={filteredPatientsCreate.length > 0 && filteredPatientsCreate.every(p => selectedPatients.includes(p.id))}
-                          onCheckedChange={(checked) => {
-                            if (checked) {
-                              const newIds = [...new Set([...selectedPatients, ...filteredPatientsCreate.map(p => p.id)])];
-                              setSelectedPatients(newIds);
-                            } else {
-                              const filteredIds = filteredPatientsCreate.map(p => p.id);
-                              setSelectedPatients(selectedPatients.filter(id => !filteredIds.includes(id)));
-                            }
-                          }}
+                          id={`target-${indicator.code}`}
+                          name="target_qof_indicators"
+                          value={indicator.code}
+                          defaultChecked={false}
                         />
-                        <label htmlFor="select-all-create" className="cursor-pointer font-medium text-sm">
-                          Select All {createPatientSearch ? 'Filtered' : ''}
-                        </label>
+                        <Label htmlFor={`target-${indicator.code}`} className="text-sm font-normal">
+                          {indicator.code}: {indicator.name}
+                        </Label>
                       </div>
-                    </div>
-                    <ScrollArea className="h-48">
-                      <div className="p-4 space-y-2">
-                        {filteredPatientsCreate.map((patient) => (
-                          <div key={patient.id} className="flex items-center space-x-3 p-2 hover:bg-muted rounded-md">
+                    ))}
+                  </div>
+                  <p className="text-xs text-muted-foreground">Without a script, calls ask for and record the data these indicators need</p>
+                </div>
+                
+                <div className="space-y-2">
+                  <Label>Patients ({createPatientIds.length} selected)</Label>
+                  <Tabs value={patientSource} onValueChange={(value) => setPatientSource(value as PatientSource)}>
+                    <TabsList className="grid w-full grid-cols-2">
+                      <TabsTrigger value="select">Pick patients</TabsTrigger>
+                      <TabsTrigger value="cohort">Saved cohort</TabsTrigger>
+                    </TabsList>
+                    <TabsContent value="select">
+                      <Card>
+                        <div className="p-3 border-b space-y-3">
+                          <div className="relative">
+                            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                            <Input
+                              placeholder="Search patients..."
+                              value={createPatientSearch}
+                              onChange={(e) => setCreatePatientSearch(e.target.value)}
+                              className="pl-9"
+                            />
+                          </div>
+                          <div className="flex items-center space-x-3">
                             <Checkbox
-                              id={patient.id}
-                              checked={selectedPatients.includes(patient.id)}
+                              id="select-all-create"
+                              checked={filteredPatientsCreate.length > 0 && filteredPatientsCreate.every(p => selectedPatients.includes(p.id))}
                               onCheckedChange={(checked) => {
                                 if (checked) {
-                                  setSelectedPatients([...selectedPatients, patient.id]);
+                                  const newIds = [...new Set([...selectedPatients, ...filteredPatientsCreate.map(p => p.id)])];
+                                  setSelectedPatients(newIds);
                                 } else {
-                                  setSelectedPatients(selectedPatients.filter(id => id !== patient.id));
+                                  const filteredIds = filteredPatientsCreate.map(p => p.id);
+                                  setSelectedPatients(selectedPatients.filter(id => !filteredIds.includes(id)));
                                 }
                               }}
                             />
-                            <label htmlFor={patient.id} className="flex-1 cursor-pointer">
-                              <span className="font-medium">{patient.name}</span>
-                              <span className="text-sm text-muted-foreground ml-2">{patient.phone_number}</span>
+                            <label htmlFor="select-all-create" className="cursor-pointer font-medium text-sm">
+                              Select All {createPatientSearch ? 'Filtered' : ''}
                             </label>
                           </div>
-                        ))}
-                        {filteredPatientsCreate.length === 0 && createPatientSearch && (
-                          <p className="text-center text-muted-foreground py-4">
-                            No patients match your search.
-                          </p>
-                        )}
-                        {!patients?.length && (
-                          <p className="text-center text-muted-foreground py-4">
-                            No patients available. Add patients first.
-                          </p>
-                        )}
-                      </div>
-                    </ScrollArea>
-                  </Card>
+                        </div>
+                        <ScrollArea className="h-48">
+                          <div className="p-4 space-y-2">
+                            {filteredPatientsCreate.map((patient) => (
+                              <div key={patient.id} className="flex items-center space-x-3 p-2 hover:bg-muted rounded-md">
+                                <Checkbox
+                                  id={patient.id}
+                                  checked={selectedPatients.includes(patient.id)}
+                                  onCheckedChange={(checked) => {
+                                    if (checked) {
+                                      setSelectedPatients([...selectedPatients, patient.id]);
+                                    } else {
+                                      setSelectedPatients(selectedPatients.filter(id => id !== patient.id));
+                                    }
+                                  }}
+                                />
+                                <label htmlFor={patient.id} className="flex-1 cursor-pointer">
+                                  <span className="font-medium">{patient.name}</span>
+                                  <span className="text-sm text-muted-foreground ml-2">{patient.phone_number}</span>
+                                </label>
+                              </div>
+                            ))}
+                            {filteredPatientsCreate.length === 0 && createPatientSearch && (
+                              <p className="text-center text-muted-foreground py-4">
+                                No patients match your search.
+                              </p>
+                            )}
+                            {!patients?.length && (
+                              <p className="text-center text-muted-foreground py-4">
+                                No patients available. Add patients first.
+                              </p>
+                            )}
+                          </div>
+                        </ScrollArea>
+                      </Card>
+                    </TabsContent>
+                    <TabsContent value="cohort" className="space-y-2">
+                      <Select value={batchCohortId} onValueChange={setBatchCohortId}>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Choose a cohort" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {cohorts?.map(cohort => (
+                            <SelectItem key={cohort.id} value={cohort.id}>{cohort.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {batchCohort && (
+                        <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                          <Users className="h-4 w-4 shrink-0" />
+                          {describeCohort(batchCohort.criteria)} - {cohortMatches ? `${cohortMatches.length} living patient${cohortMatches.length === 1 ? '' : 's'} currently match` : 'counting patients...'}
+                        </p>
+                      )}
+                      <p className="text-xs text-muted-foreground">
+                        The cohort is run when the batch is created. Build and save cohorts on the{' '}
+                        <Link to="/cohorts" className="underline">Cohorts</Link> page.
+                      </p>
+                    </TabsContent>
+                  </Tabs>
                 </div>
               </div>
               <DialogFooter>
-                <Button type="submit" disabled={createBatchMutation.isPending || selectedPatients.length === 0}>
+                <Button type="submit" disabled={createBatchMutation.isPending || createPatientIds.length === 0}>
                   {createBatchMutation.isPending ? 'Creating...' : 'Create Batch'}
                 </Button>
               </DialogFooter>
@@ -489,6 +653,19 @@ export default function Batches() {
       </div>
 
       <CreateBatchFromUpload open={uploadDialogOpen} onOpenChange={setUploadDialogOpen} />
+
+      {liveBatch && (
+        <BatchProgressBoard
+          key={liveBatch.id}
+          batchId={liveBatch.id}
+          batchName={liveBatch.name}
+          onClose={() => {
+            setLiveBatchId(null);
+            setLiveBoardHidden(true);
+          }}
+        />
+      )}
+
       {/* Batches Table */}
       <Card>
         <CardHeader>
@@ -515,7 +692,17 @@ export default function Batches() {
               <TableBody>
                 {batches.map((batch) => (
                   <TableRow key={batch.id}>
-                    <TableCell className="font-medium">{batch.name}</TableCell>
+                    <TableCell className="font-medium">
+                      <div className="flex items-center gap-2">
+                        {batch.name}
+                        {batch.programme_id && (
+                          <Badge variant="outline" className="gap-1 text-xs font-normal">
+                            <Repeat className="h-3 w-3" />
+                            Programme #{batch.programme_cycle}
+                          </Badge>
+                        )}
+                      </div>
+                    </TableCell>
                     <TableCell>
                       <div className="flex items-center gap-2">
                         <Calendar className="h-4 w-4 text-muted-foreground" />
@@ -555,8 +742,8 @@ export default function Batches() {
                             <Button
                               variant="ghost"
                               size="icon"
-                              onClick={() => startBatchMutation.mutate(batch.id)}
-                              disabled={startBatchMutation.isPending}
+                              onClick={() => batchControlMutation.mutate({ batchId: batch.id, action: 'start' })}
+                              disabled={batchControlMutation.isPending}
                               title="Start calls"
                             >
                               <Play className="h-4 w-4 text-green-600" />
@@ -567,12 +754,48 @@ export default function Batches() {
                           <Button
                             variant="ghost"
                             size="icon"
-                            onClick={() => updateBatchStatusMutation.mutate({ id: batch.id, status: 'cancelled' })}
-                            title="Cancel batch"
+                            onClick={() => batchControlMutation.mutate({ batchId: batch.id, action: 'pause' })}
+                            disabled={batchControlMutation.isPending}
+                            title="Pause calls"
                           >
                             <Pause className="h-4 w-4 text-orange-500" />
                           </Button>
                         )}
+                        {batch.status === 'paused' && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => batchControlMutation.mutate({ batchId: batch.id, action: 'resume' })}
+                            disabled={batchControlMutation.isPending}
+                            title="Resume calls"
+                          >
+                            <Play className="h-4 w-4 text-green-600" />
+                          </Button>
+                        )}
+                        {(batch.status === 'in_progress' || batch.status === 'paused') && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => {
+                              setLiveBatchId(batch.id);
+                              setLiveBoardHidden(false);
+                            }}
+                            title="Live progress"
+                          >
+                            <Activity className="h-4 w-4 text-primary" />
+                          </Button>
+                        )}
+                        {(batch.status === 'in_progress' || batch.status === 'paused') && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => batchControlMutation.mutate({ batchId: batch.id, action: 'cancel' })}
+                            disabled={batchControlMutation.isPending}
+                            title="Cancel batch"
+                          >
+                            <Square className="h-4 w-4 text-destructive" />
+                          </Button>
+                        )}
                         <Button
                           variant="ghost"
                           size="icon"
@@ -611,6 +834,7 @@ export default function Batches() {
               batchName={viewingBatch.name}
               batchStatus={viewingBatch.status}
               scheduledDate={viewingBatch.scheduled_date}
+              retryAttempts={viewingBatch.retry_attempts}
               onRemovePatient={(batchPatientId) => setRemovePatientId(batchPatientId)}
             />
           )}
@@ -676,6 +900,75 @@ export default function Batches() {
                     />
                   </div>
                 </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="edit-max_concurrent_calls">Max Concurrent Calls</Label>
+                    <Input 
+                      id="edit-max_concurrent_calls" 
+                      name="max_concurrent_calls" 
+                      type="number" 
+                      min="1"
+                      max="20"
+                      defaultValue={editingBatch.max_concurrent_calls} 
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="edit-calls_per_minute">Calls per Minute</Label>
+                    <Input 
+                      id="edit-calls_per_minute" 
+                      name="calls_per_minute" 
+                      type="number" 
+                      min="1"
+                      max="60"
+                      defaultValue={editingBatch.calls_per_minute} 
+                    />
+                  </div>
+                  <div className="space-y-2 col-span-2">
+                    <Label htmlFor="edit-retry_backoff_hours">Retry Delays (hours)</Label>
+                    <Input 
+                      id="edit-retry_backoff_hours" 
+                      name="retry_backoff_hours" 
+                      placeholder="2, 24"
+                      defaultValue={formatRetryDelays(editingBatch.retry_backoff_minutes)} 
+                    />
+                    <p className="text-xs text-muted-foreground">Unanswered or failed calls are retried after each delay in turn</p>
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="edit-script_id">Conversation Script</Label>
+                  <Select name="script_id" defaultValue={editingBatch.script_id ?? NO_SCRIPT}>
+                    <SelectTrigger id="edit-script_id">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_SCRIPT}>General health check (no script)</SelectItem>
+                      {publishedScripts?.map(script => (
+                        <SelectItem key={script.id} value={script.id}>
+                          {script.name} (v{script.version})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Target QOF Indicators</Label>
+                  <div className="grid grid-cols-2 gap-2 rounded-md border p-3">
+                    {CALLABLE_QOF_INDICATORS.map(indicator => (
+                      <div key={indicator.code} className="flex items-center space-x-2">
+                        <Checkbox
+                          id={`edit-target-${indicator.code}`}
+                          name="target_qof_indicators"
+                          value={indicator.code}
+                          defaultChecked={editingBatch.target_qof_indicators?.includes(indicator.code)}
+                        />
+                        <Label htmlFor={`edit-target-${indicator.code}`} className="text-sm font-normal">
+                          {indicator.code}: {indicator.name}
+                        </Label>
+                      </div>
+                    ))}
+                  </div>
+                  <p className="text-xs text-muted-foreground">Without a script, calls ask for and record the data these indicators need</p>
+                </div>
                 
                 <div className="space-y-2">
                   <Label>Select Patients ({editSelectedPatients.length} selected)</Label>
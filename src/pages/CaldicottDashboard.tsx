@@ -12,7 +12,9 @@ import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, D
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { toast } from 'sonner';
 import { format } from 'date-fns';
-import { Shield, CheckCircle, XCircle, Clock, FileText, Users, Activity, AlertTriangle } from 'lucide-react';
+import { Shield, CheckCircle, XCircle, Clock, FileText, Users, Activity, AlertTriangle, SlidersHorizontal } from 'lucide-react';
+import { CLINICAL_RULES } from '@/lib/clinical-analysis';
+import { observationLabel } from '@/lib/clinical-verification';
 
 interface DataSharingRequest {
   id: string;
@@ -50,6 +52,37 @@ interface PatientAccessLog {
   created_at: string | null;
 }
 
+interface RuleSettingChange {
+  id: string;
+  setting_type: string;
+  setting_key: string;
+  old_value: unknown;
+  new_value: unknown;
+  reason: string | null;
+  changed_by: string;
+  changed_at: string;
+  author: string;
+}
+
+const RULE_LABELS = new Map(CLINICAL_RULES.map(rule => [rule.id, `[${rule.code}] ${rule.title}`]));
+
+const describeRuleSetting = (change: RuleSettingChange) => {
+  const rule = RULE_LABELS.get(change.setting_key) ?? change.setting_key;
+  if (change.setting_type === 'threshold') return `Threshold ${change.setting_key}`;
+  if (change.setting_type === 'due_within_days') return `Due window: ${rule}`;
+  if (change.setting_type === 'dual_signoff') {
+    const [field, bound] = change.setting_key.split('.');
+    return `Dual sign-off: ${observationLabel(field)} ${bound === 'low' ? '≤' : '≥'}`;
+  }
+  return `Rule: ${rule}`;
+};
+
+const formatRuleSettingValue = (change: RuleSettingChange, value: unknown) => {
+  if (change.setting_type === 'rule_enabled') return value ? 'Enabled' : 'Disabled';
+  if (value === null || value === undefined) return change.setting_type === 'dual_signoff' ? 'None' : 'Default';
+  return change.setting_type === 'due_within_days' ? `${value} days` : String(value);
+};
+
 export default function CaldicottDashboard() {
   const { user } = useAuth();
   const { isCaldicottGuardian, loading: roleLoading } = useUserRole();
@@ -123,6 +156,29 @@ export default function CaldicottDashboard() {
     enabled: isCaldicottGuardian,
   });
 
+  // Fetch clinical rule setting changes with author names
+  const { data: ruleChanges = [] } = useQuery({
+    queryKey: ['clinical-rule-setting-changes'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('clinical_rule_setting_changes')
+        .select('*')
+        .order('changed_at', { ascending: false })
+        .limit(200);
+
+      if (error) throw error;
+
+      const authorIds = [...new Set((data || []).map(c => c.changed_by))];
+      const { data: profiles } = authorIds.length > 0
+        ? await supabase.from('profiles').select('user_id, full_name').in('user_id', authorIds)
+        : { data: [] };
+      const names = new Map((profiles || []).map(p => [p.user_id, p.full_name]));
+
+      return (data || []).map(c => ({ ...c, author: names.get(c.changed_by) || 'Unknown user' })) as RuleSettingChange[];
+    },
+    enabled: isCaldicottGuardian,
+  });
+
   // Review mutation
   const reviewMutation = useMutation({
     mutationFn: async ({ requestId, decision, notes }: { requestId: string; decision: string; notes: string }) => {
@@ -273,6 +329,7 @@ export default function CaldicottDashboard() {
           <TabsTrigger value="history">Request History</TabsTrigger>
           <TabsTrigger value="audit">Audit Trail</TabsTrigger>
           <TabsTrigger value="access">Access Logs</TabsTrigger>
+          <TabsTrigger value="rules">Clinical Rule Changes</TabsTrigger>
         </TabsList>
 
         <TabsContent value="pending" className="space-y-4">
@@ -444,6 +501,48 @@ export default function CaldicottDashboard() {
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="rules">
+          <Card>
+            <CardHeader>
+              <CardTitle>Clinical Rule Changes</CardTitle>
+              <CardDescription>Practice changes to clinical thresholds, rule toggles and due windows</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ScrollArea className="h-[500px]">
+                <div className="space-y-2">
+                  {ruleChanges.length === 0 && (
+                    <p className="text-sm text-muted-foreground text-center py-10">
+                      No changes from the default clinical rules
+                    </p>
+                  )}
+                  {ruleChanges.map((change) => (
+                    <div key={change.id} className="flex items-start gap-3 p-3 border rounded-lg">
+                      <SlidersHorizontal className="h-5 w-5 text-muted-foreground mt-0.5" />
+                      <div className="flex-1">
+                        <div className="flex items-center justify-between">
+                          <span className="font-medium text-sm">{describeRuleSetting(change)}</span>
+                          <span className="text-xs text-muted-foreground">
+                            {format(new Date(change.changed_at), 'PPp')}
+                          </span>
+                        </div>
+                        <p className="text-sm mt-1">
+                          <span className="text-muted-foreground">{formatRuleSettingValue(change, change.old_value)}</span>
+                          {' → '}
+                          <span className="font-medium">{formatRuleSettingValue(change, change.new_value)}</span>
+                          <span className="text-muted-foreground"> • {change.author}</span>
+                        </p>
+                        {change.reason && (
+                          <p className="text-xs text-muted-foreground mt-1">Reason: {change.reason}</p>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </ScrollArea>
+            </CardContent>
+          </Card>
+        </TabsContent>
       </Tabs>
 
       {/* Review Dialog */}
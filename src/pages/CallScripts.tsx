@@ -0,0 +1,525 @@
+import { useState, useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useAuditLog } from '@/hooks/useAuditLog';
+import { useUserRole } from '@/hooks/useUserRole';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { useToast } from '@/hooks/use-toast';
+import { Plus, FileText, ArrowUp, ArrowDown, Trash2, Save, Send, Copy, AlertTriangle } from 'lucide-react';
+import {
+  ANSWER_TYPES,
+  CallScript,
+  ScriptAnswerType,
+  ScriptQuestion,
+  STANDARD_QUESTIONS,
+  createEmptyQuestion,
+  toCallScript,
+  toQuestionKey,
+  validateScript,
+} from '@/lib/call-scripts';
+
+const EDITOR_ROLES = ['gp', 'nurse', 'care_home_doctor', 'admin'] as const;
+
+type ScriptDraft = Pick<CallScript, 'name' | 'description' | 'purpose_context' | 'questions' | 'closing_statement'>;
+
+const statusVariant: Record<string, 'default' | 'secondary' | 'outline'> = {
+  published: 'default',
+  draft: 'secondary',
+  archived: 'outline',
+};
+
+const parseNumber = (value: string) => (value.trim() === '' ? null : Number(value));
+
+export default function CallScripts() {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<ScriptDraft | null>(null);
+  const { user } = useAuth();
+  const { hasAnyRole } = useUserRole();
+  const { logAction } = useAuditLog();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const canEdit = hasAnyRole([...EDITOR_ROLES]);
+
+  const { data: scripts, isLoading } = useQuery({
+    queryKey: ['call-scripts'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('call_scripts')
+        .select('*')
+        .order('version', { ascending: false });
+      if (error) throw error;
+      return data.map(toCallScript);
+    },
+  });
+
+  // One entry per script family, newest version first
+  const families = useMemo(() => {
+    const grouped = new Map<string, CallScript[]>();
+    (scripts || []).forEach(s => {
+      grouped.set(s.family_id, [...(grouped.get(s.family_id) || []), s]);
+    });
+    return Array.from(grouped.values()).sort((a, b) => a[0].name.localeCompare(b[0].name));
+  }, [scripts]);
+
+  const selected = scripts?.find(s => s.id === selectedId) ?? null;
+  const isEditable = canEdit && selected?.status === 'draft';
+  const validationErrors = draft ? validateScript(draft) : [];
+
+  const selectScript = (script: CallScript) => {
+    setSelectedId(script.id);
+    setDraft({
+      name: script.name,
+      description: script.description,
+      purpose_context: script.purpose_context,
+      questions: script.questions || [],
+      closing_statement: script.closing_statement,
+    });
+  };
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['call-scripts'] });
+
+  const createMutation = useMutation({
+    mutationFn: async (source: CallScript | null) => {
+      const { data, error } = await supabase
+        .from('call_scripts')
+        .insert({
+          ...(source
+            ? {
+                family_id: source.family_id,
+                version: Math.max(...(scripts || []).filter(s => s.family_id === source.family_id).map(s => s.version)) + 1,
+                name: source.name,
+                description: source.description,
+                purpose_context: source.purpose_context,
+                questions: source.questions as never,
+                closing_statement: source.closing_statement,
+              }
+            : { name: 'Untitled script', questions: [] }),
+          created_by: user?.id,
+        })
+        .select()
+        .single();
+      if (error) throw error;
+      return toCallScript(data);
+    },
+    onSuccess: (script, source) => {
+      invalidate();
+      logAction(source ? 'create_script_version' : 'create_script', 'script', script.id, { name: script.name, version: script.version });
+      selectScript(script);
+      toast({ title: source ? `Version ${script.version} draft created` : 'Draft script created' });
+    },
+    onError: (error: Error) => {
+      toast({ variant: 'destructive', title: 'Failed to create script', description: error.message });
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ publish }: { publish: boolean }) => {
+      if (!selected || !draft) return;
+
+      const { error } = await supabase
+        .from('call_scripts')
+        .update({
+          name: draft.name,
+          description: draft.description,
+          purpose_context: draft.purpose_context,
+          questions: draft.questions as never,
+          closing_statement: draft.closing_statement,
+          ...(publish ? { status: 'published', published_at: new Date().toISOString() } : {}),
+        })
+        .eq('id', selected.id);
+      if (error) throw error;
+
+      if (publish) {
+        // Only one published version per family: batches pick the current one
+        const { error: archiveError } = await supabase
+          .from('call_scripts')
+          .update({ status: 'archived' })
+          .eq('family_id', selected.family_id)
+          .eq('status', 'published')
+          .neq('id', selected.id);
+        if (archiveError) throw archiveError;
+      }
+    },
+    onSuccess: (_, { publish }) => {
+      invalidate();
+      logAction(publish ? 'publish_script' : 'update_script', 'script', selected?.id, {
+        name: draft?.name,
+        version: selected?.version,
+        questions: draft?.questions.length,
+      });
+      toast({ title: publish ? 'Script published' : 'Draft saved' });
+    },
+    onError: (error: Error) => {
+      toast({ variant: 'destructive', title: 'Failed to save script', description: error.message });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('call_scripts').delete().eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: (_, id) => {
+      invalidate();
+      logAction('delete_script', 'script', id, { name: selected?.name, version: selected?.version });
+      setSelectedId(null);
+      setDraft(null);
+      toast({ title: 'Draft deleted' });
+    },
+    onError: (error: Error) => {
+      toast({ variant: 'destructive', title: 'Failed to delete draft', description: error.message });
+    },
+  });
+
+  const updateQuestion = (index: number, changes: Partial<ScriptQuestion>) => {
+    setDraft(d => d && { ...d, questions: d.questions.map((q, i) => (i === index ? { ...q, ...changes } : q)) });
+  };
+
+  const moveQuestion = (index: number, offset: -1 | 1) => {
+    setDraft(d => {
+      if (!d) return d;
+      const questions = [...d.questions];
+      const target = index + offset;
+      if (target < 0 || target >= questions.length) return d;
+      [questions[index], questions[target]] = [questions[target], questions[index]];
+      return { ...d, questions };
+    });
+  };
+
+  const addQuestion = (question: ScriptQuestion) => {
+    setDraft(d => d && { ...d, questions: [...d.questions, { ...question }] });
+  };
+
+  const removeQuestion = (index: number) => {
+    setDraft(d => d && { ...d, questions: d.questions.filter((_, i) => i !== index) });
+  };
+
+  const unusedStandardQuestions = STANDARD_QUESTIONS.filter(sq => !draft?.questions.some(q => q.key === sq.key));
+
+  return (
+    <div className="p-8">
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Call Scripts</h1>
+          <p className="text-muted-foreground mt-1">Write the questions the voice assistant asks and the answers it records</p>
+        </div>
+        {canEdit && (
+          <Button onClick={() => createMutation.mutate(null)} disabled={createMutation.isPending}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Script
+          </Button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <Card className="lg:col-span-1">
+          <CardHeader>
+            <CardTitle>Scripts</CardTitle>
+            <CardDescription>Latest version of each script</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {isLoading ? (
+              <p className="text-sm text-muted-foreground">Loading...</p>
+            ) : families.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No scripts yet</p>
+            ) : (
+              families.map(versions => (
+                <div key={versions[0].family_id} className="rounded-md border p-2 space-y-1">
+                  {versions.map(script => (
+                    <button
+                      key={script.id}
+                      onClick={() => selectScript(script)}
+                      className={`w-full flex items-center justify-between rounded px-2 py-1 text-left text-sm hover:bg-muted ${
+                        script.id === selectedId ? 'bg-muted' : ''
+                      }`}
+                    >
+                      <span className="flex items-center gap-2 truncate">
+                        <FileText className="h-4 w-4 shrink-0 text-muted-foreground" />
+                        <span className="truncate">{script.name}</span>
+                        <span className="text-muted-foreground">v{script.version}</span>
+                      </span>
+                      <Badge variant={statusVariant[script.status]}>{script.status}</Badge>
+                    </button>
+                  ))}
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="lg:col-span-2">
+          {!selected || !draft ? (
+            <CardContent className="py-16 text-center text-muted-foreground">
+              Select a script to view or edit it
+            </CardContent>
+          ) : (
+            <>
+              <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                <div>
+                  <CardTitle>
+                    {selected.name} <span className="text-muted-foreground font-normal">v{selected.version}</span>
+                  </CardTitle>
+                  <CardDescription>
+                    {selected.status === 'draft'
+                      ? 'Draft: not used by any batch until published'
+                      : selected.status === 'published'
+                        ? `Published ${selected.published_at ? new Date(selected.published_at).toLocaleDateString('en-GB') : ''}. Create a new version to make changes.`
+                        : 'Archived: kept for calls made with this version'}
+                  </CardDescription>
+                </div>
+                <div className="flex gap-2">
+                  {canEdit && selected.status !== 'draft' && (
+                    <Button variant="outline" size="sm" onClick={() => createMutation.mutate(selected)} disabled={createMutation.isPending}>
+                      <Copy className="h-4 w-4 mr-2" />
+                      New Version
+                    </Button>
+                  )}
+                  {isEditable && (
+                    <>
+                      <Button variant="outline" size="sm" onClick={() => deleteMutation.mutate(selected.id)} disabled={deleteMutation.isPending}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => saveMutation.mutate({ publish: false })} disabled={saveMutation.isPending}>
+                        <Save className="h-4 w-4 mr-2" />
+                        Save
+                      </Button>
+                      <Button
+                        size="sm"
+                        onClick={() => saveMutation.mutate({ publish: true })}
+                        disabled={saveMutation.isPending || validationErrors.length > 0}
+                      >
+                        <Send className="h-4 w-4 mr-2" />
+                        Publish
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                {isEditable && validationErrors.length > 0 && (
+                  <Alert>
+                    <AlertTriangle className="h-4 w-4" />
+                    <AlertDescription>
+                      <ul className="list-disc pl-4 text-sm">
+                        {validationErrors.map(message => <li key={message}>{message}</li>)}
+                      </ul>
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="script-name">Name</Label>
+                    <Input
+                      id="script-name"
+                      value={draft.name}
+                      disabled={!isEditable}
+                      onChange={e => setDraft({ ...draft, name: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="script-description">Description</Label>
+                    <Input
+                      id="script-description"
+                      value={draft.description ?? ''}
+                      disabled={!isEditable}
+                      onChange={e => setDraft({ ...draft, description: e.target.value || null })}
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="script-purpose">Purpose (read by the voice assistant, no patient details)</Label>
+                  <Textarea
+                    id="script-purpose"
+                    rows={2}
+                    value={draft.purpose_context ?? ''}
+                    disabled={!isEditable}
+                    placeholder="e.g. The purpose of this call is to update the patient's hypertension review."
+                    onChange={e => setDraft({ ...draft, purpose_context: e.target.value || null })}
+                  />
+                </div>
+
+                <div className="space-y-3">
+                  <Label>Questions</Label>
+                  {draft.questions.map((question, index) => (
+                    <div key={index} className="rounded-md border p-4 space-y-3">
+                      <div className="flex items-center justify-between">
+                        <span className="text-sm font-medium">Question {index + 1}</span>
+                        {isEditable && (
+                          <div className="flex gap-1">
+                            <Button variant="ghost" size="icon" onClick={() => moveQuestion(index, -1)} disabled={index === 0}>
+                              <ArrowUp className="h-4 w-4" />
+                            </Button>
+                            <Button variant="ghost" size="icon" onClick={() => moveQuestion(index, 1)} disabled={index === draft.questions.length - 1}>
+                              <ArrowDown className="h-4 w-4" />
+                            </Button>
+                            <Button variant="ghost" size="icon" onClick={() => removeQuestion(index)}>
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        )}
+                      </div>
+                      <Input
+                        value={question.prompt}
+                        disabled={!isEditable}
+                        placeholder="What the assistant asks"
+                        onChange={e => updateQuestion(index, {
+                          prompt: e.target.value,
+                          // Derive the field name until the user sets one
+                          ...(question.key === '' || question.key === toQuestionKey(question.prompt) ? { key: toQuestionKey(e.target.value) } : {}),
+                        })}
+                      />
+                      <div className="grid grid-cols-3 gap-3">
+                        <div className="space-y-1">
+                          <Label className="text-xs">Field name</Label>
+                          <Input
+                            value={question.key}
+                            disabled={!isEditable}
+                            onChange={e => updateQuestion(index, { key: e.target.value })}
+                          />
+                        </div>
+                        <div className="space-y-1">
+                          <Label className="text-xs">Answer type</Label>
+                          <Select
+                            value={question.answer_type}
+                            disabled={!isEditable}
+                            onValueChange={value => updateQuestion(index, { answer_type: value as ScriptAnswerType })}
+                          >
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {ANSWER_TYPES.map(type => (
+                                <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <div className="space-y-1">
+                          <Label className="text-xs">Re-ask up to</Label>
+                          <Input
+                            type="number"
+                            min={0}
+                            max={5}
+                            value={question.max_reasks ?? 1}
+                            disabled={!isEditable}
+                            onChange={e => updateQuestion(index, { max_reasks: parseInt(e.target.value) || 0 })}
+                          />
+                        </div>
+                      </div>
+
+                      {question.answer_type === 'number_range' && (
+                        <div className="grid grid-cols-3 gap-3">
+                          <div className="space-y-1">
+                            <Label className="text-xs">Minimum</Label>
+                            <Input
+                              type="number"
+                              value={question.min ?? ''}
+                              disabled={!isEditable}
+                              onChange={e => updateQuestion(index, { min: parseNumber(e.target.value) })}
+                            />
+                          </div>
+                          <div className="space-y-1">
+                            <Label className="text-xs">Maximum</Label>
+                            <Input
+                              type="number"
+                              value={question.max ?? ''}
+                              disabled={!isEditable}
+                              onChange={e => updateQuestion(index, { max: parseNumber(e.target.value) })}
+                            />
+                          </div>
+                          <div className="space-y-1">
+                            <Label className="text-xs">Unit</Label>
+                            <Input
+                              value={question.unit ?? ''}
+                              disabled={!isEditable}
+                              placeholder="e.g. mmHg"
+                              onChange={e => updateQuestion(index, { unit: e.target.value || null })}
+                            />
+                          </div>
+                        </div>
+                      )}
+
+                      {question.answer_type === 'enum' && (
+                        <div className="space-y-1">
+                          <Label className="text-xs">Choices (comma separated)</Label>
+                          <Input
+                            value={(question.options || []).join(', ')}
+                            disabled={!isEditable}
+                            onChange={e => updateQuestion(index, { options: e.target.value.split(',').map(o => o.trim()) })}
+                          />
+                        </div>
+                      )}
+
+                      <div className="grid grid-cols-3 gap-3 items-end">
+                        <div className="col-span-2 space-y-1">
+                          <Label className="text-xs">Re-ask wording (optional)</Label>
+                          <Input
+                            value={question.reask_prompt ?? ''}
+                            disabled={!isEditable}
+                            placeholder="e.g. Sorry, could you tell me just the top number?"
+                            onChange={e => updateQuestion(index, { reask_prompt: e.target.value || null })}
+                          />
+                        </div>
+                        <div className="flex items-center gap-2 pb-2">
+                          <Switch
+                            checked={question.required !== false}
+                            disabled={!isEditable}
+                            onCheckedChange={checked => updateQuestion(index, { required: checked })}
+                          />
+                          <Label className="text-xs">Required</Label>
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+
+                  {isEditable && (
+                    <div className="flex flex-wrap gap-2">
+                      <Button variant="outline" size="sm" onClick={() => addQuestion(createEmptyQuestion())}>
+                        <Plus className="h-4 w-4 mr-2" />
+                        Custom Question
+                      </Button>
+                      {unusedStandardQuestions.length > 0 && (
+                        <Select value="" onValueChange={key => addQuestion(STANDARD_QUESTIONS.find(q => q.key === key)!)}>
+                          <SelectTrigger className="w-[240px] h-9">
+                            <SelectValue placeholder="Add standard question..." />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {unusedStandardQuestions.map(q => (
+                              <SelectItem key={q.key} value={q.key}>{q.key.replace(/_/g, ' ')}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                    </div>
+                  )}
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="script-closing">Closing statement</Label>
+                  <Textarea
+                    id="script-closing"
+                    rows={2}
+                    value={draft.closing_statement}
+                    disabled={!isEditable}
+                    onChange={e => setDraft({ ...draft, closing_statement: e.target.value })}
+                  />
+                </div>
+              </CardContent>
+            </>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
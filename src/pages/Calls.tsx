@@ -8,7 +8,7 @@ import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
-import { CheckCircle, XCircle, Clock, Phone, PhoneOff, Eye, Trash2 } from 'lucide-react';
+import { CheckCircle, XCircle, Clock, Phone, PhoneOff, Eye, Trash2, Siren } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 
 interface Call {
@@ -19,6 +19,7 @@ interface Call {
   ended_at: string | null;
   duration_seconds: number | null;
   transcript: string | null;
+  safeguarding_escalated: boolean;
   created_at: string;
   patients: {
     name: string;
@@ -42,6 +43,21 @@ interface CallResponse {
   collected_at: string;
 }
 
+interface CallRedFlag {
+  id: string;
+  category: string;
+  matched_text: string;
+  source: 'live' | 'post_call';
+  detected_at: string;
+}
+
+const RED_FLAG_LABELS: Record<string, string> = {
+  chest_pain: 'Chest pain',
+  stroke: 'Possible stroke',
+  breathing: 'Breathing difficulty',
+  suicidal: 'Suicidal thoughts or self-harm',
+};
+
 export default function Calls() {
   const [viewCallId, setViewCallId] = useState<string | null>(null);
   const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null);
@@ -62,6 +78,7 @@ export default function Calls() {
           ended_at,
           duration_seconds,
           transcript,
+          safeguarding_escalated,
           created_at,
           patients (name, phone_number),
           call_batches (name)
@@ -86,6 +103,20 @@ export default function Calls() {
     },
   });
 
+  const { data: redFlags } = useQuery({
+    queryKey: ['call-red-flags', viewCallId],
+    enabled: !!viewCallId,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('call_red_flags')
+        .select('id, category, matched_text, source, detected_at')
+        .eq('call_id', viewCallId)
+        .order('detected_at');
+      if (error) throw error;
+      return data as CallRedFlag[];
+    },
+  });
+
   const deleteCallMutation = useMutation({
     mutationFn: async (id: string) => {
       // First delete any associated call_responses
@@ -218,7 +249,17 @@ export default function Calls() {
                     <TableCell className="font-medium">{call.patients.name}</TableCell>
                     <TableCell>{call.patients.phone_number}</TableCell>
                     <TableCell>{call.call_batches?.name ?? '-'}</TableCell>
-                    <TableCell>{getStatusBadge(call.status)}</TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-1">
+                        {getStatusBadge(call.status)}
+                        {call.safeguarding_escalated && (
+                          <Badge variant="destructive" className="gap-1">
+                            <Siren className="h-3 w-3" />
+                            Red flag
+                          </Badge>
+                        )}
+                      </div>
+                    </TableCell>
                     <TableCell>{call.attempt_number}</TableCell>
                     <TableCell>{formatDuration(call.duration_seconds)}</TableCell>
                     <TableCell>
@@ -292,6 +333,32 @@ export default function Calls() {
                 </div>
               </div>
 
+              {/* Red flags raised during the call */}
+              {redFlags && redFlags.length > 0 && (
+                <div className="p-3 rounded-lg border border-destructive/30 bg-destructive/5 space-y-2">
+                  <h4 className="font-medium flex items-center gap-2 text-destructive">
+                    <Siren className="h-4 w-4" />
+                    Safeguarding escalated
+                  </h4>
+                  {redFlags.map((flag) => (
+                    <div key={flag.id} className="text-sm">
+                      <span className="font-medium">{RED_FLAG_LABELS[flag.category] ?? flag.category}</span>
+                      <span className="text-muted-foreground"> - "{flag.matched_text}", </span>
+                      <span className="text-muted-foreground">
+                        {flag.source === 'live'
+                          ? 'detected during the call, safety-net advice given'
+                          : 'found after the call ended, no safety-net advice given on the call'}
+                        {' at '}
+                        {new Date(flag.detected_at).toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' })}
+                      </span>
+                    </div>
+                  ))}
+                  <p className="text-xs text-muted-foreground">
+                    An urgent alert and MediTask task were raised for each red flag.
+                  </p>
+                </div>
+              )}
+
               {/* Health Data */}
               {callResponse && (
                 <div>
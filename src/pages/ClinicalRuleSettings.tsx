@@ -0,0 +1,426 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { useClinicalRuleSettings } from '@/hooks/useClinicalRuleSettings';
+import { useToast } from '@/hooks/use-toast';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Gauge, ListChecks, Loader2, Save, ShieldCheck, SlidersHorizontal, Undo2 } from 'lucide-react';
+import {
+  CLINICAL_RULES,
+  CLINICAL_RULES_VERSION,
+  DEFAULT_CLINICAL_THRESHOLDS,
+  ClinicalThresholds,
+} from '@/lib/clinical-analysis';
+import { NUMERIC_OBSERVATIONS, limitKey, type SignoffBound } from '@/lib/clinical-verification';
+
+type ThresholdKey = keyof ClinicalThresholds;
+
+// A type alias rather than an interface so the changes pass to the RPC as Json
+type SettingChange = {
+  type: 'threshold' | 'rule_enabled' | 'due_within_days' | 'dual_signoff';
+  key: string;
+  value: number | boolean | null;
+};
+
+const THRESHOLD_GROUPS: { title: string; fields: { key: ThresholdKey; label: string; unit: string }[] }[] = [
+  {
+    title: 'Hypertension',
+    fields: [
+      { key: 'bpTargetSystolic', label: 'Systolic target', unit: 'mmHg' },
+      { key: 'bpTargetSystolicElderly', label: 'Systolic target (elderly)', unit: 'mmHg' },
+      { key: 'bpTargetDiastolic', label: 'Diastolic target', unit: 'mmHg' },
+      { key: 'bpElderlyAge', label: 'Elderly target from age', unit: 'years' },
+      { key: 'bpSevereSystolic', label: 'Severe systolic', unit: 'mmHg' },
+      { key: 'bpSevereDiastolic', label: 'Severe diastolic', unit: 'mmHg' },
+      { key: 'bpPersistentReadings', label: 'Readings for persistent BP', unit: 'readings' },
+    ],
+  },
+  {
+    title: 'Diabetes',
+    fields: [
+      { key: 'hba1cTarget', label: 'HbA1c target', unit: 'mmol/mol' },
+      { key: 'hba1cTargetFrail', label: 'HbA1c target (frail)', unit: 'mmol/mol' },
+      { key: 'hba1cVeryHigh', label: 'HbA1c very high', unit: 'mmol/mol' },
+      { key: 'hba1cRetestMonths', label: 'HbA1c retest interval', unit: 'months' },
+      { key: 'statinAge', label: 'Statin from age', unit: 'years' },
+    ],
+  },
+  {
+    title: 'Cholesterol',
+    fields: [
+      { key: 'ldlTarget', label: 'LDL target', unit: 'mmol/L' },
+    ],
+  },
+  {
+    title: 'Atrial fibrillation',
+    fields: [
+      { key: 'cha2ds2VascAnticoagulation', label: 'CHA₂DS₂-VASc for anticoagulation', unit: 'score' },
+    ],
+  },
+  {
+    title: 'Lifestyle',
+    fields: [
+      { key: 'alcoholUnitsLimit', label: 'Alcohol limit', unit: 'units/week' },
+      { key: 'alcoholUnitsHigh', label: 'Alcohol high risk', unit: 'units/week' },
+      { key: 'bmiObese', label: 'BMI obese', unit: 'kg/m²' },
+      { key: 'bmiSevereObese', label: 'BMI severely obese', unit: 'kg/m²' },
+      { key: 'weightChangePercent', label: 'Weight change', unit: '%' },
+      { key: 'weightChangePercentHigh', label: 'Weight change (high)', unit: '%' },
+    ],
+  },
+  {
+    title: 'Medication and reviews',
+    fields: [
+      { key: 'polypharmacyCount', label: 'Polypharmacy', unit: 'medications' },
+      { key: 'fallsMedicationCount', label: 'Falls risk medications (65+)', unit: 'medications' },
+      { key: 'reviewIntervalMonths', label: 'Review interval', unit: 'months' },
+      { key: 'annualReviewMinConditions', label: 'Annual review from', unit: 'conditions' },
+    ],
+  },
+  {
+    title: 'Escalation',
+    fields: [
+      { key: 'criticalAlertAckMinutes', label: 'Critical alert acknowledgement', unit: 'minutes' },
+    ],
+  },
+];
+
+const toInputs = (values: Record<string, number> | undefined) =>
+  Object.fromEntries(Object.entries(values || {}).map(([key, value]) => [key, String(value)]));
+
+/** Blank means "use the default"; a value equal to the default is stored as no override */
+const parseOverride = (input: string | undefined, defaultValue: number): number | null | 'invalid' => {
+  if (!input || input.trim() === '') return null;
+  const value = Number(input);
+  if (!Number.isFinite(value) || value <= 0) return 'invalid';
+  return value === defaultValue ? null : value;
+};
+
+export default function ClinicalRuleSettings() {
+  const { row, isLoading } = useClinicalRuleSettings();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [thresholdInputs, setThresholdInputs] = useState<Record<string, string>>({});
+  const [dueInputs, setDueInputs] = useState<Record<string, string>>({});
+  const [disabledRules, setDisabledRules] = useState<Set<string>>(new Set());
+  const [limitInputs, setLimitInputs] = useState<Record<string, string>>({});
+  const [reason, setReason] = useState('');
+
+  useEffect(() => {
+    if (row) {
+      setThresholdInputs(toInputs(row.thresholds));
+      setDueInputs(toInputs(row.due_within_days));
+      setDisabledRules(new Set(row.disabled_rules));
+      setLimitInputs(toInputs(row.dual_signoff_limits));
+    }
+  }, [row]);
+
+  const buildChanges = (): SettingChange[] => {
+    const changes: SettingChange[] = [];
+
+    for (const [key, defaultValue] of Object.entries(DEFAULT_CLINICAL_THRESHOLDS)) {
+      const value = parseOverride(thresholdInputs[key], defaultValue);
+      if (value === 'invalid') throw new Error(`${key} must be a positive number`);
+      if ((row?.thresholds[key] ?? null) !== value) changes.push({ type: 'threshold', key, value });
+    }
+
+    for (const rule of CLINICAL_RULES) {
+      const enabled = !disabledRules.has(rule.id);
+      const wasEnabled = !(row?.disabled_rules || []).includes(rule.id);
+      if (enabled !== wasEnabled) {
+        changes.push({ type: 'rule_enabled', key: rule.id, value: enabled });
+      }
+
+      const value = parseOverride(dueInputs[rule.id], rule.dueWithinDays);
+      if (value === 'invalid' || (value !== null && !Number.isInteger(value))) {
+        throw new Error(`Due window for ${rule.code} must be a whole number of days`);
+      }
+      if ((row?.due_within_days[rule.id] ?? null) !== value) {
+        changes.push({ type: 'due_within_days', key: rule.id, value });
+      }
+    }
+
+    // Limits have no default: blank removes the limit
+    for (const observation of NUMERIC_OBSERVATIONS) {
+      for (const bound of ['high', 'low'] as SignoffBound[]) {
+        const key = limitKey(observation.key, bound);
+        const input = limitInputs[key]?.trim();
+        const value = input ? Number(input) : null;
+        if (value !== null && (!Number.isFinite(value) || value <= 0)) {
+          throw new Error(`Dual sign-off limit for ${observation.display} must be a positive number`);
+        }
+        if ((row?.dual_signoff_limits?.[key] ?? null) !== value) changes.push({ type: 'dual_signoff', key, value });
+      }
+    }
+
+    return changes;
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const changes = buildChanges();
+      if (changes.length === 0) throw new Error('No changes to save');
+      const { data, error } = await supabase.rpc('save_clinical_rule_settings', {
+        p_changes: changes,
+        p_reason: reason.trim() || undefined,
+      });
+      if (error) throw error;
+      return data as number;
+    },
+    onSuccess: (count) => {
+      queryClient.invalidateQueries({ queryKey: ['clinical-rule-settings'] });
+      queryClient.invalidateQueries({ queryKey: ['clinical-rule-setting-changes'] });
+      setReason('');
+      toast({ title: 'Clinical rules saved', description: `${count} setting${count === 1 ? '' : 's'} changed.` });
+    },
+    onError: (error: Error) => {
+      toast({ variant: 'destructive', title: 'Failed to save clinical rules', description: error.message });
+    },
+  });
+
+  const resetForm = () => {
+    setThresholdInputs(toInputs(row?.thresholds));
+    setDueInputs(toInputs(row?.due_within_days));
+    setDisabledRules(new Set(row?.disabled_rules || []));
+    setLimitInputs(toInputs(row?.dual_signoff_limits));
+    setReason('');
+  };
+
+  const toggleRule = (ruleId: string, enabled: boolean) => {
+    setDisabledRules(prev => {
+      const next = new Set(prev);
+      if (enabled) next.delete(ruleId);
+      else next.add(ruleId);
+      return next;
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[50vh]">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-8 space-y-6">
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground flex items-center gap-2">
+            <SlidersHorizontal className="h-7 w-7 text-primary" />
+            Clinical Rules
+          </h1>
+          <p className="text-muted-foreground mt-1">
+            Practice thresholds, rule toggles and due windows for clinical actions and alerts, and dual sign-off limits for verification
+          </p>
+        </div>
+        <div className="text-right text-sm text-muted-foreground">
+          <Badge variant="outline">Ruleset {CLINICAL_RULES_VERSION}</Badge>
+          {row?.updated_by && (
+            <p className="mt-1">Last changed {format(new Date(row.updated_at), 'PPp')}</p>
+          )}
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Gauge className="h-5 w-5" />
+            Thresholds
+          </CardTitle>
+          <CardDescription>
+            Leave a field blank to use the default shown. Changes apply to the next analysis run.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {THRESHOLD_GROUPS.map(group => (
+            <div key={group.title}>
+              <h3 className="text-sm font-semibold mb-3">{group.title}</h3>
+              <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+                {group.fields.map(field => {
+                  const overridden = (thresholdInputs[field.key] ?? '') !== '';
+                  return (
+                    <div key={field.key} className="space-y-1.5">
+                      <Label htmlFor={`threshold-${field.key}`} className="flex items-center gap-2">
+                        {field.label}
+                        {overridden && <Badge variant="secondary" className="text-xs">Practice value</Badge>}
+                      </Label>
+                      <div className="flex items-center gap-2">
+                        <Input
+                          id={`threshold-${field.key}`}
+                          type="number"
+                          min={0}
+                          step="any"
+                          placeholder={String(DEFAULT_CLINICAL_THRESHOLDS[field.key])}
+                          value={thresholdInputs[field.key] ?? ''}
+                          onChange={(e) => setThresholdInputs(prev => ({ ...prev, [field.key]: e.target.value }))}
+                        />
+                        <span className="text-xs text-muted-foreground w-24 shrink-0">{field.unit}</span>
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        Default {DEFAULT_CLINICAL_THRESHOLDS[field.key]}
+                      </p>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ListChecks className="h-5 w-5" />
+            Rules
+          </CardTitle>
+          <CardDescription>
+            Disabled rules raise no tasks or alerts. The due window sets when a task is due;
+            urgent findings (such as severe blood pressure) keep their urgent window.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Rule</TableHead>
+                <TableHead>Category</TableHead>
+                <TableHead className="w-40">Due within (days)</TableHead>
+                <TableHead className="w-24 text-right">Enabled</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {CLINICAL_RULES.map(rule => {
+                const enabled = !disabledRules.has(rule.id);
+                return (
+                  <TableRow key={rule.id} className={enabled ? undefined : 'opacity-60'}>
+                    <TableCell>
+                      <div className="font-medium">{rule.title}</div>
+                      <div className="text-xs text-muted-foreground font-mono">
+                        {rule.code} · {rule.id} v{rule.version}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{rule.category}</Badge>
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min={1}
+                        step={1}
+                        className="h-8"
+                        placeholder={String(rule.dueWithinDays)}
+                        value={dueInputs[rule.id] ?? ''}
+                        onChange={(e) => setDueInputs(prev => ({ ...prev, [rule.id]: e.target.value }))}
+                        disabled={!enabled}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Switch
+                        checked={enabled}
+                        onCheckedChange={(checked) => toggleRule(rule.id, checked)}
+                        aria-label={`Enable ${rule.title}`}
+                      />
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5" />
+            Dual sign-off
+          </CardTitle>
+          <CardDescription>
+            A call response with a value at or beyond these limits is held after the first sign-off until a
+            second clinician countersigns it, and is never bulk verified. Leave a field blank for no limit.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Observation</TableHead>
+                <TableHead className="w-40">At or above</TableHead>
+                <TableHead className="w-40">At or below</TableHead>
+                <TableHead className="w-28">Unit</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {NUMERIC_OBSERVATIONS.map(observation => (
+                <TableRow key={observation.key}>
+                  <TableCell className="font-medium">{observation.display}</TableCell>
+                  {(['high', 'low'] as SignoffBound[]).map(bound => {
+                    const key = limitKey(observation.key, bound);
+                    return (
+                      <TableCell key={bound}>
+                        <Input
+                          type="number"
+                          min={0}
+                          step="any"
+                          className="h-8"
+                          aria-label={`${observation.display} ${bound === 'high' ? 'at or above' : 'at or below'}`}
+                          value={limitInputs[key] ?? ''}
+                          onChange={(e) => setLimitInputs(prev => ({ ...prev, [key]: e.target.value }))}
+                        />
+                      </TableCell>
+                    );
+                  })}
+                  <TableCell className="text-xs text-muted-foreground">{observation.unit}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Save changes</CardTitle>
+          <CardDescription>
+            Every change is recorded with your name and the date, and is visible to the Caldicott Guardian.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-1.5">
+            <Label htmlFor="rule-change-reason">Reason for change</Label>
+            <Textarea
+              id="rule-change-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. Agreed at clinical governance meeting, 14 Oct"
+              rows={2}
+            />
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={resetForm} disabled={saveMutation.isPending}>
+              <Undo2 className="h-4 w-4 mr-2" />
+              Discard
+            </Button>
+            <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending}>
+              {saveMutation.isPending
+                ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                : <Save className="h-4 w-4 mr-2" />}
+              Save changes
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
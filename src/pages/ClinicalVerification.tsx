@@ -1,13 +1,61 @@
-import { useState } from "react";
+import { useState, useMemo } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { toast } from "sonner";
-import { CheckCircle2, XCircle, AlertTriangle, Clock, Activity, Heart, Scale, Ruler, Wine, Cigarette, User } from "lucide-react";
+import { CheckCircle2, XCircle, AlertTriangle, Clock, Activity, Heart, Scale, Ruler, Wine, Cigarette, User, UserCheck, ClipboardList, ListChecks, PencilLine, LucideIcon } from "lucide-react";
 import { format } from "date-fns";
+import { useAuth } from "@/hooks/useAuth";
+import { useClinicalRuleSettings } from "@/hooks/useClinicalRuleSettings";
+import { AmendValueDialog, type AmendTarget, type AmendableValue } from "@/components/verification/AmendValueDialog";
+import { VerifierWorkloadReport } from "@/components/verification/VerifierWorkloadReport";
+import {
+  describeCriticalValue,
+  findCriticalValues,
+  heldBackAmendableFields,
+  isLowRisk,
+  observationLabel,
+  observationUnit,
+  type CriticalValue,
+} from "@/lib/clinical-verification";
+
+interface FieldEvidence {
+  confidence: number;
+  quote: string | null;
+}
+
+interface PlausibilityFlag {
+  field: string;
+  value: number | string | null;
+  raw: string | null;
+  reason: string;
+  action: "reask" | "review";
+}
+
+interface Observation {
+  observation_key: string;
+  display_name: string;
+  value_numeric: number | null;
+  value_boolean: boolean | null;
+  value_text: string | null;
+  unit: string | null;
+}
+
+interface Amendment {
+  field: string;
+  // Null when the value was held back
+  original_value: number | null;
+  amended_value: number;
+  reason: string;
+  amended_by: string;
+  amended_at: string;
+}
 
 interface CallResponse {
   id: string;
@@ -21,20 +69,44 @@ interface CallResponse {
   smoking_status: string | null;
   alcohol_units_per_week: number | null;
   is_carer: boolean | null;
+  extraction_evidence: Record<string, FieldEvidence> | null;
+  min_confidence: number | null;
+  plausibility_flags: PlausibilityFlag[] | null;
+  needs_review: boolean;
   verification_status: string;
   verified_by: string | null;
   verified_at: string | null;
   clinical_notes: string | null;
+  first_signoff_by: string | null;
+  first_signoff_at: string | null;
+  critical_values: CriticalValue[] | null;
   collected_at: string;
   patients: {
     name: string;
     nhs_number: string | null;
     date_of_birth: string | null;
   };
+  patient_observations: Observation[];
+  call_response_amendments: Amendment[];
+}
+
+type VerificationFilter = "all" | "unverified" | "awaiting_second_signoff" | "verified" | "rejected";
+
+interface MetricItem {
+  key: string;
+  icon: LucideIcon;
+  iconColor: string;
+  value: string;
+  // Fields whose evidence backs this value, e.g. both blood pressure numbers
+  evidenceKeys: string[];
 }
 
+// Below this, a value is flagged and its response sorted to the top of the queue
+const LOW_CONFIDENCE = 0.5;
+
 const statusConfig = {
   unverified: { icon: Clock, label: "Pending Review", color: "bg-yellow-500/10 text-yellow-600 border-yellow-200" },
+  awaiting_second_signoff: { icon: UserCheck, label: "Awaiting 2nd Sign-off", color: "bg-orange-500/10 text-orange-600 border-orange-200" },
   verified: { icon: CheckCircle2, label: "Verified", color: "bg-green-500/10 text-green-600 border-green-200" },
   rejected: { icon: XCircle, label: "Rejected", color: "bg-red-500/10 text-red-600 border-red-200" },
 };
@@ -45,14 +117,160 @@ const smokingStatusLabels: Record<string, string> = {
   current_smoker: "Current Smoker",
 };
 
+// Keys shown from call_responses columns; other observations are listed by name
+const COLUMN_METRIC_KEYS = [
+  "blood_pressure_systolic",
+  "blood_pressure_diastolic",
+  "pulse_rate",
+  "weight_kg",
+  "height_cm",
+  "smoking_status",
+  "alcohol_units_per_week",
+];
+
+const filterLabels: Record<VerificationFilter, string> = {
+  unverified: "Unverified",
+  awaiting_second_signoff: "Second sign-off",
+  verified: "Verified",
+  rejected: "Rejected",
+  all: "All",
+};
+
+/** Numeric values on a response by observation key: columns, then recorded observations */
+const getNumericValues = (response: CallResponse): Record<string, number | null> => {
+  const values: Record<string, number | null> = {
+    blood_pressure_systolic: response.blood_pressure_systolic,
+    blood_pressure_diastolic: response.blood_pressure_diastolic,
+    pulse_rate: response.pulse_rate,
+    weight_kg: response.weight_kg,
+    height_cm: response.height_cm,
+    alcohol_units_per_week: response.alcohol_units_per_week,
+  };
+  (response.patient_observations || []).forEach(o => {
+    if (values[o.observation_key] == null && o.value_numeric !== null) values[o.observation_key] = Number(o.value_numeric);
+  });
+  return values;
+};
+
+const getMetricItems = (response: CallResponse): MetricItem[] => {
+  const items: MetricItem[] = [];
+  if (response.blood_pressure_systolic && response.blood_pressure_diastolic) {
+    items.push({
+      key: "blood_pressure",
+      icon: Heart,
+      iconColor: "text-red-500",
+      value: `${response.blood_pressure_systolic}/${response.blood_pressure_diastolic} mmHg`,
+      evidenceKeys: ["blood_pressure_systolic", "blood_pressure_diastolic"],
+    });
+  }
+  if (response.pulse_rate) {
+    items.push({ key: "pulse_rate", icon: Activity, iconColor: "text-pink-500", value: `${response.pulse_rate} bpm`, evidenceKeys: ["pulse_rate"] });
+  }
+  if (response.weight_kg) {
+    items.push({ key: "weight_kg", icon: Scale, iconColor: "text-blue-500", value: `${response.weight_kg} kg`, evidenceKeys: ["weight_kg"] });
+  }
+  if (response.height_cm) {
+    items.push({ key: "height_cm", icon: Ruler, iconColor: "text-green-500", value: `${response.height_cm} cm`, evidenceKeys: ["height_cm"] });
+  }
+  if (response.smoking_status) {
+    items.push({
+      key: "smoking_status",
+      icon: Cigarette,
+      iconColor: "text-orange-500",
+      value: smokingStatusLabels[response.smoking_status] || response.smoking_status,
+      evidenceKeys: ["smoking_status"],
+    });
+  }
+  if (response.alcohol_units_per_week !== null) {
+    items.push({
+      key: "alcohol_units_per_week",
+      icon: Wine,
+      iconColor: "text-purple-500",
+      value: `${response.alcohol_units_per_week} units/week`,
+      evidenceKeys: ["alcohol_units_per_week"],
+    });
+  }
+  if (response.is_carer !== null) {
+    items.push({ key: "is_carer", icon: User, iconColor: "text-teal-500", value: response.is_carer ? "Is a carer" : "Not a carer", evidenceKeys: ["is_carer"] });
+  }
+
+  (response.patient_observations || [])
+    .filter(o => !COLUMN_METRIC_KEYS.includes(o.observation_key))
+    .forEach(o => {
+      const value = o.value_numeric !== null
+        ? `${o.value_numeric}${o.unit ? ` ${o.unit}` : ""}`
+        : o.value_boolean !== null
+          ? (o.value_boolean ? "Yes" : "No")
+          : o.value_text;
+      items.push({
+        key: o.observation_key,
+        icon: ClipboardList,
+        iconColor: "text-slate-500",
+        value: `${o.display_name}: ${value}`,
+        evidenceKeys: [o.observation_key],
+      });
+    });
+
+  return items;
+};
+
+const isJsonObject = (value: Json): value is { [key: string]: Json | undefined } =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isFieldEvidence = (value: Json): value is Json & FieldEvidence =>
+  isJsonObject(value) && typeof value.confidence === "number";
+
+const isPlausibilityFlag = (value: Json): value is Json & PlausibilityFlag =>
+  isJsonObject(value) && typeof value.field === "string" && typeof value.reason === "string";
+
+const isCriticalValue = (value: Json): value is Json & CriticalValue =>
+  isJsonObject(value) && typeof value.field === "string" && (value.bound === "high" || value.bound === "low") &&
+  typeof value.value === "number" && typeof value.limit === "number";
+
+/** Per-field evidence from the extraction_evidence column, skipping malformed entries */
+const readEvidence = (value: Json): Record<string, FieldEvidence> | null =>
+  isJsonObject(value)
+    ? Object.fromEntries(Object.entries(value).filter((entry): entry is [string, Json & FieldEvidence] => isFieldEvidence(entry[1])))
+    : null;
+
+/** Combined evidence for a metric: its least confident field and every distinct quote */
+const getMetricEvidence = (response: CallResponse, item: MetricItem) => {
+  const entries = item.evidenceKeys
+    .map(key => response.extraction_evidence?.[key])
+    .filter((e): e is FieldEvidence => !!e);
+  if (entries.length === 0) return null;
+
+  return {
+    confidence: Math.min(...entries.map(e => e.confidence)),
+    quotes: [...new Set(entries.map(e => e.quote).filter((q): q is string => !!q))],
+  };
+};
+
+/** Numeric values behind a metric that a clinician can correct */
+const getAmendableValues = (item: MetricItem, values: Record<string, number | null>): AmendableValue[] =>
+  item.evidenceKeys
+    .filter(key => values[key] != null)
+    .map(key => ({ key, label: observationLabel(key), value: values[key]!, unit: observationUnit(key) }));
+
+const confidenceStyle = (confidence: number) =>
+  confidence >= 0.8
+    ? "bg-green-500/10 text-green-600 border-green-200"
+    : confidence >= LOW_CONFIDENCE
+      ? "bg-yellow-500/10 text-yellow-600 border-yellow-200"
+      : "bg-red-500/10 text-red-600 border-red-200";
+
 export default function ClinicalVerification() {
   const queryClient = useQueryClient();
   const [selectedResponse, setSelectedResponse] = useState<string | null>(null);
   const [clinicalNotes, setClinicalNotes] = useState("");
-  const [filter, setFilter] = useState<"all" | "unverified" | "verified" | "rejected">("unverified");
+  const [filter, setFilter] = useState<VerificationFilter>("unverified");
+  const [bulkSelection, setBulkSelection] = useState<Set<string>>(new Set());
+  const [amendTarget, setAmendTarget] = useState<AmendTarget | null>(null);
+  const { user } = useAuth();
+  const { row: ruleSettings } = useClinicalRuleSettings();
 
   // Fetch call responses with patient info
-  const { data: responses, isLoading } = useQuery({
+  const { data, isLoading } = useQuery({
     queryKey: ["call-responses-verification", filter],
     queryFn: async () => {
       let query = supabase
@@ -63,33 +281,92 @@ export default function ClinicalVerification() {
             name,
             nhs_number,
             date_of_birth
+          ),
+          patient_observations (
+            observation_key,
+            display_name,
+            value_numeric,
+            value_boolean,
+            value_text,
+            unit
+          ),
+          call_response_amendments (
+            field,
+            original_value,
+            amended_value,
+            reason,
+            amended_by,
+            amended_at
           )
-        `)
-        .order("collected_at", { ascending: false });
+        `);
 
       if (filter !== "all") {
         query = query.eq("verification_status", filter);
       }
 
+      // Review queue: held-back values first, then least confident extractions
+      if (filter === "unverified") {
+        query = query
+          .order("needs_review", { ascending: false })
+          .order("min_confidence", { ascending: true, nullsFirst: false });
+      }
+      query = query.order("collected_at", { ascending: false });
+
       const { data, error } = await query;
       if (error) throw error;
-      return data as CallResponse[];
+      const rows: CallResponse[] = data.map(row => ({
+        ...row,
+        extraction_evidence: readEvidence(row.extraction_evidence),
+        plausibility_flags: Array.isArray(row.plausibility_flags) ? row.plausibility_flags.filter(isPlausibilityFlag) : null,
+        critical_values: Array.isArray(row.critical_values) ? row.critical_values.filter(isCriticalValue) : null,
+      }));
+
+      // Names of first signers and amending clinicians
+      const userIds = [...new Set(rows.flatMap(r => [
+        r.first_signoff_by,
+        ...(r.call_response_amendments || []).map(a => a.amended_by),
+      ]).filter((id): id is string => !!id))];
+      const { data: profiles } = userIds.length > 0
+        ? await supabase.from("profiles").select("user_id, full_name").in("user_id", userIds)
+        : { data: [] };
+
+      return { rows, names: new Map((profiles || []).map(p => [p.user_id, p.full_name])) };
     },
   });
 
+  const responses = data?.rows;
+  const clinicianName = (userId: string | null) => (userId && data?.names.get(userId)) || "another clinician";
+
+  // Critical values as the database will find them; held responses keep those found at first sign-off
+  const assessed = useMemo(() => new Map((responses || []).map(response => {
+    const critical = response.verification_status === "awaiting_second_signoff"
+      ? response.critical_values || []
+      : findCriticalValues(getNumericValues(response), ruleSettings?.dual_signoff_limits || {});
+    return [response.id, { critical, lowRisk: isLowRisk(response, critical) }];
+  })), [responses, ruleSettings]);
+
+  const lowRiskIds = (responses || []).filter(r => assessed.get(r.id)?.lowRisk).map(r => r.id);
+
   // Verify mutation
   const verifyMutation = useMutation({
     mutationFn: async ({ responseId, notes }: { responseId: string; notes: string }) => {
-      const { error } = await supabase.rpc("verify_call_response", {
+      const { data, error } = await supabase.rpc("verify_call_response", {
         p_response_id: responseId,
         p_verified_by: (await supabase.auth.getUser()).data.user?.id,
         p_clinical_notes: notes || null,
       });
       if (error) throw error;
+      return data;
     },
-    onSuccess: () => {
+    onSuccess: (status) => {
       queryClient.invalidateQueries({ queryKey: ["call-responses-verification"] });
-      toast.success("Metrics verified and approved for patient record");
+      queryClient.invalidateQueries({ queryKey: ["unverified-count"] });
+      queryClient.invalidateQueries({ queryKey: ["verifier-workload"] });
+      if (status === "awaiting_second_signoff") {
+        toast.success("First sign-off recorded - critical values need a second clinician to countersign");
+      } else {
+        toast.success("Metrics verified and approved for patient record");
+      }
       setSelectedResponse(null);
       setClinicalNotes("");
     },
@@ -110,6 +387,8 @@ export default function ClinicalVerification() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["call-responses-verification"] });
+      queryClient.invalidateQueries({ queryKey: ["unverified-count"] });
+      queryClient.invalidateQueries({ queryKey: ["verifier-workload"] });
       toast.success("Metrics rejected - will not be added to patient record");
       setSelectedResponse(null);
       setClinicalNotes("");
@@ -119,6 +398,37 @@ export default function ClinicalVerification() {
     },
   });
 
+  // Bulk verify mutation: the database re-checks each response and skips any that are not low risk
+  const bulkVerifyMutation = useMutation({
+    mutationFn: async (responseIds: string[]) => {
+      const { data, error } = await supabase.rpc("bulk_verify_call_responses", {
+        p_response_ids: responseIds,
+      });
+      if (error) throw error;
+      return { verified: data, requested: responseIds.length };
+    },
+    onSuccess: ({ verified, requested }) => {
+      queryClient.invalidateQueries({ queryKey: ["call-responses-verification"] });
+      queryClient.invalidateQueries({ queryKey: ["unverified-count"] });
+      queryClient.invalidateQueries({ queryKey: ["verifier-workload"] });
+      toast.success(`${verified} low-risk responses verified`
+        + (verified < requested ? ` - ${requested - verified} skipped as no longer low risk` : ""));
+      setBulkSelection(new Set());
+    },
+    onError: (error) => {
+      toast.error("Failed to bulk verify: " + error.message);
+    },
+  });
+
+  const toggleBulk = (responseId: string, selected: boolean) => {
+    setBulkSelection(prev => {
+      const next = new Set(prev);
+      if (selected) next.add(responseId);
+      else next.delete(responseId);
+      return next;
+    });
+  };
+
   const handleVerify = (responseId: string) => {
     verifyMutation.mutate({ responseId, notes: clinicalNotes });
   };
@@ -131,19 +441,8 @@ export default function ClinicalVerification() {
     rejectMutation.mutate({ responseId, reason: clinicalNotes });
   };
 
-  const getMetricsCount = (response: CallResponse) => {
-    let count = 0;
-    if (response.blood_pressure_systolic) count++;
-    if (response.weight_kg) count++;
-    if (response.height_cm) count++;
-    if (response.pulse_rate) count++;
-    if (response.smoking_status) count++;
-    if (response.alcohol_units_per_week !== null) count++;
-    if (response.is_carer !== null) count++;
-    return count;
-  };
-
-  const unverifiedCount = responses?.filter(r => r.verification_status === "unverified").length || 0;
+  const unverifiedCount = responses?.filter(r => r.verification_status === "unverified" || r.verification_status === "awaiting_second_signoff").length || 0;
+  const selectedLowRisk = lowRiskIds.filter(id => bulkSelection.has(id));
 
   return (
     <div className="space-y-6">
@@ -179,180 +478,318 @@ export default function ClinicalVerification() {
         </CardContent>
       </Card>
 
-      {/* Filter Tabs */}
-      <div className="flex gap-2">
-        {(["unverified", "verified", "rejected", "all"] as const).map((status) => (
-          <Button
-            key={status}
-            variant={filter === status ? "default" : "outline"}
-            size="sm"
-            onClick={() => setFilter(status)}
-            className="capitalize"
-          >
-            {status === "unverified" && <Clock className="h-4 w-4 mr-2" />}
-            {status === "verified" && <CheckCircle2 className="h-4 w-4 mr-2" />}
-            {status === "rejected" && <XCircle className="h-4 w-4 mr-2" />}
-            {status}
-          </Button>
-        ))}
-      </div>
+      <Tabs defaultValue="queue" className="space-y-6">
+        <TabsList>
+          <TabsTrigger value="queue">Review Queue</TabsTrigger>
+          <TabsTrigger value="workload">Verifier Workload</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="workload">
+          <VerifierWorkloadReport />
+        </TabsContent>
 
-      {/* Responses Grid */}
-      {isLoading ? (
-        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-          {[1, 2, 3].map((i) => (
-            <Card key={i} className="animate-pulse">
-              <CardHeader className="pb-3">
-                <div className="h-5 bg-muted rounded w-3/4" />
-                <div className="h-4 bg-muted rounded w-1/2 mt-2" />
-              </CardHeader>
-              <CardContent>
-                <div className="space-y-2">
-                  <div className="h-4 bg-muted rounded" />
-                  <div className="h-4 bg-muted rounded w-2/3" />
-                </div>
+        <TabsContent value="queue" className="space-y-6">
+          {/* Filter Tabs */}
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex gap-2">
+              {(["unverified", "awaiting_second_signoff", "verified", "rejected", "all"] as const).map((status) => (
+                <Button
+                  key={status}
+                  variant={filter === status ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => {
+                    setFilter(status);
+                    setBulkSelection(new Set());
+                  }}
+                >
+                  {status === "unverified" && <Clock className="h-4 w-4 mr-2" />}
+                  {status === "awaiting_second_signoff" && <UserCheck className="h-4 w-4 mr-2" />}
+                  {status === "verified" && <CheckCircle2 className="h-4 w-4 mr-2" />}
+                  {status === "rejected" && <XCircle className="h-4 w-4 mr-2" />}
+                  {filterLabels[status]}
+                </Button>
+              ))}
+            </div>
+
+            {/* Bulk verification of low-risk responses */}
+            {lowRiskIds.length > 0 && (
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setBulkSelection(selectedLowRisk.length === lowRiskIds.length ? new Set() : new Set(lowRiskIds))}
+                >
+                  <ListChecks className="h-4 w-4 mr-2" />
+                  {selectedLowRisk.length === lowRiskIds.length ? "Clear selection" : `Select low-risk (${lowRiskIds.length})`}
+                </Button>
+                <Button
+                  size="sm"
+                  onClick={() => bulkVerifyMutation.mutate(selectedLowRisk)}
+                  disabled={selectedLowRisk.length === 0 || bulkVerifyMutation.isPending}
+                >
+                  <CheckCircle2 className="h-4 w-4 mr-2" />
+                  Verify selected ({selectedLowRisk.length})
+                </Button>
+              </div>
+            )}
+          </div>
+
+          {/* Responses Grid */}
+          {isLoading ? (
+            <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+              {[1, 2, 3].map((i) => (
+                <Card key={i} className="animate-pulse">
+                  <CardHeader className="pb-3">
+                    <div className="h-5 bg-muted rounded w-3/4" />
+                    <div className="h-4 bg-muted rounded w-1/2 mt-2" />
+                  </CardHeader>
+                  <CardContent>
+                    <div className="space-y-2">
+                      <div className="h-4 bg-muted rounded" />
+                      <div className="h-4 bg-muted rounded w-2/3" />
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          ) : responses?.length === 0 ? (
+            <Card>
+              <CardContent className="flex flex-col items-center justify-center py-12">
+                <CheckCircle2 className="h-12 w-12 text-green-500 mb-4" />
+                <p className="text-lg font-medium">All caught up!</p>
+                <p className="text-muted-foreground">No {filter === "all" ? "" : filterLabels[filter].toLowerCase()} metrics to review</p>
               </CardContent>
             </Card>
-          ))}
-        </div>
-      ) : responses?.length === 0 ? (
-        <Card>
-          <CardContent className="flex flex-col items-center justify-center py-12">
-            <CheckCircle2 className="h-12 w-12 text-green-500 mb-4" />
-            <p className="text-lg font-medium">All caught up!</p>
-            <p className="text-muted-foreground">No {filter === "all" ? "" : filter} metrics to review</p>
-          </CardContent>
-        </Card>
-      ) : (
-        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-          {responses?.map((response) => {
-            const status = statusConfig[response.verification_status as keyof typeof statusConfig] || statusConfig.unverified;
-            const StatusIcon = status.icon;
-            const isSelected = selectedResponse === response.id;
-
-            return (
-              <Card 
-                key={response.id} 
-                className={`cursor-pointer transition-all ${isSelected ? "ring-2 ring-primary" : "hover:shadow-md"}`}
-                onClick={() => {
-                  setSelectedResponse(isSelected ? null : response.id);
-                  setClinicalNotes(response.clinical_notes || "");
-                }}
-              >
-                <CardHeader className="pb-3">
-                  <div className="flex items-center justify-between">
-                    <CardTitle className="text-lg">{response.patients?.name || "Unknown Patient"}</CardTitle>
-                    <Badge variant="outline" className={status.color}>
-                      <StatusIcon className="h-3 w-3 mr-1" />
-                      {status.label}
-                    </Badge>
-                  </div>
-                  <CardDescription>
-                    {response.patients?.nhs_number && `NHS: ${response.patients.nhs_number} • `}
-                    Collected {format(new Date(response.collected_at), "dd MMM yyyy HH:mm")}
-                  </CardDescription>
-                </CardHeader>
-                <CardContent className="space-y-4">
-                  {/* Metrics Summary */}
-                  <div className="grid grid-cols-2 gap-3">
-                    {response.blood_pressure_systolic && response.blood_pressure_diastolic && (
-                      <div className="flex items-center gap-2 text-sm">
-                        <Heart className="h-4 w-4 text-red-500" />
-                        <span>{response.blood_pressure_systolic}/{response.blood_pressure_diastolic} mmHg</span>
-                      </div>
-                    )}
-                    {response.pulse_rate && (
-                      <div className="flex items-center gap-2 text-sm">
-                        <Activity className="h-4 w-4 text-pink-500" />
-                        <span>{response.pulse_rate} bpm</span>
-                      </div>
-                    )}
-                    {response.weight_kg && (
-                      <div className="flex items-center gap-2 text-sm">
-                        <Scale className="h-4 w-4 text-blue-500" />
-                        <span>{response.weight_kg} kg</span>
-                      </div>
-                    )}
-                    {response.height_cm && (
-                      <div className="flex items-center gap-2 text-sm">
-                        <Ruler className="h-4 w-4 text-green-500" />
-                        <span>{response.height_cm} cm</span>
-                      </div>
-                    )}
-                    {response.smoking_status && (
-                      <div className="flex items-center gap-2 text-sm">
-                        <Cigarette className="h-4 w-4 text-orange-500" />
-                        <span>{smokingStatusLabels[response.smoking_status] || response.smoking_status}</span>
-                      </div>
-                    )}
-                    {response.alcohol_units_per_week !== null && (
-                      <div className="flex items-center gap-2 text-sm">
-                        <Wine className="h-4 w-4 text-purple-500" />
-                        <span>{response.alcohol_units_per_week} units/week</span>
-                      </div>
-                    )}
-                    {response.is_carer !== null && (
-                      <div className="flex items-center gap-2 text-sm">
-                        <User className="h-4 w-4 text-teal-500" />
-                        <span>{response.is_carer ? "Is a carer" : "Not a carer"}</span>
+          ) : (
+            <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+              {responses?.map((response) => {
+                const status = statusConfig[response.verification_status as keyof typeof statusConfig] || statusConfig.unverified;
+                const StatusIcon = status.icon;
+                const isSelected = selectedResponse === response.id;
+                const metricItems = getMetricItems(response);
+                const lowConfidence = response.min_confidence !== null && response.min_confidence < LOW_CONFIDENCE;
+                const { critical, lowRisk } = assessed.get(response.id) ?? { critical: [], lowRisk: false };
+                const numericValues = getNumericValues(response);
+                const pending = response.verification_status === "unverified" || response.verification_status === "awaiting_second_signoff";
+                const awaitingSecond = response.verification_status === "awaiting_second_signoff";
+                const ownFirstSignoff = awaitingSecond && response.first_signoff_by === user?.id;
+                const heldBackFields = heldBackAmendableFields(response.plausibility_flags, numericValues);
+
+                return (
+                  <Card 
+                    key={response.id} 
+                    className={`cursor-pointer transition-all ${isSelected ? "ring-2 ring-primary" : "hover:shadow-md"}`}
+                    onClick={() => {
+                      setSelectedResponse(isSelected ? null : response.id);
+                      setClinicalNotes(response.clinical_notes || "");
+                    }}
+                  >
+                    <CardHeader className="pb-3">
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center gap-2">
+                          {lowRisk && filter === "unverified" && (
+                            <Checkbox
+                              checked={bulkSelection.has(response.id)}
+                              onCheckedChange={(checked) => toggleBulk(response.id, checked === true)}
+                              onClick={(e) => e.stopPropagation()}
+                              aria-label="Select for bulk verification"
+                            />
+                          )}
+                          <CardTitle className="text-lg">{response.patients?.name || "Unknown Patient"}</CardTitle>
+                        </div>
+                        <div className="flex items-center gap-1">
+                          {critical.length > 0 && pending && (
+                            <Badge variant="outline" className="bg-orange-500/10 text-orange-600 border-orange-200">
+                              <UserCheck className="h-3 w-3 mr-1" />
+                              Dual sign-off
+                            </Badge>
+                          )}
+                          {lowConfidence && (
+                            <Badge variant="outline" className={confidenceStyle(response.min_confidence!)}>
+                              <AlertTriangle className="h-3 w-3 mr-1" />
+                              Low confidence
+                            </Badge>
+                          )}
+                          <Badge variant="outline" className={status.color}>
+                            <StatusIcon className="h-3 w-3 mr-1" />
+                            {status.label}
+                          </Badge>
+                        </div>
                       </div>
-                    )}
-                  </div>
-
-                  <p className="text-xs text-muted-foreground">
-                    {getMetricsCount(response)} metrics extracted by AI
-                  </p>
-
-                  {/* Expanded Actions */}
-                  {isSelected && response.verification_status === "unverified" && (
-                    <div className="space-y-3 pt-3 border-t" onClick={(e) => e.stopPropagation()}>
-                      <Textarea
-                        placeholder="Add clinical notes or reason for rejection..."
-                        value={clinicalNotes}
-                        onChange={(e) => setClinicalNotes(e.target.value)}
-                        className="min-h-[80px]"
-                      />
-                      <div className="flex gap-2">
-                        <Button
-                          className="flex-1"
-                          onClick={() => handleVerify(response.id)}
-                          disabled={verifyMutation.isPending}
-                        >
-                          <CheckCircle2 className="h-4 w-4 mr-2" />
-                          Verify & Approve
-                        </Button>
-                        <Button
-                          variant="destructive"
-                          className="flex-1"
-                          onClick={() => handleReject(response.id)}
-                          disabled={rejectMutation.isPending}
-                        >
-                          <XCircle className="h-4 w-4 mr-2" />
-                          Reject
-                        </Button>
+                      <CardDescription>
+                        {response.patients?.nhs_number && `NHS: ${response.patients.nhs_number} • `}
+                        Collected {format(new Date(response.collected_at), "dd MMM yyyy HH:mm")}
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                      {/* Metrics with confidence and the transcript excerpt each came from */}
+                      <div className="space-y-3">
+                        {metricItems.map((item) => {
+                          const MetricIcon = item.icon;
+                          const evidence = getMetricEvidence(response, item);
+                          const amendable = getAmendableValues(item, numericValues);
+                          // Oldest first, so the first amendment of a field holds the extracted value
+                          const amendments = (response.call_response_amendments || [])
+                            .filter(a => item.evidenceKeys.includes(a.field))
+                            .sort((a, b) => a.amended_at.localeCompare(b.amended_at));
+                          return (
+                            <div key={item.key} className="space-y-1">
+                              <div className="flex items-center justify-between gap-2 text-sm">
+                                <div className="flex items-center gap-2">
+                                  <MetricIcon className={`h-4 w-4 ${item.iconColor}`} />
+                                  <span>{item.value}</span>
+                                  {isSelected && pending && amendable.length > 0 && (
+                                    <Button
+                                      variant="ghost"
+                                      size="icon"
+                                      className="h-6 w-6"
+                                      title="Amend value"
+                                      onClick={(e) => {
+                                        e.stopPropagation();
+                                        setAmendTarget({ responseId: response.id, values: amendable, awaitingSecondSignoff: awaitingSecond });
+                                      }}
+                                    >
+                                      <PencilLine className="h-3.5 w-3.5" />
+                                    </Button>
+                                  )}
+                                </div>
+                                {evidence && (
+                                  <Badge variant="outline" className={`text-xs ${confidenceStyle(evidence.confidence)}`}>
+                                    {Math.round(evidence.confidence * 100)}%
+                                  </Badge>
+                                )}
+                              </div>
+                              {amendments.map((amendment) => (
+                                <p key={`${amendment.field}-${amendment.amended_at}`} className="ml-6 text-xs text-blue-700">
+                                  {observationLabel(amendment.field)} amended {amendment.original_value ?? "held back"} → {amendment.amended_value} by{" "}
+                                  {clinicianName(amendment.amended_by)}: {amendment.reason}
+                                </p>
+                              ))}
+                              {evidence?.quotes.map((quote) => (
+                                <p key={quote} className="ml-6 text-xs text-muted-foreground">
+                                  <mark className="bg-yellow-100 text-foreground rounded px-1">"{quote}"</mark>
+                                </p>
+                              ))}
+                              {evidence && evidence.quotes.length === 0 && (
+                                <p className="ml-6 text-xs text-red-600">No supporting quote found in transcript</p>
+                              )}
+                            </div>
+                          );
+                        })}
                       </div>
-                    </div>
-                  )}
-
-                  {/* Show notes for verified/rejected */}
-                  {response.clinical_notes && response.verification_status !== "unverified" && (
-                    <div className="pt-3 border-t">
-                      <p className="text-xs font-medium text-muted-foreground mb-1">Clinical Notes:</p>
-                      <p className="text-sm">{response.clinical_notes}</p>
-                      {response.verified_at && (
-                        <p className="text-xs text-muted-foreground mt-2">
-                          {response.verification_status === "verified" ? "Verified" : "Rejected"} on{" "}
-                          {format(new Date(response.verified_at), "dd MMM yyyy HH:mm")}
-                        </p>
+
+                      {/* Values not saved because they failed plausibility checks */}
+                      {response.plausibility_flags && response.plausibility_flags.length > 0 && (
+                        <div className="space-y-1 rounded-md border border-red-200 bg-red-500/5 p-2">
+                          <p className="text-xs font-medium text-red-600">Values held back</p>
+                          {response.plausibility_flags.map((flag, index) => (
+                            <div key={`${flag.field}-${index}`} className="flex items-start justify-between gap-2 text-xs">
+                              <span>
+                                <span className="font-medium">{flag.field.replace(/_/g, " ")}:</span> {flag.reason}
+                                {flag.raw && <span className="text-muted-foreground"> (said "{flag.raw}")</span>}
+                              </span>
+                              <div className="flex items-center gap-1 shrink-0">
+                                {isSelected && pending && heldBackFields.includes(flag.field) && (
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    className="h-6 w-6"
+                                    title="Record the correct value"
+                                    onClick={(e) => {
+                                      e.stopPropagation();
+                                      setAmendTarget({
+                                        responseId: response.id,
+                                        values: [{ key: flag.field, label: observationLabel(flag.field), value: null, unit: observationUnit(flag.field) }],
+                                        awaitingSecondSignoff: awaitingSecond,
+                                      });
+                                    }}
+                                  >
+                                    <PencilLine className="h-3.5 w-3.5" />
+                                  </Button>
+                                )}
+                                <Badge variant="outline" className="text-xs">
+                                  {flag.action === "reask" ? "Re-ask patient" : "Clinical review"}
+                                </Badge>
+                              </div>
+                            </div>
+                          ))}
+                        </div>
                       )}
-                    </div>
-                  )}
-                </CardContent>
-              </Card>
-            );
-          })}
-        </div>
-      )}
+
+                      {/* Values needing a second clinician before the response is verified */}
+                      {critical.length > 0 && pending && (
+                        <div className="space-y-1 rounded-md border border-orange-200 bg-orange-500/5 p-2">
+                          <p className="text-xs font-medium text-orange-600">
+                            {awaitingSecond
+                              ? `First signed off by ${clinicianName(response.first_signoff_by)}${response.first_signoff_at ? ` on ${format(new Date(response.first_signoff_at), "dd MMM yyyy HH:mm")}` : ""}`
+                              : "Critical values need two clinicians to sign off"}
+                          </p>
+                          {critical.map((value) => (
+                            <p key={`${value.field}-${value.bound}`} className="text-xs">{describeCriticalValue(value)}</p>
+                          ))}
+                        </div>
+                      )}
+
+                      <p className="text-xs text-muted-foreground">
+                        {metricItems.length} metrics extracted by AI
+                        {lowRisk && " • Low risk"}
+                      </p>
+
+                      {/* Expanded Actions */}
+                      {isSelected && pending && (
+                        <div className="space-y-3 pt-3 border-t" onClick={(e) => e.stopPropagation()}>
+                          <Textarea
+                            placeholder="Add clinical notes or reason for rejection..."
+                            value={clinicalNotes}
+                            onChange={(e) => setClinicalNotes(e.target.value)}
+                            className="min-h-[80px]"
+                          />
+                          <div className="flex gap-2">
+                            <Button
+                              className="flex-1"
+                              onClick={() => handleVerify(response.id)}
+                              disabled={verifyMutation.isPending || ownFirstSignoff}
+                              title={ownFirstSignoff ? "A second clinician must countersign" : undefined}
+                            >
+                              <CheckCircle2 className="h-4 w-4 mr-2" />
+                              {awaitingSecond ? "Countersign & Approve" : critical.length > 0 ? "First Sign-off" : "Verify & Approve"}
+                            </Button>
+                            <Button
+                              variant="destructive"
+                              className="flex-1"
+                              onClick={() => handleReject(response.id)}
+                              disabled={rejectMutation.isPending}
+                            >
+                              <XCircle className="h-4 w-4 mr-2" />
+                              Reject
+                            </Button>
+                          </div>
+                        </div>
+                      )}
+
+                      {/* Show notes for verified/rejected */}
+                      {response.clinical_notes && !pending && (
+                        <div className="pt-3 border-t">
+                          <p className="text-xs font-medium text-muted-foreground mb-1">Clinical Notes:</p>
+                          <p className="text-sm">{response.clinical_notes}</p>
+                          {response.verified_at && (
+                            <p className="text-xs text-muted-foreground mt-2">
+                              {response.verification_status === "verified" ? "Verified" : "Rejected"} on{" "}
+                              {format(new Date(response.verified_at), "dd MMM yyyy HH:mm")}
+                            </p>
+                          )}
+                        </div>
+                      )}
+                    </CardContent>
+                  </Card>
+                );
+              })}
+            </div>
+          )}
+        </TabsContent>
+      </Tabs>
+
+      <AmendValueDialog target={amendTarget} onOpenChange={(open) => !open && setAmendTarget(null)} />
     </div>
   );
 }
@@ -0,0 +1,149 @@
+import { useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Calendar, Filter, Pencil, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { describeCohort, matchesCohort } from '@/lib/patient-cohorts';
+import { useCohortRegister, useDeleteCohort, usePatientCohorts, type PatientCohort } from '@/hooks/usePatientCohorts';
+import { CohortFormDialog } from '@/components/cohorts/CohortFormDialog';
+
+export default function Cohorts() {
+  const navigate = useNavigate();
+  const [formOpen, setFormOpen] = useState(false);
+  // Remounts the form so each opening starts from the cohort's saved criteria
+  const [formKey, setFormKey] = useState(0);
+  const [editingCohort, setEditingCohort] = useState<PatientCohort | null>(null);
+  const [deletingCohort, setDeletingCohort] = useState<PatientCohort | null>(null);
+
+  const { data: cohorts, isLoading } = usePatientCohorts();
+  const { data: register } = useCohortRegister();
+  const deleteCohort = useDeleteCohort();
+
+  const matchingCounts = useMemo(() => {
+    if (!register || !cohorts) return null;
+    const now = new Date();
+    return new Map(
+      cohorts.map(cohort => [
+        cohort.id,
+        register.patients.filter(p => matchesCohort(p, cohort.criteria, now, register.activity.get(p.id))).length,
+      ])
+    );
+  }, [register, cohorts]);
+
+  const openForm = (cohort: PatientCohort | null) => {
+    setEditingCohort(cohort);
+    setFormKey(key => key + 1);
+    setFormOpen(true);
+  };
+
+  return (
+    <div className="p-8">
+      <div className="mb-8 flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Patient Cohorts</h1>
+          <p className="text-muted-foreground mt-1">Saved searches of the clinical register for building batches and programmes</p>
+        </div>
+        <Button onClick={() => openForm(null)}>
+          <Plus className="h-4 w-4 mr-2" />
+          New Cohort
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Filter className="h-5 w-5" />
+            Cohorts
+          </CardTitle>
+          <CardDescription>
+            Cohorts are re-run against the register every time they are used, so patient counts change as records do.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Criteria</TableHead>
+                <TableHead>Patients</TableHead>
+                <TableHead>Updated</TableHead>
+                <TableHead className="w-40" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {cohorts?.map(cohort => (
+                <TableRow key={cohort.id}>
+                  <TableCell>
+                    <p className="font-medium">{cohort.name}</p>
+                    {cohort.description && <p className="text-xs text-muted-foreground">{cohort.description}</p>}
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground max-w-[320px]">{describeCohort(cohort.criteria)}</TableCell>
+                  <TableCell>{matchingCounts?.get(cohort.id) ?? '...'}</TableCell>
+                  <TableCell>{new Date(cohort.updated_at).toLocaleDateString('en-GB')}</TableCell>
+                  <TableCell>
+                    <div className="flex gap-1">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => navigate(`/batches?cohort=${cohort.id}`)}
+                        disabled={matchingCounts?.get(cohort.id) === 0}
+                        title="Create batch"
+                      >
+                        <Calendar className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => openForm(cohort)} title="Edit">
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setDeletingCohort(cohort)} title="Delete">
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {!isLoading && cohorts?.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground py-8">
+                    No cohorts yet. Save one to build batches from the register in one step.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <CohortFormDialog
+        key={formKey}
+        open={formOpen}
+        onOpenChange={setFormOpen}
+        cohort={editingCohort}
+      />
+
+      <AlertDialog open={!!deletingCohort} onOpenChange={(open) => !open && setDeletingCohort(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this cohort?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Batches already created from it are not affected. Cohorts used by a call programme cannot be deleted.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (deletingCohort) deleteCohort.mutate(deletingCohort);
+                setDeletingCohort(null);
+              }}
+            >
+              Delete Cohort
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -1,49 +1,201 @@
-import { useState } from 'react';
-import { ExternalLink, Loader2 } from 'lucide-react';
+import { useMemo, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Columns3, List, Loader2, Plus, Search } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  TASK_PRIORITIES,
+  TASK_STATUSES,
+  isTaskOverdue,
+  useMediTasks,
+  useStaffProfiles,
+  useUpdateTask,
+  type MediTask as MediTaskRow,
+  type TaskStatus,
+} from '@/hooks/useMediTasks';
+import { TaskBoard } from '@/components/meditask/TaskBoard';
+import { TaskList } from '@/components/meditask/TaskList';
+import { TaskDetailDialog } from '@/components/meditask/TaskDetailDialog';
+import { TaskFormDialog } from '@/components/meditask/TaskFormDialog';
+
+const ALL = 'all';
 
 export default function MediTask() {
-  const [isLoading, setIsLoading] = useState(true);
+  const { user } = useAuth();
+  // Filters live in the URL so the dashboard widget can link straight to a filtered view
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [search, setSearch] = useState('');
+  const [view, setView] = useState<'board' | 'list'>(searchParams.get('status') ? 'list' : 'board');
+  const [selectedTask, setSelectedTask] = useState<MediTaskRow | null>(null);
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+
+  const { data: tasks = [], isLoading } = useMediTasks();
+  const { data: staff = [] } = useStaffProfiles();
+  const updateTask = useUpdateTask();
+
+  const statusFilter = searchParams.get('status') ?? ALL;
+  const priorityFilter = searchParams.get('priority') ?? ALL;
+  const assigneeFilter = searchParams.get('assignee') ?? ALL;
+
+  const setFilter = (key: string, value: string) => {
+    const next = new URLSearchParams(searchParams);
+    if (value === ALL) next.delete(key);
+    else next.set(key, value);
+    setSearchParams(next, { replace: true });
+  };
+
+  const names = useMemo(() => new Map(staff.map(s => [s.user_id, s.full_name])), [staff]);
+
+  const filteredTasks = tasks.filter(task => {
+    if (statusFilter !== ALL && task.status !== statusFilter) return false;
+    if (priorityFilter !== ALL && task.priority !== priorityFilter) return false;
+    if (assigneeFilter === 'me' && task.assigned_to !== user?.id) return false;
+    if (assigneeFilter === 'unassigned' && task.assigned_to) return false;
+    if (![ALL, 'me', 'unassigned'].includes(assigneeFilter) && task.assigned_to !== assigneeFilter) return false;
+    if (search) {
+      const term = search.toLowerCase();
+      return task.title.toLowerCase().includes(term)
+        || task.description?.toLowerCase().includes(term)
+        || task.patients?.name.toLowerCase().includes(term);
+    }
+    return true;
+  });
+
+  const openCount = tasks.filter(t => t.status !== 'completed').length;
+  const overdueCount = tasks.filter(isTaskOverdue).length;
+  const myOpenCount = tasks.filter(t => t.status !== 'completed' && t.assigned_to === user?.id).length;
 
-  const externalUrl = 'https://med-task-genesis.lovable.app';
+  const handleStatusChange = (task: MediTaskRow, status: TaskStatus) => {
+    updateTask.mutate({ id: task.id, changes: { status } });
+  };
 
   return (
-    <div className="flex flex-col h-full">
-      {/* Header */}
-      <div className="flex items-center justify-between p-4 border-b border-border bg-card">
+    <div className="p-8">
+      <div className="mb-8 flex items-start justify-between">
         <div>
-          <h1 className="text-xl font-semibold text-foreground">MediTask</h1>
-          <p className="text-sm text-muted-foreground">Care Home Task Management</p>
+          <h1 className="text-3xl font-bold text-foreground">MediTask</h1>
+          <p className="text-muted-foreground mt-1">Care home tasks, including those raised by clinical rules and the AI assistant</p>
         </div>
-        <Button
-          variant="outline"
-          size="sm"
-          onClick={() => window.open(externalUrl, '_blank')}
-          className="gap-2"
-        >
-          <ExternalLink className="h-4 w-4" />
-          Open in new tab
+        <Button onClick={() => setIsCreateOpen(true)}>
+          <Plus className="h-4 w-4 mr-2" />
+          New Task
         </Button>
       </div>
 
-      {/* Iframe Container */}
-      <div className="flex-1 relative">
-        {isLoading && (
-          <div className="absolute inset-0 flex items-center justify-center bg-background">
-            <div className="flex flex-col items-center gap-3">
-              <Loader2 className="h-8 w-8 animate-spin text-primary" />
-              <p className="text-sm text-muted-foreground">Loading MediTask...</p>
-            </div>
-          </div>
-        )}
-        <iframe
-          src={externalUrl}
-          className="w-full h-full border-0"
-          title="MediTask - Care Home Task Management"
-          onLoad={() => setIsLoading(false)}
-          allow="clipboard-write"
-        />
+      <div className="grid gap-4 md:grid-cols-3 mb-6">
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-sm text-muted-foreground">Open tasks</p>
+            <p className="text-2xl font-bold">{openCount}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-sm text-muted-foreground">Overdue</p>
+            <p className="text-2xl font-bold text-destructive">{overdueCount}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-sm text-muted-foreground">Assigned to me</p>
+            <p className="text-2xl font-bold">{myOpenCount}</p>
+          </CardContent>
+        </Card>
       </div>
+
+      <div className="flex flex-wrap items-center gap-3 mb-6">
+        <div className="relative flex-1 min-w-[220px]">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Search tasks or patients..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="pl-9"
+          />
+        </div>
+        <Select value={statusFilter} onValueChange={(value) => setFilter('status', value)}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All statuses</SelectItem>
+            {TASK_STATUSES.map(s => (
+              <SelectItem key={s.value} value={s.value}>{s.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={priorityFilter} onValueChange={(value) => setFilter('priority', value)}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All priorities</SelectItem>
+            {TASK_PRIORITIES.map(p => (
+              <SelectItem key={p.value} value={p.value}>{p.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={assigneeFilter} onValueChange={(value) => setFilter('assignee', value)}>
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>Everyone</SelectItem>
+            <SelectItem value="me">Assigned to me</SelectItem>
+            <SelectItem value="unassigned">Unassigned</SelectItem>
+            {staff.map(s => (
+              <SelectItem key={s.user_id} value={s.user_id}>{s.full_name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-16">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : (
+        <Tabs value={view} onValueChange={(value) => setView(value as 'board' | 'list')}>
+          <TabsList className="mb-4">
+            <TabsTrigger value="board" className="gap-2">
+              <Columns3 className="h-4 w-4" />
+              Board
+            </TabsTrigger>
+            <TabsTrigger value="list" className="gap-2">
+              <List className="h-4 w-4" />
+              List
+            </TabsTrigger>
+          </TabsList>
+          <TabsContent value="board">
+            <TaskBoard
+              tasks={filteredTasks}
+              names={names}
+              onOpen={setSelectedTask}
+              onStatusChange={handleStatusChange}
+            />
+          </TabsContent>
+          <TabsContent value="list">
+            <Card>
+              <CardContent className="pt-6">
+                <TaskList tasks={filteredTasks} names={names} onOpen={setSelectedTask} />
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
+      )}
+
+      <TaskDetailDialog
+        key={selectedTask?.id ?? 'none'}
+        task={selectedTask}
+        onOpenChange={(open) => !open && setSelectedTask(null)}
+        staff={staff}
+        names={names}
+      />
+      <TaskFormDialog open={isCreateOpen} onOpenChange={setIsCreateOpen} staff={staff} />
     </div>
   );
 }
@@ -0,0 +1,238 @@
+import { useState, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowLeft, GitMerge, Loader2, Users } from 'lucide-react';
+import { MergePatientsDialog } from '@/components/patient/MergePatientsDialog';
+import { findDuplicatePatients, type DuplicateCheckPatient, type DuplicateConfidence } from '@/lib/patient-duplicates';
+import type { Tables } from '@/integrations/supabase/types';
+
+type PatientMerge = Tables<'patient_merges'> & { survivor_name: string | null; author: string };
+
+const PAGE_SIZE = 1000;
+
+const CONFIDENCE_BADGE: Record<DuplicateConfidence, 'destructive' | 'default' | 'secondary'> = {
+  definite: 'destructive',
+  likely: 'default',
+  possible: 'secondary',
+};
+
+const describePatient = (patient: DuplicateCheckPatient) =>
+  [
+    patient.phone_number,
+    patient.nhs_number ? `NHS ${patient.nhs_number}` : null,
+    patient.date_of_birth ? `DOB ${new Date(patient.date_of_birth).toLocaleDateString('en-GB')}` : null,
+  ].filter(Boolean).join(' · ');
+
+const describeMoved = (moved: unknown) =>
+  Object.entries((moved ?? {}) as Record<string, number>)
+    .map(([table, count]) => `${table.replace(/_/g, ' ')}: ${count}`)
+    .join(', ') || 'No linked records';
+
+export default function PatientDuplicates() {
+  const [confidence, setConfidence] = useState<'all' | DuplicateConfidence>('all');
+  const [reviewing, setReviewing] = useState<[string, string] | null>(null);
+
+  const { data: patients, isLoading } = useQuery({
+    queryKey: ['patients', 'duplicate-scan'],
+    queryFn: async () => {
+      const all: DuplicateCheckPatient[] = [];
+      for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error } = await supabase
+          .from('patients')
+          .select('id, name, phone_number, nhs_number, date_of_birth, created_at')
+          .order('created_at')
+          .range(from, from + PAGE_SIZE - 1);
+        if (error) throw error;
+        all.push(...data);
+        if (data.length < PAGE_SIZE) return all;
+      }
+    },
+  });
+
+  const candidates = useMemo(() => findDuplicatePatients(patients ?? []), [patients]);
+  const visible = confidence === 'all' ? candidates : candidates.filter(c => c.confidence === confidence);
+
+  const { data: merges, isLoading: loadingMerges } = useQuery({
+    queryKey: ['patient-merges'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('patient_merges')
+        .select('*, patients(name)')
+        .order('merged_at', { ascending: false })
+        .limit(200);
+      if (error) throw error;
+
+      const authorIds = [...new Set((data || []).map(m => m.merged_by))];
+      const { data: profiles } = authorIds.length > 0
+        ? await supabase.from('profiles').select('user_id, full_name').in('user_id', authorIds)
+        : { data: [] };
+      const names = new Map((profiles || []).map(p => [p.user_id, p.full_name]));
+
+      return (data || []).map(({ patients: survivor, ...merge }) => ({
+        ...merge,
+        survivor_name: survivor?.name ?? null,
+        author: names.get(merge.merged_by) || 'Unknown user',
+      })) as PatientMerge[];
+    },
+  });
+
+  return (
+    <div className="p-8">
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Duplicate Patients</h1>
+          <p className="text-muted-foreground mt-1">
+            Find records for the same person created by manual entry, spreadsheet upload or document extraction, and merge them
+          </p>
+        </div>
+        <Button variant="outline" asChild>
+          <Link to="/patients">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Patients
+          </Link>
+        </Button>
+      </div>
+
+      <Tabs defaultValue="candidates">
+        <TabsList>
+          <TabsTrigger value="candidates">Possible Duplicates ({candidates.length})</TabsTrigger>
+          <TabsTrigger value="history">Merge History</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="candidates">
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle>Possible Duplicates</CardTitle>
+                  <CardDescription>
+                    Matched on NHS number, date of birth, phone number and name similarity. Patients with different NHS numbers are never matched.
+                  </CardDescription>
+                </div>
+                <Select value={confidence} onValueChange={value => setConfidence(value as typeof confidence)}>
+                  <SelectTrigger className="w-44">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All matches</SelectItem>
+                    <SelectItem value="definite">Definite</SelectItem>
+                    <SelectItem value="likely">Likely</SelectItem>
+                    <SelectItem value="possible">Possible</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div className="flex items-center justify-center py-12">
+                  <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+                </div>
+              ) : visible.length === 0 ? (
+                <div className="text-center py-12 text-muted-foreground">
+                  <Users className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                  <p>No duplicate patients found</p>
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Patient</TableHead>
+                      <TableHead>Possible duplicate</TableHead>
+                      <TableHead>Match</TableHead>
+                      <TableHead className="w-32"></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {visible.map(candidate => (
+                      <TableRow key={`${candidate.a.id}:${candidate.b.id}`}>
+                        {[candidate.a, candidate.b].map(patient => (
+                          <TableCell key={patient.id}>
+                            <p className="font-medium">{patient.name}</p>
+                            <p className="text-xs text-muted-foreground">{describePatient(patient)}</p>
+                          </TableCell>
+                        ))}
+                        <TableCell>
+                          <div className="flex items-center gap-2 mb-1">
+                            <Badge variant={CONFIDENCE_BADGE[candidate.confidence]} className="capitalize">{candidate.confidence}</Badge>
+                            <span className="text-xs text-muted-foreground">{candidate.score}%</span>
+                          </div>
+                          <p className="text-xs text-muted-foreground">{candidate.reasons.join(' · ')}</p>
+                        </TableCell>
+                        <TableCell>
+                          <Button size="sm" variant="outline" onClick={() => setReviewing([candidate.a.id, candidate.b.id])}>
+                            <GitMerge className="h-4 w-4 mr-2" />
+                            Review
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="history">
+          <Card>
+            <CardHeader>
+              <CardTitle>Merge History</CardTitle>
+              <CardDescription>Every merge with the deleted record's details and the records moved to the kept patient</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {loadingMerges ? (
+                <div className="flex items-center justify-center py-12">
+                  <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+                </div>
+              ) : !merges?.length ? (
+                <p className="text-center py-12 text-muted-foreground">No patients have been merged</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Merged record</TableHead>
+                      <TableHead>Kept record</TableHead>
+                      <TableHead>Moved</TableHead>
+                      <TableHead>Fields taken</TableHead>
+                      <TableHead>By</TableHead>
+                      <TableHead>Reason</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {merges.map(merge => {
+                      const snapshot = merge.merged_patient_snapshot as { name?: string; nhs_number?: string | null };
+                      return (
+                        <TableRow key={merge.id}>
+                          <TableCell className="whitespace-nowrap">{new Date(merge.merged_at).toLocaleString('en-GB')}</TableCell>
+                          <TableCell>
+                            <p className="font-medium">{snapshot.name}</p>
+                            {snapshot.nhs_number && <p className="text-xs text-muted-foreground">NHS {snapshot.nhs_number}</p>}
+                          </TableCell>
+                          <TableCell>{merge.survivor_name ?? <span className="text-muted-foreground">Since deleted</span>}</TableCell>
+                          <TableCell className="text-xs">{describeMoved(merge.moved_records)}</TableCell>
+                          <TableCell className="text-xs">{Object.keys((merge.field_updates ?? {}) as object).join(', ') || '—'}</TableCell>
+                          <TableCell>{merge.author}</TableCell>
+                          <TableCell className="text-xs max-w-xs">{merge.reason || '—'}</TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+
+      <MergePatientsDialog patientIds={reviewing} onOpenChange={open => !open && setReviewing(null)} />
+    </div>
+  );
+}
@@ -1,8 +1,10 @@
 import { useState, useMemo } from 'react';
+import { Link } from 'react-router-dom';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import { useAuditLog } from '@/hooks/useAuditLog';
+import { useUserRole } from '@/hooks/useUserRole';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -12,13 +14,15 @@ import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, D
 import { Checkbox } from '@/components/ui/checkbox';
 import { useToast } from '@/hooks/use-toast';
 import { Badge } from '@/components/ui/badge';
-import { Plus, Upload, Search, Trash2, Edit, FileSpreadsheet, Phone, Loader2, Activity, FileText, User, RefreshCw, ArrowUpDown, ChevronLeft, ChevronRight } from 'lucide-react';
+import { Plus, Upload, Search, Trash2, Edit, Phone, Loader2, GitMerge, Activity, FileText, User, RefreshCw, ArrowUpDown, ChevronLeft, ChevronRight } from 'lucide-react';
 import { Progress } from '@/components/ui/progress';
 import { Textarea } from '@/components/ui/textarea';
 import { CallStatusMonitor } from '@/components/CallStatusMonitor';
 import { HealthMetricsSummary } from '@/components/HealthMetricsSummary';
 import { DocumentPatientUpload } from '@/components/DocumentPatientUpload';
 import { PatientDetailPanel } from '@/components/patient/PatientDetailPanel';
+import { PatientImportWizard } from '@/components/patient/PatientImportWizard';
+import type { ValidatedImportRow } from '@/lib/patient-import';
 
 interface Patient {
   id: string;
@@ -27,6 +31,7 @@ interface Patient {
   nhs_number: string | null;
   preferred_call_time: string | null;
   notes: string | null;
+  date_of_death: string | null;
   created_at: string;
 }
 
@@ -49,6 +54,7 @@ export default function Patients() {
   const pageSize = 25;
   const { user } = useAuth();
   const { logAction } = useAuditLog();
+  const { hasAnyRole } = useUserRole();
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -220,10 +226,10 @@ export default function Patients() {
   });
 
   const batchUploadMutation = useMutation({
-    mutationFn: async (patients: { name: string; phone_number: string; nhs_number?: string | null; preferred_call_time?: string | null }[]) => {
+    mutationFn: async (rows: ValidatedImportRow[]) => {
       const { data, error } = await supabase
         .from('patients')
-        .insert(patients.map(p => ({ name: p.name, phone_number: p.phone_number, nhs_number: p.nhs_number, preferred_call_time: p.preferred_call_time, created_by: user?.id })))
+        .insert(rows.map(({ patient }) => ({ ...patient, created_by: user?.id })))
         .select();
       if (error) throw error;
       return data;
@@ -268,63 +274,10 @@ export default function Patients() {
       nhs_number: formData.get('nhs_number') as string || null,
       preferred_call_time: formData.get('preferred_call_time') as string || null,
       notes: formData.get('notes') as string || null,
+      date_of_death: formData.get('date_of_death') as string || null,
     });
   };
 
-  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
-
-    const reader = new FileReader();
-    reader.onload = (event) => {
-      const text = event.target?.result as string;
-      const lines = text.split('\n').filter(line => line.trim());
-      
-      // Skip header row
-      const dataLines = lines.slice(1);
-      const patients: { name: string; phone_number: string; nhs_number?: string | null; preferred_call_time?: string | null }[] = [];
-      const errors: string[] = [];
-
-      dataLines.forEach((line, index) => {
-        const values = line.split(',').map(v => v.trim().replace(/^["']|["']$/g, ''));
-        if (values.length >= 2) {
-          const name = values[0];
-          const phone = values[1];
-          
-          if (name && phone) {
-            patients.push({
-              name,
-              phone_number: phone,
-              nhs_number: values[2] || null,
-              preferred_call_time: values[3] || null,
-            });
-          } else {
-            errors.push(`Row ${index + 2}: Missing name or phone number`);
-          }
-        }
-      });
-
-      if (errors.length > 0) {
-        toast({
-          variant: 'destructive',
-          title: 'Some rows had errors',
-          description: errors.slice(0, 3).join(', ') + (errors.length > 3 ? `... and ${errors.length - 3} more` : ''),
-        });
-      }
-
-      if (patients.length > 0) {
-        batchUploadMutation.mutate(patients);
-      } else {
-        toast({
-          variant: 'destructive',
-          title: 'No valid patients found',
-          description: 'Please check your CSV format',
-        });
-      }
-    };
-    reader.readAsText(file);
-  };
-
   return (
     <>
     <CallStatusMonitor
@@ -362,62 +315,30 @@ export default function Patients() {
           <p className="text-muted-foreground mt-1">Manage your patient database</p>
         </div>
         <div className="flex gap-3">
+          {hasAnyRole(['gp', 'admin']) && (
+            <Button variant="outline" asChild>
+              <Link to="/patients/duplicates">
+                <GitMerge className="h-4 w-4 mr-2" />
+                Find Duplicates
+              </Link>
+            </Button>
+          )}
           <Button variant="outline" onClick={() => setPdfUploadOpen(true)}>
             <FileText className="h-4 w-4 mr-2" />
             Upload Documents
           </Button>
           <DocumentPatientUpload open={pdfUploadOpen} onOpenChange={setPdfUploadOpen} />
           
-          <Dialog open={uploadDialogOpen} onOpenChange={setUploadDialogOpen}>
-            <DialogTrigger asChild>
-              <Button variant="outline">
-                <Upload className="h-4 w-4 mr-2" />
-                Batch Upload
-              </Button>
-            </DialogTrigger>
-            <DialogContent>
-              <DialogHeader>
-                <DialogTitle>Batch Upload Patients</DialogTitle>
-                <DialogDescription>
-                  Upload a CSV file with patient data. Required columns: Name, Phone Number.
-                  Optional: NHS Number, Preferred Call Time.
-                </DialogDescription>
-              </DialogHeader>
-              <div className="space-y-4">
-                <Card className="border-dashed">
-                  <CardContent className="pt-6">
-                    <div className="flex flex-col items-center gap-4">
-                      <FileSpreadsheet className="h-12 w-12 text-muted-foreground" />
-                      <div className="text-center">
-                        <p className="text-sm font-medium">Upload CSV File</p>
-                        <p className="text-xs text-muted-foreground mt-1">
-                          Format: Name, Phone, NHS Number (optional), Preferred Time (optional)
-                        </p>
-                      </div>
-                      <Input
-                        type="file"
-                        accept=".csv"
-                        onChange={handleFileUpload}
-                        className="max-w-xs"
-                      />
-                    </div>
-                  </CardContent>
-                </Card>
-                <Card>
-                  <CardHeader className="pb-2">
-                    <CardTitle className="text-sm">Example CSV Format</CardTitle>
-                  </CardHeader>
-                  <CardContent>
-                    <pre className="text-xs bg-muted p-3 rounded-md overflow-x-auto">
-{`Name,Phone Number,NHS Number,Preferred Time
-John Smith,07700900123,1234567890,Morning
-Jane Doe,07700900456,,Afternoon`}
-                    </pre>
-                  </CardContent>
-                </Card>
-              </div>
-            </DialogContent>
-          </Dialog>
+          <Button variant="outline" onClick={() => setUploadDialogOpen(true)}>
+            <Upload className="h-4 w-4 mr-2" />
+            Batch Upload
+          </Button>
+          <PatientImportWizard
+            open={uploadDialogOpen}
+            onOpenChange={setUploadDialogOpen}
+            onImport={rows => batchUploadMutation.mutate(rows)}
+            isImporting={batchUploadMutation.isPending}
+          />
 
           <Dialog open={addDialogOpen} onOpenChange={setAddDialogOpen}>
             <DialogTrigger asChild>
@@ -694,6 +615,11 @@ Jane Doe,07700900456,,Afternoon`}
                   <Label htmlFor="edit-notes">Notes</Label>
                   <Textarea id="edit-notes" name="notes" defaultValue={editingPatient.notes ?? ''} />
                 </div>
+                <div className="space-y-2">
+                  <Label htmlFor="edit-date_of_death">Date of Death</Label>
+                  <Input id="edit-date_of_death" name="date_of_death" type="date" defaultValue={editingPatient.date_of_death ?? ''} />
+                  <p className="text-xs text-muted-foreground">Deceased patients are left out of recurring call programmes.</p>
+                </div>
               </div>
               <DialogFooter>
                 <Button type="submit" disabled={updatePatientMutation.isPending}>
@@ -0,0 +1,165 @@
+import { useState } from 'react';
+import { Pause, Play, Plus, Repeat, Square, Eye } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { describeCohort } from '@/lib/patient-cohorts';
+import { PROGRAMME_FREQUENCIES } from '@/lib/call-programmes';
+import { useCallProgrammes, useSetProgrammeStatus, type CallProgramme, type ProgrammeStatus } from '@/hooks/useCallProgrammes';
+import { ProgrammeFormDialog } from '@/components/programmes/ProgrammeFormDialog';
+import { ProgrammeDetailDialog } from '@/components/programmes/ProgrammeDetailDialog';
+
+const FREQUENCY_LABELS = new Map(PROGRAMME_FREQUENCIES.map(f => [f.value, f.label]));
+
+const STATUS_VARIANTS: Record<ProgrammeStatus, 'default' | 'secondary' | 'outline'> = {
+  active: 'default',
+  paused: 'secondary',
+  ended: 'outline',
+};
+
+export default function Programmes() {
+  const [createOpen, setCreateOpen] = useState(false);
+  const [viewingId, setViewingId] = useState<string | null>(null);
+  const [endingProgramme, setEndingProgramme] = useState<CallProgramme | null>(null);
+
+  const { data: programmes, isLoading } = useCallProgrammes();
+  const setStatus = useSetProgrammeStatus();
+
+  const viewing = programmes?.find(p => p.id === viewingId) ?? null;
+
+  return (
+    <div className="p-8">
+      <div className="mb-8 flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Call Programmes</h1>
+          <p className="text-muted-foreground mt-1">Recurring calls for long-term condition monitoring</p>
+        </div>
+        <Button onClick={() => setCreateOpen(true)}>
+          <Plus className="h-4 w-4 mr-2" />
+          New Programme
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Repeat className="h-5 w-5" />
+            Programmes
+          </CardTitle>
+          <CardDescription>
+            Each programme generates a batch from its cohort on every run date, early in the morning.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Cohort</TableHead>
+                <TableHead>Frequency</TableHead>
+                <TableHead>Next Run</TableHead>
+                <TableHead>Patients</TableHead>
+                <TableHead>Cycles</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="w-32" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {programmes?.map(programme => (
+                <TableRow key={programme.id}>
+                  <TableCell className="font-medium">{programme.name}</TableCell>
+                  <TableCell className="text-sm text-muted-foreground max-w-[240px]">
+                    {programme.patient_cohorts ? describeCohort(programme.patient_cohorts.criteria) : '-'}
+                  </TableCell>
+                  <TableCell>{FREQUENCY_LABELS.get(programme.frequency)}</TableCell>
+                  <TableCell>
+                    {programme.status === 'ended' ? '-' : new Date(programme.next_run_date).toLocaleDateString('en-GB')}
+                  </TableCell>
+                  <TableCell>{programme.activeMembers}</TableCell>
+                  <TableCell>{programme.cycles_run}</TableCell>
+                  <TableCell>
+                    <Badge variant={STATUS_VARIANTS[programme.status]} className="capitalize">{programme.status}</Badge>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex gap-1">
+                      <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setViewingId(programme.id)} title="View">
+                        <Eye className="h-4 w-4" />
+                      </Button>
+                      {programme.status === 'active' && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          onClick={() => setStatus.mutate({ programme, status: 'paused' })}
+                          title="Pause"
+                        >
+                          <Pause className="h-4 w-4" />
+                        </Button>
+                      )}
+                      {programme.status === 'paused' && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          onClick={() => setStatus.mutate({ programme, status: 'active' })}
+                          title="Resume"
+                        >
+                          <Play className="h-4 w-4" />
+                        </Button>
+                      )}
+                      {programme.status !== 'ended' && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          onClick={() => setEndingProgramme(programme)}
+                          title="End programme"
+                        >
+                          <Square className="h-4 w-4 text-destructive" />
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {!isLoading && programmes?.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center text-muted-foreground py-8">
+                    No programmes yet. Create one to call a cohort on a regular schedule.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <ProgrammeFormDialog open={createOpen} onOpenChange={setCreateOpen} />
+      <ProgrammeDetailDialog programme={viewing} onOpenChange={(open) => !open && setViewingId(null)} />
+
+      <AlertDialog open={!!endingProgramme} onOpenChange={(open) => !open && setEndingProgramme(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>End this programme?</AlertDialogTitle>
+            <AlertDialogDescription>
+              No further batches will be generated. Batches already generated are not affected.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (endingProgramme) setStatus.mutate({ programme: endingProgramme, status: 'ended' });
+                setEndingProgramme(null);
+              }}
+            >
+              End Programme
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
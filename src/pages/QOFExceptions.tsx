@@ -0,0 +1,312 @@
+import { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Check, Plus, ShieldOff, Sparkles, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { useUserRole } from '@/hooks/useUserRole';
+import { useQOFAchievement } from '@/hooks/useQOFAchievement';
+import {
+  useDismissProposals,
+  useExceptionProposals,
+  useQOFExceptions,
+  useRecordException,
+  useRevokeException,
+  type QofException,
+} from '@/hooks/useQOFExceptions';
+import {
+  PCA_REASONS,
+  PCA_SOURCES,
+  UNANSWERED_INVITATIONS_REQUIRED,
+  defaultExceptionExpiry,
+  isExceptionInForce,
+  type ExceptionProposal,
+} from '@/lib/qof-exceptions';
+import { RecordExceptionDialog } from '@/components/qof/RecordExceptionDialog';
+
+type ExceptionFilter = 'in_force' | 'expired' | 'revoked' | 'dismissed' | 'all';
+
+const EXCEPTION_FILTERS: Record<ExceptionFilter, string> = {
+  in_force: 'In force',
+  expired: 'Expired',
+  revoked: 'Revoked',
+  dismissed: 'Dismissed proposals',
+  all: 'All',
+};
+
+// A patient's proposals from the same kind of call outcome, accepted or dismissed together
+interface ProposalGroup {
+  key: string;
+  patientId: string;
+  source: ExceptionProposal['source'];
+  indicatorCodes: string[];
+  callIds: string[];
+  proposals: ExceptionProposal[];
+}
+
+const exceptionState = (exception: QofException): Exclude<ExceptionFilter, 'all'> => {
+  if (exception.status !== 'active') return exception.status;
+  return isExceptionInForce(exception) ? 'in_force' : 'expired';
+};
+
+const formatDate = (date: string | null) => (date ? new Date(date).toLocaleDateString('en-GB') : '-');
+
+export default function QOFExceptions() {
+  const { hasAnyRole } = useUserRole();
+  const canManage = hasAnyRole(['gp', 'admin']);
+  const [recordOpen, setRecordOpen] = useState(false);
+  // Remounts the dialog so each opening starts blank
+  const [recordKey, setRecordKey] = useState(0);
+  const [filter, setFilter] = useState<ExceptionFilter>('in_force');
+  const [revokingException, setRevokingException] = useState<QofException | null>(null);
+
+  const { patients } = useQOFAchievement();
+  const { data: exceptions, isLoading } = useQOFExceptions();
+  const { proposals, isLoading: proposalsLoading } = useExceptionProposals();
+  const recordException = useRecordException();
+  const dismissProposals = useDismissProposals();
+  const revokeException = useRevokeException();
+
+  const patientsById = useMemo(() => new Map((patients || []).map(p => [p.id, p])), [patients]);
+
+  const proposalGroups = useMemo(() => {
+    const groups = new Map<string, ProposalGroup>();
+    for (const proposal of proposals || []) {
+      const key = `${proposal.patientId}:${proposal.source}`;
+      const group = groups.get(key) || { key, patientId: proposal.patientId, source: proposal.source, indicatorCodes: [], callIds: [], proposals: [] };
+      group.indicatorCodes.push(proposal.indicatorCode);
+      group.callIds = [...new Set([...group.callIds, ...proposal.callIds])];
+      group.proposals.push(proposal);
+      groups.set(key, group);
+    }
+    return [...groups.values()].sort((a, b) =>
+      (patientsById.get(a.patientId)?.name ?? '').localeCompare(patientsById.get(b.patientId)?.name ?? '')
+    );
+  }, [proposals, patientsById]);
+
+  const filteredExceptions = (exceptions || []).filter(e => filter === 'all' || exceptionState(e) === filter);
+
+  const acceptProposal = (group: ProposalGroup) => {
+    recordException.mutate({
+      patientId: group.patientId,
+      indicatorCodes: group.indicatorCodes,
+      reason: 'invitations_declined',
+      expiresOn: defaultExceptionExpiry('invitations_declined', new Date().toISOString().split('T')[0]),
+      notes: null,
+      source: group.source,
+      callIds: group.callIds,
+    });
+  };
+
+  const openRecord = () => {
+    setRecordKey(key => key + 1);
+    setRecordOpen(true);
+  };
+
+  return (
+    <div className="p-8">
+      <div className="mb-8 flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">QOF Exceptions</h1>
+          <p className="text-muted-foreground mt-1">
+            Personalised Care Adjustments that take patients out of an indicator's denominator and its gap lists
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" asChild>
+            <Link to="/qof-reports">QOF Achievement</Link>
+          </Button>
+          {canManage && (
+            <Button onClick={openRecord} disabled={!patients}>
+              <Plus className="h-4 w-4 mr-2" />
+              Record Exception
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <Card className="mb-8">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Sparkles className="h-5 w-5" />
+            Proposed from Calls
+          </CardTitle>
+          <CardDescription>
+            Patients who declined consent on a call, or left calls unanswered on {UNANSWERED_INVITATIONS_REQUIRED} separate
+            days this QOF year, for indicators they have not yet met. Accepting records an "invitations declined" exception
+            until the end of the QOF year.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Patient</TableHead>
+                <TableHead>Indicators</TableHead>
+                <TableHead>Evidence</TableHead>
+                {canManage && <TableHead className="w-48" />}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {proposalGroups.map(group => {
+                const patient = patientsById.get(group.patientId);
+                return (
+                  <TableRow key={group.key}>
+                    <TableCell>
+                      <p className="font-medium">{patient?.name}</p>
+                      <p className="text-xs text-muted-foreground">{patient?.nhs_number}</p>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {group.indicatorCodes.map(code => (
+                          <Badge key={code} variant="secondary" className="text-xs">{code}</Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {PCA_SOURCES[group.source]}
+                      <span className="text-muted-foreground"> ({group.callIds.length} call{group.callIds.length === 1 ? '' : 's'})</span>
+                    </TableCell>
+                    {canManage && (
+                      <TableCell>
+                        <div className="flex gap-1 justify-end">
+                          <Button size="sm" onClick={() => acceptProposal(group)} disabled={recordException.isPending}>
+                            <Check className="h-4 w-4 mr-1" />
+                            Accept
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => dismissProposals.mutate(group.proposals)}
+                            disabled={dismissProposals.isPending}
+                          >
+                            <X className="h-4 w-4 mr-1" />
+                            Dismiss
+                          </Button>
+                        </div>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                );
+              })}
+              {!proposalsLoading && proposalGroups.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={canManage ? 4 : 3} className="text-center text-muted-foreground py-8">
+                    No call outcomes currently suggest an exception.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <ShieldOff className="h-5 w-5" />
+              Exceptions
+            </CardTitle>
+            <CardDescription>Exceptions stop applying on their expiry date, or when revoked.</CardDescription>
+          </div>
+          <Select value={filter} onValueChange={(value) => setFilter(value as ExceptionFilter)}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(EXCEPTION_FILTERS) as ExceptionFilter[]).map(value => (
+                <SelectItem key={value} value={value}>{EXCEPTION_FILTERS[value]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Patient</TableHead>
+                <TableHead>Indicator</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead>Recorded</TableHead>
+                <TableHead>Expires</TableHead>
+                <TableHead>Status</TableHead>
+                {canManage && <TableHead className="w-16" />}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filteredExceptions.map(exception => {
+                const state = exceptionState(exception);
+                return (
+                  <TableRow key={exception.id}>
+                    <TableCell>
+                      <p className="font-medium">{exception.patients?.name}</p>
+                      <p className="text-xs text-muted-foreground">{exception.patients?.nhs_number}</p>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className="font-mono text-xs">{exception.indicator_code}</Badge>
+                    </TableCell>
+                    <TableCell>
+                      <p className="text-sm">{PCA_REASONS[exception.reason].label}</p>
+                      <p className="text-xs text-muted-foreground">{exception.notes || PCA_SOURCES[exception.source]}</p>
+                    </TableCell>
+                    <TableCell>{formatDate(exception.recorded_on)}</TableCell>
+                    <TableCell>{formatDate(exception.expires_on)}</TableCell>
+                    <TableCell>
+                      <Badge variant={state === 'in_force' ? 'default' : 'secondary'}>{EXCEPTION_FILTERS[state]}</Badge>
+                    </TableCell>
+                    {canManage && (
+                      <TableCell>
+                        {exception.status === 'active' && (
+                          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setRevokingException(exception)} title="Revoke">
+                            <X className="h-4 w-4 text-destructive" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    )}
+                  </TableRow>
+                );
+              })}
+              {!isLoading && filteredExceptions.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={canManage ? 7 : 6} className="text-center text-muted-foreground py-8">
+                    No exceptions to show.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {patients && (
+        <RecordExceptionDialog key={recordKey} open={recordOpen} onOpenChange={setRecordOpen} patients={patients} />
+      )}
+
+      <AlertDialog open={!!revokingException} onOpenChange={(open) => !open && setRevokingException(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Revoke this exception?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The patient goes back on the {revokingException?.indicator_code} denominator and its gap lists straight away.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (revokingException) revokeException.mutate(revokingException);
+                setRevokingException(null);
+              }}
+            >
+              Revoke Exception
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,238 @@
+import { useMemo } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { differenceInCalendarDays } from 'date-fns';
+import { Calendar, Phone, PoundSterling, ShieldOff, Target, TrendingUp } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { KPICard } from '@/components/dashboard/KPICard';
+import { useQOFAchievement } from '@/hooks/useQOFAchievement';
+import { QOF_INDICATORS, QOF_POUNDS_PER_POINT } from '@/lib/qof-codes';
+import { MEASURED_QOF_INDICATORS } from '@/lib/qof-achievement';
+
+// Enough to fill a day's batch without listing the whole register
+const OPPORTUNITY_LIMIT = 50;
+
+const formatPounds = (value: number) =>
+  value.toLocaleString('en-GB', { style: 'currency', currency: 'GBP', maximumFractionDigits: 0 });
+
+export default function QOFReports() {
+  const navigate = useNavigate();
+  const { achievement, patients, reachRate, isLoading, error } = useQOFAchievement();
+
+  const patientsById = useMemo(() => new Map((patients || []).map(p => [p.id, p])), [patients]);
+  const opportunities = achievement?.opportunities.slice(0, OPPORTUNITY_LIMIT) ?? [];
+  const unmeasured = QOF_INDICATORS.filter(i => !MEASURED_QOF_INDICATORS.includes(i));
+  const daysLeft = achievement ? Math.max(0, differenceInCalendarDays(achievement.year.end, new Date())) : 0;
+
+  const createBatch = () => {
+    navigate(`/batches?patients=${opportunities.map(o => o.patientId).join(',')}`);
+  };
+
+  if (error) {
+    return (
+      <div className="p-8">
+        <h1 className="text-3xl font-bold text-foreground">QOF Achievement</h1>
+        <p className="text-destructive mt-4">Could not load QOF achievement: {(error as Error).message}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-8">
+      <div className="mb-8 flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">QOF Achievement</h1>
+          <p className="text-muted-foreground mt-1">
+            {achievement
+              ? `QOF year ${achievement.year.label}, ${daysLeft} days to year end`
+              : 'Points earned so far and projected to the end of the QOF year'}
+          </p>
+        </div>
+        <Button variant="outline" asChild>
+          <Link to="/qof-exceptions">
+            <ShieldOff className="h-4 w-4 mr-2" />
+            Exceptions
+          </Link>
+        </Button>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4 mb-8">
+        <KPICard
+          title="Points Now"
+          value={achievement ? achievement.points.toFixed(1) : 0}
+          subtitle={achievement ? `of ${achievement.maxPoints} measured points` : undefined}
+          icon={Target}
+          loading={isLoading}
+          footer={achievement && <Progress value={(achievement.points / achievement.maxPoints) * 100} className="h-1.5" />}
+        />
+        <KPICard
+          title="Projected at Year End"
+          value={achievement ? achievement.projectedPoints.toFixed(1) : 0}
+          subtitle={achievement ? `+${(achievement.projectedPoints - achievement.points).toFixed(1)} points` : undefined}
+          icon={TrendingUp}
+          iconColor="text-success"
+          gradientFrom="from-success/10 via-success/5"
+          loading={isLoading}
+          delay={50}
+        />
+        <KPICard
+          title="Projected Income"
+          value={achievement ? formatPounds(achievement.projectedIncome) : '-'}
+          subtitle={achievement ? `${formatPounds(achievement.income)} earned so far` : undefined}
+          icon={PoundSterling}
+          iconColor="text-warning"
+          gradientFrom="from-warning/10 via-warning/5"
+          loading={isLoading}
+          delay={100}
+        />
+        <KPICard
+          title="Call Reach Rate"
+          value={reachRate != null ? `${Math.round(reachRate * 100)}%` : '-'}
+          subtitle="Dial attempts answered, last 90 days"
+          icon={Phone}
+          loading={isLoading}
+          delay={150}
+        />
+      </div>
+
+      <Card className="mb-8">
+        <CardHeader>
+          <CardTitle>Indicators</CardTitle>
+          <CardDescription>
+            Points are earned on a sliding scale between each indicator's lower and upper thresholds. The register
+            leaves out patients excepted from the indicator who have not met it.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Indicator</TableHead>
+                <TableHead className="text-right">Register</TableHead>
+                <TableHead className="text-right">Excepted</TableHead>
+                <TableHead className="text-right">Achieved</TableHead>
+                <TableHead className="text-right">Thresholds</TableHead>
+                <TableHead className="text-right">Points</TableHead>
+                <TableHead className="text-right">Projected</TableHead>
+                <TableHead className="text-right">Patients to maximum</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {achievement?.indicators.map(result => (
+                <TableRow key={result.indicator.code}>
+                  <TableCell>
+                    <p className="font-medium">{result.indicator.code}</p>
+                    <p className="text-xs text-muted-foreground max-w-[320px]">{result.indicator.name}</p>
+                  </TableCell>
+                  <TableCell className="text-right">{result.denominator}</TableCell>
+                  <TableCell className="text-right text-muted-foreground">{result.excepted}</TableCell>
+                  <TableCell className="text-right">
+                    {result.numerator} ({result.percent.toFixed(1)}%)
+                  </TableCell>
+                  <TableCell className="text-right text-muted-foreground">
+                    {result.indicator.lowerThreshold}-{result.indicator.targetPercent}%
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {result.points.toFixed(1)} / {result.indicator.points}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {result.projectedPoints.toFixed(1)}
+                    <span className="text-xs text-muted-foreground ml-1">({result.projectedPercent.toFixed(1)}%)</span>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {result.denominator === 0 ? (
+                      <span className="text-muted-foreground">-</span>
+                    ) : result.patientsToMaximum === 0 ? (
+                      <Badge variant="outline" className="text-success border-success/30">Maximum</Badge>
+                    ) : (
+                      result.patientsToMaximum
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+              {isLoading && (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center text-muted-foreground py-8">Calculating achievement...</TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+          {unmeasured.length > 0 && (
+            <p className="text-xs text-muted-foreground mt-4">
+              Not measured from the data held here, so left out of the totals: {unmeasured.map(i => i.code).join(', ')}.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="mb-8">
+        <CardHeader className="flex flex-row items-start justify-between">
+          <div>
+            <CardTitle>Most Valuable Patients to Contact</CardTitle>
+            <CardDescription>
+              Patients not booked into a batch, ranked by the points a call collecting their blood pressure and smoking status is expected to add.
+            </CardDescription>
+          </div>
+          <Button onClick={createBatch} disabled={opportunities.length === 0}>
+            <Calendar className="h-4 w-4 mr-2" />
+            Create Batch
+          </Button>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Patient</TableHead>
+                <TableHead>NHS Number</TableHead>
+                <TableHead>Indicators</TableHead>
+                <TableHead className="text-right">Expected points</TableHead>
+                <TableHead className="text-right">Expected value</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {opportunities.map(opportunity => {
+                const patient = patientsById.get(opportunity.patientId);
+                return (
+                  <TableRow key={opportunity.patientId}>
+                    <TableCell className="font-medium">{patient?.name}</TableCell>
+                    <TableCell className="font-mono text-sm">{patient?.nhs_number || '-'}</TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {opportunity.indicators.map(code => (
+                          <Badge key={code} variant="secondary" className="text-xs">{code}</Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">{opportunity.expectedPoints.toFixed(2)}</TableCell>
+                    <TableCell className="text-right">{formatPounds(opportunity.expectedPoints * QOF_POUNDS_PER_POINT)}</TableCell>
+                  </TableRow>
+                );
+              })}
+              {!isLoading && opportunities.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground py-8">
+                    No unbooked patients would add points on the indicators a call can close.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+          {achievement && achievement.opportunities.length > OPPORTUNITY_LIMIT && (
+            <p className="text-xs text-muted-foreground mt-4">
+              Showing the top {OPPORTUNITY_LIMIT} of {achievement.opportunities.length} patients.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      <p className="text-xs text-muted-foreground">
+        Income uses £{QOF_POUNDS_PER_POINT.toFixed(2)} a point before list size and prevalence adjustments.
+        Projections continue the pace achieved so far this year; booked batches only raise them where they would
+        go beyond that pace, allowing for the reach rate above and the retries left on each call.
+      </p>
+    </div>
+  );
+}
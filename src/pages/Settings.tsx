@@ -8,12 +8,14 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useToast } from '@/hooks/use-toast';
-import { User, Shield, Phone, History, Volume2, Activity, Monitor, Lock } from 'lucide-react';
+import { User, Shield, Phone, History, Volume2, Activity, Monitor, Lock, ShieldAlert } from 'lucide-react';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { ConsentVoiceSettings } from '@/components/settings/ConsentVoiceSettings';
 import { LoginActivityLog } from '@/components/settings/LoginActivityLog';
 import { ActiveSessions } from '@/components/settings/ActiveSessions';
 import { PrivacySettings } from '@/components/settings/PrivacySettings';
+import { CallScheduleSettings } from '@/components/settings/CallScheduleSettings';
+import { DutyRotaSettings } from '@/components/settings/DutyRotaSettings';
 
 interface Profile {
   id: string;
@@ -131,6 +133,10 @@ export default function Settings() {
             <Phone className="h-4 w-4" />
             Calling
           </TabsTrigger>
+          <TabsTrigger value="duty" className="gap-2">
+            <ShieldAlert className="h-4 w-4" />
+            Duty Rota
+          </TabsTrigger>
           <TabsTrigger value="voice" className="gap-2">
             <Volume2 className="h-4 w-4" />
             Voice
@@ -219,7 +225,8 @@ export default function Settings() {
           <PrivacySettings />
         </TabsContent>
 
-        <TabsContent value="calling">
+        <TabsContent value="calling" className="space-y-6">
+          <CallScheduleSettings />
           <Card>
             <CardHeader>
               <CardTitle>Calling Configuration</CardTitle>
@@ -250,6 +257,10 @@ export default function Settings() {
           </Card>
         </TabsContent>
 
+        <TabsContent value="duty">
+          <DutyRotaSettings />
+        </TabsContent>
+
         <TabsContent value="voice">
           <ConsentVoiceSettings />
         </TabsContent>
@@ -0,0 +1,124 @@
+/**
+ * Recurring call programmes
+ * Run dates and the "reached target" exit rule, shared by the call-programmes
+ * worker and the Programmes page (src/lib/call-programmes.ts) so the page shows
+ * the dates and exits the worker will actually use.
+ */
+import {
+  bpTarget,
+  buildRuleContext,
+  hba1cTarget,
+  DEFAULT_CLINICAL_THRESHOLDS,
+  type ClinicalThresholds,
+  type RulePatient,
+  type RuleReading,
+} from "./clinical-rules.ts";
+
+export type ProgrammeFrequency = "weekly" | "fortnightly" | "monthly" | "quarterly";
+
+export const PROGRAMME_FREQUENCIES: { value: ProgrammeFrequency; label: string }[] = [
+  { value: "weekly", label: "Weekly" },
+  { value: "fortnightly", label: "Fortnightly" },
+  { value: "monthly", label: "Monthly" },
+  { value: "quarterly", label: "Quarterly" },
+];
+
+export type ProgrammeExitReason = "target_reached" | "deceased" | "left_cohort" | "removed";
+
+export const PROGRAMME_EXIT_REASONS: Record<ProgrammeExitReason, string> = {
+  target_reached: "Reached target",
+  deceased: "Deceased",
+  left_cohort: "Left cohort",
+  removed: "Removed manually",
+};
+
+// Indicators whose target the exit rule can check from call readings or the record
+const BP_TARGET_INDICATORS = ["HYP008", "HYP009", "CHD015", "CHD016", "STIA014", "STIA015", "DM036"];
+const HBA1C_TARGET_INDICATORS = ["DM006", "DM012"];
+
+const parseDate = (date: string) => {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+};
+
+const formatDate = (date: Date) => date.toISOString().slice(0, 10);
+
+/**
+ * The nth run date (0 = starts_on). Monthly and quarterly runs keep the start
+ * day of the month, falling back to the last day of shorter months.
+ */
+export function programmeRunDate(startsOn: string, frequency: ProgrammeFrequency, n: number): string {
+  const start = parseDate(startsOn);
+  if (frequency === "weekly" || frequency === "fortnightly") {
+    const days = (frequency === "weekly" ? 7 : 14) * n;
+    return formatDate(new Date(start.getTime() + days * 24 * 60 * 60 * 1000));
+  }
+  const months = (frequency === "monthly" ? 1 : 3) * n;
+  const target = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(start.getUTCDate(), lastDay));
+  return formatDate(target);
+}
+
+/** First run date strictly after the given date; missed runs are skipped, not caught up */
+export function nextProgrammeRunDate(startsOn: string, frequency: ProgrammeFrequency, after: string): string {
+  let n = 0;
+  let date = programmeRunDate(startsOn, frequency, n);
+  while (date <= after) {
+    date = programmeRunDate(startsOn, frequency, ++n);
+  }
+  return date;
+}
+
+/** Whether the programme's indicators include any the exit rule can check */
+export function hasCheckableTarget(indicators: string[]): boolean {
+  return indicators.some(code => BP_TARGET_INDICATORS.includes(code) || HBA1C_TARGET_INDICATORS.includes(code));
+}
+
+export interface TargetCheck {
+  atTarget: boolean;
+  // Values the decision was based on, stored with the exit
+  details: Record<string, unknown>;
+}
+
+/**
+ * A patient has reached target when, for every checkable indicator in the
+ * programme, their latest value recorded since joining the programme is within
+ * the practice target. Only clinician-verified call readings count, so a
+ * misheard reading can never stop a patient being monitored.
+ */
+export function checkProgrammeTarget(
+  indicators: string[],
+  patient: RulePatient,
+  verifiedReadings: RuleReading[],
+  joinedAt: string,
+  thresholds: ClinicalThresholds = DEFAULT_CLINICAL_THRESHOLDS,
+  now: Date = new Date(),
+): TargetCheck {
+  if (!hasCheckableTarget(indicators)) return { atTarget: false, details: {} };
+
+  const joined = new Date(joinedAt).getTime();
+  const sinceJoining = verifiedReadings.filter(r => new Date(r.collected_at).getTime() >= joined);
+  const ctx = buildRuleContext(patient, sinceJoining, thresholds, now);
+  const details: Record<string, unknown> = {};
+
+  if (indicators.some(code => BP_TARGET_INDICATORS.includes(code))) {
+    if (!ctx.bp) return { atTarget: false, details };
+    const target = bpTarget(ctx.age, thresholds);
+    details.bp = `${ctx.bp.systolic}/${ctx.bp.diastolic}`;
+    details.bpTarget = `${target.systolic}/${target.diastolic}`;
+    if (ctx.bp.systolic > target.systolic || ctx.bp.diastolic > target.diastolic) return { atTarget: false, details };
+  }
+
+  if (indicators.some(code => HBA1C_TARGET_INDICATORS.includes(code))) {
+    // hba1c_date is a date, so a result from the day the patient joined counts
+    const recordedSinceJoining = !!patient.hba1c_date && patient.hba1c_date.slice(0, 10) >= joinedAt.slice(0, 10);
+    if (patient.hba1c_mmol_mol == null || !recordedSinceJoining) return { atTarget: false, details };
+    const target = hba1cTarget(ctx.isFrail, thresholds);
+    details.hba1c = patient.hba1c_mmol_mol;
+    details.hba1cTarget = target;
+    if (patient.hba1c_mmol_mol > target) return { atTarget: false, details };
+  }
+
+  return { atTarget: true, details };
+}
@@ -0,0 +1,34 @@
+/**
+ * Run with: deno test supabase/functions/_shared/call-retry.test.ts
+ */
+
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { getRetryBlockReason, getRetryDelayMinutes } from "./call-retry.ts";
+
+const BATCH = "batch-current";
+const PATIENT = { date_of_death: null };
+
+Deno.test("retries a patient with no declined or completed calls", () => {
+  assertEquals(getRetryBlockReason(BATCH, PATIENT, []), null);
+  assertEquals(getRetryBlockReason(BATCH, PATIENT, [{ batch_id: "batch-earlier", status: "completed" }]), null);
+});
+
+Deno.test("does not retry a patient who declined consent in an earlier batch or a callback", () => {
+  assertEquals(
+    getRetryBlockReason(BATCH, PATIENT, [{ batch_id: "batch-earlier", status: "declined" }]),
+    "patient_opted_out",
+  );
+  assertEquals(getRetryBlockReason(BATCH, PATIENT, [{ batch_id: null, status: "declined" }]), "patient_opted_out");
+});
+
+Deno.test("does not retry a patient already reached in this batch, who has died or is missing", () => {
+  assertEquals(getRetryBlockReason(BATCH, PATIENT, [{ batch_id: BATCH, status: "completed" }]), "patient_settled");
+  assertEquals(getRetryBlockReason(BATCH, { date_of_death: "2026-10-01" }, []), "patient_deceased");
+  assertEquals(getRetryBlockReason(BATCH, null, []), "patient_not_found");
+});
+
+Deno.test("back-off repeats its last delay", () => {
+  assertEquals(getRetryDelayMinutes(1, [30, 60]), 30);
+  assertEquals(getRetryDelayMinutes(5, [30, 60]), 60);
+  assertEquals(getRetryDelayMinutes(1, null), 120);
+});
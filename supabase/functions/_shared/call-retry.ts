@@ -0,0 +1,158 @@
+/**
+ * Shared call retry engine
+ * When a batch call ends unanswered or failed, queue the patient's next attempt
+ * after the batch's back-off delay, moved into the next permitted calling window.
+ * Patients who have died, who declined consent on any call, or who have
+ * already completed a call in the batch, are never called again.
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  buildCallingRules,
+  getNextCallTime,
+  loadCallingContext,
+  parsePreferredCallTime,
+} from "./call-scheduling.ts";
+
+export const RETRYABLE_STATUSES = ["no_answer", "failed"];
+
+const DEFAULT_BACKOFF_MINUTES = [120, 1440];
+
+/** Earlier call outcomes that can rule out a retry */
+export interface PriorCall {
+  batch_id: string | null;
+  status: string;
+}
+
+export interface RetryResult {
+  scheduled: boolean;
+  reason: string;
+  attemptNumber?: number;
+  scheduledFor?: string;
+}
+
+/** Delay before the retry that follows `attemptNumber`; the last value repeats */
+export function getRetryDelayMinutes(attemptNumber: number, backoff: number[] | null): number {
+  const delays = backoff && backoff.length > 0 ? backoff : DEFAULT_BACKOFF_MINUTES;
+  return delays[Math.min(attemptNumber - 1, delays.length - 1)];
+}
+
+/**
+ * Why the patient must not be re-dialled for this batch, or null when a retry
+ * may go ahead. Declining consent opts the patient out wherever it happened: in
+ * this batch, an earlier one, or an inbound callback.
+ */
+export function getRetryBlockReason(
+  batchId: string,
+  patient: { date_of_death: string | null } | null,
+  priorCalls: PriorCall[],
+): string | null {
+  if (!patient) return "patient_not_found";
+  if (patient.date_of_death) return "patient_deceased";
+  if (priorCalls.some(c => c.status === "declined")) return "patient_opted_out";
+  if (priorCalls.some(c => c.batch_id === batchId && c.status === "completed")) return "patient_settled";
+  return null;
+}
+
+/**
+ * Queue the next attempt for a batch call that just ended.
+ * Safe to call more than once for the same call: the queue's unique
+ * (batch, patient, attempt) key stops a second retry being created.
+ */
+export async function scheduleRetryForCall(supabase: SupabaseClient, callId: string): Promise<RetryResult> {
+  const { data: call, error: callError } = await supabase
+    .from("calls")
+    .select("id, patient_id, batch_id, status, attempt_number")
+    .eq("id", callId)
+    .single();
+
+  if (callError || !call) {
+    return { scheduled: false, reason: "call_not_found" };
+  }
+  if (!call.batch_id) {
+    return { scheduled: false, reason: "not_batch_call" };
+  }
+  if (!RETRYABLE_STATUSES.includes(call.status)) {
+    return { scheduled: false, reason: `status_${call.status}` };
+  }
+
+  const { data: batch, error: batchError } = await supabase
+    .from("call_batches")
+    .select("id, status, retry_attempts, retry_backoff_minutes, scheduled_date, scheduled_time_start, scheduled_time_end")
+    .eq("id", call.batch_id)
+    .single();
+
+  if (batchError || !batch) {
+    return { scheduled: false, reason: "batch_not_found" };
+  }
+  if (batch.status === "cancelled") {
+    return { scheduled: false, reason: "batch_cancelled" };
+  }
+  // retry_attempts counts retries after the first call
+  if (call.attempt_number > batch.retry_attempts) {
+    return { scheduled: false, reason: "retries_exhausted" };
+  }
+
+  // Never re-dial a patient who said no, has died or has since been reached
+  const [{ data: patient }, { data: priorCalls }] = await Promise.all([
+    supabase
+      .from("patients")
+      .select("preferred_call_time, date_of_death")
+      .eq("id", call.patient_id)
+      .single(),
+    supabase
+      .from("calls")
+      .select("batch_id, status")
+      .eq("patient_id", call.patient_id)
+      .in("status", ["declined", "completed"]),
+  ]);
+
+  const blockReason = getRetryBlockReason(call.batch_id, patient, priorCalls || []);
+  if (blockReason) {
+    return { scheduled: false, reason: blockReason };
+  }
+
+  const rules = buildCallingRules(await loadCallingContext(supabase), batch);
+  const earliest = new Date(Date.now() + getRetryDelayMinutes(call.attempt_number, batch.retry_backoff_minutes) * 60_000);
+  const scheduledFor = getNextCallTime(earliest, rules, parsePreferredCallTime(patient?.preferred_call_time));
+
+  if (!scheduledFor) {
+    return { scheduled: false, reason: "no_calling_window" };
+  }
+
+  const attemptNumber = call.attempt_number + 1;
+  const { error: queueError } = await supabase
+    .from("call_queue")
+    .upsert({
+      batch_id: call.batch_id,
+      patient_id: call.patient_id,
+      attempt_number: attemptNumber,
+      scheduled_for: scheduledFor.toISOString(),
+      retry_reason: call.status,
+      status: "queued",
+    }, { onConflict: "batch_id,patient_id,attempt_number", ignoreDuplicates: true });
+
+  if (queueError) {
+    console.error("Error queueing retry:", queueError);
+    return { scheduled: false, reason: "queue_error" };
+  }
+
+  // The worker may have closed the batch while this call was still ringing
+  if (batch.status === "completed") {
+    await supabase
+      .from("call_batches")
+      .update({ status: "in_progress", completed_at: null })
+      .eq("id", batch.id)
+      .eq("status", "completed");
+  }
+
+  await supabase.rpc("log_call_audit", {
+    p_call_id: call.id,
+    p_action: "retry_scheduled",
+    p_actor: "system",
+    p_details: { reason: call.status, attempt_number: attemptNumber, scheduled_for: scheduledFor.toISOString() },
+  });
+
+  console.log("Retry scheduled:", { callId: call.id, attemptNumber, scheduledFor: scheduledFor.toISOString() });
+  return { scheduled: true, reason: call.status, attemptNumber, scheduledFor: scheduledFor.toISOString() };
+}
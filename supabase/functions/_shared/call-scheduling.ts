@@ -0,0 +1,345 @@
+/**
+ * Shared call scheduling rules
+ * Decides when a patient may be dialled: inside the batch window, outside the
+ * practice's quiet hours, on a calling day that is not a bank holiday.
+ * All times are UK local (Europe/London), so BST changes are handled here.
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const TIME_ZONE = "Europe/London";
+const MINUTES_PER_DAY = 24 * 60;
+// How far ahead to look for the next permitted window before giving up
+const MAX_LOOKAHEAD_DAYS = 31;
+
+/** [start, end) in minutes from local midnight */
+export type TimeRange = [number, number];
+
+export interface CallingRules {
+  windowStart: number;
+  windowEnd: number;
+  quietStart: number;
+  quietEnd: number;
+  callingDays: number[]; // ISO weekdays, 1 = Monday
+  holidays: Set<string>; // YYYY-MM-DD
+  earliestDate: string | null; // batch scheduled_date
+}
+
+export interface CallScheduleSettings {
+  quiet_hours_start: string;
+  quiet_hours_end: string;
+  calling_days: number[];
+}
+
+export interface CallingBatchWindow {
+  scheduled_date: string;
+  scheduled_time_start: string;
+  scheduled_time_end: string;
+}
+
+export interface CallingContext {
+  settings: CallScheduleSettings;
+  holidays: Set<string>;
+}
+
+const DEFAULT_SETTINGS: CallScheduleSettings = {
+  quiet_hours_start: "20:00",
+  quiet_hours_end: "09:00",
+  calling_days: [1, 2, 3, 4, 5],
+};
+
+/** "09:30" or "09:30:00" → 570 */
+export function parseClockTime(value: string): number {
+  const [hours, minutes] = value.split(":").map(part => parseInt(part, 10));
+  return (hours || 0) * 60 + (minutes || 0);
+}
+
+/** "1:30pm", "13:30", "9am", "9" → minutes from midnight, or null */
+function parseSpokenTime(value: string): number | null {
+  const match = value.trim().match(/^(\d{1,2})(?:[:.](\d{2}))?\s*(am|pm)?$/i);
+  if (!match) return null;
+
+  let hours = parseInt(match[1], 10);
+  const minutes = match[2] ? parseInt(match[2], 10) : 0;
+  const meridiem = match[3]?.toLowerCase();
+
+  if (meridiem === "pm" && hours < 12) hours += 12;
+  if (meridiem === "am" && hours === 12) hours = 0;
+  // Bare small numbers ("call after 2") are afternoon in practice
+  if (!meridiem && !match[2] && hours >= 1 && hours <= 7) hours += 12;
+
+  if (hours > 23 || minutes > 59) return null;
+  return hours * 60 + minutes;
+}
+
+const NAMED_SLOTS: Record<string, TimeRange> = {
+  "early morning": [8 * 60, 10 * 60],
+  "late morning": [10 * 60, 12 * 60],
+  morning: [9 * 60, 12 * 60],
+  lunchtime: [12 * 60, 14 * 60],
+  lunch: [12 * 60, 14 * 60],
+  "early afternoon": [12 * 60, 15 * 60],
+  "late afternoon": [15 * 60, 17 * 60],
+  afternoon: [12 * 60, 17 * 60],
+  "early evening": [17 * 60, 19 * 60],
+  evening: [17 * 60, 20 * 60],
+};
+
+/**
+ * Interpret the free-text patients.preferred_call_time
+ * e.g. "Morning", "10am-12pm", "after 2pm", "before 11". Returns null when the
+ * text expresses no usable preference ("any time", blank, unparseable).
+ */
+export function parsePreferredCallTime(text: string | null | undefined): TimeRange | null {
+  if (!text) return null;
+  const lower = text.toLowerCase().trim();
+  if (!lower || /any ?time|no preference|flexible/.test(lower)) return null;
+
+  const range = lower.match(/(\d{1,2}(?:[:.]\d{2})?\s*(?:am|pm)?)\s*(?:-|–|to|until|till)\s*(\d{1,2}(?:[:.]\d{2})?\s*(?:am|pm)?)/);
+  if (range) {
+    // "10-12pm": the first bound inherits the meridiem of the second
+    const endMeridiem = range[2].match(/am|pm/)?.[0];
+    const startText = /am|pm/.test(range[1]) || !endMeridiem ? range[1] : `${range[1]}${endMeridiem}`;
+    let start = parseSpokenTime(startText);
+    const end = parseSpokenTime(range[2]);
+    if (start !== null && end !== null && start > end && endMeridiem === "pm") {
+      start = parseSpokenTime(`${range[1]}am`);
+    }
+    if (start !== null && end !== null && start < end) return [start, end];
+  }
+
+  const after = lower.match(/(?:after|from|not before)\s+(\d{1,2}(?:[:.]\d{2})?\s*(?:am|pm)?)/);
+  if (after) {
+    const start = parseSpokenTime(after[1]);
+    if (start !== null) return [start, MINUTES_PER_DAY];
+  }
+
+  const before = lower.match(/(?:before|by|until|not after)\s+(\d{1,2}(?:[:.]\d{2})?\s*(?:am|pm)?)/);
+  if (before) {
+    const end = parseSpokenTime(before[1]);
+    if (end !== null) return [0, end];
+  }
+
+  for (const [name, slot] of Object.entries(NAMED_SLOTS)) {
+    if (lower.includes(name)) return slot;
+  }
+
+  const single = parseSpokenTime(lower);
+  if (single !== null) return [single, Math.min(single + 60, MINUTES_PER_DAY)];
+
+  return null;
+}
+
+function intersect(a: TimeRange[], b: TimeRange[]): TimeRange[] {
+  const result: TimeRange[] = [];
+  for (const [aStart, aEnd] of a) {
+    for (const [bStart, bEnd] of b) {
+      const start = Math.max(aStart, bStart);
+      const end = Math.min(aEnd, bEnd);
+      if (start < end) result.push([start, end]);
+    }
+  }
+  return result.sort((x, y) => x[0] - y[0]);
+}
+
+/** The part of a day left once quiet hours (which may wrap midnight) are removed */
+function outsideQuietHours(quietStart: number, quietEnd: number): TimeRange[] {
+  if (quietStart === quietEnd) return [[0, MINUTES_PER_DAY]];
+  if (quietStart > quietEnd) return [[quietEnd, quietStart]];
+  return [[0, quietStart], [quietEnd, MINUTES_PER_DAY]].filter(([s, e]) => s < e) as TimeRange[];
+}
+
+/** Local (Europe/London) calendar date, minutes past midnight and ISO weekday for an instant */
+export function getLocalParts(at: Date): { date: string; minutes: number; weekday: number } {
+  const parts = new Intl.DateTimeFormat("en-GB", {
+    timeZone: TIME_ZONE,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(at);
+  const get = (type: string) => parts.find(p => p.type === type)?.value || "00";
+
+  const date = `${get("year")}-${get("month")}-${get("day")}`;
+  const weekday = new Date(`${date}T12:00:00Z`).getUTCDay() || 7;
+  return { date, minutes: parseInt(get("hour"), 10) * 60 + parseInt(get("minute"), 10), weekday };
+}
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T12:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+/** Convert a UK local date + minutes past midnight to a UTC instant */
+export function localToUtc(date: string, minutes: number): Date {
+  const [year, month, day] = date.split("-").map(Number);
+  const guess = Date.UTC(year, month - 1, day, Math.floor(minutes / 60), minutes % 60);
+
+  const offsetAt = (instant: number) => {
+    const local = getLocalParts(new Date(instant));
+    const [ly, lm, ld] = local.date.split("-").map(Number);
+    return (Date.UTC(ly, lm - 1, ld, 0, local.minutes) - instant) / 60_000;
+  };
+
+  // Second pass corrects for instants that straddle a clock change
+  let result = guess - offsetAt(guess) * 60_000;
+  result = guess - offsetAt(result) * 60_000;
+  return new Date(result);
+}
+
+function isCallingDay(date: string, weekday: number, rules: CallingRules): boolean {
+  if (rules.earliestDate && date < rules.earliestDate) return false;
+  if (rules.holidays.has(date)) return false;
+  return rules.callingDays.includes(weekday);
+}
+
+function permittedRanges(rules: CallingRules): TimeRange[] {
+  return intersect(
+    [[rules.windowStart, rules.windowEnd]],
+    outsideQuietHours(rules.quietStart, rules.quietEnd),
+  );
+}
+
+export function buildCallingRules(context: CallingContext, batch?: CallingBatchWindow | null): CallingRules {
+  return {
+    windowStart: batch ? parseClockTime(batch.scheduled_time_start) : 0,
+    windowEnd: batch ? parseClockTime(batch.scheduled_time_end) : MINUTES_PER_DAY,
+    quietStart: parseClockTime(context.settings.quiet_hours_start),
+    quietEnd: parseClockTime(context.settings.quiet_hours_end),
+    callingDays: context.settings.calling_days,
+    holidays: context.holidays,
+    earliestDate: batch?.scheduled_date ?? null,
+  };
+}
+
+/** Whether a call may be placed at this instant */
+export function isCallingAllowed(at: Date, rules: CallingRules): boolean {
+  const local = getLocalParts(at);
+  if (!isCallingDay(local.date, local.weekday, rules)) return false;
+  return permittedRanges(rules).some(([start, end]) => local.minutes >= start && local.minutes < end);
+}
+
+/**
+ * Earliest instant at or after `from` when this patient may be called.
+ * The patient's preferred slot is used when it overlaps the permitted hours
+ * that day; otherwise they are called in whatever permitted time is left, so a
+ * preference orders calls but never pushes a patient out of the batch.
+ * Returns null if no permitted window exists in the lookahead period.
+ */
+export function getNextCallTime(from: Date, rules: CallingRules, preferred?: TimeRange | null): Date | null {
+  const start = getLocalParts(from);
+  const permitted = permittedRanges(rules);
+  if (permitted.length === 0) return null;
+
+  for (let offset = 0; offset <= MAX_LOOKAHEAD_DAYS; offset++) {
+    const date = addDays(start.date, offset);
+    const weekday = ((start.weekday - 1 + offset) % 7) + 1;
+    if (!isCallingDay(date, weekday, rules)) continue;
+
+    const notBefore = offset === 0 ? start.minutes : 0;
+    const candidates = preferred ? [intersect(permitted, [preferred]), permitted] : [permitted];
+
+    for (const ranges of candidates) {
+      const range = ranges.find(([, end]) => end > notBefore);
+      if (range) {
+        return offset === 0 && range[0] <= notBefore ? from : localToUtc(date, Math.max(range[0], notBefore));
+      }
+    }
+  }
+
+  return null;
+}
+
+/** Load practice quiet hours, calling days and upcoming bank holidays */
+export async function loadCallingContext(supabase: SupabaseClient): Promise<CallingContext> {
+  const today = getLocalParts(new Date()).date;
+
+  const [{ data: settings }, { data: holidays }] = await Promise.all([
+    supabase
+      .from("call_schedule_settings")
+      .select("quiet_hours_start, quiet_hours_end, calling_days")
+      .limit(1)
+      .maybeSingle(),
+    supabase
+      .from("bank_holidays")
+      .select("holiday_date")
+      .gte("holiday_date", addDays(today, -1))
+      .lte("holiday_date", addDays(today, MAX_LOOKAHEAD_DAYS + 366)),
+  ]);
+
+  return {
+    settings: settings || DEFAULT_SETTINGS,
+    holidays: new Set((holidays || []).map((h: { holiday_date: string }) => h.holiday_date)),
+  };
+}
+
+interface QueuedPatient {
+  patient_id: string;
+  priority: number;
+  patients: { preferred_call_time: string | null } | null;
+}
+
+/**
+ * Queue a first attempt for every patient in a batch, each in the first
+ * permitted slot of the batch window at their preferred time of day where they
+ * have one, and mark the batch in progress. The unique (batch, patient, attempt)
+ * key makes this idempotent, so starting or resuming twice never double-queues.
+ */
+export async function queueBatchCalls(
+  supabase: SupabaseClient,
+  batch: CallingBatchWindow & { id: string; started_at: string | null },
+): Promise<number> {
+  const { data: batchPatients, error: patientsError } = await supabase
+    .from("batch_patients")
+    .select("patient_id, priority, patients (preferred_call_time)")
+    .eq("batch_id", batch.id)
+    .order("priority")
+    .overrideTypes<QueuedPatient[], { merge: false }>();
+
+  if (patientsError) {
+    throw patientsError;
+  }
+
+  console.log(`Found ${batchPatients?.length || 0} patients in batch`);
+
+  const rules = buildCallingRules(await loadCallingContext(supabase), batch);
+  const now = new Date();
+
+  if (batchPatients && batchPatients.length > 0) {
+    const { error: queueError } = await supabase
+      .from("call_queue")
+      .upsert(
+        batchPatients.map(bp => {
+          const scheduledFor = getNextCallTime(now, rules, parsePreferredCallTime(bp.patients?.preferred_call_time));
+          return {
+            batch_id: batch.id,
+            patient_id: bp.patient_id,
+            priority: bp.priority,
+            attempt_number: 1,
+            scheduled_for: (scheduledFor || now).toISOString(),
+          };
+        }),
+        { onConflict: "batch_id,patient_id,attempt_number", ignoreDuplicates: true }
+      );
+
+    if (queueError) {
+      throw queueError;
+    }
+  }
+
+  await supabase
+    .from("call_batches")
+    .update({ status: "in_progress", started_at: batch.started_at || now.toISOString() })
+    .eq("id", batch.id);
+
+  const { count: queuedCount } = await supabase
+    .from("call_queue")
+    .select("id", { count: "exact", head: true })
+    .eq("batch_id", batch.id)
+    .eq("status", "queued");
+
+  return queuedCount || 0;
+}
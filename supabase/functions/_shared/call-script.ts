@@ -0,0 +1,165 @@
+/**
+ * Conversation scripts
+ * A script is an ordered list of questions written by clinicians. The same
+ * script produces the voice agent's instructions (what to ask, how to re-ask,
+ * how to close) and the schema used to extract answers from the transcript,
+ * so the two can never drift apart.
+ */
+
+import { parseMeasurement } from "./vital-signs.ts";
+
+export type ScriptAnswerType = "number_range" | "yes_no" | "enum";
+
+export interface ScriptQuestion {
+  key: string; // extraction field, e.g. "blood_pressure_systolic"
+  prompt: string;
+  answer_type: ScriptAnswerType;
+  min?: number | null;
+  max?: number | null;
+  unit?: string | null;
+  options?: string[] | null;
+  required?: boolean;
+  max_reasks?: number;
+  reask_prompt?: string | null;
+}
+
+export interface CallScript {
+  id: string;
+  name: string;
+  version: number;
+  purpose_context: string | null;
+  questions: ScriptQuestion[];
+  closing_statement: string;
+}
+
+/** Script keys that have their own call_responses column; anything else goes to script_answers */
+export const CALL_RESPONSE_COLUMNS = [
+  "blood_pressure_systolic",
+  "blood_pressure_diastolic",
+  "weight_kg",
+  "height_cm",
+  "pulse_rate",
+  "smoking_status",
+  "alcohol_units_per_week",
+  "is_carer",
+];
+
+export type ScriptAnswers = Record<string, number | boolean | string | null>;
+
+function describeExpectedAnswer(question: ScriptQuestion): string {
+  switch (question.answer_type) {
+    case "number_range": {
+      const unit = question.unit ? ` ${question.unit}` : "";
+      if (question.min != null && question.max != null) return `a number between ${question.min} and ${question.max}${unit}`;
+      if (question.min != null) return `a number of at least ${question.min}${unit}`;
+      if (question.max != null) return `a number no more than ${question.max}${unit}`;
+      return `a number${unit}`;
+    }
+    case "yes_no":
+      return "yes or no";
+    case "enum":
+      return `one of: ${(question.options || []).join(", ")}`;
+  }
+}
+
+/**
+ * Instructions for the voice agent. Contains no patient identifiers: it is
+ * passed to the conversation stream as the purpose context.
+ */
+export function buildScriptContext(script: CallScript): string {
+  const lines: string[] = [];
+  if (script.purpose_context) lines.push(script.purpose_context);
+
+  lines.push("Ask the following questions in this order, one at a time:");
+  script.questions.forEach((question, index) => {
+    const reasks = question.max_reasks ?? 1;
+    let line = `${index + 1}. "${question.prompt}" Expect ${describeExpectedAnswer(question)}.`;
+    if (reasks > 0) {
+      const reask = question.reask_prompt ? ` by saying "${question.reask_prompt}"` : "";
+      line += ` If the answer is unclear or not ${describeExpectedAnswer(question)}, ask again${reask}, up to ${reasks} time${reasks === 1 ? "" : "s"}.`;
+    }
+    line += question.required === false
+      ? " The patient may skip this question."
+      : " If there is still no usable answer, note it as unknown and move on.";
+    lines.push(line);
+  });
+
+  lines.push(`When all questions are done, close with: "${script.closing_statement}"`);
+  return lines.join("\n");
+}
+
+function describeSchemaField(question: ScriptQuestion): string {
+  switch (question.answer_type) {
+    case "number_range": {
+      // Units are converted in code (see vital-signs.ts), so ask for the words as said
+      const unit = question.unit ? `, expected in ${question.unit}` : "";
+      return `string or null, the value exactly as the patient said it including any units${unit} (answer to "${question.prompt}")`;
+    }
+    case "yes_no":
+      return `boolean or null (answer to "${question.prompt}")`;
+    case "enum":
+      return `one of ${(question.options || []).map(o => `"${o}"`).join(", ")} or null (answer to "${question.prompt}")`;
+  }
+}
+
+/** JSON shape the extraction model is asked to return for this script */
+export function buildExtractionSchema(script: CallScript): string {
+  const fields = script.questions.map(q => `  "${q.key}": ${describeSchemaField(q)}`);
+  return `{\n${fields.join(",\n")}\n}`;
+}
+
+/**
+ * Coerce extracted values to each question's answer type. Spoken numbers are
+ * parsed and converted to the question's unit; options that are not in the
+ * list become null. Range checks are left to findImplausibleValues so that
+ * out-of-range answers are flagged rather than silently dropped.
+ */
+export function normaliseScriptAnswers(script: CallScript, raw: Record<string, unknown>): ScriptAnswers {
+  const answers: ScriptAnswers = {};
+
+  for (const question of script.questions) {
+    const value = raw[question.key];
+    let normalised: number | boolean | string | null = null;
+
+    if (value !== null && value !== undefined && value !== "") {
+      switch (question.answer_type) {
+        case "number_range":
+          normalised = parseMeasurement(value, question.unit);
+          break;
+        case "yes_no":
+          if (typeof value === "boolean") normalised = value;
+          else if (/^(yes|y|true)$/i.test(String(value))) normalised = true;
+          else if (/^(no|n|false)$/i.test(String(value))) normalised = false;
+          break;
+        case "enum": {
+          const match = (question.options || []).find(o => o.toLowerCase() === String(value).toLowerCase());
+          normalised = match ?? null;
+          break;
+        }
+      }
+    }
+
+    answers[question.key] = normalised;
+  }
+
+  return answers;
+}
+
+/** Split answers into call_responses columns and the script_answers JSON */
+export function splitScriptAnswers(answers: ScriptAnswers): {
+  columns: ScriptAnswers;
+  scriptAnswers: ScriptAnswers | null;
+} {
+  const columns: ScriptAnswers = {};
+  const scriptAnswers: ScriptAnswers = {};
+
+  for (const [key, value] of Object.entries(answers)) {
+    if (CALL_RESPONSE_COLUMNS.includes(key)) {
+      columns[key] = value;
+    } else {
+      scriptAnswers[key] = value;
+    }
+  }
+
+  return { columns, scriptAnswers: Object.keys(scriptAnswers).length > 0 ? scriptAnswers : null };
+}
@@ -0,0 +1,15 @@
+/**
+ * Run with: deno test supabase/functions/_shared/clinical-rules-fixtures.test.ts
+ */
+
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { checkClinicalRuleFixtures, CLINICAL_RULE_FIXTURES } from "./clinical-rules-fixtures.ts";
+
+Deno.test("clinical rules give every fixture patient its expected outcomes", () => {
+  assertEquals(checkClinicalRuleFixtures(), []);
+});
+
+Deno.test("fixture names are unique", () => {
+  const names = CLINICAL_RULE_FIXTURES.map(fixture => fixture.name);
+  assertEquals(new Set(names).size, names.length);
+});
@@ -0,0 +1,147 @@
+/**
+ * Clinical rule fixtures
+ * Known patients and the outcomes CLINICAL_RULES must give them, evaluated at a
+ * fixed date. Update the expectations alongside any rule version bump;
+ * clinical-rules-fixtures.test.ts runs checkClinicalRuleFixtures() to confirm
+ * the library still agrees.
+ */
+
+import {
+  CLINICAL_RULES_VERSION,
+  evaluateClinicalRules,
+  RulePatient,
+  RulePriority,
+  RuleReading,
+} from "./clinical-rules.ts";
+
+export interface ClinicalRuleFixture {
+  name: string;
+  patient: RulePatient;
+  readings: RuleReading[];
+  expected: { ruleId: string; code: string; priority: RulePriority; dueWithinDays: number }[];
+}
+
+export const FIXTURE_DATE = new Date("2026-10-01T09:00:00Z");
+
+const basePatient: RulePatient = {
+  id: "fixture",
+  date_of_birth: null,
+  conditions: [],
+  medications: [],
+  hba1c_mmol_mol: null,
+  hba1c_date: null,
+  frailty_status: null,
+  last_review_date: "2026-06-01",
+  cha2ds2_vasc_score: null,
+};
+
+const reading = (values: Partial<RuleReading>, collectedAt = "2026-09-20T10:00:00Z"): RuleReading => ({
+  blood_pressure_systolic: null,
+  blood_pressure_diastolic: null,
+  smoking_status: "never_smoked",
+  collected_at: collectedAt,
+  ...values,
+});
+
+export const CLINICAL_RULE_FIXTURES: ClinicalRuleFixture[] = [
+  {
+    name: "Hypertension under 80 above 140/90",
+    patient: { ...basePatient, id: "hyp-65", date_of_birth: "1961-03-14", conditions: ["Essential hypertension"] },
+    readings: [reading({ blood_pressure_systolic: 150, blood_pressure_diastolic: 85 })],
+    expected: [{ ruleId: "hyp-uncontrolled", code: "HYP008", priority: "high", dueWithinDays: 7 }],
+  },
+  {
+    name: "Hypertension over 80 within 150/90",
+    patient: { ...basePatient, id: "hyp-85", date_of_birth: "1941-02-02", conditions: ["Hypertension"] },
+    readings: [reading({ blood_pressure_systolic: 145, blood_pressure_diastolic: 80 })],
+    expected: [],
+  },
+  {
+    name: "Severe hypertension",
+    patient: { ...basePatient, id: "hyp-severe", date_of_birth: "1966-07-21", conditions: ["Hypertension"] },
+    readings: [reading({ blood_pressure_systolic: 185, blood_pressure_diastolic: 100 })],
+    expected: [{ ruleId: "hyp-uncontrolled", code: "HYP008", priority: "critical", dueWithinDays: 1 }],
+  },
+  {
+    name: "Diabetes HbA1c above 58",
+    patient: {
+      ...basePatient,
+      id: "dm-62",
+      date_of_birth: "1971-05-09",
+      conditions: ["Type 2 diabetes"],
+      medications: ["Metformin 500mg", "Atorvastatin 20mg"],
+      hba1c_mmol_mol: 62,
+      hba1c_date: "2026-08-01",
+    },
+    readings: [reading({})],
+    expected: [{ ruleId: "dm-hba1c-high", code: "DM006", priority: "high", dueWithinDays: 14 }],
+  },
+  {
+    name: "Frail diabetic within relaxed HbA1c target",
+    patient: {
+      ...basePatient,
+      id: "dm-frail",
+      date_of_birth: "1948-01-30",
+      conditions: ["Type 2 diabetes"],
+      medications: ["Simvastatin 40mg"],
+      hba1c_mmol_mol: 70,
+      hba1c_date: "2026-07-15",
+      frailty_status: "moderate",
+    },
+    readings: [reading({})],
+    expected: [],
+  },
+  {
+    name: "Diabetes with no HbA1c and no statin",
+    patient: { ...basePatient, id: "dm-new", date_of_birth: "1976-11-11", conditions: ["Diabetes"] },
+    readings: [reading({})],
+    expected: [
+      { ruleId: "dm-hba1c-due", code: "DM006", priority: "high", dueWithinDays: 14 },
+      { ruleId: "dm-statin", code: "DM034", priority: "medium", dueWithinDays: 30 },
+    ],
+  },
+  {
+    name: "AF aged 75+ without anticoagulation",
+    patient: { ...basePatient, id: "af-76", date_of_birth: "1950-04-04", conditions: ["Atrial fibrillation"] },
+    readings: [reading({})],
+    expected: [{ ruleId: "af-anticoagulation", code: "AF007", priority: "critical", dueWithinDays: 3 }],
+  },
+  {
+    name: "Raised BP and high alcohol with no diagnosis",
+    patient: { ...basePatient, id: "no-ltc", date_of_birth: "1980-08-08" },
+    readings: [reading({ blood_pressure_systolic: 150, blood_pressure_diastolic: 95, alcohol_units_per_week: 25 })],
+    expected: [
+      { ruleId: "bp-raised-undiagnosed", code: "NG136", priority: "high", dueWithinDays: 14 },
+      { ruleId: "alcohol-high", code: "PH24", priority: "high", dueWithinDays: 14 },
+    ],
+  },
+  {
+    name: "Unintentional weight loss over 10%",
+    patient: { ...basePatient, id: "weight-loss", date_of_birth: "1955-12-25" },
+    readings: [
+      reading({ weight_kg: 70, height_cm: 170 }, "2026-09-20T10:00:00Z"),
+      reading({ weight_kg: 80, height_cm: 170 }, "2026-03-20T10:00:00Z"),
+    ],
+    expected: [{ ruleId: "weight-change", code: "CG32", priority: "high", dueWithinDays: 7 }],
+  },
+  {
+    name: "Asthma review overdue",
+    patient: { ...basePatient, id: "asthma", date_of_birth: "1990-01-01", conditions: ["Asthma"], last_review_date: "2025-01-01" },
+    readings: [reading({})],
+    expected: [{ ruleId: "asthma-review", code: "AST007", priority: "medium", dueWithinDays: 30 }],
+  },
+];
+
+/** Fixtures whose outcomes no longer match; empty when the library agrees */
+export function checkClinicalRuleFixtures(): { name: string; expected: string[]; actual: string[] }[] {
+  const describe = (o: { ruleId: string; code: string; priority: string; dueWithinDays: number }) =>
+    `${o.ruleId} ${o.code} ${o.priority} ${o.dueWithinDays}d`;
+
+  return CLINICAL_RULE_FIXTURES
+    .map(fixture => {
+      const actual = evaluateClinicalRules(fixture.patient, fixture.readings, { now: FIXTURE_DATE }).map(describe);
+      const expected = fixture.expected.map(describe);
+      return { name: `${fixture.name} (rules ${CLINICAL_RULES_VERSION})`, expected, actual };
+    })
+    .filter(result => result.expected.join("|") !== result.actual.join("|"));
+}
@@ -0,0 +1,833 @@
+/**
+ * Clinical rules engine
+ * The single declarative library of QOF, NICE, KPI and safety rules. It has no
+ * imports so the browser (src/lib/clinical-analysis.ts) and the edge functions
+ * (clinical-actions, ai-health-analysis) evaluate exactly the same rules, and a
+ * patient gets the same action, priority and due window on every surface.
+ *
+ * Bump a rule's version whenever its logic or wording changes, and
+ * CLINICAL_RULES_VERSION whenever any rule changes; both are stored on the
+ * tasks and alerts raised from a rule. Expected outcomes for known patients are
+ * kept in clinical-rules-fixtures.ts.
+ */
+
+export const CLINICAL_RULES_VERSION = "2026.10.1";
+
+export type RulePriority = "critical" | "high" | "medium" | "low";
+export type RuleCategory = "QOF" | "NICE" | "KPI" | "Safety";
+
+/** Patient record fields the rules read; no identifying fields are needed */
+export interface RulePatient {
+  id: string;
+  date_of_birth: string | null;
+  conditions: string[] | null;
+  medications: string[] | null;
+  hba1c_mmol_mol: number | null;
+  hba1c_date: string | null;
+  frailty_status: string | null;
+  last_review_date: string | null;
+  cha2ds2_vasc_score: number | null;
+}
+
+/** Call response fields the rules read */
+export interface RuleReading {
+  id?: string;
+  blood_pressure_systolic: number | null;
+  blood_pressure_diastolic: number | null;
+  smoking_status: string | null;
+  collected_at: string;
+  alcohol_units_per_week?: number | null;
+  weight_kg?: number | null;
+  height_cm?: number | null;
+}
+
+export const DEFAULT_CLINICAL_THRESHOLDS = {
+  // Hypertension (NICE NG136, QOF HYP008/HYP009)
+  bpTargetSystolic: 140,
+  bpTargetSystolicElderly: 150,
+  bpTargetDiastolic: 90,
+  bpElderlyAge: 80,
+  bpSevereSystolic: 180,
+  bpSevereDiastolic: 120,
+  bpPersistentReadings: 3,
+  // Diabetes (QOF DM006/DM012)
+  hba1cTarget: 58,
+  hba1cTargetFrail: 75,
+  hba1cVeryHigh: 86,
+  hba1cRetestMonths: 6,
+  statinAge: 40,
+  // Cholesterol (QOF CHOL004)
+  ldlTarget: 2.0,
+  // Atrial fibrillation (QOF AF007)
+  cha2ds2VascAnticoagulation: 2,
+  // Lifestyle
+  alcoholUnitsLimit: 14,
+  alcoholUnitsHigh: 21,
+  bmiObese: 30,
+  bmiSevereObese: 40,
+  weightChangePercent: 5,
+  weightChangePercentHigh: 10,
+  // Medication burden (NICE NG5, CG161)
+  polypharmacyCount: 10,
+  fallsMedicationCount: 5,
+  // Reviews
+  reviewIntervalMonths: 12,
+  annualReviewMinConditions: 2,
+  // Escalation: minutes to acknowledge a critical alert before it escalates
+  criticalAlertAckMinutes: 30,
+};
+
+export type ClinicalThresholds = typeof DEFAULT_CLINICAL_THRESHOLDS;
+
+/** Everything a rule needs, worked out once per patient */
+export interface RuleContext {
+  patient: RulePatient;
+  // Newest first
+  readings: RuleReading[];
+  thresholds: ClinicalThresholds;
+  age: number | null;
+  bp: { systolic: number; diastolic: number } | null;
+  smokingStatus: string | null;
+  monthsSinceReview: number | null;
+  monthsSinceHba1c: number | null;
+  isFrail: boolean;
+}
+
+/** What a rule returns when it fires */
+export interface RuleFinding {
+  reason: string;
+  actionRequired: string;
+  priority: RulePriority;
+  // Use the rule's urgent due window instead of its normal one
+  urgent?: boolean;
+  // Overrides for rules that report more than one QOF indicator or title
+  code?: string;
+  title?: string;
+  metrics?: Record<string, unknown>;
+}
+
+export interface ClinicalRule {
+  id: string;
+  version: number;
+  category: RuleCategory;
+  code: string;
+  title: string;
+  dueWithinDays: number;
+  urgentDueWithinDays?: number;
+  // Also raised as a health_alerts row (clinical risk rather than housekeeping)
+  alert?: { type: string };
+  evaluate(ctx: RuleContext): RuleFinding | null;
+}
+
+/** A fired rule, identical wherever it is shown or stored */
+export interface RuleOutcome {
+  ruleId: string;
+  ruleVersion: number;
+  rulesetVersion: string;
+  patientId: string;
+  category: RuleCategory;
+  code: string;
+  title: string;
+  reason: string;
+  actionRequired: string;
+  priority: RulePriority;
+  dueWithinDays: number;
+  alertType: string | null;
+  metrics: Record<string, unknown>;
+}
+
+/** Practice overrides applied on top of the defaults */
+export interface RuleSettings {
+  thresholds?: Partial<ClinicalThresholds>;
+  disabledRules?: string[];
+  dueWithinDays?: Record<string, number>;
+  now?: Date;
+}
+
+// ========== Helpers ==========
+
+export const STATINS = ["Statin", "Atorvastatin", "Simvastatin", "Rosuvastatin", "Pravastatin"];
+export const ANTICOAGULANTS = ["Warfarin", "Apixaban", "Rivaroxaban", "Edoxaban", "Dabigatran"];
+export const ACEI_ARB = ["ACE", "ARB", "Ramipril", "Lisinopril", "Enalapril", "Losartan", "Candesartan", "Valsartan", "Entresto", "Sacubitril"];
+export const BETA_BLOCKERS = ["Beta-blocker", "Bisoprolol", "Carvedilol", "Nebivolol", "Metoprolol"];
+const HIGH_RISK_MEDICATIONS = ["Methotrexate", "Azathioprine", "Lithium", "Ciclosporin"];
+
+export const DIABETES = ["Diabetes", "Type 2 diabetes", "Type 1 diabetes", "T2DM", "T1DM"];
+export const CVD = ["CHD", "Coronary", "Stroke", "MI", "TIA", "Cardiovascular"];
+
+// Abbreviations ("AF", "MI", "TIA", "ACE") match whole words only, so that
+// "Essential hypertension" is not read as TIA or "Migraine" as MI
+const matchesTerm = (text: string, term: string): boolean =>
+  /^[A-Z0-9&]{2,5}$/.test(term)
+    ? new RegExp(`\\b${term}\\b`, "i").test(text)
+    : text.toLowerCase().includes(term.toLowerCase());
+
+export function hasCondition(patient: Pick<RulePatient, "conditions">, ...conditions: string[]): boolean {
+  return conditions.some(c => patient.conditions?.some(pc => matchesTerm(pc, c)));
+}
+
+export function hasMedication(patient: Pick<RulePatient, "medications">, ...meds: string[]): boolean {
+  return meds.some(m => patient.medications?.some(pm => matchesTerm(pm, m)));
+}
+
+const hasAtrialFibrillation = (patient: RulePatient) => hasCondition(patient, "AF", "Atrial fibrillation");
+
+const isHypertensive = (patient: RulePatient) => hasCondition(patient, "Hypertension");
+
+export function wholeYearsBetween(from: Date, to: Date): number {
+  let years = to.getFullYear() - from.getFullYear();
+  if (to.getMonth() < from.getMonth() || (to.getMonth() === from.getMonth() && to.getDate() < from.getDate())) {
+    years--;
+  }
+  return years;
+}
+
+export function wholeMonthsBetween(from: Date, to: Date): number {
+  let months = (to.getFullYear() - from.getFullYear()) * 12 + (to.getMonth() - from.getMonth());
+  if (to.getDate() < from.getDate()) months--;
+  return months;
+}
+
+export function calculateBMI(weightKg: number, heightCm: number): number {
+  const heightM = heightCm / 100;
+  return weightKg / (heightM * heightM);
+}
+
+/** Systolic/diastolic target for the patient's age */
+export function bpTarget(age: number | null, thresholds: ClinicalThresholds): { systolic: number; diastolic: number } {
+  const elderly = age !== null && age >= thresholds.bpElderlyAge;
+  return {
+    systolic: elderly ? thresholds.bpTargetSystolicElderly : thresholds.bpTargetSystolic,
+    diastolic: thresholds.bpTargetDiastolic,
+  };
+}
+
+/** HbA1c target, relaxed for moderate or severe frailty */
+export function hba1cTarget(isFrail: boolean, thresholds: ClinicalThresholds): number {
+  return isFrail ? thresholds.hba1cTargetFrail : thresholds.hba1cTarget;
+}
+
+const isAboveTarget = (bp: { systolic: number; diastolic: number }, target: { systolic: number; diastolic: number }) =>
+  bp.systolic > target.systolic || bp.diastolic > target.diastolic;
+
+const isSevereBp = (bp: { systolic: number; diastolic: number }, thresholds: ClinicalThresholds) =>
+  bp.systolic >= thresholds.bpSevereSystolic || bp.diastolic >= thresholds.bpSevereDiastolic;
+
+const reviewOverdue = (ctx: RuleContext) =>
+  ctx.monthsSinceReview === null || ctx.monthsSinceReview > ctx.thresholds.reviewIntervalMonths;
+
+const lastReviewReason = (ctx: RuleContext, noneText: string) =>
+  ctx.monthsSinceReview !== null ? `Last review ${ctx.monthsSinceReview} months ago` : noneText;
+
+export function buildRuleContext(
+  patient: RulePatient,
+  readings: RuleReading[],
+  thresholds: ClinicalThresholds = DEFAULT_CLINICAL_THRESHOLDS,
+  now: Date = new Date(),
+): RuleContext {
+  const sorted = [...readings].sort((a, b) => new Date(b.collected_at).getTime() - new Date(a.collected_at).getTime());
+  const latestBp = sorted.find(r => r.blood_pressure_systolic && r.blood_pressure_diastolic);
+
+  return {
+    patient,
+    readings: sorted,
+    thresholds,
+    age: patient.date_of_birth ? wholeYearsBetween(new Date(patient.date_of_birth), now) : null,
+    bp: latestBp ? { systolic: latestBp.blood_pressure_systolic!, diastolic: latestBp.blood_pressure_diastolic! } : null,
+    smokingStatus: sorted.find(r => r.smoking_status)?.smoking_status ?? null,
+    monthsSinceReview: patient.last_review_date ? wholeMonthsBetween(new Date(patient.last_review_date), now) : null,
+    monthsSinceHba1c: patient.hba1c_date ? wholeMonthsBetween(new Date(patient.hba1c_date), now) : null,
+    isFrail: patient.frailty_status === "moderate" || patient.frailty_status === "severe",
+  };
+}
+
+// ========== Rules ==========
+
+export const CLINICAL_RULES: ClinicalRule[] = [
+  // ----- QOF -----
+  {
+    id: "hyp-no-bp",
+    version: 1,
+    category: "QOF",
+    code: "HYP008",
+    title: "Blood Pressure Check Required",
+    dueWithinDays: 14,
+    evaluate: (ctx) => {
+      if (!isHypertensive(ctx.patient) || ctx.bp) return null;
+      const elderly = ctx.age !== null && ctx.age >= ctx.thresholds.bpElderlyAge;
+      return {
+        code: elderly ? "HYP009" : "HYP008",
+        reason: "No BP reading on record for hypertensive patient",
+        actionRequired: "Record BP and review hypertension management",
+        priority: "high",
+      };
+    },
+  },
+  {
+    id: "hyp-uncontrolled",
+    version: 1,
+    category: "QOF",
+    code: "HYP008",
+    title: "Hypertension Not Controlled",
+    dueWithinDays: 7,
+    urgentDueWithinDays: 1,
+    alert: { type: "high_bp" },
+    evaluate: (ctx) => {
+      if (!isHypertensive(ctx.patient) || !ctx.bp) return null;
+      const target = bpTarget(ctx.age, ctx.thresholds);
+      if (!isAboveTarget(ctx.bp, target)) return null;
+      const severe = isSevereBp(ctx.bp, ctx.thresholds);
+      const elderly = ctx.age !== null && ctx.age >= ctx.thresholds.bpElderlyAge;
+      return {
+        code: elderly ? "HYP009" : "HYP008",
+        reason: `BP ${ctx.bp.systolic}/${ctx.bp.diastolic} exceeds target ≤${target.systolic}/${target.diastolic}`,
+        actionRequired: severe
+          ? "URGENT: Medication review and consider same-day assessment"
+          : "Medication review and lifestyle counselling",
+        priority: severe ? "critical" : "high",
+        urgent: severe,
+        metrics: { systolic: ctx.bp.systolic, diastolic: ctx.bp.diastolic },
+      };
+    },
+  },
+  {
+    id: "dm-hba1c-due",
+    version: 1,
+    category: "QOF",
+    code: "DM006",
+    title: "HbA1c Test Required",
+    dueWithinDays: 14,
+    evaluate: (ctx) => {
+      if (!hasCondition(ctx.patient, ...DIABETES)) return null;
+      const hba1c = ctx.patient.hba1c_mmol_mol;
+      const stale = ctx.monthsSinceHba1c !== null && ctx.monthsSinceHba1c > ctx.thresholds.hba1cRetestMonths;
+      if (hba1c && !stale) return null;
+      return {
+        code: ctx.isFrail ? "DM012" : "DM006",
+        reason: hba1c ? `HbA1c last checked ${ctx.monthsSinceHba1c} months ago` : "No HbA1c on record",
+        actionRequired: "Order HbA1c blood test and diabetes review",
+        priority: "high",
+      };
+    },
+  },
+  {
+    id: "dm-hba1c-high",
+    version: 1,
+    category: "QOF",
+    code: "DM006",
+    title: "Diabetes Control Sub-optimal",
+    dueWithinDays: 14,
+    urgentDueWithinDays: 7,
+    alert: { type: "high_hba1c" },
+    evaluate: (ctx) => {
+      if (!hasCondition(ctx.patient, ...DIABETES)) return null;
+      const hba1c = ctx.patient.hba1c_mmol_mol;
+      const stale = ctx.monthsSinceHba1c !== null && ctx.monthsSinceHba1c > ctx.thresholds.hba1cRetestMonths;
+      // A missing or out-of-date result is dm-hba1c-due's job
+      if (!hba1c || stale) return null;
+      const target = hba1cTarget(ctx.isFrail, ctx.thresholds);
+      if (hba1c <= target) return null;
+      const veryHigh = hba1c > ctx.thresholds.hba1cVeryHigh;
+      return {
+        code: ctx.isFrail ? "DM012" : "DM006",
+        reason: `HbA1c ${hba1c} mmol/mol exceeds target ≤${target}`,
+        actionRequired: veryHigh
+          ? "URGENT: Diabetes medication intensification and dietary review"
+          : "Diabetes medication review and lifestyle counselling",
+        priority: veryHigh ? "critical" : "high",
+        urgent: veryHigh,
+        metrics: { hba1c_mmol_mol: hba1c, target },
+      };
+    },
+  },
+  {
+    id: "dm-statin",
+    version: 1,
+    category: "QOF",
+    code: "DM034",
+    title: "Statin Therapy Required",
+    dueWithinDays: 30,
+    evaluate: (ctx) => {
+      if (!hasCondition(ctx.patient, ...DIABETES)) return null;
+      const hasCvd = hasCondition(ctx.patient, ...CVD);
+      const oldEnough = ctx.age !== null && ctx.age >= ctx.thresholds.statinAge;
+      if (!oldEnough && !hasCvd) return null;
+      if (hasMedication(ctx.patient, ...STATINS)) return null;
+      return {
+        code: hasCvd ? "DM035" : "DM034",
+        reason: hasCvd
+          ? "Diabetic with CVD history, not on statin"
+          : `Diabetic aged ${ctx.thresholds.statinAge}+, not on statin`,
+        actionRequired: "Review for statin initiation (Atorvastatin 20mg)",
+        priority: hasCvd ? "high" : "medium",
+      };
+    },
+  },
+  {
+    id: "chol-statin",
+    version: 1,
+    category: "QOF",
+    code: "CHOL003",
+    title: "CVD Secondary Prevention - Statin",
+    dueWithinDays: 7,
+    evaluate: (ctx) => {
+      if (!hasCondition(ctx.patient, "CHD", "Coronary", "PAD", "Peripheral arterial", "Stroke", "TIA", "CKD")) return null;
+      if (hasMedication(ctx.patient, ...STATINS)) return null;
+      return {
+        reason: "High-risk cardiovascular patient not on lipid-lowering therapy",
+        actionRequired: "Initiate high-intensity statin (Atorvastatin 80mg)",
+        priority: "high",
+      };
+    },
+  },
+  {
+    id: "af-anticoagulation",
+    version: 1,
+    category: "QOF",
+    code: "AF007",
+    title: "Anticoagulation Required for AF",
+    dueWithinDays: 3,
+    alert: { type: "anticoagulation" },
+    evaluate: (ctx) => {
+      if (!hasAtrialFibrillation(ctx.patient)) return null;
+      // Without a recorded score, age 75+ alone scores 2
+      const score = ctx.patient.cha2ds2_vasc_score ?? (ctx.age !== null && ctx.age >= 75 ? 2 : 1);
+      if (score < ctx.thresholds.cha2ds2VascAnticoagulation) return null;
+      if (hasMedication(ctx.patient, ...ANTICOAGULANTS)) return null;
+      return {
+        reason: `CHA₂DS₂-VASc score ≥${ctx.thresholds.cha2ds2VascAnticoagulation}, high stroke risk without anticoagulation`,
+        actionRequired: "Initiate DOAC (e.g., Apixaban, Rivaroxaban) or refer for INR if Warfarin",
+        priority: "critical",
+        metrics: { cha2ds2_vasc_score: score },
+      };
+    },
+  },
+  {
+    id: "hf-acei",
+    version: 1,
+    category: "QOF",
+    code: "HF003",
+    title: "ACE-I/ARB Required for Heart Failure",
+    dueWithinDays: 7,
+    evaluate: (ctx) => {
+      if (!hasCondition(ctx.patient, "Heart failure", "HF", "LVSD", "Left ventricular", "CCF")) return null;
+      if (hasMedication(ctx.patient, ...ACEI_ARB)) return null;
+      return {
+        reason: "Heart failure patient not on ACE inhibitor or ARB",
+        actionRequired: "Initiate Ramipril 1.25mg and titrate, check U&Es",
+        priority: "high",
+      };
+    },
+  },
+  {
+    id: "hf-beta-blocker",
+    version: 1,
+    category: "QOF",
+    code: "HF006",
+    title: "Beta-Blocker Required for Heart Failure",
+    dueWithinDays: 7,
+    evaluate: (ctx) => {
+      if (!hasCondition(ctx.patient, "Heart failure", "HF", "LVSD", "Left ventricular", "CCF")) return null;
+      if (hasMedication(ctx.patient, ...BETA_BLOCKERS)) return null;
+      return {
+        reason: "Heart failure patient not on beta-blocker",
+        actionRequired: "Initiate Bisoprolol 1.25mg and titrate up",
+        priority: "high",
+      };
+    },
+  },
+  {
+    id: "asthma-review",
+    version: 1,
+    category: "QOF",
+    code: "AST007",
+    title: "Annual Asthma Review Due",
+    dueWithinDays: 30,
+    evaluate: (ctx) => {
+      if (!hasCondition(ctx.patient, "Asthma") || !reviewOverdue(ctx)) return null;
+      return {
+        reason: lastReviewReason(ctx, "No asthma review on record"),
+        actionRequired: "Asthma review: control assessment, inhaler technique, action plan",
+        priority: "medium",
+      };
+    },
+  },
+  {
+    id: "copd-review",
+    version: 1,
+    category: "QOF",
+    code: "COPD010",
+    title: "COPD Review and Spirometry Due",
+    dueWithinDays: 30,
+    evaluate: (ctx) => {
+      if (!hasCondition(ctx.patient, "COPD", "Chronic obstructive") || !reviewOverdue(ctx)) return null;
+      return {
+        reason: lastReviewReason(ctx, "No COPD review on record"),
+        actionRequired: "COPD review with FeV1 measurement, inhaler check, exacerbation history",
+        priority: "medium",
+      };
+    },
+  },
+  {
+    id: "dementia-review",
+    version: 1,
+    category: "QOF",
+    code: "DEM004",
+    title: "Annual Dementia Review Due",
+    dueWithinDays: 30,
+    evaluate: (ctx) => {
+      if (!hasCondition(ctx.patient, "Dementia", "Alzheimer", "Vascular dementia", "Lewy body") || !reviewOverdue(ctx)) return null;
+      return {
+        reason: lastReviewReason(ctx, "No dementia review on record"),
+        actionRequired: "Dementia review including carer support assessment",
+        priority: "medium",
+      };
+    },
+  },
+  {
+    id: "smoking-status",
+    version: 1,
+    category: "QOF",
+    code: "SMOK002",
+    title: "Smoking Status Recording",
+    dueWithinDays: 30,
+    evaluate: (ctx) => {
+      if (!ctx.patient.conditions?.length || ctx.smokingStatus) return null;
+      return {
+        reason: "Patient with long-term condition - smoking status not recorded in past 12 months",
+        actionRequired: "Record current smoking status and offer cessation support if smoker",
+        priority: "low",
+      };
+    },
+  },
+
+  // ----- Call readings -----
+  {
+    id: "bp-raised-undiagnosed",
+    version: 1,
+    category: "NICE",
+    code: "NG136",
+    title: "Raised Blood Pressure",
+    dueWithinDays: 14,
+    urgentDueWithinDays: 1,
+    alert: { type: "high_bp" },
+    evaluate: (ctx) => {
+      if (isHypertensive(ctx.patient) || !ctx.bp) return null;
+      const target = bpTarget(ctx.age, ctx.thresholds);
+      if (!isAboveTarget(ctx.bp, target)) return null;
+      const severe = isSevereBp(ctx.bp, ctx.thresholds);
+      return {
+        reason: `BP ${ctx.bp.systolic}/${ctx.bp.diastolic} mmHg above ${target.systolic}/${target.diastolic} with no hypertension diagnosis`,
+        actionRequired: severe
+          ? "URGENT: Same-day assessment for severe hypertension"
+          : "Confirm with ambulatory or home BP monitoring",
+        priority: severe ? "critical" : "high",
+        urgent: severe,
+        metrics: { systolic: ctx.bp.systolic, diastolic: ctx.bp.diastolic },
+      };
+    },
+  },
+  {
+    id: "bp-persistent",
+    version: 1,
+    category: "NICE",
+    code: "NG136",
+    title: "Persistent High BP",
+    dueWithinDays: 14,
+    alert: { type: "pattern" },
+    evaluate: (ctx) => {
+      const target = bpTarget(ctx.age, ctx.thresholds);
+      const highReadings = ctx.readings.slice(0, 5).filter(r =>
+        r.blood_pressure_systolic && r.blood_pressure_diastolic &&
+        isAboveTarget({ systolic: r.blood_pressure_systolic, diastolic: r.blood_pressure_diastolic }, target)
+      ).length;
+      if (highReadings < ctx.thresholds.bpPersistentReadings) return null;
+      return {
+        reason: `${highReadings} of the last ${Math.min(5, ctx.readings.length)} BP readings above target`,
+        actionRequired: "Hypertension diagnosis and treatment review",
+        priority: "high",
+        metrics: { high_readings: highReadings },
+      };
+    },
+  },
+  {
+    id: "alcohol-high",
+    version: 1,
+    category: "NICE",
+    code: "PH24",
+    title: "High Alcohol Intake",
+    dueWithinDays: 30,
+    urgentDueWithinDays: 14,
+    alert: { type: "high_alcohol" },
+    evaluate: (ctx) => {
+      const units = ctx.readings.find(r => r.alcohol_units_per_week !== null && r.alcohol_units_per_week !== undefined)?.alcohol_units_per_week;
+      if (units === undefined || units === null || units <= ctx.thresholds.alcoholUnitsLimit) return null;
+      const high = units > ctx.thresholds.alcoholUnitsHigh;
+      return {
+        reason: `Alcohol ${units} units/week exceeds the ${ctx.thresholds.alcoholUnitsLimit}-unit limit`,
+        actionRequired: "Brief intervention (AUDIT-C) and alcohol advice",
+        priority: high ? "high" : "medium",
+        urgent: high,
+        metrics: { units_per_week: units },
+      };
+    },
+  },
+  {
+    id: "bmi-obese",
+    version: 1,
+    category: "NICE",
+    code: "CG189",
+    title: "Obesity",
+    dueWithinDays: 30,
+    alert: { type: "obesity" },
+    evaluate: (ctx) => {
+      const reading = ctx.readings.find(r => r.weight_kg && r.height_cm);
+      if (!reading) return null;
+      const bmi = calculateBMI(reading.weight_kg!, reading.height_cm!);
+      if (bmi < ctx.thresholds.bmiObese) return null;
+      const severe = bmi >= ctx.thresholds.bmiSevereObese;
+      return {
+        reason: `BMI ${bmi.toFixed(1)} indicates ${severe ? "severe " : ""}obesity`,
+        actionRequired: "Weight management support and cardiovascular risk review",
+        priority: severe ? "high" : "medium",
+        metrics: { bmi: Number(bmi.toFixed(1)), weight_kg: reading.weight_kg, height_cm: reading.height_cm },
+      };
+    },
+  },
+  {
+    id: "weight-change",
+    version: 1,
+    category: "NICE",
+    code: "CG32",
+    title: "Rapid Weight Change",
+    dueWithinDays: 14,
+    urgentDueWithinDays: 7,
+    alert: { type: "weight_change" },
+    evaluate: (ctx) => {
+      const weighed = ctx.readings.filter(r => r.weight_kg);
+      if (weighed.length < 2) return null;
+      const [current, previous] = weighed;
+      const changePercent = Math.abs((current.weight_kg! - previous.weight_kg!) / previous.weight_kg! * 100);
+      if (changePercent < ctx.thresholds.weightChangePercent) return null;
+      const direction = current.weight_kg! > previous.weight_kg! ? "gain" : "loss";
+      const high = changePercent >= ctx.thresholds.weightChangePercentHigh;
+      return {
+        title: `Rapid Weight ${direction === "gain" ? "Gain" : "Loss"}`,
+        reason: `${changePercent.toFixed(1)}% weight ${direction}: ${previous.weight_kg}kg to ${current.weight_kg}kg`,
+        actionRequired: direction === "loss"
+          ? "Assess for unintentional weight loss and nutrition screening (MUST)"
+          : "Review for fluid retention and weight management",
+        priority: high ? "high" : "medium",
+        urgent: high,
+        metrics: { change_percent: Number(changePercent.toFixed(1)), previous_kg: previous.weight_kg, current_kg: current.weight_kg },
+      };
+    },
+  },
+
+  // ----- NICE -----
+  {
+    id: "falls-risk",
+    version: 1,
+    category: "NICE",
+    code: "CG161",
+    title: "Falls Risk Assessment",
+    dueWithinDays: 14,
+    evaluate: (ctx) => {
+      if (!ctx.isFrail) return null;
+      const medCount = ctx.patient.medications?.length || 0;
+      if (medCount < ctx.thresholds.fallsMedicationCount) return null;
+      return {
+        reason: `Frail patient (${ctx.patient.frailty_status}) on ${medCount} medications`,
+        actionRequired: "Multifactorial falls assessment, medication review, bone health check",
+        priority: ctx.patient.frailty_status === "severe" ? "high" : "medium",
+      };
+    },
+  },
+  {
+    id: "polypharmacy",
+    version: 1,
+    category: "NICE",
+    code: "NG5",
+    title: "Polypharmacy Review Required",
+    dueWithinDays: 30,
+    evaluate: (ctx) => {
+      const medCount = ctx.patient.medications?.length || 0;
+      if (medCount < ctx.thresholds.polypharmacyCount) return null;
+      return {
+        reason: `Patient on ${medCount} medications - high polypharmacy burden`,
+        actionRequired: "Structured medication review, deprescribing assessment",
+        priority: "medium",
+      };
+    },
+  },
+  {
+    id: "renal-monitoring",
+    version: 1,
+    category: "NICE",
+    code: "CG182",
+    title: "Renal Function Monitoring",
+    dueWithinDays: 30,
+    evaluate: (ctx) => {
+      const ckd = hasCondition(ctx.patient, "CKD", "Chronic kidney", "Renal impairment");
+      const diabeticOnAceArb = hasCondition(ctx.patient, "Diabetes") && hasMedication(ctx.patient, "ACE", "ARB", "Ramipril", "Lisinopril");
+      if (!ckd && !diabeticOnAceArb) return null;
+      return {
+        reason: "CKD patient or diabetic on ACE-I/ARB - regular U&E monitoring needed",
+        actionRequired: "Check U&E, eGFR, and urine ACR",
+        priority: "medium",
+      };
+    },
+  },
+
+  // ----- KPI / Safety -----
+  {
+    id: "annual-review",
+    version: 1,
+    category: "KPI",
+    code: "LTC-REV",
+    title: "Annual Care Review Overdue",
+    dueWithinDays: 14,
+    evaluate: (ctx) => {
+      if ((ctx.patient.conditions?.length || 0) < ctx.thresholds.annualReviewMinConditions || !reviewOverdue(ctx)) return null;
+      return {
+        reason: ctx.monthsSinceReview !== null
+          ? `Last reviewed ${ctx.monthsSinceReview} months ago with multiple conditions`
+          : "No annual review on record",
+        actionRequired: "Comprehensive care review for multiple long-term conditions",
+        priority: "medium",
+      };
+    },
+  },
+  {
+    id: "high-risk-medication",
+    version: 1,
+    category: "Safety",
+    code: "DMARD-MON",
+    title: "High-Risk Medication Monitoring",
+    dueWithinDays: 7,
+    evaluate: (ctx) => {
+      const found = ctx.patient.medications?.filter(m =>
+        HIGH_RISK_MEDICATIONS.some(hr => m.toLowerCase().includes(hr.toLowerCase()))
+      ) || [];
+      if (found.length === 0) return null;
+      return {
+        reason: `Patient on ${found.join(", ")} requiring regular blood monitoring`,
+        actionRequired: "Check shared care monitoring is in place, review recent bloods",
+        priority: "high",
+      };
+    },
+  },
+];
+
+// ========== Evaluation ==========
+
+/** Every rule that fires for the patient, with practice overrides applied */
+export function evaluateClinicalRules(
+  patient: RulePatient,
+  readings: RuleReading[],
+  settings: RuleSettings = {},
+): RuleOutcome[] {
+  const thresholds = { ...DEFAULT_CLINICAL_THRESHOLDS, ...settings.thresholds };
+  const ctx = buildRuleContext(patient, readings, thresholds, settings.now);
+  const disabled = new Set(settings.disabledRules || []);
+  const outcomes: RuleOutcome[] = [];
+
+  for (const rule of CLINICAL_RULES) {
+    if (disabled.has(rule.id)) continue;
+
+    const finding = rule.evaluate(ctx);
+    if (!finding) continue;
+
+    const dueWithinDays = finding.urgent && rule.urgentDueWithinDays !== undefined
+      ? rule.urgentDueWithinDays
+      : settings.dueWithinDays?.[rule.id] ?? rule.dueWithinDays;
+
+    outcomes.push({
+      ruleId: rule.id,
+      ruleVersion: rule.version,
+      rulesetVersion: CLINICAL_RULES_VERSION,
+      patientId: patient.id,
+      category: rule.category,
+      code: finding.code ?? rule.code,
+      title: finding.title ?? rule.title,
+      reason: finding.reason,
+      actionRequired: finding.actionRequired,
+      priority: finding.priority,
+      dueWithinDays,
+      alertType: rule.alert?.type ?? null,
+      metrics: finding.metrics ?? {},
+    });
+  }
+
+  return outcomes;
+}
+
+const PRIORITY_ORDER: Record<RulePriority, number> = { critical: 0, high: 1, medium: 2, low: 3 };
+
+export function comparePriority(a: RulePriority, b: RulePriority): number {
+  return PRIORITY_ORDER[a] - PRIORITY_ORDER[b];
+}
+
+/** "24 hours", "3 days", "2 weeks", "1 month" */
+export function formatDueWindow(days: number): string {
+  if (days <= 1) return "24 hours";
+  if (days % 30 === 0) return days === 30 ? "1 month" : `${days / 30} months`;
+  if (days % 7 === 0 && days > 7) return `${days / 7} weeks`;
+  return `${days} days`;
+}
+
+/** meditask_tasks.priority for a rule priority */
+export function toTaskPriority(priority: RulePriority): string {
+  return priority === "critical" ? "urgent" : priority;
+}
+
+/** health_alerts.severity for a rule priority */
+export function toAlertSeverity(priority: RulePriority): "info" | "warning" | "critical" {
+  if (priority === "critical") return "critical";
+  return priority === "high" ? "warning" : "info";
+}
+
+/** Task title shared by tasks raised automatically and from the actions list */
+export function formatTaskTitle(outcome: Pick<RuleOutcome, "code" | "title">): string {
+  return `[${outcome.code}] ${outcome.title}`;
+}
+
+// ========== Practice settings ==========
+
+/** A clinical_rule_settings row as stored (JSON columns arrive untyped) */
+export interface StoredRuleSettings {
+  thresholds: unknown;
+  disabled_rules: string[] | null;
+  due_within_days: unknown;
+}
+
+const isPositiveNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value) && value > 0;
+
+/**
+ * Stored practice settings as evaluation overrides. Keys that no longer match a
+ * threshold or rule, and values that are not positive numbers, are dropped, so
+ * a stale or hand-edited row falls back to the defaults rather than misfiring.
+ */
+export function toRuleSettings(row: StoredRuleSettings | null | undefined): RuleSettings {
+  if (!row) return {};
+
+  const ruleIds = new Set(CLINICAL_RULES.map(rule => rule.id));
+  const thresholds: Partial<ClinicalThresholds> = {};
+  for (const [key, value] of Object.entries((row.thresholds ?? {}) as Record<string, unknown>)) {
+    if (key in DEFAULT_CLINICAL_THRESHOLDS && isPositiveNumber(value)) {
+      thresholds[key as keyof ClinicalThresholds] = value;
+    }
+  }
+
+  const dueWithinDays: Record<string, number> = {};
+  for (const [ruleId, value] of Object.entries((row.due_within_days ?? {}) as Record<string, unknown>)) {
+    if (ruleIds.has(ruleId) && isPositiveNumber(value)) dueWithinDays[ruleId] = Math.round(value);
+  }
+
+  return {
+    thresholds,
+    disabledRules: (row.disabled_rules || []).filter(id => ruleIds.has(id)),
+    dueWithinDays,
+  };
+}
@@ -0,0 +1,39 @@
+/**
+ * Email transport abstraction
+ * Functions build a provider-neutral message and hand it to the configured
+ * transport, so escalation emails do not depend on Resend.
+ *
+ * Select the transport with EMAIL_TRANSPORT ("resend" by default, or "stub"
+ * to log messages instead of sending them in local development).
+ */
+
+import { ResendTransport } from "./resend-transport.ts";
+import { StubEmailTransport } from "./stub-email-transport.ts";
+
+export interface EmailMessage {
+  to: string[];
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface EmailSendResult {
+  messageId: string | null;
+}
+
+export interface EmailTransport {
+  readonly name: string;
+  send(message: EmailMessage): Promise<EmailSendResult>;
+}
+
+export function getEmailTransport(): EmailTransport {
+  const name = (Deno.env.get("EMAIL_TRANSPORT") || "resend").toLowerCase();
+
+  if (name === "stub") {
+    return new StubEmailTransport();
+  }
+  if (name === "resend") {
+    return new ResendTransport();
+  }
+  throw new Error(`Unknown email transport: ${name}`);
+}
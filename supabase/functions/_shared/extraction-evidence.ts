@@ -0,0 +1,79 @@
+/**
+ * Extraction evidence
+ * Alongside each extracted value the model returns how sure it is and the
+ * transcript excerpt the value came from, so clinicians can check the source
+ * before verifying. Quotes that cannot be found in the transcript are dropped
+ * and their confidence capped, pushing them to the top of the review queue.
+ */
+
+export interface FieldEvidence {
+  confidence: number; // 0-1
+  quote: string | null;
+}
+
+export type ExtractionEvidence = Record<string, FieldEvidence>;
+
+// Confidence given to a value whose quote is missing or not in the transcript
+const UNSUPPORTED_CONFIDENCE_CAP = 0.3;
+
+/** Appended to extraction prompts; the model adds an "evidence" object next to the fields */
+export const EVIDENCE_INSTRUCTIONS = `Also include an "evidence" object with an entry for every field that is not null:
+  "evidence": { "<field>": { "confidence": number from 0 to 1, "quote": "the exact words from the transcript the value came from" } }
+- confidence is how certain you are the value is what the patient said (1 = stated clearly, 0.5 = inferred or partly heard, below 0.3 = guess)
+- quote must be copied word for word from the transcript, kept short (one sentence at most)`;
+
+const normaliseText = (text: string) => text.toLowerCase().replace(/\s+/g, " ").trim();
+
+/** Separate the evidence object from the extracted field values */
+export function splitExtractionEvidence(raw: Record<string, unknown>): {
+  values: Record<string, unknown>;
+  evidence: ExtractionEvidence;
+} {
+  const { evidence: rawEvidence, ...values } = raw;
+  const evidence: ExtractionEvidence = {};
+
+  if (rawEvidence && typeof rawEvidence === "object") {
+    for (const [key, entry] of Object.entries(rawEvidence as Record<string, unknown>)) {
+      if (!entry || typeof entry !== "object") continue;
+      const { confidence, quote } = entry as { confidence?: unknown; quote?: unknown };
+      const score = typeof confidence === "number" ? confidence : parseFloat(String(confidence));
+      evidence[key] = {
+        confidence: Number.isFinite(score) ? Math.min(1, Math.max(0, score)) : 0,
+        quote: typeof quote === "string" && quote.trim() ? quote.trim() : null,
+      };
+    }
+  }
+
+  return { values, evidence };
+}
+
+/**
+ * Evidence for the fields that ended up with a value, checked against the
+ * transcript the model was given
+ */
+export function verifyEvidence(
+  answers: Record<string, unknown>,
+  evidence: ExtractionEvidence,
+  sanitizedTranscript: string,
+): ExtractionEvidence {
+  const transcript = normaliseText(sanitizedTranscript);
+  const verified: ExtractionEvidence = {};
+
+  for (const [key, value] of Object.entries(answers)) {
+    if (value === null || value === undefined) continue;
+
+    const entry = evidence[key] ?? { confidence: 0, quote: null };
+    const quoteFound = entry.quote !== null && transcript.includes(normaliseText(entry.quote));
+    verified[key] = quoteFound
+      ? entry
+      : { confidence: Math.min(entry.confidence, UNSUPPORTED_CONFIDENCE_CAP), quote: null };
+  }
+
+  return verified;
+}
+
+/** Lowest confidence across the fields, or null when nothing was extracted */
+export function minimumConfidence(evidence: ExtractionEvidence): number | null {
+  const scores = Object.values(evidence).map(e => e.confidence);
+  return scores.length > 0 ? Math.min(...scores) : null;
+}
@@ -0,0 +1,92 @@
+/**
+ * Inbound callbacks
+ * A patient who missed a batch call may ring the practice number back. The
+ * caller ID is matched to the patient's most recent unanswered batch call so
+ * the callback can pick up the same purpose context, script and batch.
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// Missed calls older than this are not picked up by a callback
+export const CALLBACK_WINDOW_DAYS = 14;
+
+export interface MissedCall {
+  id: string;
+  patient_id: string;
+  batch_id: string;
+  attempt_number: number;
+  purpose_context: string | null;
+  script_id: string | null;
+}
+
+/**
+ * The forms a UK number may be stored in on the patient record
+ * (E.164, with or without the plus, national, and the common spaced forms)
+ */
+export function callerIdCandidates(callerNumber: string): string[] {
+  const digits = callerNumber.replace(/[^\d]/g, "");
+  if (!digits) return [];
+
+  const national = digits.startsWith("44") ? `0${digits.slice(2)}` : digits.startsWith("0") ? digits : `0${digits}`;
+  const subscriber = national.slice(1);
+
+  return [...new Set([
+    `+44${subscriber}`,
+    `44${subscriber}`,
+    national,
+    `${national.slice(0, 5)} ${national.slice(5)}`,
+    `+44 ${subscriber.slice(0, 4)} ${subscriber.slice(4)}`,
+    `+44 ${subscriber}`,
+  ])];
+}
+
+/**
+ * The unanswered batch call a caller is ringing back about: the most recent
+ * batch call within the window whose latest attempt is still no_answer. Null
+ * when the number matches no patient or they have nothing outstanding.
+ */
+export async function findMissedCall(supabase: SupabaseClient, callerNumber: string): Promise<MissedCall | null> {
+  const candidates = callerIdCandidates(callerNumber);
+  if (candidates.length === 0) return null;
+
+  const { data: patients, error: patientsError } = await supabase
+    .from("patients")
+    .select("id")
+    .in("phone_number", candidates);
+
+  if (patientsError) throw patientsError;
+  if (!patients || patients.length === 0) return null;
+
+  const since = new Date(Date.now() - CALLBACK_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+  const { data: calls, error: callsError } = await supabase
+    .from("calls")
+    .select("id, patient_id, batch_id, status, attempt_number, purpose_context, script_id, created_at")
+    .in("patient_id", patients.map(p => p.id))
+    .not("batch_id", "is", null)
+    .gte("created_at", since.toISOString())
+    .order("created_at", { ascending: false });
+
+  if (callsError) throw callsError;
+
+  // Only the latest call per patient and batch counts; an earlier miss that
+  // was later answered or declined is not outstanding
+  const seen = new Set<string>();
+  for (const call of calls || []) {
+    const key = `${call.patient_id}:${call.batch_id}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    if (call.status === "no_answer") {
+      return {
+        id: call.id,
+        patient_id: call.patient_id,
+        batch_id: call.batch_id,
+        attempt_number: call.attempt_number,
+        purpose_context: call.purpose_context,
+        script_id: call.script_id,
+      };
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,27 @@
+/**
+ * Paged reads and chunked filters
+ * PostgREST caps each response at 1000 rows, and long .in() lists can push a
+ * request URL past the gateway's limit. Pure helpers, shared by the edge
+ * functions and the web app (src/lib/supabase-paging.ts).
+ */
+
+// PostgREST returns at most 1000 rows per request
+export const PAGE_SIZE = 1000;
+// Ids per .in() filter, to keep request URLs short
+export const ID_CHUNK = 200;
+
+/** Every row of a query, fetched a page at a time; the query must have a stable order */
+export async function fetchAllRows<T>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>,
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+export const chunk = <T>(items: T[], size: number): T[][] =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, i) => items.slice(i * size, (i + 1) * size));
@@ -0,0 +1,263 @@
+/**
+ * Patient cohort queries
+ * A cohort is saved as criteria in patient_cohorts.criteria and evaluated here,
+ * so the browser (batch creation, cohort builder, src/lib/patient-cohorts.ts)
+ * and the call-programmes worker always select exactly the same patients.
+ * Deceased patients never match a cohort.
+ *
+ * QOF data gaps are also worked out here, so a cohort filtering on missing
+ * data picks the same patients AI Analytics lists as gaps. Patients with a QOF
+ * exception (_shared/qof-exceptions.ts) for the data's indicators are not gaps.
+ */
+import { hasCondition, hasMedication, wholeMonthsBetween, wholeYearsBetween, type RulePatient } from "./clinical-rules.ts";
+
+export type QofDataGap = "no-data" | "bp" | "smoking" | "hba1c" | "cholesterol";
+
+// Open alerts are those not yet acknowledged
+export type CohortAlertState = "open" | "critical" | "none";
+
+export interface CohortCriteria {
+  // On the register for any of these conditions
+  conditions?: string[];
+  // Prescribed any of these medications
+  medications?: string[];
+  minAge?: number | null;
+  maxAge?: number | null;
+  // Any of these frailty statuses; "none" is a patient with no frailty recorded
+  frailty?: string[];
+  // Living in any of these care homes
+  careHomes?: string[];
+  // Not reviewed for at least this many months, or never reviewed
+  reviewOverdueMonths?: number | null;
+  // Missing any of these QOF data items
+  qofGaps?: QofDataGap[];
+  alertState?: CohortAlertState | null;
+}
+
+/** Patient record fields a cohort reads */
+export interface CohortPatient extends RulePatient {
+  care_home_name: string | null;
+  date_of_death: string | null;
+  cholesterol_ldl: number | null;
+}
+
+/** What calls, alerts and QOF exceptions record for a patient, beyond the patient record */
+export interface CohortActivity {
+  hasResponse: boolean;
+  hasBloodPressure: boolean;
+  hasSmokingStatus: boolean;
+  openAlerts: number;
+  openCriticalAlerts: number;
+  // Indicators the patient has an exception in force for
+  exceptedIndicators: string[];
+}
+
+export interface CohortResponse {
+  patient_id: string;
+  blood_pressure_systolic: number | null;
+  blood_pressure_diastolic: number | null;
+  smoking_status: string | null;
+}
+
+export interface CohortAlert {
+  patient_id: string | null;
+  severity: string;
+}
+
+export const COHORT_PATIENT_COLUMNS =
+  "id, date_of_birth, conditions, medications, hba1c_mmol_mol, hba1c_date, frailty_status, last_review_date, cha2ds2_vasc_score, care_home_name, date_of_death, cholesterol_ldl";
+
+export const COHORT_RESPONSE_COLUMNS = "patient_id, blood_pressure_systolic, blood_pressure_diastolic, smoking_status";
+
+// Registers offered when building a cohort; matched the same way as the clinical rules
+export const COHORT_CONDITIONS = [
+  "Hypertension",
+  "Diabetes",
+  "CHD",
+  "Stroke",
+  "TIA",
+  "Atrial fibrillation",
+  "Heart failure",
+  "CKD",
+  "COPD",
+  "Asthma",
+  "Dementia",
+  "Depression",
+];
+
+export const COHORT_FRAILTY_STATUSES = [
+  { value: "none", label: "Not recorded" },
+  { value: "mild", label: "Mild" },
+  { value: "moderate", label: "Moderate" },
+  { value: "severe", label: "Severe" },
+];
+
+export const QOF_DATA_GAPS: Record<QofDataGap, string> = {
+  "no-data": "No call responses",
+  bp: "Missing blood pressure",
+  smoking: "Missing smoking status",
+  hba1c: "Diabetic, no HbA1c",
+  cholesterol: "CVD, no cholesterol",
+};
+
+export const COHORT_ALERT_STATES: Record<CohortAlertState, string> = {
+  open: "Has an open alert",
+  critical: "Has an open critical alert",
+  none: "No open alerts",
+};
+
+const NO_ACTIVITY: CohortActivity = {
+  hasResponse: false,
+  hasBloodPressure: false,
+  hasSmokingStatus: false,
+  openAlerts: 0,
+  openCriticalAlerts: 0,
+  exceptedIndicators: [],
+};
+
+// Registers whose patients need a cholesterol result
+const CVD_REGISTERS = ["CHD", "Stroke", "Hypertension", "Heart"];
+
+// Indicators each missing item holds back. A patient excepted from any of them
+// is not chased for it; with no responses at all, only once excepted from both BP and smoking
+const QOF_GAP_INDICATORS: Record<Exclude<QofDataGap, "no-data">, string[]> = {
+  bp: ["HYP008", "HYP009", "CHD015", "CHD016", "STIA014", "STIA015", "DM036"],
+  smoking: ["SMOK002"],
+  hba1c: ["DM006", "DM012"],
+  cholesterol: ["CHOL004"],
+};
+
+const lowerFirst = (text: string) => text.charAt(0).toLowerCase() + text.slice(1);
+
+export function isDeceased(patient: Pick<CohortPatient, "date_of_death">): boolean {
+  return !!patient.date_of_death;
+}
+
+/**
+ * Per-patient activity from call responses, open (unacknowledged) alerts and
+ * the indicators each patient is excepted from (exceptedIndicatorsByPatient)
+ */
+export function buildCohortActivity(
+  responses: CohortResponse[],
+  openAlerts: CohortAlert[],
+  excepted: Map<string, string[]> = new Map(),
+): Map<string, CohortActivity> {
+  const activity = new Map<string, CohortActivity>();
+  const entry = (patientId: string) => {
+    let current = activity.get(patientId);
+    if (!current) {
+      current = { ...NO_ACTIVITY };
+      activity.set(patientId, current);
+    }
+    return current;
+  };
+
+  for (const response of responses) {
+    const current = entry(response.patient_id);
+    current.hasResponse = true;
+    if (response.blood_pressure_systolic && response.blood_pressure_diastolic) current.hasBloodPressure = true;
+    if (response.smoking_status) current.hasSmokingStatus = true;
+  }
+  for (const alert of openAlerts) {
+    if (!alert.patient_id) continue;
+    const current = entry(alert.patient_id);
+    current.openAlerts += 1;
+    if (alert.severity === "critical") current.openCriticalAlerts += 1;
+  }
+  for (const [patientId, indicators] of excepted) {
+    entry(patientId).exceptedIndicators = indicators;
+  }
+  return activity;
+}
+
+/** QOF data the practice has not yet collected for a patient */
+export function qofDataGaps(
+  patient: Pick<CohortPatient, "conditions" | "hba1c_mmol_mol" | "cholesterol_ldl">,
+  activity: CohortActivity = NO_ACTIVITY,
+): QofDataGap[] {
+  const excepted = (gap: keyof typeof QOF_GAP_INDICATORS) =>
+    QOF_GAP_INDICATORS[gap].some(code => activity.exceptedIndicators.includes(code));
+
+  const gaps: QofDataGap[] = [];
+  if (!activity.hasResponse && !(excepted("bp") && excepted("smoking"))) gaps.push("no-data");
+  if (!activity.hasBloodPressure && !excepted("bp")) gaps.push("bp");
+  if (!activity.hasSmokingStatus && !excepted("smoking")) gaps.push("smoking");
+  if (hasCondition(patient, "Diabetes") && !patient.hba1c_mmol_mol && !excepted("hba1c")) gaps.push("hba1c");
+  if (hasCondition(patient, ...CVD_REGISTERS) && !patient.cholesterol_ldl && !excepted("cholesterol")) gaps.push("cholesterol");
+  return gaps;
+}
+
+/** Whether the criteria read call responses or alerts, which callers must then load */
+export function needsCohortActivity(criteria: CohortCriteria): boolean {
+  return !!criteria.qofGaps?.length || !!criteria.alertState;
+}
+
+export function matchesCohort(
+  patient: CohortPatient,
+  criteria: CohortCriteria,
+  now: Date = new Date(),
+  activity: CohortActivity = NO_ACTIVITY,
+): boolean {
+  if (isDeceased(patient)) return false;
+
+  if (criteria.conditions?.length && !hasCondition(patient, ...criteria.conditions)) {
+    return false;
+  }
+
+  if (criteria.medications?.length && !hasMedication(patient, ...criteria.medications)) {
+    return false;
+  }
+
+  const hasAgeLimit = criteria.minAge != null || criteria.maxAge != null;
+  if (hasAgeLimit) {
+    // Without a date of birth the patient cannot be shown to be in the age band
+    if (!patient.date_of_birth) return false;
+    const age = wholeYearsBetween(new Date(patient.date_of_birth), now);
+    if (criteria.minAge != null && age < criteria.minAge) return false;
+    if (criteria.maxAge != null && age > criteria.maxAge) return false;
+  }
+
+  if (criteria.frailty?.length && !criteria.frailty.includes(patient.frailty_status || "none")) {
+    return false;
+  }
+
+  if (criteria.careHomes?.length) {
+    const home = patient.care_home_name?.trim().toLowerCase();
+    if (!home || !criteria.careHomes.some(h => h.trim().toLowerCase() === home)) return false;
+  }
+
+  if (criteria.reviewOverdueMonths != null && patient.last_review_date) {
+    const monthsSinceReview = wholeMonthsBetween(new Date(patient.last_review_date), now);
+    if (monthsSinceReview < criteria.reviewOverdueMonths) return false;
+  }
+
+  if (criteria.qofGaps?.length) {
+    const gaps = qofDataGaps(patient, activity);
+    if (!criteria.qofGaps.some(g => gaps.includes(g))) return false;
+  }
+
+  if (criteria.alertState === "open" && activity.openAlerts === 0) return false;
+  if (criteria.alertState === "critical" && activity.openCriticalAlerts === 0) return false;
+  if (criteria.alertState === "none" && activity.openAlerts > 0) return false;
+
+  return true;
+}
+
+/** One-line summary, e.g. "Hypertension or Diabetes, aged 18-79, missing blood pressure" */
+export function describeCohort(criteria: CohortCriteria): string {
+  const parts: string[] = [];
+  if (criteria.conditions?.length) parts.push(criteria.conditions.join(" or "));
+  if (criteria.medications?.length) parts.push(`on ${criteria.medications.join(" or ")}`);
+  if (criteria.minAge != null && criteria.maxAge != null) parts.push(`aged ${criteria.minAge}-${criteria.maxAge}`);
+  else if (criteria.minAge != null) parts.push(`aged ${criteria.minAge}+`);
+  else if (criteria.maxAge != null) parts.push(`aged up to ${criteria.maxAge}`);
+  if (criteria.frailty?.length) {
+    const labels = criteria.frailty.map(f => COHORT_FRAILTY_STATUSES.find(s => s.value === f)?.label ?? f);
+    parts.push(`frailty ${labels.join(" or ").toLowerCase()}`);
+  }
+  if (criteria.careHomes?.length) parts.push(`at ${criteria.careHomes.join(", ")}`);
+  if (criteria.reviewOverdueMonths != null) parts.push(`not reviewed in ${criteria.reviewOverdueMonths} months`);
+  if (criteria.qofGaps?.length) parts.push(criteria.qofGaps.map(g => lowerFirst(QOF_DATA_GAPS[g])).join(" or "));
+  if (criteria.alertState) parts.push(lowerFirst(COHORT_ALERT_STATES[criteria.alertState]));
+  return parts.length > 0 ? parts.join(", ") : "All living patients";
+}
@@ -0,0 +1,139 @@
+/**
+ * QOF Personalised Care Adjustments (exceptions)
+ * A patient with an exception in force for an indicator comes off its
+ * denominator (unless they meet it anyway) and is no longer chased as a QOF
+ * gap. Shared by the browser (src/lib/qof-exceptions.ts) and the
+ * call-programmes worker, so gap lists and cohorts agree on who is excepted.
+ *
+ * Calls can also propose an "invitations declined" exception: declining
+ * consent, or leaving repeated calls unanswered, counts as declining the
+ * invitation. A clinician confirms or dismisses each proposal.
+ */
+
+export type PcaReason = "informed_dissent" | "unsuitable" | "invitations_declined";
+
+export type PcaStatus = "active" | "revoked" | "dismissed";
+
+export type PcaSource = "manual" | "declined_consent" | "no_answer";
+
+export const PCA_REASONS: Record<PcaReason, { label: string; description: string }> = {
+  informed_dissent: {
+    label: "Informed dissent",
+    description: "The patient chose not to receive the care or test after discussing it",
+  },
+  unsuitable: {
+    label: "Unsuitable",
+    description: "The care or test is not clinically appropriate for the patient",
+  },
+  invitations_declined: {
+    label: "Invitations declined",
+    description: "The patient did not respond to invitations for the care or test",
+  },
+};
+
+export const PCA_SOURCES: Record<PcaSource, string> = {
+  manual: "Recorded by clinician",
+  declined_consent: "Declined consent on a call",
+  no_answer: "Repeated unanswered calls",
+};
+
+/** Exception fields needed to tell whether it is in force */
+export interface QofExceptionRecord {
+  patient_id: string;
+  indicator_code: string;
+  status: string;
+  expires_on: string | null;
+}
+
+export const QOF_EXCEPTION_COLUMNS = "patient_id, indicator_code, status, expires_on";
+
+// Unanswered calls, on separate days, that count as declining the invitation
+export const UNANSWERED_INVITATIONS_REQUIRED = 3;
+
+const formatDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+
+/** Active and not past its expiry date */
+export function isExceptionInForce(exception: QofExceptionRecord, now: Date = new Date()): boolean {
+  if (exception.status !== "active") return false;
+  return !exception.expires_on || exception.expires_on >= formatDate(now);
+}
+
+/** Indicators each patient is excepted from, counting only exceptions in force */
+export function exceptedIndicatorsByPatient(exceptions: QofExceptionRecord[], now: Date = new Date()): Map<string, string[]> {
+  const excepted = new Map<string, string[]>();
+  for (const exception of exceptions) {
+    if (!isExceptionInForce(exception, now)) continue;
+    excepted.set(exception.patient_id, [...(excepted.get(exception.patient_id) || []), exception.indicator_code]);
+  }
+  return excepted;
+}
+
+/**
+ * Expiry for a new exception recorded on a date (YYYY-MM-DD). Declined
+ * invitations lapse at the end of that QOF year (31 March), when the patient
+ * is invited afresh; dissent and unsuitability are reviewed after a year.
+ */
+export function defaultExceptionExpiry(reason: PcaReason, recordedOn: string): string {
+  const [year, month, day] = recordedOn.split("-").map(Number);
+  if (reason === "invitations_declined") {
+    return `${month >= 4 ? year + 1 : year}-03-31`;
+  }
+  return formatDate(new Date(year + 1, month - 1, day));
+}
+
+/** A call that invited the patient to give data for some indicators */
+export interface InvitationCall {
+  id: string;
+  patient_id: string;
+  status: string;
+  created_at: string;
+  // Indicators the call collected data for
+  indicators: string[];
+}
+
+export interface ExceptionProposal {
+  patientId: string;
+  indicatorCode: string;
+  source: Exclude<PcaSource, "manual">;
+  // Calls the proposal rests on
+  callIds: string[];
+}
+
+/**
+ * "Invitations declined" proposals from calls: the patient declined consent on
+ * a call for the indicator, or left calls for it unanswered on
+ * UNANSWERED_INVITATIONS_REQUIRED separate days. Only calls since the patient
+ * was last reached for the indicator count. Callers pass the current QOF
+ * year's calls and keep the proposals for indicators the patient has not met.
+ */
+export function proposeInvitationsDeclined(calls: InvitationCall[]): ExceptionProposal[] {
+  const byIndicator = new Map<string, InvitationCall[]>();
+  for (const call of calls) {
+    for (const code of call.indicators) {
+      const key = `${call.patient_id}:${code}`;
+      byIndicator.set(key, [...(byIndicator.get(key) || []), call]);
+    }
+  }
+
+  const proposals: ExceptionProposal[] = [];
+  for (const [key, indicatorCalls] of byIndicator) {
+    const [patientId, indicatorCode] = key.split(":");
+    const sorted = [...indicatorCalls].sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+    const lastReached = sorted.map(c => c.status).lastIndexOf("completed");
+    const since = sorted.slice(lastReached + 1);
+
+    const declined = since.filter(c => c.status === "declined");
+    if (declined.length > 0) {
+      proposals.push({ patientId, indicatorCode, source: "declined_consent", callIds: declined.map(c => c.id) });
+      continue;
+    }
+
+    const unanswered = since.filter(c => c.status === "no_answer");
+    const days = new Set(unanswered.map(c => formatDate(new Date(c.created_at))));
+    if (days.size >= UNANSWERED_INVITATIONS_REQUIRED) {
+      proposals.push({ patientId, indicatorCode, source: "no_answer", callIds: unanswered.map(c => c.id) });
+    }
+  }
+  return proposals;
+}
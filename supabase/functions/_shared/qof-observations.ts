@@ -0,0 +1,275 @@
+/**
+ * QOF observations
+ * The data items a call can collect for each QOF indicator, keyed by SNOMED
+ * code. A batch's target_qof_indicators select which of these the agent asks
+ * about and which fields the transcript extraction returns. Re-exported by
+ * src/lib/qof-codes.ts for the batch and verification pages.
+ */
+
+import type { CallScript, ScriptAnswers, ScriptQuestion } from "./call-script.ts";
+import type { ExtractionEvidence } from "./extraction-evidence.ts";
+
+export interface QofObservation extends ScriptQuestion {
+  snomedCode: string;
+  display: string;
+  // QOF indicator codes (QOF_INDICATORS[].code) this observation counts towards
+  indicators: string[];
+  // SNOMED codes for enum answers, keyed by option
+  codedValues?: Record<string, string>;
+}
+
+export const QOF_OBSERVATIONS: QofObservation[] = [
+  {
+    key: "blood_pressure_systolic",
+    snomedCode: "271649006",
+    display: "Systolic blood pressure",
+    prompt: "What was the top number of your most recent blood pressure reading?",
+    answer_type: "number_range",
+    min: 70,
+    max: 250,
+    unit: "mmHg",
+    max_reasks: 2,
+    indicators: ["HYP008", "HYP009", "CHD015", "CHD016", "STIA014", "STIA015", "DM036"],
+  },
+  {
+    key: "blood_pressure_diastolic",
+    snomedCode: "271650006",
+    display: "Diastolic blood pressure",
+    prompt: "And what was the bottom number?",
+    answer_type: "number_range",
+    min: 40,
+    max: 150,
+    unit: "mmHg",
+    max_reasks: 2,
+    indicators: ["HYP008", "HYP009", "CHD015", "CHD016", "STIA014", "STIA015", "DM036"],
+  },
+  {
+    key: "hba1c_mmol_mol",
+    snomedCode: "43396009",
+    display: "HbA1c level",
+    prompt: "Do you know the result of your most recent HbA1c blood test?",
+    answer_type: "number_range",
+    min: 20,
+    max: 200,
+    unit: "mmol/mol",
+    required: false,
+    max_reasks: 1,
+    indicators: ["DM006", "DM012", "NDH002"],
+  },
+  {
+    key: "diabetic_foot_check",
+    snomedCode: "401191002",
+    display: "Diabetic foot examination",
+    prompt: "Have you had your feet checked by a nurse, doctor or podiatrist in the last twelve months?",
+    answer_type: "yes_no",
+    max_reasks: 1,
+    indicators: ["DM006", "DM012"],
+  },
+  {
+    key: "retinal_screening",
+    snomedCode: "134395001",
+    display: "Diabetic retinopathy screening",
+    prompt: "Have you been to your diabetic eye screening appointment in the last twelve months?",
+    answer_type: "yes_no",
+    max_reasks: 1,
+    indicators: ["DM006", "DM012"],
+  },
+  {
+    key: "fev1_litres",
+    snomedCode: "59328004",
+    display: "FEV1 measurement",
+    prompt: "Do you know your FEV1 from your most recent breathing test?",
+    answer_type: "number_range",
+    min: 0.3,
+    max: 6,
+    unit: "L",
+    required: false,
+    max_reasks: 1,
+    indicators: ["COPD010"],
+  },
+  {
+    key: "mrc_dyspnoea_grade",
+    snomedCode: "763264000",
+    display: "MRC dyspnoea scale grade",
+    prompt: "Which best describes your breathing: one, only breathless with strenuous exercise; two, short of breath hurrying or walking up a slight hill; three, walk slower than people your age or have to stop for breath on the flat; four, stop for breath after about a hundred metres; or five, too breathless to leave the house?",
+    answer_type: "number_range",
+    min: 1,
+    max: 5,
+    max_reasks: 2,
+    reask_prompt: "Could you tell me just the number, from one to five, that best matches your breathing?",
+    indicators: ["COPD014"],
+  },
+  {
+    key: "peak_flow_l_min",
+    snomedCode: "29893006",
+    display: "Peak expiratory flow rate",
+    prompt: "If you have a peak flow meter, what was your best reading this week?",
+    answer_type: "number_range",
+    min: 50,
+    max: 900,
+    unit: "L/min",
+    required: false,
+    max_reasks: 1,
+    indicators: ["AST007", "AST012"],
+  },
+  {
+    key: "smoking_status",
+    snomedCode: "365981007",
+    display: "Smoking status",
+    prompt: "Do you currently smoke, used to smoke, or have you never smoked?",
+    answer_type: "enum",
+    options: ["never_smoked", "ex_smoker", "current_smoker"],
+    codedValues: {
+      never_smoked: "266919005",
+      ex_smoker: "8517006",
+      current_smoker: "77176002",
+    },
+    max_reasks: 1,
+    indicators: ["SMOK002"],
+  },
+  {
+    key: "weight_kg",
+    snomedCode: "27113001",
+    display: "Body weight",
+    prompt: "What is your current weight?",
+    answer_type: "number_range",
+    min: 30,
+    max: 300,
+    unit: "kg",
+    max_reasks: 1,
+    indicators: [],
+  },
+  {
+    key: "height_cm",
+    snomedCode: "50373000",
+    display: "Body height",
+    prompt: "How tall are you?",
+    answer_type: "number_range",
+    min: 100,
+    max: 230,
+    unit: "cm",
+    required: false,
+    max_reasks: 1,
+    indicators: [],
+  },
+  {
+    key: "pulse_rate",
+    snomedCode: "78564009",
+    display: "Pulse rate",
+    prompt: "What was your pulse rate with your last blood pressure reading?",
+    answer_type: "number_range",
+    min: 30,
+    max: 200,
+    unit: "bpm",
+    required: false,
+    max_reasks: 1,
+    indicators: [],
+  },
+  {
+    key: "alcohol_units_per_week",
+    snomedCode: "228273003",
+    display: "Alcohol consumption",
+    prompt: "Roughly how many units of alcohol do you drink in a typical week?",
+    answer_type: "number_range",
+    min: 0,
+    max: 200,
+    unit: "units/week",
+    required: false,
+    max_reasks: 1,
+    indicators: [],
+  },
+];
+
+// Short targets written by older batch uploads, before targets were QOF codes
+const LEGACY_TARGETS: Record<string, string[]> = {
+  SMOKING: ["smoking_status"],
+  BP: ["blood_pressure_systolic", "blood_pressure_diastolic"],
+  HBA1C: ["hba1c_mmol_mol"],
+  BMI: ["weight_kg", "height_cm"],
+};
+
+/** Observations needed by the given indicators, in catalogue order */
+export function getObservationsForIndicators(indicatorCodes: string[]): QofObservation[] {
+  const codes = indicatorCodes.map(code => code.toUpperCase());
+  const legacyKeys = codes.flatMap(code => LEGACY_TARGETS[code] || []);
+
+  return QOF_OBSERVATIONS.filter(observation =>
+    legacyKeys.includes(observation.key) || observation.indicators.some(code => codes.includes(code))
+  );
+}
+
+/**
+ * A batch's target indicators as a conversation script, so the agent context,
+ * extraction schema and answer normalisation work as they do for clinician
+ * written scripts. Returns null when the indicators need no observations.
+ */
+export function buildIndicatorScript(indicatorCodes: string[]): CallScript | null {
+  const observations = getObservationsForIndicators(indicatorCodes);
+  if (observations.length === 0) return null;
+
+  return {
+    id: `qof:${indicatorCodes.join(",")}`,
+    name: `QOF review (${indicatorCodes.join(", ")})`,
+    version: 1,
+    purpose_context: "The main purpose of this call is to update the caller's long-term condition records for their GP practice.",
+    questions: observations,
+    closing_statement: "Thank you for your time. The practice team will review your answers. Goodbye.",
+  };
+}
+
+export interface ObservationRow {
+  patient_id: string;
+  call_id: string;
+  call_response_id: string | null;
+  batch_id: string | null;
+  snomed_code: string;
+  observation_key: string;
+  display_name: string;
+  value_numeric: number | null;
+  value_boolean: boolean | null;
+  value_code: string | null;
+  value_text: string | null;
+  unit: string | null;
+  qof_indicators: string[];
+  confidence: number | null;
+  source_quote: string | null;
+}
+
+/**
+ * One patient_observations row per answered catalogue observation. Answers
+ * must already be normalised (see normaliseScriptAnswers); keys that are not
+ * catalogue observations and unanswered questions are skipped.
+ */
+export function buildObservationRows(
+  answers: ScriptAnswers,
+  context: {
+    patientId: string;
+    callId: string;
+    callResponseId: string | null;
+    batchId: string | null;
+    evidence?: ExtractionEvidence;
+  },
+): ObservationRow[] {
+  return QOF_OBSERVATIONS
+    .filter(observation => answers[observation.key] !== undefined && answers[observation.key] !== null)
+    .map(observation => {
+      const value = answers[observation.key];
+      return {
+        patient_id: context.patientId,
+        call_id: context.callId,
+        call_response_id: context.callResponseId,
+        batch_id: context.batchId,
+        snomed_code: observation.snomedCode,
+        observation_key: observation.key,
+        display_name: observation.display,
+        value_numeric: typeof value === "number" ? value : null,
+        value_boolean: typeof value === "boolean" ? value : null,
+        value_code: typeof value === "string" ? observation.codedValues?.[value] ?? null : null,
+        value_text: typeof value === "string" ? value : null,
+        unit: observation.unit ?? null,
+        qof_indicators: observation.indicators,
+        confidence: context.evidence?.[observation.key]?.confidence ?? null,
+        source_quote: context.evidence?.[observation.key]?.quote ?? null,
+      };
+    });
+}
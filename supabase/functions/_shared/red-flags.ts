@@ -0,0 +1,335 @@
+/**
+ * Red-flag symptom detection
+ * Patient speech is checked against a curated list of phrases and intent
+ * patterns for symptoms that need emergency advice now rather than a review
+ * after the call: cardiac chest pain, stroke, breathing difficulty and
+ * suicidal thoughts or self-harm. A match gives the agent a scripted
+ * safety-net message (999/111 advice), marks the call as
+ * safeguarding_escalated and raises an urgent alert and MediTask task.
+ *
+ * Detection is deliberately broad: a false positive costs a clinician a
+ * phone call, a missed red flag could cost a life.
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export type RedFlagCategoryId = "chest_pain" | "stroke" | "breathing" | "suicidal";
+
+export interface RedFlagCategory {
+  id: RedFlagCategoryId;
+  label: string;
+  // Whole phrases, matched on word boundaries in normalised speech
+  phrases: string[];
+  // Wording the phrase list cannot enumerate, e.g. "a heavy pain across my chest"
+  intents: RegExp[];
+  // "No chest pain" is not a red flag; any mention of suicide or self-harm is
+  negatable: boolean;
+  // Read to the patient word for word
+  safetyNet: string;
+  action: string;
+}
+
+export interface RedFlagMatch {
+  category: RedFlagCategoryId;
+  label: string;
+  matchedText: string;
+}
+
+const WORDS = "(?:\\s+[\\w']+){0,3}";
+const CANT = "(?:can't|cannot|can not|couldn't|unable to)";
+
+export const RED_FLAG_CATEGORIES: RedFlagCategory[] = [
+  {
+    id: "chest_pain",
+    label: "Chest pain",
+    phrases: [
+      "chest pain",
+      "chest pains",
+      "tight chest",
+      "tightness in my chest",
+      "crushing pain",
+      "having a heart attack",
+      "pressure on my chest",
+    ],
+    intents: [
+      new RegExp(`\\b(?:pain|pains|ache|aching|tightness|pressure|heaviness|squeezing)${WORDS}\\s+(?:in|on|across|around|through)\\s+(?:my|the)\\s+chest\\b`),
+      new RegExp(`\\bchest${WORDS}\\s+(?:hurts|hurting|is tight|feels tight|feels heavy)\\b`),
+      /\bpain\b(?:\s+[\w']+){0,4}\s+(?:down|into)\s+my\s+(?:left\s+)?(?:arm|jaw)\b/,
+    ],
+    negatable: true,
+    safetyNet:
+      "I'm concerned about the chest pain you've mentioned. If you have chest pain right now, or it came on suddenly, " +
+      "please end this call and dial 999 straight away. If it has gone but you are worried, call NHS 111. " +
+      "I've let your GP practice know, and someone from the practice will contact you.",
+    action: "Urgent clinician call-back today: chest pain reported during health check call",
+  },
+  {
+    id: "stroke",
+    label: "Possible stroke",
+    phrases: [
+      "having a stroke",
+      "think it's a stroke",
+      "think i'm having a stroke",
+      "slurred speech",
+      "speech is slurred",
+      "face is drooping",
+      "face has dropped",
+      "sudden weakness",
+    ],
+    intents: [
+      new RegExp(`\\b(?:face|mouth|smile)${WORDS}\\s+(?:droop\\w*|dropp\\w*|lopsided)\\b`),
+      new RegExp(`\\b${CANT}\\s+(?:lift|move|feel|raise)\\s+my\\s+(?:arm|arms|leg|legs|hand|face)\\b`),
+      /\b(?:numb\w*|weak\w*|tingl\w*)\b(?:\s+[\w']+){0,4}\s+one side\b/,
+      /\bslurr\w*\b/,
+      new RegExp(`\\b${CANT}\\s+(?:speak|talk|get my words out)\\b`),
+    ],
+    negatable: true,
+    safetyNet:
+      "What you've described could be a sign of a stroke. If these symptoms are happening now or started recently, " +
+      "please end this call and dial 999 immediately - every minute matters. " +
+      "I've let your GP practice know, and someone from the practice will contact you.",
+    action: "Urgent clinician call-back today: possible stroke symptoms reported during health check call",
+  },
+  {
+    id: "breathing",
+    label: "Breathing difficulty",
+    phrases: [
+      "struggling to breathe",
+      "fighting for breath",
+      "gasping for breath",
+      "lips are blue",
+      "lips have gone blue",
+    ],
+    intents: [
+      new RegExp(`\\b${CANT}\\s+(?:breathe|breath|catch my breath|get my breath)\\b`),
+    ],
+    negatable: true,
+    safetyNet:
+      "Difficulty breathing can be serious. If you are struggling to breathe right now, please end this call and dial 999. " +
+      "If it is not an emergency but you are worried, call NHS 111. " +
+      "I've let your GP practice know, and someone from the practice will contact you.",
+    action: "Urgent clinician call-back today: breathing difficulty reported during health check call",
+  },
+  {
+    id: "suicidal",
+    label: "Suicidal thoughts or self-harm",
+    phrases: [
+      "suicide",
+      "suicidal",
+      "kill myself",
+      "killing myself",
+      "end my life",
+      "end it all",
+      "take my own life",
+      "want to die",
+      "don't want to live",
+      "don't want to be here",
+      "better off dead",
+      "better off without me",
+      "no reason to live",
+    ],
+    intents: [
+      /\b(?:thinking|thought|thoughts)\s+(?:about|of)\s+(?:ending|killing|hurting|harming|taking)\b/,
+      /\bwish\s+i\s+(?:was|were)\s+dead\b/,
+      /\bself\s+harm\w*/,
+      /\b(?:hurt|hurting|harm|harming|cut|cutting)\s+myself\b/,
+      /\bwish\s+i\s+(?:could\s+)?(?:just\s+)?(?:not\s+)?wake\s+up\b/,
+    ],
+    negatable: false,
+    safetyNet:
+      "Thank you for telling me. I'm letting your GP practice know so that someone can contact you. " +
+      "If you feel you might act on these thoughts, or you are in danger now, please call 999. " +
+      "You can also call NHS 111 and choose the mental health option, or call Samaritans free on 116 123, day or night.",
+    action: "Urgent clinician call-back today: suicidal thoughts or self-harm mentioned during health check call",
+  },
+];
+
+// Words that deny a symptom when they come shortly before it ("I haven't had any chest pain")
+const NEGATION = /\b(?:no|not|never|without|don't|didn't|haven't|hasn't|isn't|wasn't|denies|nothing like)\b/;
+const NEGATION_WINDOW_WORDS = 4;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const PHRASE_PATTERNS = new Map(
+  RED_FLAG_CATEGORIES.map(category => [
+    category.id,
+    category.phrases.map(phrase => new RegExp(`\\b${escapeRegExp(phrase).replace(/\s+/g, "\\s+")}\\b`)),
+  ]),
+);
+
+/** Lower case, straight apostrophes, "self-harm" → "self harm", single spaces */
+export function normaliseSpeech(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[‘’ʼ]/g, "'")
+    .replace(/[^a-z0-9'\s]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// Negation only reaches back within a clause: "I don't know, my chest hurts" is a red flag
+const CLAUSE_BREAK = /[.,;:!?]+|\s(?:but|although|though)\s/i;
+
+function isNegated(text: string, index: number): boolean {
+  const before = text.slice(0, index).trim().split(" ").slice(-NEGATION_WINDOW_WORDS).join(" ");
+  return NEGATION.test(before);
+}
+
+function findMatch(category: RedFlagCategory, clauses: string[]): string | null {
+  const patterns = [...(PHRASE_PATTERNS.get(category.id) || []), ...category.intents];
+  for (const clause of clauses) {
+    for (const pattern of patterns) {
+      const global = new RegExp(pattern.source, "g");
+      for (const match of clause.matchAll(global)) {
+        if (category.negatable && isNegated(clause, match.index ?? 0)) continue;
+        return match[0];
+      }
+    }
+  }
+  return null;
+}
+
+/** Red flags in something the patient said, one per category */
+export function detectRedFlags(patientSpeech: string): RedFlagMatch[] {
+  const clauses = patientSpeech.split(CLAUSE_BREAK).map(normaliseSpeech).filter(Boolean);
+  if (clauses.length === 0) return [];
+
+  return RED_FLAG_CATEGORIES.flatMap(category => {
+    const matchedText = findMatch(category, clauses);
+    return matchedText ? [{ category: category.id, label: category.label, matchedText }] : [];
+  });
+}
+
+/** Patient lines of a finished "Agent: ... / Patient: ..." transcript */
+export function patientLines(transcript: string): string[] {
+  return transcript
+    .split("\n")
+    .map(line => line.match(/^\s*(?:patient|user)\s*:\s*(.*)$/i)?.[1])
+    .filter((line): line is string => !!line);
+}
+
+/** Safety-net advice for the red flags found, most urgent category first (list order) */
+export function buildSafetyNetMessage(matches: RedFlagMatch[]): string {
+  return RED_FLAG_CATEGORIES
+    .filter(category => matches.some(m => m.category === category.id))
+    .map(category => category.safetyNet)
+    .join(" ");
+}
+
+/** What the agent must do next, returned to it as the tool result */
+export function buildAgentInstruction(matches: RedFlagMatch[]): string {
+  return [
+    "SAFETY NET REQUIRED. Stop the health check questions now.",
+    "Read the following to the patient word for word:",
+    `"${buildSafetyNetMessage(matches)}"`,
+    "Then ask whether they are safe and whether they want to end the call to get help. " +
+      "Do not give any other medical advice and do not carry on collecting measurements.",
+  ].join("\n");
+}
+
+export interface RedFlagCall {
+  id: string;
+  patient_id: string;
+}
+
+/**
+ * Record new red flags against a call: mark the call safeguarding_escalated,
+ * raise a critical alert (which the escalation pathway assigns to the on-duty
+ * clinician) and an urgent MediTask task, due now, for each category. Flags
+ * found after the call ended say no safety-net advice was given. A category is
+ * only escalated once per call; returns the matches that were new.
+ */
+export async function escalateRedFlags(
+  supabase: SupabaseClient,
+  call: RedFlagCall,
+  detected: RedFlagMatch[],
+  source: "live" | "post_call",
+): Promise<RedFlagMatch[]> {
+  // First match of each category, e.g. when a whole transcript is checked line by line
+  const matches = detected.filter((match, i) => detected.findIndex(m => m.category === match.category) === i);
+  if (matches.length === 0) return [];
+
+  const { data: recorded, error } = await supabase
+    .from("call_red_flags")
+    .upsert(
+      matches.map(match => ({
+        call_id: call.id,
+        patient_id: call.patient_id,
+        category: match.category,
+        matched_text: match.matchedText,
+        source,
+      })),
+      { onConflict: "call_id,category", ignoreDuplicates: true },
+    )
+    .select("id, category");
+  if (error) throw error;
+
+  const newFlags = (recorded || []) as { id: string; category: RedFlagCategoryId }[];
+  if (newFlags.length === 0) return [];
+
+  const now = new Date().toISOString();
+  await supabase
+    .from("calls")
+    .update({ safeguarding_escalated: true, safeguarding_escalated_at: now })
+    .eq("id", call.id)
+    .eq("safeguarding_escalated", false);
+
+  // GDPR: anonymous reference in alert titles, as for rule alerts
+  const anonymousRef = `Patient-${call.patient_id.substring(0, 4).toUpperCase()}`;
+
+  for (const flag of newFlags) {
+    const category = RED_FLAG_CATEGORIES.find(c => c.id === flag.category)!;
+    const match = matches.find(m => m.category === flag.category)!;
+
+    const { data: alert } = await supabase
+      .from("health_alerts")
+      .insert({
+        patient_id: call.patient_id,
+        alert_type: "red_flag",
+        severity: "critical",
+        title: `Red flag during call - ${category.label}: ${anonymousRef}`,
+        description: source === "live"
+          ? `Patient said "${match.matchedText}" during a health check call and was given 999/111 safety-net advice. ${category.action}.`
+          : `Patient said "${match.matchedText}" during a health check call. This was found after the call ended, so no safety-net advice was given: call the patient back now. ${category.action}.`,
+        metrics: { call_id: call.id, category: category.id, source },
+        rule_id: `red_flag_${category.id}`,
+        priority: "critical",
+        action_required: category.action,
+        due_within_days: 0,
+      })
+      .select("id")
+      .single();
+
+    const { data: task } = await supabase
+      .from("meditask_tasks")
+      .insert({
+        title: source === "live"
+          ? `Red flag: ${category.label} - urgent call-back`
+          : `Red flag: ${category.label} - no safety-net advice given, call back now`,
+        description: source === "live"
+          ? `${category.action}. Patient said "${match.matchedText}". Safety-net advice was given on the call; review the call transcript.`
+          : `${category.action}. Patient said "${match.matchedText}". Found after the call ended, so no 999/111 safety-net advice was given; call the patient back now and review the call transcript.`,
+        priority: "urgent",
+        status: "pending",
+        patient_id: call.patient_id,
+        due_date: now,
+        rule_id: `red_flag_${category.id}`,
+      })
+      .select("id")
+      .single();
+
+    await supabase
+      .from("call_red_flags")
+      .update({ alert_id: alert?.id ?? null, task_id: task?.id ?? null })
+      .eq("id", flag.id);
+  }
+
+  await supabase.rpc("log_call_audit", {
+    p_call_id: call.id,
+    p_action: "red_flag_detected",
+    p_actor: "system",
+    p_details: { categories: newFlags.map(f => f.category), source },
+  });
+
+  return matches.filter(m => newFlags.some(f => f.category === m.category));
+}
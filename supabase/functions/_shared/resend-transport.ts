@@ -0,0 +1,35 @@
+/**
+ * Resend email transport
+ */
+
+import { Resend } from "https://esm.sh/resend@2.0.0";
+import type { EmailMessage, EmailSendResult, EmailTransport } from "./email.ts";
+
+const EMAIL_FROM = "PatientCall <noreply@resend.dev>";
+
+export class ResendTransport implements EmailTransport {
+  readonly name = "resend";
+  private client: Resend;
+
+  constructor() {
+    const apiKey = Deno.env.get("RESEND_API_KEY");
+    if (!apiKey) {
+      throw new Error("RESEND_API_KEY is not configured");
+    }
+    this.client = new Resend(apiKey);
+  }
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    const { data, error } = await this.client.emails.send({
+      from: EMAIL_FROM,
+      to: message.to,
+      subject: message.subject,
+      html: message.html,
+      text: message.text,
+    });
+    if (error) {
+      throw new Error(`Resend error: ${error.message}`);
+    }
+    return { messageId: data?.id ?? null };
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * Loading the script a call follows
+ * Kept apart from call-script.ts and qof-observations.ts, which the web app
+ * also imports, so those modules do not depend on the Supabase client.
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { CallScript } from "./call-script.ts";
+import { buildIndicatorScript } from "./qof-observations.ts";
+
+export async function loadCallScript(supabase: SupabaseClient, scriptId: string): Promise<CallScript | null> {
+  const { data, error } = await supabase
+    .from("call_scripts")
+    .select("id, name, version, purpose_context, questions, closing_statement")
+    .eq("id", scriptId)
+    .single();
+
+  if (error || !data) {
+    console.error("Error loading call script:", error);
+    return null;
+  }
+  return data as CallScript;
+}
+
+export async function loadBatchIndicatorScript(supabase: SupabaseClient, batchId: string | null): Promise<CallScript | null> {
+  if (!batchId) return null;
+
+  const { data: batch, error } = await supabase
+    .from("call_batches")
+    .select("target_qof_indicators")
+    .eq("id", batchId)
+    .single();
+
+  if (error) {
+    console.error("Error loading batch target indicators:", error);
+    return null;
+  }
+  return buildIndicatorScript(batch?.target_qof_indicators || []);
+}
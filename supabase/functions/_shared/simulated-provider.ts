@@ -0,0 +1,260 @@
+/**
+ * Simulated telephony provider
+ * Places no real calls. Instead it replays a scripted patient against our own
+ * webhooks: status callbacks go to twilio-webhook, gather answers to the
+ * gather action (e.g. consent-speech), and the conversation stream is replaced
+ * by posting the scripted transcript to elevenlabs-webhook. This exercises the
+ * whole consent → conversation → call_responses pipeline in development and in
+ * automated tests.
+ */
+
+import type {
+  PlaceCallRequest,
+  PlaceCallResult,
+  TelephonyCallback,
+  TelephonyProvider,
+  VoiceStep,
+} from "./telephony.ts";
+import {
+  ConversationTurn,
+  DEFAULT_SIMULATOR_SCENARIO,
+  SIMULATOR_SCENARIOS,
+  SimulatorScenario,
+} from "./simulator-scenarios.ts";
+
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void } | undefined;
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Give initiate-call time to store the simulated call id before callbacks arrive
+const START_DELAY_MS = 2000;
+const STREAM_URL_PREFIX = "simulator://conversation/";
+
+export interface SimulationLog {
+  providerCallId: string;
+  scenario: string;
+  events: string[];
+}
+
+interface ReplayState {
+  scenario: SimulatorScenario;
+  speechIndex: number;
+  digitIndex: number;
+  log: SimulationLog;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export class SimulatedProvider implements TelephonyProvider {
+  readonly name = "simulator";
+  private serviceRoleKey: string;
+  private supabaseUrl: string;
+  private startDelayMs: number;
+
+  constructor(options: { startDelayMs?: number } = {}) {
+    this.supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    this.serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    this.startDelayMs = options.startDelayMs ?? START_DELAY_MS;
+  }
+
+  placeCall(request: PlaceCallRequest): Promise<PlaceCallResult> {
+    const providerCallId = `SIM-${crypto.randomUUID()}`;
+    const replay = this.replayCall(providerCallId, request).catch(error => {
+      console.error("Simulated call failed:", { providerCallId, error });
+    });
+
+    if (typeof EdgeRuntime !== "undefined") {
+      EdgeRuntime.waitUntil(replay);
+    }
+
+    return Promise.resolve({ providerCallId });
+  }
+
+  async parseCallback(req: Request): Promise<TelephonyCallback> {
+    const body = await req.json();
+    return {
+      providerCallId: body.providerCallId,
+      status: body.status ?? null,
+      durationSeconds: body.durationSeconds ?? null,
+      digits: body.digits ?? null,
+      speechResult: body.speechResult ?? null,
+      callerNumber: body.from ?? null,
+    };
+  }
+
+  renderResponse(steps: VoiceStep[]): Response {
+    return new Response(JSON.stringify({ steps }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  createConversationStreamUrl(callId: string): Promise<string> {
+    return Promise.resolve(`${STREAM_URL_PREFIX}${callId}`);
+  }
+
+  /**
+   * Play the scripted patient through a call. Public so tests can await the
+   * whole replay instead of relying on the background task.
+   */
+  async replayCall(providerCallId: string, request: PlaceCallRequest): Promise<SimulationLog> {
+    const scenarioName = request.scenario || Deno.env.get("SIMULATOR_SCENARIO") || DEFAULT_SIMULATOR_SCENARIO;
+    const scenario = SIMULATOR_SCENARIOS[scenarioName];
+    if (!scenario) {
+      throw new Error(`Unknown simulator scenario: ${scenarioName}`);
+    }
+
+    const state: ReplayState = {
+      scenario,
+      speechIndex: 0,
+      digitIndex: 0,
+      log: { providerCallId, scenario: scenarioName, events: [] },
+    };
+
+    await sleep(this.startDelayMs);
+    await this.sendStatus(request, providerCallId, "initiated", state);
+    await this.sendStatus(request, providerCallId, "ringing", state);
+
+    if (scenario.outcome !== "answered") {
+      await this.sendStatus(request, providerCallId, scenario.outcome, state, 0);
+      return state.log;
+    }
+
+    await this.sendStatus(request, providerCallId, "in-progress", state);
+    await this.runSteps(request.steps, providerCallId, state);
+    await this.sendStatus(request, providerCallId, "completed", state, scenario.durationSeconds);
+
+    console.log("Simulated call finished:", state.log);
+    return state.log;
+  }
+
+  /** Returns false once the call has hung up */
+  private async runSteps(steps: VoiceStep[], providerCallId: string, state: ReplayState): Promise<boolean> {
+    for (const step of steps) {
+      switch (step.type) {
+        case "play":
+          state.log.events.push(`play ${step.url}`);
+          break;
+        case "say":
+          state.log.events.push(`say "${step.text}"`);
+          break;
+        case "pause":
+          break;
+        case "gather": {
+          const reply = step.input === "speech"
+            ? state.scenario.speechReplies[state.speechIndex++]
+            : state.scenario.digitReplies[state.digitIndex++];
+
+          if (!reply) {
+            // Timed out: carry on with the steps after the gather
+            state.log.events.push(`gather ${step.input}: no reply`);
+            break;
+          }
+
+          state.log.events.push(`gather ${step.input}: "${reply}"`);
+          const next = await this.postCallback(step.action, {
+            providerCallId,
+            status: "in-progress",
+            durationSeconds: null,
+            digits: step.input === "dtmf" ? reply : null,
+            speechResult: step.input === "speech" ? reply : null,
+            callerNumber: null,
+          });
+          // A gather's action response replaces the rest of the current steps
+          return this.runSteps(next, providerCallId, state);
+        }
+        case "stream":
+          await this.streamConversation(step, providerCallId, state);
+          break;
+        case "hangup":
+          state.log.events.push("hangup");
+          return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Stand-in for the ElevenLabs agent: post each patient turn for the live
+   * red-flag check as the agent's tool would, then send the conversation as
+   * its webhook would. A red flag makes the agent give the safety net and
+   * stop the health check, so the rest of the script is not played.
+   */
+  private async streamConversation(
+    step: Extract<VoiceStep, { type: "stream" }>,
+    providerCallId: string,
+    state: ReplayState,
+  ) {
+    state.log.events.push(`stream ${step.url}`);
+    const turns: ConversationTurn[] = [];
+    for (const turn of state.scenario.conversation) {
+      turns.push(turn);
+      if (turn.role !== "patient") continue;
+
+      const response = await fetch(`${this.supabaseUrl}/functions/v1/conversation-segment`, {
+        method: "POST",
+        headers: this.headers(),
+        body: JSON.stringify({ conversation_id: providerCallId, role: "user", text: turn.text }),
+      });
+      const segment = await response.json().catch(() => ({}));
+      if (segment.red_flag) {
+        state.log.events.push(`red flag: ${segment.categories.join(", ")}`);
+        turns.push({ role: "agent", text: segment.safety_net });
+        break;
+      }
+    }
+
+    const transcript = turns
+      .map(turn => `${turn.role === "agent" ? "Agent" : "Patient"}: ${turn.text}`)
+      .join("\n");
+
+    const response = await fetch(`${this.supabaseUrl}/functions/v1/elevenlabs-webhook`, {
+      method: "POST",
+      headers: this.headers(),
+      body: JSON.stringify({
+        conversation_id: providerCallId,
+        transcript,
+        status: "completed",
+        duration_seconds: state.scenario.durationSeconds,
+      }),
+    });
+    state.log.events.push(`conversation posted: ${response.status}`);
+  }
+
+  private async sendStatus(
+    request: PlaceCallRequest,
+    providerCallId: string,
+    status: string,
+    state: ReplayState,
+    durationSeconds: number | null = null,
+  ) {
+    state.log.events.push(`status ${status}`);
+    await this.postCallback(request.statusCallbackUrl, {
+      providerCallId,
+      status,
+      durationSeconds,
+      digits: null,
+      speechResult: null,
+      callerNumber: null,
+    });
+  }
+
+  private async postCallback(url: string, callback: TelephonyCallback): Promise<VoiceStep[]> {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: this.headers(),
+      body: JSON.stringify(callback),
+    });
+    const body = await response.json().catch(() => ({}));
+    return (body.steps || []) as VoiceStep[];
+  }
+
+  private headers() {
+    return {
+      "Content-Type": "application/json",
+      "Authorization": `Bearer ${this.serviceRoleKey}`,
+    };
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * Scripted patient behaviour for the simulated telephony provider.
+ * Each scenario decides whether the phone is answered, what the patient says
+ * at each consent prompt and what they tell the health assistant.
+ */
+
+export interface ConversationTurn {
+  role: "agent" | "patient";
+  text: string;
+}
+
+export interface SimulatorScenario {
+  description: string;
+  outcome: "answered" | "no-answer" | "busy" | "failed";
+  // Replies to successive speech gathers; an empty string is silence (gather times out)
+  speechReplies: string[];
+  // Replies to successive keypad gathers
+  digitReplies: string[];
+  conversation: ConversationTurn[];
+  durationSeconds: number;
+}
+
+const HEALTH_CHECK_CONVERSATION: ConversationTurn[] = [
+  { role: "agent", text: "Thank you. Have you had your blood pressure checked recently?" },
+  { role: "patient", text: "Yes, I did it at home this morning. It was 138 over 86." },
+  { role: "agent", text: "Thank you. Do you know your pulse from that reading?" },
+  { role: "patient", text: "It said 72." },
+  { role: "agent", text: "And what is your current weight?" },
+  { role: "patient", text: "About 82 kilos." },
+  { role: "agent", text: "How tall are you?" },
+  { role: "patient", text: "175 centimetres." },
+  { role: "agent", text: "Do you smoke?" },
+  { role: "patient", text: "No, I gave up about five years ago." },
+  { role: "agent", text: "Roughly how many units of alcohol do you drink in a week?" },
+  { role: "patient", text: "Maybe 6 units." },
+  { role: "agent", text: "Do you look after anyone as an unpaid carer?" },
+  { role: "patient", text: "No, I don't." },
+  { role: "agent", text: "Thank you, that's everything. The practice will review your answers." },
+];
+
+export const SIMULATOR_SCENARIOS: Record<string, SimulatorScenario> = {
+  consented_full_answers: {
+    description: "Answers, consents straight away and answers every question",
+    outcome: "answered",
+    speechReplies: ["Yes, that's fine"],
+    digitReplies: ["1"],
+    conversation: HEALTH_CHECK_CONVERSATION,
+    durationSeconds: 240,
+  },
+  unclear_then_consent: {
+    description: "Mishears the consent question, then consents on the re-ask",
+    outcome: "answered",
+    speechReplies: ["Sorry, what was that?", "Oh, yes please"],
+    digitReplies: ["1"],
+    conversation: HEALTH_CHECK_CONVERSATION,
+    durationSeconds: 260,
+  },
+  red_flag_chest_pain: {
+    description: "Consents, then mentions chest pain part way through the health check",
+    outcome: "answered",
+    speechReplies: ["Yes, that's fine"],
+    digitReplies: ["1"],
+    conversation: [
+      { role: "agent", text: "Thank you. Have you had your blood pressure checked recently?" },
+      { role: "patient", text: "Not for a while. To be honest I've had a tight pain across my chest since this morning." },
+      { role: "agent", text: "Do you know your pulse?" },
+      { role: "patient", text: "No." },
+    ],
+    durationSeconds: 120,
+  },
+  declines_consent: {
+    description: "Answers but declines consent",
+    outcome: "answered",
+    speechReplies: ["No thank you"],
+    digitReplies: ["2"],
+    conversation: [],
+    durationSeconds: 30,
+  },
+  silent: {
+    description: "Answers but never responds to the consent question",
+    outcome: "answered",
+    speechReplies: [],
+    digitReplies: [],
+    conversation: [],
+    durationSeconds: 25,
+  },
+  no_answer: {
+    description: "Phone rings out",
+    outcome: "no-answer",
+    speechReplies: [],
+    digitReplies: [],
+    conversation: [],
+    durationSeconds: 0,
+  },
+  busy: {
+    description: "Line is engaged",
+    outcome: "busy",
+    speechReplies: [],
+    digitReplies: [],
+    conversation: [],
+    durationSeconds: 0,
+  },
+  failed: {
+    description: "Call cannot be connected",
+    outcome: "failed",
+    speechReplies: [],
+    digitReplies: [],
+    conversation: [],
+    durationSeconds: 0,
+  },
+};
+
+export const DEFAULT_SIMULATOR_SCENARIO = "consented_full_answers";
@@ -0,0 +1,17 @@
+/**
+ * Stub email transport
+ * Sends nothing: messages are written to the function log, so the escalation
+ * pathway can be exercised locally without an email provider.
+ */
+
+import type { EmailMessage, EmailSendResult, EmailTransport } from "./email.ts";
+
+export class StubEmailTransport implements EmailTransport {
+  readonly name = "stub";
+
+  send(message: EmailMessage): Promise<EmailSendResult> {
+    const messageId = `stub-${crypto.randomUUID()}`;
+    console.log(`[email stub] ${messageId} to ${message.to.join(", ")}: ${message.subject}\n${message.text}`);
+    return Promise.resolve({ messageId });
+  }
+}
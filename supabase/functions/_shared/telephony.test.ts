@@ -0,0 +1,96 @@
+/**
+ * Run with: deno test supabase/functions/_shared/telephony.test.ts
+ */
+
+import { assertEquals, assertStringIncludes } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { liveStageForProviderStatus, mapProviderStatus, type VoiceStep } from "./telephony.ts";
+import { renderTwiml, TwilioProvider } from "./twilio-provider.ts";
+import { SimulatedProvider } from "./simulated-provider.ts";
+
+const CONSENT_STEPS: VoiceStep[] = [
+  { type: "play", url: "https://example.supabase.co/storage/v1/object/public/consent.mp3" },
+  {
+    type: "gather",
+    input: "speech",
+    action: "https://example.supabase.co/functions/v1/consent-speech?attempt=1&call=a",
+    timeoutSeconds: 5,
+    prompt: [{ type: "say", text: "Please say \"yes\" or <no>" }],
+  },
+  { type: "pause", seconds: 2 },
+  { type: "hangup" },
+];
+
+Deno.test("mapProviderStatus maps provider statuses onto call statuses", () => {
+  assertEquals(mapProviderStatus("initiated"), "in_progress");
+  assertEquals(mapProviderStatus("ringing"), "in_progress");
+  assertEquals(mapProviderStatus("in-progress"), "in_progress");
+  assertEquals(mapProviderStatus("answered"), "in_progress");
+  assertEquals(mapProviderStatus("completed"), "completed");
+  assertEquals(mapProviderStatus("busy"), "no_answer");
+  assertEquals(mapProviderStatus("no-answer"), "no_answer");
+  assertEquals(mapProviderStatus("canceled"), "failed");
+  assertEquals(mapProviderStatus("failed"), "failed");
+});
+
+Deno.test("mapProviderStatus treats an unknown status as failed", () => {
+  assertEquals(mapProviderStatus("something-new"), "failed");
+  assertEquals(mapProviderStatus(""), "failed");
+});
+
+Deno.test("liveStageForProviderStatus follows the call until it is answered", () => {
+  assertEquals(liveStageForProviderStatus("initiated"), "dialling");
+  assertEquals(liveStageForProviderStatus("queued"), "dialling");
+  assertEquals(liveStageForProviderStatus("ringing"), "ringing");
+  assertEquals(liveStageForProviderStatus("in-progress"), "consent");
+  assertEquals(liveStageForProviderStatus("answered"), "consent");
+});
+
+Deno.test("liveStageForProviderStatus leaves final statuses to the call status", () => {
+  assertEquals(liveStageForProviderStatus("completed"), null);
+  assertEquals(liveStageForProviderStatus("no-answer"), null);
+  assertEquals(liveStageForProviderStatus("failed"), null);
+});
+
+Deno.test("renderTwiml renders each step and escapes text and URLs", () => {
+  const twiml = renderTwiml(CONSENT_STEPS);
+
+  assertEquals(twiml.startsWith('<?xml version="1.0" encoding="UTF-8"?>\n<Response>\n'), true);
+  assertEquals(twiml.endsWith("\n</Response>"), true);
+  assertStringIncludes(twiml, "<Play>https://example.supabase.co/storage/v1/object/public/consent.mp3</Play>");
+  assertStringIncludes(
+    twiml,
+    '<Gather input="speech" action="https://example.supabase.co/functions/v1/consent-speech?attempt=1&amp;call=a" method="POST" timeout="5" speechTimeout="auto" language="en-GB">',
+  );
+  assertStringIncludes(twiml, '<Say voice="alice">Please say &quot;yes&quot; or &lt;no&gt;</Say>');
+  assertStringIncludes(twiml, '<Pause length="2"/>');
+  assertStringIncludes(twiml, "<Hangup/>");
+});
+
+Deno.test("renderTwiml renders keypad gathers and conversation streams", () => {
+  const twiml = renderTwiml([
+    { type: "gather", input: "dtmf", action: "https://example.test/dtmf", timeoutSeconds: 8, prompt: [] },
+    { type: "gather", input: "dtmf", action: "https://example.test/dtmf", timeoutSeconds: 8, numDigits: 2, prompt: [] },
+    { type: "stream", url: "wss://agent.example.test/stream", parameters: { call_id: "abc" } },
+  ]);
+
+  assertStringIncludes(twiml, '<Gather numDigits="1" action="https://example.test/dtmf" method="POST" timeout="8">');
+  assertStringIncludes(twiml, 'numDigits="2"');
+  assertStringIncludes(twiml, '<Connect>\n    <Stream url="wss://agent.example.test/stream">');
+  assertStringIncludes(twiml, '<Parameter name="call_id" value="abc" />');
+});
+
+Deno.test("TwilioProvider.renderResponse returns TwiML", async () => {
+  const response = new TwilioProvider().renderResponse(CONSENT_STEPS);
+
+  assertEquals(response.headers.get("Content-Type"), "text/xml");
+  assertEquals(await response.text(), renderTwiml(CONSENT_STEPS));
+});
+
+Deno.test("SimulatedProvider.renderResponse returns the steps as JSON", async () => {
+  Deno.env.set("SUPABASE_URL", "https://example.supabase.co");
+  Deno.env.set("SUPABASE_SERVICE_ROLE_KEY", "service-role-key");
+  const response = new SimulatedProvider().renderResponse(CONSENT_STEPS);
+
+  assertEquals(response.headers.get("Content-Type"), "application/json");
+  assertEquals(await response.json(), { steps: CONSENT_STEPS });
+});
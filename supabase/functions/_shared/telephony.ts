@@ -0,0 +1,187 @@
+/**
+ * Telephony provider abstraction
+ * Call flows are described as provider-neutral voice steps (play, say, gather,
+ * stream connect, hangup). Each provider turns them into its own wire format
+ * and parses its own status/gather callbacks, so the consent → conversation →
+ * call_responses pipeline does not depend on Twilio.
+ *
+ * Select the provider with TELEPHONY_PROVIDER ("twilio" by default, or
+ * "simulator" to replay scripted patient answers without placing real calls).
+ */
+
+import { TwilioProvider } from "./twilio-provider.ts";
+import { SimulatedProvider } from "./simulated-provider.ts";
+
+export type VoiceStep =
+  | { type: "play"; url: string }
+  | { type: "say"; text: string }
+  | { type: "pause"; seconds: number }
+  | {
+    type: "gather";
+    input: "speech" | "dtmf";
+    action: string;
+    timeoutSeconds: number;
+    numDigits?: number;
+    prompt: VoiceStep[];
+  }
+  | { type: "stream"; url: string; parameters: Record<string, string> }
+  | { type: "hangup" };
+
+export interface PlaceCallRequest {
+  callId: string;
+  to: string;
+  steps: VoiceStep[];
+  statusCallbackUrl: string;
+  // Simulator only: name of the scripted scenario to replay
+  scenario?: string;
+}
+
+export interface PlaceCallResult {
+  providerCallId: string;
+}
+
+/** A status update or gather result posted back by the provider */
+export interface TelephonyCallback {
+  providerCallId: string;
+  status: string | null; // provider status, e.g. "ringing", "no-answer"
+  durationSeconds: number | null;
+  digits: string | null;
+  speechResult: string | null;
+  // Caller ID, used to match inbound calls to a patient
+  callerNumber: string | null;
+}
+
+export interface TelephonyProvider {
+  readonly name: string;
+  placeCall(request: PlaceCallRequest): Promise<PlaceCallResult>;
+  parseCallback(req: Request): Promise<TelephonyCallback>;
+  /** Response body returned from a callback to drive the next steps of the call */
+  renderResponse(steps: VoiceStep[]): Response;
+  /**
+   * Conversation stream to connect after consent. Providers that do not
+   * implement this use the ElevenLabs agent.
+   */
+  createConversationStreamUrl?(callId: string): Promise<string>;
+}
+
+// Provider call statuses (Twilio vocabulary, which the simulator also uses) → calls.status
+const STATUS_MAP: Record<string, string> = {
+  "initiated": "in_progress",
+  "queued": "in_progress",
+  "ringing": "in_progress",
+  "in-progress": "in_progress",
+  "answered": "in_progress",
+  "completed": "completed",
+  "busy": "no_answer",
+  "no-answer": "no_answer",
+  "failed": "failed",
+  "canceled": "failed",
+};
+
+export const FINAL_PROVIDER_STATUSES = ["completed", "busy", "no-answer", "failed", "canceled"];
+
+// Provider call statuses → calls.live_stage; consent and conversation are set by the consent handlers
+const LIVE_STAGE_MAP: Record<string, string> = {
+  "initiated": "dialling",
+  "queued": "dialling",
+  "ringing": "ringing",
+  "in-progress": "consent",
+  "answered": "consent",
+};
+
+/** calls.live_stage for a provider status; null once the call has ended */
+export function liveStageForProviderStatus(status: string): string | null {
+  return LIVE_STAGE_MAP[status] ?? null;
+}
+
+export function mapProviderStatus(status: string): string {
+  return STATUS_MAP[status] || "failed";
+}
+
+export function getTelephonyProvider(): TelephonyProvider {
+  const name = (Deno.env.get("TELEPHONY_PROVIDER") || "twilio").toLowerCase();
+
+  if (name === "simulator") {
+    return new SimulatedProvider();
+  }
+  if (name === "twilio") {
+    return new TwilioProvider();
+  }
+  throw new Error(`Unknown telephony provider: ${name}`);
+}
+
+/**
+ * URL of the conversation stream to connect after consent: the provider's own
+ * (simulator) or a signed ElevenLabs agent URL
+ */
+export async function getConversationStreamUrl(telephony: TelephonyProvider, callId: string): Promise<string> {
+  if (telephony.createConversationStreamUrl) {
+    return await telephony.createConversationStreamUrl(callId);
+  }
+
+  const ELEVENLABS_API_KEY = Deno.env.get("ELEVENLABS_API_KEY");
+  const ELEVENLABS_AGENT_ID = Deno.env.get("ELEVENLABS_AGENT_ID");
+  if (!ELEVENLABS_API_KEY || !ELEVENLABS_AGENT_ID) {
+    throw new Error("ElevenLabs credentials not configured");
+  }
+
+  const elevenLabsResponse = await fetch(
+    `https://api.elevenlabs.io/v1/convai/conversation/get_signed_url?agent_id=${ELEVENLABS_AGENT_ID}`,
+    {
+      method: "GET",
+      headers: {
+        "xi-api-key": ELEVENLABS_API_KEY,
+      },
+    }
+  );
+
+  if (!elevenLabsResponse.ok) {
+    const errorText = await elevenLabsResponse.text();
+    console.error("ElevenLabs error:", errorText);
+    throw new Error(`Failed to get ElevenLabs signed URL: ${errorText}`);
+  }
+
+  const { signed_url } = await elevenLabsResponse.json();
+  console.log("Got ElevenLabs signed URL");
+  return signed_url;
+}
+
+/** Steps for the consent prompt, shared by the first ask and any re-ask */
+export function consentGatherSteps(supabaseUrl: string): VoiceStep[] {
+  const consentAudioUrl = `${supabaseUrl}/functions/v1/consent-audio`;
+  return [
+    {
+      type: "gather",
+      input: "speech",
+      action: `${supabaseUrl}/functions/v1/consent-speech`,
+      timeoutSeconds: 8,
+      prompt: [{ type: "play", url: `${consentAudioUrl}?type=consent_verbal` }],
+    },
+    { type: "play", url: `${consentAudioUrl}?type=no_response` },
+    { type: "hangup" },
+  ];
+}
+
+/** Steps after consent: connect the patient to the conversation stream */
+export function conversationSteps(
+  supabaseUrl: string,
+  streamUrl: string,
+  purposeContext: string,
+  callId: string,
+): VoiceStep[] {
+  const consentAudioUrl = `${supabaseUrl}/functions/v1/consent-audio`;
+  return [
+    { type: "play", url: `${consentAudioUrl}?type=thank_you` },
+    // callId lets the agent's live red-flag check (conversation-segment) identify the call
+    { type: "stream", url: streamUrl, parameters: { purposeContext, callId } },
+    { type: "play", url: `${consentAudioUrl}?type=goodbye` },
+  ];
+}
+
+/** Play a consent-audio clip and hang up */
+export function playAndHangUpSteps(supabaseUrl: string, audioType: string): VoiceStep[] {
+  return [
+    { type: "play", url: `${supabaseUrl}/functions/v1/consent-audio?type=${audioType}` },
+    { type: "hangup" },
+  ];
+}
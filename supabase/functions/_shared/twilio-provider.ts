@@ -0,0 +1,121 @@
+/**
+ * Twilio telephony provider
+ * Places calls through the Twilio REST API, renders voice steps as TwiML and
+ * reads Twilio's form-encoded status and gather callbacks.
+ */
+
+import type {
+  PlaceCallRequest,
+  PlaceCallResult,
+  TelephonyCallback,
+  TelephonyProvider,
+  VoiceStep,
+} from "./telephony.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function renderStep(step: VoiceStep, indent: string): string {
+  switch (step.type) {
+    case "play":
+      return `${indent}<Play>${escapeXml(step.url)}</Play>`;
+    case "say":
+      return `${indent}<Say voice="alice">${escapeXml(step.text)}</Say>`;
+    case "pause":
+      return `${indent}<Pause length="${step.seconds}"/>`;
+    case "gather": {
+      const attributes = step.input === "speech"
+        ? `input="speech" action="${escapeXml(step.action)}" method="POST" timeout="${step.timeoutSeconds}" speechTimeout="auto" language="en-GB"`
+        : `numDigits="${step.numDigits ?? 1}" action="${escapeXml(step.action)}" method="POST" timeout="${step.timeoutSeconds}"`;
+      const prompt = step.prompt.map(s => renderStep(s, `${indent}  `)).join("\n");
+      return `${indent}<Gather ${attributes}>\n${prompt}\n${indent}</Gather>`;
+    }
+    case "stream": {
+      const parameters = Object.entries(step.parameters)
+        .map(([name, value]) => `${indent}    <Parameter name="${escapeXml(name)}" value="${escapeXml(value)}" />`)
+        .join("\n");
+      return `${indent}<Connect>\n${indent}  <Stream url="${escapeXml(step.url)}">\n${parameters}\n${indent}  </Stream>\n${indent}</Connect>`;
+    }
+    case "hangup":
+      return `${indent}<Hangup/>`;
+  }
+}
+
+export function renderTwiml(steps: VoiceStep[]): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<Response>
+${steps.map(step => renderStep(step, "  ")).join("\n")}
+</Response>`;
+}
+
+export class TwilioProvider implements TelephonyProvider {
+  readonly name = "twilio";
+  private accountSid = Deno.env.get("TWILIO_ACCOUNT_SID");
+  private authToken = Deno.env.get("TWILIO_AUTH_TOKEN");
+  private fromNumber = Deno.env.get("TWILIO_PHONE_NUMBER");
+
+  async placeCall(request: PlaceCallRequest): Promise<PlaceCallResult> {
+    if (!this.accountSid || !this.authToken || !this.fromNumber) {
+      throw new Error("Twilio credentials not configured");
+    }
+
+    const formData = new URLSearchParams();
+    formData.append("To", request.to);
+    formData.append("From", this.fromNumber);
+    formData.append("Twiml", renderTwiml(request.steps));
+    formData.append("StatusCallback", request.statusCallbackUrl);
+    formData.append("StatusCallbackEvent", "initiated ringing answered completed");
+    formData.append("StatusCallbackMethod", "POST");
+
+    const response = await fetch(
+      `https://api.twilio.com/2010-04-01/Accounts/${this.accountSid}/Calls.json`,
+      {
+        method: "POST",
+        headers: {
+          "Authorization": `Basic ${btoa(`${this.accountSid}:${this.authToken}`)}`,
+          "Content-Type": "application/x-www-form-urlencoded",
+        },
+        body: formData.toString(),
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error("Twilio error:", errorText);
+      throw new Error(`Failed to initiate Twilio call: ${errorText}`);
+    }
+
+    const data = await response.json();
+    return { providerCallId: data.sid };
+  }
+
+  async parseCallback(req: Request): Promise<TelephonyCallback> {
+    const formData = await req.formData();
+    const duration = formData.get("CallDuration") as string | null;
+
+    return {
+      providerCallId: formData.get("CallSid") as string,
+      status: (formData.get("CallStatus") as string | null) || null,
+      durationSeconds: duration ? parseInt(duration, 10) : null,
+      digits: (formData.get("Digits") as string | null) || null,
+      speechResult: (formData.get("SpeechResult") as string | null) || null,
+      callerNumber: (formData.get("From") as string | null) || null,
+    };
+  }
+
+  renderResponse(steps: VoiceStep[]): Response {
+    return new Response(renderTwiml(steps), {
+      headers: { ...corsHeaders, "Content-Type": "text/xml" },
+    });
+  }
+}
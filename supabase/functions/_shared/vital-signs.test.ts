@@ -0,0 +1,158 @@
+/**
+ * Run with: deno test supabase/functions/_shared/vital-signs.test.ts
+ */
+
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import {
+  expandBloodPressure,
+  findImplausibleValues,
+  parseBloodPressure,
+  parseMeasurement,
+  parseSpokenNumber,
+  withoutFlaggedValues,
+} from "./vital-signs.ts";
+
+const BP_CHECKS = [
+  { key: "blood_pressure_systolic", min: 70, max: 250, unit: "mmHg" },
+  { key: "blood_pressure_diastolic", min: 40, max: 150, unit: "mmHg" },
+];
+
+const BODY_CHECKS = [
+  { key: "weight_kg", unit: "kg" },
+  { key: "height_cm", unit: "cm" },
+];
+
+Deno.test("parseSpokenNumber reads numbers as patients say them", () => {
+  assertEquals(parseSpokenNumber("one hundred and twenty"), 120);
+  assertEquals(parseSpokenNumber("one twenty"), 120);
+  assertEquals(parseSpokenNumber("one oh five"), 105);
+  assertEquals(parseSpokenNumber("eighty two"), 82);
+  assertEquals(parseSpokenNumber("seventy six point five"), 76.5);
+  assertEquals(parseSpokenNumber("twelve and a half"), 12.5);
+  assertEquals(parseSpokenNumber("1,200"), 1200);
+  assertEquals(parseSpokenNumber("not sure"), null);
+});
+
+Deno.test("parseBloodPressure splits written and spoken readings", () => {
+  assertEquals(parseBloodPressure("120/80"), { systolic: 120, diastolic: 80 });
+  assertEquals(parseBloodPressure("138 over 86"), { systolic: 138, diastolic: 86 });
+  assertEquals(parseBloodPressure("one twenty over eighty"), { systolic: 120, diastolic: 80 });
+  assertEquals(parseBloodPressure("one hundred and forty over ninety"), { systolic: 140, diastolic: 90 });
+  assertEquals(parseBloodPressure("One oh five / seventy"), { systolic: 105, diastolic: 70 });
+});
+
+Deno.test("parseBloodPressure needs both numbers", () => {
+  assertEquals(parseBloodPressure("120"), null);
+  assertEquals(parseBloodPressure("120 over"), null);
+  assertEquals(parseBloodPressure("120/80/70"), null);
+});
+
+Deno.test("expandBloodPressure moves a whole reading into both fields", () => {
+  assertEquals(
+    expandBloodPressure({ blood_pressure_systolic: "one forty over ninety", blood_pressure_diastolic: null, pulse_rate: 72 }),
+    { blood_pressure_systolic: 140, blood_pressure_diastolic: 90, pulse_rate: 72 },
+  );
+  const separate = { blood_pressure_systolic: 140, blood_pressure_diastolic: 90 };
+  assertEquals(expandBloodPressure(separate), separate);
+});
+
+Deno.test("parseMeasurement converts stones and pounds to kilograms", () => {
+  assertEquals(parseMeasurement("12 stone 4", "kg"), 78.0);
+  assertEquals(parseMeasurement("twelve stone four pounds", "kg"), 78.0);
+  assertEquals(parseMeasurement("eleven stone", "kg"), 69.9);
+  assertEquals(parseMeasurement("168 lbs", "kg"), 76.2);
+  assertEquals(parseMeasurement("about 82 kilos", "kg"), 82);
+  assertEquals(parseMeasurement("eighty two and a half kilograms", "kg"), 82.5);
+  assertEquals(parseMeasurement(82, "kg"), 82);
+});
+
+Deno.test("parseMeasurement converts feet and inches to centimetres", () => {
+  assertEquals(parseMeasurement("five foot eight", "cm"), 172.7);
+  assertEquals(parseMeasurement("5 ft 8 in", "cm"), 172.7);
+  assertEquals(parseMeasurement(`5'10"`, "cm"), 177.8);
+  assertEquals(parseMeasurement("six feet", "cm"), 182.9);
+  assertEquals(parseMeasurement("70 inches", "cm"), 177.8);
+  assertEquals(parseMeasurement("175 centimetres", "cm"), 175);
+  assertEquals(parseMeasurement("1.75 metres", "cm"), 175);
+  // A bare height under 3 can only be metres
+  assertEquals(parseMeasurement("1.8", "cm"), 180);
+});
+
+Deno.test("parseMeasurement returns the first number for other units", () => {
+  assertEquals(parseMeasurement("It said 72", "bpm"), 72);
+  assertEquals(parseMeasurement("maybe six units", "units/week"), 6);
+  assertEquals(parseMeasurement("I don't know", "bpm"), null);
+  assertEquals(parseMeasurement(null, "bpm"), null);
+  assertEquals(parseMeasurement(Number.NaN, "bpm"), null);
+});
+
+Deno.test("findImplausibleValues accepts values on the physiological limits", () => {
+  assertEquals(findImplausibleValues({ blood_pressure_systolic: 260, blood_pressure_diastolic: 160 }, [
+    { key: "blood_pressure_systolic" },
+    { key: "blood_pressure_diastolic" },
+  ]), []);
+  assertEquals(findImplausibleValues({ blood_pressure_systolic: 60, blood_pressure_diastolic: 30 }, [
+    { key: "blood_pressure_systolic" },
+    { key: "blood_pressure_diastolic" },
+  ]), []);
+});
+
+Deno.test("findImplausibleValues sends values beyond the physiological limits for review", () => {
+  const flags = findImplausibleValues({ blood_pressure_systolic: 261, blood_pressure_diastolic: 29 }, BP_CHECKS);
+
+  assertEquals(flags.map(f => [f.field, f.action]), [
+    ["blood_pressure_systolic", "review"],
+    ["blood_pressure_diastolic", "review"],
+  ]);
+  assertEquals(flags[0].reason, "261 mmHg is not physiologically plausible");
+});
+
+Deno.test("findImplausibleValues checks the question's own range inside the limits", () => {
+  assertEquals(findImplausibleValues({ blood_pressure_systolic: 70, blood_pressure_diastolic: 40 }, BP_CHECKS), []);
+
+  const flags = findImplausibleValues({ blood_pressure_systolic: 250, blood_pressure_diastolic: 39 }, BP_CHECKS);
+  assertEquals(flags.length, 1);
+  assertEquals(flags[0].field, "blood_pressure_diastolic");
+  assertEquals(flags[0].reason, "39 mmHg is outside the expected range 40–150");
+  assertEquals(flags[0].action, "review");
+});
+
+Deno.test("findImplausibleValues asks again when a spoken value could not be parsed", () => {
+  const raw = { weight_kg: "a bit more than last time", height_cm: "" };
+  const flags = findImplausibleValues({ weight_kg: null, height_cm: null }, BODY_CHECKS, raw);
+
+  assertEquals(flags, [{
+    field: "weight_kg",
+    value: null,
+    raw: "a bit more than last time",
+    reason: 'Could not understand "a bit more than last time"',
+    action: "reask",
+  }]);
+});
+
+Deno.test("findImplausibleValues asks again when systolic is not above diastolic", () => {
+  const raw = { blood_pressure_systolic: "eighty", blood_pressure_diastolic: "one twenty" };
+  const flags = findImplausibleValues({ blood_pressure_systolic: 80, blood_pressure_diastolic: 120 }, BP_CHECKS, raw);
+
+  assertEquals(flags.map(f => [f.field, f.raw, f.action]), [
+    ["blood_pressure_systolic", "eighty", "reask"],
+    ["blood_pressure_diastolic", "one twenty", "reask"],
+  ]);
+  assertEquals(flags[0].reason, "Systolic 80 is not above diastolic 120");
+});
+
+Deno.test("findImplausibleValues flags weight and height that give an impossible BMI", () => {
+  assertEquals(findImplausibleValues({ weight_kg: 82, height_cm: 175 }, BODY_CHECKS), []);
+
+  // Both on their limits, but 250 kg at 1 m is a BMI of 250
+  const flags = findImplausibleValues({ weight_kg: 250, height_cm: 100 }, BODY_CHECKS);
+  assertEquals(flags.map(f => [f.field, f.action]), [["weight_kg", "review"], ["height_cm", "review"]]);
+  assertEquals(flags[0].reason, "Weight 250 kg and height 100 cm give an implausible BMI of 250");
+});
+
+Deno.test("withoutFlaggedValues clears only the flagged fields", () => {
+  const answers = { blood_pressure_systolic: 261, blood_pressure_diastolic: 80, pulse_rate: 72 };
+  const flags = findImplausibleValues(answers, BP_CHECKS);
+
+  assertEquals(withoutFlaggedValues(answers, flags), { blood_pressure_systolic: null, blood_pressure_diastolic: 80, pulse_rate: 72 });
+});
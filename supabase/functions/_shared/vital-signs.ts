@@ -0,0 +1,350 @@
+/**
+ * Vital signs parsing and plausibility
+ * Turns values as the patient said them ("one twenty over eighty", "twelve
+ * stone four", "five foot eight") into numbers in the stored unit, without
+ * relying on the extraction model to do arithmetic, and catches values that
+ * cannot be right so they go to a clinician instead of into call_responses.
+ * Pure functions only: no Deno or Supabase imports.
+ */
+
+const SMALL_NUMBERS: Record<string, number> = {
+  zero: 0, oh: 0, nought: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9,
+};
+
+const TEENS: Record<string, number> = {
+  ten: 10, eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15,
+  sixteen: 16, seventeen: 17, eighteen: 18, nineteen: 19,
+};
+
+const TENS: Record<string, number> = {
+  twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60, seventy: 70, eighty: 80, ninety: 90,
+};
+
+const NUMBER_JOINERS = new Set(["and", "a", "half", "point", "hundred", "thousand"]);
+
+type SpokenUnit = "st" | "lb" | "kg" | "ft" | "in" | "cm" | "m";
+
+const UNIT_WORDS: Record<string, SpokenUnit> = {
+  stone: "st", stones: "st", st: "st",
+  pound: "lb", pounds: "lb", lb: "lb", lbs: "lb",
+  kg: "kg", kgs: "kg", kilo: "kg", kilos: "kg", kilogram: "kg", kilograms: "kg", kilogrammes: "kg",
+  foot: "ft", feet: "ft", ft: "ft", "'": "ft",
+  inch: "in", inches: "in", in: "in", '"': "in",
+  cm: "cm", cms: "cm", centimetre: "cm", centimetres: "cm", centimeter: "cm", centimeters: "cm",
+  m: "m", metre: "m", metres: "m", meter: "m", meters: "m",
+};
+
+const KG_PER_STONE = 6.35029318;
+const KG_PER_POUND = 0.45359237;
+const CM_PER_FOOT = 30.48;
+const CM_PER_INCH = 2.54;
+
+const isDigits = (token: string) => /^\d+(?:\.\d+)?$/.test(token);
+
+const isNumberToken = (token: string) =>
+  isDigits(token) || token in SMALL_NUMBERS || token in TEENS || token in TENS || NUMBER_JOINERS.has(token);
+
+function tokenise(text: string): string[] {
+  return text.toLowerCase().replace(/,/g, "").match(/\d+(?:\.\d+)?|[a-z]+|['"]/g) || [];
+}
+
+/**
+ * Number from spoken words and/or digits. Handles "one hundred and twenty",
+ * "seventy six point five", "twelve and a half", and the way readings are
+ * usually read out: "one twenty" is 120 and "one oh five" is 105.
+ */
+export function parseSpokenNumber(input: string | string[]): number | null {
+  const tokens = Array.isArray(input) ? input : tokenise(input);
+
+  // Spoken groups, e.g. "one twenty" → [1, 20], joined as digits at the end
+  const groups: number[] = [];
+  let current: number | null = null;
+  let last: "small" | "teen" | "tens" | "hundred" | "digits" | null = null;
+  let decimals: string | null = null;
+  let half = false;
+
+  const startGroup = (value: number, kind: typeof last) => {
+    if (current !== null) groups.push(current);
+    current = value;
+    last = kind;
+  };
+
+  for (const token of tokens) {
+    if (decimals !== null) {
+      if (token in SMALL_NUMBERS) decimals += SMALL_NUMBERS[token];
+      else if (/^\d+$/.test(token)) decimals += token;
+      continue;
+    }
+
+    if (token === "and" || token === "a") continue;
+    if (token === "half") {
+      half = true;
+    } else if (token === "point") {
+      decimals = "";
+    } else if (isDigits(token)) {
+      startGroup(parseFloat(token), "digits");
+    } else if (token in SMALL_NUMBERS) {
+      const value = SMALL_NUMBERS[token];
+      if (current !== null && (last === "hundred" || (last === "tens" && current % 10 === 0))) {
+        current += value;
+        last = "small";
+      } else {
+        startGroup(value, "small");
+      }
+    } else if (token in TEENS) {
+      if (current !== null && last === "hundred") current += TEENS[token];
+      else startGroup(TEENS[token], "teen");
+    } else if (token in TENS) {
+      if (current !== null && last === "hundred") current += TENS[token];
+      else startGroup(TENS[token], "tens");
+      last = "tens";
+    } else if (token === "hundred" || token === "thousand") {
+      current = (current ?? 1) * (token === "hundred" ? 100 : 1000);
+      last = "hundred";
+    }
+  }
+
+  if (current !== null) groups.push(current);
+  if (groups.length === 0) return null;
+
+  let value = groups.length === 1 ? groups[0] : parseFloat(groups.map(String).join(""));
+  if (decimals) value = parseFloat(`${Math.trunc(value)}.${decimals}`);
+  if (half) value += 0.5;
+
+  return Number.isFinite(value) ? value : null;
+}
+
+interface SpokenQuantity {
+  value: number;
+  unit: SpokenUnit | null;
+}
+
+/** Every number in the text with the unit that follows it, e.g. "12 stone 4" → [12 st, 4] */
+function extractQuantities(text: string): SpokenQuantity[] {
+  const quantities: SpokenQuantity[] = [];
+  let run: string[] = [];
+
+  const closeRun = (unit: SpokenUnit | null) => {
+    const value = run.length > 0 ? parseSpokenNumber(run) : null;
+    if (value !== null) quantities.push({ value, unit });
+    run = [];
+  };
+
+  for (const token of tokenise(text)) {
+    // A unit word straight after a digit run ("in" as a preposition has no number before it)
+    if (token in UNIT_WORDS && run.length > 0) {
+      closeRun(UNIT_WORDS[token]);
+    } else if (isNumberToken(token)) {
+      // Two digit groups in a row are separate numbers ("5 8"), spoken words are one
+      if (isDigits(token) && run.some(isDigits)) closeRun(null);
+      run.push(token);
+    } else {
+      closeRun(null);
+    }
+  }
+  closeRun(null);
+
+  return quantities;
+}
+
+const round = (value: number, places: number) => Math.round(value * 10 ** places) / 10 ** places;
+
+function toKilograms(quantities: SpokenQuantity[]): number | null {
+  const kg = quantities.find(q => q.unit === "kg");
+  if (kg) return kg.value;
+
+  const stoneIndex = quantities.findIndex(q => q.unit === "st");
+  if (stoneIndex >= 0) {
+    // "12 stone 4" → the unitless number after stones is pounds
+    const next = quantities[stoneIndex + 1];
+    const pounds = next && (next.unit === "lb" || next.unit === null) ? next.value : 0;
+    return quantities[stoneIndex].value * KG_PER_STONE + pounds * KG_PER_POUND;
+  }
+
+  const pounds = quantities.find(q => q.unit === "lb");
+  if (pounds) return pounds.value * KG_PER_POUND;
+
+  return quantities[0]?.value ?? null;
+}
+
+function toCentimetres(quantities: SpokenQuantity[]): number | null {
+  const cm = quantities.find(q => q.unit === "cm");
+  if (cm) return cm.value;
+
+  const metres = quantities.find(q => q.unit === "m");
+  if (metres) return metres.value * 100;
+
+  const feetIndex = quantities.findIndex(q => q.unit === "ft");
+  if (feetIndex >= 0) {
+    // "five foot eight" → the unitless number after feet is inches
+    const next = quantities[feetIndex + 1];
+    const inches = next && (next.unit === "in" || next.unit === null) ? next.value : 0;
+    return quantities[feetIndex].value * CM_PER_FOOT + inches * CM_PER_INCH;
+  }
+
+  const inches = quantities.find(q => q.unit === "in");
+  if (inches) return inches.value * CM_PER_INCH;
+
+  const bare = quantities[0]?.value ?? null;
+  // A bare height under 3 can only be metres
+  return bare !== null && bare < 3 ? bare * 100 : bare;
+}
+
+/**
+ * A spoken or written measurement in the given target unit. Weights convert to
+ * kg and heights to cm; for other units the first number is returned as is.
+ */
+export function parseMeasurement(value: unknown, targetUnit?: string | null): number | null {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (value === null || value === undefined) return null;
+
+  const quantities = extractQuantities(String(value));
+  if (quantities.length === 0) return null;
+
+  switch (targetUnit) {
+    case "kg": {
+      const kg = toKilograms(quantities);
+      return kg === null ? null : round(kg, 1);
+    }
+    case "cm": {
+      const cm = toCentimetres(quantities);
+      return cm === null ? null : round(cm, 1);
+    }
+    default:
+      return quantities[0].value;
+  }
+}
+
+/** "120/80", "120 over 80", "one twenty over eighty" → both numbers */
+export function parseBloodPressure(text: string): { systolic: number; diastolic: number } | null {
+  const parts = text.toLowerCase().split(/\s*(?:\/|\bover\b)\s*/);
+  if (parts.length !== 2) return null;
+
+  const systolic = parseSpokenNumber(parts[0]);
+  const diastolic = parseSpokenNumber(parts[1]);
+  return systolic !== null && diastolic !== null ? { systolic, diastolic } : null;
+}
+
+/**
+ * The extraction model sometimes returns the whole reading for one field.
+ * Split it so each field holds only its own number.
+ */
+export function expandBloodPressure(raw: Record<string, unknown>): Record<string, unknown> {
+  const reading = [raw.blood_pressure_systolic, raw.blood_pressure_diastolic]
+    .filter((v): v is string => typeof v === "string")
+    .map(parseBloodPressure)
+    .find(bp => bp !== null);
+
+  if (!reading) return raw;
+  return { ...raw, blood_pressure_systolic: reading.systolic, blood_pressure_diastolic: reading.diastolic };
+}
+
+export interface PlausibilityFlag {
+  field: string;
+  value: number | string | null;
+  raw: string | null;
+  reason: string;
+  // reask: likely misheard, call the patient back; review: unusual, a clinician should check
+  action: "reask" | "review";
+}
+
+interface RangeCheck {
+  key: string;
+  min?: number | null;
+  max?: number | null;
+  unit?: string | null;
+}
+
+// Values outside these are not credible from a patient at home, whatever the script allows
+export const PHYSIOLOGICAL_LIMITS: Record<string, { min: number; max: number }> = {
+  blood_pressure_systolic: { min: 60, max: 260 },
+  blood_pressure_diastolic: { min: 30, max: 160 },
+  pulse_rate: { min: 25, max: 250 },
+  weight_kg: { min: 20, max: 250 },
+  height_cm: { min: 100, max: 230 },
+  alcohol_units_per_week: { min: 0, max: 300 },
+  hba1c_mmol_mol: { min: 15, max: 200 },
+  fev1_litres: { min: 0.2, max: 7 },
+  peak_flow_l_min: { min: 50, max: 900 },
+  mrc_dyspnoea_grade: { min: 1, max: 5 },
+};
+
+const BMI_LIMITS = { min: 10, max: 80 };
+
+const describe = (value: number, unit?: string | null) => `${value}${unit ? ` ${unit}` : ""}`;
+
+/**
+ * Problems with parsed answers: numbers that could not be understood, are
+ * outside the question's range or physiological limits, or contradict each
+ * other (systolic not above diastolic, impossible BMI).
+ */
+export function findImplausibleValues(
+  answers: Record<string, unknown>,
+  checks: RangeCheck[],
+  raw: Record<string, unknown> = {},
+): PlausibilityFlag[] {
+  const flags: PlausibilityFlag[] = [];
+  const rawText = (key: string) => (raw[key] === null || raw[key] === undefined || raw[key] === "" ? null : String(raw[key]));
+  const flagged = (key: string) => flags.some(f => f.field === key);
+
+  for (const check of checks) {
+    const value = answers[check.key];
+    const said = rawText(check.key);
+
+    if ((value === null || value === undefined) && said !== null) {
+      flags.push({ field: check.key, value: null, raw: said, reason: `Could not understand "${said}"`, action: "reask" });
+      continue;
+    }
+    if (typeof value !== "number") continue;
+
+    const limits = PHYSIOLOGICAL_LIMITS[check.key];
+    if (limits && (value < limits.min || value > limits.max)) {
+      flags.push({
+        field: check.key,
+        value,
+        raw: said,
+        reason: `${describe(value, check.unit)} is not physiologically plausible`,
+        action: "review",
+      });
+    } else if ((check.min != null && value < check.min) || (check.max != null && value > check.max)) {
+      flags.push({
+        field: check.key,
+        value,
+        raw: said,
+        reason: `${describe(value, check.unit)} is outside the expected range ${check.min ?? "…"}–${check.max ?? "…"}`,
+        action: "review",
+      });
+    }
+  }
+
+  const systolic = answers.blood_pressure_systolic;
+  const diastolic = answers.blood_pressure_diastolic;
+  if (typeof systolic === "number" && typeof diastolic === "number" && systolic <= diastolic) {
+    const reason = `Systolic ${systolic} is not above diastolic ${diastolic}`;
+    for (const field of ["blood_pressure_systolic", "blood_pressure_diastolic"]) {
+      if (!flagged(field)) {
+        flags.push({ field, value: answers[field] as number, raw: rawText(field), reason, action: "reask" });
+      }
+    }
+  }
+
+  const weight = answers.weight_kg;
+  const height = answers.height_cm;
+  if (typeof weight === "number" && typeof height === "number" && !flagged("weight_kg") && !flagged("height_cm")) {
+    const bmi = weight / (height / 100) ** 2;
+    if (bmi < BMI_LIMITS.min || bmi > BMI_LIMITS.max) {
+      const reason = `Weight ${weight} kg and height ${height} cm give an implausible BMI of ${round(bmi, 1)}`;
+      flags.push({ field: "weight_kg", value: weight, raw: rawText("weight_kg"), reason, action: "review" });
+      flags.push({ field: "height_cm", value: height, raw: rawText("height_cm"), reason, action: "review" });
+    }
+  }
+
+  return flags;
+}
+
+/** Answers with every flagged value removed, ready to store */
+export function withoutFlaggedValues<T extends Record<string, unknown>>(answers: T, flags: PlausibilityFlag[]): T {
+  const cleaned: Record<string, unknown> = { ...answers };
+  for (const flag of flags) cleaned[flag.field] = null;
+  return cleaned as T;
+}
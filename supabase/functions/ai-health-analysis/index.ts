@@ -1,22 +1,22 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  calculateBMI,
+  evaluateClinicalRules,
+  RulePatient,
+  RulePriority,
+  RuleSettings,
+  toAlertSeverity,
+  toRuleSettings,
+} from "../_shared/clinical-rules.ts";
+import { chunk, fetchAllRows, ID_CHUNK } from "../_shared/paging.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-// Risk thresholds
-const THRESHOLDS = {
-  BP_SYSTOLIC_HIGH: 140,
-  BP_DIASTOLIC_HIGH: 90,
-  ALCOHOL_HIGH: 14,
-  BMI_OBESE: 30,
-  BMI_OVERWEIGHT: 25,
-  WEIGHT_CHANGE_PERCENT: 5,
-};
-
 interface CallResponse {
   id: string;
   patient_id: string;
@@ -38,6 +38,24 @@ interface HealthAlert {
   title: string;
   description: string;
   metrics: Record<string, unknown>;
+  rule_id: string;
+  rule_version: number;
+  priority: RulePriority;
+  action_required: string;
+  due_within_days: number;
+}
+
+// Patient fields the clinical rules read (no name or contact details)
+const RULE_PATIENT_FIELDS = 'id, date_of_birth, conditions, medications, hba1c_mmol_mol, hba1c_date, frailty_status, last_review_date, cha2ds2_vasc_score';
+
+// Practice overrides for thresholds, disabled rules and due windows
+async function loadRuleSettings(supabaseClient: SupabaseClient): Promise<RuleSettings> {
+  const { data } = await supabaseClient
+    .from('clinical_rule_settings')
+    .select('thresholds, disabled_rules, due_within_days')
+    .limit(1)
+    .maybeSingle();
+  return toRuleSettings(data);
 }
 
 // Generate anonymous reference from patient ID for GDPR compliance
@@ -45,107 +63,97 @@ function generateAnonymousRef(patientId: string): string {
   return `Patient-${patientId.substring(0, 4).toUpperCase()}`;
 }
 
-function calculateBMI(weightKg: number, heightCm: number): number {
-  const heightM = heightCm / 100;
-  return weightKg / (heightM * heightM);
+// GDPR-COMPLIANT: Uses anonymous reference instead of patient name.
+// Alerts are the shared clinical rules that flag clinical risk, so an alert
+// carries the same priority, action and due window as the matching task.
+function buildHealthAlerts(
+  patient: RulePatient,
+  responses: CallResponse[],
+  anonymousRef: string,
+  settings: RuleSettings
+): HealthAlert[] {
+  return evaluateClinicalRules(patient, responses, settings)
+    .filter(outcome => outcome.alertType)
+    .map(outcome => ({
+      patient_id: patient.id,
+      alert_type: outcome.alertType!,
+      severity: toAlertSeverity(outcome.priority),
+      title: `${outcome.title}: ${anonymousRef}`,
+      description: `${outcome.reason}. ${outcome.actionRequired}.`,
+      metrics: outcome.metrics,
+      rule_id: outcome.ruleId,
+      rule_version: outcome.ruleVersion,
+      priority: outcome.priority,
+      action_required: outcome.actionRequired,
+      due_within_days: outcome.dueWithinDays,
+    }));
 }
 
-// GDPR-COMPLIANT: Uses anonymous reference instead of patient name
-function analyzePatientMetrics(responses: CallResponse[], anonymousRef: string): HealthAlert[] {
-  const alerts: HealthAlert[] = [];
-  if (!responses.length) return alerts;
-
-  const latest = responses[0];
-  const patientId = latest.patient_id;
-
-  // Check blood pressure
-  if (latest.blood_pressure_systolic && latest.blood_pressure_diastolic) {
-    if (latest.blood_pressure_systolic >= 180 || latest.blood_pressure_diastolic >= 120) {
-      alerts.push({
-        patient_id: patientId,
-        alert_type: 'high_bp',
-        severity: 'critical',
-        title: `Critical BP: ${anonymousRef}`,
-        description: `Hypertensive crisis detected. BP: ${latest.blood_pressure_systolic}/${latest.blood_pressure_diastolic} mmHg. Immediate review required.`,
-        metrics: { systolic: latest.blood_pressure_systolic, diastolic: latest.blood_pressure_diastolic }
-      });
-    } else if (latest.blood_pressure_systolic >= THRESHOLDS.BP_SYSTOLIC_HIGH || 
-               latest.blood_pressure_diastolic >= THRESHOLDS.BP_DIASTOLIC_HIGH) {
-      alerts.push({
-        patient_id: patientId,
-        alert_type: 'high_bp',
-        severity: 'warning',
-        title: `Elevated BP: ${anonymousRef}`,
-        description: `Blood pressure above target. BP: ${latest.blood_pressure_systolic}/${latest.blood_pressure_diastolic} mmHg. Consider review.`,
-        metrics: { systolic: latest.blood_pressure_systolic, diastolic: latest.blood_pressure_diastolic }
-      });
+// Replace a patient's (or every patient's) unacknowledged alerts, so alerts
+// that no longer apply are cleared. A critical alert that is raised again keeps
+// its row, so its assignee, acknowledgement deadline and escalation carry on.
+async function replaceUnacknowledgedAlerts(
+  supabaseClient: SupabaseClient,
+  alerts: HealthAlert[],
+  patientId?: string
+): Promise<void> {
+  // Red-flag alerts come from what the patient said on a call, not from the rules
+  const open = await fetchAllRows<{ id: string; patient_id: string; rule_id: string | null; severity: string }>((from, to) => {
+    let query = supabaseClient
+      .from('health_alerts')
+      .select('id, patient_id, rule_id, severity')
+      .is('acknowledged_at', null)
+      .neq('alert_type', 'red_flag')
+      .order('id')
+      .range(from, to);
+    if (patientId) query = query.eq('patient_id', patientId);
+    return query;
+  });
+
+  const alertKey = (alert: { patient_id: string; rule_id: string | null }) => `${alert.patient_id}:${alert.rule_id}`;
+  const openByKey = new Map(open.filter(alert => alert.severity === 'critical').map(alert => [alertKey(alert), alert.id]));
+  const kept = new Set<string>();
+  const newAlerts: HealthAlert[] = [];
+
+  for (const alert of alerts) {
+    const existingId = alert.severity === 'critical' ? openByKey.get(alertKey(alert)) : undefined;
+    if (!existingId) {
+      newAlerts.push(alert);
+      continue;
     }
+    openByKey.delete(alertKey(alert));
+    kept.add(existingId);
+    const { error } = await supabaseClient
+      .from('health_alerts')
+      .update({
+        title: alert.title,
+        description: alert.description,
+        metrics: alert.metrics,
+        rule_version: alert.rule_version,
+        action_required: alert.action_required,
+        due_within_days: alert.due_within_days,
+      })
+      .eq('id', existingId);
+    if (error) throw error;
   }
 
-  // Check alcohol consumption
-  if (latest.alcohol_units_per_week !== null && latest.alcohol_units_per_week > THRESHOLDS.ALCOHOL_HIGH) {
-    alerts.push({
-      patient_id: patientId,
-      alert_type: 'high_alcohol',
-      severity: latest.alcohol_units_per_week > 21 ? 'critical' : 'warning',
-      title: `High Alcohol: ${anonymousRef}`,
-      description: `Alcohol consumption ${latest.alcohol_units_per_week} units/week exceeds recommended limit of 14 units. Brief intervention advised.`,
-      metrics: { units_per_week: latest.alcohol_units_per_week }
-    });
+  // Delete by id, in chunks, so the request stays short however many alerts are open.
+  // Only alerts read above are cleared, never ones raised since.
+  const cleared = open.map(alert => alert.id).filter(id => !kept.has(id));
+  for (const ids of chunk(cleared, ID_CHUNK)) {
+    const { error } = await supabaseClient
+      .from('health_alerts')
+      .delete()
+      .in('id', ids)
+      .is('acknowledged_at', null);
+    if (error) throw error;
   }
 
-  // Check BMI
-  if (latest.weight_kg && latest.height_cm) {
-    const bmi = calculateBMI(latest.weight_kg, latest.height_cm);
-    if (bmi >= THRESHOLDS.BMI_OBESE) {
-      alerts.push({
-        patient_id: patientId,
-        alert_type: 'obesity',
-        severity: bmi >= 40 ? 'critical' : 'warning',
-        title: `Obesity Alert: ${anonymousRef}`,
-        description: `BMI ${bmi.toFixed(1)} indicates ${bmi >= 40 ? 'severe ' : ''}obesity. Weight management support recommended.`,
-        metrics: { bmi: bmi.toFixed(1), weight_kg: latest.weight_kg, height_cm: latest.height_cm }
-      });
-    }
-  }
-
-  // Check weight change pattern
-  if (responses.length >= 2) {
-    const previous = responses.find(r => r.weight_kg && r.id !== latest.id);
-    if (latest.weight_kg && previous?.weight_kg) {
-      const changePercent = Math.abs((latest.weight_kg - previous.weight_kg) / previous.weight_kg * 100);
-      if (changePercent >= THRESHOLDS.WEIGHT_CHANGE_PERCENT) {
-        const direction = latest.weight_kg > previous.weight_kg ? 'gain' : 'loss';
-        alerts.push({
-          patient_id: patientId,
-          alert_type: 'weight_change',
-          severity: changePercent >= 10 ? 'critical' : 'warning',
-          title: `Rapid Weight ${direction === 'gain' ? 'Gain' : 'Loss'}: ${anonymousRef}`,
-          description: `${changePercent.toFixed(1)}% weight ${direction} detected. Previous: ${previous.weight_kg}kg, Current: ${latest.weight_kg}kg.`,
-          metrics: { change_percent: changePercent.toFixed(1), previous_kg: previous.weight_kg, current_kg: latest.weight_kg }
-        });
-      }
-    }
-  }
-
-  // Check BP pattern (3+ consecutive high readings)
-  const highBPCount = responses.slice(0, 5).filter(r => 
-    (r.blood_pressure_systolic && r.blood_pressure_systolic >= THRESHOLDS.BP_SYSTOLIC_HIGH) ||
-    (r.blood_pressure_diastolic && r.blood_pressure_diastolic >= THRESHOLDS.BP_DIASTOLIC_HIGH)
-  ).length;
-
-  if (highBPCount >= 3) {
-    alerts.push({
-      patient_id: patientId,
-      alert_type: 'pattern',
-      severity: 'warning',
-      title: `Persistent High BP: ${anonymousRef}`,
-      description: `${highBPCount} consecutive elevated BP readings detected. Hypertension diagnosis and treatment review recommended.`,
-      metrics: { consecutive_high_readings: highBPCount }
-    });
+  // Insert in batches of 100 to avoid payload limits
+  for (let i = 0; i < newAlerts.length; i += 100) {
+    const { error } = await supabaseClient.from('health_alerts').insert(newAlerts.slice(i, i + 100));
+    if (error) throw error;
   }
-
-  return alerts;
 }
 
 // GDPR-COMPLIANT: Clinical summary uses anonymous reference, no PII sent to AI
@@ -370,7 +378,20 @@ serve(async (req) => {
       // Generate anonymous reference for this patient (no name lookup needed for alerts)
       const anonymousRef = generateAnonymousRef(patient_id);
 
-      // Get recent call responses (no patient name needed)
+      // Clinical fields and recent call responses (no patient name needed)
+      const { data: patient } = await supabase
+        .from('patients')
+        .select(RULE_PATIENT_FIELDS)
+        .eq('id', patient_id)
+        .single();
+
+      if (!patient) {
+        return new Response(JSON.stringify({ error: 'Patient not found' }), {
+          status: 404,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
       const { data: responses } = await supabase
         .from('call_responses')
         .select('*')
@@ -378,25 +399,11 @@ serve(async (req) => {
         .order('collected_at', { ascending: false })
         .limit(10);
 
-      if (!responses || responses.length === 0) {
-        return new Response(JSON.stringify({ alerts: [], message: 'No data to analyze' }), {
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        });
-      }
-
       // Use anonymous reference instead of patient name
-      const alerts = analyzePatientMetrics(responses as CallResponse[], anonymousRef);
+      const ruleSettings = await loadRuleSettings(supabase);
+      const alerts = buildHealthAlerts(patient as RulePatient, (responses || []) as CallResponse[], anonymousRef, ruleSettings);
 
-      // Clear old unacknowledged alerts for this patient and insert new ones
-      if (alerts.length > 0) {
-        await supabase
-          .from('health_alerts')
-          .delete()
-          .eq('patient_id', patient_id)
-          .is('acknowledged_at', null);
-
-        await supabase.from('health_alerts').insert(alerts);
-      }
+      await replaceUnacknowledgedAlerts(supabase, alerts, patient_id);
 
       return new Response(JSON.stringify({ alerts, count: alerts.length }), {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -410,7 +417,11 @@ serve(async (req) => {
         .order('collected_at', { ascending: false })
         .limit(1000);
 
-      if (!allResponses || allResponses.length === 0) {
+      const { data: allPatients } = await supabase
+        .from('patients')
+        .select(RULE_PATIENT_FIELDS);
+
+      if (!allPatients || allPatients.length === 0) {
         return new Response(JSON.stringify({ total_alerts: 0, message: 'No data to analyze' }), {
           headers: { ...corsHeaders, 'Content-Type': 'application/json' },
         });
@@ -418,33 +429,23 @@ serve(async (req) => {
 
       // Group responses by patient_id (keep max 10 per patient)
       const byPatient = new Map<string, CallResponse[]>();
-      for (const r of allResponses as CallResponse[]) {
+      for (const r of (allResponses || []) as CallResponse[]) {
         const list = byPatient.get(r.patient_id) || [];
         if (list.length < 10) list.push(r);
         byPatient.set(r.patient_id, list);
       }
 
+      // Every patient, so condition rules raise alerts even before a call
+      const ruleSettings = await loadRuleSettings(supabase);
       const allAlerts: HealthAlert[] = [];
-      for (const [patientId, responses] of byPatient) {
-        const anonymousRef = generateAnonymousRef(patientId);
-        const alerts = analyzePatientMetrics(responses, anonymousRef);
-        allAlerts.push(...alerts);
+      for (const patient of allPatients as RulePatient[]) {
+        const anonymousRef = generateAnonymousRef(patient.id);
+        allAlerts.push(...buildHealthAlerts(patient, byPatient.get(patient.id) || [], anonymousRef, ruleSettings));
       }
 
-      // Clear old unacknowledged alerts and insert new ones
-      await supabase
-        .from('health_alerts')
-        .delete()
-        .is('acknowledged_at', null);
-
-      if (allAlerts.length > 0) {
-        // Insert in batches of 100 to avoid payload limits
-        for (let i = 0; i < allAlerts.length; i += 100) {
-          await supabase.from('health_alerts').insert(allAlerts.slice(i, i + 100));
-        }
-      }
+      await replaceUnacknowledgedAlerts(supabase, allAlerts);
 
-      return new Response(JSON.stringify({ total_alerts: allAlerts.length, patients_analyzed: byPatient.size, message: 'Batch analysis complete' }), {
+      return new Response(JSON.stringify({ total_alerts: allAlerts.length, patients_analyzed: allPatients.length, message: 'Batch analysis complete' }), {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       });
 
@@ -0,0 +1,138 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { EmailMessage, EmailTransport, getEmailTransport } from "../_shared/email.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface EscalatedAlert {
+  alert_id: string;
+  recipient: string;
+  title: string;
+  description: string;
+  ack_due_at: string;
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+// Alert titles carry the anonymous patient reference only, never a name
+function buildEscalationEmail(to: string, alert: EscalatedAlert): EmailMessage {
+  const due = new Date(alert.ack_due_at).toLocaleString("en-GB", { timeZone: "Europe/London" });
+  const subject = `Escalated critical alert: ${alert.title}`;
+  const intro = `This critical alert was not acknowledged by ${due} and has been escalated to you.`;
+  const action = "Sign in to PatientCall and acknowledge it from Risk Alerts on the dashboard.";
+
+  return {
+    to: [to],
+    subject,
+    text: `${intro}\n\n${alert.title}\n${alert.description}\n\n${action}`,
+    html: `
+      <div style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 600px;">
+        <h2 style="color: #dc2626;">Escalated critical alert</h2>
+        <p style="color: #3f3f46;">${escapeHtml(intro)}</p>
+        <p style="color: #18181b; font-weight: 600;">${escapeHtml(alert.title)}</p>
+        <p style="color: #3f3f46;">${escapeHtml(alert.description)}</p>
+        <p style="color: #3f3f46;">${escapeHtml(action)}</p>
+        <p style="color: #a1a1aa; font-size: 12px;">PatientCall - this is an automated message, please do not reply.</p>
+      </div>
+    `,
+  };
+}
+
+async function emailRecipient(
+  supabase: SupabaseClient,
+  transport: EmailTransport | null,
+  transportError: string | null,
+  alert: EscalatedAlert,
+): Promise<boolean> {
+  try {
+    if (!transport) throw new Error(transportError || "No email transport");
+
+    const { data, error } = await supabase.auth.admin.getUserById(alert.recipient);
+    if (error) throw error;
+    const email = data.user?.email;
+    if (!email) throw new Error("Recipient has no email address");
+
+    const result = await transport.send(buildEscalationEmail(email, alert));
+    await supabase.from("alert_escalation_events").insert({
+      alert_id: alert.alert_id,
+      event: "email_sent",
+      user_id: alert.recipient,
+      channel: "email",
+      details: { transport: transport.name, message_id: result.messageId },
+    });
+    return true;
+  } catch (error) {
+    console.error(`Escalation email for alert ${alert.alert_id} failed:`, error);
+    await supabase.from("alert_escalation_events").insert({
+      alert_id: alert.alert_id,
+      event: "email_failed",
+      user_id: alert.recipient,
+      channel: "email",
+      details: {
+        transport: transport?.name ?? null,
+        error: error instanceof Error ? error.message : String(error),
+      },
+    });
+    return false;
+  }
+}
+
+/**
+ * Escalation worker, run every minute by pg_cron. Critical alerts not
+ * acknowledged by their deadline are escalated in the database (in-app
+ * notification and event chain); this function then emails each recipient
+ * and records whether the email went out.
+ */
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+    );
+
+    const { data, error } = await supabase.rpc("escalate_overdue_alerts");
+    if (error) throw error;
+    const escalated = (data || []) as EscalatedAlert[];
+
+    // A misconfigured transport must not stop the escalation itself, so it is
+    // recorded against each alert as a failed email instead
+    let transport: EmailTransport | null = null;
+    let transportError: string | null = null;
+    if (escalated.length > 0) {
+      try {
+        transport = getEmailTransport();
+      } catch (e) {
+        transportError = e instanceof Error ? e.message : String(e);
+      }
+    }
+
+    let emailed = 0;
+    for (const alert of escalated) {
+      if (await emailRecipient(supabase, transport, transportError, alert)) emailed++;
+    }
+
+    if (escalated.length > 0) {
+      console.log(`Escalated ${escalated.length} critical alerts, emailed ${emailed}`);
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, escalated: escalated.length, emailed }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Alert escalation error:", error);
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -0,0 +1,285 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { toRuleSettings, DEFAULT_CLINICAL_THRESHOLDS, type ClinicalThresholds, type RuleReading } from "../_shared/clinical-rules.ts";
+import {
+  COHORT_PATIENT_COLUMNS,
+  COHORT_RESPONSE_COLUMNS,
+  buildCohortActivity,
+  isDeceased,
+  matchesCohort,
+  needsCohortActivity,
+  type CohortActivity,
+  type CohortAlert,
+  type CohortCriteria,
+  type CohortPatient,
+  type CohortResponse,
+} from "../_shared/patient-cohorts.ts";
+import { QOF_EXCEPTION_COLUMNS, exceptedIndicatorsByPatient, type QofExceptionRecord } from "../_shared/qof-exceptions.ts";
+import { checkProgrammeTarget, nextProgrammeRunDate, type ProgrammeExitReason, type ProgrammeFrequency } from "../_shared/call-programmes.ts";
+import { getLocalParts, queueBatchCalls } from "../_shared/call-scheduling.ts";
+import { chunk, fetchAllRows, ID_CHUNK } from "../_shared/paging.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface Programme {
+  id: string;
+  name: string;
+  cohort_id: string;
+  script_id: string | null;
+  target_qof_indicators: string[];
+  frequency: ProgrammeFrequency;
+  starts_on: string;
+  next_run_date: string;
+  ends_on: string | null;
+  scheduled_time_start: string;
+  scheduled_time_end: string;
+  retry_attempts: number;
+  retry_backoff_minutes: number[];
+  auto_start: boolean;
+  exit_on_target: boolean;
+  cycles_run: number;
+  created_by: string | null;
+  patient_cohorts: { criteria: CohortCriteria } | null;
+}
+
+interface Member {
+  id: string;
+  patient_id: string;
+  status: "active" | "exited";
+  exit_reason: ProgrammeExitReason | null;
+  joined_at: string;
+}
+
+interface Exit {
+  member: Member;
+  reason: ProgrammeExitReason;
+  details: Record<string, unknown>;
+}
+
+/** Clinician-verified readings per patient since the given time */
+async function loadVerifiedReadings(
+  supabase: SupabaseClient,
+  patientIds: string[],
+  since: string,
+): Promise<Map<string, RuleReading[]>> {
+  const readings = new Map<string, RuleReading[]>();
+  for (const ids of chunk(patientIds, ID_CHUNK)) {
+    const { data, error } = await supabase
+      .from("call_responses")
+      .select("patient_id, blood_pressure_systolic, blood_pressure_diastolic, smoking_status, collected_at")
+      .in("patient_id", ids)
+      .eq("verification_status", "verified")
+      .gte("collected_at", since);
+    if (error) throw error;
+    for (const row of data || []) {
+      readings.set(row.patient_id, [...(readings.get(row.patient_id) || []), row]);
+    }
+  }
+  return readings;
+}
+
+/** Call responses and open alerts per patient, for cohorts filtering on QOF gaps or alert state */
+async function loadCohortActivity(supabase: SupabaseClient): Promise<Map<string, CohortActivity>> {
+  const [responses, alerts, exceptions] = await Promise.all([
+    fetchAllRows<CohortResponse>((from, to) =>
+      supabase.from("call_responses").select(COHORT_RESPONSE_COLUMNS).order("id").range(from, to)
+    ),
+    fetchAllRows<CohortAlert>((from, to) =>
+      supabase.from("health_alerts").select("patient_id, severity").is("acknowledged_at", null).order("id").range(from, to)
+    ),
+    fetchAllRows<QofExceptionRecord>((from, to) =>
+      supabase.from("qof_exceptions").select(QOF_EXCEPTION_COLUMNS).eq("status", "active").order("id").range(from, to)
+    ),
+  ]);
+  return buildCohortActivity(responses, alerts, exceptedIndicatorsByPatient(exceptions));
+}
+
+/**
+ * One cycle of a programme: refresh membership from the cohort, exit patients
+ * who died, left the cohort or reached target, then generate (and optionally
+ * start) a batch for everyone still active.
+ */
+async function runProgramme(
+  supabase: SupabaseClient,
+  programme: Programme,
+  patients: Map<string, CohortPatient>,
+  activity: Map<string, CohortActivity>,
+  thresholds: ClinicalThresholds,
+  today: string,
+) {
+  const nextRunDate = nextProgrammeRunDate(programme.starts_on, programme.frequency, today);
+
+  const criteria = programme.patient_cohorts?.criteria ?? {};
+  const now = new Date();
+  const matched = new Set(
+    [...patients.values()].filter(p => matchesCohort(p, criteria, now, activity.get(p.id))).map(p => p.id)
+  );
+
+  const members = await fetchAllRows<Member>((from, to) =>
+    supabase
+      .from("call_programme_patients")
+      .select("id, patient_id, status, exit_reason, joined_at")
+      .eq("programme_id", programme.id)
+      .order("joined_at")
+      .range(from, to)
+  );
+
+  const exits: Exit[] = [];
+  const targetCandidates: Member[] = [];
+  for (const member of members.filter(m => m.status === "active")) {
+    const patient = patients.get(member.patient_id);
+    if (!patient) continue;
+    if (isDeceased(patient)) {
+      exits.push({ member, reason: "deceased", details: { date_of_death: patient.date_of_death } });
+    } else if (!matched.has(member.patient_id)) {
+      exits.push({ member, reason: "left_cohort", details: {} });
+    } else if (programme.exit_on_target) {
+      targetCandidates.push(member);
+    }
+  }
+
+  if (targetCandidates.length > 0) {
+    const since = targetCandidates.reduce((min, m) => (m.joined_at < min ? m.joined_at : min), targetCandidates[0].joined_at);
+    const readings = await loadVerifiedReadings(supabase, targetCandidates.map(m => m.patient_id), since);
+    for (const member of targetCandidates) {
+      const check = checkProgrammeTarget(
+        programme.target_qof_indicators,
+        patients.get(member.patient_id)!,
+        readings.get(member.patient_id) || [],
+        member.joined_at,
+        thresholds,
+        now,
+      );
+      if (check.atTarget) exits.push({ member, reason: "target_reached", details: check.details });
+    }
+  }
+
+  // Patients who left the cohort rejoin when they match it again; other exits are final
+  const memberIds = new Set(members.map(m => m.patient_id));
+  const rejoining = members.filter(m => m.status === "exited" && m.exit_reason === "left_cohort" && matched.has(m.patient_id));
+  const joining = [...matched].filter(id => !memberIds.has(id));
+
+  const exitedIds = new Set(exits.map(e => e.member.id));
+  const callPatientIds = [
+    ...members.filter(m => m.status === "active" && !exitedIds.has(m.id)).map(m => m.patient_id),
+    ...rejoining.map(m => m.patient_id),
+    ...joining,
+  ];
+
+  // Claim the cycle, apply the membership changes and create the batch in one
+  // transaction: only the run that moves next_run_date on generates the batch,
+  // and a failure leaves the cycle due rather than claimed with no batch
+  const { data: run, error: runError } = await supabase.rpc("run_call_programme_cycle", {
+    p_programme_id: programme.id,
+    p_run_date: programme.next_run_date,
+    p_next_run_date: nextRunDate,
+    p_batch_date: today,
+    p_exits: exits.map(exit => ({ id: exit.member.id, reason: exit.reason, details: exit.details })),
+    p_rejoin_member_ids: rejoining.map(m => m.id),
+    p_join_patient_ids: joining,
+    p_call_patient_ids: callPatientIds,
+  });
+  if (runError) throw runError;
+  if (!run.claimed) return null;
+
+  const cycle: number = run.cycle;
+  const exitCounts: Partial<Record<ProgrammeExitReason, number>> = {};
+  for (const exit of exits) exitCounts[exit.reason] = (exitCounts[exit.reason] || 0) + 1;
+  const summary = { programmeId: programme.id, cycle, joined: joining.length + rejoining.length, exited: exitCounts };
+
+  const batch = run.batch;
+  if (!batch) {
+    console.log("Programme has no patients left to call this cycle:", summary);
+    return { ...summary, batchId: null, patients: 0, callsQueued: 0 };
+  }
+
+  const callsQueued = programme.auto_start ? await queueBatchCalls(supabase, batch) : 0;
+
+  await supabase.from("audit_logs").insert({
+    action: "programme_batch_created",
+    entity_type: "batch",
+    entity_id: batch.id,
+    details: { programme_id: programme.id, cycle, patients: callPatientIds.length, joined: summary.joined, exited: exitCounts },
+  });
+
+  return { ...summary, batchId: batch.id, patients: callPatientIds.length, callsQueued };
+}
+
+/**
+ * Recurring call programmes, run daily by cron. Every active programme whose
+ * next run date has arrived gets a new batch built from its saved cohort.
+ */
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+    );
+
+    const today = getLocalParts(new Date()).date;
+
+    const { data: due, error: dueError } = await supabase
+      .from("call_programmes")
+      .select("*, patient_cohorts (criteria)")
+      .eq("status", "active")
+      .lte("next_run_date", today);
+    if (dueError) throw dueError;
+
+    if (!due || due.length === 0) {
+      return new Response(
+        JSON.stringify({ success: true, programmes: 0 }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const [patientRows, { data: storedSettings }] = await Promise.all([
+      fetchAllRows<CohortPatient>((from, to) =>
+        supabase.from("patients").select(COHORT_PATIENT_COLUMNS).order("id").range(from, to)
+      ),
+      supabase
+        .from("clinical_rule_settings")
+        .select("thresholds, disabled_rules, due_within_days")
+        .limit(1)
+        .maybeSingle(),
+    ]);
+    const patients = new Map(patientRows.map(p => [p.id, p]));
+    const thresholds = { ...DEFAULT_CLINICAL_THRESHOLDS, ...toRuleSettings(storedSettings).thresholds };
+    const activity = (due as Programme[]).some(p => needsCohortActivity(p.patient_cohorts?.criteria ?? {}))
+      ? await loadCohortActivity(supabase)
+      : new Map<string, CohortActivity>();
+
+    // One failing programme must not hold up the rest
+    const results = [];
+    for (const programme of due as Programme[]) {
+      try {
+        const result = await runProgramme(supabase, programme, patients, activity, thresholds, today);
+        if (result) {
+          console.log("Programme cycle run:", result);
+          results.push(result);
+        }
+      } catch (error) {
+        console.error("Programme run failed:", { programmeId: programme.id, error });
+        results.push({ programmeId: programme.id, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, programmes: results.length, results }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Call programmes error:", error);
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -0,0 +1,405 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  buildCallingRules,
+  CallingContext,
+  CallingRules,
+  getNextCallTime,
+  isCallingAllowed,
+  loadCallingContext,
+  parsePreferredCallTime,
+} from "../_shared/call-scheduling.ts";
+import { scheduleRetryForCall } from "../_shared/call-retry.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// A claimed item that has not been dispatched within this window is assumed
+// to belong to a worker run that died, and is handed back to the queue
+const STALE_LOCK_MINUTES = 5;
+// Calls stuck "in_progress" longer than this no longer count against concurrency
+const ACTIVE_CALL_WINDOW_MINUTES = 30;
+// Dispatch failures (Twilio/ElevenLabs errors) before a queue item is given up on
+const MAX_DISPATCH_ERRORS = 3;
+const DISPATCH_RETRY_DELAY_MINUTES = 2;
+
+interface QueueBatch {
+  id: string;
+  purpose: string | null;
+  custom_questions: string[] | null;
+  script_id: string | null;
+  target_qof_indicators: string[] | null;
+  max_concurrent_calls: number;
+  calls_per_minute: number;
+  scheduled_date: string;
+  scheduled_time_start: string;
+  scheduled_time_end: string;
+}
+
+interface QueueItem {
+  id: string;
+  batch_id: string;
+  patient_id: string;
+  attempt_number: number;
+  dispatch_errors: number;
+}
+
+interface DueItem {
+  id: string;
+  patients: { preferred_call_time: string | null } | null;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Hand stale "dispatching" items back to the queue.
+ * Items that already created a call row are marked dispatched instead, so a
+ * patient is never dialled twice for the same attempt.
+ */
+async function releaseStaleLocks(supabase: SupabaseClient) {
+  const cutoff = new Date(Date.now() - STALE_LOCK_MINUTES * 60_000).toISOString();
+
+  await supabase
+    .from("call_queue")
+    .update({ status: "queued", locked_at: null })
+    .eq("status", "dispatching")
+    .is("call_id", null)
+    .lt("locked_at", cutoff);
+
+  await supabase
+    .from("call_queue")
+    .update({ status: "dispatched", locked_at: null })
+    .eq("status", "dispatching")
+    .not("call_id", "is", null)
+    .lt("locked_at", cutoff);
+}
+
+/**
+ * How many more calls this batch may place right now, honouring both
+ * the concurrency limit and the calls-per-minute pacing.
+ */
+async function getDispatchAllowance(supabase: SupabaseClient, batch: QueueBatch): Promise<number> {
+  const activeSince = new Date(Date.now() - ACTIVE_CALL_WINDOW_MINUTES * 60_000).toISOString();
+  const lastMinute = new Date(Date.now() - 60_000).toISOString();
+
+  const [{ count: activeCalls }, { count: inFlight }, { count: recentDispatches }] = await Promise.all([
+    supabase
+      .from("calls")
+      .select("id", { count: "exact", head: true })
+      .eq("batch_id", batch.id)
+      .eq("status", "in_progress")
+      .gte("started_at", activeSince),
+    supabase
+      .from("call_queue")
+      .select("id", { count: "exact", head: true })
+      .eq("batch_id", batch.id)
+      .eq("status", "dispatching"),
+    supabase
+      .from("call_queue")
+      .select("id", { count: "exact", head: true })
+      .eq("batch_id", batch.id)
+      .gte("dispatched_at", lastMinute),
+  ]);
+
+  const freeSlots = batch.max_concurrent_calls - (activeCalls || 0) - (inFlight || 0);
+  const rateAllowance = batch.calls_per_minute - (recentDispatches || 0);
+  return Math.max(0, Math.min(freeSlots, rateAllowance));
+}
+
+async function dispatchItem(
+  supabase: SupabaseClient,
+  batch: QueueBatch,
+  item: QueueItem,
+  supabaseUrl: string,
+  serviceRoleKey: string,
+) {
+  let callId: string | null = null;
+
+  try {
+    const { data: patient, error: patientError } = await supabase
+      .from("patients")
+      .select("id, phone_number")
+      .eq("id", item.patient_id)
+      .single();
+
+    if (patientError || !patient) {
+      throw new Error("Patient not found");
+    }
+
+    const { data: callData, error: callError } = await supabase
+      .from("calls")
+      .insert({
+        patient_id: item.patient_id,
+        batch_id: batch.id,
+        status: "pending",
+        attempt_number: item.attempt_number,
+        script_id: batch.script_id,
+      })
+      .select("id")
+      .single();
+
+    if (callError || !callData) {
+      throw new Error(callError?.message || "Failed to create call record");
+    }
+
+    callId = callData.id;
+    await supabase.from("call_queue").update({ call_id: callId }).eq("id", item.id);
+
+    const response = await fetch(`${supabaseUrl}/functions/v1/initiate-call`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${serviceRoleKey}`,
+      },
+      body: JSON.stringify({
+        callId,
+        patientId: patient.id,
+        phoneNumber: patient.phone_number,
+        batchPurpose: batch.purpose,
+        customQuestions: batch.custom_questions,
+        scriptId: batch.script_id,
+        targetIndicators: batch.target_qof_indicators,
+      }),
+    });
+
+    if (!response.ok) {
+      const result = await response.json().catch(() => ({}));
+      throw new Error(result.error || `initiate-call returned ${response.status}`);
+    }
+
+    await supabase
+      .from("call_queue")
+      .update({
+        status: "dispatched",
+        dispatched_at: new Date().toISOString(),
+        locked_at: null,
+        last_error: null,
+      })
+      .eq("id", item.id);
+
+    console.log("Dispatched queue item:", { queueId: item.id, callId });
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : "Unknown error";
+    console.error("Error dispatching queue item:", { queueId: item.id, error: errorMessage });
+
+    if (callId) {
+      await supabase
+        .from("calls")
+        .update({ status: "failed", ended_at: new Date().toISOString() })
+        .eq("id", callId);
+    }
+
+    const dispatchErrors = item.dispatch_errors + 1;
+    const giveUp = dispatchErrors >= MAX_DISPATCH_ERRORS;
+
+    await supabase
+      .from("call_queue")
+      .update({
+        status: giveUp ? "failed" : "queued",
+        call_id: giveUp ? callId : null,
+        locked_at: null,
+        dispatch_errors: dispatchErrors,
+        last_error: errorMessage,
+        scheduled_for: new Date(Date.now() + DISPATCH_RETRY_DELAY_MINUTES * 60_000).toISOString(),
+      })
+      .eq("id", item.id);
+
+    // The attempt could not be placed at all; treat it like any other failed call
+    if (giveUp && callId) {
+      await scheduleRetryForCall(supabase, callId);
+    }
+  }
+}
+
+/**
+ * Outside the permitted calling hours, carry every due item over to the next
+ * window the batch allows, keeping each patient's preferred time slot.
+ */
+async function deferDueItems(supabase: SupabaseClient, batchId: string, rules: CallingRules): Promise<number> {
+  const now = new Date();
+
+  const { data: dueItems, error } = await supabase
+    .from("call_queue")
+    .select("id, patients (preferred_call_time)")
+    .eq("batch_id", batchId)
+    .eq("status", "queued")
+    .lte("scheduled_for", now.toISOString())
+    .overrideTypes<DueItem[], { merge: false }>();
+
+  if (error) {
+    console.error("Error loading due queue items:", error);
+    return 0;
+  }
+
+  let deferred = 0;
+  for (const item of dueItems || []) {
+    const nextTime = getNextCallTime(now, rules, parsePreferredCallTime(item.patients?.preferred_call_time));
+
+    if (!nextTime) {
+      console.warn("No permitted calling window found for queue item:", item.id);
+      continue;
+    }
+
+    await supabase
+      .from("call_queue")
+      .update({ scheduled_for: nextTime.toISOString() })
+      .eq("id", item.id);
+    deferred++;
+  }
+
+  if (deferred > 0) {
+    console.log(`Carried ${deferred} queue items over to the next calling window for batch:`, batchId);
+  }
+  return deferred;
+}
+
+/**
+ * Mark a batch completed once nothing is waiting in the queue and no call is still live
+ */
+async function completeBatchIfDrained(supabase: SupabaseClient, batchId: string): Promise<boolean> {
+  const activeSince = new Date(Date.now() - ACTIVE_CALL_WINDOW_MINUTES * 60_000).toISOString();
+
+  const [{ count: outstanding }, { count: activeCalls }] = await Promise.all([
+    supabase
+      .from("call_queue")
+      .select("id", { count: "exact", head: true })
+      .eq("batch_id", batchId)
+      .in("status", ["queued", "dispatching"]),
+    supabase
+      .from("calls")
+      .select("id", { count: "exact", head: true })
+      .eq("batch_id", batchId)
+      .eq("status", "in_progress")
+      .gte("started_at", activeSince),
+  ]);
+
+  if ((outstanding || 0) > 0 || (activeCalls || 0) > 0) {
+    return false;
+  }
+
+  await supabase
+    .from("call_batches")
+    .update({ status: "completed", completed_at: new Date().toISOString() })
+    .eq("id", batchId)
+    .eq("status", "in_progress");
+
+  console.log("Batch completed:", batchId);
+  return true;
+}
+
+async function processBatch(
+  supabase: SupabaseClient,
+  batch: QueueBatch,
+  callingContext: CallingContext,
+  supabaseUrl: string,
+  serviceRoleKey: string,
+) {
+  const rules = buildCallingRules(callingContext, batch);
+
+  if (!isCallingAllowed(new Date(), rules)) {
+    const deferred = await deferDueItems(supabase, batch.id, rules);
+    const completed = await completeBatchIfDrained(supabase, batch.id);
+    return { batchId: batch.id, dispatched: 0, deferred, completed };
+  }
+
+  const allowance = await getDispatchAllowance(supabase, batch);
+  let dispatched = 0;
+
+  if (allowance > 0) {
+    const { data: items, error } = await supabase
+      .rpc("claim_call_queue_items", { p_batch_id: batch.id, p_limit: allowance });
+
+    if (error) {
+      console.error("Error claiming queue items:", error);
+    }
+
+    // Spread the claimed calls across the minute rather than dialling them all at once
+    const spacingMs = Math.floor(60_000 / batch.calls_per_minute);
+    const claimed = (items || []) as QueueItem[];
+
+    for (let i = 0; i < claimed.length; i++) {
+      if (i > 0) await sleep(spacingMs);
+      await dispatchItem(supabase, batch, claimed[i], supabaseUrl, serviceRoleKey);
+      dispatched++;
+    }
+  }
+
+  const completed = await completeBatchIfDrained(supabase, batch.id);
+  return { batchId: batch.id, dispatched, completed };
+}
+
+/**
+ * Call Queue Worker
+ *
+ * Invoked every minute by pg_cron (and immediately by process-batch when a
+ * batch is started or resumed). Each run dispatches as many queued calls as
+ * the batch's concurrency and calls-per-minute limits allow, so progress
+ * survives function restarts and timeouts. Calls only go out inside the
+ * batch window and the practice's permitted hours; anything left when the
+ * window closes is carried over to the next permitted window.
+ */
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
+    const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    // Only the cron job and process-batch may run the worker; both send the service role key
+    if (req.headers.get("Authorization") !== `Bearer ${SUPABASE_SERVICE_ROLE_KEY}`) {
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+    const body = await req.json().catch(() => ({}));
+    const batchId: string | undefined = body?.batchId;
+
+    await releaseStaleLocks(supabase);
+
+    let query = supabase
+      .from("call_batches")
+      .select("id, purpose, custom_questions, script_id, target_qof_indicators, max_concurrent_calls, calls_per_minute, scheduled_date, scheduled_time_start, scheduled_time_end")
+      .eq("status", "in_progress");
+
+    if (batchId) {
+      query = query.eq("id", batchId);
+    }
+
+    const { data: batches, error: batchesError } = await query;
+
+    if (batchesError) {
+      throw batchesError;
+    }
+
+    const callingContext = await loadCallingContext(supabase);
+
+    const results = await Promise.all(
+      ((batches || []) as QueueBatch[]).map(batch =>
+        processBatch(supabase, batch, callingContext, SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY)
+      )
+    );
+
+    console.log("Queue worker run finished:", results);
+
+    return new Response(
+      JSON.stringify({ success: true, batches: results }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+
+  } catch (error) {
+    console.error("Queue worker error:", error);
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
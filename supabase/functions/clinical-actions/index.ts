@@ -1,148 +1,22 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { CORS_HEADERS } from "../_shared/pii-extraction.ts";
+import {
+  CLINICAL_RULES,
+  CLINICAL_RULES_VERSION,
+  evaluateClinicalRules,
+  formatTaskTitle,
+  toRuleSettings,
+  toTaskPriority,
+} from "../_shared/clinical-rules.ts";
 
 /**
  * Auto-trigger clinical actions after data extraction.
- * Analyses patient data against QOF/NICE guidelines and creates MediTask tasks.
+ * Analyses patient data against the shared clinical rules (_shared/clinical-rules.ts)
+ * and creates MediTask tasks.
  * Also maps conditions to Read/SNOMED codes for EHR interoperability.
  */
 
-interface ClinicalRule {
-  id: string;
-  check: (patient: any, responses: any[]) => { triggered: boolean; title: string; description: string; priority: string } | null;
-}
-
-const CLINICAL_RULES: ClinicalRule[] = [
-  {
-    id: 'hyp-uncontrolled',
-    check: (p, responses) => {
-      if (!p.conditions?.some((c: string) => /hypertension/i.test(c))) return null;
-      const latest = responses[0];
-      if (!latest?.blood_pressure_systolic) return null;
-      const age = p.date_of_birth ? Math.floor((Date.now() - new Date(p.date_of_birth).getTime()) / 31557600000) : null;
-      const target = age && age >= 80 ? 150 : 140;
-      if (latest.blood_pressure_systolic > target || latest.blood_pressure_diastolic > 90) {
-        const urgent = latest.blood_pressure_systolic >= 180;
-        return {
-          triggered: true,
-          title: `BP Review: ${latest.blood_pressure_systolic}/${latest.blood_pressure_diastolic}`,
-          description: `Hypertensive patient BP exceeds target ≤${target}/90. ${urgent ? 'URGENT: Consider same-day assessment.' : 'Medication review needed.'}`,
-          priority: urgent ? 'urgent' : 'high',
-        };
-      }
-      return null;
-    }
-  },
-  {
-    id: 'dm-hba1c-high',
-    check: (p) => {
-      if (!p.conditions?.some((c: string) => /diabetes|T[12]DM/i.test(c))) return null;
-      if (!p.hba1c_mmol_mol) return null;
-      const isFrail = p.frailty_status === 'moderate' || p.frailty_status === 'severe';
-      const target = isFrail ? 75 : 58;
-      if (p.hba1c_mmol_mol > target) {
-        return {
-          triggered: true,
-          title: `HbA1c ${p.hba1c_mmol_mol} mmol/mol - Above Target`,
-          description: `Diabetic patient HbA1c exceeds target ≤${target}. ${p.hba1c_mmol_mol > 86 ? 'URGENT: Medication intensification required.' : 'Medication review and lifestyle counselling.'}`,
-          priority: p.hba1c_mmol_mol > 86 ? 'urgent' : 'high',
-        };
-      }
-      return null;
-    }
-  },
-  {
-    id: 'dm-statin-missing',
-    check: (p) => {
-      if (!p.conditions?.some((c: string) => /diabetes|T[12]DM/i.test(c))) return null;
-      const age = p.date_of_birth ? Math.floor((Date.now() - new Date(p.date_of_birth).getTime()) / 31557600000) : null;
-      if (age && age < 40) return null;
-      const statins = ['statin', 'atorvastatin', 'simvastatin', 'rosuvastatin', 'pravastatin'];
-      if (p.medications?.some((m: string) => statins.some(s => m.toLowerCase().includes(s)))) return null;
-      return {
-        triggered: true,
-        title: 'Statin Initiation Review (Diabetes)',
-        description: 'Diabetic patient aged 40+ not on statin therapy. Review for Atorvastatin 20mg.',
-        priority: 'normal',
-      };
-    }
-  },
-  {
-    id: 'af-anticoag-missing',
-    check: (p) => {
-      if (!p.conditions?.some((c: string) => /atrial fibrillation|AF\b/i.test(c))) return null;
-      const score = p.cha2ds2_vasc_score ?? 2;
-      if (score < 2) return null;
-      const anticoags = ['warfarin', 'apixaban', 'rivaroxaban', 'edoxaban', 'dabigatran'];
-      if (p.medications?.some((m: string) => anticoags.some(a => m.toLowerCase().includes(a)))) return null;
-      return {
-        triggered: true,
-        title: 'Anticoagulation Required for AF',
-        description: `CHA₂DS₂-VASc ≥2 with no anticoagulation. High stroke risk. Initiate DOAC.`,
-        priority: 'urgent',
-      };
-    }
-  },
-  {
-    id: 'annual-review-overdue',
-    check: (p) => {
-      if (!p.conditions || p.conditions.length < 2) return null;
-      if (p.last_review_date) {
-        const months = (Date.now() - new Date(p.last_review_date).getTime()) / (30.44 * 24 * 60 * 60 * 1000);
-        if (months <= 12) return null;
-      }
-      return {
-        triggered: true,
-        title: 'Annual Care Review Overdue',
-        description: `Patient with ${p.conditions.length} conditions needs comprehensive annual review.`,
-        priority: 'normal',
-      };
-    }
-  },
-  {
-    id: 'polypharmacy',
-    check: (p) => {
-      const count = p.medications?.length || 0;
-      if (count < 10) return null;
-      return {
-        triggered: true,
-        title: `Polypharmacy Review (${count} Medications)`,
-        description: 'High medication burden. Structured medication review with deprescribing assessment needed.',
-        priority: 'normal',
-      };
-    }
-  },
-  {
-    id: 'falls-risk',
-    check: (p) => {
-      if (p.frailty_status !== 'moderate' && p.frailty_status !== 'severe') return null;
-      const medCount = p.medications?.length || 0;
-      if (medCount < 5) return null;
-      return {
-        triggered: true,
-        title: 'Falls Risk Assessment Due',
-        description: `Frail patient (${p.frailty_status}) on ${medCount} medications. Multifactorial falls assessment needed.`,
-        priority: p.frailty_status === 'severe' ? 'high' : 'normal',
-      };
-    }
-  },
-  {
-    id: 'high-risk-meds',
-    check: (p) => {
-      const highRisk = ['methotrexate', 'azathioprine', 'lithium', 'warfarin', 'ciclosporin'];
-      const found = p.medications?.filter((m: string) => highRisk.some(hr => m.toLowerCase().includes(hr))) || [];
-      if (found.length === 0) return null;
-      return {
-        triggered: true,
-        title: 'High-Risk Medication Monitoring',
-        description: `Patient on ${found.join(', ')}. Verify shared-care monitoring and recent bloods.`,
-        priority: 'high',
-      };
-    }
-  },
-];
-
 // Read/SNOMED code mapping for common conditions
 const CONDITION_CODE_MAP: Record<string, { read_code: string; snomed: string }> = {
   'hypertension': { read_code: 'G20..', snomed: '38341003' },
@@ -256,31 +130,37 @@ serve(async (req) => {
     // Fetch existing pending tasks to avoid duplicates
     const { data: existingTasks } = await supabase
       .from('meditask_tasks')
-      .select('title')
+      .select('title, rule_id')
       .eq('patient_id', patientId)
       .neq('status', 'completed');
 
+    const existingRuleIds = new Set((existingTasks || []).map(t => t.rule_id).filter(Boolean));
     const existingTitles = new Set((existingTasks || []).map(t => t.title.toLowerCase()));
 
-    // Run clinical rules
-    const triggeredActions: any[] = [];
-    for (const rule of CLINICAL_RULES) {
-      const result = rule.check(patient, responses || []);
-      if (result?.triggered) {
-        // Skip if similar task already exists
-        if (existingTitles.has(result.title.toLowerCase())) continue;
-        triggeredActions.push({ ...result, ruleId: rule.id });
-      }
-    }
+    // Practice overrides for thresholds, disabled rules and due windows
+    const { data: storedSettings } = await supabase
+      .from('clinical_rule_settings')
+      .select('thresholds, disabled_rules, due_within_days')
+      .limit(1)
+      .maybeSingle();
+
+    // Run clinical rules, skipping any that already have an open task
+    const triggeredActions = evaluateClinicalRules(patient, responses || [], toRuleSettings(storedSettings)).filter(outcome =>
+      !existingRuleIds.has(outcome.ruleId) && !existingTitles.has(formatTaskTitle(outcome).toLowerCase())
+    );
 
     // Create MediTask tasks for triggered actions
     if (triggeredActions.length > 0) {
+      const now = Date.now();
       const tasks = triggeredActions.map(action => ({
-        title: action.title,
-        description: action.description,
-        priority: action.priority,
+        title: formatTaskTitle(action),
+        description: `${action.reason}. Action: ${action.actionRequired}`,
+        priority: toTaskPriority(action.priority),
         status: 'pending',
         patient_id: patientId,
+        due_date: new Date(now + action.dueWithinDays * 24 * 60 * 60 * 1000).toISOString(),
+        rule_id: action.ruleId,
+        rule_version: action.ruleVersion,
       }));
 
       const { error: insertErr } = await supabase
@@ -302,6 +182,7 @@ serve(async (req) => {
       entity_id: patientId,
       details: {
         rules_checked: CLINICAL_RULES.length,
+        rules_version: CLINICAL_RULES_VERSION,
         actions_triggered: triggeredActions.length,
         codes_mapped: codeMappings.length,
       },
@@ -18,7 +18,9 @@ const FALLBACK_MESSAGES: Record<string, string> = {
   error: "We're sorry, but we're experiencing technical difficulties. Please call the surgery directly. Goodbye.",
   unclear_response: "I'm sorry, I didn't quite catch that. Let me ask again.",
   consent_prompt: "Do you consent to continue with this call? Please say yes to continue, or no if you'd prefer not to.",
-  invalid_input: "I didn't understand your response. Let me ask again."
+  invalid_input: "I didn't understand your response. Let me ask again.",
+  callback_greeting: "Hello, thank you for calling your GP surgery back. We tried to reach you recently to collect some health information as part of your ongoing care.",
+  callback_unmatched: "Thank you for calling. We couldn't find a recent call from the surgery to this number. If you'd like to speak with us, please call the surgery's main line. Goodbye."
 };
 
 // Default voice settings
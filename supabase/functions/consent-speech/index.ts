@@ -1,5 +1,11 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  consentGatherSteps,
+  conversationSteps,
+  getTelephonyProvider,
+  playAndHangUpSteps,
+} from "../_shared/telephony.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -41,25 +47,28 @@ function detectConsent(transcript: string): "consent" | "decline" | "unclear" {
   return "unclear";
 }
 
+/**
+ * Verbal consent handler: receives the speech gather result from the
+ * telephony provider and either connects the conversation stream, ends the
+ * call on a refusal, or asks again when the answer is unclear.
+ */
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
   }
 
+  const telephony = getTelephonyProvider();
+
   try {
     const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
     const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
     
     const supabase = createClient(SUPABASE_URL!, SUPABASE_SERVICE_ROLE_KEY!);
 
-    // Parse form data from Twilio <Record> callback
-    const formData = await req.formData();
-    const callSid = formData.get("CallSid") as string;
-    const recordingUrl = formData.get("RecordingUrl") as string;
-    const recordingSid = formData.get("RecordingSid") as string;
-    const speechResult = formData.get("SpeechResult") as string; // From <Gather input="speech">
+    // Parse the provider's <Gather input="speech"> callback
+    const { providerCallId: callSid, speechResult } = await telephony.parseCallback(req);
     
-    console.log("Consent speech handler received:", { callSid, recordingSid, speechResult });
+    console.log("Consent speech handler received:", { provider: telephony.name, callSid, speechResult });
 
     // Find the call
     const { data: callData, error: callError } = await supabase
@@ -70,15 +79,7 @@ serve(async (req) => {
 
     if (callError || !callData) {
       console.error("Error finding call:", callError);
-      const consentAudioUrl = `${SUPABASE_URL}/functions/v1/consent-audio`;
-      const twiml = `<?xml version="1.0" encoding="UTF-8"?>
-<Response>
-  <Play>${consentAudioUrl}?type=error</Play>
-  <Hangup/>
-</Response>`;
-      return new Response(twiml, { 
-        headers: { ...corsHeaders, "Content-Type": "text/xml" } 
-      });
+      return telephony.renderResponse(playAndHangUpSteps(SUPABASE_URL!, "error"));
     }
 
     const consentAudioUrl = `${SUPABASE_URL}/functions/v1/consent-audio`;
@@ -97,6 +98,7 @@ serve(async (req) => {
           consent_verified: true,
           consent_given_at: new Date().toISOString(),
           consent_method: "verbal",
+          live_stage: "conversation",
         })
         .eq("id", callData.id);
 
@@ -117,30 +119,10 @@ serve(async (req) => {
 
       if (signedUrl) {
         // Connect to ElevenLabs AI assistant
-        const twiml = `<?xml version="1.0" encoding="UTF-8"?>
-<Response>
-  <Play>${consentAudioUrl}?type=thank_you</Play>
-  <Connect>
-    <Stream url="${signedUrl}">
-      <Parameter name="purposeContext" value="${purposeContext}" />
-    </Stream>
-  </Connect>
-  <Play>${consentAudioUrl}?type=goodbye</Play>
-</Response>`;
-        
-        return new Response(twiml, { 
-          headers: { ...corsHeaders, "Content-Type": "text/xml" } 
-        });
+        return telephony.renderResponse(conversationSteps(SUPABASE_URL!, signedUrl, purposeContext, callData.id));
       } else {
         console.error("No ElevenLabs signed URL found");
-        const twiml = `<?xml version="1.0" encoding="UTF-8"?>
-<Response>
-  <Play>${consentAudioUrl}?type=error</Play>
-  <Hangup/>
-</Response>`;
-        return new Response(twiml, { 
-          headers: { ...corsHeaders, "Content-Type": "text/xml" } 
-        });
+        return telephony.renderResponse(playAndHangUpSteps(SUPABASE_URL!, "error"));
       }
     } else if (consentResult === "decline") {
       // User declined verbally
@@ -151,6 +133,7 @@ serve(async (req) => {
         .update({
           consent_verified: false,
           status: "declined",
+          live_stage: null,
           ended_at: new Date().toISOString(),
         })
         .eq("id", callData.id);
@@ -166,39 +149,22 @@ serve(async (req) => {
         }
       });
 
-      const twiml = `<?xml version="1.0" encoding="UTF-8"?>
-<Response>
-  <Play>${consentAudioUrl}?type=declined</Play>
-  <Hangup/>
-</Response>`;
-      
-      return new Response(twiml, { 
-        headers: { ...corsHeaders, "Content-Type": "text/xml" } 
-      });
+      return telephony.renderResponse(playAndHangUpSteps(SUPABASE_URL!, "declined"));
     } else {
       // Unclear response - ask again with clarification
       console.log("Unclear response, asking again");
-      
-      const twiml = `<?xml version="1.0" encoding="UTF-8"?>
-<Response>
-  <Play>${consentAudioUrl}?type=unclear_response</Play>
-  <Gather input="speech" action="${SUPABASE_URL}/functions/v1/consent-speech" method="POST" timeout="8" speechTimeout="auto" language="en-GB">
-    <Play>${consentAudioUrl}?type=consent_verbal</Play>
-  </Gather>
-  <Play>${consentAudioUrl}?type=no_response</Play>
-  <Hangup/>
-</Response>`;
-      
-      return new Response(twiml, { 
-        headers: { ...corsHeaders, "Content-Type": "text/xml" } 
-      });
+
+      return telephony.renderResponse([
+        { type: "play", url: `${consentAudioUrl}?type=unclear_response` },
+        ...consentGatherSteps(SUPABASE_URL!),
+      ]);
     }
 
   } catch (error) {
     console.error("Consent speech error:", error);
-    return new Response(
-      '<?xml version="1.0" encoding="UTF-8"?><Response><Say voice="alice">An error occurred. Goodbye.</Say><Hangup/></Response>',
-      { headers: { ...corsHeaders, "Content-Type": "text/xml" } }
-    );
+    return telephony.renderResponse([
+      { type: "say", text: "An error occurred. Goodbye." },
+      { type: "hangup" },
+    ]);
   }
-});
\ No newline at end of file
+});
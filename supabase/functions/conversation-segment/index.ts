@@ -0,0 +1,94 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { buildAgentInstruction, buildSafetyNetMessage, detectRedFlags, escalateRedFlags } from "../_shared/red-flags.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Speakers whose words are checked; agent turns are ignored
+const PATIENT_ROLES = ["user", "patient"];
+
+/**
+ * Live transcript segments, posted as each turn of the conversation is
+ * finalised (the ElevenLabs agent calls this as a server tool after every
+ * patient turn; the simulator posts its scripted turns). Patient speech is
+ * checked for red-flag symptoms. On a new red flag the call is escalated
+ * straight away and the response tells the agent to deliver the safety-net
+ * message before anything else.
+ */
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const payload = await req.json();
+    const { call_id, conversation_id } = payload;
+    const role = String(payload.role || "user").toLowerCase();
+    const text: string = payload.text ?? payload.message ?? "";
+
+    if (!PATIENT_ROLES.includes(role) || !text.trim()) {
+      return new Response(
+        JSON.stringify({ red_flag: false }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+    );
+
+    let query = supabase.from("calls").select("id, patient_id");
+    if (call_id) {
+      query = query.eq("id", call_id);
+    } else if (conversation_id) {
+      query = query.eq("twilio_call_sid", conversation_id);
+    } else {
+      throw new Error("call_id or conversation_id is required");
+    }
+    const { data: call, error: callError } = await query.maybeSingle();
+    if (callError) throw callError;
+
+    if (!call) {
+      console.log("Transcript segment for unknown call:", { call_id, conversation_id });
+      return new Response(
+        JSON.stringify({ red_flag: false, message: "Call not found" }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const matches = detectRedFlags(text);
+    const escalated = await escalateRedFlags(supabase, call, matches, "live");
+
+    if (escalated.length === 0) {
+      // Nothing new: either no red flag, or the safety net was already given for it
+      return new Response(
+        JSON.stringify({ red_flag: false }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // GDPR: log categories only, never the patient's words
+    console.log("Red flag detected during call:", { callId: call.id, categories: escalated.map(m => m.category) });
+
+    return new Response(
+      JSON.stringify({
+        red_flag: true,
+        categories: escalated.map(m => m.category),
+        instruction: buildAgentInstruction(escalated),
+        safety_net: buildSafetyNetMessage(escalated),
+      }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Conversation segment error:", error);
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -1,5 +1,24 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { RETRYABLE_STATUSES, scheduleRetryForCall } from "../_shared/call-retry.ts";
+import {
+  buildExtractionSchema,
+  CALL_RESPONSE_COLUMNS,
+  CallScript,
+  normaliseScriptAnswers,
+  ScriptQuestion,
+  splitScriptAnswers,
+} from "../_shared/call-script.ts";
+import { buildObservationRows, QOF_OBSERVATIONS } from "../_shared/qof-observations.ts";
+import { loadBatchIndicatorScript, loadCallScript } from "../_shared/script-loader.ts";
+import {
+  EVIDENCE_INSTRUCTIONS,
+  minimumConfidence,
+  splitExtractionEvidence,
+  verifyEvidence,
+} from "../_shared/extraction-evidence.ts";
+import { expandBloodPressure, findImplausibleValues, withoutFlaggedValues } from "../_shared/vital-signs.ts";
+import { detectRedFlags, escalateRedFlags, patientLines } from "../_shared/red-flags.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -57,52 +76,87 @@ function scrubPIIFromTranscript(transcript: string): string {
   return sanitized;
 }
 
-/**
- * Extract health metrics from SANITIZED transcript using AI
- * The AI only ever sees anonymized data
- */
-async function extractHealthMetrics(sanitizedTranscript: string): Promise<HealthMetrics> {
-  const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
-  
-  if (!LOVABLE_API_KEY) {
-    console.error("LOVABLE_API_KEY not configured, skipping AI extraction");
-    return {
-      blood_pressure_systolic: null,
-      blood_pressure_diastolic: null,
-      weight_kg: null,
-      height_cm: null,
-      pulse_rate: null,
-      smoking_status: null,
-      alcohol_units_per_week: null,
-      is_carer: null,
-    };
-  }
+const EMPTY_METRICS: HealthMetrics = {
+  blood_pressure_systolic: null,
+  blood_pressure_diastolic: null,
+  weight_kg: null,
+  height_cm: null,
+  pulse_rate: null,
+  smoking_status: null,
+  alcohol_units_per_week: null,
+  is_carer: null,
+};
 
-  // GDPR: System prompt explicitly mentions no PII should be in the transcript
-  const systemPrompt = `You are a medical data extraction assistant. Extract health metrics from anonymized call transcripts.
+// Fields of DEFAULT_EXTRACTION_PROMPT, parsed and range-checked like script questions
+const DEFAULT_QUESTIONS: ScriptQuestion[] = [
+  ...QOF_OBSERVATIONS.filter(o => CALL_RESPONSE_COLUMNS.includes(o.key)),
+  { key: "is_carer", prompt: "Do you look after anyone as an unpaid carer?", answer_type: "yes_no" },
+];
+
+// Extraction prompt for calls without a conversation script
+const DEFAULT_EXTRACTION_PROMPT = `You are a medical data extraction assistant. Extract health metrics from anonymized call transcripts.
 The transcript has been sanitized - any patient-identifiable information has been replaced with tokens like [PATIENT], [NHS_NUMBER], etc.
 
 Extract the following metrics and return ONLY valid JSON (no markdown, no explanation):
 {
-  "blood_pressure_systolic": number or null (top number, e.g., 120 from "120 over 80"),
-  "blood_pressure_diastolic": number or null (bottom number, e.g., 80 from "120 over 80"),
-  "weight_kg": number or null (convert stones to kg: 1 stone = 6.35 kg, convert lbs to kg: 1 lb = 0.453 kg),
-  "height_cm": number or null (convert feet/inches to cm: 1 foot = 30.48 cm, 1 inch = 2.54 cm),
-  "pulse_rate": number or null (beats per minute),
+  "blood_pressure_systolic": string or null (top number as said, e.g., "one twenty" from "one twenty over eighty"),
+  "blood_pressure_diastolic": string or null (bottom number as said, e.g., "eighty" from "one twenty over eighty"),
+  "weight_kg": string or null (weight as said, with its units, e.g., "12 stone 4" or "80 kilos"),
+  "height_cm": string or null (height as said, with its units, e.g., "5 foot 8" or "1.72 metres"),
+  "pulse_rate": string or null (beats per minute as said),
   "smoking_status": string or null ("never_smoked", "ex_smoker", or "current_smoker"),
-  "alcohol_units_per_week": number or null,
+  "alcohol_units_per_week": string or null (units per week as said),
   "is_carer": boolean or null (whether they care for someone else)
 }
 
+${EVIDENCE_INSTRUCTIONS}
+
 Rules:
 - Return null for any value not mentioned or unclear
+- Do not convert units or do arithmetic: copy numbers and units as the patient said them
 - For blood pressure, look for patterns like "120/80", "120 over 80", "one twenty over eighty"
-- For weight in stones, convert to kg (e.g., "12 stone" = 76.2 kg)
-- For height in feet/inches, convert to cm (e.g., "5 foot 8" = 172.72 cm)
 - For smoking: "never smoked" → "never_smoked", "quit"/"used to smoke" → "ex_smoker", "yes"/"I smoke" → "current_smoker"
 - Ignore any [REDACTED] or [PATIENT] tokens - these are privacy placeholders
 - Return ONLY the JSON object, nothing else`;
 
+/** Extraction prompt built from the questions in the call's conversation script */
+function buildScriptExtractionPrompt(script: CallScript): string {
+  return `You are a medical data extraction assistant. Extract the patient's answers from an anonymized call transcript.
+The transcript has been sanitized - any patient-identifiable information has been replaced with tokens like [PATIENT], [NHS_NUMBER], etc.
+The call followed the script "${script.name}" (version ${script.version}).
+
+Return ONLY valid JSON (no markdown, no explanation) with exactly these fields:
+${buildExtractionSchema(script)}
+
+${EVIDENCE_INSTRUCTIONS}
+
+Rules:
+- Return null for any question not answered or where the answer is unclear
+- Do not convert units or do arithmetic: copy numbers and units as the patient said them
+- For blood pressure, look for patterns like "120/80", "120 over 80", "one twenty over eighty"
+- Ignore any [REDACTED] or [PATIENT] tokens - these are privacy placeholders
+- Return ONLY the JSON object, nothing else`;
+}
+
+/**
+ * Extract health metrics (or script answers) from SANITIZED transcript using AI
+ * The AI only ever sees anonymized data
+ */
+async function extractHealthMetrics(
+  sanitizedTranscript: string,
+  script: CallScript | null,
+): Promise<Record<string, unknown>> {
+  const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
+  const emptyResult = script ? {} : { ...EMPTY_METRICS };
+  
+  if (!LOVABLE_API_KEY) {
+    console.error("LOVABLE_API_KEY not configured, skipping AI extraction");
+    return emptyResult;
+  }
+
+  // GDPR: System prompt explicitly mentions no PII should be in the transcript
+  const systemPrompt = script ? buildScriptExtractionPrompt(script) : DEFAULT_EXTRACTION_PROMPT;
+
   try {
     const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
       method: "POST",
@@ -135,16 +189,7 @@ Rules:
     return JSON.parse(cleanedContent);
   } catch (error) {
     console.error("Error extracting health metrics:", error);
-    return {
-      blood_pressure_systolic: null,
-      blood_pressure_diastolic: null,
-      weight_kg: null,
-      height_cm: null,
-      pulse_rate: null,
-      smoking_status: null,
-      alcohol_units_per_week: null,
-      is_carer: null,
-    };
+    return emptyResult;
   }
 }
 
@@ -230,6 +275,7 @@ serve(async (req) => {
     // Update the call record
     const updateData: Record<string, unknown> = {
       ended_at: new Date().toISOString(),
+      live_stage: null,
     };
 
     if (transcript) {
@@ -256,6 +302,24 @@ serve(async (req) => {
 
     console.log("Updated call record:", callRecord.id);
 
+    if (RETRYABLE_STATUSES.includes(updateData.status as string)) {
+      await scheduleRetryForCall(supabase, callRecord.id);
+    }
+
+    // Red flags are normally caught live by conversation-segment. Anything it
+    // missed (segments not posted, or a failed request) is escalated now
+    if (transcript) {
+      const missed = await escalateRedFlags(
+        supabase,
+        callRecord,
+        patientLines(transcript).flatMap(detectRedFlags),
+        "post_call",
+      );
+      if (missed.length > 0) {
+        console.log("Red flags escalated after the call:", missed.map(m => m.category));
+      }
+    }
+
     // GDPR COMPLIANCE: Scrub PII before AI processing
     if (transcript && transcript.length > 50) {
       console.log("Scrubbing PII from transcript before AI processing...");
@@ -276,10 +340,45 @@ serve(async (req) => {
       });
       
       // Step 2: Send ONLY sanitized transcript to AI
-      console.log("Extracting health metrics from SANITIZED transcript...");
-      const healthMetrics = await extractHealthMetrics(sanitizedTranscript);
+      // What to extract comes from the call's conversation script, else the
+      // batch's target QOF indicators, else the default metrics
+      const script = callRecord.script_id
+        ? await loadCallScript(supabase, callRecord.script_id)
+        : await loadBatchIndicatorScript(supabase, callRecord.batch_id);
+      console.log("Extracting health metrics from SANITIZED transcript...", { scriptId: script?.id ?? null });
+      const { values: extracted, evidence: rawEvidence } = splitExtractionEvidence(
+        await extractHealthMetrics(sanitizedTranscript, script)
+      );
       console.log("Extracted metrics (no PII sent to AI)");
 
+      // Values come back as the patient said them: parse and convert them in
+      // code, then hold back anything implausible for re-ask or clinical review
+      const questions = script ? script.questions : DEFAULT_QUESTIONS;
+      const spoken = expandBloodPressure(extracted);
+      const parsed = normaliseScriptAnswers({ questions } as CallScript, spoken);
+      const plausibilityFlags = findImplausibleValues(parsed, questions, spoken);
+      const answers = withoutFlaggedValues(parsed, plausibilityFlags);
+      if (plausibilityFlags.length > 0) {
+        console.log("Implausible values held back:", plausibilityFlags.map(f => f.field));
+      }
+
+      const { columns, scriptAnswers: otherAnswers } = splitScriptAnswers(answers);
+      const healthMetrics: Record<string, unknown> = columns;
+      // Indicator-driven answers are kept as observations rather than script answers
+      const scriptAnswers = callRecord.script_id ? otherAnswers : null;
+
+      // Confidence and source quote for every value that will be stored
+      const evidence = verifyEvidence({ ...answers, ...healthMetrics, ...scriptAnswers }, rawEvidence, sanitizedTranscript);
+
+      const observationContext = {
+        patientId: callRecord.patient_id,
+        callId: callRecord.id,
+        callResponseId: null,
+        batchId: callRecord.batch_id,
+        evidence,
+      };
+      const observationCount = buildObservationRows(answers, observationContext).length;
+
       // AUDIT LOG: Record AI processing
       await supabase.rpc('log_call_audit', {
         p_call_id: callRecord.id,
@@ -287,33 +386,61 @@ serve(async (req) => {
         p_actor: 'system',
         p_details: { 
           metrics_extracted: Object.values(healthMetrics).filter(v => v !== null).length,
+          script_answers_extracted: scriptAnswers ? Object.values(scriptAnswers).filter(v => v !== null).length : 0,
+          observations_extracted: observationCount,
+          min_confidence: minimumConfidence(evidence),
+          implausible_values: plausibilityFlags.length,
           gdpr_compliant: true 
         }
       });
 
       // Check if any metrics were extracted
-      const hasMetrics = Object.values(healthMetrics).some(v => v !== null);
+      const hasMetrics = Object.values(healthMetrics).some(v => v !== null)
+        || (scriptAnswers !== null && Object.values(scriptAnswers).some(v => v !== null))
+        || observationCount > 0
+        || plausibilityFlags.length > 0;
 
       if (hasMetrics) {
-        const { error: responseError } = await supabase
+        const { data: callResponse, error: responseError } = await supabase
           .from("call_responses")
           .insert({
             call_id: callRecord.id,
             patient_id: callRecord.patient_id,
             ...healthMetrics,
-          });
+            script_answers: scriptAnswers,
+            extraction_evidence: evidence,
+            min_confidence: minimumConfidence(evidence),
+            plausibility_flags: plausibilityFlags.length > 0 ? plausibilityFlags : null,
+            needs_review: plausibilityFlags.length > 0,
+          })
+          .select("id")
+          .single();
 
         if (responseError) {
           console.error("Error saving call response:", responseError);
         } else {
           console.log("Saved health metrics for call:", callRecord.id);
+
+          // Coded observations (SNOMED) for every answered QOF data item
+          const observations = buildObservationRows(answers, { ...observationContext, callResponseId: callResponse.id });
+          if (observations.length > 0) {
+            const { error: observationError } = await supabase
+              .from("patient_observations")
+              .insert(observations);
+            if (observationError) {
+              console.error("Error saving observations:", observationError);
+            }
+          }
           
           // AUDIT LOG: Record metrics saved
           await supabase.rpc('log_call_audit', {
             p_call_id: callRecord.id,
             p_action: 'metrics_saved',
             p_actor: 'system',
-            p_details: { metrics_count: Object.values(healthMetrics).filter(v => v !== null).length }
+            p_details: {
+              metrics_count: Object.values(healthMetrics).filter(v => v !== null).length,
+              observations_count: observations.length,
+            }
           });
         }
       } else {
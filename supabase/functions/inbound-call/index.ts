@@ -0,0 +1,122 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { findMissedCall } from "../_shared/inbound-callback.ts";
+import {
+  consentGatherSteps,
+  getConversationStreamUrl,
+  getTelephonyProvider,
+  playAndHangUpSteps,
+  VoiceStep,
+} from "../_shared/telephony.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+/**
+ * Inbound calls to the practice number (the number's voice webhook).
+ * A patient ringing back after a missed batch call is matched by caller ID to
+ * their outstanding call, then taken through the same disclosure and consent
+ * flow and connected to the same purpose context. The callback is a new calls
+ * row in the original batch, so its answers are extracted and linked as usual.
+ */
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const telephony = getTelephonyProvider();
+
+  try {
+    const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+    const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+    const supabase = createClient(SUPABASE_URL!, SUPABASE_SERVICE_ROLE_KEY!);
+
+    const { providerCallId: callSid, callerNumber } = await telephony.parseCallback(req);
+
+    // GDPR: never log the caller's number
+    console.log("Inbound call received:", { provider: telephony.name, callSid, hasCallerId: !!callerNumber });
+
+    const missedCall = callerNumber ? await findMissedCall(supabase, callerNumber) : null;
+
+    if (!missedCall) {
+      console.log("Inbound call not matched to an outstanding call:", callSid);
+      return telephony.renderResponse(playAndHangUpSteps(SUPABASE_URL!, "callback_unmatched"));
+    }
+
+    // The patient has rung back, so their queued retry is no longer needed
+    await supabase
+      .from("call_queue")
+      .update({ status: "cancelled", locked_at: null })
+      .eq("batch_id", missedCall.batch_id)
+      .eq("patient_id", missedCall.patient_id)
+      .eq("status", "queued");
+
+    const { data: callback, error: callbackError } = await supabase
+      .from("calls")
+      .insert({
+        patient_id: missedCall.patient_id,
+        batch_id: missedCall.batch_id,
+        attempt_number: missedCall.attempt_number + 1,
+        direction: "inbound",
+        callback_of: missedCall.id,
+        twilio_call_sid: callSid,
+        status: "in_progress",
+        live_stage: "consent",
+        started_at: new Date().toISOString(),
+        purpose_context: missedCall.purpose_context,
+        // The answers are extracted against the script the missed call would have used
+        script_id: missedCall.script_id,
+        recording_disclosure_played: true,
+      })
+      .select("id")
+      .single();
+
+    if (callbackError || !callback) {
+      throw callbackError || new Error("Failed to create callback call");
+    }
+
+    // GDPR COMPLIANCE: anonymous reference for external services, as for outbound calls
+    const { error: referenceError } = await supabase
+      .rpc('generate_call_reference', { p_call_id: callback.id });
+
+    if (referenceError) {
+      console.error("Error generating call reference:", referenceError);
+    }
+
+    const signedUrl = await getConversationStreamUrl(telephony, callback.id);
+    await supabase
+      .from("calls")
+      .update({ elevenlabs_signed_url: signedUrl })
+      .eq("id", callback.id);
+
+    await supabase.rpc('log_call_audit', {
+      p_call_id: callback.id,
+      p_action: 'inbound_callback',
+      p_actor: 'patient',
+      p_details: {
+        callback_of: missedCall.id,
+        batch_id: missedCall.batch_id,
+        provider: telephony.name,
+      }
+    });
+
+    // Same disclosure and consent as an outbound call, with a callback greeting
+    const consentAudioUrl = `${SUPABASE_URL}/functions/v1/consent-audio`;
+    const steps: VoiceStep[] = [
+      { type: "play", url: `${consentAudioUrl}?type=callback_greeting` },
+      { type: "pause", seconds: 1 },
+      { type: "play", url: `${consentAudioUrl}?type=recording` },
+      { type: "pause", seconds: 1 },
+      ...consentGatherSteps(SUPABASE_URL!),
+    ];
+
+    return telephony.renderResponse(steps);
+
+  } catch (error) {
+    console.error("Inbound call error:", error);
+    return telephony.renderResponse(playAndHangUpSteps(Deno.env.get("SUPABASE_URL")!, "error"));
+  }
+});
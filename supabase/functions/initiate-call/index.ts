@@ -1,5 +1,10 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { buildCallingRules, isCallingAllowed, loadCallingContext } from "../_shared/call-scheduling.ts";
+import { consentGatherSteps, getConversationStreamUrl, getTelephonyProvider, VoiceStep } from "../_shared/telephony.ts";
+import { buildScriptContext } from "../_shared/call-script.ts";
+import { buildIndicatorScript } from "../_shared/qof-observations.ts";
+import { loadCallScript } from "../_shared/script-loader.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -14,6 +19,10 @@ const corsHeaders = {
  * 2. Uses anonymous call reference codes instead of patient IDs
  * 3. ICO-compliant call recording disclosure
  * 4. Audit logging of all call events
+ * 5. No calls during practice quiet hours or on bank holidays
+ *
+ * The call is placed through the configured telephony provider (Twilio, or the
+ * local simulator when TELEPHONY_PROVIDER=simulator).
  */
 serve(async (req) => {
   if (req.method === "OPTIONS") {
@@ -21,7 +30,7 @@ serve(async (req) => {
   }
 
   try {
-    const { callId, patientId, phoneNumber, batchPurpose, customQuestions } = await req.json();
+    const { callId, patientId, phoneNumber, batchPurpose, customQuestions, scriptId, targetIndicators, simulatorScenario } = await req.json();
     
     // GDPR: Log the request but NOT patient name
     console.log("Initiating GDPR-compliant call:", { callId, patientId: "[REDACTED]", batchPurpose });
@@ -34,24 +43,19 @@ serve(async (req) => {
       formattedPhone = '+' + phoneNumber;
     }
 
-    const TWILIO_ACCOUNT_SID = Deno.env.get("TWILIO_ACCOUNT_SID");
-    const TWILIO_AUTH_TOKEN = Deno.env.get("TWILIO_AUTH_TOKEN");
-    const TWILIO_PHONE_NUMBER = Deno.env.get("TWILIO_PHONE_NUMBER");
-    const ELEVENLABS_API_KEY = Deno.env.get("ELEVENLABS_API_KEY");
-    const ELEVENLABS_AGENT_ID = Deno.env.get("ELEVENLABS_AGENT_ID");
     const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
     const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
 
-    if (!TWILIO_ACCOUNT_SID || !TWILIO_AUTH_TOKEN || !TWILIO_PHONE_NUMBER) {
-      throw new Error("Twilio credentials not configured");
-    }
-
-    if (!ELEVENLABS_API_KEY || !ELEVENLABS_AGENT_ID) {
-      throw new Error("ElevenLabs credentials not configured");
-    }
+    const telephony = getTelephonyProvider();
 
     const supabase = createClient(SUPABASE_URL!, SUPABASE_SERVICE_ROLE_KEY!);
 
+    // Never dial a patient in quiet hours, on a non-calling day or a bank holiday
+    const callingRules = buildCallingRules(await loadCallingContext(supabase));
+    if (!isCallingAllowed(new Date(), callingRules)) {
+      throw new Error("Calls cannot be placed during practice quiet hours, on non-calling days or on bank holidays");
+    }
+
     // GDPR COMPLIANCE: Generate anonymous call reference code
     // This ensures no patient-identifiable data is sent to external services
     const { data: referenceData, error: referenceError } = await supabase
@@ -73,35 +77,25 @@ serve(async (req) => {
       p_details: { 
         reference: callReference, 
         purpose: batchPurpose,
+        script_id: scriptId ?? null,
         gdpr_compliant: true 
       }
     });
 
-    // Get signed URL from ElevenLabs
-    const elevenLabsResponse = await fetch(
-      `https://api.elevenlabs.io/v1/convai/conversation/get_signed_url?agent_id=${ELEVENLABS_AGENT_ID}`,
-      {
-        method: "GET",
-        headers: {
-          "xi-api-key": ELEVENLABS_API_KEY,
-        },
-      }
-    );
-
-    if (!elevenLabsResponse.ok) {
-      const errorText = await elevenLabsResponse.text();
-      console.error("ElevenLabs error:", errorText);
-      throw new Error(`Failed to get ElevenLabs signed URL: ${errorText}`);
-    }
-
-    const { signed_url } = await elevenLabsResponse.json();
-    console.log("Got ElevenLabs signed URL");
+    // Conversation stream: the provider's own (simulator) or an ElevenLabs agent
+    const signed_url = await getConversationStreamUrl(telephony, callId);
 
     const webhookUrl = `${SUPABASE_URL}/functions/v1/twilio-webhook`;
     
-    // Build context message based on batch purpose (no PII)
+    // Build context message from the batch's conversation script, its target QOF
+    // indicators, or its purpose (no PII)
+    const script = scriptId
+      ? await loadCallScript(supabase, scriptId)
+      : buildIndicatorScript(targetIndicators || []);
     let purposeContext = "This is a general health check call.";
-    if (batchPurpose === "smoking_status") {
+    if (script) {
+      purposeContext = buildScriptContext(script);
+    } else if (batchPurpose === "smoking_status") {
       purposeContext = "The main purpose of this call is to collect the caller's current smoking status for their medical records.";
     } else if (batchPurpose === "bp_check") {
       purposeContext = "The main purpose of this call is to collect the caller's blood pressure reading if they have one available.";
@@ -113,41 +107,21 @@ serve(async (req) => {
       purposeContext = `Please ask the following specific questions: ${customQuestions.join("; ")}`;
     }
     
-    // GDPR/ICO COMPLIANT TwiML with VERBAL CONSENT VERIFICATION:
+    // GDPR/ICO COMPLIANT call flow with VERBAL CONSENT VERIFICATION:
     // 1. NO patient name in greeting (patient already knows who they are)
     // 2. ICO-compliant recording disclosure
     // 3. VERBAL CONSENT: Patient says "yes" or "no" - easier for elderly patients
     // 4. Only anonymous call reference sent to ElevenLabs
     // 5. No patient ID sent to external services
     // 6. Uses ElevenLabs TTS for natural voice instead of robotic Twilio voice
-    const consentSpeechUrl = `${SUPABASE_URL}/functions/v1/consent-speech`;
     const consentAudioUrl = `${SUPABASE_URL}/functions/v1/consent-audio`;
-    
-    const twiml = `<?xml version="1.0" encoding="UTF-8"?>
-<Response>
-  <Play>${consentAudioUrl}?type=greeting</Play>
-  <Pause length="1"/>
-  <Play>${consentAudioUrl}?type=recording</Play>
-  <Pause length="1"/>
-  <Gather input="speech" action="${consentSpeechUrl}" method="POST" timeout="8" speechTimeout="auto" language="en-GB">
-    <Play>${consentAudioUrl}?type=consent_verbal</Play>
-  </Gather>
-  <Play>${consentAudioUrl}?type=no_response</Play>
-  <Hangup/>
-</Response>`;
-
-    // TwiML for after consent is given (used by webhook)
-    const consentedTwiml = `<?xml version="1.0" encoding="UTF-8"?>
-<Response>
-  <Say voice="alice">Thank you for your consent. Please hold while we connect you to our health assistant.</Say>
-  <Connect>
-    <Stream url="${signed_url}">
-      <Parameter name="callReference" value="${callReference}" />
-      <Parameter name="purposeContext" value="${purposeContext}" />
-    </Stream>
-  </Connect>
-  <Say voice="alice">Thank you for your time. Your responses have been recorded. Goodbye.</Say>
-</Response>`;
+    const steps: VoiceStep[] = [
+      { type: "play", url: `${consentAudioUrl}?type=greeting` },
+      { type: "pause", seconds: 1 },
+      { type: "play", url: `${consentAudioUrl}?type=recording` },
+      { type: "pause", seconds: 1 },
+      ...consentGatherSteps(SUPABASE_URL!),
+    ];
 
     // Store the ElevenLabs signed URL and context for use after consent verification
     // The webhook will use these to connect the patient to the AI assistant
@@ -159,56 +133,36 @@ serve(async (req) => {
       })
       .eq("id", callId);
 
-    // Initiate the call via Twilio
-    const twilioAuth = btoa(`${TWILIO_ACCOUNT_SID}:${TWILIO_AUTH_TOKEN}`);
-    
-    const formData = new URLSearchParams();
-    formData.append("To", formattedPhone);
-    formData.append("From", TWILIO_PHONE_NUMBER);
-    formData.append("Twiml", twiml);
-    formData.append("StatusCallback", webhookUrl);
-    formData.append("StatusCallbackEvent", "initiated ringing answered completed");
-    formData.append("StatusCallbackMethod", "POST");
-
-    const twilioResponse = await fetch(
-      `https://api.twilio.com/2010-04-01/Accounts/${TWILIO_ACCOUNT_SID}/Calls.json`,
-      {
-        method: "POST",
-        headers: {
-          "Authorization": `Basic ${twilioAuth}`,
-          "Content-Type": "application/x-www-form-urlencoded",
-        },
-        body: formData.toString(),
-      }
-    );
-
-    if (!twilioResponse.ok) {
-      const errorText = await twilioResponse.text();
-      console.error("Twilio error:", errorText);
-      throw new Error(`Failed to initiate Twilio call: ${errorText}`);
-    }
-
-    const twilioData = await twilioResponse.json();
-    console.log("Twilio call initiated:", twilioData.sid);
+    // Place the call through the telephony provider
+    const { providerCallId } = await telephony.placeCall({
+      callId,
+      to: formattedPhone,
+      steps,
+      statusCallbackUrl: webhookUrl,
+      scenario: simulatorScenario,
+    });
+    console.log(`${telephony.name} call initiated:`, providerCallId);
 
-    // Update call record with Twilio SID and recording disclosure flag
+    // Update call record with provider call SID and recording disclosure flag
     await supabase
       .from("calls")
       .update({ 
-        twilio_call_sid: twilioData.sid,
+        twilio_call_sid: providerCallId,
         status: "in_progress",
+        live_stage: "dialling",
         started_at: new Date().toISOString(),
         recording_disclosure_played: true,
       })
       .eq("id", callId);
 
-    // AUDIT LOG: Record Twilio call creation
+    // AUDIT LOG: Record provider call creation
     await supabase.rpc('log_call_audit', {
       p_call_id: callId,
       p_action: 'twilio_call_created',
       p_actor: 'system',
       p_details: { 
-        twilio_sid: twilioData.sid,
+        twilio_sid: providerCallId,
+        provider: telephony.name,
         recording_disclosure: true 
       }
     });
@@ -216,7 +170,7 @@ serve(async (req) => {
     return new Response(
       JSON.stringify({ 
         success: true, 
-        callSid: twilioData.sid,
+        callSid: providerCallId,
         callReference: callReference,
         message: "GDPR-compliant call initiated successfully" 
       }),
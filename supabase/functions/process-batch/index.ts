@@ -1,11 +1,24 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { queueBatchCalls } from "../_shared/call-scheduling.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
+
+const jsonResponse = (body: Record<string, unknown>) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+/**
+ * Batch control: start/resume queue a batch's patients for the call-queue-worker,
+ * pause stops new dispatches, cancel drops everything still waiting in the queue,
+ * cancel_call drops one patient's waiting call.
+ */
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
@@ -42,9 +55,9 @@ serve(async (req) => {
 
     console.log("User authenticated:", claimsData.user.id);
 
-    const { batchId } = await req.json();
+    const { batchId, action = "start", queueItemId } = await req.json();
     
-    console.log("Processing batch:", batchId);
+    console.log("Processing batch:", { batchId, action });
     
     // Use service role for database operations
     const supabase = createClient(SUPABASE_URL!, SUPABASE_SERVICE_ROLE_KEY!);
@@ -60,99 +73,102 @@ serve(async (req) => {
       throw new Error("Batch not found");
     }
 
-    // Get patients in this batch
-    const { data: batchPatients, error: patientsError } = await supabase
-      .from("batch_patients")
-      .select(`
-        id,
-        priority,
-        patient_id,
-        patients (id, name, phone_number)
-      `)
-      .eq("batch_id", batchId)
-      .order("priority");
-
-    if (patientsError) {
-      throw patientsError;
-    }
+    if (action === "pause") {
+      if (batch.status !== "in_progress") {
+        throw new Error("Only running batches can be paused");
+      }
 
-    console.log(`Found ${batchPatients?.length || 0} patients in batch`);
+      await supabase
+        .from("call_batches")
+        .update({ status: "paused" })
+        .eq("id", batchId);
 
-    // Update batch status to in_progress
-    await supabase
-      .from("call_batches")
-      .update({ status: "in_progress" })
-      .eq("id", batchId);
-
-    // Create call records for each patient
-    const callRecords = [];
-    for (const bp of batchPatients || []) {
-      const patient = bp.patients as any;
-      
-      // Create a call record
-      const { data: callData, error: callError } = await supabase
-        .from("calls")
-        .insert({
-          patient_id: patient.id,
-          batch_id: batchId,
-          status: "pending",
-          attempt_number: 1,
-        })
-        .select()
-        .single();
-
-      if (callError) {
-        console.error("Error creating call:", callError);
-        continue;
+      return jsonResponse({ success: true, batchId, status: "paused", message: "Batch paused" });
+    }
+
+    if (action === "cancel") {
+      if (batch.status === "completed" || batch.status === "cancelled") {
+        throw new Error(`Batch is already ${batch.status}`);
       }
 
-      callRecords.push({
-        callId: callData.id,
-        patientId: patient.id,
-        patientName: patient.name,
-        phoneNumber: patient.phone_number,
+      await supabase
+        .from("call_batches")
+        .update({ status: "cancelled", completed_at: new Date().toISOString() })
+        .eq("id", batchId);
+
+      // Calls already ringing are left to finish; nothing new is dialled
+      const { data: cancelledItems } = await supabase
+        .from("call_queue")
+        .update({ status: "cancelled", locked_at: null })
+        .eq("batch_id", batchId)
+        .eq("status", "queued")
+        .select("id");
+
+      return jsonResponse({
+        success: true,
+        batchId,
+        status: "cancelled",
+        callsCancelled: cancelledItems?.length || 0,
+        message: "Batch cancelled",
       });
     }
 
-    // Start processing calls with delay between each
-    // In production, you'd use a queue system for better reliability
-    const results = [];
-    for (const callInfo of callRecords) {
-      try {
-        // Call the initiate-call function
-        const response = await fetch(`${SUPABASE_URL}/functions/v1/initiate-call`, {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            "Authorization": `Bearer ${SUPABASE_SERVICE_ROLE_KEY}`,
-          },
-          body: JSON.stringify(callInfo),
-        });
-
-        const result = await response.json();
-        results.push({ ...callInfo, result });
-
-        // Add delay between calls (5 seconds)
-        await new Promise(resolve => setTimeout(resolve, 5000));
-
-      } catch (err) {
-        console.error("Error initiating call:", err);
-        const errorMessage = err instanceof Error ? err.message : "Unknown error";
-        results.push({ ...callInfo, error: errorMessage });
+    if (action === "cancel_call") {
+      // Only calls still waiting in the queue; a call already dialled is left to finish
+      const { data: cancelledItem } = await supabase
+        .from("call_queue")
+        .update({ status: "cancelled", locked_at: null })
+        .eq("id", queueItemId)
+        .eq("batch_id", batchId)
+        .eq("status", "queued")
+        .select("id, patient_id, attempt_number")
+        .maybeSingle();
+
+      if (!cancelledItem) {
+        throw new Error("Call is no longer waiting in the queue");
       }
-    }
 
-    return new Response(
-      JSON.stringify({ 
-        success: true, 
+      console.log("Queued call cancelled:", { batchId, queueItemId, userId: claimsData.user.id });
+
+      return jsonResponse({
+        success: true,
         batchId,
-        callsInitiated: results.length,
-        results,
-        message: "Batch processing started" 
-      }),
-      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        queueItemId,
+        patientId: cancelledItem.patient_id,
+        message: "Call cancelled",
+      });
+    }
+
+    if (action !== "start" && action !== "resume") {
+      throw new Error(`Unknown action: ${action}`);
+    }
+
+    if (batch.status === "completed" || batch.status === "cancelled") {
+      throw new Error(`Batch is already ${batch.status}`);
+    }
+
+    const queuedCount = await queueBatchCalls(supabase, batch);
+
+    // Kick the queue worker so the first calls go out now rather than on the next cron tick
+    EdgeRuntime.waitUntil(
+      fetch(`${SUPABASE_URL}/functions/v1/call-queue-worker`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Authorization": `Bearer ${SUPABASE_SERVICE_ROLE_KEY}`,
+        },
+        body: JSON.stringify({ batchId }),
+      }).catch(err => console.error("Error triggering queue worker:", err))
     );
 
+    return jsonResponse({
+      success: true,
+      batchId,
+      status: "in_progress",
+      callsQueued: queuedCount,
+      message: action === "resume" ? "Batch resumed" : "Batch processing started",
+    });
+
   } catch (error) {
     console.error("Error processing batch:", error);
     const errorMessage = error instanceof Error ? error.message : "Unknown error";
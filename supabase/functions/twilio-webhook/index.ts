@@ -1,36 +1,49 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { RETRYABLE_STATUSES, scheduleRetryForCall } from "../_shared/call-retry.ts";
+import {
+  conversationSteps,
+  FINAL_PROVIDER_STATUSES,
+  getTelephonyProvider,
+  liveStageForProviderStatus,
+  mapProviderStatus,
+  playAndHangUpSteps,
+} from "../_shared/telephony.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
+/**
+ * Telephony webhook: call status callbacks and keypad (DTMF) consent.
+ * Parsed and answered through the configured telephony provider, so the same
+ * handler serves Twilio and the local call simulator.
+ */
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
   }
 
+  const telephony = getTelephonyProvider();
+
   try {
     const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
     const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
     
     const supabase = createClient(SUPABASE_URL!, SUPABASE_SERVICE_ROLE_KEY!);
 
-    // Parse form data from Twilio webhook
-    const formData = await req.formData();
-    const callSid = formData.get("CallSid") as string;
-    const callStatus = formData.get("CallStatus") as string;
-    const callDuration = formData.get("CallDuration") as string;
-    const digits = formData.get("Digits") as string;
+    // Parse the provider callback
+    const callback = await telephony.parseCallback(req);
+    const { providerCallId: callSid, status: callStatus, durationSeconds: callDuration, digits } = callback;
     
-    console.log("Twilio webhook received:", { callSid, callStatus, callDuration, digits });
+    console.log("Telephony webhook received:", { provider: telephony.name, callSid, callStatus, callDuration, digits });
 
     // Handle Gather response (consent verification)
     if (digits) {
       console.log("Processing consent digits:", digits);
       
-      // Find the call by Twilio SID to get the ElevenLabs signed URL
+      // Find the call by provider SID to get the ElevenLabs signed URL
       const { data: callData, error: callError } = await supabase
         .from("calls")
         .select("id, elevenlabs_signed_url, purpose_context")
@@ -53,6 +66,7 @@ serve(async (req) => {
               consent_verified: true,
               consent_given_at: new Date().toISOString(),
               consent_method: "dtmf_keypress",
+              live_stage: "conversation",
             })
             .eq("id", callData.id);
 
@@ -68,41 +82,15 @@ serve(async (req) => {
           const purposeContext = callData.purpose_context || "general health check";
 
           if (signedUrl) {
-            const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
-            const consentAudioUrl = `${SUPABASE_URL}/functions/v1/consent-audio`;
-            
-            // Return TwiML to connect to ElevenLabs with natural voice
-            const twiml = `<?xml version="1.0" encoding="UTF-8"?>
-<Response>
-  <Play>${consentAudioUrl}?type=thank_you</Play>
-  <Connect>
-    <Stream url="${signedUrl}">
-      <Parameter name="purposeContext" value="${purposeContext}" />
-    </Stream>
-  </Connect>
-  <Play>${consentAudioUrl}?type=goodbye</Play>
-</Response>`;
-            
-            console.log("Returning ElevenLabs connect TwiML");
-            return new Response(twiml, { 
-              headers: { 
-                ...corsHeaders, 
-                "Content-Type": "text/xml" 
-              } 
-            });
+            // Connect to ElevenLabs with natural voice
+            console.log("Connecting conversation stream");
+            return telephony.renderResponse(conversationSteps(SUPABASE_URL!, signedUrl, purposeContext, callData.id));
           } else {
             console.error("No ElevenLabs signed URL found for call");
-            const twiml = `<?xml version="1.0" encoding="UTF-8"?>
-<Response>
-  <Say voice="alice">We're sorry, but we're experiencing technical difficulties. Please try again later. Goodbye.</Say>
-  <Hangup/>
-</Response>`;
-            return new Response(twiml, { 
-              headers: { 
-                ...corsHeaders, 
-                "Content-Type": "text/xml" 
-              } 
-            });
+            return telephony.renderResponse([
+              { type: "say", text: "We're sorry, but we're experiencing technical difficulties. Please try again later. Goodbye." },
+              { type: "hangup" },
+            ]);
           }
         }
       } else if (digits === "2") {
@@ -115,6 +103,7 @@ serve(async (req) => {
             .update({
               consent_verified: false,
               status: "declined",
+              live_stage: null,
               ended_at: new Date().toISOString(),
             })
             .eq("id", callData.id);
@@ -128,108 +117,78 @@ serve(async (req) => {
           });
         }
 
-        const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
-        const consentAudioUrl = `${SUPABASE_URL}/functions/v1/consent-audio`;
-        
-        const twiml = `<?xml version="1.0" encoding="UTF-8"?>
-<Response>
-  <Play>${consentAudioUrl}?type=declined</Play>
-  <Hangup/>
-</Response>`;
-        
-        return new Response(twiml, { 
-          headers: { 
-            ...corsHeaders, 
-            "Content-Type": "text/xml" 
-          } 
-        });
+        return telephony.renderResponse(playAndHangUpSteps(SUPABASE_URL!, "declined"));
       } else {
         // Invalid input - ask again
         console.log("Invalid digit received:", digits);
         const consentAudioUrl = `${SUPABASE_URL}/functions/v1/consent-audio`;
-        
-        const twiml = `<?xml version="1.0" encoding="UTF-8"?>
-<Response>
-  <Gather numDigits="1" action="${SUPABASE_URL}/functions/v1/twilio-webhook" method="POST" timeout="10">
-    <Play>${consentAudioUrl}?type=invalid_input</Play>
-  </Gather>
-  <Play>${consentAudioUrl}?type=no_response</Play>
-  <Hangup/>
-</Response>`;
-        
-        return new Response(twiml, { 
-          headers: { 
-            ...corsHeaders, 
-            "Content-Type": "text/xml" 
-          } 
-        });
+
+        return telephony.renderResponse([
+          {
+            type: "gather",
+            input: "dtmf",
+            numDigits: 1,
+            action: `${SUPABASE_URL}/functions/v1/twilio-webhook`,
+            timeoutSeconds: 10,
+            prompt: [{ type: "play", url: `${consentAudioUrl}?type=invalid_input` }],
+          },
+          ...playAndHangUpSteps(SUPABASE_URL!, "no_response"),
+        ]);
       }
     }
 
     // Handle status callbacks (no digits - just status updates)
     if (callStatus) {
-      // Map Twilio status to our status
-      const statusMap: Record<string, string> = {
-        "initiated": "in_progress",
-        "ringing": "in_progress",
-        "in-progress": "in_progress",
-        "answered": "in_progress",
-        "completed": "completed",
-        "busy": "no_answer",
-        "no-answer": "no_answer",
-        "failed": "failed",
-        "canceled": "failed",
-      };
-
-      const ourStatus = statusMap[callStatus] || "failed";
+      // Map provider status to our status
+      const ourStatus = mapProviderStatus(callStatus);
       
-      // Find the call by Twilio SID and update it
+      // Find the call by provider SID and update it
       const updateData: Record<string, unknown> = {
         status: ourStatus,
+        live_stage: liveStageForProviderStatus(callStatus),
       };
 
-      if (callStatus === "completed" || callStatus === "failed" || callStatus === "busy" || callStatus === "no-answer") {
+      if (FINAL_PROVIDER_STATUSES.includes(callStatus)) {
         updateData.ended_at = new Date().toISOString();
         if (callDuration) {
-          updateData.duration_seconds = parseInt(callDuration, 10);
+          updateData.duration_seconds = callDuration;
         }
       }
 
-      const { data, error } = await supabase
+      // A patient who declined keeps that outcome when the line closes
+      let update = supabase
         .from("calls")
         .update(updateData)
         .eq("twilio_call_sid", callSid)
-        .select()
-        .single();
+        .neq("status", "declined");
+
+      // A late "answered" callback must not move a call back from conversation to consent
+      if (!FINAL_PROVIDER_STATUSES.includes(callStatus)) {
+        update = update.or("live_stage.is.null,live_stage.neq.conversation");
+      }
+
+      const { data, error } = await update.select().maybeSingle();
 
       if (error) {
         console.error("Error updating call:", error);
-      } else {
-        console.log("Call updated:", data?.id);
+      } else if (data) {
+        console.log("Call updated:", data.id);
+
+        // Unanswered or failed batch calls are queued for another attempt
+        if (data.batch_id && RETRYABLE_STATUSES.includes(ourStatus)) {
+          await scheduleRetryForCall(supabase, data.id);
+        }
       }
     }
 
-    // Return empty TwiML response for status callbacks
-    return new Response(
-      '<?xml version="1.0" encoding="UTF-8"?><Response></Response>',
-      { 
-        headers: { 
-          ...corsHeaders, 
-          "Content-Type": "text/xml" 
-        } 
-      }
-    );
+    // Return empty response for status callbacks
+    return telephony.renderResponse([]);
 
   } catch (error) {
     console.error("Webhook error:", error);
-    return new Response(
-      '<?xml version="1.0" encoding="UTF-8"?><Response><Say voice="alice">An error occurred. Goodbye.</Say><Hangup/></Response>',
-      { 
-        headers: { 
-          ...corsHeaders, 
-          "Content-Type": "text/xml" 
-        } 
-      }
-    );
+    return telephony.renderResponse([
+      { type: "say", text: "An error occurred. Goodbye." },
+      { type: "hangup" },
+    ]);
   }
 });
@@ -0,0 +1,85 @@
+-- Durable call queue: batches are dispatched by the call-queue-worker function
+-- instead of one long-running process-batch invocation
+
+-- Allow batches to be paused and record when dispatch started/finished
+ALTER TABLE public.call_batches DROP CONSTRAINT IF EXISTS call_batches_status_check;
+ALTER TABLE public.call_batches
+  ADD CONSTRAINT call_batches_status_check
+  CHECK (status IN ('pending', 'in_progress', 'paused', 'completed', 'cancelled'));
+
+ALTER TABLE public.call_batches
+  ADD COLUMN IF NOT EXISTS max_concurrent_calls INTEGER NOT NULL DEFAULT 3 CHECK (max_concurrent_calls BETWEEN 1 AND 20),
+  ADD COLUMN IF NOT EXISTS calls_per_minute INTEGER NOT NULL DEFAULT 6 CHECK (calls_per_minute BETWEEN 1 AND 60),
+  ADD COLUMN IF NOT EXISTS started_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS completed_at TIMESTAMPTZ;
+
+-- One row per patient call attempt waiting to be (or already) dispatched
+CREATE TABLE public.call_queue (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  batch_id UUID NOT NULL REFERENCES public.call_batches(id) ON DELETE CASCADE,
+  patient_id UUID NOT NULL REFERENCES public.patients(id) ON DELETE CASCADE,
+  call_id UUID REFERENCES public.calls(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'dispatching', 'dispatched', 'failed', 'cancelled')),
+  priority INTEGER NOT NULL DEFAULT 0,
+  attempt_number INTEGER NOT NULL DEFAULT 1,
+  scheduled_for TIMESTAMPTZ NOT NULL DEFAULT now(),
+  locked_at TIMESTAMPTZ,
+  dispatched_at TIMESTAMPTZ,
+  dispatch_errors INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (batch_id, patient_id, attempt_number)
+);
+
+-- Enable RLS: staff can watch the queue, only the service role writes to it
+ALTER TABLE public.call_queue ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view call queue"
+  ON public.call_queue FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE TRIGGER update_call_queue_updated_at
+  BEFORE UPDATE ON public.call_queue
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_call_queue_batch_status ON public.call_queue(batch_id, status);
+CREATE INDEX idx_call_queue_ready ON public.call_queue(scheduled_for, priority) WHERE status = 'queued';
+
+-- Atomically claim the next due queue items for a batch.
+-- SKIP LOCKED lets overlapping worker runs share a batch without double-dialling.
+CREATE OR REPLACE FUNCTION public.claim_call_queue_items(p_batch_id UUID, p_limit INTEGER)
+RETURNS SETOF public.call_queue
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE call_queue q
+  SET status = 'dispatching', locked_at = now()
+  WHERE q.id IN (
+    SELECT id FROM call_queue
+    WHERE batch_id = p_batch_id
+      AND status = 'queued'
+      AND scheduled_for <= now()
+    ORDER BY priority, scheduled_for
+    LIMIT GREATEST(p_limit, 0)
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING q.*;
+END;
+$$;
+
+-- Run the queue worker every minute
+SELECT cron.schedule(
+  'call-queue-worker',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://brukpbahpxhnsjnywywp.supabase.co/functions/v1/call-queue-worker',
+    headers := '{"Content-Type": "application/json"}'::jsonb,
+    body := '{}'::jsonb
+  );
+  $$
+);
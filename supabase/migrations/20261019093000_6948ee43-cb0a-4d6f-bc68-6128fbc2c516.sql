@@ -0,0 +1,71 @@
+-- Practice-wide calling rules used by the call scheduler and initiate-call
+CREATE TABLE public.call_schedule_settings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  quiet_hours_start TIME NOT NULL DEFAULT '20:00',
+  quiet_hours_end TIME NOT NULL DEFAULT '09:00',
+  calling_days INTEGER[] NOT NULL DEFAULT '{1,2,3,4,5}',
+  updated_by UUID REFERENCES auth.users(id),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.call_schedule_settings.quiet_hours_start IS 'UK local time after which no calls are placed';
+COMMENT ON COLUMN public.call_schedule_settings.quiet_hours_end IS 'UK local time before which no calls are placed';
+COMMENT ON COLUMN public.call_schedule_settings.calling_days IS 'ISO weekdays on which calls may be placed (1 = Monday, 7 = Sunday)';
+
+ALTER TABLE public.call_schedule_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view call schedule settings"
+  ON public.call_schedule_settings FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can update call schedule settings"
+  ON public.call_schedule_settings FOR UPDATE
+  TO authenticated
+  USING (has_role(auth.uid(), 'admin'::app_role));
+
+INSERT INTO public.call_schedule_settings (quiet_hours_start, quiet_hours_end, calling_days)
+VALUES ('20:00', '09:00', '{1,2,3,4,5}');
+
+-- Days on which no patient calls may be placed
+CREATE TABLE public.bank_holidays (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  holiday_date DATE NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  region TEXT NOT NULL DEFAULT 'england-and-wales',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.bank_holidays ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view bank holidays"
+  ON public.bank_holidays FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can add bank holidays"
+  ON public.bank_holidays FOR INSERT
+  TO authenticated
+  WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Admins can delete bank holidays"
+  ON public.bank_holidays FOR DELETE
+  TO authenticated
+  USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- England and Wales bank holidays (gov.uk)
+INSERT INTO public.bank_holidays (holiday_date, name) VALUES
+  ('2026-01-01', 'New Year''s Day'),
+  ('2026-04-03', 'Good Friday'),
+  ('2026-04-06', 'Easter Monday'),
+  ('2026-05-04', 'Early May bank holiday'),
+  ('2026-05-25', 'Spring bank holiday'),
+  ('2026-08-31', 'Summer bank holiday'),
+  ('2026-12-25', 'Christmas Day'),
+  ('2026-12-28', 'Boxing Day (substitute day)'),
+  ('2027-01-01', 'New Year''s Day'),
+  ('2027-03-26', 'Good Friday'),
+  ('2027-03-29', 'Easter Monday'),
+  ('2027-05-03', 'Early May bank holiday'),
+  ('2027-05-31', 'Spring bank holiday'),
+  ('2027-08-30', 'Summer bank holiday'),
+  ('2027-12-27', 'Christmas Day (substitute day)'),
+  ('2027-12-28', 'Boxing Day (substitute day)');
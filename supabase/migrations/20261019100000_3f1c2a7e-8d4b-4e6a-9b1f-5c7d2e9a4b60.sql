@@ -0,0 +1,13 @@
+-- Automatic retries for unanswered and failed batch calls.
+-- A retry is a new call_queue row for the same patient with the next attempt_number.
+
+-- Delay before each retry, in minutes. The last value repeats for any further
+-- attempts; retries are always moved into the next permitted calling window.
+ALTER TABLE public.call_batches
+  ADD COLUMN IF NOT EXISTS retry_backoff_minutes INTEGER[] NOT NULL DEFAULT '{120,1440}';
+
+-- Outcome of the previous attempt that caused this queue item to be created
+ALTER TABLE public.call_queue
+  ADD COLUMN IF NOT EXISTS retry_reason TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_calls_batch_patient ON public.calls(batch_id, patient_id);
@@ -0,0 +1,79 @@
+-- Conversation scripts: clinician-defined, versioned question sets that drive
+-- the voice agent's instructions and the transcript extraction schema
+
+CREATE TABLE public.call_scripts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- All versions of one script share a family_id
+  family_id UUID NOT NULL DEFAULT gen_random_uuid(),
+  version INTEGER NOT NULL DEFAULT 1,
+  name TEXT NOT NULL,
+  description TEXT,
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'published', 'archived')),
+  -- Opening purpose given to the voice agent, without patient identifiers
+  purpose_context TEXT,
+  -- Ordered array of questions: { key, prompt, answer_type, min, max, unit, options, required, max_reasks, reask_prompt }
+  questions JSONB NOT NULL DEFAULT '[]'::jsonb,
+  closing_statement TEXT NOT NULL DEFAULT 'Thank you for your time. The practice team will review your answers. Goodbye.',
+  created_by UUID REFERENCES auth.users(id),
+  published_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (family_id, version)
+);
+
+ALTER TABLE public.call_scripts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view call scripts"
+  ON public.call_scripts FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Clinicians can create call scripts"
+  ON public.call_scripts FOR INSERT
+  WITH CHECK (
+    has_role(auth.uid(), 'gp'::app_role)
+    OR has_role(auth.uid(), 'nurse'::app_role)
+    OR has_role(auth.uid(), 'care_home_doctor'::app_role)
+    OR has_role(auth.uid(), 'admin'::app_role)
+  );
+
+-- Published versions are frozen; changes go into a new version
+CREATE POLICY "Clinicians can update draft call scripts"
+  ON public.call_scripts FOR UPDATE
+  USING (
+    status <> 'archived'
+    AND (
+      has_role(auth.uid(), 'gp'::app_role)
+      OR has_role(auth.uid(), 'nurse'::app_role)
+      OR has_role(auth.uid(), 'care_home_doctor'::app_role)
+      OR has_role(auth.uid(), 'admin'::app_role)
+    )
+  );
+
+CREATE POLICY "Clinicians can delete draft call scripts"
+  ON public.call_scripts FOR DELETE
+  USING (
+    status = 'draft'
+    AND (
+      has_role(auth.uid(), 'gp'::app_role)
+      OR has_role(auth.uid(), 'nurse'::app_role)
+      OR has_role(auth.uid(), 'care_home_doctor'::app_role)
+      OR has_role(auth.uid(), 'admin'::app_role)
+    )
+  );
+
+CREATE TRIGGER update_call_scripts_updated_at
+  BEFORE UPDATE ON public.call_scripts
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_call_scripts_family ON public.call_scripts(family_id, version DESC);
+
+-- Batches pick a specific script version; each call records the version it used
+ALTER TABLE public.call_batches
+  ADD COLUMN IF NOT EXISTS script_id UUID REFERENCES public.call_scripts(id) ON DELETE SET NULL;
+
+ALTER TABLE public.calls
+  ADD COLUMN IF NOT EXISTS script_id UUID REFERENCES public.call_scripts(id) ON DELETE SET NULL;
+
+-- Answers to script questions that have no dedicated call_responses column
+ALTER TABLE public.call_responses
+  ADD COLUMN IF NOT EXISTS script_answers JSONB;
@@ -0,0 +1,34 @@
+-- Coded observations collected on calls, one row per data item keyed by SNOMED
+-- code. Which items a call collects follows the batch's target QOF indicators,
+-- so new indicators need no new call_responses columns.
+
+CREATE TABLE public.patient_observations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  patient_id UUID NOT NULL REFERENCES public.patients(id) ON DELETE CASCADE,
+  call_id UUID REFERENCES public.calls(id) ON DELETE SET NULL,
+  call_response_id UUID REFERENCES public.call_responses(id) ON DELETE CASCADE,
+  batch_id UUID REFERENCES public.call_batches(id) ON DELETE SET NULL,
+  snomed_code TEXT NOT NULL,
+  -- Extraction field the value came from, e.g. 'fev1_litres'
+  observation_key TEXT NOT NULL,
+  display_name TEXT NOT NULL,
+  value_numeric NUMERIC,
+  value_boolean BOOLEAN,
+  -- SNOMED code of a coded answer, e.g. ex-smoker
+  value_code TEXT,
+  value_text TEXT,
+  unit TEXT,
+  qof_indicators TEXT[] NOT NULL DEFAULT '{}',
+  source TEXT NOT NULL DEFAULT 'call',
+  recorded_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.patient_observations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view patient observations"
+  ON public.patient_observations FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE INDEX idx_patient_observations_patient ON public.patient_observations(patient_id, snomed_code, recorded_at DESC);
+CREATE INDEX idx_patient_observations_response ON public.patient_observations(call_response_id);
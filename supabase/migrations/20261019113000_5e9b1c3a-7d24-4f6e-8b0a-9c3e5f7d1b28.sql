@@ -0,0 +1,14 @@
+-- Evidence for AI-extracted values: per-field confidence (0-1) and the
+-- transcript excerpt each value came from, shown to clinicians on verification
+
+ALTER TABLE public.call_responses
+  ADD COLUMN extraction_evidence JSONB,
+  -- Lowest field confidence, so the verification queue can put doubtful responses first
+  ADD COLUMN min_confidence NUMERIC;
+
+ALTER TABLE public.patient_observations
+  ADD COLUMN confidence NUMERIC,
+  ADD COLUMN source_quote TEXT;
+
+CREATE INDEX idx_call_responses_verification_queue
+  ON public.call_responses(verification_status, min_confidence);
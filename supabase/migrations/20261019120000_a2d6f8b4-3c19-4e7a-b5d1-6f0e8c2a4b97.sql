@@ -0,0 +1,11 @@
+-- Values held back by the plausibility checks (unparseable, out of range,
+-- systolic not above diastolic, impossible BMI), for re-ask or clinical review
+
+ALTER TABLE public.call_responses
+  -- [{ field, value, raw, reason, action: 'reask' | 'review' }]
+  ADD COLUMN plausibility_flags JSONB,
+  ADD COLUMN needs_review BOOLEAN NOT NULL DEFAULT false;
+
+DROP INDEX IF EXISTS public.idx_call_responses_verification_queue;
+CREATE INDEX idx_call_responses_verification_queue
+  ON public.call_responses(verification_status, needs_review DESC, min_confidence);
@@ -0,0 +1,10 @@
+-- Live progress of in-flight calls for the batch progress board.
+-- calls.status stays 'in_progress' for the whole call; live_stage says where in
+-- the call the patient is, and is cleared when the call ends.
+
+ALTER TABLE public.calls
+  ADD COLUMN live_stage TEXT CHECK (live_stage IN ('dialling', 'ringing', 'consent', 'conversation'));
+
+-- Stream queue changes too, so the board sees calls queued, cancelled and retried
+ALTER TABLE public.call_queue REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.call_queue;
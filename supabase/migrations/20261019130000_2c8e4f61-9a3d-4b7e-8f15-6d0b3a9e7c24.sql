@@ -0,0 +1,20 @@
+-- Inbound callbacks: a patient ringing the practice back after a missed batch call.
+-- The callback is its own calls row in the original batch, pointing at the missed call.
+
+ALTER TABLE public.calls
+  ADD COLUMN direction TEXT NOT NULL DEFAULT 'outbound' CHECK (direction IN ('outbound', 'inbound')),
+  ADD COLUMN callback_of UUID REFERENCES public.calls(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_calls_callback_of ON public.calls(callback_of) WHERE callback_of IS NOT NULL;
+
+-- Caller ID lookup for inbound calls
+CREATE INDEX IF NOT EXISTS idx_patients_phone_number ON public.patients(phone_number);
+
+-- Editable voice messages for the callback flow
+INSERT INTO public.consent_settings (message_type, message_text)
+SELECT 'callback_greeting', 'Hello, thank you for calling your GP surgery back. We tried to reach you recently to collect some health information as part of your ongoing care.'
+WHERE NOT EXISTS (SELECT 1 FROM public.consent_settings WHERE message_type = 'callback_greeting');
+
+INSERT INTO public.consent_settings (message_type, message_text)
+SELECT 'callback_unmatched', 'Thank you for calling. We couldn''t find a recent call from the surgery to this number. If you''d like to speak with us, please call the surgery''s main line. Goodbye.'
+WHERE NOT EXISTS (SELECT 1 FROM public.consent_settings WHERE message_type = 'callback_unmatched');
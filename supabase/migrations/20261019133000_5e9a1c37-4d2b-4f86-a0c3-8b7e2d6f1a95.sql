@@ -0,0 +1,15 @@
+-- Shared clinical rules: tasks and alerts record which rule (and version) raised them,
+-- so a task and its matching alert can be traced back to the same rule evaluation.
+
+ALTER TABLE public.meditask_tasks
+  ADD COLUMN rule_id TEXT,
+  ADD COLUMN rule_version INTEGER;
+
+ALTER TABLE public.health_alerts
+  ADD COLUMN rule_id TEXT,
+  ADD COLUMN rule_version INTEGER,
+  ADD COLUMN priority TEXT CHECK (priority IN ('critical', 'high', 'medium', 'low')),
+  ADD COLUMN action_required TEXT,
+  ADD COLUMN due_within_days INTEGER;
+
+CREATE INDEX idx_meditask_tasks_patient_rule ON public.meditask_tasks (patient_id, rule_id);
@@ -0,0 +1,146 @@
+-- Practice overrides for the shared clinical rules (_shared/clinical-rules.ts).
+-- Unset keys fall back to the compile-time defaults.
+CREATE TABLE public.clinical_rule_settings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  thresholds JSONB NOT NULL DEFAULT '{}'::jsonb,
+  disabled_rules TEXT[] NOT NULL DEFAULT '{}',
+  due_within_days JSONB NOT NULL DEFAULT '{}'::jsonb,
+  updated_by UUID REFERENCES auth.users(id),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.clinical_rule_settings.thresholds IS 'Threshold key (e.g. bpTargetSystolic) to practice value';
+COMMENT ON COLUMN public.clinical_rule_settings.disabled_rules IS 'Rule ids that are not evaluated';
+COMMENT ON COLUMN public.clinical_rule_settings.due_within_days IS 'Rule id to due window in days';
+
+ALTER TABLE public.clinical_rule_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view clinical rule settings"
+  ON public.clinical_rule_settings FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+INSERT INTO public.clinical_rule_settings DEFAULT VALUES;
+
+-- One row per changed setting, written only by save_clinical_rule_settings
+CREATE TABLE public.clinical_rule_setting_changes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  setting_type TEXT NOT NULL CHECK (setting_type IN ('threshold', 'rule_enabled', 'due_within_days')),
+  setting_key TEXT NOT NULL,
+  old_value JSONB,
+  new_value JSONB,
+  reason TEXT,
+  changed_by UUID NOT NULL REFERENCES auth.users(id),
+  changed_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.clinical_rule_setting_changes.old_value IS 'NULL when the default applied before the change';
+COMMENT ON COLUMN public.clinical_rule_setting_changes.new_value IS 'NULL when the change reset the setting to its default';
+
+CREATE INDEX idx_clinical_rule_setting_changes_changed_at ON public.clinical_rule_setting_changes (changed_at DESC);
+
+ALTER TABLE public.clinical_rule_setting_changes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Clinical leads and Caldicott Guardians can view rule setting changes"
+  ON public.clinical_rule_setting_changes FOR SELECT
+  TO authenticated
+  USING (
+    has_role(auth.uid(), 'gp'::app_role)
+    OR has_role(auth.uid(), 'admin'::app_role)
+    OR has_role(auth.uid(), 'caldicott_guardian'::app_role)
+  );
+
+-- Apply a set of changes and record each one with its author.
+-- p_changes: [{ "type": "threshold" | "rule_enabled" | "due_within_days", "key": text, "value": jsonb | null }]
+-- A null value resets a threshold or due window to its default.
+CREATE OR REPLACE FUNCTION public.save_clinical_rule_settings(
+    p_changes JSONB,
+    p_reason TEXT DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID;
+    v_settings public.clinical_rule_settings%ROWTYPE;
+    v_change JSONB;
+    v_type TEXT;
+    v_key TEXT;
+    v_value JSONB;
+    v_old JSONB;
+    v_count INTEGER := 0;
+BEGIN
+    v_user_id := auth.uid();
+
+    IF NOT (public.has_role(v_user_id, 'gp') OR public.has_role(v_user_id, 'admin')) THEN
+        RAISE EXCEPTION 'Only GPs and admins can change clinical rule settings';
+    END IF;
+
+    SELECT * INTO v_settings FROM public.clinical_rule_settings LIMIT 1 FOR UPDATE;
+    IF NOT FOUND THEN
+        INSERT INTO public.clinical_rule_settings DEFAULT VALUES RETURNING * INTO v_settings;
+    END IF;
+
+    FOR v_change IN SELECT * FROM jsonb_array_elements(p_changes)
+    LOOP
+        v_type := v_change->>'type';
+        v_key := v_change->>'key';
+        v_value := NULLIF(v_change->'value', 'null'::jsonb);
+
+        IF v_type = 'threshold' THEN
+            IF v_value IS NOT NULL AND (jsonb_typeof(v_value) <> 'number' OR v_value::numeric <= 0) THEN
+                RAISE EXCEPTION 'Threshold % must be a positive number', v_key;
+            END IF;
+            v_old := v_settings.thresholds->v_key;
+            v_settings.thresholds := CASE WHEN v_value IS NULL
+                THEN v_settings.thresholds - v_key
+                ELSE v_settings.thresholds || jsonb_build_object(v_key, v_value) END;
+        ELSIF v_type = 'due_within_days' THEN
+            IF v_value IS NOT NULL AND (jsonb_typeof(v_value) <> 'number' OR v_value::numeric < 1) THEN
+                RAISE EXCEPTION 'Due window for % must be at least one day', v_key;
+            END IF;
+            v_old := v_settings.due_within_days->v_key;
+            v_settings.due_within_days := CASE WHEN v_value IS NULL
+                THEN v_settings.due_within_days - v_key
+                ELSE v_settings.due_within_days || jsonb_build_object(v_key, v_value) END;
+        ELSIF v_type = 'rule_enabled' THEN
+            IF v_value IS NULL OR jsonb_typeof(v_value) <> 'boolean' THEN
+                RAISE EXCEPTION 'Rule % must be enabled or disabled', v_key;
+            END IF;
+            v_old := to_jsonb(NOT (v_key = ANY(v_settings.disabled_rules)));
+            v_settings.disabled_rules := CASE WHEN v_value::boolean
+                THEN array_remove(v_settings.disabled_rules, v_key)
+                ELSE array_append(array_remove(v_settings.disabled_rules, v_key), v_key) END;
+        ELSE
+            RAISE EXCEPTION 'Unknown clinical rule setting type: %', v_type;
+        END IF;
+
+        IF v_old IS DISTINCT FROM v_value THEN
+            INSERT INTO public.clinical_rule_setting_changes (setting_type, setting_key, old_value, new_value, reason, changed_by)
+            VALUES (v_type, v_key, v_old, v_value, p_reason, v_user_id);
+            v_count := v_count + 1;
+        END IF;
+    END LOOP;
+
+    UPDATE public.clinical_rule_settings
+    SET
+        thresholds = v_settings.thresholds,
+        disabled_rules = v_settings.disabled_rules,
+        due_within_days = v_settings.due_within_days,
+        updated_by = v_user_id,
+        updated_at = now()
+    WHERE id = v_settings.id;
+
+    INSERT INTO public.audit_logs (action, entity_type, entity_id, user_id, details)
+    VALUES (
+        'update_clinical_rule_settings',
+        'clinical_rule_settings',
+        v_settings.id,
+        v_user_id,
+        jsonb_build_object('changes', v_count, 'reason', p_reason)
+    );
+
+    RETURN v_count;
+END;
+$$;
@@ -0,0 +1,10 @@
+-- Codes for the coded EMIS/SystmOne export (one row per observation).
+-- Smoking status is filed as the status concept itself.
+INSERT INTO public.emis_read_codes (metric_type, read_code, snomed_code, description) VALUES
+  ('blood_pressure_systolic', '2469.', '271649006', 'Systolic blood pressure'),
+  ('blood_pressure_diastolic', '246A.', '271650006', 'Diastolic blood pressure'),
+  ('pulse_rate', '242..', '78564009', 'Pulse rate'),
+  ('never_smoked', '1371.', '266919005', 'Never smoked tobacco'),
+  ('ex_smoker', '137S.', '8517006', 'Ex-smoker'),
+  ('current_smoker', '137R.', '77176002', 'Current smoker')
+ON CONFLICT (metric_type) DO NOTHING;
@@ -0,0 +1,55 @@
+-- History of changes to patients.medications, so trends can be read against
+-- treatment changes. Written by trigger whenever the list changes.
+CREATE TABLE public.patient_medication_changes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  patient_id UUID NOT NULL REFERENCES public.patients(id) ON DELETE CASCADE,
+  previous_medications TEXT[] NOT NULL DEFAULT '{}',
+  current_medications TEXT[] NOT NULL DEFAULT '{}',
+  added TEXT[] NOT NULL DEFAULT '{}',
+  removed TEXT[] NOT NULL DEFAULT '{}',
+  changed_by UUID REFERENCES auth.users(id),
+  changed_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_patient_medication_changes_patient ON public.patient_medication_changes (patient_id, changed_at);
+
+ALTER TABLE public.patient_medication_changes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view medication changes"
+  ON public.patient_medication_changes FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE OR REPLACE FUNCTION public.record_patient_medication_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_previous TEXT[] := COALESCE(OLD.medications, '{}');
+    v_current TEXT[] := COALESCE(NEW.medications, '{}');
+    v_added TEXT[];
+    v_removed TEXT[];
+BEGIN
+    SELECT COALESCE(array_agg(m), '{}') INTO v_added
+    FROM unnest(v_current) AS m WHERE NOT m = ANY(v_previous);
+    SELECT COALESCE(array_agg(m), '{}') INTO v_removed
+    FROM unnest(v_previous) AS m WHERE NOT m = ANY(v_current);
+
+    -- Reordering the list is not a change
+    IF cardinality(v_added) = 0 AND cardinality(v_removed) = 0 THEN
+        RETURN NEW;
+    END IF;
+
+    INSERT INTO public.patient_medication_changes (patient_id, previous_medications, current_medications, added, removed, changed_by)
+    VALUES (NEW.id, v_previous, v_current, v_added, v_removed, auth.uid());
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_patient_medication_change
+  AFTER UPDATE OF medications ON public.patients
+  FOR EACH ROW
+  WHEN (OLD.medications IS DISTINCT FROM NEW.medications)
+  EXECUTE FUNCTION public.record_patient_medication_change();
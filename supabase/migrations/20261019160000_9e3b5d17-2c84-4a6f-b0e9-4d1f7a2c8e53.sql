@@ -0,0 +1,517 @@
+-- Clinical verification: dual sign-off for critical values, audited amendments
+-- of single extracted values, and bulk verification of low-risk responses.
+-- Every step is written to call_audit_log with the clinician as actor.
+
+-- Practice limits at or beyond which a response needs a second clinician.
+-- Keys are '<observation key>.high' (value >= limit) or '<observation key>.low' (value <= limit).
+ALTER TABLE public.clinical_rule_settings
+  ADD COLUMN dual_signoff_limits JSONB NOT NULL DEFAULT '{
+    "blood_pressure_systolic.high": 180,
+    "blood_pressure_diastolic.high": 120,
+    "pulse_rate.high": 120,
+    "pulse_rate.low": 40
+  }'::jsonb;
+
+COMMENT ON COLUMN public.clinical_rule_settings.dual_signoff_limits IS 'Observation key and direction (e.g. blood_pressure_systolic.high) to the value needing a second sign-off';
+
+ALTER TABLE public.clinical_rule_setting_changes
+  DROP CONSTRAINT clinical_rule_setting_changes_setting_type_check,
+  ADD CONSTRAINT clinical_rule_setting_changes_setting_type_check
+    CHECK (setting_type IN ('threshold', 'rule_enabled', 'due_within_days', 'dual_signoff'));
+
+-- First sign-off of a response holding critical values; verified_by is the countersigning clinician
+ALTER TABLE public.call_responses
+  ADD COLUMN first_signoff_by UUID REFERENCES auth.users(id),
+  ADD COLUMN first_signoff_at TIMESTAMPTZ,
+  ADD COLUMN critical_values JSONB;
+
+COMMENT ON COLUMN public.call_responses.verification_status IS 'unverified, awaiting_second_signoff, verified or rejected';
+COMMENT ON COLUMN public.call_responses.critical_values IS 'Values that needed a second sign-off, as found at the first sign-off';
+
+-- One row per amended value. original_value is the value before this amendment,
+-- so the earliest row for a field holds what was extracted from the call.
+CREATE TABLE public.call_response_amendments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  call_response_id UUID NOT NULL REFERENCES public.call_responses(id) ON DELETE CASCADE,
+  field TEXT NOT NULL,
+  original_value NUMERIC NOT NULL,
+  amended_value NUMERIC NOT NULL,
+  reason TEXT NOT NULL,
+  amended_by UUID NOT NULL REFERENCES auth.users(id),
+  amended_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_call_response_amendments_response ON public.call_response_amendments (call_response_id, amended_at);
+
+ALTER TABLE public.call_response_amendments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view call response amendments"
+  ON public.call_response_amendments FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+-- Accept dual sign-off limits in the audited settings save
+CREATE OR REPLACE FUNCTION public.save_clinical_rule_settings(
+    p_changes JSONB,
+    p_reason TEXT DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID;
+    v_settings public.clinical_rule_settings%ROWTYPE;
+    v_change JSONB;
+    v_type TEXT;
+    v_key TEXT;
+    v_value JSONB;
+    v_old JSONB;
+    v_count INTEGER := 0;
+BEGIN
+    v_user_id := auth.uid();
+
+    IF NOT (public.has_role(v_user_id, 'gp') OR public.has_role(v_user_id, 'admin')) THEN
+        RAISE EXCEPTION 'Only GPs and admins can change clinical rule settings';
+    END IF;
+
+    SELECT * INTO v_settings FROM public.clinical_rule_settings LIMIT 1 FOR UPDATE;
+    IF NOT FOUND THEN
+        INSERT INTO public.clinical_rule_settings DEFAULT VALUES RETURNING * INTO v_settings;
+    END IF;
+
+    FOR v_change IN SELECT * FROM jsonb_array_elements(p_changes)
+    LOOP
+        v_type := v_change->>'type';
+        v_key := v_change->>'key';
+        v_value := NULLIF(v_change->'value', 'null'::jsonb);
+
+        IF v_type = 'threshold' THEN
+            IF v_value IS NOT NULL AND (jsonb_typeof(v_value) <> 'number' OR v_value::numeric <= 0) THEN
+                RAISE EXCEPTION 'Threshold % must be a positive number', v_key;
+            END IF;
+            v_old := v_settings.thresholds->v_key;
+            v_settings.thresholds := CASE WHEN v_value IS NULL
+                THEN v_settings.thresholds - v_key
+                ELSE v_settings.thresholds || jsonb_build_object(v_key, v_value) END;
+        ELSIF v_type = 'due_within_days' THEN
+            IF v_value IS NOT NULL AND (jsonb_typeof(v_value) <> 'number' OR v_value::numeric < 1) THEN
+                RAISE EXCEPTION 'Due window for % must be at least one day', v_key;
+            END IF;
+            v_old := v_settings.due_within_days->v_key;
+            v_settings.due_within_days := CASE WHEN v_value IS NULL
+                THEN v_settings.due_within_days - v_key
+                ELSE v_settings.due_within_days || jsonb_build_object(v_key, v_value) END;
+        ELSIF v_type = 'rule_enabled' THEN
+            IF v_value IS NULL OR jsonb_typeof(v_value) <> 'boolean' THEN
+                RAISE EXCEPTION 'Rule % must be enabled or disabled', v_key;
+            END IF;
+            v_old := to_jsonb(NOT (v_key = ANY(v_settings.disabled_rules)));
+            v_settings.disabled_rules := CASE WHEN v_value::boolean
+                THEN array_remove(v_settings.disabled_rules, v_key)
+                ELSE array_append(array_remove(v_settings.disabled_rules, v_key), v_key) END;
+        ELSIF v_type = 'dual_signoff' THEN
+            IF v_key !~ '^[a-z0-9_]+\.(high|low)$' THEN
+                RAISE EXCEPTION 'Unknown dual sign-off limit: %', v_key;
+            END IF;
+            IF v_value IS NOT NULL AND (jsonb_typeof(v_value) <> 'number' OR v_value::numeric <= 0) THEN
+                RAISE EXCEPTION 'Dual sign-off limit % must be a positive number', v_key;
+            END IF;
+            -- A null value removes the limit: there is no default to fall back to
+            v_old := v_settings.dual_signoff_limits->v_key;
+            v_settings.dual_signoff_limits := CASE WHEN v_value IS NULL
+                THEN v_settings.dual_signoff_limits - v_key
+                ELSE v_settings.dual_signoff_limits || jsonb_build_object(v_key, v_value) END;
+        ELSE
+            RAISE EXCEPTION 'Unknown clinical rule setting type: %', v_type;
+        END IF;
+
+        IF v_old IS DISTINCT FROM v_value THEN
+            INSERT INTO public.clinical_rule_setting_changes (setting_type, setting_key, old_value, new_value, reason, changed_by)
+            VALUES (v_type, v_key, v_old, v_value, p_reason, v_user_id);
+            v_count := v_count + 1;
+        END IF;
+    END LOOP;
+
+    UPDATE public.clinical_rule_settings
+    SET
+        thresholds = v_settings.thresholds,
+        disabled_rules = v_settings.disabled_rules,
+        due_within_days = v_settings.due_within_days,
+        dual_signoff_limits = v_settings.dual_signoff_limits,
+        updated_by = v_user_id,
+        updated_at = now()
+    WHERE id = v_settings.id;
+
+    INSERT INTO public.audit_logs (action, entity_type, entity_id, user_id, details)
+    VALUES (
+        'update_clinical_rule_settings',
+        'clinical_rule_settings',
+        v_settings.id,
+        v_user_id,
+        jsonb_build_object('changes', v_count, 'reason', p_reason)
+    );
+
+    RETURN v_count;
+END;
+$$;
+
+-- Values on a response at or beyond the practice dual sign-off limits:
+-- [{ "field", "bound": "high" | "low", "value", "limit" }]
+CREATE OR REPLACE FUNCTION public.call_response_critical_values(p_response_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_response JSONB;
+    v_limits JSONB;
+    v_limit RECORD;
+    v_field TEXT;
+    v_bound TEXT;
+    v_value NUMERIC;
+    v_critical JSONB := '[]'::jsonb;
+BEGIN
+    SELECT to_jsonb(r) INTO v_response FROM public.call_responses r WHERE r.id = p_response_id;
+    SELECT dual_signoff_limits INTO v_limits FROM public.clinical_rule_settings LIMIT 1;
+
+    FOR v_limit IN SELECT key, value FROM jsonb_each(COALESCE(v_limits, '{}'::jsonb)) ORDER BY key
+    LOOP
+        v_field := split_part(v_limit.key, '.', 1);
+        v_bound := split_part(v_limit.key, '.', 2);
+
+        -- Column values first, then coded observations such as HbA1c or FEV1
+        v_value := CASE WHEN jsonb_typeof(v_response->v_field) = 'number' THEN (v_response->>v_field)::numeric END;
+        IF v_value IS NULL THEN
+            SELECT value_numeric INTO v_value
+            FROM public.patient_observations
+            WHERE call_response_id = p_response_id AND observation_key = v_field AND value_numeric IS NOT NULL
+            ORDER BY created_at DESC
+            LIMIT 1;
+        END IF;
+
+        IF v_value IS NOT NULL AND (
+            (v_bound = 'high' AND v_value >= v_limit.value::numeric)
+            OR (v_bound = 'low' AND v_value <= v_limit.value::numeric)
+        ) THEN
+            v_critical := v_critical || jsonb_build_array(jsonb_build_object(
+                'field', v_field, 'bound', v_bound, 'value', v_value, 'limit', v_limit.value
+            ));
+        END IF;
+    END LOOP;
+
+    RETURN v_critical;
+END;
+$$;
+
+-- Sign off a response. Responses with critical values are held at
+-- awaiting_second_signoff until a different clinician countersigns.
+-- Returns the new verification status.
+DROP FUNCTION IF EXISTS public.verify_call_response(UUID, UUID, TEXT);
+
+CREATE FUNCTION public.verify_call_response(
+    p_response_id UUID,
+    p_verified_by UUID,
+    p_clinical_notes TEXT DEFAULT NULL
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_response public.call_responses%ROWTYPE;
+    v_critical JSONB;
+BEGIN
+    IF p_verified_by IS DISTINCT FROM auth.uid() THEN
+        RAISE EXCEPTION 'Sign-off must be recorded against the signed-in clinician';
+    END IF;
+
+    SELECT * INTO v_response FROM public.call_responses WHERE id = p_response_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Call response not found';
+    END IF;
+
+    IF v_response.verification_status = 'unverified' THEN
+        v_critical := public.call_response_critical_values(p_response_id);
+
+        IF jsonb_array_length(v_critical) > 0 THEN
+            UPDATE public.call_responses
+            SET
+                verification_status = 'awaiting_second_signoff',
+                first_signoff_by = p_verified_by,
+                first_signoff_at = now(),
+                critical_values = v_critical,
+                clinical_notes = COALESCE(p_clinical_notes, clinical_notes)
+            WHERE id = p_response_id;
+
+            INSERT INTO public.call_audit_log (call_id, action, actor, details)
+            VALUES (
+                v_response.call_id,
+                'clinical_first_signoff',
+                p_verified_by::text,
+                jsonb_build_object(
+                    'response_id', p_response_id,
+                    'collected_at', v_response.collected_at,
+                    'critical_values', v_critical,
+                    'notes', p_clinical_notes
+                )
+            );
+
+            RETURN 'awaiting_second_signoff';
+        END IF;
+    ELSIF v_response.verification_status = 'awaiting_second_signoff' THEN
+        IF v_response.first_signoff_by = p_verified_by THEN
+            RAISE EXCEPTION 'Critical values must be countersigned by a second clinician';
+        END IF;
+    ELSE
+        RAISE EXCEPTION 'This response has already been %', v_response.verification_status;
+    END IF;
+
+    UPDATE public.call_responses
+    SET
+        verification_status = 'verified',
+        verified_by = p_verified_by,
+        verified_at = now(),
+        clinical_notes = COALESCE(p_clinical_notes, clinical_notes)
+    WHERE id = p_response_id;
+
+    INSERT INTO public.call_audit_log (call_id, action, actor, details)
+    VALUES (
+        v_response.call_id,
+        CASE WHEN v_response.verification_status = 'awaiting_second_signoff'
+            THEN 'clinical_second_signoff' ELSE 'clinical_verification' END,
+        p_verified_by::text,
+        jsonb_build_object(
+            'response_id', p_response_id,
+            'collected_at', v_response.collected_at,
+            'first_signoff_by', v_response.first_signoff_by,
+            'notes', p_clinical_notes
+        )
+    );
+
+    RETURN 'verified';
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reject_call_response(
+    p_response_id UUID,
+    p_rejected_by UUID,
+    p_rejection_reason TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_response public.call_responses%ROWTYPE;
+BEGIN
+    IF p_rejected_by IS DISTINCT FROM auth.uid() THEN
+        RAISE EXCEPTION 'Rejection must be recorded against the signed-in clinician';
+    END IF;
+
+    SELECT * INTO v_response FROM public.call_responses WHERE id = p_response_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RETURN FALSE;
+    END IF;
+
+    IF v_response.verification_status NOT IN ('unverified', 'awaiting_second_signoff') THEN
+        RAISE EXCEPTION 'This response has already been %', v_response.verification_status;
+    END IF;
+
+    UPDATE public.call_responses
+    SET
+        verification_status = 'rejected',
+        verified_by = p_rejected_by,
+        verified_at = now(),
+        clinical_notes = p_rejection_reason
+    WHERE id = p_response_id;
+
+    INSERT INTO public.call_audit_log (call_id, action, actor, details)
+    VALUES (
+        v_response.call_id,
+        'clinical_rejection',
+        p_rejected_by::text,
+        jsonb_build_object(
+            'response_id', p_response_id,
+            'collected_at', v_response.collected_at,
+            'stage', v_response.verification_status,
+            'reason', p_rejection_reason
+        )
+    );
+
+    RETURN TRUE;
+END;
+$$;
+
+-- Correct one numeric value extracted from a call, keeping the original in
+-- call_response_amendments. p_field is a call_responses column or the
+-- observation_key of a numeric observation recorded for the response.
+CREATE OR REPLACE FUNCTION public.amend_call_response_value(
+    p_response_id UUID,
+    p_field TEXT,
+    p_value NUMERIC,
+    p_reason TEXT
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID;
+    v_response public.call_responses%ROWTYPE;
+    v_old NUMERIC;
+    v_new NUMERIC;
+    v_amendment_id UUID;
+BEGIN
+    v_user_id := auth.uid();
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    IF COALESCE(trim(p_reason), '') = '' THEN
+        RAISE EXCEPTION 'A reason is required to amend a value';
+    END IF;
+
+    IF p_value IS NULL OR p_value < 0 THEN
+        RAISE EXCEPTION 'The amended value must be zero or more';
+    END IF;
+
+    SELECT * INTO v_response FROM public.call_responses WHERE id = p_response_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Call response not found';
+    END IF;
+
+    IF v_response.verification_status NOT IN ('unverified', 'awaiting_second_signoff') THEN
+        RAISE EXCEPTION 'Only responses awaiting verification can be amended';
+    END IF;
+
+    IF p_field IN ('blood_pressure_systolic', 'blood_pressure_diastolic', 'pulse_rate', 'weight_kg', 'height_cm', 'alcohol_units_per_week') THEN
+        v_old := (to_jsonb(v_response)->>p_field)::numeric;
+        IF v_old IS NULL THEN
+            RAISE EXCEPTION 'No % was extracted from this call', p_field;
+        END IF;
+
+        -- Whole-number columns round the value; the stored value is the one recorded
+        EXECUTE format('UPDATE public.call_responses SET %I = $1 WHERE id = $2 RETURNING %I', p_field, p_field)
+            INTO v_new USING p_value, p_response_id;
+    ELSE
+        SELECT value_numeric INTO v_old
+        FROM public.patient_observations
+        WHERE call_response_id = p_response_id AND observation_key = p_field AND value_numeric IS NOT NULL
+        LIMIT 1;
+        IF v_old IS NULL THEN
+            RAISE EXCEPTION 'No numeric % was recorded for this call', p_field;
+        END IF;
+        v_new := p_value;
+    END IF;
+
+    IF v_new = v_old THEN
+        RAISE EXCEPTION 'The amended value is the same as the current value';
+    END IF;
+
+    UPDATE public.patient_observations
+    SET value_numeric = v_new
+    WHERE call_response_id = p_response_id AND observation_key = p_field;
+
+    INSERT INTO public.call_response_amendments (call_response_id, field, original_value, amended_value, reason, amended_by)
+    VALUES (p_response_id, p_field, v_old, v_new, trim(p_reason), v_user_id)
+    RETURNING id INTO v_amendment_id;
+
+    -- A first sign-off covered the values as they were, so it no longer stands
+    IF v_response.verification_status = 'awaiting_second_signoff' THEN
+        UPDATE public.call_responses
+        SET verification_status = 'unverified', first_signoff_by = NULL, first_signoff_at = NULL, critical_values = NULL
+        WHERE id = p_response_id;
+    END IF;
+
+    INSERT INTO public.call_audit_log (call_id, action, actor, details)
+    VALUES (
+        v_response.call_id,
+        'clinical_amendment',
+        v_user_id::text,
+        jsonb_build_object(
+            'response_id', p_response_id,
+            'amendment_id', v_amendment_id,
+            'field', p_field,
+            'from', v_old,
+            'to', v_new,
+            'reason', trim(p_reason),
+            'first_signoff_withdrawn', v_response.verification_status = 'awaiting_second_signoff'
+        )
+    );
+
+    RETURN v_amendment_id;
+END;
+$$;
+
+-- Verify several responses at once. Only low-risk responses are verified:
+-- nothing held back for review, every value extracted with at least 80%
+-- confidence and no value needing a second sign-off. Others are skipped.
+-- Returns the number verified.
+CREATE OR REPLACE FUNCTION public.bulk_verify_call_responses(
+    p_response_ids UUID[],
+    p_clinical_notes TEXT DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID;
+    v_response public.call_responses%ROWTYPE;
+    v_count INTEGER := 0;
+BEGIN
+    v_user_id := auth.uid();
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    FOR v_response IN
+        SELECT * FROM public.call_responses
+        WHERE id = ANY(p_response_ids)
+        ORDER BY id
+        FOR UPDATE
+    LOOP
+        IF v_response.verification_status <> 'unverified'
+            OR v_response.needs_review
+            OR COALESCE(jsonb_array_length(v_response.plausibility_flags), 0) > 0
+            OR v_response.min_confidence IS NULL
+            OR v_response.min_confidence < 0.8
+            OR jsonb_array_length(public.call_response_critical_values(v_response.id)) > 0
+        THEN
+            CONTINUE;
+        END IF;
+
+        UPDATE public.call_responses
+        SET
+            verification_status = 'verified',
+            verified_by = v_user_id,
+            verified_at = now(),
+            clinical_notes = COALESCE(p_clinical_notes, clinical_notes)
+        WHERE id = v_response.id;
+
+        INSERT INTO public.call_audit_log (call_id, action, actor, details)
+        VALUES (
+            v_response.call_id,
+            'clinical_bulk_verification',
+            v_user_id::text,
+            jsonb_build_object(
+                'response_id', v_response.id,
+                'collected_at', v_response.collected_at,
+                'batch_size', cardinality(p_response_ids),
+                'notes', p_clinical_notes
+            )
+        );
+
+        v_count := v_count + 1;
+    END LOOP;
+
+    RETURN v_count;
+END;
+$$;
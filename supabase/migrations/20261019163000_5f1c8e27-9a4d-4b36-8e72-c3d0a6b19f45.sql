@@ -0,0 +1,274 @@
+-- Escalation pathway for critical health alerts: a critical alert is assigned to
+-- the on-duty clinician and must be acknowledged within the practice deadline,
+-- otherwise it escalates to a second clinician by in-app notification and email.
+
+-- Who receives critical alerts, and who is escalated to when they are not acknowledged
+CREATE TABLE public.clinician_duty_rota (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  duty_role TEXT NOT NULL CHECK (duty_role IN ('primary', 'backup')),
+  starts_at TIMESTAMPTZ NOT NULL,
+  ends_at TIMESTAMPTZ NOT NULL,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (ends_at > starts_at)
+);
+
+CREATE INDEX idx_clinician_duty_rota_period ON public.clinician_duty_rota(duty_role, starts_at, ends_at);
+
+ALTER TABLE public.clinician_duty_rota ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view the duty rota"
+  ON public.clinician_duty_rota FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "GPs and admins can add duty shifts"
+  ON public.clinician_duty_rota FOR INSERT
+  TO authenticated
+  WITH CHECK (has_role(auth.uid(), 'gp'::app_role) OR has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "GPs and admins can remove duty shifts"
+  ON public.clinician_duty_rota FOR DELETE
+  TO authenticated
+  USING (has_role(auth.uid(), 'gp'::app_role) OR has_role(auth.uid(), 'admin'::app_role));
+
+ALTER TABLE public.health_alerts
+  ADD COLUMN assigned_to UUID REFERENCES auth.users(id),
+  ADD COLUMN assigned_at TIMESTAMPTZ,
+  ADD COLUMN ack_due_at TIMESTAMPTZ,
+  ADD COLUMN escalated_to UUID REFERENCES auth.users(id),
+  ADD COLUMN escalated_at TIMESTAMPTZ,
+  ADD COLUMN escalation_level INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX idx_health_alerts_ack_due ON public.health_alerts(ack_due_at)
+  WHERE acknowledged_at IS NULL AND escalation_level = 0;
+
+-- Every step of an alert's escalation, in order
+CREATE TABLE public.alert_escalation_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  alert_id UUID NOT NULL REFERENCES public.health_alerts(id) ON DELETE CASCADE,
+  event TEXT NOT NULL CHECK (event IN ('assigned', 'unassigned', 'escalated', 'escalation_failed', 'email_sent', 'email_failed', 'acknowledged')),
+  user_id UUID REFERENCES auth.users(id),
+  channel TEXT CHECK (channel IN ('in_app', 'email')),
+  details JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_alert_escalation_events_alert ON public.alert_escalation_events(alert_id, created_at);
+
+ALTER TABLE public.alert_escalation_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view alert escalation events"
+  ON public.alert_escalation_events FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+-- In-app notifications, one row per recipient
+CREATE TABLE public.notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  body TEXT,
+  link TEXT,
+  alert_id UUID REFERENCES public.health_alerts(id) ON DELETE SET NULL,
+  read_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_notifications_user_unread ON public.notifications(user_id, created_at DESC) WHERE read_at IS NULL;
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own notifications"
+  ON public.notifications FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can mark their own notifications read"
+  ON public.notifications FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Clinician on duty now in the given role, latest shift first
+CREATE OR REPLACE FUNCTION public.on_duty_clinician(p_duty_role TEXT, p_exclude UUID DEFAULT NULL)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT user_id FROM clinician_duty_rota
+  WHERE duty_role = p_duty_role
+    AND starts_at <= now()
+    AND ends_at > now()
+    AND user_id IS DISTINCT FROM p_exclude
+  ORDER BY starts_at DESC
+  LIMIT 1;
+$$;
+
+-- Assign new critical alerts to the primary on-duty clinician and start the acknowledgement clock
+CREATE OR REPLACE FUNCTION public.assign_critical_alert()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_ack_minutes INTEGER;
+BEGIN
+  IF NEW.severity <> 'critical' OR NEW.acknowledged_at IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COALESCE(ROUND((thresholds->>'criticalAlertAckMinutes')::NUMERIC)::INTEGER, 30) INTO v_ack_minutes
+  FROM clinical_rule_settings
+  LIMIT 1;
+
+  NEW.assigned_to := COALESCE(NEW.assigned_to, public.on_duty_clinician('primary'));
+  NEW.assigned_at := CASE WHEN NEW.assigned_to IS NOT NULL THEN now() END;
+  NEW.ack_due_at := now() + make_interval(mins => COALESCE(v_ack_minutes, 30));
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER assign_critical_alert
+  BEFORE INSERT ON public.health_alerts
+  FOR EACH ROW EXECUTE FUNCTION public.assign_critical_alert();
+
+CREATE OR REPLACE FUNCTION public.record_critical_alert_assignment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.ack_due_at IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.assigned_to IS NULL THEN
+    INSERT INTO alert_escalation_events (alert_id, event, details)
+    VALUES (NEW.id, 'unassigned', jsonb_build_object('reason', 'No primary clinician on duty', 'ack_due_at', NEW.ack_due_at));
+  ELSE
+    INSERT INTO alert_escalation_events (alert_id, event, user_id, channel, details)
+    VALUES (NEW.id, 'assigned', NEW.assigned_to, 'in_app', jsonb_build_object('ack_due_at', NEW.ack_due_at));
+
+    INSERT INTO notifications (user_id, title, body, link, alert_id)
+    VALUES (NEW.assigned_to, 'Critical alert assigned to you', NEW.title, '/', NEW.id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_critical_alert_assignment
+  AFTER INSERT ON public.health_alerts
+  FOR EACH ROW EXECUTE FUNCTION public.record_critical_alert_assignment();
+
+-- Close the chain when an escalated alert is acknowledged
+CREATE OR REPLACE FUNCTION public.record_alert_acknowledgement()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO alert_escalation_events (alert_id, event, user_id, details)
+  VALUES (
+    NEW.id,
+    'acknowledged',
+    NEW.acknowledged_by,
+    jsonb_build_object('overdue', NEW.acknowledged_at > NEW.ack_due_at, 'escalation_level', NEW.escalation_level)
+  );
+
+  UPDATE notifications SET read_at = now()
+  WHERE alert_id = NEW.id AND read_at IS NULL;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_alert_acknowledgement
+  AFTER UPDATE OF acknowledged_at ON public.health_alerts
+  FOR EACH ROW
+  WHEN (OLD.acknowledged_at IS NULL AND NEW.acknowledged_at IS NOT NULL AND NEW.ack_due_at IS NOT NULL)
+  EXECUTE FUNCTION public.record_alert_acknowledgement();
+
+-- Escalate critical alerts past their acknowledgement deadline to the backup
+-- clinician on duty, or failing that another GP or admin. Returns the alerts
+-- escalated so the caller can email the recipients.
+-- SKIP LOCKED lets overlapping worker runs share the work without escalating twice.
+CREATE OR REPLACE FUNCTION public.escalate_overdue_alerts()
+RETURNS TABLE (alert_id UUID, recipient UUID, title TEXT, description TEXT, ack_due_at TIMESTAMPTZ)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_alert RECORD;
+  v_recipient UUID;
+BEGIN
+  FOR v_alert IN
+    SELECT a.id, a.title, a.description, a.assigned_to, a.ack_due_at
+    FROM health_alerts a
+    WHERE a.acknowledged_at IS NULL
+      AND a.escalation_level = 0
+      AND a.ack_due_at <= now()
+    ORDER BY a.ack_due_at
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    v_recipient := public.on_duty_clinician('backup', v_alert.assigned_to);
+
+    IF v_recipient IS NULL THEN
+      SELECT ur.user_id INTO v_recipient
+      FROM user_roles ur
+      WHERE ur.role IN ('gp', 'admin')
+        AND ur.user_id IS DISTINCT FROM v_alert.assigned_to
+      ORDER BY (ur.role = 'gp') DESC, ur.user_id
+      LIMIT 1;
+    END IF;
+
+    UPDATE health_alerts
+    SET escalation_level = 1,
+        escalated_to = v_recipient,
+        escalated_at = now()
+    WHERE id = v_alert.id;
+
+    IF v_recipient IS NULL THEN
+      INSERT INTO alert_escalation_events (alert_id, event, details)
+      VALUES (v_alert.id, 'escalation_failed', jsonb_build_object('reason', 'No backup clinician, GP or admin available'));
+      CONTINUE;
+    END IF;
+
+    INSERT INTO alert_escalation_events (alert_id, event, user_id, channel, details)
+    VALUES (
+      v_alert.id,
+      'escalated',
+      v_recipient,
+      'in_app',
+      jsonb_build_object('from', v_alert.assigned_to, 'ack_due_at', v_alert.ack_due_at)
+    );
+
+    INSERT INTO notifications (user_id, title, body, link, alert_id)
+    VALUES (v_recipient, 'Critical alert escalated to you', v_alert.title, '/', v_alert.id);
+
+    alert_id := v_alert.id;
+    recipient := v_recipient;
+    title := v_alert.title;
+    description := v_alert.description;
+    ack_due_at := v_alert.ack_due_at;
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
+
+-- Check for overdue critical alerts every minute
+SELECT cron.schedule(
+  'alert-escalation',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://brukpbahpxhnsjnywywp.supabase.co/functions/v1/alert-escalation',
+    headers := '{"Content-Type": "application/json"}'::jsonb,
+    body := '{}'::jsonb
+  );
+  $$
+);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
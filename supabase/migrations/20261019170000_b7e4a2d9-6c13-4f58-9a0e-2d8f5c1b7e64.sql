@@ -0,0 +1,30 @@
+-- Red-flag symptoms (chest pain, stroke, breathing difficulty, suicidal
+-- thoughts) detected in patient speech while the call is still live
+
+ALTER TABLE public.calls
+  ADD COLUMN safeguarding_escalated BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN safeguarding_escalated_at TIMESTAMPTZ;
+
+-- One row per red-flag category per call, with the alert and task it raised
+CREATE TABLE public.call_red_flags (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  call_id UUID NOT NULL REFERENCES public.calls(id) ON DELETE CASCADE,
+  patient_id UUID NOT NULL REFERENCES public.patients(id) ON DELETE CASCADE,
+  category TEXT NOT NULL CHECK (category IN ('chest_pain', 'stroke', 'breathing', 'suicidal')),
+  matched_text TEXT NOT NULL,
+  source TEXT NOT NULL CHECK (source IN ('live', 'post_call')),
+  alert_id UUID REFERENCES public.health_alerts(id) ON DELETE SET NULL,
+  task_id UUID REFERENCES public.meditask_tasks(id) ON DELETE SET NULL,
+  detected_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (call_id, category)
+);
+
+COMMENT ON COLUMN public.call_red_flags.matched_text IS 'The red-flag wording only, not the whole transcript segment';
+
+CREATE INDEX idx_call_red_flags_patient ON public.call_red_flags(patient_id, detected_at DESC);
+
+ALTER TABLE public.call_red_flags ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view call red flags"
+  ON public.call_red_flags FOR SELECT
+  USING (auth.uid() IS NOT NULL);
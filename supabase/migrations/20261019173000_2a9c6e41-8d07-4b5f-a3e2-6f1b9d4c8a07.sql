@@ -0,0 +1,87 @@
+-- Native MediTask board: comments on tasks, and status and assignment changes
+-- recorded in audit_logs whichever client or edge function makes them
+
+CREATE TABLE public.meditask_task_comments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id UUID NOT NULL REFERENCES public.meditask_tasks(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id),
+  body TEXT NOT NULL CHECK (length(trim(body)) > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_meditask_task_comments_task ON public.meditask_task_comments(task_id, created_at);
+
+ALTER TABLE public.meditask_task_comments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view task comments"
+  ON public.meditask_task_comments FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Users can add their own task comments"
+  ON public.meditask_task_comments FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own task comments"
+  ON public.meditask_task_comments FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE INDEX idx_meditask_tasks_status_due ON public.meditask_tasks(status, due_date);
+CREATE INDEX idx_meditask_tasks_assigned ON public.meditask_tasks(assigned_to) WHERE status <> 'completed';
+
+-- completed_at follows the status, so reopening a task clears it
+CREATE OR REPLACE FUNCTION public.set_meditask_completed_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'completed' AND OLD.status <> 'completed' THEN
+    NEW.completed_at := COALESCE(NEW.completed_at, now());
+  ELSIF NEW.status <> 'completed' THEN
+    NEW.completed_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_meditask_completed_at
+  BEFORE UPDATE OF status ON public.meditask_tasks
+  FOR EACH ROW EXECUTE FUNCTION public.set_meditask_completed_at();
+
+CREATE OR REPLACE FUNCTION public.audit_meditask_task_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.audit_logs (action, entity_type, entity_id, user_id, details)
+    VALUES (
+      'task_status_changed',
+      'task',
+      NEW.id,
+      auth.uid(),
+      jsonb_build_object('from', OLD.status, 'to', NEW.status, 'title', NEW.title, 'patient_id', NEW.patient_id)
+    );
+  END IF;
+
+  IF NEW.assigned_to IS DISTINCT FROM OLD.assigned_to THEN
+    INSERT INTO public.audit_logs (action, entity_type, entity_id, user_id, details)
+    VALUES (
+      'task_assigned',
+      'task',
+      NEW.id,
+      auth.uid(),
+      jsonb_build_object('from', OLD.assigned_to, 'to', NEW.assigned_to, 'title', NEW.title)
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER audit_meditask_task_change
+  AFTER UPDATE OF status, assigned_to ON public.meditask_tasks
+  FOR EACH ROW EXECUTE FUNCTION public.audit_meditask_task_change();
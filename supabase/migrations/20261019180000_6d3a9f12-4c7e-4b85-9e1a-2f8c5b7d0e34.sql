@@ -0,0 +1,122 @@
+-- Recurring call programmes: a saved patient cohort called on a schedule (for
+-- example a monthly BP check for the hypertension register). The call-programmes
+-- worker generates one batch per cycle and drops patients who reach target or die.
+
+ALTER TABLE public.patients
+  ADD COLUMN IF NOT EXISTS date_of_death DATE;
+
+-- Saved patient cohort queries; criteria are evaluated by _shared/patient-cohorts.ts
+CREATE TABLE public.patient_cohorts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  description TEXT,
+  criteria JSONB NOT NULL DEFAULT '{}',
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.patient_cohorts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view cohorts" ON public.patient_cohorts FOR SELECT USING (auth.uid() IS NOT NULL);
+CREATE POLICY "Authenticated users can create cohorts" ON public.patient_cohorts FOR INSERT WITH CHECK (auth.uid() IS NOT NULL);
+CREATE POLICY "Authenticated users can update cohorts" ON public.patient_cohorts FOR UPDATE USING (auth.uid() IS NOT NULL);
+CREATE POLICY "Authenticated users can delete cohorts" ON public.patient_cohorts FOR DELETE USING (auth.uid() IS NOT NULL);
+
+CREATE TRIGGER update_patient_cohorts_updated_at BEFORE UPDATE ON public.patient_cohorts FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TABLE public.call_programmes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  description TEXT,
+  cohort_id UUID NOT NULL REFERENCES public.patient_cohorts(id) ON DELETE RESTRICT,
+  script_id UUID REFERENCES public.call_scripts(id) ON DELETE SET NULL,
+  target_qof_indicators TEXT[] NOT NULL DEFAULT '{}',
+  frequency TEXT NOT NULL CHECK (frequency IN ('weekly', 'fortnightly', 'monthly', 'quarterly')),
+  -- Runs fall on starts_on plus whole frequency periods, so monthly runs keep their day of the month
+  starts_on DATE NOT NULL,
+  next_run_date DATE NOT NULL,
+  ends_on DATE,
+  scheduled_time_start TIME NOT NULL DEFAULT '09:00',
+  scheduled_time_end TIME NOT NULL DEFAULT '17:00',
+  retry_attempts INTEGER NOT NULL DEFAULT 3,
+  retry_backoff_minutes INTEGER[] NOT NULL DEFAULT '{120,1440}',
+  -- Queue each generated batch straight away rather than waiting for someone to start it
+  auto_start BOOLEAN NOT NULL DEFAULT true,
+  -- Stop calling patients once their latest readings meet the indicators' targets
+  exit_on_target BOOLEAN NOT NULL DEFAULT true,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'paused', 'ended')),
+  cycles_run INTEGER NOT NULL DEFAULT 0,
+  last_run_at TIMESTAMPTZ,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_call_programmes_due ON public.call_programmes(next_run_date) WHERE status = 'active';
+
+ALTER TABLE public.call_programmes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view programmes" ON public.call_programmes FOR SELECT USING (auth.uid() IS NOT NULL);
+CREATE POLICY "Authenticated users can create programmes" ON public.call_programmes FOR INSERT WITH CHECK (auth.uid() IS NOT NULL);
+CREATE POLICY "Authenticated users can update programmes" ON public.call_programmes FOR UPDATE USING (auth.uid() IS NOT NULL);
+CREATE POLICY "Authenticated users can delete programmes" ON public.call_programmes FOR DELETE USING (auth.uid() IS NOT NULL);
+
+CREATE TRIGGER update_call_programmes_updated_at BEFORE UPDATE ON public.call_programmes FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Programme membership. Exited patients are not called again; only those who
+-- left the cohort rejoin automatically if they match it again.
+CREATE TABLE public.call_programme_patients (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  programme_id UUID NOT NULL REFERENCES public.call_programmes(id) ON DELETE CASCADE,
+  patient_id UUID NOT NULL REFERENCES public.patients(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'exited')),
+  exit_reason TEXT CHECK (exit_reason IN ('target_reached', 'deceased', 'left_cohort', 'removed')),
+  exit_details JSONB NOT NULL DEFAULT '{}',
+  joined_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  exited_at TIMESTAMPTZ,
+  UNIQUE (programme_id, patient_id),
+  CHECK ((status = 'exited') = (exit_reason IS NOT NULL))
+);
+
+CREATE INDEX idx_call_programme_patients_patient ON public.call_programme_patients(patient_id);
+
+ALTER TABLE public.call_programme_patients ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view programme patients" ON public.call_programme_patients FOR SELECT USING (auth.uid() IS NOT NULL);
+CREATE POLICY "Authenticated users can update programme patients" ON public.call_programme_patients FOR UPDATE USING (auth.uid() IS NOT NULL);
+
+ALTER TABLE public.call_batches
+  ADD COLUMN IF NOT EXISTS programme_id UUID REFERENCES public.call_programmes(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS programme_cycle INTEGER;
+
+CREATE UNIQUE INDEX idx_call_batches_programme_cycle ON public.call_batches(programme_id, programme_cycle)
+  WHERE programme_id IS NOT NULL;
+
+-- Completion of each programme cycle: patients called vs patients reached
+CREATE VIEW public.call_programme_cycles
+WITH (security_invoker = true)
+AS
+SELECT
+  b.programme_id,
+  b.programme_cycle AS cycle,
+  b.id AS batch_id,
+  b.scheduled_date,
+  b.status,
+  (SELECT COUNT(*) FROM public.batch_patients bp WHERE bp.batch_id = b.id) AS patients,
+  (SELECT COUNT(DISTINCT c.patient_id) FROM public.calls c WHERE c.batch_id = b.id AND c.status = 'completed') AS completed
+FROM public.call_batches b
+WHERE b.programme_id IS NOT NULL;
+
+-- Generate programme batches once a day, early enough to be queued for the morning window
+SELECT cron.schedule(
+  'call-programmes',
+  '0 6 * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://brukpbahpxhnsjnywywp.supabase.co/functions/v1/call-programmes',
+    headers := '{"Content-Type": "application/json"}'::jsonb,
+    body := '{}'::jsonb
+  );
+  $$
+);
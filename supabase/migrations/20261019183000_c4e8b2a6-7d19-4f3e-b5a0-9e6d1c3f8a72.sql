@@ -0,0 +1,45 @@
+-- QOF Personalised Care Adjustments (PCAs): a patient excepted from one
+-- indicator for a recorded reason, until the exception expires or is revoked.
+-- Exceptions come off QOF gap lists and achievement denominators. Proposals
+-- raised from declined or unanswered calls are stored as 'dismissed' when a
+-- clinician rejects them, so they are not proposed again that QOF year.
+
+CREATE TABLE public.qof_exceptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  patient_id UUID NOT NULL REFERENCES public.patients(id) ON DELETE CASCADE,
+  -- QOF_INDICATORS[].code in src/lib/qof-codes.ts
+  indicator_code TEXT NOT NULL,
+  reason TEXT NOT NULL CHECK (reason IN ('informed_dissent', 'unsuitable', 'invitations_declined')),
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'revoked', 'dismissed')),
+  -- How the exception was raised: recorded by hand, or proposed from call outcomes
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'declined_consent', 'no_answer')),
+  -- Calls a proposal was raised from
+  evidence_call_ids UUID[] NOT NULL DEFAULT '{}',
+  notes TEXT,
+  recorded_on DATE NOT NULL DEFAULT CURRENT_DATE,
+  -- No longer applies after this date; open-ended when null
+  expires_on DATE,
+  recorded_by UUID REFERENCES auth.users(id),
+  revoked_by UUID REFERENCES auth.users(id),
+  revoked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK ((status = 'revoked') = (revoked_at IS NOT NULL)),
+  CHECK (expires_on IS NULL OR expires_on >= recorded_on)
+);
+
+-- One active exception per patient and indicator
+CREATE UNIQUE INDEX idx_qof_exceptions_active ON public.qof_exceptions(patient_id, indicator_code) WHERE status = 'active';
+CREATE INDEX idx_qof_exceptions_patient ON public.qof_exceptions(patient_id);
+
+ALTER TABLE public.qof_exceptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view QOF exceptions" ON public.qof_exceptions FOR SELECT USING (auth.uid() IS NOT NULL);
+
+-- Excepting a patient is a clinical decision
+CREATE POLICY "Clinicians can record QOF exceptions" ON public.qof_exceptions FOR INSERT
+  WITH CHECK (has_role(auth.uid(), 'gp'::app_role) OR has_role(auth.uid(), 'admin'::app_role));
+CREATE POLICY "Clinicians can update QOF exceptions" ON public.qof_exceptions FOR UPDATE
+  USING (has_role(auth.uid(), 'gp'::app_role) OR has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_qof_exceptions_updated_at BEFORE UPDATE ON public.qof_exceptions FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
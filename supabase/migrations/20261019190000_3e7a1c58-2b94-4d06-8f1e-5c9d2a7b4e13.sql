@@ -0,0 +1,32 @@
+-- Published script versions are frozen: calls record the version they used,
+-- so its questions must not change afterwards. Changes go into a new draft
+-- version; a published version can only be archived.
+
+CREATE OR REPLACE FUNCTION public.freeze_published_call_script()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.status = 'draft' THEN
+    RETURN NEW;
+  END IF;
+
+  IF (NEW.family_id, NEW.version, NEW.name, NEW.description, NEW.purpose_context, NEW.questions, NEW.closing_statement, NEW.created_by, NEW.published_at)
+    IS DISTINCT FROM
+    (OLD.family_id, OLD.version, OLD.name, OLD.description, OLD.purpose_context, OLD.questions, OLD.closing_statement, OLD.created_by, OLD.published_at)
+  THEN
+    RAISE EXCEPTION 'Call script % version % is %; create a new version to make changes', OLD.name, OLD.version, OLD.status;
+  END IF;
+
+  IF NEW.status <> OLD.status AND NOT (OLD.status = 'published' AND NEW.status = 'archived') THEN
+    RAISE EXCEPTION 'A % call script cannot be moved to %', OLD.status, NEW.status;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER freeze_published_call_script
+  BEFORE UPDATE ON public.call_scripts
+  FOR EACH ROW EXECUTE FUNCTION public.freeze_published_call_script();
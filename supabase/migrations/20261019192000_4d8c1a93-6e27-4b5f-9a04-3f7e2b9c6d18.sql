@@ -0,0 +1,321 @@
+-- Signing off, rejecting and amending extracted values is clinical work:
+-- restrict the verification functions to the clinical roles, not just any
+-- signed-in user.
+CREATE OR REPLACE FUNCTION public.is_clinician(_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_role(_user_id, 'gp')
+    OR public.has_role(_user_id, 'nurse')
+    OR public.has_role(_user_id, 'care_home_doctor')
+    OR public.has_role(_user_id, 'admin')
+$$;
+
+CREATE OR REPLACE FUNCTION public.verify_call_response(
+    p_response_id UUID,
+    p_verified_by UUID,
+    p_clinical_notes TEXT DEFAULT NULL
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_response public.call_responses%ROWTYPE;
+    v_critical JSONB;
+BEGIN
+    IF p_verified_by IS DISTINCT FROM auth.uid() THEN
+        RAISE EXCEPTION 'Sign-off must be recorded against the signed-in clinician';
+    END IF;
+
+    IF NOT public.is_clinician(auth.uid()) THEN
+        RAISE EXCEPTION 'Only clinicians can sign off call responses';
+    END IF;
+
+    SELECT * INTO v_response FROM public.call_responses WHERE id = p_response_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Call response not found';
+    END IF;
+
+    IF v_response.verification_status = 'unverified' THEN
+        v_critical := public.call_response_critical_values(p_response_id);
+
+        IF jsonb_array_length(v_critical) > 0 THEN
+            UPDATE public.call_responses
+            SET
+                verification_status = 'awaiting_second_signoff',
+                first_signoff_by = p_verified_by,
+                first_signoff_at = now(),
+                critical_values = v_critical,
+                clinical_notes = COALESCE(p_clinical_notes, clinical_notes)
+            WHERE id = p_response_id;
+
+            INSERT INTO public.call_audit_log (call_id, action, actor, details)
+            VALUES (
+                v_response.call_id,
+                'clinical_first_signoff',
+                p_verified_by::text,
+                jsonb_build_object(
+                    'response_id', p_response_id,
+                    'collected_at', v_response.collected_at,
+                    'critical_values', v_critical,
+                    'notes', p_clinical_notes
+                )
+            );
+
+            RETURN 'awaiting_second_signoff';
+        END IF;
+    ELSIF v_response.verification_status = 'awaiting_second_signoff' THEN
+        IF v_response.first_signoff_by = p_verified_by THEN
+            RAISE EXCEPTION 'Critical values must be countersigned by a second clinician';
+        END IF;
+    ELSE
+        RAISE EXCEPTION 'This response has already been %', v_response.verification_status;
+    END IF;
+
+    UPDATE public.call_responses
+    SET
+        verification_status = 'verified',
+        verified_by = p_verified_by,
+        verified_at = now(),
+        clinical_notes = COALESCE(p_clinical_notes, clinical_notes)
+    WHERE id = p_response_id;
+
+    INSERT INTO public.call_audit_log (call_id, action, actor, details)
+    VALUES (
+        v_response.call_id,
+        CASE WHEN v_response.verification_status = 'awaiting_second_signoff'
+            THEN 'clinical_second_signoff' ELSE 'clinical_verification' END,
+        p_verified_by::text,
+        jsonb_build_object(
+            'response_id', p_response_id,
+            'collected_at', v_response.collected_at,
+            'first_signoff_by', v_response.first_signoff_by,
+            'notes', p_clinical_notes
+        )
+    );
+
+    RETURN 'verified';
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reject_call_response(
+    p_response_id UUID,
+    p_rejected_by UUID,
+    p_rejection_reason TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_response public.call_responses%ROWTYPE;
+BEGIN
+    IF p_rejected_by IS DISTINCT FROM auth.uid() THEN
+        RAISE EXCEPTION 'Rejection must be recorded against the signed-in clinician';
+    END IF;
+
+    IF NOT public.is_clinician(auth.uid()) THEN
+        RAISE EXCEPTION 'Only clinicians can reject call responses';
+    END IF;
+
+    SELECT * INTO v_response FROM public.call_responses WHERE id = p_response_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RETURN FALSE;
+    END IF;
+
+    IF v_response.verification_status NOT IN ('unverified', 'awaiting_second_signoff') THEN
+        RAISE EXCEPTION 'This response has already been %', v_response.verification_status;
+    END IF;
+
+    UPDATE public.call_responses
+    SET
+        verification_status = 'rejected',
+        verified_by = p_rejected_by,
+        verified_at = now(),
+        clinical_notes = p_rejection_reason
+    WHERE id = p_response_id;
+
+    INSERT INTO public.call_audit_log (call_id, action, actor, details)
+    VALUES (
+        v_response.call_id,
+        'clinical_rejection',
+        p_rejected_by::text,
+        jsonb_build_object(
+            'response_id', p_response_id,
+            'collected_at', v_response.collected_at,
+            'stage', v_response.verification_status,
+            'reason', p_rejection_reason
+        )
+    );
+
+    RETURN TRUE;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.amend_call_response_value(
+    p_response_id UUID,
+    p_field TEXT,
+    p_value NUMERIC,
+    p_reason TEXT
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID;
+    v_response public.call_responses%ROWTYPE;
+    v_old NUMERIC;
+    v_new NUMERIC;
+    v_amendment_id UUID;
+BEGIN
+    v_user_id := auth.uid();
+    IF NOT public.is_clinician(v_user_id) THEN
+        RAISE EXCEPTION 'Only clinicians can amend call responses';
+    END IF;
+
+    IF COALESCE(trim(p_reason), '') = '' THEN
+        RAISE EXCEPTION 'A reason is required to amend a value';
+    END IF;
+
+    IF p_value IS NULL OR p_value < 0 THEN
+        RAISE EXCEPTION 'The amended value must be zero or more';
+    END IF;
+
+    SELECT * INTO v_response FROM public.call_responses WHERE id = p_response_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Call response not found';
+    END IF;
+
+    IF v_response.verification_status NOT IN ('unverified', 'awaiting_second_signoff') THEN
+        RAISE EXCEPTION 'Only responses awaiting verification can be amended';
+    END IF;
+
+    IF p_field IN ('blood_pressure_systolic', 'blood_pressure_diastolic', 'pulse_rate', 'weight_kg', 'height_cm', 'alcohol_units_per_week') THEN
+        v_old := (to_jsonb(v_response)->>p_field)::numeric;
+        IF v_old IS NULL THEN
+            RAISE EXCEPTION 'No % was extracted from this call', p_field;
+        END IF;
+
+        -- Whole-number columns round the value; the stored value is the one recorded
+        EXECUTE format('UPDATE public.call_responses SET %I = $1 WHERE id = $2 RETURNING %I', p_field, p_field)
+            INTO v_new USING p_value, p_response_id;
+    ELSE
+        SELECT value_numeric INTO v_old
+        FROM public.patient_observations
+        WHERE call_response_id = p_response_id AND observation_key = p_field AND value_numeric IS NOT NULL
+        LIMIT 1;
+        IF v_old IS NULL THEN
+            RAISE EXCEPTION 'No numeric % was recorded for this call', p_field;
+        END IF;
+        v_new := p_value;
+    END IF;
+
+    IF v_new = v_old THEN
+        RAISE EXCEPTION 'The amended value is the same as the current value';
+    END IF;
+
+    UPDATE public.patient_observations
+    SET value_numeric = v_new
+    WHERE call_response_id = p_response_id AND observation_key = p_field;
+
+    INSERT INTO public.call_response_amendments (call_response_id, field, original_value, amended_value, reason, amended_by)
+    VALUES (p_response_id, p_field, v_old, v_new, trim(p_reason), v_user_id)
+    RETURNING id INTO v_amendment_id;
+
+    -- A first sign-off covered the values as they were, so it no longer stands
+    IF v_response.verification_status = 'awaiting_second_signoff' THEN
+        UPDATE public.call_responses
+        SET verification_status = 'unverified', first_signoff_by = NULL, first_signoff_at = NULL, critical_values = NULL
+        WHERE id = p_response_id;
+    END IF;
+
+    INSERT INTO public.call_audit_log (call_id, action, actor, details)
+    VALUES (
+        v_response.call_id,
+        'clinical_amendment',
+        v_user_id::text,
+        jsonb_build_object(
+            'response_id', p_response_id,
+            'amendment_id', v_amendment_id,
+            'field', p_field,
+            'from', v_old,
+            'to', v_new,
+            'reason', trim(p_reason),
+            'first_signoff_withdrawn', v_response.verification_status = 'awaiting_second_signoff'
+        )
+    );
+
+    RETURN v_amendment_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.bulk_verify_call_responses(
+    p_response_ids UUID[],
+    p_clinical_notes TEXT DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID;
+    v_response public.call_responses%ROWTYPE;
+    v_count INTEGER := 0;
+BEGIN
+    v_user_id := auth.uid();
+    IF NOT public.is_clinician(v_user_id) THEN
+        RAISE EXCEPTION 'Only clinicians can sign off call responses';
+    END IF;
+
+    FOR v_response IN
+        SELECT * FROM public.call_responses
+        WHERE id = ANY(p_response_ids)
+        ORDER BY id
+        FOR UPDATE
+    LOOP
+        IF v_response.verification_status <> 'unverified'
+            OR v_response.needs_review
+            OR COALESCE(jsonb_array_length(v_response.plausibility_flags), 0) > 0
+            OR v_response.min_confidence IS NULL
+            OR v_response.min_confidence < 0.8
+            OR jsonb_array_length(public.call_response_critical_values(v_response.id)) > 0
+        THEN
+            CONTINUE;
+        END IF;
+
+        UPDATE public.call_responses
+        SET
+            verification_status = 'verified',
+            verified_by = v_user_id,
+            verified_at = now(),
+            clinical_notes = COALESCE(p_clinical_notes, clinical_notes)
+        WHERE id = v_response.id;
+
+        INSERT INTO public.call_audit_log (call_id, action, actor, details)
+        VALUES (
+            v_response.call_id,
+            'clinical_bulk_verification',
+            v_user_id::text,
+            jsonb_build_object(
+                'response_id', v_response.id,
+                'collected_at', v_response.collected_at,
+                'batch_size', cardinality(p_response_ids),
+                'notes', p_clinical_notes
+            )
+        );
+
+        v_count := v_count + 1;
+    END LOOP;
+
+    RETURN v_count;
+END;
+$$;
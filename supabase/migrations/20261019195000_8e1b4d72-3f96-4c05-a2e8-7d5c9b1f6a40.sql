@@ -0,0 +1,83 @@
+-- Run one programme cycle in a single transaction: claim it by moving the run
+-- date on, apply the membership changes worked out by the call-programmes
+-- worker and create the cycle's batch. If any step fails nothing is kept, so
+-- the cycle is still due on the next run instead of being skipped.
+-- p_exits: [{ "id": call_programme_patients id, "reason", "details" }]
+-- p_call_patient_ids: patients to call, in batch priority order.
+-- Returns { claimed, cycle, batch }; claimed is false when another run already
+-- took the cycle, and batch is null when there is no one left to call.
+CREATE OR REPLACE FUNCTION public.run_call_programme_cycle(
+    p_programme_id UUID,
+    p_run_date DATE,
+    p_next_run_date DATE,
+    p_batch_date DATE,
+    p_exits JSONB DEFAULT '[]',
+    p_rejoin_member_ids UUID[] DEFAULT '{}',
+    p_join_patient_ids UUID[] DEFAULT '{}',
+    p_call_patient_ids UUID[] DEFAULT '{}'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_programme public.call_programmes%ROWTYPE;
+    v_batch public.call_batches%ROWTYPE;
+BEGIN
+    UPDATE public.call_programmes
+    SET
+        next_run_date = p_next_run_date,
+        cycles_run = cycles_run + 1,
+        last_run_at = now(),
+        status = CASE WHEN ends_on IS NOT NULL AND p_next_run_date > ends_on THEN 'ended' ELSE 'active' END
+    WHERE id = p_programme_id AND status = 'active' AND next_run_date = p_run_date
+    RETURNING * INTO v_programme;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('claimed', false);
+    END IF;
+
+    UPDATE public.call_programme_patients m
+    SET status = 'exited', exit_reason = e.reason, exit_details = COALESCE(e.details, '{}'), exited_at = now()
+    FROM jsonb_to_recordset(COALESCE(p_exits, '[]')) AS e(id UUID, reason TEXT, details JSONB)
+    WHERE m.id = e.id AND m.programme_id = p_programme_id;
+
+    UPDATE public.call_programme_patients
+    SET status = 'active', exit_reason = NULL, exit_details = '{}', exited_at = NULL, joined_at = now()
+    WHERE programme_id = p_programme_id AND id = ANY(COALESCE(p_rejoin_member_ids, '{}'));
+
+    INSERT INTO public.call_programme_patients (programme_id, patient_id)
+    SELECT p_programme_id, patient_id
+    FROM unnest(COALESCE(p_join_patient_ids, '{}')) AS patient_id;
+
+    IF COALESCE(cardinality(p_call_patient_ids), 0) = 0 THEN
+        RETURN jsonb_build_object('claimed', true, 'cycle', v_programme.cycles_run, 'batch', NULL);
+    END IF;
+
+    INSERT INTO public.call_batches (
+        name, scheduled_date, scheduled_time_start, scheduled_time_end, retry_attempts, retry_backoff_minutes,
+        script_id, target_qof_indicators, programme_id, programme_cycle, created_by
+    )
+    VALUES (
+        v_programme.name || ' - ' || to_char(p_batch_date, 'YYYY-MM-DD'),
+        p_batch_date,
+        v_programme.scheduled_time_start,
+        v_programme.scheduled_time_end,
+        v_programme.retry_attempts,
+        v_programme.retry_backoff_minutes,
+        v_programme.script_id,
+        v_programme.target_qof_indicators,
+        v_programme.id,
+        v_programme.cycles_run,
+        v_programme.created_by
+    )
+    RETURNING * INTO v_batch;
+
+    INSERT INTO public.batch_patients (batch_id, patient_id, priority)
+    SELECT v_batch.id, c.patient_id, c.position - 1
+    FROM unnest(p_call_patient_ids) WITH ORDINALITY AS c(patient_id, position);
+
+    RETURN jsonb_build_object('claimed', true, 'cycle', v_programme.cycles_run, 'batch', to_jsonb(v_batch));
+END;
+$$;
@@ -0,0 +1,158 @@
+-- QOF exceptions cascade with the patient, so merge_patients must move the
+-- duplicate's onto the survivor. Only one exception per indicator can be active.
+CREATE OR REPLACE FUNCTION public.merge_patients(
+    p_survivor_id UUID,
+    p_duplicate_id UUID,
+    p_fields_from_duplicate TEXT[] DEFAULT '{}',
+    p_reason TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID;
+    v_survivor JSONB;
+    v_duplicate JSONB;
+    v_field TEXT;
+    v_field_updates JSONB := '{}'::jsonb;
+    v_moved JSONB := '{}'::jsonb;
+    v_table TEXT;
+    v_count INTEGER;
+    v_anonymous_id UUID;
+    v_merge_id UUID;
+BEGIN
+    v_user_id := auth.uid();
+
+    IF NOT (public.has_role(v_user_id, 'gp') OR public.has_role(v_user_id, 'admin')) THEN
+        RAISE EXCEPTION 'Only GPs and admins can merge patient records';
+    END IF;
+
+    IF p_survivor_id = p_duplicate_id THEN
+        RAISE EXCEPTION 'Cannot merge a patient into itself';
+    END IF;
+
+    -- Lock both records in a stable order so concurrent merges cannot deadlock
+    PERFORM 1 FROM public.patients WHERE id IN (p_survivor_id, p_duplicate_id) ORDER BY id FOR UPDATE;
+    SELECT to_jsonb(p) INTO v_survivor FROM public.patients p WHERE p.id = p_survivor_id;
+    SELECT to_jsonb(p) INTO v_duplicate FROM public.patients p WHERE p.id = p_duplicate_id;
+
+    IF v_survivor IS NULL OR v_duplicate IS NULL THEN
+        RAISE EXCEPTION 'Patient not found';
+    END IF;
+
+    -- Fields chosen from the duplicate
+    FOREACH v_field IN ARRAY COALESCE(p_fields_from_duplicate, '{}')
+    LOOP
+        IF v_field IN ('id', 'created_at', 'created_by', 'updated_at') OR NOT (v_survivor ? v_field) THEN
+            RAISE EXCEPTION 'Cannot merge patient field %', v_field;
+        END IF;
+        IF (v_survivor->v_field) IS DISTINCT FROM (v_duplicate->v_field) THEN
+            EXECUTE format(
+                'UPDATE public.patients s SET %1$I = d.%1$I FROM public.patients d WHERE s.id = $1 AND d.id = $2',
+                v_field
+            ) USING p_survivor_id, p_duplicate_id;
+            v_field_updates := v_field_updates || jsonb_build_object(
+                v_field, jsonb_build_object('old', v_survivor->v_field, 'new', v_duplicate->v_field)
+            );
+        END IF;
+    END LOOP;
+
+    UPDATE public.patients SET updated_at = now() WHERE id = p_survivor_id;
+
+    -- Batch membership: one row per batch, so drop the duplicate's where the survivor is already in the batch
+    DELETE FROM public.batch_patients d
+    USING public.batch_patients s
+    WHERE d.patient_id = p_duplicate_id AND s.patient_id = p_survivor_id AND s.batch_id = d.batch_id;
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    IF v_count > 0 THEN
+        v_moved := v_moved || jsonb_build_object('batch_patients_dropped', v_count);
+    END IF;
+
+    DELETE FROM public.call_queue d
+    USING public.call_queue s
+    WHERE d.patient_id = p_duplicate_id AND s.patient_id = p_survivor_id
+      AND s.batch_id = d.batch_id AND s.attempt_number = d.attempt_number;
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    IF v_count > 0 THEN
+        v_moved := v_moved || jsonb_build_object('call_queue_dropped', v_count);
+    END IF;
+
+    -- Programme membership: one row per programme, so drop the duplicate's where the survivor is already a member
+    DELETE FROM public.call_programme_patients d
+    USING public.call_programme_patients s
+    WHERE d.patient_id = p_duplicate_id AND s.patient_id = p_survivor_id AND s.programme_id = d.programme_id;
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    IF v_count > 0 THEN
+        v_moved := v_moved || jsonb_build_object('call_programme_patients_dropped', v_count);
+    END IF;
+
+    -- QOF exceptions: one active row per indicator, so revoke the duplicate's where the survivor already has one
+    UPDATE public.qof_exceptions d
+    SET status = 'revoked', revoked_at = now(), revoked_by = v_user_id
+    FROM public.qof_exceptions s
+    WHERE d.patient_id = p_duplicate_id AND d.status = 'active'
+      AND s.patient_id = p_survivor_id AND s.status = 'active' AND s.indicator_code = d.indicator_code;
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    IF v_count > 0 THEN
+        v_moved := v_moved || jsonb_build_object('qof_exceptions_revoked', v_count);
+    END IF;
+
+    FOREACH v_table IN ARRAY ARRAY[
+        'calls', 'call_responses', 'batch_patients', 'call_queue', 'health_alerts', 'ai_summaries',
+        'meditask_tasks', 'patient_observations', 'patient_access_log', 'data_sharing_requests',
+        'data_subject_requests', 'patient_medication_changes', 'call_red_flags',
+        'call_programme_patients', 'qof_exceptions'
+    ]
+    LOOP
+        EXECUTE format('UPDATE public.%I SET patient_id = $1 WHERE patient_id = $2', v_table)
+        USING p_survivor_id, p_duplicate_id;
+        GET DIAGNOSTICS v_count = ROW_COUNT;
+        IF v_count > 0 THEN
+            v_moved := v_moved || jsonb_build_object(v_table, v_count);
+        END IF;
+    END LOOP;
+
+    -- Pseudonyms are one per patient: keep the survivor's, or adopt the duplicate's if it has none
+    SELECT anonymous_id INTO v_anonymous_id FROM public.patient_pseudonyms WHERE patient_id = p_duplicate_id;
+    IF v_anonymous_id IS NOT NULL
+       AND NOT EXISTS (SELECT 1 FROM public.patient_pseudonyms WHERE patient_id = p_survivor_id) THEN
+        UPDATE public.patient_pseudonyms SET patient_id = p_survivor_id WHERE patient_id = p_duplicate_id;
+        v_moved := v_moved || jsonb_build_object('patient_pseudonyms', 1);
+    END IF;
+
+    INSERT INTO public.patient_merges (
+        survivor_id, merged_patient_id, merged_patient_snapshot, field_updates, moved_records, reason, merged_by
+    )
+    VALUES (
+        p_survivor_id,
+        p_duplicate_id,
+        v_duplicate || jsonb_build_object('anonymous_id', v_anonymous_id),
+        v_field_updates,
+        v_moved,
+        p_reason,
+        v_user_id
+    )
+    RETURNING id INTO v_merge_id;
+
+    DELETE FROM public.patients WHERE id = p_duplicate_id;
+
+    INSERT INTO public.audit_logs (action, entity_type, entity_id, user_id, details)
+    VALUES (
+        'merge_patients',
+        'patient',
+        p_survivor_id,
+        v_user_id,
+        jsonb_build_object(
+            'merge_id', v_merge_id,
+            'merged_patient_id', p_duplicate_id,
+            'fields_from_duplicate', to_jsonb(COALESCE(p_fields_from_duplicate, '{}')),
+            'moved_records', v_moved,
+            'reason', p_reason
+        )
+    );
+
+    RETURN v_merge_id;
+END;
+$$;
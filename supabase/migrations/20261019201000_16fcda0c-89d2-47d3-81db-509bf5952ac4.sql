@@ -0,0 +1,109 @@
+-- A value held back by the plausibility checks is stored as null, so the
+-- clinician reviewing it could not record the correct value. Amending a held-
+-- back column is now allowed, and its amendment keeps null as the original.
+
+ALTER TABLE public.call_response_amendments ALTER COLUMN original_value DROP NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.amend_call_response_value(
+    p_response_id UUID,
+    p_field TEXT,
+    p_value NUMERIC,
+    p_reason TEXT
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID;
+    v_response public.call_responses%ROWTYPE;
+    v_old NUMERIC;
+    v_new NUMERIC;
+    v_amendment_id UUID;
+BEGIN
+    v_user_id := auth.uid();
+    IF NOT public.is_clinician(v_user_id) THEN
+        RAISE EXCEPTION 'Only clinicians can amend call responses';
+    END IF;
+
+    IF COALESCE(trim(p_reason), '') = '' THEN
+        RAISE EXCEPTION 'A reason is required to amend a value';
+    END IF;
+
+    IF p_value IS NULL OR p_value < 0 THEN
+        RAISE EXCEPTION 'The amended value must be zero or more';
+    END IF;
+
+    SELECT * INTO v_response FROM public.call_responses WHERE id = p_response_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Call response not found';
+    END IF;
+
+    IF v_response.verification_status NOT IN ('unverified', 'awaiting_second_signoff') THEN
+        RAISE EXCEPTION 'Only responses awaiting verification can be amended';
+    END IF;
+
+    IF p_field IN ('blood_pressure_systolic', 'blood_pressure_diastolic', 'pulse_rate', 'weight_kg', 'height_cm', 'alcohol_units_per_week') THEN
+        v_old := (to_jsonb(v_response)->>p_field)::numeric;
+        -- An implausible value was held back by leaving the column empty; the
+        -- clinician records the correct one, with null as the original value
+        IF v_old IS NULL AND NOT EXISTS (
+            SELECT 1 FROM jsonb_array_elements(COALESCE(v_response.plausibility_flags, '[]')) AS flag
+            WHERE flag->>'field' = p_field
+        ) THEN
+            RAISE EXCEPTION 'No % was extracted from this call', p_field;
+        END IF;
+
+        -- Whole-number columns round the value; the stored value is the one recorded
+        EXECUTE format('UPDATE public.call_responses SET %I = $1 WHERE id = $2 RETURNING %I', p_field, p_field)
+            INTO v_new USING p_value, p_response_id;
+    ELSE
+        SELECT value_numeric INTO v_old
+        FROM public.patient_observations
+        WHERE call_response_id = p_response_id AND observation_key = p_field AND value_numeric IS NOT NULL
+        LIMIT 1;
+        IF v_old IS NULL THEN
+            RAISE EXCEPTION 'No numeric % was recorded for this call', p_field;
+        END IF;
+        v_new := p_value;
+    END IF;
+
+    IF v_new IS NOT DISTINCT FROM v_old THEN
+        RAISE EXCEPTION 'The amended value is the same as the current value';
+    END IF;
+
+    UPDATE public.patient_observations
+    SET value_numeric = v_new
+    WHERE call_response_id = p_response_id AND observation_key = p_field;
+
+    INSERT INTO public.call_response_amendments (call_response_id, field, original_value, amended_value, reason, amended_by)
+    VALUES (p_response_id, p_field, v_old, v_new, trim(p_reason), v_user_id)
+    RETURNING id INTO v_amendment_id;
+
+    -- A first sign-off covered the values as they were, so it no longer stands
+    IF v_response.verification_status = 'awaiting_second_signoff' THEN
+        UPDATE public.call_responses
+        SET verification_status = 'unverified', first_signoff_by = NULL, first_signoff_at = NULL, critical_values = NULL
+        WHERE id = p_response_id;
+    END IF;
+
+    INSERT INTO public.call_audit_log (call_id, action, actor, details)
+    VALUES (
+        v_response.call_id,
+        'clinical_amendment',
+        v_user_id::text,
+        jsonb_build_object(
+            'response_id', p_response_id,
+            'amendment_id', v_amendment_id,
+            'field', p_field,
+            'from', v_old,
+            'to', v_new,
+            'reason', trim(p_reason),
+            'first_signoff_withdrawn', v_response.verification_status = 'awaiting_second_signoff'
+        )
+    );
+
+    RETURN v_amendment_id;
+END;
+$$;
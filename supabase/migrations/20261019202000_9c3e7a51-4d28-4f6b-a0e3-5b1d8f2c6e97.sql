@@ -0,0 +1,21 @@
+-- Only the call-queue-worker may claim queue items: claiming marks them as
+-- dispatching, so any caller able to run it could hold back a batch's calls.
+REVOKE EXECUTE ON FUNCTION public.claim_call_queue_items(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_call_queue_items(UUID, INTEGER) TO service_role;
+
+-- The worker now rejects requests without the service role key, so the cron
+-- job sends it from the vault (stored there as 'service_role_key')
+SELECT cron.schedule(
+  'call-queue-worker',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://brukpbahpxhnsjnywywp.supabase.co/functions/v1/call-queue-worker',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);